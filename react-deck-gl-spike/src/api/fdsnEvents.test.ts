@@ -0,0 +1,212 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach } from 'vitest';
+import { ZodError } from 'zod';
+import {
+  buildFdsnQueryUrl,
+  fetchFdsnEvents,
+  FDSN_EVENT_QUERY_URL,
+  type FdsnEventQuery,
+} from './fdsnEvents';
+import {
+  startFdsnStandInServer,
+  type FdsnStandInServer,
+} from '../test/fdsnStandInServer';
+import type { GeoJSONFeature } from '../types/earthquake';
+
+function createFeature(
+  index: number,
+  overrides: Partial<{ lng: number; lat: number; mag: number }> = {}
+): GeoJSONFeature {
+  return {
+    id: `evt${index}`,
+    type: 'Feature',
+    geometry: {
+      type: 'Point',
+      coordinates: [overrides.lng ?? 140, overrides.lat ?? 36, 10],
+    },
+    properties: {
+      mag: overrides.mag ?? 3,
+      time: Date.parse('2010-03-01T00:00:00Z') + index * 3600000,
+      place: `Event ${index}`,
+    },
+  };
+}
+
+const query: FdsnEventQuery = {
+  startTime: new Date('2010-01-01T00:00:00Z'),
+  endTime: new Date('2010-12-31T23:59:59Z'),
+};
+
+describe('buildFdsnQueryUrl', () => {
+  it('targets the USGS FDSN event endpoint by default', () => {
+    const url = new URL(buildFdsnQueryUrl(query));
+
+    expect(`${url.origin}${url.pathname}`).toBe(FDSN_EVENT_QUERY_URL);
+  });
+
+  it('requests GeoJSON ordered oldest first', () => {
+    const params = new URL(buildFdsnQueryUrl(query)).searchParams;
+
+    expect(params.get('format')).toBe('geojson');
+    expect(params.get('orderby')).toBe('time-asc');
+  });
+
+  it('encodes the time window as ISO 8601', () => {
+    const params = new URL(buildFdsnQueryUrl(query)).searchParams;
+
+    expect(params.get('starttime')).toBe('2010-01-01T00:00:00.000Z');
+    expect(params.get('endtime')).toBe('2010-12-31T23:59:59.000Z');
+  });
+
+  it('includes bbox and minimum magnitude when given', () => {
+    const params = new URL(
+      buildFdsnQueryUrl({
+        ...query,
+        bbox: {
+          minLongitude: 128,
+          minLatitude: 30,
+          maxLongitude: 146,
+          maxLatitude: 46,
+        },
+        minMagnitude: 4.5,
+      })
+    ).searchParams;
+
+    expect(params.get('minlongitude')).toBe('128');
+    expect(params.get('minlatitude')).toBe('30');
+    expect(params.get('maxlongitude')).toBe('146');
+    expect(params.get('maxlatitude')).toBe('46');
+    expect(params.get('minmagnitude')).toBe('4.5');
+  });
+
+  it('omits optional constraints when not given', () => {
+    const params = new URL(buildFdsnQueryUrl(query)).searchParams;
+
+    expect(params.has('minlatitude')).toBe(false);
+    expect(params.has('minmagnitude')).toBe(false);
+    expect(params.has('limit')).toBe(false);
+    expect(params.has('offset')).toBe(false);
+  });
+
+  it('adds paging parameters', () => {
+    const params = new URL(
+      buildFdsnQueryUrl(query, { limit: 100, offset: 201 })
+    ).searchParams;
+
+    expect(params.get('limit')).toBe('100');
+    expect(params.get('offset')).toBe('201');
+  });
+
+  it('uses a custom base URL', () => {
+    expect(buildFdsnQueryUrl(query, {}, 'http://localhost:9999/query')).toMatch(
+      /^http:\/\/localhost:9999\/query\?/
+    );
+  });
+});
+
+describe('fetchFdsnEvents against a stand-in server', () => {
+  let server: FdsnStandInServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  it('pages through results using limit and 1-based offset', async () => {
+    const events = Array.from({ length: 25 }, (_, i) => createFeature(i));
+    server = await startFdsnStandInServer(events);
+
+    const result = await fetchFdsnEvents(query, {
+      baseUrl: server.url,
+      pageSize: 10,
+    });
+
+    expect(result).toHaveLength(25);
+    expect(result.map((f) => f.id)).toEqual(events.map((f) => f.id));
+    expect(server.requests.map((p) => p.get('offset'))).toEqual([
+      '1',
+      '11',
+      '21',
+    ]);
+    expect(server.requests.every((p) => p.get('limit') === '10')).toBe(true);
+  });
+
+  it('requests one extra page when the total is a multiple of the page size', async () => {
+    const events = Array.from({ length: 20 }, (_, i) => createFeature(i));
+    server = await startFdsnStandInServer(events);
+
+    const result = await fetchFdsnEvents(query, {
+      baseUrl: server.url,
+      pageSize: 10,
+    });
+
+    expect(result).toHaveLength(20);
+    // Third request receives 204 No Content
+    expect(server.requests).toHaveLength(3);
+  });
+
+  it('returns an empty array on 204 No Content', async () => {
+    server = await startFdsnStandInServer([]);
+
+    const result = await fetchFdsnEvents(query, { baseUrl: server.url });
+
+    expect(result).toEqual([]);
+  });
+
+  it('stops at maxEvents', async () => {
+    const events = Array.from({ length: 30 }, (_, i) => createFeature(i));
+    server = await startFdsnStandInServer(events);
+
+    const result = await fetchFdsnEvents(query, {
+      baseUrl: server.url,
+      pageSize: 10,
+      maxEvents: 15,
+    });
+
+    expect(result).toHaveLength(15);
+    expect(server.requests.map((p) => p.get('limit'))).toEqual(['10', '5']);
+  });
+
+  it('passes bbox and magnitude constraints to the server', async () => {
+    const events = [
+      createFeature(0, { mag: 5 }),
+      createFeature(1, { mag: 2 }),
+      createFeature(2, { mag: 5, lng: -120 }),
+    ];
+    server = await startFdsnStandInServer(events);
+
+    const result = await fetchFdsnEvents(
+      {
+        ...query,
+        minMagnitude: 4,
+        bbox: {
+          minLongitude: 128,
+          minLatitude: 30,
+          maxLongitude: 146,
+          maxLatitude: 46,
+        },
+      },
+      { baseUrl: server.url }
+    );
+
+    expect(result.map((f) => f.id)).toEqual(['evt0']);
+  });
+
+  it('throws on HTTP errors', async () => {
+    server = await startFdsnStandInServer([], { status: 400 });
+
+    await expect(
+      fetchFdsnEvents(query, { baseUrl: server.url })
+    ).rejects.toThrow('FDSN query failed! status: 400');
+  });
+
+  it('validates responses with the GeoJSON schema', async () => {
+    server = await startFdsnStandInServer([], {
+      body: { type: 'FeatureCollection', features: [{ id: 1 }] },
+    });
+
+    await expect(
+      fetchFdsnEvents(query, { baseUrl: server.url })
+    ).rejects.toBeInstanceOf(ZodError);
+  });
+});
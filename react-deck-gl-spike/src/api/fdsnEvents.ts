@@ -0,0 +1,139 @@
+import {
+  GeoJSONResponseSchema,
+  type GeoJSONFeature,
+} from '../types/earthquake';
+
+// USGS implementation of the FDSN event web service
+// https://earthquake.usgs.gov/fdsnws/event/1/
+export const FDSN_EVENT_QUERY_URL =
+  'https://earthquake.usgs.gov/fdsnws/event/1/query';
+
+// Start of the archive's instrumental record
+export const FDSN_ARCHIVE_START = new Date('1900-01-01T00:00:00Z');
+
+// USGS rejects queries that would return more than 20,000 events
+export const FDSN_MAX_PAGE_SIZE = 20000;
+
+const DEFAULT_PAGE_SIZE = 5000;
+const DEFAULT_MAX_EVENTS = 100000;
+
+export interface BoundingBox {
+  minLongitude: number;
+  minLatitude: number;
+  maxLongitude: number;
+  maxLatitude: number;
+}
+
+export interface FdsnEventQuery {
+  startTime: Date;
+  endTime: Date;
+  bbox?: BoundingBox;
+  minMagnitude?: number;
+}
+
+export interface FdsnFetchOptions {
+  /** Service endpoint, e.g. a local stand-in server in tests */
+  baseUrl?: string;
+  /** Events requested per page (capped at FDSN_MAX_PAGE_SIZE) */
+  pageSize?: number;
+  /** Stop paging once this many events have been collected */
+  maxEvents?: number;
+  signal?: AbortSignal;
+}
+
+interface PageParams {
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Build an FDSN event query URL returning GeoJSON ordered oldest first.
+ * FDSN offsets are 1-based.
+ */
+export function buildFdsnQueryUrl(
+  query: FdsnEventQuery,
+  page: PageParams = {},
+  baseUrl: string = FDSN_EVENT_QUERY_URL
+): string {
+  const params = new URLSearchParams({
+    format: 'geojson',
+    orderby: 'time-asc',
+    starttime: query.startTime.toISOString(),
+    endtime: query.endTime.toISOString(),
+  });
+
+  if (query.bbox) {
+    params.set('minlatitude', query.bbox.minLatitude.toString());
+    params.set('maxlatitude', query.bbox.maxLatitude.toString());
+    params.set('minlongitude', query.bbox.minLongitude.toString());
+    params.set('maxlongitude', query.bbox.maxLongitude.toString());
+  }
+
+  if (query.minMagnitude !== undefined) {
+    params.set('minmagnitude', query.minMagnitude.toString());
+  }
+
+  if (page.limit !== undefined) {
+    params.set('limit', page.limit.toString());
+  }
+
+  if (page.offset !== undefined) {
+    params.set('offset', page.offset.toString());
+  }
+
+  return `${baseUrl}?${params.toString()}`;
+}
+
+async function fetchPage(
+  url: string,
+  signal?: AbortSignal
+): Promise<GeoJSONFeature[]> {
+  const response = await fetch(url, { signal });
+
+  // FDSN services answer 204 No Content when nothing matches
+  if (response.status === 204) {
+    return [];
+  }
+
+  if (!response.ok) {
+    throw new Error(`FDSN query failed! status: ${response.status}`);
+  }
+
+  const json = await response.json();
+
+  // Validate the API response with Zod
+  return GeoJSONResponseSchema.parse(json).features;
+}
+
+/**
+ * Fetch every event matching the query, paging through `limit`/`offset`
+ * until a short page is returned or `maxEvents` is reached.
+ */
+export async function fetchFdsnEvents(
+  query: FdsnEventQuery,
+  options: FdsnFetchOptions = {}
+): Promise<GeoJSONFeature[]> {
+  const {
+    baseUrl = FDSN_EVENT_QUERY_URL,
+    pageSize = DEFAULT_PAGE_SIZE,
+    maxEvents = DEFAULT_MAX_EVENTS,
+    signal,
+  } = options;
+  const limit = Math.min(pageSize, FDSN_MAX_PAGE_SIZE);
+
+  const events: GeoJSONFeature[] = [];
+  let offset = 1;
+
+  while (events.length < maxEvents) {
+    const pageLimit = Math.min(limit, maxEvents - events.length);
+    const url = buildFdsnQueryUrl(query, { limit: pageLimit, offset }, baseUrl);
+    const features = await fetchPage(url, signal);
+
+    events.push(...features);
+
+    if (features.length < pageLimit) break;
+    offset += features.length;
+  }
+
+  return events;
+}
@@ -0,0 +1,30 @@
+import * as topojson from 'topojson-client';
+import type { Topology, GeometryCollection } from 'topojson-specification';
+import type { FeatureCollection, MultiPolygon } from 'geojson';
+
+// Data source URL
+const TOPOJSON_URL =
+  'https://cdn.jsdelivr.net/npm/world-atlas@2/land-110m.json';
+
+type LandTopology = Topology<{
+  land: GeometryCollection;
+}>;
+
+/**
+ * Fetch world land TopoJSON and convert to GeoJSON, for drawing a basemap
+ * where map tiles aren't available (e.g. on the globe)
+ */
+export async function fetchLandGeometry(): Promise<
+  FeatureCollection<MultiPolygon>
+> {
+  const response = await fetch(TOPOJSON_URL);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch TopoJSON: ${response.statusText}`);
+  }
+
+  const topology = (await response.json()) as LandTopology;
+  return topojson.feature(
+    topology,
+    topology.objects.land
+  ) as FeatureCollection<MultiPolygon>;
+}
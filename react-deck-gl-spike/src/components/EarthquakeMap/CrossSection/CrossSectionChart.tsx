@@ -0,0 +1,196 @@
+import type { Earthquake } from '../../../types/earthquake';
+import type { EarthquakeSizeMode } from '../../../types/earthquakeView';
+import type { CrossSectionPoint } from '../../../utils/crossSection';
+
+type RGBA = [number, number, number, number];
+
+interface CrossSectionChartProps {
+  points: CrossSectionPoint[];
+  lengthKm: number;
+  /** Fill color of each event, matching the map */
+  getColor: (earthquake: Earthquake) => RGBA;
+  sizeMode: EarthquakeSizeMode;
+  hoveredId?: string | null;
+  onHover: (earthquakeId: string | null) => void;
+  onSelect: (earthquakeId: string) => void;
+}
+
+const WIDTH = 280;
+const HEIGHT = 170;
+const MARGIN = { top: 16, right: 10, bottom: 24, left: 34 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+// Depth axis ends at the first of these that fits the deepest event
+const DEPTH_AXIS_STEPS = [10, 20, 50, 100, 200, 300, 500, 700];
+
+const MIN_RADIUS = 2;
+const MAX_RADIUS = 9;
+const CONSTANT_RADIUS = 3;
+
+function getMaxDepth(points: CrossSectionPoint[]): number {
+  const deepest = Math.max(0, ...points.map((p) => p.earthquake.depth));
+  return (
+    DEPTH_AXIS_STEPS.find((step) => step >= deepest) ??
+    Math.ceil(deepest / 100) * 100
+  );
+}
+
+/**
+ * Radius in chart units. Keeps the map's ordering of sizes (the power and
+ * energy scales favour large events) within a range that fits the small plot.
+ */
+function getRadius(magnitude: number, sizeMode: EarthquakeSizeMode): number {
+  if (sizeMode === 'constant') return CONSTANT_RADIUS;
+  const normalized = Math.max(0, Math.min(1, (magnitude - 2) / 7));
+  let scaled = normalized;
+  if (sizeMode === 'power') scaled = normalized ** 2;
+  if (sizeMode === 'energy') scaled = 10 ** ((Math.min(magnitude, 9) - 9) / 2);
+  return MIN_RADIUS + scaled * (MAX_RADIUS - MIN_RADIUS);
+}
+
+function formatKm(km: number): string {
+  return km < 10 ? km.toFixed(1) : String(Math.round(km));
+}
+
+/**
+ * Events in the swath plotted by distance along the line (A to A′) against
+ * depth, deepest at the bottom.
+ */
+export function CrossSectionChart({
+  points,
+  lengthKm,
+  getColor,
+  sizeMode,
+  hoveredId = null,
+  onHover,
+  onSelect,
+}: CrossSectionChartProps) {
+  const maxDepth = getMaxDepth(points);
+  const minDepth = Math.min(0, ...points.map((p) => p.earthquake.depth));
+
+  const x = (distanceKm: number) =>
+    MARGIN.left + (lengthKm > 0 ? distanceKm / lengthKm : 0) * PLOT_WIDTH;
+  const y = (depth: number) =>
+    MARGIN.top + ((depth - minDepth) / (maxDepth - minDepth)) * PLOT_HEIGHT;
+
+  const depthTicks = [0, 0.25, 0.5, 0.75, 1].map((f) => f * maxDepth);
+  const distanceTicks = [0, 0.5, 1].map((f) => f * lengthKm);
+
+  // Draw the hovered event last so it sits on top
+  const ordered = hoveredId
+    ? [
+        ...points.filter((p) => p.earthquake.id !== hoveredId),
+        ...points.filter((p) => p.earthquake.id === hoveredId),
+      ]
+    : points;
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full text-gray-400"
+      role="img"
+      aria-label="Earthquake depth against distance along the cross-section"
+      data-testid="cross-section-chart"
+      onMouseLeave={() => onHover(null)}
+    >
+      {depthTicks.map((depth) => (
+        <g key={depth}>
+          <line
+            x1={MARGIN.left}
+            x2={WIDTH - MARGIN.right}
+            y1={y(depth)}
+            y2={y(depth)}
+            stroke="currentColor"
+            strokeOpacity={0.15}
+          />
+          <text
+            x={MARGIN.left - 4}
+            y={y(depth)}
+            textAnchor="end"
+            dominantBaseline="middle"
+            fontSize={8}
+            fill="currentColor"
+          >
+            {depth}
+          </text>
+        </g>
+      ))}
+      {distanceTicks.map((distance) => (
+        <text
+          key={distance}
+          x={x(distance)}
+          y={HEIGHT - MARGIN.bottom + 10}
+          textAnchor="middle"
+          fontSize={8}
+          fill="currentColor"
+        >
+          {formatKm(distance)}
+        </text>
+      ))}
+      <text
+        x={MARGIN.left + PLOT_WIDTH / 2}
+        y={HEIGHT - 2}
+        textAnchor="middle"
+        fontSize={8}
+        fill="currentColor"
+      >
+        Distance (km)
+      </text>
+      <text
+        x={8}
+        y={MARGIN.top + PLOT_HEIGHT / 2}
+        transform={`rotate(-90 8 ${MARGIN.top + PLOT_HEIGHT / 2})`}
+        textAnchor="middle"
+        dominantBaseline="middle"
+        fontSize={8}
+        fill="currentColor"
+      >
+        Depth (km)
+      </text>
+      <text
+        x={MARGIN.left}
+        y={MARGIN.top - 5}
+        fontSize={9}
+        fontWeight="bold"
+        fill="#22d3ee"
+      >
+        A
+      </text>
+      <text
+        x={WIDTH - MARGIN.right}
+        y={MARGIN.top - 5}
+        textAnchor="end"
+        fontSize={9}
+        fontWeight="bold"
+        fill="#22d3ee"
+      >
+        A′
+      </text>
+
+      {ordered.map(({ earthquake, distanceKm }) => {
+        const [r, g, b, a] = getColor(earthquake);
+        const hovered = earthquake.id === hoveredId;
+        const radius = getRadius(earthquake.magnitude, sizeMode);
+
+        return (
+          <circle
+            key={earthquake.id}
+            cx={x(distanceKm)}
+            cy={y(earthquake.depth)}
+            r={hovered ? radius + 2 : radius}
+            fill={`rgb(${r}, ${g}, ${b})`}
+            fillOpacity={hovered ? 1 : Math.max(0.4, a / 255) * 0.8}
+            stroke={hovered ? '#ffffff' : 'rgba(0, 0, 0, 0.3)'}
+            strokeWidth={hovered ? 1.5 : 0.5}
+            className="cursor-pointer"
+            onMouseEnter={() => onHover(earthquake.id)}
+            onClick={() => onSelect(earthquake.id)}
+            data-testid={`cross-section-point-${earthquake.id}`}
+            data-hovered={hovered}
+          />
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { CrossSectionPanel } from './CrossSectionPanel';
+import type { Earthquake } from '../../../types/earthquake';
+import type { CrossSectionPoint } from '../../../utils/crossSection';
+import { createEarthquake } from '../../../test/earthquakeFixture';
+
+const points: CrossSectionPoint[] = [
+  {
+    earthquake: createEarthquake('shallow', { depth: 10, magnitude: 4 }),
+    distanceKm: 20,
+    offsetKm: 3,
+  },
+  {
+    earthquake: createEarthquake('deep', { depth: 180, magnitude: 6 }),
+    distanceKm: 150,
+    offsetKm: -8,
+  },
+];
+
+describe('CrossSectionPanel', () => {
+  function renderPanel(
+    overrides: Partial<Parameters<typeof CrossSectionPanel>[0]> = {}
+  ) {
+    const props = {
+      line: null,
+      widthKm: 50,
+      drawing: false,
+      hasStart: false,
+      points: [],
+      lengthKm: 0,
+      getColor: vi.fn((): [number, number, number, number] => [255, 0, 0, 255]),
+      sizeMode: 'exponential' as const,
+      onDrawingChange: vi.fn(),
+      onWidthChange: vi.fn(),
+      onClear: vi.fn(),
+      onHover: vi.fn(),
+      onSelect: vi.fn(),
+      ...overrides,
+    };
+    render(<CrossSectionPanel {...props} />);
+    return props;
+  }
+
+  const line = {
+    start: [140, 38] as [number, number],
+    end: [143, 38] as [number, number],
+  };
+
+  it('starts drawing a line', () => {
+    const { onDrawingChange } = renderPanel();
+
+    fireEvent.click(screen.getByTestId('cross-section-draw'));
+
+    expect(onDrawingChange).toHaveBeenCalledWith(true);
+    expect(screen.queryByTestId('cross-section-chart')).not.toBeInTheDocument();
+  });
+
+  it('prompts for each end while drawing', () => {
+    renderPanel({ drawing: true });
+    expect(screen.getByTestId('cross-section-hint')).toHaveTextContent(
+      'Click the start point (A)'
+    );
+  });
+
+  it('prompts for the end point once the start is placed', () => {
+    renderPanel({ drawing: true, hasStart: true });
+    expect(screen.getByTestId('cross-section-hint')).toHaveTextContent(
+      'Click the end point (A′)'
+    );
+  });
+
+  it('changes the swath width', () => {
+    const { onWidthChange } = renderPanel();
+
+    expect(screen.getByTestId('cross-section-width-50')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    fireEvent.click(screen.getByTestId('cross-section-width-100'));
+
+    expect(onWidthChange).toHaveBeenCalledWith(100);
+  });
+
+  it('plots the events in the swath', () => {
+    renderPanel({ line, points, lengthKm: 263.4 });
+
+    expect(screen.getByTestId('cross-section-summary')).toHaveTextContent(
+      '2 events along 263 km'
+    );
+    expect(screen.getByTestId('cross-section-chart')).toBeInTheDocument();
+    expect(
+      screen.getByTestId('cross-section-point-shallow')
+    ).toBeInTheDocument();
+    expect(screen.getByTestId('cross-section-draw')).toHaveTextContent(
+      'Redraw line'
+    );
+  });
+
+  it('places deeper events lower and further events to the right', () => {
+    renderPanel({ line, points, lengthKm: 263.4 });
+
+    const shallow = screen.getByTestId('cross-section-point-shallow');
+    const deep = screen.getByTestId('cross-section-point-deep');
+
+    expect(Number(deep.getAttribute('cy'))).toBeGreaterThan(
+      Number(shallow.getAttribute('cy'))
+    );
+    expect(Number(deep.getAttribute('cx'))).toBeGreaterThan(
+      Number(shallow.getAttribute('cx'))
+    );
+  });
+
+  it('sizes larger events larger unless sizes are constant', () => {
+    renderPanel({ line, points, lengthKm: 263.4 });
+    expect(
+      Number(screen.getByTestId('cross-section-point-deep').getAttribute('r'))
+    ).toBeGreaterThan(
+      Number(
+        screen.getByTestId('cross-section-point-shallow').getAttribute('r')
+      )
+    );
+  });
+
+  it('draws every event the same size when sizes are constant', () => {
+    renderPanel({ line, points, lengthKm: 263.4, sizeMode: 'constant' });
+    expect(
+      screen.getByTestId('cross-section-point-deep').getAttribute('r')
+    ).toBe(screen.getByTestId('cross-section-point-shallow').getAttribute('r'));
+  });
+
+  it('colors events like the map', () => {
+    const getColor = vi.fn(
+      (eq: Earthquake): [number, number, number, number] =>
+        eq.id === 'deep' ? [0, 0, 255, 255] : [255, 0, 0, 255]
+    );
+    renderPanel({ line, points, lengthKm: 263.4, getColor });
+
+    expect(screen.getByTestId('cross-section-point-deep')).toHaveAttribute(
+      'fill',
+      'rgb(0, 0, 255)'
+    );
+  });
+
+  it('reports hovered events and highlights the linked one', () => {
+    const { onHover } = renderPanel({
+      line,
+      points,
+      lengthKm: 263.4,
+      hoveredId: 'deep',
+    });
+
+    fireEvent.mouseEnter(screen.getByTestId('cross-section-point-shallow'));
+    expect(onHover).toHaveBeenCalledWith('shallow');
+    expect(screen.getByTestId('cross-section-point-deep')).toHaveAttribute(
+      'data-hovered',
+      'true'
+    );
+
+    fireEvent.mouseLeave(screen.getByTestId('cross-section-chart'));
+    expect(onHover).toHaveBeenLastCalledWith(null);
+  });
+
+  it('selects a clicked event and clears the line', () => {
+    const { onSelect, onClear } = renderPanel({
+      line,
+      points,
+      lengthKm: 263.4,
+    });
+
+    fireEvent.click(screen.getByTestId('cross-section-point-deep'));
+    fireEvent.click(screen.getByTestId('cross-section-clear'));
+
+    expect(onSelect).toHaveBeenCalledWith('deep');
+    expect(onClear).toHaveBeenCalled();
+  });
+});
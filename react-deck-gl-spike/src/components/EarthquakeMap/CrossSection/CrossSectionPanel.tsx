@@ -0,0 +1,142 @@
+import type { Earthquake } from '../../../types/earthquake';
+import type { EarthquakeSizeMode } from '../../../types/earthquakeView';
+import {
+  SWATH_WIDTH_OPTIONS_KM,
+  type CrossSectionLine,
+} from '../../../types/crossSection';
+import type { CrossSectionPoint } from '../../../utils/crossSection';
+import { CrossSectionChart } from './CrossSectionChart';
+
+interface CrossSectionPanelProps {
+  line: CrossSectionLine | null;
+  widthKm: number;
+  /** Whether map clicks place the ends of a new line */
+  drawing: boolean;
+  /** Whether the first end has been placed */
+  hasStart: boolean;
+  /** Events within the swath, ordered along the line */
+  points: CrossSectionPoint[];
+  lengthKm: number;
+  getColor: (earthquake: Earthquake) => [number, number, number, number];
+  sizeMode: EarthquakeSizeMode;
+  hoveredId?: string | null;
+  onDrawingChange: (drawing: boolean) => void;
+  onWidthChange: (widthKm: number) => void;
+  onClear: () => void;
+  onHover: (earthquakeId: string | null) => void;
+  onSelect: (earthquakeId: string) => void;
+}
+
+function optionClassName(selected: boolean): string {
+  return `
+    px-2 py-1 text-xs rounded-lg transition-colors backdrop-blur-md border disabled:opacity-50
+    ${
+      selected
+        ? 'bg-blue-500/80 text-white font-semibold border-blue-400/30'
+        : 'bg-gray-800/60 hover:bg-gray-700/80 text-gray-200 border-white/10'
+    }
+  `;
+}
+
+export function CrossSectionPanel({
+  line,
+  widthKm,
+  drawing,
+  hasStart,
+  points,
+  lengthKm,
+  getColor,
+  sizeMode,
+  hoveredId = null,
+  onDrawingChange,
+  onWidthChange,
+  onClear,
+  onHover,
+  onSelect,
+}: CrossSectionPanelProps) {
+  return (
+    <div
+      role="group"
+      aria-labelledby="cross-section-label"
+      className="flex flex-col gap-2 p-3 bg-gray-900/80 backdrop-blur-md rounded-lg shadow-lg border border-white/10"
+      data-testid="cross-section-panel"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span
+          id="cross-section-label"
+          className="text-sm font-semibold text-gray-100"
+        >
+          Cross-Section
+        </span>
+        {line && (
+          <button
+            type="button"
+            onClick={onClear}
+            className="text-xs text-gray-400 hover:text-gray-200"
+            data-testid="cross-section-clear"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-1">
+        <button
+          type="button"
+          onClick={() => onDrawingChange(!drawing)}
+          aria-pressed={drawing}
+          className={optionClassName(drawing)}
+          data-testid="cross-section-draw"
+        >
+          {line ? 'Redraw line' : 'Draw line'}
+        </button>
+      </div>
+
+      {drawing && (
+        <span
+          className="text-xs text-blue-300"
+          data-testid="cross-section-hint"
+        >
+          {hasStart ? 'Click the end point (A′)' : 'Click the start point (A)'}
+        </span>
+      )}
+
+      <div className="flex gap-1" role="group" aria-label="Swath width">
+        {SWATH_WIDTH_OPTIONS_KM.map((km) => (
+          <button
+            key={km}
+            type="button"
+            onClick={() => onWidthChange(km)}
+            aria-pressed={widthKm === km}
+            className={optionClassName(widthKm === km)}
+            data-testid={`cross-section-width-${km}`}
+          >
+            {km} km
+          </button>
+        ))}
+      </div>
+
+      {line && (
+        <>
+          <span
+            className="text-xs text-gray-400"
+            data-testid="cross-section-summary"
+          >
+            {points.length.toLocaleString()}{' '}
+            {points.length === 1 ? 'event' : 'events'} along{' '}
+            {Math.round(lengthKm).toLocaleString()} km
+          </span>
+          <CrossSectionChart
+            points={points}
+            lengthKm={lengthKm}
+            getColor={getColor}
+            sizeMode={sizeMode}
+            hoveredId={hoveredId}
+            onHover={onHover}
+            onSelect={onSelect}
+          />
+        </>
+      )}
+    </div>
+  );
+}
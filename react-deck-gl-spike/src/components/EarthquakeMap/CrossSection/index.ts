@@ -0,0 +1 @@
+export { CrossSectionPanel } from './CrossSectionPanel';
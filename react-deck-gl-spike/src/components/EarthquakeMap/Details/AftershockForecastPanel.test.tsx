@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { AftershockForecastPanel } from './AftershockForecastPanel';
+import {
+  GENERIC_PARAMETERS,
+  type AftershockAnalysis,
+} from '../../../utils/aftershockForecast';
+import type { Earthquake } from '../../../types/earthquake';
+
+function cells(testId: string): string[] {
+  return within(screen.getByTestId(testId))
+    .getAllByRole('cell')
+    .map((cell) => cell.textContent ?? '');
+}
+
+describe('AftershockForecastPanel', () => {
+  const mainshock: Earthquake = {
+    id: 'main',
+    longitude: 142.4,
+    latitude: 38.3,
+    depth: 29,
+    magnitude: 7.1,
+    timestamp: '2024-01-15T10:30:00Z',
+    location: 'near the east coast of Honshu, Japan',
+  };
+  const aftershocks = Array.from({ length: 42 }, (_, i) => ({
+    ...mainshock,
+    id: `a${i}`,
+    magnitude: 4,
+  }));
+  const observedRates = [
+    { startDays: 0.01, endDays: 0.1, count: 9, rate: 100 },
+    { startDays: 0.1, endDays: 1, count: 0, rate: 0 },
+    { startDays: 1, endDays: 10, count: 27, rate: 3 },
+  ];
+  const fitted: AftershockAnalysis = {
+    mainshock,
+    aftershocks,
+    elapsedDays: 10,
+    completeness: 3.5,
+    // The observed bins hold the aftershocks at or above Mc
+    sampleSize: 36,
+    parameters: { ...GENERIC_PARAMETERS, a: -1.5, p: 1.21 },
+    source: 'sequence',
+    bSource: 'generic',
+    observedRates,
+  };
+  const generic: AftershockAnalysis = {
+    ...fitted,
+    aftershocks: aftershocks.slice(0, 12),
+    sampleSize: 3,
+    parameters: GENERIC_PARAMETERS,
+    source: 'generic',
+  };
+
+  it('forecasts the next day, week and month', () => {
+    render(<AftershockForecastPanel analysis={fitted} />);
+
+    expect(cells('forecast-day')[0]).toBe('Day');
+    expect(cells('forecast-week')[0]).toBe('Week');
+    expect(cells('forecast-month')[0]).toBe('Month');
+  });
+
+  it('starts at M3+ and forecasts fewer events above a larger magnitude', () => {
+    render(<AftershockForecastPanel analysis={fitted} />);
+
+    expect(screen.getByTestId('forecast-magnitude-3')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    expect(cells('forecast-month')).toEqual(['Month', '126', '>99%']);
+
+    fireEvent.click(screen.getByTestId('forecast-magnitude-7'));
+
+    expect(screen.getByTestId('forecast-magnitude-7')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    expect(cells('forecast-day')).toEqual(['Day', '<0.1', '<1%']);
+  });
+
+  it('names a fitted sequence with its sample above Mc and decay exponent', () => {
+    render(<AftershockForecastPanel analysis={fitted} />);
+
+    expect(screen.getByTestId('forecast-source')).toHaveTextContent(
+      'Fitted to 36 aftershocks ≥ Mc 3.5 (p = 1.21)'
+    );
+  });
+
+  it('notes when the fit assumes the generic b-value', () => {
+    render(<AftershockForecastPanel analysis={fitted} />);
+
+    expect(screen.getByTestId('forecast-source')).toHaveTextContent(
+      "generic b = 0.91, 50 needed for the sequence's own"
+    );
+  });
+
+  it("shows the sequence's own b-value once it has one", () => {
+    render(
+      <AftershockForecastPanel
+        analysis={{
+          ...fitted,
+          sampleSize: 120,
+          parameters: { ...fitted.parameters, b: 1.04 },
+          bSource: 'sequence',
+        }}
+      />
+    );
+
+    expect(screen.getByTestId('forecast-source')).toHaveTextContent(
+      'Fitted to 120 aftershocks ≥ Mc 3.5 (p = 1.21, b = 1.04)'
+    );
+  });
+
+  it('notes when the generic parameters stand in for a sparse sequence', () => {
+    render(<AftershockForecastPanel analysis={generic} />);
+
+    expect(screen.getByTestId('forecast-source')).toHaveTextContent(
+      'Generic California parameters (b = 0.91); 3 aftershocks above Mc, 20 needed to fit'
+    );
+  });
+
+  it('plots the observed rates against the modeled decay', () => {
+    render(<AftershockForecastPanel analysis={fitted} />);
+
+    expect(screen.getByTestId('aftershock-rate-chart')).toBeInTheDocument();
+    expect(screen.getByTestId('modeled-rate')).toBeInTheDocument();
+    expect(screen.getAllByTestId('observed-rate-point')).toHaveLength(2);
+    expect(screen.getByTestId('forecast-start-marker')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import {
+  FORECAST_WINDOWS,
+  MIN_FIT_AFTERSHOCKS,
+  forecastAftershocks,
+  type AftershockAnalysis,
+} from '../../../utils/aftershockForecast';
+import { MIN_FIT_EVENTS } from '../../../utils/gutenbergRichter';
+import { AftershockRateChart } from './AftershockRateChart';
+
+interface AftershockForecastPanelProps {
+  analysis: AftershockAnalysis;
+}
+
+const FORECAST_MAGNITUDES = [3, 4, 5, 6, 7];
+const DEFAULT_FORECAST_MAGNITUDE = 3;
+
+// The model is drawn out to the end of the longest forecast window
+const CHART_FORECAST_DAYS = FORECAST_WINDOWS[FORECAST_WINDOWS.length - 1].days;
+
+function optionClassName(selected: boolean): string {
+  return `
+    flex-1 px-1.5 py-0.5 text-xs rounded transition-colors border
+    ${
+      selected
+        ? 'bg-blue-500/80 text-white font-semibold border-blue-400/30'
+        : 'bg-gray-800/60 hover:bg-gray-700/80 text-gray-200 border-white/10'
+    }
+  `;
+}
+
+function formatExpected(expected: number): string {
+  if (expected < 0.1) return '<0.1';
+  return expected < 10 ? expected.toFixed(1) : Math.round(expected).toString();
+}
+
+/**
+ * Where the forecast's parameters come from: the decay and b-value fitted
+ * to this sequence where it has enough aftershocks, generic ones otherwise.
+ */
+function describeSource({
+  completeness,
+  sampleSize,
+  parameters: { p, b },
+  source,
+  bSource,
+}: AftershockAnalysis): string {
+  const sample = sampleSize.toLocaleString();
+  if (source === 'generic') {
+    return `Generic California parameters (b = ${b.toFixed(2)}); ${sample} aftershocks above Mc, ${MIN_FIT_AFTERSHOCKS} needed to fit`;
+  }
+
+  const fit = `Fitted to ${sample} aftershocks ≥ Mc ${completeness?.toFixed(1)} (p = ${p.toFixed(2)}`;
+  return bSource === 'sequence'
+    ? `${fit}, b = ${b.toFixed(2)})`
+    : `${fit}); generic b = ${b.toFixed(2)}, ${MIN_FIT_EVENTS} needed for the sequence's own`;
+}
+
+function formatProbability(probability: number): string {
+  const percent = probability * 100;
+  if (percent < 1) return '<1%';
+  if (percent > 99) return '>99%';
+  return `${Math.round(percent)}%`;
+}
+
+/**
+ * Reasenberg–Jones aftershock forecast for a mainshock: expected counts and
+ * chances of aftershocks above a chosen magnitude over the next day, week
+ * and month, and the observed decay against the model.
+ */
+export function AftershockForecastPanel({
+  analysis,
+}: AftershockForecastPanelProps) {
+  const [minMagnitude, setMinMagnitude] = useState(DEFAULT_FORECAST_MAGNITUDE);
+  const { completeness } = analysis;
+  const forecast = forecastAftershocks(analysis, minMagnitude);
+
+  return (
+    <section
+      className="mt-3 border-t border-white/10 pt-2 text-sm"
+      aria-labelledby="aftershock-forecast-title"
+      data-testid="aftershock-forecast"
+    >
+      <h4
+        id="aftershock-forecast-title"
+        className="font-semibold text-gray-100"
+      >
+        Aftershock forecast
+      </h4>
+
+      <div
+        role="group"
+        aria-label="Forecast magnitude"
+        className="flex gap-1 mt-2"
+      >
+        {FORECAST_MAGNITUDES.map((magnitude) => (
+          <button
+            key={magnitude}
+            type="button"
+            onClick={() => setMinMagnitude(magnitude)}
+            aria-pressed={magnitude === minMagnitude}
+            className={optionClassName(magnitude === minMagnitude)}
+            data-testid={`forecast-magnitude-${magnitude}`}
+          >
+            M{magnitude}+
+          </button>
+        ))}
+      </div>
+
+      <table className="w-full mt-2 text-xs" data-testid="forecast-table">
+        <thead>
+          <tr className="text-gray-400">
+            <th className="text-left font-normal">Next</th>
+            <th className="text-right font-normal">Expected</th>
+            <th className="text-right font-normal">Chance of 1+</th>
+          </tr>
+        </thead>
+        <tbody>
+          {forecast.map(({ label, expected, probability }) => (
+            <tr
+              key={label}
+              className="text-gray-200"
+              data-testid={`forecast-${label.toLowerCase()}`}
+            >
+              <td>{label}</td>
+              <td className="text-right">{formatExpected(expected)}</td>
+              <td className="text-right">{formatProbability(probability)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="mt-2">
+        <AftershockRateChart
+          analysis={analysis}
+          minMagnitude={completeness ?? minMagnitude}
+          forecastDays={CHART_FORECAST_DAYS}
+        />
+      </div>
+
+      <p className="mt-1 text-xs text-gray-400" data-testid="forecast-source">
+        {describeSource(analysis)}
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,163 @@
+import {
+  getAftershockRate,
+  type AftershockAnalysis,
+} from '../../../utils/aftershockForecast';
+
+interface AftershockRateChartProps {
+  analysis: AftershockAnalysis;
+  /** Magnitude the rates are counted above */
+  minMagnitude: number;
+  /** Days past the reference time to draw the model */
+  forecastDays: number;
+}
+
+const WIDTH = 240;
+const HEIGHT = 140;
+const MARGIN = { top: 8, right: 8, bottom: 24, left: 32 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+// First decade of days shown, a quarter hour after the mainshock
+const FIRST_DECADE = -2;
+const CURVE_POINTS = 48;
+
+/**
+ * Log-log plot of the observed aftershock rate against the modeled
+ * Reasenberg–Jones decay, with the model carried past the reference time.
+ */
+export function AftershockRateChart({
+  analysis,
+  minMagnitude,
+  forecastDays,
+}: AftershockRateChartProps) {
+  const { mainshock, elapsedDays, parameters, observedRates } = analysis;
+  const endDays = elapsedDays + forecastDays;
+  const lastDecade = Math.max(FIRST_DECADE + 1, Math.ceil(Math.log10(endDays)));
+
+  const modelRate = (days: number) =>
+    getAftershockRate(parameters, mainshock.magnitude, minMagnitude, days);
+  const curve = Array.from({ length: CURVE_POINTS + 1 }, (_, i) => {
+    const days =
+      10 **
+      (FIRST_DECADE +
+        (i / CURVE_POINTS) * (Math.log10(endDays) - FIRST_DECADE));
+    return { days, rate: modelRate(days) };
+  });
+  const observed = observedRates
+    .filter((bin) => bin.count > 0)
+    .map((bin) => ({
+      days: Math.sqrt(bin.startDays * bin.endDays),
+      rate: bin.rate,
+    }));
+
+  const rates = [...curve, ...observed].map((point) => point.rate);
+  const minRateDecade = Math.floor(Math.log10(Math.min(...rates)));
+  const maxRateDecade = Math.max(
+    minRateDecade + 1,
+    Math.ceil(Math.log10(Math.max(...rates)))
+  );
+
+  const x = (days: number) =>
+    MARGIN.left +
+    ((Math.log10(days) - FIRST_DECADE) / (lastDecade - FIRST_DECADE)) *
+      PLOT_WIDTH;
+  const y = (rate: number) =>
+    MARGIN.top +
+    PLOT_HEIGHT *
+      (1 -
+        (Math.log10(rate) - minRateDecade) / (maxRateDecade - minRateDecade));
+
+  const dayTicks = Array.from(
+    { length: lastDecade - FIRST_DECADE + 1 },
+    (_, i) => FIRST_DECADE + i
+  );
+  const rateTicks = Array.from(
+    { length: maxRateDecade - minRateDecade + 1 },
+    (_, i) => minRateDecade + i
+  );
+  const toPoints = (points: { days: number; rate: number }[]) =>
+    points.map((point) => `${x(point.days)},${y(point.rate)}`).join(' ');
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full text-gray-400"
+      role="img"
+      aria-label={`Observed and modeled rate of M${minMagnitude.toFixed(1)}+ aftershocks per day on log scales`}
+      data-testid="aftershock-rate-chart"
+    >
+      {rateTicks.map((decade) => (
+        <g key={decade}>
+          <line
+            x1={MARGIN.left}
+            x2={WIDTH - MARGIN.right}
+            y1={y(10 ** decade)}
+            y2={y(10 ** decade)}
+            stroke="currentColor"
+            strokeOpacity={0.15}
+          />
+          <text
+            x={MARGIN.left - 4}
+            y={y(10 ** decade)}
+            textAnchor="end"
+            dominantBaseline="middle"
+            fontSize={8}
+            fill="currentColor"
+          >
+            {10 ** decade}
+          </text>
+        </g>
+      ))}
+      {dayTicks.map((decade) => (
+        <text
+          key={decade}
+          x={x(10 ** decade)}
+          y={HEIGHT - MARGIN.bottom + 10}
+          textAnchor="middle"
+          fontSize={8}
+          fill="currentColor"
+        >
+          {10 ** decade}
+        </text>
+      ))}
+      <text
+        x={MARGIN.left + PLOT_WIDTH / 2}
+        y={HEIGHT - 2}
+        textAnchor="middle"
+        fontSize={8}
+        fill="currentColor"
+      >
+        Days after mainshock
+      </text>
+
+      {elapsedDays > 10 ** FIRST_DECADE && (
+        <line
+          x1={x(elapsedDays)}
+          x2={x(elapsedDays)}
+          y1={MARGIN.top}
+          y2={MARGIN.top + PLOT_HEIGHT}
+          stroke="#facc15"
+          strokeDasharray="3 2"
+          data-testid="forecast-start-marker"
+        />
+      )}
+      <polyline
+        points={toPoints(curve)}
+        fill="none"
+        stroke="#f87171"
+        strokeWidth={1.5}
+        data-testid="modeled-rate"
+      />
+      {observed.map((point) => (
+        <circle
+          key={point.days}
+          cx={x(point.days)}
+          cy={y(point.rate)}
+          r={2}
+          fill="#60a5fa"
+          data-testid="observed-rate-point"
+        />
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { EarthquakeDetailPanel } from './EarthquakeDetailPanel';
+import type { Earthquake } from '../../../types/earthquake';
+import { analyzeAftershocks } from '../../../utils/aftershockForecast';
+
+describe('EarthquakeDetailPanel', () => {
+  const baseEarthquake: Earthquake = {
+    id: 'us7000abcd',
+    longitude: 142.4,
+    latitude: 38.3,
+    depth: 29,
+    magnitude: 7.1,
+    timestamp: '2024-01-15T10:30:00Z',
+    location: 'near the east coast of Honshu, Japan',
+  };
+
+  const detailedEarthquake: Earthquake = {
+    ...baseEarthquake,
+    felt: 1520,
+    tsunami: true,
+    alert: 'orange',
+    magType: 'mww',
+    network: 'us',
+    status: 'reviewed',
+    url: 'https://earthquake.usgs.gov/earthquakes/eventpage/us7000abcd',
+  };
+
+  it('renders the core event summary', () => {
+    render(
+      <EarthquakeDetailPanel earthquake={baseEarthquake} onClose={vi.fn()} />
+    );
+
+    expect(screen.getByTestId('magnitude-value')).toHaveTextContent('M7.1');
+    expect(screen.getByTestId('location')).toHaveTextContent(
+      'near the east coast of Honshu, Japan'
+    );
+  });
+
+  it('renders the USGS detail properties', () => {
+    render(
+      <EarthquakeDetailPanel
+        earthquake={detailedEarthquake}
+        onClose={vi.fn()}
+      />
+    );
+
+    expect(screen.getByTestId('detail-mag-type')).toHaveTextContent('mww');
+    expect(screen.getByTestId('detail-network')).toHaveTextContent('US');
+    expect(screen.getByTestId('detail-status')).toHaveTextContent('Reviewed');
+    expect(screen.getByTestId('detail-felt')).toHaveTextContent('1,520');
+    expect(screen.getByTestId('detail-tsunami-flag')).toHaveTextContent('Yes');
+    expect(screen.getByTestId('detail-alert-level')).toHaveTextContent(
+      'Orange'
+    );
+  });
+
+  it('shows badges for PAGER alert and tsunami', () => {
+    render(
+      <EarthquakeDetailPanel
+        earthquake={detailedEarthquake}
+        onClose={vi.fn()}
+      />
+    );
+
+    expect(screen.getByTestId('detail-alert')).toHaveTextContent(
+      'PAGER ORANGE'
+    );
+    expect(screen.getByTestId('detail-alert').className).toContain(
+      'text-orange-300'
+    );
+    expect(screen.getByTestId('detail-tsunami')).toBeInTheDocument();
+  });
+
+  it('links to the USGS event page in a new tab', () => {
+    render(
+      <EarthquakeDetailPanel
+        earthquake={detailedEarthquake}
+        onClose={vi.fn()}
+      />
+    );
+
+    const link = screen.getByTestId('detail-url');
+    expect(link).toHaveAttribute('href', detailedEarthquake.url);
+    expect(link).toHaveAttribute('target', '_blank');
+    expect(link).toHaveAttribute('rel', 'noopener noreferrer');
+  });
+
+  it('omits details the feed did not report', () => {
+    render(
+      <EarthquakeDetailPanel earthquake={baseEarthquake} onClose={vi.fn()} />
+    );
+
+    expect(screen.getByTestId('detail-none')).toBeInTheDocument();
+    expect(screen.queryByTestId('detail-alert')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('detail-tsunami')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('detail-url')).not.toBeInTheDocument();
+  });
+
+  it('does not show a tsunami badge when no tsunami was flagged', () => {
+    render(
+      <EarthquakeDetailPanel
+        earthquake={{ ...baseEarthquake, tsunami: false }}
+        onClose={vi.fn()}
+      />
+    );
+
+    expect(screen.queryByTestId('detail-tsunami')).not.toBeInTheDocument();
+    expect(screen.getByTestId('detail-tsunami-flag')).toHaveTextContent('No');
+  });
+
+  it('calls onClose from the close button', () => {
+    const onClose = vi.fn();
+    render(
+      <EarthquakeDetailPanel earthquake={baseEarthquake} onClose={onClose} />
+    );
+
+    fireEvent.click(screen.getByTestId('earthquake-detail-close'));
+
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('calls onClose when Escape is pressed', () => {
+    const onClose = vi.fn();
+    render(
+      <EarthquakeDetailPanel earthquake={baseEarthquake} onClose={onClose} />
+    );
+
+    fireEvent.keyDown(document, { key: 'Escape' });
+
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows the aftershock forecast when given a sequence', () => {
+    const aftershocks = analyzeAftershocks(
+      baseEarthquake,
+      [baseEarthquake],
+      Date.parse('2024-01-16T10:30:00Z')
+    );
+    render(
+      <EarthquakeDetailPanel
+        earthquake={baseEarthquake}
+        onClose={vi.fn()}
+        aftershocks={aftershocks}
+      />
+    );
+
+    expect(screen.getByTestId('aftershock-forecast')).toBeInTheDocument();
+  });
+
+  it('leaves out the forecast without a sequence', () => {
+    render(
+      <EarthquakeDetailPanel earthquake={baseEarthquake} onClose={vi.fn()} />
+    );
+
+    expect(screen.queryByTestId('aftershock-forecast')).not.toBeInTheDocument();
+  });
+});
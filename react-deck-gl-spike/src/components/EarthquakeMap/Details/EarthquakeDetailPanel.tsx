@@ -0,0 +1,171 @@
+import { useEffect } from 'react';
+import type { AlertLevel, Earthquake } from '../../../types/earthquake';
+import { TooltipContent } from '../Tooltip';
+import { formatNumber } from '../../../utils/formatters';
+import type { AftershockAnalysis } from '../../../utils/aftershockForecast';
+import { AftershockForecastPanel } from './AftershockForecastPanel';
+
+interface EarthquakeDetailPanelProps {
+  earthquake: Earthquake;
+  onClose: () => void;
+  /** Aftershock sequence and forecast, for events large enough to have one */
+  aftershocks?: AftershockAnalysis | null;
+}
+
+const ALERT_STYLES: Record<AlertLevel, string> = {
+  green: 'bg-green-500/20 text-green-300 border-green-400/40',
+  yellow: 'bg-yellow-500/20 text-yellow-300 border-yellow-400/40',
+  orange: 'bg-orange-500/20 text-orange-300 border-orange-400/40',
+  red: 'bg-red-500/20 text-red-300 border-red-400/40',
+};
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1).toLowerCase();
+}
+
+function DetailRow({
+  label,
+  testId,
+  children,
+}: {
+  label: string;
+  testId: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="flex justify-between gap-4" data-testid={testId}>
+      <dt className="text-gray-400">{label}</dt>
+      <dd className="font-medium text-gray-200 text-right">{children}</dd>
+    </div>
+  );
+}
+
+export function EarthquakeDetailPanel({
+  earthquake,
+  onClose,
+  aftershocks = null,
+}: EarthquakeDetailPanelProps) {
+  // Close with Escape like other dismissible overlays
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const { felt, tsunami, alert, magType, network, status, url } = earthquake;
+  const hasDetails =
+    felt !== undefined ||
+    tsunami !== undefined ||
+    alert !== undefined ||
+    magType !== undefined ||
+    network !== undefined ||
+    status !== undefined;
+
+  return (
+    <aside
+      className="absolute top-4 right-16 z-20 w-80 max-h-[calc(100%-2rem)] overflow-y-auto
+                 bg-gray-900/90 backdrop-blur-md px-4 py-3 rounded-lg shadow-lg border border-white/10"
+      aria-labelledby="earthquake-detail-title"
+      data-testid="earthquake-detail-panel"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <h3
+          id="earthquake-detail-title"
+          className="text-sm font-semibold text-gray-100"
+        >
+          Event Details
+        </h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="w-6 h-6 flex items-center justify-center rounded text-gray-400 hover:text-white hover:bg-gray-700"
+          aria-label="Close event details"
+          data-testid="earthquake-detail-close"
+        >
+          ×
+        </button>
+      </div>
+
+      <TooltipContent earthquake={earthquake} />
+
+      {(alert || tsunami) && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {alert && (
+            <span
+              className={`px-2 py-0.5 text-xs font-semibold rounded border ${ALERT_STYLES[alert]}`}
+              data-testid="detail-alert"
+            >
+              PAGER {alert.toUpperCase()}
+            </span>
+          )}
+          {tsunami && (
+            <span
+              className="px-2 py-0.5 text-xs font-semibold rounded border bg-blue-500/20 text-blue-300 border-blue-400/40"
+              data-testid="detail-tsunami"
+            >
+              Tsunami information issued
+            </span>
+          )}
+        </div>
+      )}
+
+      {hasDetails ? (
+        <dl className="mt-3 space-y-1 text-sm border-t border-white/10 pt-2">
+          {magType !== undefined && (
+            <DetailRow label="Magnitude type" testId="detail-mag-type">
+              {magType}
+            </DetailRow>
+          )}
+          {network !== undefined && (
+            <DetailRow label="Network" testId="detail-network">
+              {network.toUpperCase()}
+            </DetailRow>
+          )}
+          {status !== undefined && (
+            <DetailRow label="Review status" testId="detail-status">
+              {capitalize(status)}
+            </DetailRow>
+          )}
+          {felt !== undefined && (
+            <DetailRow label="Felt reports" testId="detail-felt">
+              {formatNumber(felt)}
+            </DetailRow>
+          )}
+          {tsunami !== undefined && (
+            <DetailRow label="Tsunami" testId="detail-tsunami-flag">
+              {tsunami ? 'Yes' : 'No'}
+            </DetailRow>
+          )}
+          {alert !== undefined && (
+            <DetailRow label="PAGER alert" testId="detail-alert-level">
+              {capitalize(alert)}
+            </DetailRow>
+          )}
+        </dl>
+      ) : (
+        <p
+          className="mt-3 text-xs text-gray-500 border-t border-white/10 pt-2"
+          data-testid="detail-none"
+        >
+          No additional details reported.
+        </p>
+      )}
+
+      {aftershocks && <AftershockForecastPanel analysis={aftershocks} />}
+
+      {url && (
+        <a
+          href={url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="mt-3 inline-block text-sm text-blue-300 hover:text-blue-200 underline"
+          data-testid="detail-url"
+        >
+          View on USGS ↗
+        </a>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1 @@
+export { EarthquakeDetailPanel } from './EarthquakeDetailPanel';
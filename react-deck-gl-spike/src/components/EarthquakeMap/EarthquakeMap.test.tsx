@@ -1,7 +1,18 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import {
+  render,
+  screen,
+  waitFor,
+  fireEvent,
+  act,
+} from '@testing-library/react';
 import { useEarthquakeStore } from '../../stores/earthquakeStore';
 import { useMapViewStore } from '../../stores/mapViewStore';
+import { useEarthquakePlaybackStore } from '../../stores/earthquakePlaybackStore';
+import { useEarthquakeViewStore } from '../../stores/earthquakeViewStore';
+import { useSpatialSelectionStore } from '../../stores/spatialSelectionStore';
+import { useRadiusSearchStore } from '../../stores/radiusSearchStore';
+import { useCrossSectionStore } from '../../stores/crossSectionStore';
 
 declare const global: typeof globalThis;
 
@@ -16,11 +27,15 @@ vi.mock('react-map-gl/maplibre', () => ({
 
 // Mock @deck.gl/react
 vi.mock('@deck.gl/react', () => ({
-  default: vi.fn(({ children, viewState, controller, layers }) => (
+  default: vi.fn(({ children, views, viewState, controller, layers }) => (
     <div
       data-testid="deckgl-container"
+      data-view-id={views?.id}
       data-controller={controller?.toString()}
       data-layers-count={layers?.length?.toString()}
+      data-layer-ids={layers
+        ?.map((layer: { id: string }) => layer.id)
+        .join(',')}
       data-longitude={viewState?.longitude?.toString()}
       data-latitude={viewState?.latitude?.toString()}
       data-zoom={viewState?.zoom?.toString()}
@@ -33,17 +48,234 @@ vi.mock('@deck.gl/react', () => ({
 // Mock maplibre-gl CSS import
 vi.mock('maplibre-gl/dist/maplibre-gl.css', () => ({}));
 
+vi.mock('./layers/selectionLayer', () => ({
+  createSelectionLayer: vi.fn(() => ({ id: 'earthquake-selection-layer' })),
+}));
+
 // Mock createEarthquakeLayer
 vi.mock('./layers/earthquakeLayer', () => ({
   createEarthquakeLayer: vi.fn(() => ({ id: 'earthquake-layer' })),
 }));
 
+// Build real attributes, but record what they are built from
+vi.mock('./layers/earthquakeAttributes', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('./layers/earthquakeAttributes')>();
+  return {
+    ...actual,
+    createEarthquakeAttributes: vi.fn(actual.createEarthquakeAttributes),
+  };
+});
+
 // Mock Legend components
 vi.mock('./Legend', () => ({
-  SizeLegend: vi.fn(() => (
-    <div data-testid="size-legend">Magnitude Legend</div>
+  SizeLegend: vi.fn(({ sizeMode }) => (
+    <div data-testid="size-legend" data-size-mode={sizeMode}>
+      Magnitude Legend
+    </div>
   )),
   ColorLegend: vi.fn(() => <div data-testid="color-legend">Depth Legend</div>),
+  PointColorLegend: vi.fn(({ mode }) => (
+    <div data-testid="color-legend" data-color-mode={mode}>
+      {mode} Legend
+    </div>
+  )),
+  BinLegend: vi.fn(({ mode }) => <div data-testid="bin-legend">{mode}</div>),
+}));
+
+vi.mock('./ViewMode', () => ({
+  DepthViewControls: vi.fn(({ enabled, onEnabledChange }) => (
+    <button
+      data-testid="toggle-depth-view"
+      onClick={() => onEnabledChange(!enabled)}
+    >
+      3D Depth
+    </button>
+  )),
+  PointStyleSelector: vi.fn(({ onColorModeChange, onSizeModeChange }) => (
+    <div data-testid="point-style-selector">
+      <button
+        data-testid="color-by-alert"
+        onClick={() => onColorModeChange('alert')}
+      />
+      <button
+        data-testid="size-by-constant"
+        onClick={() => onSizeModeChange('constant')}
+      />
+    </div>
+  )),
+  TectonicOverlayControls: vi.fn(
+    ({ showPlateBoundaries, onShowPlateBoundariesChange }) => (
+      <button
+        data-testid="toggle-plate-boundaries"
+        onClick={() => onShowPlateBoundariesChange(!showPlateBoundaries)}
+      />
+    )
+  ),
+  ProjectionSelector: vi.fn(({ value, onChange }) => (
+    <button
+      data-testid="toggle-projection"
+      data-projection={value}
+      onClick={() => onChange(value === 'globe' ? 'mercator' : 'globe')}
+    />
+  )),
+  ViewModeSelector: vi.fn(({ onModeChange }) => (
+    <div data-testid="view-mode-selector">
+      <button
+        data-testid="select-hexagon"
+        onClick={() => onModeChange('hexagon')}
+      >
+        Hexagons
+      </button>
+    </div>
+  )),
+}));
+
+vi.mock('./Histogram', () => ({
+  TimeHistogram: vi.fn(({ bins }) => (
+    <div data-testid="time-histogram" data-bins={bins.length} />
+  )),
+}));
+
+vi.mock('./Sequences', () => ({
+  SequenceToggle: vi.fn(() => <div data-testid="sequence-toggle" />),
+  SequencePanel: vi.fn(({ sequences, onSelect }) => (
+    <div data-testid="sequence-panel" data-count={sequences.length}>
+      {sequences.map((sequence: { mainshock: { id: string } }) => (
+        <button
+          key={sequence.mainshock.id}
+          data-testid={`sequence-${sequence.mainshock.id}`}
+          onClick={() => onSelect(sequence.mainshock.id)}
+        />
+      ))}
+    </div>
+  )),
+}));
+
+vi.mock('./Selection', () => ({
+  SpatialSelectionControls: vi.fn(
+    ({ counts, onToolChange, drawingDisabled }) => (
+      <div
+        data-testid="spatial-selection-controls"
+        data-counts={JSON.stringify(counts)}
+        data-drawing-disabled={String(drawingDisabled)}
+      >
+        <button
+          data-testid="select-rectangle-tool"
+          onClick={() => onToolChange('rectangle')}
+        />
+      </div>
+    )
+  ),
+  // Draws a box around Japan
+  DrawingOverlay: vi.fn(({ onComplete, onCancel }) => (
+    <div data-testid="drawing-overlay">
+      <button
+        data-testid="complete-drawing"
+        onClick={() =>
+          onComplete([
+            [135, 30],
+            [145, 30],
+            [145, 40],
+            [135, 40],
+          ])
+        }
+      />
+      <button data-testid="cancel-drawing" onClick={onCancel} />
+    </div>
+  )),
+}));
+
+vi.mock('./Search', () => ({
+  RadiusSearchPanel: vi.fn(({ results, onPickingChange }) => (
+    <div
+      data-testid="radius-search-panel"
+      data-results={results
+        .map(({ earthquake }: { earthquake: { id: string } }) => earthquake.id)
+        .join(',')}
+    >
+      <button
+        data-testid="pick-search-center"
+        onClick={() => onPickingChange(true)}
+      />
+    </div>
+  )),
+}));
+
+vi.mock('./CrossSection', () => ({
+  CrossSectionPanel: vi.fn(
+    ({ points, hoveredId, onDrawingChange, onHover }) => (
+      <div
+        data-testid="cross-section-panel"
+        data-points={points
+          .map(
+            ({ earthquake }: { earthquake: { id: string } }) => earthquake.id
+          )
+          .join(',')}
+        data-hovered-id={hoveredId ?? ''}
+      >
+        <button
+          data-testid="draw-cross-section"
+          onClick={() => onDrawingChange(true)}
+        />
+        <button
+          data-testid="hover-first-profile-point"
+          onClick={() => onHover(points[0].earthquake.id)}
+        />
+      </div>
+    )
+  ),
+}));
+
+vi.mock('./Table', () => ({
+  EarthquakeTablePanel: vi.fn(
+    ({ earthquakes, center, hoveredId, onSelect }) => (
+      <div
+        data-testid="earthquake-table-panel"
+        data-count={earthquakes.length}
+        data-center={center.join(',')}
+        data-hovered-id={hoveredId ?? ''}
+      >
+        <button
+          data-testid="select-last-row"
+          onClick={() => onSelect(earthquakes[earthquakes.length - 1])}
+        />
+      </div>
+    )
+  ),
+}));
+
+vi.mock('./Export', () => ({
+  ExportControl: vi.fn(({ count, onExport }) => (
+    <div data-testid="export-control" data-count={count}>
+      <button data-testid="export-csv" onClick={() => onExport('csv')} />
+    </div>
+  )),
+}));
+
+vi.mock('../../utils/downloadFile', () => ({
+  downloadFile: vi.fn(),
+}));
+
+vi.mock('./Import', () => ({
+  CatalogImport: vi.fn(({ onImport }) => (
+    <button
+      data-testid="import-catalog"
+      onClick={() =>
+        onImport('local.xml', [
+          {
+            id: 'local-1',
+            longitude: 10,
+            latitude: 20,
+            depth: 5,
+            magnitude: 3.1,
+            timestamp: '2024-01-01T00:00:00.000Z',
+            location: 'Local',
+          },
+        ])
+      }
+    />
+  )),
 }));
 
 // Mock ZoomControls
@@ -73,6 +305,11 @@ vi.mock('./Tooltip', () => ({
       </div>
     ) : null
   ),
+  BoundaryTooltip: vi.fn(({ properties }) =>
+    properties ? (
+      <div data-testid="boundary-tooltip">{properties.name}</div>
+    ) : null
+  ),
 }));
 
 // Mock useTooltip hook
@@ -86,34 +323,123 @@ vi.mock('./hooks/useTooltip', () => ({
 
 // Mock DateRangeSelector
 vi.mock('./Filters', () => ({
-  DateRangeSelector: vi.fn(() => (
-    <div data-testid="date-range-selector">Date Range Selector</div>
+  AutoRefreshControl: vi.fn(({ value, onChange }) => (
+    <div data-testid="auto-refresh-control">
+      <button
+        data-testid="toggle-auto-refresh"
+        onClick={() => onChange({ enabled: !value.enabled })}
+      >
+        Live
+      </button>
+    </div>
+  )),
+  DateRangeSelector: vi.fn(({ onLoadArchive }) => (
+    <div data-testid="date-range-selector">
+      Date Range Selector
+      <button
+        data-testid="load-archive"
+        onClick={() =>
+          onLoadArchive({
+            startDate: new Date('2011-03-01T00:00:00Z'),
+            endDate: new Date('2011-03-31T23:59:59Z'),
+          })
+        }
+      >
+        Search archive
+      </button>
+    </div>
+  )),
+  RangeFilters: vi.fn(() => (
+    <div data-testid="range-filters">Range Filters</div>
+  )),
+  FeedSelector: vi.fn(({ onChange, archiveLabel }) => (
+    <div data-testid="feed-selector" data-archive-label={archiveLabel ?? ''}>
+      <button
+        data-testid="select-feed"
+        onClick={() => onChange({ period: 'week', magnitude: '4.5' })}
+      >
+        M4.5+ week
+      </button>
+    </div>
+  )),
+}));
+
+vi.mock('./Playback', () => ({
+  PlaybackToggle: vi.fn(() => (
+    <div data-testid="playback-toggle">Playback Toggle</div>
+  )),
+  PlaybackPanel: vi.fn(({ visibleCount }) => (
+    <div data-testid="playback-panel" data-visible-count={visibleCount} />
   )),
 }));
 
 // Mock useFilterState hook
 vi.mock('./hooks/useFilterState', () => ({
   useFilterState: vi.fn(() => ({
-    filters: { dateRange: { startDate: null, endDate: null } },
+    filters: {
+      dateRange: { startDate: null, endDate: null },
+      magnitudeRange: { min: null, max: null },
+      depthRange: { min: null, max: null },
+      boundaryDistanceRange: { min: null, max: null },
+    },
     setDateRange: vi.fn(),
+    setMagnitudeRange: vi.fn(),
+    setDepthRange: vi.fn(),
+    setBoundaryDistanceRange: vi.fn(),
     resetFilters: vi.fn(),
   })),
 }));
 
 // Mock EarthquakeStats
 vi.mock('./Stats', () => ({
-  EarthquakeStats: vi.fn(({ totalCount, filteredCount, isFiltered }) => (
+  EarthquakeStats: vi.fn(
+    ({
+      totalCount,
+      filteredCount,
+      isFiltered,
+      activeFilters,
+      magnitudeFrequency,
+      energyRelease,
+    }) => (
+      <div
+        data-testid="earthquake-stats"
+        data-total={totalCount}
+        data-filtered={filteredCount}
+        data-is-filtered={isFiltered}
+        data-active-filters={activeFilters?.join(',')}
+        data-magnitude-bins={magnitudeFrequency?.bins.length}
+        data-energy-events={energyRelease?.cumulative.length}
+      >
+        {filteredCount} earthquakes
+      </div>
+    )
+  ),
+}));
+
+// Mock EarthquakeDetailPanel
+vi.mock('./Details', () => ({
+  EarthquakeDetailPanel: vi.fn(({ earthquake, onClose, aftershocks }) => (
     <div
-      data-testid="earthquake-stats"
-      data-total={totalCount}
-      data-filtered={filteredCount}
-      data-is-filtered={isFiltered}
+      data-testid="earthquake-detail-panel"
+      data-id={earthquake.id}
+      data-aftershocks={aftershocks?.aftershocks.length ?? 'none'}
     >
-      {filteredCount} earthquakes
+      <button data-testid="earthquake-detail-close" onClick={onClose}>
+        Close
+      </button>
     </div>
   )),
 }));
 
+import DeckGL from '@deck.gl/react';
+import { createEarthquakeLayer } from './layers/earthquakeLayer';
+import { createEarthquakeAttributes } from './layers/earthquakeAttributes';
+import { useFilterState } from './hooks/useFilterState';
+import { downloadFile } from '../../utils/downloadFile';
+import {
+  createClusterIndex,
+  getClusters,
+} from '../../utils/earthquakeClusters';
 import { EarthquakeMap } from './EarthquakeMap';
 
 describe('EarthquakeMap', () => {
@@ -121,6 +447,11 @@ describe('EarthquakeMap', () => {
     // Reset stores before each test
     useEarthquakeStore.getState().reset();
     useMapViewStore.getState().reset();
+    useEarthquakePlaybackStore.getState().reset();
+    useEarthquakeViewStore.getState().reset();
+    useSpatialSelectionStore.getState().reset();
+    useRadiusSearchStore.getState().reset();
+    useCrossSectionStore.getState().reset();
     // Mock fetch to prevent actual network calls
     vi.spyOn(global, 'fetch').mockImplementation(() => new Promise(() => {}));
   });
@@ -429,4 +760,1386 @@ describe('EarthquakeMap', () => {
     expect(viewState.latitude).toBe(20);
     expect(viewState.zoom).toBe(1.5);
   });
+
+  it('fetches the default all_month feed on mount', () => {
+    const fetchSpy = vi
+      .spyOn(global, 'fetch')
+      .mockImplementation(() => new Promise(() => {}));
+
+    render(<EarthquakeMap />);
+
+    expect(fetchSpy).toHaveBeenCalledWith(
+      'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson'
+    );
+  });
+
+  it('renders the feed selector while loading', () => {
+    useEarthquakeStore.setState({ loading: true });
+
+    render(<EarthquakeMap />);
+
+    expect(screen.getByTestId('feed-selector')).toBeInTheDocument();
+  });
+
+  it('fetches the newly selected feed', async () => {
+    const fetchSpy = vi
+      .spyOn(global, 'fetch')
+      .mockImplementation(() => new Promise(() => {}));
+
+    render(<EarthquakeMap />);
+    fireEvent.click(screen.getByTestId('select-feed'));
+
+    await waitFor(() => {
+      expect(fetchSpy).toHaveBeenCalledWith(
+        'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/4.5_week.geojson'
+      );
+    });
+    expect(useEarthquakeStore.getState().selectedFeed).toEqual({
+      period: 'week',
+      magnitude: '4.5',
+    });
+  });
+
+  it('loads an archive window from the FDSN event service', async () => {
+    useEarthquakeStore.setState({
+      cache: {
+        'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson':
+          [
+            {
+              id: '1',
+              longitude: 0,
+              latitude: 0,
+              depth: 10,
+              magnitude: 5.0,
+              timestamp: '2024-01-01T00:00:00Z',
+              location: 'Test',
+            },
+          ],
+      },
+    });
+    const fetchSpy = vi
+      .spyOn(global, 'fetch')
+      .mockImplementation(() => new Promise(() => {}));
+
+    render(<EarthquakeMap />);
+    fireEvent.click(screen.getByTestId('load-archive'));
+
+    await waitFor(() => {
+      expect(fetchSpy).toHaveBeenCalled();
+    });
+    const url = new URL(fetchSpy.mock.calls[0][0] as string);
+    expect(url.pathname).toBe('/fdsnws/event/1/query');
+    expect(url.searchParams.get('starttime')).toBe('2011-03-01T00:00:00.000Z');
+    expect(useEarthquakeStore.getState().historicalQuery).not.toBeNull();
+  });
+
+  it('polls the selected feed when live updates are turned on', async () => {
+    vi.useFakeTimers();
+    const feedUrl =
+      'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson';
+    useEarthquakeStore.setState({ cache: { [feedUrl]: [] } });
+    const fetchSpy = vi
+      .spyOn(global, 'fetch')
+      .mockImplementation(() => new Promise(() => {}));
+
+    render(<EarthquakeMap />);
+    fireEvent.click(screen.getByTestId('toggle-auto-refresh'));
+    act(() => {
+      vi.advanceTimersByTime(60_000);
+    });
+
+    expect(fetchSpy).toHaveBeenCalledWith(feedUrl);
+    vi.useRealTimers();
+  });
+
+  it('hides live updates while an archive window is shown', () => {
+    useEarthquakeStore.setState({
+      historicalQuery: {
+        startTime: new Date('2011-03-01T00:00:00Z'),
+        endTime: new Date('2011-03-31T23:59:59Z'),
+      },
+    });
+    vi.spyOn(global, 'fetch').mockImplementation(() => new Promise(() => {}));
+
+    render(<EarthquakeMap />);
+
+    expect(
+      screen.queryByTestId('auto-refresh-control')
+    ).not.toBeInTheDocument();
+  });
+
+  it('replays the catalog with a playback layer when enabled', async () => {
+    const feedUrl =
+      'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson';
+    useEarthquakeStore.setState({
+      cache: {
+        [feedUrl]: [
+          {
+            id: '1',
+            longitude: 0,
+            latitude: 0,
+            depth: 10,
+            magnitude: 5.0,
+            timestamp: '2024-01-01T00:00:00Z',
+            location: 'Test',
+          },
+          {
+            id: '2',
+            longitude: 1,
+            latitude: 1,
+            depth: 10,
+            magnitude: 4.0,
+            timestamp: '2024-01-10T00:00:00Z',
+            location: 'Test',
+          },
+        ],
+      },
+    });
+    useEarthquakePlaybackStore.setState({ playbackEnabled: true });
+
+    render(<EarthquakeMap />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('playback-panel')).toBeInTheDocument();
+    });
+    // Only the first event has happened at the start of playback
+    expect(screen.getByTestId('playback-panel')).toHaveAttribute(
+      'data-visible-count',
+      '1'
+    );
+    expect(screen.getByTestId('deckgl-container')).toHaveAttribute(
+      'data-layer-ids',
+      'earthquake-playback-layer'
+    );
+  });
+
+  it('switches to hexagon bins with a bin legend', async () => {
+    const feedUrl =
+      'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson';
+    useEarthquakeStore.setState({
+      cache: {
+        [feedUrl]: [
+          {
+            id: '1',
+            longitude: 0,
+            latitude: 0,
+            depth: 10,
+            magnitude: 5.0,
+            timestamp: '2024-01-01T00:00:00Z',
+            location: 'Test',
+          },
+        ],
+      },
+    });
+
+    render(<EarthquakeMap />);
+    await waitFor(() => {
+      expect(screen.getByTestId('view-mode-selector')).toBeInTheDocument();
+    });
+    expect(screen.getByTestId('color-legend')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByTestId('select-hexagon'));
+
+    expect(useEarthquakeViewStore.getState().viewMode).toBe('hexagon');
+    expect(screen.getByTestId('deckgl-container')).toHaveAttribute(
+      'data-layer-ids',
+      'earthquake-hexagon-layer'
+    );
+    expect(screen.getByTestId('bin-legend')).toHaveTextContent('hexagon');
+    expect(screen.queryByTestId('color-legend')).not.toBeInTheDocument();
+  });
+
+  it('tilts into a 3D depth view with a reference grid', async () => {
+    const feedUrl =
+      'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson';
+    useEarthquakeStore.setState({
+      cache: {
+        [feedUrl]: [
+          {
+            id: '1',
+            longitude: 142,
+            latitude: 38,
+            depth: 30,
+            magnitude: 5.0,
+            timestamp: '2024-01-01T00:00:00Z',
+            location: 'Test',
+          },
+        ],
+      },
+    });
+
+    render(<EarthquakeMap />);
+    await waitFor(() => {
+      expect(screen.getByTestId('toggle-depth-view')).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByTestId('toggle-depth-view'));
+
+    expect(useMapViewStore.getState().viewState.pitch).toBe(50);
+    expect(screen.getByTestId('deckgl-container')).toHaveAttribute(
+      'data-layer-ids',
+      'depth-grid-layer,depth-grid-labels,earthquake-layer'
+    );
+
+    fireEvent.click(screen.getByTestId('toggle-depth-view'));
+
+    expect(useMapViewStore.getState().viewState.pitch).toBe(0);
+    expect(useMapViewStore.getState().viewState.bearing).toBe(0);
+  });
+
+  describe('clusters', () => {
+    const feedUrl =
+      'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson';
+    const base = {
+      depth: 10,
+      magnitude: 4.0,
+      timestamp: '2024-01-01T00:00:00Z',
+      location: 'Test',
+    };
+
+    beforeEach(() => {
+      useEarthquakeStore.setState({
+        cache: {
+          [feedUrl]: [
+            { ...base, id: 'japan-1', longitude: 142.0, latitude: 38.0 },
+            { ...base, id: 'japan-2', longitude: 142.1, latitude: 38.1 },
+            { ...base, id: 'chile', longitude: -71, latitude: -33 },
+          ],
+        },
+      });
+      useEarthquakeViewStore.setState({ viewMode: 'clusters' });
+      useMapViewStore.setState({
+        viewState: { longitude: 0, latitude: 0, zoom: 2, pitch: 0, bearing: 0 },
+      });
+    });
+
+    it('draws count bubbles and lone events at low zoom', async () => {
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(screen.getByTestId('deckgl-container')).toHaveAttribute(
+          'data-layer-ids',
+          'earthquake-cluster-layer,earthquake-cluster-labels,earthquake-layer'
+        );
+      });
+
+      // Only the event outside the cluster is drawn as a point
+      const [data] = vi.mocked(createEarthquakeLayer).mock.lastCall!;
+      expect(data.earthquakes.map((eq) => eq.id)).toEqual(['chile']);
+      expect(screen.getByTestId('size-legend')).toBeInTheDocument();
+    });
+
+    it('zooms in to expand a clicked cluster', async () => {
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(
+          screen.getByTestId('deckgl-container').getAttribute('data-layer-ids')
+        ).toContain('earthquake-cluster-layer');
+      });
+
+      const { onClick } = vi.mocked(DeckGL).mock.lastCall![0] as {
+        onClick: (info: { object?: unknown }) => void;
+      };
+      // Cluster ids come from the index, which is rebuilt the same way
+      const [cluster] = getClusters(
+        createClusterIndex(useEarthquakeStore.getState().earthquakes),
+        2
+      ).clusters;
+      act(() => {
+        onClick({ object: cluster });
+      });
+
+      const { viewState } = useMapViewStore.getState();
+      expect(viewState.longitude).toBeCloseTo(cluster.longitude, 6);
+      expect(viewState.latitude).toBeCloseTo(cluster.latitude, 6);
+      expect(viewState.zoom).toBeGreaterThan(2);
+      expect(useEarthquakeStore.getState().selectedEarthquakeId).toBeNull();
+    });
+
+    it('shows individual events once zoomed in', async () => {
+      useMapViewStore.setState({
+        viewState: {
+          longitude: 142,
+          latitude: 38,
+          zoom: 16,
+          pitch: 0,
+          bearing: 0,
+        },
+      });
+
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(screen.getByTestId('deckgl-container')).toHaveAttribute(
+          'data-layer-ids',
+          'earthquake-cluster-layer,earthquake-cluster-labels,earthquake-layer'
+        );
+      });
+
+      const [data] = vi.mocked(createEarthquakeLayer).mock.lastCall!;
+      expect(data).toHaveLength(3);
+    });
+  });
+
+  it('colors and sizes points by the chosen style', async () => {
+    const feedUrl =
+      'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson';
+    useEarthquakeStore.setState({
+      cache: {
+        [feedUrl]: [
+          {
+            id: '1',
+            longitude: 142,
+            latitude: 38,
+            depth: 30,
+            magnitude: 5.0,
+            timestamp: '2024-01-01T00:00:00Z',
+            location: 'Test',
+          },
+          {
+            id: '2',
+            longitude: 140,
+            latitude: 36,
+            depth: 10,
+            magnitude: 4.0,
+            timestamp: '2024-01-03T00:00:00Z',
+            location: 'Test',
+          },
+        ],
+      },
+    });
+
+    render(<EarthquakeMap />);
+    await waitFor(() => {
+      expect(screen.getByTestId('color-legend')).toHaveAttribute(
+        'data-color-mode',
+        'depth'
+      );
+    });
+    expect(screen.getByTestId('size-legend')).toHaveAttribute(
+      'data-size-mode',
+      'exponential'
+    );
+
+    fireEvent.click(screen.getByTestId('color-by-alert'));
+    fireEvent.click(screen.getByTestId('size-by-constant'));
+
+    expect(screen.getByTestId('color-legend')).toHaveAttribute(
+      'data-color-mode',
+      'alert'
+    );
+    // Every event is drawn the same size, so there is no size legend
+    expect(screen.queryByTestId('size-legend')).not.toBeInTheDocument();
+    expect(vi.mocked(createEarthquakeAttributes)).toHaveBeenLastCalledWith(
+      expect.any(Array),
+      expect.objectContaining({
+        colorMode: 'alert',
+        sizeMode: 'constant',
+        referenceTime: new Date('2024-01-03T00:00:00Z').getTime(),
+      })
+    );
+  });
+
+  it('filters points on the GPU without rebuilding their buffers', async () => {
+    const feedUrl =
+      'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson';
+    useEarthquakeStore.setState({
+      cache: {
+        [feedUrl]: [
+          {
+            id: 'small',
+            longitude: 142,
+            latitude: 38,
+            depth: 30,
+            magnitude: 3.0,
+            timestamp: '2024-01-01T00:00:00Z',
+            location: 'Test',
+          },
+          {
+            id: 'large',
+            longitude: 140,
+            latitude: 36,
+            depth: 10,
+            magnitude: 6.0,
+            timestamp: '2024-01-03T00:00:00Z',
+            location: 'Test',
+          },
+        ],
+      },
+    });
+    const filterStateMock = vi.mocked(useFilterState).getMockImplementation()!;
+    const filterState = filterStateMock();
+
+    const { rerender } = render(<EarthquakeMap />);
+    await waitFor(() => {
+      expect(
+        vi.mocked(createEarthquakeLayer).mock.lastCall?.[0].earthquakes
+      ).toHaveLength(2);
+    });
+    const [attributes, options] = vi.mocked(createEarthquakeLayer).mock
+      .lastCall!;
+    expect(options?.filterRange?.[1]).toEqual([3, 6]);
+    const builds = vi.mocked(createEarthquakeAttributes).mock.calls.length;
+
+    vi.mocked(useFilterState).mockReturnValue({
+      ...filterState,
+      filters: {
+        ...filterState.filters,
+        magnitudeRange: { min: 5, max: null },
+      },
+    });
+    try {
+      rerender(<EarthquakeMap />);
+
+      // Both events stay in the buffers; only the range moves
+      const [nextAttributes, nextOptions] = vi.mocked(createEarthquakeLayer)
+        .mock.lastCall!;
+      expect(nextAttributes).toBe(attributes);
+      expect(nextOptions?.filterRange?.[1]).toEqual([5, 6]);
+      expect(vi.mocked(createEarthquakeAttributes).mock.calls).toHaveLength(
+        builds
+      );
+      expect(screen.getByTestId('earthquake-stats')).toHaveAttribute(
+        'data-filtered',
+        '1'
+      );
+    } finally {
+      vi.mocked(useFilterState).mockImplementation(filterStateMock);
+    }
+  });
+
+  describe('globe projection', () => {
+    const feedUrl =
+      'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson';
+
+    beforeEach(() => {
+      useEarthquakeStore.setState({
+        cache: {
+          [feedUrl]: [
+            {
+              id: '1',
+              longitude: 142,
+              latitude: 38,
+              depth: 30,
+              magnitude: 5.0,
+              timestamp: '2024-01-01T00:00:00Z',
+              location: 'Test',
+            },
+          ],
+        },
+      });
+    });
+
+    it('switches to the globe around the same center', async () => {
+      useMapViewStore.setState({
+        viewState: {
+          longitude: 142,
+          latitude: 38,
+          zoom: 4,
+          pitch: 30,
+          bearing: 10,
+        },
+      });
+
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(screen.getByTestId('toggle-projection')).toBeInTheDocument();
+      });
+      expect(screen.getByTestId('maplibre-map')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByTestId('toggle-projection'));
+
+      expect(useEarthquakeViewStore.getState().projection).toBe('globe');
+      expect(useMapViewStore.getState().viewState).toMatchObject({
+        longitude: 142,
+        latitude: 38,
+        zoom: 4,
+        pitch: 0,
+        bearing: 0,
+      });
+      const deck = screen.getByTestId('deckgl-container');
+      expect(deck).toHaveAttribute('data-view-id', 'GlobeView');
+      // The globe draws its own basemap beneath the events
+      expect(deck).toHaveAttribute(
+        'data-layer-ids',
+        'globe-ocean-layer,earthquake-layer'
+      );
+      expect(screen.queryByTestId('maplibre-map')).not.toBeInTheDocument();
+    });
+
+    it('hides flat-map-only controls on the globe', async () => {
+      useEarthquakeViewStore.setState({ viewMode: 'hexagon' });
+
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(screen.getByTestId('toggle-projection')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByTestId('select-rectangle-tool'));
+      expect(screen.getByTestId('drawing-overlay')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByTestId('toggle-projection'));
+
+      expect(screen.queryByTestId('toggle-depth-view')).not.toBeInTheDocument();
+      expect(
+        screen.queryByTestId('view-mode-selector')
+      ).not.toBeInTheDocument();
+      expect(screen.queryByTestId('drawing-overlay')).not.toBeInTheDocument();
+      expect(screen.getByTestId('spatial-selection-controls')).toHaveAttribute(
+        'data-drawing-disabled',
+        'true'
+      );
+      // Binned views fall back to points
+      expect(
+        screen.getByTestId('deckgl-container').getAttribute('data-layer-ids')
+      ).toContain('earthquake-layer');
+    });
+
+    it('returns to the flat map', async () => {
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(screen.getByTestId('toggle-projection')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByTestId('toggle-projection'));
+      fireEvent.click(screen.getByTestId('toggle-projection'));
+
+      expect(useEarthquakeViewStore.getState().projection).toBe('mercator');
+      expect(screen.getByTestId('deckgl-container')).not.toHaveAttribute(
+        'data-view-id'
+      );
+      expect(screen.getByTestId('maplibre-map')).toBeInTheDocument();
+      expect(screen.getByTestId('toggle-depth-view')).toBeInTheDocument();
+    });
+  });
+
+  describe('event details', () => {
+    const feedUrl =
+      'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson';
+    const earthquake = {
+      id: 'us1',
+      longitude: 0,
+      latitude: 0,
+      depth: 10,
+      magnitude: 5.0,
+      timestamp: '2024-01-01T00:00:00Z',
+      location: 'Test',
+      status: 'reviewed',
+    };
+
+    beforeEach(() => {
+      useEarthquakeStore.setState({ cache: { [feedUrl]: [earthquake] } });
+    });
+
+    it('pins a clicked earthquake in the detail panel', async () => {
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(useEarthquakeStore.getState().earthquakes).toHaveLength(1);
+      });
+      expect(
+        screen.queryByTestId('earthquake-detail-panel')
+      ).not.toBeInTheDocument();
+
+      const { onClick } = vi.mocked(DeckGL).mock.lastCall![0] as {
+        onClick: (info: { object?: unknown }) => void;
+      };
+      act(() => {
+        onClick({ object: earthquake });
+      });
+
+      expect(useEarthquakeStore.getState().selectedEarthquakeId).toBe('us1');
+      expect(screen.getByTestId('earthquake-detail-panel')).toHaveAttribute(
+        'data-id',
+        'us1'
+      );
+      expect(screen.getByTestId('deckgl-container')).toHaveAttribute(
+        'data-layer-ids',
+        'earthquake-layer,earthquake-selection-layer'
+      );
+    });
+
+    it('clears the selection when clicking empty map', async () => {
+      useEarthquakeStore.setState({ selectedEarthquakeId: 'us1' });
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(
+          screen.getByTestId('earthquake-detail-panel')
+        ).toBeInTheDocument();
+      });
+
+      const { onClick } = vi.mocked(DeckGL).mock.lastCall![0] as {
+        onClick: (info: { object?: unknown }) => void;
+      };
+      act(() => {
+        onClick({});
+      });
+
+      expect(useEarthquakeStore.getState().selectedEarthquakeId).toBeNull();
+      expect(
+        screen.queryByTestId('earthquake-detail-panel')
+      ).not.toBeInTheDocument();
+    });
+
+    it('closes the detail panel', async () => {
+      useEarthquakeStore.setState({ selectedEarthquakeId: 'us1' });
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(
+          screen.getByTestId('earthquake-detail-panel')
+        ).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByTestId('earthquake-detail-close'));
+
+      expect(useEarthquakeStore.getState().selectedEarthquakeId).toBeNull();
+    });
+
+    it('forecasts aftershocks for a large selected event', async () => {
+      const aftershock = {
+        ...earthquake,
+        id: 'us2',
+        magnitude: 3.2,
+        timestamp: '2024-01-02T00:00:00Z',
+      };
+      useEarthquakeStore.setState({
+        cache: { [feedUrl]: [earthquake, aftershock] },
+        selectedEarthquakeId: 'us1',
+      });
+      render(<EarthquakeMap />);
+
+      await waitFor(() => {
+        expect(screen.getByTestId('earthquake-detail-panel')).toHaveAttribute(
+          'data-aftershocks',
+          '1'
+        );
+      });
+    });
+
+    it('skips the forecast for small events', async () => {
+      useEarthquakeStore.setState({
+        cache: { [feedUrl]: [{ ...earthquake, magnitude: 4.9 }] },
+        selectedEarthquakeId: 'us1',
+      });
+      render(<EarthquakeMap />);
+
+      await waitFor(() => {
+        expect(screen.getByTestId('earthquake-detail-panel')).toHaveAttribute(
+          'data-aftershocks',
+          'none'
+        );
+      });
+    });
+
+    it('hides the panel when the selected event leaves the catalog', async () => {
+      useEarthquakeStore.setState({ selectedEarthquakeId: 'deleted' });
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(useEarthquakeStore.getState().earthquakes).toHaveLength(1);
+      });
+
+      expect(
+        screen.queryByTestId('earthquake-detail-panel')
+      ).not.toBeInTheDocument();
+    });
+  });
+
+  describe('area selection', () => {
+    const feedUrl =
+      'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson';
+    const base = {
+      depth: 10,
+      magnitude: 4.0,
+      timestamp: '2024-01-01T00:00:00Z',
+    };
+
+    beforeEach(() => {
+      useEarthquakeStore.setState({
+        cache: {
+          [feedUrl]: [
+            {
+              ...base,
+              id: 'japan',
+              longitude: 139,
+              latitude: 36,
+              location: 'Japan',
+            },
+            {
+              ...base,
+              id: 'chile',
+              longitude: -71,
+              latitude: -33,
+              location: 'Chile',
+            },
+          ],
+        },
+      });
+    });
+
+    it('limits the map to events inside a drawn shape', async () => {
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(screen.getByTestId('earthquake-stats')).toHaveAttribute(
+          'data-filtered',
+          '2'
+        );
+      });
+      expect(screen.queryByTestId('drawing-overlay')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByTestId('select-rectangle-tool'));
+      fireEvent.click(screen.getByTestId('complete-drawing'));
+
+      const stats = screen.getByTestId('earthquake-stats');
+      expect(stats).toHaveAttribute('data-filtered', '1');
+      expect(stats).toHaveAttribute('data-is-filtered', 'true');
+      expect(stats).toHaveAttribute('data-active-filters', 'Area: 1 shape');
+      expect(screen.getByTestId('spatial-selection-controls')).toHaveAttribute(
+        'data-counts',
+        JSON.stringify({ 'shape-1': 1 })
+      );
+      expect(
+        screen.getByTestId('deckgl-container').getAttribute('data-layer-ids')
+      ).toContain('spatial-selection-layer');
+      // The tool is released once the shape is finished
+      expect(screen.queryByTestId('drawing-overlay')).not.toBeInTheDocument();
+    });
+
+    it('cancels drawing without adding a shape', async () => {
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(screen.getByTestId('earthquake-stats')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByTestId('select-rectangle-tool'));
+      fireEvent.click(screen.getByTestId('cancel-drawing'));
+
+      expect(useSpatialSelectionStore.getState().shapes).toEqual([]);
+      expect(screen.queryByTestId('drawing-overlay')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('radius search', () => {
+    const feedUrl =
+      'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson';
+    const base = {
+      depth: 10,
+      magnitude: 4.0,
+      timestamp: '2024-01-01T00:00:00Z',
+      location: 'Test',
+    };
+
+    beforeEach(() => {
+      useEarthquakeStore.setState({
+        cache: {
+          [feedUrl]: [
+            { ...base, id: 'far', longitude: 140.5, latitude: 35.7 },
+            { ...base, id: 'near', longitude: 139.8, latitude: 35.7 },
+            { ...base, id: 'chile', longitude: -71, latitude: -33 },
+          ],
+        },
+      });
+    });
+
+    it('sets the center from a map click while picking', async () => {
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(screen.getByTestId('earthquake-stats')).toHaveAttribute(
+          'data-filtered',
+          '3'
+        );
+      });
+
+      fireEvent.click(screen.getByTestId('pick-search-center'));
+      const { onClick } = vi.mocked(DeckGL).mock.lastCall![0] as {
+        onClick: (info: { object?: unknown; coordinate?: number[] }) => void;
+      };
+      act(() => {
+        onClick({ object: { id: 'chile' }, coordinate: [139.69, 35.68] });
+      });
+
+      // The click places the center rather than selecting the event
+      expect(useEarthquakeStore.getState().selectedEarthquakeId).toBeNull();
+      expect(useRadiusSearchStore.getState().center).toEqual([139.69, 35.68]);
+
+      const stats = screen.getByTestId('earthquake-stats');
+      expect(stats).toHaveAttribute('data-filtered', '2');
+      expect(stats).toHaveAttribute(
+        'data-active-filters',
+        'Within 100 km of 35.680°N, 139.690°E'
+      );
+      expect(screen.getByTestId('radius-search-panel')).toHaveAttribute(
+        'data-results',
+        'near,far'
+      );
+      expect(
+        screen.getByTestId('deckgl-container').getAttribute('data-layer-ids')
+      ).toContain('radius-search-layer');
+    });
+
+    it('updates results when the radius changes', async () => {
+      useRadiusSearchStore.setState({ center: [139.69, 35.68] });
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(screen.getByTestId('radius-search-panel')).toHaveAttribute(
+          'data-results',
+          'near,far'
+        );
+      });
+
+      act(() => {
+        useRadiusSearchStore.getState().setRadiusKm(50);
+      });
+
+      expect(screen.getByTestId('radius-search-panel')).toHaveAttribute(
+        'data-results',
+        'near'
+      );
+    });
+  });
+
+  describe('cross-section', () => {
+    const feedUrl =
+      'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson';
+    const base = {
+      depth: 10,
+      magnitude: 4.0,
+      timestamp: '2024-01-01T00:00:00Z',
+      location: 'Test',
+    };
+
+    beforeEach(() => {
+      useEarthquakeStore.setState({
+        cache: {
+          [feedUrl]: [
+            { ...base, id: 'east', longitude: 142, latitude: 38.1 },
+            { ...base, id: 'west', longitude: 140.5, latitude: 37.9 },
+            { ...base, id: 'off-line', longitude: 141, latitude: 40 },
+          ],
+        },
+      });
+    });
+
+    type ClickHandler = (info: {
+      object?: unknown;
+      coordinate?: number[];
+    }) => void;
+
+    it('draws a profile line with two map clicks', async () => {
+      useRadiusSearchStore.setState({ picking: true });
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(screen.getByTestId('earthquake-stats')).toHaveAttribute(
+          'data-filtered',
+          '3'
+        );
+      });
+
+      fireEvent.click(screen.getByTestId('draw-cross-section'));
+      // Drawing takes over map clicks from radius search
+      expect(useRadiusSearchStore.getState().picking).toBe(false);
+
+      let { onClick } = vi.mocked(DeckGL).mock.lastCall![0] as {
+        onClick: ClickHandler;
+      };
+      act(() => {
+        onClick({ object: { id: 'west' }, coordinate: [140, 38] });
+      });
+      expect(
+        screen.getByTestId('deckgl-container').getAttribute('data-layer-ids')
+      ).toContain('cross-section-start');
+
+      ({ onClick } = vi.mocked(DeckGL).mock.lastCall![0] as {
+        onClick: ClickHandler;
+      });
+      act(() => {
+        onClick({ coordinate: [143, 38] });
+      });
+
+      // Neither click selects an event
+      expect(useEarthquakeStore.getState().selectedEarthquakeId).toBeNull();
+      expect(useCrossSectionStore.getState().line).toEqual({
+        start: [140, 38],
+        end: [143, 38],
+      });
+      expect(screen.getByTestId('cross-section-panel')).toHaveAttribute(
+        'data-points',
+        'west,east'
+      );
+      const layerIds = screen
+        .getByTestId('deckgl-container')
+        .getAttribute('data-layer-ids');
+      expect(layerIds).toContain('cross-section-swath');
+      expect(layerIds).toContain('cross-section-line');
+      expect(layerIds).not.toContain('cross-section-start');
+    });
+
+    it('links hover between the map and the chart', async () => {
+      useCrossSectionStore.setState({
+        line: { start: [140, 38], end: [143, 38] },
+      });
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(screen.getByTestId('cross-section-panel')).toHaveAttribute(
+          'data-points',
+          'west,east'
+        );
+      });
+
+      // Chart → map
+      fireEvent.click(screen.getByTestId('hover-first-profile-point'));
+      expect(
+        screen.getByTestId('deckgl-container').getAttribute('data-layer-ids')
+      ).toContain('cross-section-hover-layer');
+
+      // Map → chart
+      const { onHover } = vi.mocked(DeckGL).mock.lastCall![0] as {
+        onHover: (info: { object?: unknown }) => void;
+      };
+      act(() => {
+        onHover({
+          object: { ...base, id: 'east', longitude: 142, latitude: 38.1 },
+        });
+      });
+      expect(screen.getByTestId('cross-section-panel')).toHaveAttribute(
+        'data-hovered-id',
+        'east'
+      );
+
+      act(() => {
+        onHover({});
+      });
+      expect(screen.getByTestId('cross-section-panel')).toHaveAttribute(
+        'data-hovered-id',
+        ''
+      );
+      expect(
+        screen.getByTestId('deckgl-container').getAttribute('data-layer-ids')
+      ).not.toContain('cross-section-hover-layer');
+    });
+  });
+
+  describe('event list', () => {
+    const feedUrl =
+      'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson';
+    const base = {
+      depth: 10,
+      magnitude: 4.0,
+      timestamp: '2024-01-01T00:00:00Z',
+      location: 'Test',
+    };
+
+    beforeEach(() => {
+      useEarthquakeStore.setState({
+        cache: {
+          [feedUrl]: [
+            { ...base, id: 'japan', longitude: 142.4, latitude: 38.3 },
+            { ...base, id: 'chile', longitude: -71, latitude: -33 },
+          ],
+        },
+      });
+    });
+
+    it('lists the filtered events around the map center', async () => {
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(screen.getByTestId('earthquake-table-panel')).toHaveAttribute(
+          'data-count',
+          '2'
+        );
+      });
+
+      expect(screen.getByTestId('earthquake-table-panel')).toHaveAttribute(
+        'data-center',
+        '0,20'
+      );
+    });
+
+    it('selects a row and flies to the event', async () => {
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(
+          screen.getByTestId('earthquake-table-panel')
+        ).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByTestId('select-last-row'));
+
+      expect(useEarthquakeStore.getState().selectedEarthquakeId).toBe('chile');
+      expect(useMapViewStore.getState().viewState).toMatchObject({
+        longitude: -71,
+        latitude: -33,
+        zoom: 6,
+        transitionDuration: 1000,
+      });
+      expect(screen.getByTestId('earthquake-detail-panel')).toHaveAttribute(
+        'data-id',
+        'chile'
+      );
+    });
+
+    it('passes the event hovered on the map to the list', async () => {
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(
+          screen.getByTestId('earthquake-table-panel')
+        ).toBeInTheDocument();
+      });
+
+      const { onHover } = vi.mocked(DeckGL).mock.lastCall![0] as {
+        onHover: (info: { object?: unknown }) => void;
+      };
+      act(() => {
+        onHover({ object: { ...base, id: 'japan' } });
+      });
+
+      expect(screen.getByTestId('earthquake-table-panel')).toHaveAttribute(
+        'data-hovered-id',
+        'japan'
+      );
+    });
+  });
+
+  it('exports the filtered events with the active filters', async () => {
+    const feedUrl =
+      'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson';
+    const base = {
+      depth: 10,
+      magnitude: 4.0,
+      timestamp: '2024-01-01T00:00:00Z',
+      location: 'Test',
+    };
+    useEarthquakeStore.setState({
+      cache: {
+        [feedUrl]: [
+          { ...base, id: 'near', longitude: 139.8, latitude: 35.7 },
+          { ...base, id: 'chile', longitude: -71, latitude: -33 },
+        ],
+      },
+    });
+    useRadiusSearchStore.setState({ center: [139.69, 35.68] });
+
+    render(<EarthquakeMap />);
+    await waitFor(() => {
+      expect(screen.getByTestId('export-control')).toHaveAttribute(
+        'data-count',
+        '1'
+      );
+    });
+    fireEvent.click(screen.getByTestId('export-csv'));
+
+    const [content, filename, mimeType] =
+      vi.mocked(downloadFile).mock.lastCall!;
+    expect(filename).toMatch(/^earthquakes-\d{4}-\d{2}-\d{2}\.csv$/);
+    expect(mimeType).toBe('text/csv');
+    expect(content).toContain(`# Source: ${feedUrl}`);
+    expect(content).toContain(
+      '# Filters: Within 100 km of 35.680°N, 139.690°E'
+    );
+    expect(content).toContain(',near,');
+    expect(content).not.toContain(',chile,');
+  });
+
+  describe('catalog import', () => {
+    it('replaces the feed with an imported catalog, even offline', async () => {
+      vi.mocked(global.fetch).mockRejectedValue(new Error('Offline'));
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(screen.getByText(/Error loading data/)).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByTestId('import-catalog'));
+
+      expect(useEarthquakeStore.getState().importedCatalog).toBe('local.xml');
+      expect(screen.getByTestId('earthquake-stats')).toHaveAttribute(
+        'data-total',
+        '1'
+      );
+      expect(screen.getByTestId('feed-selector')).toHaveAttribute(
+        'data-archive-label',
+        'local.xml (imported)'
+      );
+      expect(
+        screen.queryByTestId('auto-refresh-control')
+      ).not.toBeInTheDocument();
+    });
+
+    it('does not fetch a feed while a catalog is imported', () => {
+      useEarthquakeStore.getState().loadImportedCatalog('local.xml', []);
+
+      render(<EarthquakeMap />);
+
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('returns to the feed when one is selected', async () => {
+      useEarthquakeStore.getState().loadImportedCatalog('local.xml', []);
+      render(<EarthquakeMap />);
+
+      fireEvent.click(screen.getByTestId('select-feed'));
+
+      expect(useEarthquakeStore.getState().importedCatalog).toBeNull();
+      await waitFor(() => {
+        expect(global.fetch).toHaveBeenCalledWith(
+          expect.stringContaining('4.5_week.geojson')
+        );
+      });
+    });
+  });
+
+  it('colors points by aftershock sequence with a sequence list', async () => {
+    const feedUrl =
+      'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson';
+    const base = {
+      longitude: 142,
+      latitude: 38,
+      depth: 10,
+      location: 'Test',
+    };
+    useEarthquakeStore.setState({
+      cache: {
+        [feedUrl]: [
+          {
+            ...base,
+            id: 'main',
+            magnitude: 6.5,
+            timestamp: '2024-01-01T00:00:00Z',
+          },
+          {
+            ...base,
+            id: 'after',
+            magnitude: 4.0,
+            timestamp: '2024-01-01T06:00:00Z',
+          },
+          {
+            ...base,
+            id: 'elsewhere',
+            longitude: -122,
+            magnitude: 3.0,
+            timestamp: '2024-01-02T00:00:00Z',
+          },
+        ],
+      },
+    });
+    useEarthquakeViewStore.setState({ colorMode: 'sequence' });
+
+    render(<EarthquakeMap />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('sequence-panel')).toHaveAttribute(
+        'data-count',
+        '1'
+      );
+    });
+    expect(screen.queryByTestId('color-legend')).not.toBeInTheDocument();
+    expect(vi.mocked(createEarthquakeAttributes)).toHaveBeenLastCalledWith(
+      expect.any(Array),
+      expect.objectContaining({ sequenceIndex: { main: 0, after: 0 } })
+    );
+
+    fireEvent.click(screen.getByTestId('sequence-main'));
+    expect(useEarthquakeStore.getState().selectedEarthquakeId).toBe('main');
+  });
+
+  it('limits magnitude-frequency statistics to the visible area', async () => {
+    const feedUrl =
+      'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson';
+    const base = { depth: 10, timestamp: '2024-01-01T00:00:00Z' };
+    useEarthquakeStore.setState({
+      cache: {
+        [feedUrl]: [
+          {
+            ...base,
+            id: 'japan-a',
+            longitude: 139,
+            latitude: 36,
+            magnitude: 3.0,
+            location: 'Japan',
+          },
+          {
+            ...base,
+            id: 'japan-b',
+            longitude: 140,
+            latitude: 37,
+            magnitude: 3.5,
+            location: 'Japan',
+          },
+          {
+            ...base,
+            id: 'chile',
+            longitude: -71,
+            latitude: -33,
+            magnitude: 5.0,
+            location: 'Chile',
+          },
+        ],
+      },
+    });
+    useMapViewStore.setState({
+      viewState: {
+        longitude: 139,
+        latitude: 36,
+        zoom: 5,
+        pitch: 0,
+        bearing: 0,
+      },
+    });
+
+    render(<EarthquakeMap />);
+    await waitFor(() => {
+      expect(screen.getByTestId('earthquake-stats')).toBeInTheDocument();
+    });
+    // Before the canvas size is known the whole catalog counts (M3.0–5.0)
+    expect(screen.getByTestId('earthquake-stats')).toHaveAttribute(
+      'data-magnitude-bins',
+      '21'
+    );
+
+    const { onResize } = vi.mocked(DeckGL).mock.lastCall![0] as {
+      onResize: (size: { width: number; height: number }) => void;
+    };
+    act(() => {
+      onResize({ width: 800, height: 600 });
+    });
+
+    // Only the two Japanese events remain (M3.0–3.5)
+    expect(screen.getByTestId('earthquake-stats')).toHaveAttribute(
+      'data-magnitude-bins',
+      '6'
+    );
+    expect(screen.getByTestId('earthquake-stats')).toHaveAttribute(
+      'data-energy-events',
+      '2'
+    );
+  });
+
+  it('shows a time histogram of the catalog outside playback', async () => {
+    const feedUrl =
+      'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson';
+    const base = {
+      longitude: 0,
+      latitude: 0,
+      depth: 10,
+      magnitude: 4.0,
+      location: 'Test',
+    };
+    useEarthquakeStore.setState({
+      cache: {
+        [feedUrl]: [
+          { ...base, id: '1', timestamp: '2024-01-01T00:30:00Z' },
+          { ...base, id: '2', timestamp: '2024-01-01T05:30:00Z' },
+        ],
+      },
+    });
+
+    const { rerender } = render(<EarthquakeMap />);
+    await waitFor(() => {
+      expect(screen.getByTestId('time-histogram')).toBeInTheDocument();
+    });
+    // Hourly bins from 00:00 to 05:00
+    expect(screen.getByTestId('time-histogram')).toHaveAttribute(
+      'data-bins',
+      '6'
+    );
+
+    act(() => {
+      useEarthquakePlaybackStore.setState({ playbackEnabled: true });
+    });
+    rerender(<EarthquakeMap />);
+    expect(screen.queryByTestId('time-histogram')).not.toBeInTheDocument();
+  });
+
+  describe('plate boundaries', () => {
+    const feedUrl =
+      'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson';
+    const base = {
+      depth: 10,
+      magnitude: 4.0,
+      timestamp: '2024-01-01T00:00:00Z',
+      location: 'Test',
+    };
+
+    beforeEach(() => {
+      useEarthquakeStore.setState({
+        cache: {
+          [feedUrl]: [
+            // On the Japan Trench, and in the middle of North America
+            { ...base, id: 'japan', longitude: 143.8, latitude: 38 },
+            { ...base, id: 'kansas', longitude: -98, latitude: 38.5 },
+          ],
+        },
+      });
+    });
+
+    it('toggles the plate boundary overlay beneath the events', async () => {
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(
+          screen.getByTestId('toggle-plate-boundaries')
+        ).toBeInTheDocument();
+      });
+      const layerIds = () =>
+        screen.getByTestId('deckgl-container').getAttribute('data-layer-ids');
+      expect(layerIds()).not.toContain('plate-boundary-layer');
+
+      fireEvent.click(screen.getByTestId('toggle-plate-boundaries'));
+
+      expect(useEarthquakeViewStore.getState().showPlateBoundaries).toBe(true);
+      expect(layerIds()).toMatch(/plate-boundary-layer.*earthquake-layer/);
+      expect(layerIds()).not.toContain('fault-layer');
+
+      act(() => {
+        useEarthquakeViewStore.setState({ showFaults: true });
+      });
+      expect(layerIds()).toContain('fault-layer');
+    });
+
+    it('builds the points with each event’s distance to a boundary', async () => {
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(createEarthquakeAttributes).toHaveBeenCalled();
+      });
+
+      const { boundaryDistances } = vi.mocked(createEarthquakeAttributes).mock
+        .lastCall![1]!;
+      expect(boundaryDistances!.japan).toBeLessThan(10);
+      expect(boundaryDistances!.kansas).toBeGreaterThan(1000);
+    });
+
+    it('names the hovered boundary instead of an event', async () => {
+      useEarthquakeViewStore.setState({ showPlateBoundaries: true });
+      render(<EarthquakeMap />);
+      await waitFor(() => {
+        expect(screen.getByTestId('earthquake-stats')).toBeInTheDocument();
+      });
+
+      const { onHover } = vi.mocked(DeckGL).mock.lastCall![0] as {
+        onHover: (info: {
+          object?: unknown;
+          layer?: { id: string };
+          x?: number;
+          y?: number;
+        }) => void;
+      };
+      act(() => {
+        onHover({
+          object: {
+            type: 'Feature',
+            properties: {
+              name: 'Japan Trench',
+              type: 'convergent',
+              plates: 'Pacific / Okhotsk',
+            },
+          },
+          layer: { id: 'plate-boundary-layer' },
+          x: 10,
+          y: 20,
+        });
+      });
+      expect(screen.getByTestId('boundary-tooltip')).toHaveTextContent(
+        'Japan Trench'
+      );
+
+      act(() => {
+        onHover({});
+      });
+      expect(screen.queryByTestId('boundary-tooltip')).not.toBeInTheDocument();
+    });
+  });
 });
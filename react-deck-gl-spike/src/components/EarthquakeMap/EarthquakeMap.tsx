@@ -1,87 +1,380 @@
-import { useEffect, useMemo, useCallback } from 'react';
+import {
+  useCallback,
+  useDeferredValue,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 import Map from 'react-map-gl/maplibre';
 import DeckGL from '@deck.gl/react';
-import type { MapViewState } from '@deck.gl/core';
+import {
+  _GlobeView as GlobeView,
+  type MapViewState,
+  type PickingInfo,
+} from '@deck.gl/core';
 import 'maplibre-gl/dist/maplibre-gl.css';
-import { createEarthquakeLayer } from './layers/earthquakeLayer';
-import { SizeLegend, ColorLegend } from './Legend';
+import { createPulseLayer } from './layers/pulseLayer';
+import { createGlobeBasemapLayers } from './layers/globeBasemapLayer';
+import { SizeLegend, ColorLegend, BinLegend, PointColorLegend } from './Legend';
 import { ZoomControls } from './ZoomControls';
-import { EarthquakeTooltip } from './Tooltip';
-import { DateRangeSelector } from './Filters';
+import { BoundaryTooltip, EarthquakeTooltip } from './Tooltip';
+import { EarthquakeDetailPanel } from './Details';
+import {
+  AutoRefreshControl,
+  DateRangeSelector,
+  FeedSelector,
+  RangeFilters,
+} from './Filters';
 import { EarthquakeStats } from './Stats';
+import { PlaybackPanel, PlaybackToggle } from './Playback';
+import {
+  DepthViewControls,
+  PointStyleSelector,
+  TectonicOverlayControls,
+  ProjectionSelector,
+  ViewModeSelector,
+} from './ViewMode';
+import { SequencePanel, SequenceToggle } from './Sequences';
+import { TimeHistogram } from './Histogram';
+import { DrawingOverlay, SpatialSelectionControls } from './Selection';
+import { RadiusSearchPanel } from './Search';
+import { CrossSectionPanel } from './CrossSection';
+import { EarthquakeTablePanel } from './Table';
+import { ExportControl } from './Export';
+import { CatalogImport } from './Import';
 import { useTooltip } from './hooks/useTooltip';
 import { useFilterState } from './hooks/useFilterState';
 import { useFilteredEarthquakes } from './hooks/useFilteredEarthquakes';
-import { useEarthquakeStore, useMapViewStore } from '../../stores';
+import { usePulseClock } from './hooks/usePulseClock';
+import { useLandGeometry } from './hooks/useLandGeometry';
+import { useTectonicOverlays } from './hooks/useTectonicOverlays';
+import { useSpatialSelection } from './hooks/useSpatialSelection';
+import { useRadiusSearch } from './hooks/useRadiusSearch';
+import { useCrossSection } from './hooks/useCrossSection';
+import { usePlaybackFrame } from './hooks/usePlaybackFrame';
+import { useEarthquakeLayers } from './hooks/useEarthquakeLayers';
+import { useCatalogSource } from './hooks/useCatalogSource';
+import { useViewportStats } from './hooks/useViewportStats';
+import { useEarthquakeExport } from './hooks/useEarthquakeExport';
+import { useSelectedEarthquake } from './hooks/useSelectedEarthquake';
+import { useDepthView } from './hooks/useDepthView';
+import {
+  useEarthquakeStore,
+  useEarthquakeViewStore,
+  useMapViewStore,
+} from '../../stores';
+import { filterBySelection } from '../../utils/spatialSelection';
+import { filterByRadius } from '../../utils/radiusSearch';
+import {
+  getClusterExpansionZoom,
+  isEarthquakeCluster,
+  type EarthquakeCluster,
+} from '../../utils/earthquakeClusters';
+import type { LngLat } from '../../types/spatialSelection';
 import {
-  constrainViewState,
-  ZOOM_BOUNDS,
-} from '../../utils/constrainViewState';
+  buildTimeHistogram,
+  getHistogramBinSize,
+} from '../../utils/timeHistogram';
+import { getViewportBounds } from '../../utils/viewportBounds';
+import { getTimeBounds } from '../../utils/playbackFrame';
+import type { DateRange } from '../../types/filters';
+import type { Earthquake } from '../../types/earthquake';
+import {
+  getEffectiveViewMode,
+  type BinMetric,
+  type EarthquakeViewMode,
+  type MapProjection,
+} from '../../types/earthquakeView';
+import { ZOOM_BOUNDS } from '../../utils/constrainViewState';
+import {
+  constrainViewStateFor,
+  convertViewState,
+} from '../../utils/globeViewState';
 
 // Free OpenStreetMap-based style
 const MAP_STYLE =
   'https://basemaps.cartocdn.com/gl/positron-gl-style/style.json';
 
-// USGS Earthquake API - All earthquakes in the past 30 days
-const EARTHQUAKE_DATA_URL =
-  'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson';
+// MapLibre can't draw under deck.gl's globe, so the globe has its own basemap
+const GLOBE_VIEW = new GlobeView();
+
+// Closest zoom the map flies out to when an event is picked from the list
+const TABLE_FLY_TO_ZOOM = 6;
 
 export function EarthquakeMap() {
   // Earthquake store
   const earthquakes = useEarthquakeStore((state) => state.earthquakes);
   const loading = useEarthquakeStore((state) => state.loading);
   const error = useEarthquakeStore((state) => state.error);
-  const fetchEarthquakes = useEarthquakeStore(
-    (state) => state.fetchEarthquakes
-  );
+  const arrivals = useEarthquakeStore((state) => state.arrivals);
+
+  const containerRef = useRef<HTMLDivElement>(null);
 
   // Map view store
   const viewState = useMapViewStore((state) => state.viewState);
   const setViewState = useMapViewStore((state) => state.setViewState);
+  const setPitch = useMapViewStore((state) => state.setPitch);
+  const setBearing = useMapViewStore((state) => state.setBearing);
+  const flyTo = useMapViewStore((state) => state.flyTo);
   const resetView = useMapViewStore((state) => state.reset);
 
+  // View mode (points or aggregates)
+  const viewMode = useEarthquakeViewStore((state) => state.viewMode);
+  const binMetric = useEarthquakeViewStore((state) => state.binMetric);
+  const autoSwitch = useEarthquakeViewStore((state) => state.autoSwitch);
+  const setViewMode = useEarthquakeViewStore((state) => state.setViewMode);
+  const setBinMetric = useEarthquakeViewStore((state) => state.setBinMetric);
+  const setAutoSwitch = useEarthquakeViewStore((state) => state.setAutoSwitch);
+  const colorMode = useEarthquakeViewStore((state) => state.colorMode);
+  const sizeMode = useEarthquakeViewStore((state) => state.sizeMode);
+  const setColorMode = useEarthquakeViewStore((state) => state.setColorMode);
+  const setSizeMode = useEarthquakeViewStore((state) => state.setSizeMode);
+  const projection = useEarthquakeViewStore((state) => state.projection);
+  const setProjection = useEarthquakeViewStore((state) => state.setProjection);
+  const isGlobe = projection === 'globe';
+  const land = useLandGeometry(isGlobe);
+
   // Tooltip state
   const { tooltip, onHover, clearTooltip } = useTooltip();
 
+  // Plate boundaries and faults, and each event's distance to a boundary
+  const tectonics = useTectonicOverlays(earthquakes, tooltip?.object ?? null);
+  const { boundaryDistances, hoverOverlay, clearHoveredOverlay } = tectonics;
+
   // Filter state
-  const { filters, setDateRange } = useFilterState();
+  const {
+    filters,
+    setDateRange,
+    setMagnitudeRange,
+    setDepthRange,
+    setBoundaryDistanceRange,
+  } = useFilterState();
 
-  // Apply filters to get displayed earthquakes
-  const filteredEarthquakes = useFilteredEarthquakes(earthquakes, filters);
+  // Summary feed, archive window or imported catalog
+  const clearDateRange = useCallback(
+    () => setDateRange({ startDate: null, endDate: null }),
+    [setDateRange]
+  );
+  const catalog = useCatalogSource(clearDateRange);
+  const { loadArchive } = catalog;
 
-  // Check if any filter is active
-  const isFiltered =
-    filters.dateRange.startDate !== null || filters.dateRange.endDate !== null;
+  // Apply filters, keep events inside any drawn shape, then within the radius.
+  // Points follow the filters on the GPU at once; the panels built from the
+  // filtered events catch up without holding up a drag over a large catalog
+  const deferredFilters = useDeferredValue(filters);
+  const rangeFilteredEarthquakes = useFilteredEarthquakes(
+    earthquakes,
+    deferredFilters,
+    boundaryDistances
+  );
+  const selection = useSpatialSelection(rangeFilteredEarthquakes);
+  const { shapes, setActiveTool } = selection;
+  const areaFilteredEarthquakes = useMemo(
+    () => filterBySelection(rangeFilteredEarthquakes, shapes),
+    [rangeFilteredEarthquakes, shapes]
+  );
+  const search = useRadiusSearch(areaFilteredEarthquakes);
+  const {
+    radiusSearch,
+    picking: pickingCenter,
+    setCenter: setSearchCenter,
+  } = search;
+  const filteredEarthquakes = useMemo(
+    () => filterByRadius(areaFilteredEarthquakes, radiusSearch),
+    [areaFilteredEarthquakes, radiusSearch]
+  );
+  // The point layer applies the range filters on the GPU, so its events
+  // are only narrowed down by area here
+  const areaEarthquakes = useMemo(
+    () => filterByRadius(filterBySelection(earthquakes, shapes), radiusSearch),
+    [earthquakes, shapes, radiusSearch]
+  );
 
-  // Fetch earthquake data on mount
-  useEffect(() => {
-    fetchEarthquakes(EARTHQUAKE_DATA_URL);
-  }, [fetchEarthquakes]);
+  // 3D subsurface view, with depth reference planes under the displayed events
+  const depth = useDepthView(filteredEarthquakes);
+  const { enabled: depthView, layerExaggeration } = depth;
 
-  // Compute date bounds from data
-  const dateBounds = useMemo(() => {
-    if (earthquakes.length === 0) return { min: undefined, max: undefined };
+  // The 3D depth view and the globe always draw individual hypocenters
+  const effectiveViewMode =
+    depthView || isGlobe
+      ? 'points'
+      : getEffectiveViewMode(viewMode, autoSwitch, viewState.zoom);
+  // Clusters break up into individual events as the map zooms in
+  const showsEvents =
+    effectiveViewMode === 'points' || effectiveViewMode === 'clusters';
 
-    const timestamps = earthquakes.map((eq) =>
-      new Date(eq.timestamp).getTime()
-    );
+  // Event hovered on the map or in the profile chart, highlighted in the
+  // chart, on the map and in the event list
+  const [hoveredEarthquakeId, setHoveredEarthquakeId] = useState<string | null>(
+    null
+  );
+
+  // Depth profile along a drawn line
+  const profile = useCrossSection(filteredEarthquakes, hoveredEarthquakeId, {
+    verticalExaggeration: layerExaggeration,
+  });
+  const { drawing: drawingProfile, addPoint: addProfilePoint } = profile;
+
+  // Keep the same center when switching projection. Drawing unprojects
+  // with Web Mercator, so any tool in progress is dropped on the globe.
+  const handleProjectionChange = useCallback(
+    (next: MapProjection) => {
+      setProjection(next);
+      setViewState(convertViewState(viewState, next));
+      if (next === 'globe') setActiveTool(null);
+    },
+    [viewState, setProjection, setViewState, setActiveTool]
+  );
+
+  // Playback replays the filtered catalog in time order
+  const playback = usePlaybackFrame(filteredEarthquakes, {
+    verticalExaggeration: layerExaggeration,
+  });
+  const { frame: playbackFrame } = playback;
+
+  const catalogTimeBounds = useMemo(
+    () => getTimeBounds(earthquakes),
+    [earthquakes]
+  );
+
+  const eventLayers = useEarthquakeLayers(
+    filteredEarthquakes,
+    areaEarthquakes,
+    filters,
+    {
+      viewMode: effectiveViewMode,
+      binMetric,
+      zoom: viewState.zoom,
+      verticalExaggeration: layerExaggeration,
+      colorMode,
+      sizeMode,
+      // Ages count back from the newest event, so archives and imported
+      // catalogs get the full range of age classes
+      referenceTime: catalogTimeBounds?.end,
+      boundaryDistances,
+    }
+  );
+  const { declustered, clusterIndex, clearBinDomain } = eventLayers;
+
+  const handleViewModeChange = useCallback(
+    (mode: EarthquakeViewMode) => {
+      setViewMode(mode);
+      clearBinDomain();
+    },
+    [setViewMode, clearBinDomain]
+  );
+
+  const handleBinMetricChange = useCallback(
+    (metric: BinMetric) => {
+      setBinMetric(metric);
+      clearBinDomain();
+    },
+    [setBinMetric, clearBinDomain]
+  );
+
+  // Events over time for the whole catalog, with the filtered share on top
+  const histogram = useMemo(() => {
+    const bounds = catalogTimeBounds;
+    if (!bounds) return null;
+
+    const binSize = getHistogramBinSize(bounds.end - bounds.start);
     return {
-      min: new Date(Math.min(...timestamps)),
-      max: new Date(Math.max(...timestamps)),
+      bins: buildTimeHistogram(earthquakes, bounds, binSize),
+      filteredBins: buildTimeHistogram(filteredEarthquakes, bounds, binSize),
     };
-  }, [earthquakes]);
+  }, [catalogTimeBounds, earthquakes, filteredEarthquakes]);
+
+  // Statistics cover the filtered events in view
+  const stats = useViewportStats(filteredEarthquakes, viewState, isGlobe);
+
+  // Describe how the events were selected, and download them
+  const { filterLabels, exportEarthquakes } = useEarthquakeExport(
+    filteredEarthquakes,
+    { filters, shapes, radiusSearch, source: catalog.source }
+  );
+
+  const pulseTime = usePulseClock(arrivals);
+
+  // Query the FDSN archive for the chosen window within the visible area,
+  // or worldwide from the globe
+  const handleLoadArchive = useCallback(
+    (range: DateRange) => {
+      if (!range.startDate || !range.endDate) return;
+
+      const container = containerRef.current;
+      loadArchive({
+        startTime: range.startDate,
+        endTime: range.endDate,
+        bbox: isGlobe
+          ? undefined
+          : getViewportBounds(
+              viewState,
+              container?.clientWidth ?? 0,
+              container?.clientHeight ?? 0
+            ),
+        minMagnitude: filters.magnitudeRange.min ?? undefined,
+      });
+    },
+    [isGlobe, viewState, filters.magnitudeRange.min, loadArchive]
+  );
+
+  const hasData = !loading && !error && earthquakes.length > 0;
 
-  const layers = useMemo(
-    () => [createEarthquakeLayer(filteredEarthquakes)],
-    [filteredEarthquakes]
+  // Event pinned in the detail panel, with its aftershock forecast
+  const pinned = useSelectedEarthquake(
+    earthquakes,
+    catalogTimeBounds?.end ?? null,
+    { verticalExaggeration: layerExaggeration }
   );
+  const { selectedId: selectedEarthquakeId, select: selectEarthquake } = pinned;
+
+  const layers = useMemo(() => {
+    const options = { verticalExaggeration: layerExaggeration };
+    const selectionLayers = [...pinned.layers, ...profile.hoverLayers];
+    const baseLayers = [
+      ...(isGlobe ? createGlobeBasemapLayers(land) : []),
+      ...depth.layers,
+      ...tectonics.layers,
+      ...selection.layers,
+      ...search.layers,
+      ...profile.layers,
+    ];
+
+    if (playback.layer) {
+      return [...baseLayers, playback.layer, ...selectionLayers];
+    }
+    return pulseTime === null
+      ? [...baseLayers, ...eventLayers.layers, ...selectionLayers]
+      : [
+          ...baseLayers,
+          ...eventLayers.layers,
+          createPulseLayer(filteredEarthquakes, arrivals, pulseTime, options),
+          ...selectionLayers,
+        ];
+  }, [
+    isGlobe,
+    land,
+    layerExaggeration,
+    pinned.layers,
+    profile.hoverLayers,
+    selection.layers,
+    search.layers,
+    profile.layers,
+    depth.layers,
+    tectonics.layers,
+    playback.layer,
+    eventLayers.layers,
+    filteredEarthquakes,
+    arrivals,
+    pulseTime,
+  ]);
 
   const handleViewStateChange = useCallback(
     (params: {
       viewState: MapViewState;
       interactionState?: { isDragging?: boolean; isZooming?: boolean };
     }) => {
-      setViewState(constrainViewState(params.viewState));
+      setViewState(constrainViewStateFor(params.viewState, projection));
 
       // Dismiss tooltip during pan/zoom interactions
       if (
@@ -89,81 +382,361 @@ export function EarthquakeMap() {
         params.interactionState?.isZooming
       ) {
         clearTooltip();
+        clearHoveredOverlay();
+      }
+    },
+    [projection, setViewState, clearTooltip, clearHoveredOverlay]
+  );
+
+  // Only individual events have tooltips, not cluster bubbles. Plate
+  // boundaries and faults are named in a tooltip of their own
+  const handleHover = useCallback(
+    (info: PickingInfo<Earthquake | EarthquakeCluster>) => {
+      if (hoverOverlay(info)) {
+        onHover({ ...info, object: undefined });
+        setHoveredEarthquakeId(null);
+        return;
+      }
+
+      const object = isEarthquakeCluster(info.object) ? undefined : info.object;
+      onHover({ ...info, object });
+      setHoveredEarthquakeId(object?.id ?? null);
+    },
+    [hoverOverlay, onHover]
+  );
+
+  // Pin the clicked event in the detail panel; clicking empty map clears it.
+  // Clicking a cluster zooms in until it splits apart. While picking a
+  // search center or drawing a profile, the click places the center or the
+  // next end of the line instead.
+  const handleClick = useCallback(
+    (info: PickingInfo<Earthquake | EarthquakeCluster>) => {
+      if (pickingCenter) {
+        if (info.coordinate) {
+          setSearchCenter([info.coordinate[0], info.coordinate[1]]);
+        }
+        return;
+      }
+      if (drawingProfile) {
+        if (info.coordinate) {
+          addProfilePoint([info.coordinate[0], info.coordinate[1]]);
+        }
+        return;
       }
+      if (isEarthquakeCluster(info.object)) {
+        if (!clusterIndex) return;
+        setViewState(
+          constrainViewStateFor(
+            {
+              ...viewState,
+              longitude: info.object.longitude,
+              latitude: info.object.latitude,
+              zoom: getClusterExpansionZoom(clusterIndex, info.object),
+            },
+            projection
+          )
+        );
+        return;
+      }
+      selectEarthquake(info.object?.id ?? null);
     },
-    [setViewState, clearTooltip]
+    [
+      pickingCenter,
+      setSearchCenter,
+      drawingProfile,
+      addProfilePoint,
+      clusterIndex,
+      viewState,
+      projection,
+      setViewState,
+      selectEarthquake,
+    ]
+  );
+
+  // Event list distances are measured from the middle of the map
+  const mapCenter = useMemo<LngLat>(
+    () => [viewState.longitude, viewState.latitude],
+    [viewState.longitude, viewState.latitude]
+  );
+
+  // Pick an event from the list: pin it and bring it into view
+  const handleTableSelect = useCallback(
+    (earthquake: Earthquake) => {
+      selectEarthquake(earthquake.id);
+      flyTo({
+        longitude: earthquake.longitude,
+        latitude: earthquake.latitude,
+        zoom: Math.max(viewState.zoom, TABLE_FLY_TO_ZOOM),
+      });
+    },
+    [selectEarthquake, flyTo, viewState.zoom]
   );
 
   const handleZoomIn = useCallback(() => {
     setViewState(
-      constrainViewState({
-        ...viewState,
-        zoom: Math.min(viewState.zoom + 1, ZOOM_BOUNDS.maxZoom),
-      })
+      constrainViewStateFor(
+        {
+          ...viewState,
+          zoom: Math.min(viewState.zoom + 1, ZOOM_BOUNDS.maxZoom),
+        },
+        projection
+      )
     );
-  }, [viewState, setViewState]);
+  }, [viewState, projection, setViewState]);
 
   const handleZoomOut = useCallback(() => {
     setViewState(
-      constrainViewState({
-        ...viewState,
-        zoom: Math.max(viewState.zoom - 1, ZOOM_BOUNDS.minZoom),
-      })
+      constrainViewStateFor(
+        {
+          ...viewState,
+          zoom: Math.max(viewState.zoom - 1, ZOOM_BOUNDS.minZoom),
+        },
+        projection
+      )
     );
-  }, [viewState, setViewState]);
+  }, [viewState, projection, setViewState]);
 
   return (
-    <div className="w-full h-full relative">
-      {loading && (
-        <div className="absolute top-4 left-4 z-10 bg-gray-900/80 backdrop-blur-md px-3 py-2 rounded-lg shadow-lg border border-white/10 text-gray-100">
-          Loading earthquake data...
-        </div>
-      )}
-      {error && (
-        <div className="absolute top-4 left-4 z-10 bg-red-900/80 backdrop-blur-md text-red-200 px-3 py-2 rounded-lg shadow-lg border border-red-500/30">
-          Error loading data: {error.message}
-        </div>
-      )}
+    <div ref={containerRef} className="w-full h-full relative">
       <DeckGL
+        views={isGlobe ? GLOBE_VIEW : undefined}
         viewState={viewState}
         onViewStateChange={handleViewStateChange as never}
         controller={true}
         layers={layers}
-        onHover={onHover}
+        onHover={handleHover}
+        onClick={handleClick}
+        getCursor={
+          pickingCenter || drawingProfile
+            ? () => 'crosshair'
+            : ({ isDragging }) => (isDragging ? 'grabbing' : 'grab')
+        }
+        onResize={stats.setViewportSize}
         getTooltip={null}
       >
-        <Map mapStyle={MAP_STYLE} />
+        {!isGlobe && <Map mapStyle={MAP_STYLE} />}
       </DeckGL>
+      {selection.activeTool && !isGlobe && (
+        <DrawingOverlay
+          tool={selection.activeTool}
+          viewState={viewState}
+          onComplete={selection.completeShape}
+          onCancel={selection.cancelDrawing}
+        />
+      )}
       <EarthquakeTooltip
         earthquake={tooltip?.object ?? null}
         x={tooltip?.x ?? 0}
         y={tooltip?.y ?? 0}
         visible={tooltip !== null}
+        nearestBoundary={tectonics.nearestBoundary}
+      />
+      <BoundaryTooltip
+        properties={tectonics.hoveredOverlay?.properties ?? null}
+        x={tectonics.hoveredOverlay?.x ?? 0}
+        y={tectonics.hoveredOverlay?.y ?? 0}
       />
+      {pinned.selected && (
+        <EarthquakeDetailPanel
+          earthquake={pinned.selected}
+          onClose={pinned.clear}
+          aftershocks={pinned.aftershocks}
+        />
+      )}
       <ZoomControls
         onZoomIn={handleZoomIn}
         onZoomOut={handleZoomOut}
         onResetView={resetView}
       />
-      {!loading && !error && earthquakes.length > 0 && (
-        <>
-          <div className="absolute top-4 left-4 z-10">
+      <div className="absolute top-4 left-4 z-10 flex flex-col gap-2 max-h-[calc(100%-12rem)] overflow-y-auto">
+        <FeedSelector
+          value={catalog.selectedFeed}
+          onChange={catalog.changeFeed}
+          disabled={loading}
+          archiveLabel={catalog.label}
+        />
+        {catalog.isLiveFeed && (
+          <AutoRefreshControl
+            value={catalog.autoRefresh}
+            onChange={catalog.setAutoRefresh}
+            lastRefreshed={catalog.lastRefreshed}
+            error={catalog.refreshError}
+          />
+        )}
+        {loading && (
+          <div className="bg-gray-900/80 backdrop-blur-md px-3 py-2 rounded-lg shadow-lg border border-white/10 text-gray-100">
+            Loading earthquake data...
+          </div>
+        )}
+        {error && (
+          <div className="bg-red-900/80 backdrop-blur-md text-red-200 px-3 py-2 rounded-lg shadow-lg border border-red-500/30">
+            Error loading data: {error.message}
+          </div>
+        )}
+        <CatalogImport onImport={catalog.importCatalog} />
+        {hasData && (
+          <>
             <DateRangeSelector
               value={filters.dateRange}
               onChange={setDateRange}
-              minDate={dateBounds.min}
-              maxDate={dateBounds.max}
+              spanHours={catalog.spanHours}
+              onLoadArchive={handleLoadArchive}
             />
-          </div>
+            <RangeFilters
+              magnitudeRange={filters.magnitudeRange}
+              depthRange={filters.depthRange}
+              boundaryDistanceRange={filters.boundaryDistanceRange}
+              onMagnitudeChange={setMagnitudeRange}
+              onDepthChange={setDepthRange}
+              onBoundaryDistanceChange={setBoundaryDistanceRange}
+            />
+            <ProjectionSelector
+              value={projection}
+              onChange={handleProjectionChange}
+            />
+            {!isGlobe && (
+              <>
+                <ViewModeSelector
+                  mode={viewMode}
+                  metric={binMetric}
+                  autoSwitch={autoSwitch}
+                  onModeChange={handleViewModeChange}
+                  onMetricChange={handleBinMetricChange}
+                  onAutoSwitchChange={setAutoSwitch}
+                />
+                <DepthViewControls
+                  enabled={depthView}
+                  verticalExaggeration={depth.verticalExaggeration}
+                  pitch={viewState.pitch ?? 0}
+                  bearing={viewState.bearing ?? 0}
+                  onEnabledChange={depth.changeEnabled}
+                  onExaggerationChange={depth.setVerticalExaggeration}
+                  onPitchChange={setPitch}
+                  onBearingChange={setBearing}
+                />
+              </>
+            )}
+            <PointStyleSelector
+              colorMode={colorMode}
+              sizeMode={sizeMode}
+              onColorModeChange={setColorMode}
+              onSizeModeChange={setSizeMode}
+            />
+            <TectonicOverlayControls
+              showPlateBoundaries={tectonics.showPlateBoundaries}
+              showFaults={tectonics.showFaults}
+              onShowPlateBoundariesChange={tectonics.setShowPlateBoundaries}
+              onShowFaultsChange={tectonics.setShowFaults}
+            />
+            <SpatialSelectionControls
+              shapes={shapes}
+              activeTool={selection.activeTool}
+              counts={selection.counts}
+              onToolChange={setActiveTool}
+              drawingDisabled={isGlobe}
+              onRemove={selection.removeShape}
+              onClear={selection.clearShapes}
+              onExport={selection.exportShape}
+            />
+            <RadiusSearchPanel
+              center={search.center}
+              radiusKm={search.radiusKm}
+              picking={search.picking}
+              results={search.results}
+              selectedId={selectedEarthquakeId}
+              onCenterChange={search.setCenter}
+              onRadiusChange={search.setRadiusKm}
+              onPickingChange={search.changePicking}
+              onClear={search.clearSearch}
+              onSelect={selectEarthquake}
+            />
+            <CrossSectionPanel
+              line={profile.line}
+              widthKm={profile.widthKm}
+              drawing={drawingProfile}
+              hasStart={profile.hasStart}
+              points={profile.points}
+              lengthKm={profile.lengthKm}
+              getColor={eventLayers.getColor}
+              sizeMode={sizeMode}
+              hoveredId={hoveredEarthquakeId}
+              onDrawingChange={profile.changeDrawing}
+              onWidthChange={profile.setWidthKm}
+              onClear={profile.clearLine}
+              onHover={setHoveredEarthquakeId}
+              onSelect={selectEarthquake}
+            />
+            <EarthquakeTablePanel
+              earthquakes={filteredEarthquakes}
+              center={mapCenter}
+              selectedId={selectedEarthquakeId}
+              hoveredId={hoveredEarthquakeId}
+              onSelect={handleTableSelect}
+            />
+            <ExportControl
+              count={filteredEarthquakes.length}
+              onExport={exportEarthquakes}
+            />
+            <PlaybackToggle />
+            <SequenceToggle />
+          </>
+        )}
+      </div>
+      {hasData && (
+        <>
           <div className="absolute bottom-4 left-4 z-10">
             <EarthquakeStats
               totalCount={earthquakes.length}
               filteredCount={filteredEarthquakes.length}
-              isFiltered={isFiltered}
+              isFiltered={filterLabels.length > 0}
+              activeFilters={filterLabels}
+              magnitudeFrequency={stats.magnitudeFrequency}
+              energyRelease={stats.energyRelease}
             />
           </div>
-          <SizeLegend />
-          <ColorLegend />
+          {showsEvents || playbackFrame ? (
+            <>
+              {/* Playback keeps depth colors and exponential sizes */}
+              {playbackFrame ? (
+                <SizeLegend />
+              ) : (
+                sizeMode !== 'constant' && <SizeLegend sizeMode={sizeMode} />
+              )}
+              {declustered && !playbackFrame && (
+                <SequencePanel
+                  sequences={declustered.sequences}
+                  backgroundCount={declustered.background.length}
+                  selectedId={selectedEarthquakeId}
+                  onSelect={selectEarthquake}
+                />
+              )}
+              {playbackFrame && <ColorLegend />}
+              {!declustered && !playbackFrame && colorMode !== 'sequence' && (
+                <PointColorLegend mode={colorMode} />
+              )}
+            </>
+          ) : (
+            <BinLegend
+              mode={effectiveViewMode}
+              metric={binMetric}
+              domain={eventLayers.binDomain}
+            />
+          )}
+          {!playbackFrame && histogram && (
+            <TimeHistogram
+              bins={histogram.bins}
+              filteredBins={histogram.filteredBins}
+              value={filters.dateRange}
+              onChange={setDateRange}
+            />
+          )}
+          {playbackFrame && playback.bounds && (
+            <PlaybackPanel
+              bounds={playback.bounds}
+              currentTime={playback.time}
+              visibleCount={playbackFrame.length}
+            />
+          )}
         </>
       )}
     </div>
@@ -0,0 +1,38 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ExportControl } from './ExportControl';
+
+describe('ExportControl', () => {
+  it('shows how many events will be exported', () => {
+    render(<ExportControl count={1234} onExport={vi.fn()} />);
+
+    expect(screen.getByTestId('export-count')).toHaveTextContent(
+      '1,234 events'
+    );
+  });
+
+  it('uses the singular for one event', () => {
+    render(<ExportControl count={1} onExport={vi.fn()} />);
+
+    expect(screen.getByTestId('export-count')).toHaveTextContent('1 event');
+  });
+
+  it('exports in the chosen format', () => {
+    const onExport = vi.fn();
+    render(<ExportControl count={10} onExport={onExport} />);
+
+    fireEvent.click(screen.getByTestId('export-csv'));
+    fireEvent.click(screen.getByTestId('export-geojson'));
+    fireEvent.click(screen.getByTestId('export-kml'));
+
+    expect(onExport.mock.calls).toEqual([['csv'], ['geojson'], ['kml']]);
+  });
+
+  it('disables export when no events match', () => {
+    render(<ExportControl count={0} onExport={vi.fn()} />);
+
+    expect(screen.getByTestId('export-csv')).toBeDisabled();
+    expect(screen.getByTestId('export-geojson')).toBeDisabled();
+    expect(screen.getByTestId('export-kml')).toBeDisabled();
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  EXPORT_FORMATS,
+  type ExportFormat,
+} from '../../../types/earthquakeExport';
+
+interface ExportControlProps {
+  /** Number of events that would be exported */
+  count: number;
+  onExport: (format: ExportFormat) => void;
+}
+
+function optionClassName(selected: boolean): string {
+  return `
+    px-2 py-1 text-xs rounded-lg transition-colors backdrop-blur-md border disabled:opacity-50
+    ${
+      selected
+        ? 'bg-blue-500/80 text-white font-semibold border-blue-400/30'
+        : 'bg-gray-800/60 hover:bg-gray-700/80 text-gray-200 border-white/10'
+    }
+  `;
+}
+
+export function ExportControl({ count, onExport }: ExportControlProps) {
+  return (
+    <div
+      role="group"
+      aria-labelledby="export-label"
+      className="flex flex-col gap-2 p-3 bg-gray-900/80 backdrop-blur-md rounded-lg shadow-lg border border-white/10"
+      data-testid="export-control"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span id="export-label" className="text-sm font-semibold text-gray-100">
+          Export
+        </span>
+        <span className="text-xs text-gray-400" data-testid="export-count">
+          {count.toLocaleString()} {count === 1 ? 'event' : 'events'}
+        </span>
+      </div>
+
+      <div className="flex gap-1">
+        {EXPORT_FORMATS.map(({ format, label }) => (
+          <button
+            key={format}
+            type="button"
+            disabled={count === 0}
+            onClick={() => onExport(format)}
+            className={optionClassName(false)}
+            aria-label={`Download ${label}`}
+            data-testid={`export-${format}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
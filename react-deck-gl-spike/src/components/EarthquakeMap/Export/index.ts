@@ -0,0 +1 @@
+export { ExportControl } from './ExportControl';
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { AutoRefreshControl } from './AutoRefreshControl';
+import { REFRESH_INTERVALS } from '../../../types/earthquakeFeed';
+
+describe('AutoRefreshControl', () => {
+  const mockOnChange = vi.fn();
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders the toggle and all intervals', () => {
+    render(
+      <AutoRefreshControl
+        value={{ enabled: false, intervalMs: 60_000 }}
+        onChange={mockOnChange}
+      />
+    );
+
+    expect(screen.getByText('Live Updates')).toBeInTheDocument();
+    expect(screen.getByTestId('auto-refresh-toggle')).toHaveTextContent('Off');
+    REFRESH_INTERVALS.forEach(({ ms }) => {
+      expect(
+        screen.getByTestId(`auto-refresh-interval-${ms}`)
+      ).toBeInTheDocument();
+    });
+  });
+
+  it('turns live updates on', () => {
+    render(
+      <AutoRefreshControl
+        value={{ enabled: false, intervalMs: 60_000 }}
+        onChange={mockOnChange}
+      />
+    );
+
+    fireEvent.click(screen.getByTestId('auto-refresh-toggle'));
+
+    expect(mockOnChange).toHaveBeenCalledWith({ enabled: true });
+  });
+
+  it('turns live updates off', () => {
+    render(
+      <AutoRefreshControl
+        value={{ enabled: true, intervalMs: 60_000 }}
+        onChange={mockOnChange}
+      />
+    );
+
+    expect(screen.getByTestId('auto-refresh-toggle')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    fireEvent.click(screen.getByTestId('auto-refresh-toggle'));
+
+    expect(mockOnChange).toHaveBeenCalledWith({ enabled: false });
+  });
+
+  it('disables interval options while off', () => {
+    render(
+      <AutoRefreshControl
+        value={{ enabled: false, intervalMs: 60_000 }}
+        onChange={mockOnChange}
+      />
+    );
+
+    expect(screen.getByTestId('auto-refresh-interval-30000')).toBeDisabled();
+  });
+
+  it('selects an interval', () => {
+    render(
+      <AutoRefreshControl
+        value={{ enabled: true, intervalMs: 60_000 }}
+        onChange={mockOnChange}
+      />
+    );
+
+    expect(screen.getByTestId('auto-refresh-interval-60000')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    fireEvent.click(screen.getByTestId('auto-refresh-interval-300000'));
+
+    expect(mockOnChange).toHaveBeenCalledWith({ intervalMs: 300_000 });
+  });
+
+  it('shows the last refresh time', () => {
+    render(
+      <AutoRefreshControl
+        value={{ enabled: true, intervalMs: 60_000 }}
+        onChange={mockOnChange}
+        lastRefreshed={new Date(2024, 0, 1, 14, 5, 30).getTime()}
+      />
+    );
+
+    expect(screen.getByTestId('auto-refresh-updated')).toHaveTextContent(
+      'Updated 02:05:30 PM'
+    );
+  });
+
+  it('shows refresh errors instead of the last refresh time', () => {
+    render(
+      <AutoRefreshControl
+        value={{ enabled: true, intervalMs: 60_000 }}
+        onChange={mockOnChange}
+        lastRefreshed={Date.now()}
+        error={new Error('HTTP error! status: 503')}
+      />
+    );
+
+    expect(screen.getByTestId('auto-refresh-error')).toHaveTextContent(
+      'Refresh failed: HTTP error! status: 503'
+    );
+    expect(
+      screen.queryByTestId('auto-refresh-updated')
+    ).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  REFRESH_INTERVALS,
+  type AutoRefreshSettings,
+} from '../../../types/earthquakeFeed';
+
+interface AutoRefreshControlProps {
+  value: AutoRefreshSettings;
+  onChange: (settings: Partial<AutoRefreshSettings>) => void;
+  /** Epoch ms of the last successful refresh */
+  lastRefreshed?: number | null;
+  error?: Error | null;
+}
+
+function optionClassName(selected: boolean): string {
+  return `
+    px-2 py-1 text-xs rounded-lg transition-colors backdrop-blur-md border disabled:opacity-50
+    ${
+      selected
+        ? 'bg-blue-500/80 text-white font-semibold border-blue-400/30'
+        : 'bg-gray-800/60 hover:bg-gray-700/80 text-gray-200 border-white/10'
+    }
+  `;
+}
+
+function formatRefreshTime(time: number): string {
+  return new Date(time).toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+export function AutoRefreshControl({
+  value,
+  onChange,
+  lastRefreshed = null,
+  error = null,
+}: AutoRefreshControlProps) {
+  return (
+    <div
+      role="group"
+      aria-labelledby="auto-refresh-label"
+      className="flex flex-col gap-2 p-3 bg-gray-900/80 backdrop-blur-md rounded-lg shadow-lg border border-white/10"
+      data-testid="auto-refresh-control"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span
+          id="auto-refresh-label"
+          className="text-sm font-semibold text-gray-100"
+        >
+          Live Updates
+        </span>
+        <button
+          type="button"
+          onClick={() => onChange({ enabled: !value.enabled })}
+          aria-pressed={value.enabled}
+          className={optionClassName(value.enabled)}
+          data-testid="auto-refresh-toggle"
+        >
+          {value.enabled ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      <div className="flex gap-1" role="group" aria-label="Refresh interval">
+        {REFRESH_INTERVALS.map(({ label, ms }) => (
+          <button
+            key={ms}
+            type="button"
+            disabled={!value.enabled}
+            onClick={() => onChange({ intervalMs: ms })}
+            aria-pressed={value.intervalMs === ms}
+            className={optionClassName(value.intervalMs === ms)}
+            data-testid={`auto-refresh-interval-${ms}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {error ? (
+        <span className="text-xs text-red-300" data-testid="auto-refresh-error">
+          Refresh failed: {error.message}
+        </span>
+      ) : (
+        lastRefreshed !== null && (
+          <span
+            className="text-xs text-gray-400"
+            data-testid="auto-refresh-updated"
+          >
+            Updated {formatRefreshTime(lastRefreshed)}
+          </span>
+        )
+      )}
+    </div>
+  );
+}
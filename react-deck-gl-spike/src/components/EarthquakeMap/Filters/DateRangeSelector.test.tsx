@@ -280,3 +280,215 @@ describe('DateRangeSelector presets', () => {
     expect(presetGroup).toBeInTheDocument();
   });
 });
+
+describe('DateRangeSelector presets adapted to feed span', () => {
+  const mockOnChange = vi.fn();
+  const defaultValue: DateRange = { startDate: null, endDate: null };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-06-15T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  const presetLabels = () =>
+    screen
+      .getByRole('group', { name: 'Quick date presets' })
+      .querySelectorAll('button');
+
+  it('uses day presets for a month-long feed', () => {
+    render(
+      <DateRangeSelector
+        value={defaultValue}
+        onChange={mockOnChange}
+        spanHours={720}
+      />
+    );
+
+    expect(Array.from(presetLabels()).map((b) => b.textContent)).toEqual([
+      '24h',
+      '7d',
+      '30d',
+      'All',
+    ]);
+  });
+
+  it('uses sub-week presets for a week-long feed', () => {
+    render(
+      <DateRangeSelector
+        value={defaultValue}
+        onChange={mockOnChange}
+        spanHours={168}
+      />
+    );
+
+    expect(Array.from(presetLabels()).map((b) => b.textContent)).toEqual([
+      '6h',
+      '24h',
+      '3d',
+      'All',
+    ]);
+  });
+
+  it('uses hour presets for a day-long feed', () => {
+    render(
+      <DateRangeSelector
+        value={defaultValue}
+        onChange={mockOnChange}
+        spanHours={24}
+      />
+    );
+
+    expect(Array.from(presetLabels()).map((b) => b.textContent)).toEqual([
+      '1h',
+      '6h',
+      '12h',
+      'All',
+    ]);
+  });
+
+  it('uses minute presets for an hour-long feed', () => {
+    render(
+      <DateRangeSelector
+        value={defaultValue}
+        onChange={mockOnChange}
+        spanHours={1}
+      />
+    );
+
+    expect(Array.from(presetLabels()).map((b) => b.textContent)).toEqual([
+      '15m',
+      '30m',
+      'All',
+    ]);
+  });
+
+  it('sub-day presets start exactly that many hours ago', () => {
+    render(
+      <DateRangeSelector
+        value={defaultValue}
+        onChange={mockOnChange}
+        spanHours={24}
+      />
+    );
+
+    fireEvent.click(screen.getByTestId('preset-6h'));
+
+    expect(mockOnChange).toHaveBeenCalledWith({
+      startDate: new Date('2024-06-15T06:00:00Z'),
+      endDate: new Date('2024-06-15T12:00:00Z'),
+    });
+  });
+
+  it('sub-day preset is active when dates match the range', () => {
+    render(
+      <DateRangeSelector
+        value={{
+          startDate: new Date('2024-06-15T11:00:00Z'),
+          endDate: new Date('2024-06-15T12:00:00Z'),
+        }}
+        onChange={mockOnChange}
+        spanHours={24}
+      />
+    );
+
+    expect(screen.getByTestId('preset-1h')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    expect(screen.getByTestId('preset-6h')).toHaveAttribute(
+      'aria-pressed',
+      'false'
+    );
+  });
+});
+
+describe('DateRangeSelector archive search', () => {
+  const mockOnChange = vi.fn();
+  const mockOnLoadArchive = vi.fn();
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('hides archive button without onLoadArchive', () => {
+    render(
+      <DateRangeSelector
+        value={{ startDate: null, endDate: null }}
+        onChange={mockOnChange}
+      />
+    );
+
+    expect(screen.queryByTestId('load-archive-button')).not.toBeInTheDocument();
+  });
+
+  it('disables archive button until both dates are set', () => {
+    render(
+      <DateRangeSelector
+        value={{ startDate: new Date('2011-03-01'), endDate: null }}
+        onChange={mockOnChange}
+        onLoadArchive={mockOnLoadArchive}
+      />
+    );
+
+    expect(screen.getByTestId('load-archive-button')).toBeDisabled();
+  });
+
+  it('calls onLoadArchive with the selected window', () => {
+    const value: DateRange = {
+      startDate: new Date('2011-03-01T00:00:00'),
+      endDate: new Date('2011-03-31T23:59:59'),
+    };
+
+    render(
+      <DateRangeSelector
+        value={value}
+        onChange={mockOnChange}
+        onLoadArchive={mockOnLoadArchive}
+      />
+    );
+    fireEvent.click(screen.getByTestId('load-archive-button'));
+
+    expect(mockOnLoadArchive).toHaveBeenCalledWith(value);
+  });
+
+  it('allows start dates before the loaded data when archive is available', () => {
+    render(
+      <DateRangeSelector
+        value={{ startDate: null, endDate: null }}
+        onChange={mockOnChange}
+        minDate={new Date('2024-01-01')}
+        onLoadArchive={mockOnLoadArchive}
+      />
+    );
+
+    expect(screen.getByTestId('start-date-input')).toHaveAttribute(
+      'min',
+      '1900-01-01'
+    );
+  });
+
+  it('allows windows after an older loaded archive, up to today', () => {
+    const today = new Date().toISOString().split('T')[0];
+
+    render(
+      <DateRangeSelector
+        value={{ startDate: null, endDate: null }}
+        onChange={mockOnChange}
+        minDate={new Date('2010-01-01')}
+        maxDate={new Date('2010-01-31')}
+        onLoadArchive={mockOnLoadArchive}
+      />
+    );
+
+    expect(screen.getByTestId('end-date-input')).toHaveAttribute('max', today);
+    expect(screen.getByTestId('start-date-input')).toHaveAttribute(
+      'max',
+      today
+    );
+  });
+});
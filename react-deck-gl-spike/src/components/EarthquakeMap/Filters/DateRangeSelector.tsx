@@ -1,39 +1,105 @@
 import { useCallback } from 'react';
 import type { DateRange } from '../../../types/filters';
+import { FDSN_ARCHIVE_START } from '../../../api/fdsnEvents';
+import { DAY_MS, HOUR_MS } from '../../../utils/time';
 
 interface DateRangeSelectorProps {
   value: DateRange;
   onChange: (range: DateRange) => void;
+  /** Loaded catalog's span; ignored when the archive can be searched */
   minDate?: Date;
   maxDate?: Date;
+  /** Time span of the loaded catalog; presets adapt to fit inside it */
+  spanHours?: number;
+  /** When set, any past window can be chosen and loaded from the archive */
+  onLoadArchive?: (range: DateRange) => void;
 }
 
-const PRESETS = [
-  { label: '24h', days: 1 },
-  { label: '7d', days: 7 },
-  { label: '30d', days: 30 },
-  { label: 'All', days: null },
-] as const;
+interface Preset {
+  label: string;
+  hours: number | null;
+}
+
+const ALL_PRESET: Preset = { label: 'All', hours: null };
+
+// Preset sets keyed by the largest catalog span they suit
+const PRESETS_BY_SPAN: { maxSpanHours: number; presets: Preset[] }[] = [
+  {
+    maxSpanHours: 1,
+    presets: [
+      { label: '15m', hours: 0.25 },
+      { label: '30m', hours: 0.5 },
+    ],
+  },
+  {
+    maxSpanHours: 24,
+    presets: [
+      { label: '1h', hours: 1 },
+      { label: '6h', hours: 6 },
+      { label: '12h', hours: 12 },
+    ],
+  },
+  {
+    maxSpanHours: 24 * 7,
+    presets: [
+      { label: '6h', hours: 6 },
+      { label: '24h', hours: 24 },
+      { label: '3d', hours: 24 * 3 },
+    ],
+  },
+];
+
+const DEFAULT_PRESETS: Preset[] = [
+  { label: '24h', hours: 24 },
+  { label: '7d', hours: 24 * 7 },
+  { label: '30d', hours: 24 * 30 },
+];
+
+/**
+ * Pick quick presets that fit inside the catalog's time span.
+ */
+function getPresetsForSpan(spanHours?: number): Preset[] {
+  const match =
+    spanHours === undefined
+      ? undefined
+      : PRESETS_BY_SPAN.find(({ maxSpanHours }) => spanHours <= maxSpanHours);
+  return [...(match ? match.presets : DEFAULT_PRESETS), ALL_PRESET];
+}
+
+// Whole-day presets start at local midnight; sub-day presets are exact
+function isWholeDays(hours: number): boolean {
+  return hours % 24 === 0;
+}
+
+function getPresetStart(hours: number, now: Date): Date {
+  if (isWholeDays(hours)) {
+    const start = new Date(now);
+    start.setDate(now.getDate() - hours / 24);
+    start.setHours(0, 0, 0, 0);
+    return start;
+  }
+  return new Date(now.getTime() - hours * HOUR_MS);
+}
 
 function formatDateForInput(date: Date | null | undefined): string {
   if (!date || isNaN(date.getTime())) return '';
   return date.toISOString().split('T')[0];
 }
 
-function isPresetActive(value: DateRange, days: number | null): boolean {
-  if (days === null) {
+function isPresetActive(value: DateRange, hours: number | null): boolean {
+  if (hours === null) {
     return value.startDate === null && value.endDate === null;
   }
   if (!value.startDate || !value.endDate) return false;
 
   const now = new Date();
-  const expectedStart = new Date();
-  expectedStart.setDate(now.getDate() - days);
-  expectedStart.setHours(0, 0, 0, 0);
+  const expectedStart = getPresetStart(hours, now);
+  const tolerance = isWholeDays(hours) ? DAY_MS : (hours * HOUR_MS) / 12;
 
   const startMatch =
-    Math.abs(value.startDate.getTime() - expectedStart.getTime()) < 86400000;
-  const endMatch = Math.abs(value.endDate.getTime() - now.getTime()) < 86400000;
+    Math.abs(value.startDate.getTime() - expectedStart.getTime()) < tolerance;
+  const endMatch =
+    Math.abs(value.endDate.getTime() - now.getTime()) < tolerance;
 
   return startMatch && endMatch;
 }
@@ -43,7 +109,16 @@ export function DateRangeSelector({
   onChange,
   minDate,
   maxDate,
+  spanHours,
+  onLoadArchive,
 }: DateRangeSelectorProps) {
+  const presets = getPresetsForSpan(spanHours);
+
+  // Any window the archive holds can be loaded, not just the current one
+  const today = new Date();
+  const earliest = onLoadArchive ? FDSN_ARCHIVE_START : minDate;
+  const latest = onLoadArchive ? today : (maxDate ?? today);
+
   const handleStartChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       const date = e.target.value
@@ -65,15 +140,12 @@ export function DateRangeSelector({
   );
 
   const handlePresetClick = useCallback(
-    (days: number | null) => {
-      if (days === null) {
+    (hours: number | null) => {
+      if (hours === null) {
         onChange({ startDate: null, endDate: null });
       } else {
         const end = new Date();
-        const start = new Date();
-        start.setDate(end.getDate() - days);
-        start.setHours(0, 0, 0, 0);
-        onChange({ startDate: start, endDate: end });
+        onChange({ startDate: getPresetStart(hours, end), endDate: end });
       }
     },
     [onChange]
@@ -94,16 +166,16 @@ export function DateRangeSelector({
       </span>
 
       <div className="flex gap-1" role="group" aria-label="Quick date presets">
-        {PRESETS.map(({ label, days }) => (
+        {presets.map(({ label, hours }) => (
           <button
             key={label}
             type="button"
-            onClick={() => handlePresetClick(days)}
-            aria-pressed={isPresetActive(value, days)}
+            onClick={() => handlePresetClick(hours)}
+            aria-pressed={isPresetActive(value, hours)}
             className={`
               px-2 py-1 text-xs rounded-lg transition-colors backdrop-blur-md border
               ${
-                isPresetActive(value, days)
+                isPresetActive(value, hours)
                   ? 'bg-blue-500/80 text-white font-semibold border-blue-400/30'
                   : 'bg-gray-800/60 hover:bg-gray-700/80 text-gray-200 border-white/10'
               }
@@ -125,8 +197,8 @@ export function DateRangeSelector({
             type="date"
             value={formatDateForInput(value.startDate)}
             onChange={handleStartChange}
-            min={minDate ? formatDateForInput(minDate) : undefined}
-            max={formatDateForInput(value.endDate || maxDate || new Date())}
+            min={formatDateForInput(earliest) || undefined}
+            max={formatDateForInput(value.endDate || latest)}
             className="w-full px-2 py-1 bg-gray-800/60 border border-gray-600 rounded text-sm text-gray-100 focus:ring-2 focus:ring-blue-500 focus:outline-none focus:border-blue-500"
             aria-describedby="date-range-help"
             data-testid="start-date-input"
@@ -142,18 +214,26 @@ export function DateRangeSelector({
             type="date"
             value={formatDateForInput(value.endDate)}
             onChange={handleEndChange}
-            min={formatDateForInput(value.startDate || minDate)}
-            max={
-              maxDate
-                ? formatDateForInput(maxDate)
-                : formatDateForInput(new Date())
-            }
+            min={formatDateForInput(value.startDate || earliest)}
+            max={formatDateForInput(latest)}
             className="w-full px-2 py-1 bg-gray-800/60 border border-gray-600 rounded text-sm text-gray-100 focus:ring-2 focus:ring-blue-500 focus:outline-none focus:border-blue-500"
             data-testid="end-date-input"
           />
         </div>
       </div>
 
+      {onLoadArchive && (
+        <button
+          type="button"
+          onClick={() => onLoadArchive(value)}
+          disabled={!value.startDate || !value.endDate}
+          className="px-2 py-1 text-xs rounded-lg transition-colors backdrop-blur-md border bg-gray-800/60 hover:bg-gray-700/80 text-gray-200 border-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
+          data-testid="load-archive-button"
+        >
+          Search archive
+        </button>
+      )}
+
       <span id="date-range-help" className="sr-only">
         Select start and end dates to filter displayed earthquakes
       </span>
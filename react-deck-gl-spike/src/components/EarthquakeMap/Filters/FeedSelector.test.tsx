@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { FeedSelector } from './FeedSelector';
+import type { EarthquakeFeed } from '../../../types/earthquakeFeed';
+
+describe('FeedSelector', () => {
+  const mockOnChange = vi.fn();
+  const value: EarthquakeFeed = { period: 'month', magnitude: 'all' };
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders the USGS Feed label', () => {
+    render(<FeedSelector value={value} onChange={mockOnChange} />);
+
+    expect(screen.getByText('USGS Feed')).toBeInTheDocument();
+  });
+
+  it('renders a button for every time span', () => {
+    render(<FeedSelector value={value} onChange={mockOnChange} />);
+
+    ['hour', 'day', 'week', 'month'].forEach((period) => {
+      expect(screen.getByTestId(`feed-period-${period}`)).toBeInTheDocument();
+    });
+  });
+
+  it('renders a button for every magnitude threshold', () => {
+    render(<FeedSelector value={value} onChange={mockOnChange} />);
+
+    ['all', '1.0', '2.5', '4.5', 'significant'].forEach((magnitude) => {
+      expect(
+        screen.getByTestId(`feed-magnitude-${magnitude}`)
+      ).toBeInTheDocument();
+    });
+  });
+
+  it('marks the selected period and magnitude as pressed', () => {
+    render(
+      <FeedSelector
+        value={{ period: 'week', magnitude: '2.5' }}
+        onChange={mockOnChange}
+      />
+    );
+
+    expect(screen.getByTestId('feed-period-week')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    expect(screen.getByTestId('feed-magnitude-2.5')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    expect(screen.getByTestId('feed-period-month')).toHaveAttribute(
+      'aria-pressed',
+      'false'
+    );
+  });
+
+  it('changes period while keeping magnitude', () => {
+    render(
+      <FeedSelector
+        value={{ period: 'month', magnitude: '4.5' }}
+        onChange={mockOnChange}
+      />
+    );
+
+    fireEvent.click(screen.getByTestId('feed-period-day'));
+
+    expect(mockOnChange).toHaveBeenCalledWith({
+      period: 'day',
+      magnitude: '4.5',
+    });
+  });
+
+  it('changes magnitude while keeping period', () => {
+    render(<FeedSelector value={value} onChange={mockOnChange} />);
+
+    fireEvent.click(screen.getByTestId('feed-magnitude-significant'));
+
+    expect(mockOnChange).toHaveBeenCalledWith({
+      period: 'month',
+      magnitude: 'significant',
+    });
+  });
+
+  it('disables all options when disabled', () => {
+    render(<FeedSelector value={value} onChange={mockOnChange} disabled />);
+
+    expect(screen.getByTestId('feed-period-hour')).toBeDisabled();
+    expect(screen.getByTestId('feed-magnitude-all')).toBeDisabled();
+  });
+
+  it('has accessible group role', () => {
+    render(<FeedSelector value={value} onChange={mockOnChange} />);
+
+    expect(
+      screen.getByRole('group', { name: 'USGS Feed' })
+    ).toBeInTheDocument();
+  });
+
+  it('shows the archive window and no pressed feed in archive mode', () => {
+    render(
+      <FeedSelector
+        value={value}
+        onChange={mockOnChange}
+        archiveLabel="2011-03-01 – 2011-03-31"
+      />
+    );
+
+    expect(screen.getByTestId('archive-label')).toHaveTextContent(
+      'Archive: 2011-03-01 – 2011-03-31'
+    );
+    expect(screen.getByTestId('feed-period-month')).toHaveAttribute(
+      'aria-pressed',
+      'false'
+    );
+  });
+
+  it('returns to a live feed from archive mode', () => {
+    render(
+      <FeedSelector
+        value={value}
+        onChange={mockOnChange}
+        archiveLabel="2011-03-01 – 2011-03-31"
+      />
+    );
+
+    fireEvent.click(screen.getByTestId('feed-period-month'));
+
+    expect(mockOnChange).toHaveBeenCalledWith(value);
+  });
+});
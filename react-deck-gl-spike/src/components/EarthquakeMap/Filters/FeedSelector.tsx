@@ -0,0 +1,92 @@
+import {
+  FEED_MAGNITUDES,
+  FEED_PERIODS,
+  type EarthquakeFeed,
+} from '../../../types/earthquakeFeed';
+
+interface FeedSelectorProps {
+  value: EarthquakeFeed;
+  onChange: (feed: EarthquakeFeed) => void;
+  disabled?: boolean;
+  /** Describes the archive window or imported catalog replacing the live feed */
+  archiveLabel?: string | null;
+}
+
+function optionClassName(selected: boolean): string {
+  return `
+    px-2 py-1 text-xs rounded-lg transition-colors backdrop-blur-md border disabled:opacity-50
+    ${
+      selected
+        ? 'bg-blue-500/80 text-white font-semibold border-blue-400/30'
+        : 'bg-gray-800/60 hover:bg-gray-700/80 text-gray-200 border-white/10'
+    }
+  `;
+}
+
+export function FeedSelector({
+  value,
+  onChange,
+  disabled = false,
+  archiveLabel = null,
+}: FeedSelectorProps) {
+  // No live feed option is in effect while an archive window is shown
+  const isLive = archiveLabel === null;
+
+  return (
+    <div
+      role="group"
+      aria-labelledby="feed-selector-label"
+      className="flex flex-col gap-2 p-3 bg-gray-900/80 backdrop-blur-md rounded-lg shadow-lg border border-white/10"
+      data-testid="feed-selector"
+    >
+      <span
+        id="feed-selector-label"
+        className="text-sm font-semibold text-gray-100"
+      >
+        USGS Feed
+      </span>
+
+      <div className="flex gap-1" role="group" aria-label="Feed time span">
+        {FEED_PERIODS.map(({ period, label }) => (
+          <button
+            key={period}
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange({ ...value, period })}
+            aria-pressed={isLive && value.period === period}
+            className={optionClassName(isLive && value.period === period)}
+            data-testid={`feed-period-${period}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div
+        className="flex flex-wrap gap-1"
+        role="group"
+        aria-label="Feed minimum magnitude"
+      >
+        {FEED_MAGNITUDES.map(({ magnitude, label }) => (
+          <button
+            key={magnitude}
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange({ ...value, magnitude })}
+            aria-pressed={isLive && value.magnitude === magnitude}
+            className={optionClassName(isLive && value.magnitude === magnitude)}
+            data-testid={`feed-magnitude-${magnitude}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {!isLive && (
+        <span className="text-xs text-amber-300" data-testid="archive-label">
+          Archive: {archiveLabel}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { RangeFilters } from './RangeFilters';
+
+describe('RangeFilters', () => {
+  const onMagnitudeChange = vi.fn();
+  const onDepthChange = vi.fn();
+  const onBoundaryDistanceChange = vi.fn();
+
+  const renderFilters = () =>
+    render(
+      <RangeFilters
+        magnitudeRange={{ min: null, max: null }}
+        depthRange={{ min: null, max: null }}
+        boundaryDistanceRange={{ min: null, max: null }}
+        onMagnitudeChange={onMagnitudeChange}
+        onDepthChange={onDepthChange}
+        onBoundaryDistanceChange={onBoundaryDistanceChange}
+      />
+    );
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders magnitude and depth sliders', () => {
+    renderFilters();
+
+    expect(screen.getByTestId('magnitude-range-slider')).toBeInTheDocument();
+    expect(screen.getByTestId('depth-range-slider')).toBeInTheDocument();
+  });
+
+  it('shows depth bounds in km', () => {
+    renderFilters();
+
+    expect(screen.getByTestId('depth-range-value')).toHaveTextContent(
+      '0 km – 700 km'
+    );
+  });
+
+  it('routes magnitude changes to onMagnitudeChange', () => {
+    renderFilters();
+
+    fireEvent.change(screen.getByLabelText('Minimum magnitude'), {
+      target: { value: '2.5' },
+    });
+
+    expect(onMagnitudeChange).toHaveBeenCalledWith({ min: 2.5, max: null });
+    expect(onDepthChange).not.toHaveBeenCalled();
+  });
+
+  it('routes depth changes to onDepthChange', () => {
+    renderFilters();
+
+    fireEvent.change(screen.getByLabelText('Minimum depth'), {
+      target: { value: '300' },
+    });
+
+    expect(onDepthChange).toHaveBeenCalledWith({ min: 300, max: null });
+    expect(onMagnitudeChange).not.toHaveBeenCalled();
+  });
+
+  it('routes boundary distance changes to onBoundaryDistanceChange', () => {
+    renderFilters();
+
+    expect(
+      screen.getByTestId('boundary-distance-range-value')
+    ).toHaveTextContent('0 km – 1000 km');
+
+    fireEvent.change(
+      screen.getByLabelText('Maximum distance to plate boundary'),
+      { target: { value: '100' } }
+    );
+
+    expect(onBoundaryDistanceChange).toHaveBeenCalledWith({
+      min: null,
+      max: 100,
+    });
+    expect(onDepthChange).not.toHaveBeenCalled();
+  });
+
+  it('has dark glassmorphism styling', () => {
+    renderFilters();
+
+    const panel = screen.getByTestId('range-filters');
+    expect(panel).toHaveClass('bg-gray-900/80');
+    expect(panel).toHaveClass('backdrop-blur-md');
+  });
+});
@@ -0,0 +1,76 @@
+import { RangeSlider } from './RangeSlider';
+import {
+  BOUNDARY_DISTANCE_BOUNDS,
+  DEPTH_BOUNDS,
+  MAGNITUDE_BOUNDS,
+  type BoundaryDistanceRange,
+  type DepthRange,
+  type MagnitudeRange,
+} from '../../../types/filters';
+
+interface RangeFiltersProps {
+  magnitudeRange: MagnitudeRange;
+  depthRange: DepthRange;
+  boundaryDistanceRange: BoundaryDistanceRange;
+  onMagnitudeChange: (range: MagnitudeRange) => void;
+  onDepthChange: (range: DepthRange) => void;
+  onBoundaryDistanceChange: (range: BoundaryDistanceRange) => void;
+}
+
+export function RangeFilters({
+  magnitudeRange,
+  depthRange,
+  boundaryDistanceRange,
+  onMagnitudeChange,
+  onDepthChange,
+  onBoundaryDistanceChange,
+}: RangeFiltersProps) {
+  return (
+    <div
+      role="group"
+      aria-labelledby="range-filters-label"
+      className="flex flex-col gap-2 p-3 bg-gray-900/80 backdrop-blur-md rounded-lg shadow-lg border border-white/10"
+      data-testid="range-filters"
+    >
+      <span
+        id="range-filters-label"
+        className="text-sm font-semibold text-gray-100"
+      >
+        Magnitude, Depth &amp; Tectonics
+      </span>
+
+      <RangeSlider
+        id="magnitude-range"
+        label="Magnitude"
+        value={magnitudeRange}
+        onChange={onMagnitudeChange}
+        min={MAGNITUDE_BOUNDS.min}
+        max={MAGNITUDE_BOUNDS.max}
+        step={MAGNITUDE_BOUNDS.step}
+        formatValue={(v) => v.toFixed(1)}
+      />
+
+      <RangeSlider
+        id="depth-range"
+        label="Depth"
+        value={depthRange}
+        onChange={onDepthChange}
+        min={DEPTH_BOUNDS.min}
+        max={DEPTH_BOUNDS.max}
+        step={DEPTH_BOUNDS.step}
+        formatValue={(v) => `${v} km`}
+      />
+
+      <RangeSlider
+        id="boundary-distance-range"
+        label="Distance to plate boundary"
+        value={boundaryDistanceRange}
+        onChange={onBoundaryDistanceChange}
+        min={BOUNDARY_DISTANCE_BOUNDS.min}
+        max={BOUNDARY_DISTANCE_BOUNDS.max}
+        step={BOUNDARY_DISTANCE_BOUNDS.step}
+        formatValue={(v) => `${v} km`}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { RangeSlider } from './RangeSlider';
+import type { NumericRange } from '../../../types/filters';
+
+describe('RangeSlider', () => {
+  const mockOnChange = vi.fn();
+  const openRange: NumericRange = { min: null, max: null };
+
+  const renderSlider = (value: NumericRange = openRange) =>
+    render(
+      <RangeSlider
+        id="magnitude-range"
+        label="Magnitude"
+        value={value}
+        onChange={mockOnChange}
+        min={0}
+        max={10}
+        step={0.1}
+        formatValue={(v) => v.toFixed(1)}
+      />
+    );
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders the label', () => {
+    renderSlider();
+
+    expect(screen.getByText('Magnitude')).toBeInTheDocument();
+  });
+
+  it('renders minimum and maximum handles', () => {
+    renderSlider();
+
+    expect(screen.getByLabelText('Minimum magnitude')).toBeInTheDocument();
+    expect(screen.getByLabelText('Maximum magnitude')).toBeInTheDocument();
+  });
+
+  it('shows the full extent when the range is open', () => {
+    renderSlider();
+
+    expect(screen.getByTestId('magnitude-range-value')).toHaveTextContent(
+      '0.0 – 10.0'
+    );
+    expect(screen.getByTestId('magnitude-range-min-input')).toHaveValue('0');
+    expect(screen.getByTestId('magnitude-range-max-input')).toHaveValue('10');
+  });
+
+  it('shows the selected bounds', () => {
+    renderSlider({ min: 2.5, max: 6 });
+
+    expect(screen.getByTestId('magnitude-range-value')).toHaveTextContent(
+      '2.5 – 6.0'
+    );
+  });
+
+  it('calls onChange with new minimum', () => {
+    renderSlider();
+
+    fireEvent.change(screen.getByTestId('magnitude-range-min-input'), {
+      target: { value: '2.5' },
+    });
+
+    expect(mockOnChange).toHaveBeenCalledWith({ min: 2.5, max: null });
+  });
+
+  it('calls onChange with new maximum', () => {
+    renderSlider({ min: 2.5, max: null });
+
+    fireEvent.change(screen.getByTestId('magnitude-range-max-input'), {
+      target: { value: '7' },
+    });
+
+    expect(mockOnChange).toHaveBeenCalledWith({ min: 2.5, max: 7 });
+  });
+
+  it('maps a handle moved back to the extent to an open bound', () => {
+    renderSlider({ min: 2.5, max: 7 });
+
+    fireEvent.change(screen.getByTestId('magnitude-range-min-input'), {
+      target: { value: '0' },
+    });
+    fireEvent.change(screen.getByTestId('magnitude-range-max-input'), {
+      target: { value: '10' },
+    });
+
+    expect(mockOnChange).toHaveBeenNthCalledWith(1, { min: null, max: 7 });
+    expect(mockOnChange).toHaveBeenNthCalledWith(2, { min: 2.5, max: null });
+  });
+
+  it('prevents the minimum handle from passing the maximum', () => {
+    renderSlider({ min: null, max: 5 });
+
+    fireEvent.change(screen.getByTestId('magnitude-range-min-input'), {
+      target: { value: '8' },
+    });
+
+    expect(mockOnChange).toHaveBeenCalledWith({ min: 5, max: 5 });
+  });
+
+  it('prevents the maximum handle from passing the minimum', () => {
+    renderSlider({ min: 5, max: null });
+
+    fireEvent.change(screen.getByTestId('magnitude-range-max-input'), {
+      target: { value: '3' },
+    });
+
+    expect(mockOnChange).toHaveBeenCalledWith({ min: 5, max: 5 });
+  });
+
+  it('positions the selected segment between the handles', () => {
+    renderSlider({ min: 2, max: 6 });
+
+    const selection = screen.getByTestId('magnitude-range-selection');
+    expect(selection).toHaveStyle({ left: '20%', width: '40%' });
+  });
+});
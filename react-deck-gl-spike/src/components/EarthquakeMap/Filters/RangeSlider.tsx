@@ -0,0 +1,108 @@
+import { useCallback } from 'react';
+import type { NumericRange } from '../../../types/filters';
+
+interface RangeSliderProps {
+  id: string;
+  label: string;
+  value: NumericRange;
+  onChange: (range: NumericRange) => void;
+  min: number;
+  max: number;
+  step: number;
+  formatValue?: (value: number) => string;
+}
+
+/**
+ * Dual-handle slider built from two stacked range inputs.
+ * A handle resting on the slider extent maps to a null (open) bound,
+ * so the full extent means "no filter".
+ */
+export function RangeSlider({
+  id,
+  label,
+  value,
+  onChange,
+  min,
+  max,
+  step,
+  formatValue = (v) => v.toString(),
+}: RangeSliderProps) {
+  const lower = value.min ?? min;
+  const upper = value.max ?? max;
+
+  const handleLowerChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const next = Math.min(Number(e.target.value), upper);
+      onChange({ ...value, min: next <= min ? null : next });
+    },
+    [value, onChange, min, upper]
+  );
+
+  const handleUpperChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const next = Math.max(Number(e.target.value), lower);
+      onChange({ ...value, max: next >= max ? null : next });
+    },
+    [value, onChange, max, lower]
+  );
+
+  const lowerPercent = ((lower - min) / (max - min)) * 100;
+  const upperPercent = ((upper - min) / (max - min)) * 100;
+
+  return (
+    <div
+      role="group"
+      aria-labelledby={`${id}-label`}
+      className="flex flex-col gap-1"
+      data-testid={`${id}-slider`}
+    >
+      <div className="flex justify-between items-baseline">
+        <span id={`${id}-label`} className="text-xs text-gray-400">
+          {label}
+        </span>
+        <span
+          className="text-xs font-medium text-gray-200"
+          data-testid={`${id}-value`}
+        >
+          {formatValue(lower)} – {formatValue(upper)}
+        </span>
+      </div>
+
+      <div className="relative h-4">
+        {/* Track */}
+        <div className="absolute top-1/2 -translate-y-1/2 h-1 w-full bg-gray-700 rounded-full" />
+        {/* Selected segment */}
+        <div
+          className="absolute top-1/2 -translate-y-1/2 h-1 bg-blue-500 rounded-full"
+          style={{
+            left: `${lowerPercent}%`,
+            width: `${upperPercent - lowerPercent}%`,
+          }}
+          data-testid={`${id}-selection`}
+        />
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={step}
+          value={lower}
+          onChange={handleLowerChange}
+          aria-label={`Minimum ${label.toLowerCase()}`}
+          className="dual-range-input absolute inset-0 w-full"
+          data-testid={`${id}-min-input`}
+        />
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={step}
+          value={upper}
+          onChange={handleUpperChange}
+          aria-label={`Maximum ${label.toLowerCase()}`}
+          className="dual-range-input absolute inset-0 w-full"
+          data-testid={`${id}-max-input`}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1 +1,5 @@
+export { AutoRefreshControl } from './AutoRefreshControl';
 export { DateRangeSelector } from './DateRangeSelector';
+export { FeedSelector } from './FeedSelector';
+export { RangeFilters } from './RangeFilters';
+export { RangeSlider } from './RangeSlider';
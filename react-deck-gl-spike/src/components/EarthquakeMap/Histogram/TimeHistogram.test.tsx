@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { TimeHistogram } from './TimeHistogram';
+import { buildTimeHistogram } from '../../../utils/timeHistogram';
+import { DAY_MS, HOUR_MS } from '../../../utils/time';
+import { createEarthquake } from '../../../test/earthquakeFixture';
+
+describe('TimeHistogram', () => {
+  const earthquakes = [
+    createEarthquake('a', {
+      timestamp: '2024-01-01T00:10:00Z',
+      magnitude: 2.0,
+    }),
+    createEarthquake('b', {
+      timestamp: '2024-01-01T01:10:00Z',
+      magnitude: 4.5,
+    }),
+    createEarthquake('c', {
+      timestamp: '2024-01-01T02:10:00Z',
+      magnitude: 5.5,
+    }),
+    createEarthquake('d', {
+      timestamp: '2024-01-01T03:10:00Z',
+      magnitude: 3.5,
+    }),
+  ];
+  const bounds = {
+    start: Date.parse('2024-01-01T00:10:00Z'),
+    end: Date.parse('2024-01-01T03:10:00Z'),
+  };
+  const bins = buildTimeHistogram(earthquakes, bounds, HOUR_MS);
+  const emptyRange = { startDate: null, endDate: null };
+
+  beforeEach(() => {
+    // Four 100px-wide bins
+    vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue({
+      left: 0,
+      width: 400,
+    } as DOMRect);
+  });
+
+  it('renders one bar per bin', () => {
+    render(
+      <TimeHistogram
+        bins={bins}
+        filteredBins={bins}
+        value={emptyRange}
+        onChange={vi.fn()}
+      />
+    );
+
+    expect(screen.getAllByTestId('histogram-bar')).toHaveLength(4);
+    expect(screen.getByText('Events per hour')).toBeInTheDocument();
+  });
+
+  it('labels daily bins', () => {
+    const daily = buildTimeHistogram(earthquakes, bounds, DAY_MS);
+    render(
+      <TimeHistogram
+        bins={daily}
+        filteredBins={daily}
+        value={emptyRange}
+        onChange={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('Events per day')).toBeInTheDocument();
+  });
+
+  it('highlights bars that contain filtered events', () => {
+    const filteredBins = buildTimeHistogram(
+      earthquakes.filter((eq) => eq.magnitude >= 4),
+      bounds,
+      HOUR_MS
+    );
+    render(
+      <TimeHistogram
+        bins={bins}
+        filteredBins={filteredBins}
+        value={emptyRange}
+        onChange={vi.fn()}
+      />
+    );
+
+    const highlighted = screen
+      .getAllByTestId('histogram-bar')
+      .map((bar) => bar.getAttribute('data-highlighted'));
+    expect(highlighted).toEqual(['false', 'true', 'true', 'false']);
+  });
+
+  it('sets the date range to the brushed bins', () => {
+    const onChange = vi.fn();
+    render(
+      <TimeHistogram
+        bins={bins}
+        filteredBins={bins}
+        value={emptyRange}
+        onChange={onChange}
+      />
+    );
+
+    const track = screen.getByTestId('histogram-track');
+    fireEvent.mouseDown(track, { clientX: 150 });
+    fireEvent.mouseMove(document, { clientX: 250 });
+    expect(screen.getByTestId('histogram-brush')).toBeInTheDocument();
+    fireEvent.mouseUp(document);
+
+    expect(onChange).toHaveBeenCalledWith({
+      startDate: new Date('2024-01-01T01:00:00Z'),
+      endDate: new Date('2024-01-01T02:59:59.999Z'),
+    });
+  });
+
+  it('brushes right to left', () => {
+    const onChange = vi.fn();
+    render(
+      <TimeHistogram
+        bins={bins}
+        filteredBins={bins}
+        value={emptyRange}
+        onChange={onChange}
+      />
+    );
+
+    fireEvent.mouseDown(screen.getByTestId('histogram-track'), {
+      clientX: 350,
+    });
+    fireEvent.mouseMove(document, { clientX: 50 });
+    fireEvent.mouseUp(document);
+
+    expect(onChange).toHaveBeenCalledWith({
+      startDate: new Date('2024-01-01T00:00:00Z'),
+      endDate: new Date('2024-01-01T03:59:59.999Z'),
+    });
+  });
+
+  it('selects a single bin on click', () => {
+    const onChange = vi.fn();
+    render(
+      <TimeHistogram
+        bins={bins}
+        filteredBins={bins}
+        value={emptyRange}
+        onChange={onChange}
+      />
+    );
+
+    fireEvent.mouseDown(screen.getByTestId('histogram-track'), {
+      clientX: 10,
+    });
+    fireEvent.mouseUp(document);
+
+    expect(onChange).toHaveBeenCalledWith({
+      startDate: new Date('2024-01-01T00:00:00Z'),
+      endDate: new Date('2024-01-01T00:59:59.999Z'),
+    });
+  });
+
+  it('shades the active date range and clears it', () => {
+    const onChange = vi.fn();
+    render(
+      <TimeHistogram
+        bins={bins}
+        filteredBins={bins}
+        value={{
+          startDate: new Date('2024-01-01T01:00:00Z'),
+          endDate: new Date('2024-01-01T01:59:59.999Z'),
+        }}
+        onChange={onChange}
+      />
+    );
+
+    const brush = screen.getByTestId('histogram-brush');
+    expect(brush.style.left).toBe('25%');
+    expect(brush.style.width).toBe('25%');
+
+    fireEvent.click(screen.getByTestId('histogram-clear'));
+    expect(onChange).toHaveBeenCalledWith({ startDate: null, endDate: null });
+  });
+
+  it('hides the clear button without a date range', () => {
+    render(
+      <TimeHistogram
+        bins={bins}
+        filteredBins={bins}
+        value={emptyRange}
+        onChange={vi.fn()}
+      />
+    );
+
+    expect(screen.queryByTestId('histogram-clear')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('histogram-brush')).not.toBeInTheDocument();
+  });
+});
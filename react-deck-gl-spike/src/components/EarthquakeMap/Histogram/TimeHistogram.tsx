@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { DateRange } from '../../../types/filters';
+import {
+  formatDateTime,
+  MAGNITUDE_CLASSES,
+  type MagnitudeClass,
+} from '../../../utils/formatters';
+import { getInclusiveEnd } from '../../../utils/filterEarthquakes';
+import type { TimeHistogramBin } from '../../../utils/timeHistogram';
+import { HOUR_MS } from '../../../utils/time';
+
+interface TimeHistogramProps {
+  /** Bins for the whole loaded catalog */
+  bins: TimeHistogramBin[];
+  /** Bins for the filtered events, aligned with `bins` */
+  filteredBins: TimeHistogramBin[];
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+}
+
+const MAGNITUDE_CLASS_COLORS: Record<MagnitudeClass, string> = {
+  Minor: '#9ca3af',
+  Light: '#4ade80',
+  Moderate: '#facc15',
+  Strong: '#fb923c',
+  Major: '#ef4444',
+  Great: '#a855f7',
+};
+
+interface BrushSelection {
+  from: number;
+  to: number;
+}
+
+function formatBinTime(time: number, binSizeMs: number): string {
+  const { date, time: clock } = formatDateTime(new Date(time).toISOString());
+  return binSizeMs <= HOUR_MS ? `${date} ${clock}` : date;
+}
+
+export function TimeHistogram({
+  bins,
+  filteredBins,
+  value,
+  onChange,
+}: TimeHistogramProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const removeDragListenersRef = useRef<(() => void) | null>(null);
+  const [brush, setBrush] = useState<BrushSelection | null>(null);
+
+  const binSizeMs = bins.length > 0 ? bins[0].end - bins[0].start : HOUR_MS;
+  const first = bins.length > 0 ? bins[0].start : 0;
+  const last = bins.length > 0 ? bins[bins.length - 1].end : 1;
+  const maxTotal = Math.max(1, ...bins.map((bin) => bin.total));
+
+  const getBinIndex = useCallback(
+    (clientX: number) => {
+      const rect = trackRef.current?.getBoundingClientRect();
+      if (!rect || rect.width <= 0) return 0;
+      const fraction = (clientX - rect.left) / rect.width;
+      return Math.max(
+        0,
+        Math.min(bins.length - 1, Math.floor(fraction * bins.length))
+      );
+    },
+    [bins.length]
+  );
+
+  // Drop any drag listeners left behind on unmount
+  useEffect(() => () => removeDragListenersRef.current?.(), []);
+
+  const handleMouseDown = useCallback(
+    (e: React.MouseEvent<HTMLDivElement>) => {
+      if (bins.length === 0) return;
+      e.preventDefault();
+
+      const anchor = getBinIndex(e.clientX);
+      let selection = { from: anchor, to: anchor };
+      setBrush(selection);
+
+      const handleMouseMove = (event: MouseEvent) => {
+        selection = { from: anchor, to: getBinIndex(event.clientX) };
+        setBrush(selection);
+      };
+      const removeListeners = () => {
+        document.removeEventListener('mousemove', handleMouseMove);
+        document.removeEventListener('mouseup', handleMouseUp);
+        removeDragListenersRef.current = null;
+      };
+      const handleMouseUp = () => {
+        removeListeners();
+        setBrush(null);
+
+        const from = Math.min(selection.from, selection.to);
+        const to = Math.max(selection.from, selection.to);
+        onChange({
+          startDate: new Date(bins[from].start),
+          // Inclusive end of the last brushed bin
+          endDate: new Date(bins[to].end - 1),
+        });
+      };
+
+      removeDragListenersRef.current?.();
+      document.addEventListener('mousemove', handleMouseMove);
+      document.addEventListener('mouseup', handleMouseUp);
+      removeDragListenersRef.current = removeListeners;
+    },
+    [bins, getBinIndex, onChange]
+  );
+
+  // Shade the brush while dragging, otherwise the active date range
+  const span = last - first;
+  let shaded: { left: number; right: number } | null = null;
+  if (brush) {
+    shaded = {
+      left: Math.min(brush.from, brush.to) / bins.length,
+      right: (Math.max(brush.from, brush.to) + 1) / bins.length,
+    };
+  } else if (value.startDate || value.endDate) {
+    const start = value.startDate?.getTime() ?? first;
+    const end = value.endDate ? getInclusiveEnd(value.endDate) + 1 : last;
+    shaded = {
+      left: Math.max(0, (start - first) / span),
+      right: Math.min(1, (end - first) / span),
+    };
+  }
+
+  const hasDateRange = value.startDate !== null || value.endDate !== null;
+
+  return (
+    <div
+      className="absolute bottom-4 left-1/2 -translate-x-1/2 w-[min(560px,calc(100%-2rem))] z-10
+                 bg-gray-900/80 backdrop-blur-md rounded-lg px-3 py-2 shadow-lg border border-white/10"
+      role="group"
+      aria-labelledby="time-histogram-title"
+      data-testid="time-histogram"
+    >
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <span
+          id="time-histogram-title"
+          className="text-sm font-semibold text-gray-100"
+        >
+          Events per {binSizeMs <= HOUR_MS ? 'hour' : 'day'}
+        </span>
+        <ul className="flex flex-wrap gap-2" aria-label="Magnitude classes">
+          {MAGNITUDE_CLASSES.map((magnitudeClass) => (
+            <li
+              key={magnitudeClass}
+              className="flex items-center gap-1 text-[10px] text-gray-300"
+            >
+              <span
+                className="w-2 h-2 rounded-sm"
+                style={{
+                  backgroundColor: MAGNITUDE_CLASS_COLORS[magnitudeClass],
+                }}
+                aria-hidden="true"
+              />
+              {magnitudeClass}
+            </li>
+          ))}
+        </ul>
+        {hasDateRange && (
+          <button
+            type="button"
+            onClick={() => onChange({ startDate: null, endDate: null })}
+            className="px-2 py-0.5 text-xs rounded bg-gray-800/60 hover:bg-gray-700/80 text-gray-200 border border-white/10"
+            data-testid="histogram-clear"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div
+        ref={trackRef}
+        className="relative h-16 flex items-end gap-px cursor-crosshair select-none"
+        onMouseDown={handleMouseDown}
+        aria-label="Drag to filter by time"
+        data-testid="histogram-track"
+      >
+        {bins.map((bin, i) => {
+          const filtered = filteredBins[i];
+          return (
+            <div
+              key={bin.start}
+              className="relative flex-1 h-full flex flex-col justify-end"
+              title={`${formatBinTime(bin.start, binSizeMs)}: ${filtered?.total ?? 0} of ${bin.total}`}
+              data-testid="histogram-bar"
+              data-highlighted={(filtered?.total ?? 0) > 0}
+            >
+              {/* Whole catalog, dimmed */}
+              <div
+                className="absolute bottom-0 inset-x-0 bg-white/10 rounded-t-sm"
+                style={{ height: `${(bin.total / maxTotal) * 100}%` }}
+              />
+              {/* Filtered events, stacked by magnitude class */}
+              {filtered &&
+                MAGNITUDE_CLASSES.map((magnitudeClass) =>
+                  filtered.counts[magnitudeClass] > 0 ? (
+                    <div
+                      key={magnitudeClass}
+                      className="relative w-full"
+                      style={{
+                        height: `${(filtered.counts[magnitudeClass] / maxTotal) * 100}%`,
+                        backgroundColor: MAGNITUDE_CLASS_COLORS[magnitudeClass],
+                        order: -MAGNITUDE_CLASSES.indexOf(magnitudeClass),
+                      }}
+                    />
+                  ) : null
+                )}
+            </div>
+          );
+        })}
+
+        {shaded && shaded.right > shaded.left && (
+          <div
+            className="absolute inset-y-0 bg-blue-400/20 border-x border-blue-400 pointer-events-none"
+            style={{
+              left: `${shaded.left * 100}%`,
+              width: `${(shaded.right - shaded.left) * 100}%`,
+            }}
+            data-testid="histogram-brush"
+          />
+        )}
+      </div>
+
+      <div className="flex justify-between mt-1 text-xs text-gray-500">
+        <span>{formatBinTime(first, binSizeMs)}</span>
+        <span>{formatBinTime(last, binSizeMs)}</span>
+      </div>
+    </div>
+  );
+}
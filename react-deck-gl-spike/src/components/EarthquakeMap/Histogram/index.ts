@@ -0,0 +1 @@
+export { TimeHistogram } from './TimeHistogram';
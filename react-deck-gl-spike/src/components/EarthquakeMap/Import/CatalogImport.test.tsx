@@ -0,0 +1,186 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { CatalogImport } from './CatalogImport';
+
+const FDSN_TEXT = `#EventID|Time|Latitude|Longitude|Depth/km|Author|Catalog|Contributor|ContributorID|MagType|Magnitude|MagAuthor|EventLocationName
+us1|2024-03-15T12:34:56|-33.45|-70.66|35.5|us|us|us|us1|mww|6.1|us|Central Chile
+us2|2024-03-16T01:00:00|95|-70.1|10|us|us|us|us2|mb|4.4|us|Nowhere
+`;
+
+const QUAKEML = `<?xml version="1.0" encoding="UTF-8"?>
+<q:quakeml xmlns:q="http://quakeml.org/xmlns/quakeml/1.2" xmlns="http://quakeml.org/xmlns/bed/1.2">
+  <eventParameters publicID="smi:local/catalog">
+    <event publicID="smi:local/event/1">
+      <origin publicID="smi:local/origin/1">
+        <time><value>2024-03-16T01:00:00Z</value></time>
+        <latitude><value>10</value></latitude>
+        <longitude><value>20</value></longitude>
+        <depth><value>5000</value></depth>
+      </origin>
+      <magnitude publicID="smi:local/magnitude/1">
+        <mag><value>3.2</value></mag>
+      </magnitude>
+    </event>
+  </eventParameters>
+</q:quakeml>`;
+
+function makeFile(content: string, name: string) {
+  return new File([content], name, { type: 'text/plain' });
+}
+
+function pickFile(file: File) {
+  fireEvent.change(screen.getByTestId('catalog-file-input'), {
+    target: { files: [file] },
+  });
+}
+
+describe('CatalogImport', () => {
+  it('imports FDSN text and reports skipped rows', async () => {
+    const onImport = vi.fn();
+    render(<CatalogImport onImport={onImport} />);
+
+    pickFile(makeFile(FDSN_TEXT, 'events.txt'));
+
+    await waitFor(() => {
+      expect(onImport).toHaveBeenCalledTimes(1);
+    });
+    const [name, earthquakes] = onImport.mock.calls[0];
+    expect(name).toBe('events.txt');
+    expect(earthquakes).toHaveLength(1);
+    expect(earthquakes[0]).toMatchObject({
+      id: 'us1',
+      location: 'Central Chile',
+    });
+
+    expect(screen.getByTestId('catalog-report-summary')).toHaveTextContent(
+      'Imported 1 of 2 events from events.txt (FDSN text)'
+    );
+    expect(screen.getByTestId('catalog-row-error')).toHaveTextContent(
+      'Row 2: Latitude must be between -90 and 90'
+    );
+  });
+
+  it('imports a dropped QuakeML file', async () => {
+    const onImport = vi.fn();
+    render(<CatalogImport onImport={onImport} />);
+    const dropZone = screen.getByTestId('catalog-drop-zone');
+
+    fireEvent.dragOver(dropZone);
+    expect(dropZone.className).toContain('border-blue-400');
+    fireEvent.drop(dropZone, {
+      dataTransfer: { files: [makeFile(QUAKEML, 'catalog.xml')] },
+    });
+
+    await waitFor(() => {
+      expect(onImport).toHaveBeenCalledTimes(1);
+    });
+    expect(onImport.mock.calls[0][1][0]).toMatchObject({ id: '1', depth: 5 });
+    expect(screen.getByTestId('catalog-report-summary')).toHaveTextContent(
+      'Imported 1 of 1 events from catalog.xml (QuakeML)'
+    );
+    expect(dropZone.className).not.toContain('border-blue-400');
+  });
+
+  it('asks for CSV columns before importing', async () => {
+    const onImport = vi.fn();
+    render(<CatalogImport onImport={onImport} />);
+
+    pickFile(
+      makeFile(
+        'when,lat,lon,depth,ml\n2024-01-01 06:00,35,139,10,3.1\n',
+        'x.csv'
+      )
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('catalog-mapping')).toBeInTheDocument();
+    });
+    expect(screen.getByTestId('catalog-column-latitude')).toHaveValue('1');
+    expect(screen.getByTestId('catalog-import-confirm')).toBeDisabled();
+
+    fireEvent.change(screen.getByTestId('catalog-column-time'), {
+      target: { value: '0' },
+    });
+    fireEvent.change(screen.getByTestId('catalog-column-magnitude'), {
+      target: { value: '4' },
+    });
+    fireEvent.click(screen.getByTestId('catalog-import-confirm'));
+
+    expect(onImport).toHaveBeenCalledWith('x.csv', [
+      expect.objectContaining({
+        id: 'imported-1',
+        magnitude: 3.1,
+        timestamp: '2024-01-01T06:00:00.000Z',
+      }),
+    ]);
+    expect(screen.queryByTestId('catalog-mapping')).not.toBeInTheDocument();
+    expect(screen.getByTestId('catalog-report-summary')).toHaveTextContent(
+      'Imported 1 of 1 events from x.csv (CSV)'
+    );
+  });
+
+  it('cancels a pending CSV import', async () => {
+    render(<CatalogImport onImport={vi.fn()} />);
+
+    pickFile(makeFile('time,lat\n', 'x.csv'));
+    await waitFor(() => {
+      expect(screen.getByTestId('catalog-mapping')).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByTestId('catalog-import-cancel'));
+
+    expect(screen.queryByTestId('catalog-mapping')).not.toBeInTheDocument();
+  });
+
+  it('does not import a catalog without valid events', async () => {
+    const onImport = vi.fn();
+    render(<CatalogImport onImport={onImport} />);
+
+    pickFile(
+      makeFile(
+        '#EventID|Time|Latitude|Longitude|Depth/km|Magnitude\nbad|never|0|0|1|2\n',
+        'bad.txt'
+      )
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('catalog-report-summary')).toHaveTextContent(
+        'No events imported from bad.txt'
+      );
+    });
+    expect(onImport).not.toHaveBeenCalled();
+    expect(screen.getByTestId('catalog-row-error')).toHaveTextContent(
+      'Row 1: Time is not a valid date'
+    );
+  });
+
+  it('summarizes long error lists', async () => {
+    const rows = Array.from({ length: 25 }, (_, i) => `e${i}|x|0|0|1|2`);
+    render(<CatalogImport onImport={vi.fn()} />);
+
+    pickFile(
+      makeFile(
+        `#EventID|Time|Latitude|Longitude|Depth/km|Magnitude\n${rows.join('\n')}`,
+        'bad.txt'
+      )
+    );
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId('catalog-row-error')).toHaveLength(20);
+    });
+    expect(screen.getByTestId('catalog-more-errors')).toHaveTextContent(
+      'and 5 more skipped'
+    );
+  });
+
+  it('reports files that cannot be parsed', async () => {
+    render(<CatalogImport onImport={vi.fn()} />);
+
+    pickFile(makeFile('<quakeml><event>', 'broken.xml'));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('catalog-read-error')).toHaveTextContent(
+        'Could not read broken.xml: Not a valid QuakeML document'
+      );
+    });
+  });
+});
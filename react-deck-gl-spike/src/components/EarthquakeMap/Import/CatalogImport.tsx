@@ -0,0 +1,272 @@
+import { useState } from 'react';
+import type { Earthquake } from '../../../types/earthquake';
+import {
+  CATALOG_FIELDS,
+  CATALOG_FORMAT_LABELS,
+  type CatalogField,
+  type CatalogFormat,
+  type ColumnMapping,
+  type ImportRowError,
+} from '../../../types/catalogImport';
+import {
+  detectCatalogFormat,
+  getMissingFields,
+  guessColumnMapping,
+  parseCatalogTable,
+  parseQuakeML,
+  readCatalogTable,
+  type CatalogParseResult,
+  type CatalogTable,
+} from '../../../utils/catalogImport';
+
+interface CatalogImportProps {
+  onImport: (name: string, earthquakes: Earthquake[]) => void;
+}
+
+/** A delimited file waiting for its columns to be mapped */
+interface PendingTable {
+  name: string;
+  format: Exclude<CatalogFormat, 'quakeml'>;
+  table: CatalogTable;
+  mapping: ColumnMapping;
+}
+
+interface ImportReport {
+  name: string;
+  format: CatalogFormat;
+  imported: number;
+  errors: ImportRowError[];
+}
+
+// Longer error lists are summarized to keep the panel small
+const MAX_LISTED_ERRORS = 20;
+
+function optionClassName(selected: boolean): string {
+  return `
+    px-2 py-1 text-xs rounded-lg transition-colors backdrop-blur-md border disabled:opacity-50
+    ${
+      selected
+        ? 'bg-blue-500/80 text-white font-semibold border-blue-400/30'
+        : 'bg-gray-800/60 hover:bg-gray-700/80 text-gray-200 border-white/10'
+    }
+  `;
+}
+
+export function CatalogImport({ onImport }: CatalogImportProps) {
+  const [dragActive, setDragActive] = useState(false);
+  const [pending, setPending] = useState<PendingTable | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+
+  const finishImport = (
+    name: string,
+    format: CatalogFormat,
+    { earthquakes, errors }: CatalogParseResult
+  ) => {
+    setPending(null);
+    setReport({ name, format, imported: earthquakes.length, errors });
+    if (earthquakes.length > 0) onImport(name, earthquakes);
+  };
+
+  // QuakeML and FDSN text import straight away; CSV asks for its columns
+  const readFile = async (file: File) => {
+    setReport(null);
+    setReadError(null);
+    setPending(null);
+
+    try {
+      const text = await file.text();
+      const format = detectCatalogFormat(text, file.name);
+
+      if (format === 'quakeml') {
+        finishImport(file.name, format, parseQuakeML(text));
+        return;
+      }
+
+      const table = readCatalogTable(text, format);
+      const mapping = guessColumnMapping(table.header);
+      if (format === 'fdsn-text' && getMissingFields(mapping).length === 0) {
+        finishImport(file.name, format, parseCatalogTable(table, mapping));
+        return;
+      }
+      setPending({ name: file.name, format, table, mapping });
+    } catch (err) {
+      setReadError(
+        `Could not read ${file.name}: ${err instanceof Error ? err.message : 'unknown error'}`
+      );
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragActive(false);
+    const file = e.dataTransfer.files[0];
+    if (file) readFile(file);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) readFile(file);
+    // Allow picking the same file again
+    e.target.value = '';
+  };
+
+  const handleMappingChange = (field: CatalogField, value: string) => {
+    if (!pending) return;
+    setPending({
+      ...pending,
+      mapping: {
+        ...pending.mapping,
+        [field]: value === '' ? null : Number(value),
+      },
+    });
+  };
+
+  const missingFields = pending ? getMissingFields(pending.mapping) : [];
+  const hiddenErrorCount = (report?.errors.length ?? 0) - MAX_LISTED_ERRORS;
+
+  return (
+    <div
+      role="group"
+      aria-labelledby="catalog-import-label"
+      className="flex flex-col gap-2 p-3 bg-gray-900/80 backdrop-blur-md rounded-lg shadow-lg border border-white/10"
+      data-testid="catalog-import"
+    >
+      <span
+        id="catalog-import-label"
+        className="text-sm font-semibold text-gray-100"
+      >
+        Import Catalog
+      </span>
+
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragActive(true);
+        }}
+        onDragLeave={() => setDragActive(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center gap-1 px-2 py-3 rounded-lg border border-dashed text-xs text-center transition-colors ${
+          dragActive
+            ? 'border-blue-400 bg-blue-500/20 text-blue-200'
+            : 'border-gray-600 text-gray-400'
+        }`}
+        data-testid="catalog-drop-zone"
+      >
+        <span>Drop QuakeML, FDSN text or CSV here</span>
+        <label className="text-blue-300 hover:text-blue-200 cursor-pointer">
+          or browse files
+          <input
+            type="file"
+            accept=".xml,.quakeml,.txt,.csv,.tsv,text/csv,application/xml,text/xml,text/plain"
+            onChange={handleFileChange}
+            className="sr-only"
+            data-testid="catalog-file-input"
+          />
+        </label>
+      </div>
+
+      {readError && (
+        <span className="text-xs text-red-300" data-testid="catalog-read-error">
+          {readError}
+        </span>
+      )}
+
+      {pending && (
+        <div className="flex flex-col gap-1" data-testid="catalog-mapping">
+          <span className="text-xs text-gray-300">
+            Match the columns of {pending.name} (
+            {pending.table.rows.length.toLocaleString()} rows)
+          </span>
+          {CATALOG_FIELDS.map(({ field, label, required }) => (
+            <label
+              key={field}
+              className="flex items-center justify-between gap-2 text-xs text-gray-300"
+            >
+              <span>
+                {label}
+                {required && <span className="text-red-300"> *</span>}
+              </span>
+              <select
+                value={pending.mapping[field] ?? ''}
+                onChange={(e) => handleMappingChange(field, e.target.value)}
+                className="w-32 px-1 py-0.5 bg-gray-800/60 border border-gray-600 rounded text-xs text-gray-100"
+                data-testid={`catalog-column-${field}`}
+              >
+                <option value="">—</option>
+                {pending.table.header.map((name, index) => (
+                  <option key={index} value={index}>
+                    {name || `Column ${index + 1}`}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+          <div className="flex gap-1 mt-1">
+            <button
+              type="button"
+              disabled={missingFields.length > 0}
+              onClick={() =>
+                finishImport(
+                  pending.name,
+                  pending.format,
+                  parseCatalogTable(pending.table, pending.mapping)
+                )
+              }
+              className={optionClassName(true)}
+              data-testid="catalog-import-confirm"
+            >
+              Import
+            </button>
+            <button
+              type="button"
+              onClick={() => setPending(null)}
+              className={optionClassName(false)}
+              data-testid="catalog-import-cancel"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {report && (
+        <div className="flex flex-col gap-1" data-testid="catalog-report">
+          <span
+            className={`text-xs ${report.imported > 0 ? 'text-gray-200' : 'text-red-300'}`}
+            data-testid="catalog-report-summary"
+          >
+            {report.imported > 0
+              ? `Imported ${report.imported.toLocaleString()} of ${(
+                  report.imported + report.errors.length
+                ).toLocaleString()} events from ${report.name} (${CATALOG_FORMAT_LABELS[report.format]})`
+              : `No events imported from ${report.name}`}
+          </span>
+          {report.errors.length > 0 && (
+            <ul
+              className="flex flex-col gap-0.5 max-h-32 overflow-y-auto text-xs text-amber-300"
+              aria-label="Skipped rows"
+            >
+              {report.errors
+                .slice(0, MAX_LISTED_ERRORS)
+                .map(({ row, message }) => (
+                  <li key={row} data-testid="catalog-row-error">
+                    {report.format === 'quakeml' ? 'Event' : 'Row'} {row}:{' '}
+                    {message}
+                  </li>
+                ))}
+            </ul>
+          )}
+          {hiddenErrorCount > 0 && (
+            <span
+              className="text-xs text-amber-300"
+              data-testid="catalog-more-errors"
+            >
+              and {hiddenErrorCount.toLocaleString()} more skipped
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { CatalogImport } from './CatalogImport';
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { BinLegend } from './BinLegend';
+
+describe('BinLegend', () => {
+  it('titles heatmaps as densities', () => {
+    render(<BinLegend mode="heatmap" metric="count" />);
+
+    expect(screen.getByText('Event Density')).toBeInTheDocument();
+  });
+
+  it('labels heatmap colors as relative', () => {
+    render(<BinLegend mode="heatmap" metric="energy" domain={[1, 10]} />);
+
+    expect(screen.getByTestId('bin-legend-min')).toHaveTextContent('Low');
+    expect(screen.getByTestId('bin-legend-max')).toHaveTextContent('High');
+  });
+
+  it('shows the bin count range', () => {
+    render(<BinLegend mode="hexagon" metric="count" domain={[1, 1520]} />);
+
+    expect(screen.getByText('Events per Bin')).toBeInTheDocument();
+    expect(screen.getByTestId('bin-legend-min')).toHaveTextContent('1');
+    expect(screen.getByTestId('bin-legend-max')).toHaveTextContent('1,520');
+  });
+
+  it('formats max magnitude ranges', () => {
+    render(<BinLegend mode="grid" metric="maxMagnitude" domain={[2.5, 7.1]} />);
+
+    expect(screen.getByText('Max Magnitude per Bin')).toBeInTheDocument();
+    expect(screen.getByTestId('bin-legend-max')).toHaveTextContent('M7.1');
+  });
+
+  it('formats energy ranges in joules', () => {
+    render(<BinLegend mode="grid" metric="energy" domain={[6.3e8, 2e15]} />);
+
+    expect(screen.getByTestId('bin-legend-max')).toHaveTextContent('2.0e15 J');
+  });
+
+  it('falls back to Low/High before the domain is known', () => {
+    render(<BinLegend mode="hexagon" metric="count" />);
+
+    expect(screen.getByTestId('bin-legend-min')).toHaveTextContent('Low');
+  });
+});
@@ -0,0 +1,72 @@
+import { BIN_COLOR_RANGE } from '../layers/aggregationLayers';
+import { formatEnergy, formatNumber } from '../../../utils/formatters';
+import type {
+  AggregateViewMode,
+  BinMetric,
+} from '../../../types/earthquakeView';
+
+interface BinLegendProps {
+  mode: AggregateViewMode;
+  metric: BinMetric;
+  /** Range of bin values, when the layer reports one */
+  domain?: [number, number] | null;
+}
+
+const GRADIENT = `linear-gradient(to right, ${BIN_COLOR_RANGE.map(
+  ([r, g, b]) => `rgb(${r}, ${g}, ${b})`
+).join(', ')})`;
+
+function getLegendTitle(mode: AggregateViewMode, metric: BinMetric): string {
+  if (mode === 'heatmap') {
+    if (metric === 'maxMagnitude') return 'Mean Magnitude Density';
+    if (metric === 'energy') return 'Energy Density';
+    return 'Event Density';
+  }
+  if (metric === 'maxMagnitude') return 'Max Magnitude per Bin';
+  if (metric === 'energy') return 'Energy per Bin';
+  return 'Events per Bin';
+}
+
+function formatBinValue(value: number, metric: BinMetric): string {
+  if (metric === 'maxMagnitude') return `M${value.toFixed(1)}`;
+  if (metric === 'energy') return formatEnergy(value);
+  return formatNumber(Math.round(value));
+}
+
+export function BinLegend({ mode, metric, domain = null }: BinLegendProps) {
+  const title = getLegendTitle(mode, metric);
+
+  // Heatmap colors are relative to the densest spot on screen
+  const [minLabel, maxLabel] =
+    mode !== 'heatmap' && domain
+      ? [formatBinValue(domain[0], metric), formatBinValue(domain[1], metric)]
+      : ['Low', 'High'];
+
+  return (
+    <div
+      className="absolute bottom-4 right-4 bg-gray-900/80 backdrop-blur-md p-3 rounded-lg shadow-lg border border-white/10 z-10"
+      role="region"
+      aria-labelledby="bin-legend-title"
+      data-testid="bin-legend"
+    >
+      <h4
+        id="bin-legend-title"
+        className="text-sm font-semibold mb-2 text-gray-100"
+      >
+        {title}
+      </h4>
+      <div className="flex flex-col gap-1">
+        <div
+          className="h-4 w-32 rounded"
+          style={{ background: GRADIENT }}
+          role="img"
+          aria-label={`Color gradient from ${minLabel} to ${maxLabel}`}
+        />
+        <div className="flex justify-between text-xs text-gray-200">
+          <span data-testid="bin-legend-min">{minLabel}</span>
+          <span data-testid="bin-legend-max">{maxLabel}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { PointColorLegend } from './PointColorLegend';
+
+describe('PointColorLegend', () => {
+  it('shows the depth legend when coloring by depth', () => {
+    render(<PointColorLegend mode="depth" />);
+
+    expect(screen.getByText('Depth')).toBeInTheDocument();
+    expect(screen.getByText('Shallow')).toBeInTheDocument();
+    expect(screen.queryByTestId('point-color-legend')).not.toBeInTheDocument();
+  });
+
+  it('shows a magnitude gradient', () => {
+    render(<PointColorLegend mode="magnitude" />);
+
+    expect(screen.getByText('Magnitude')).toBeInTheDocument();
+    expect(screen.getByRole('img')).toHaveStyle({
+      background:
+        'linear-gradient(to right, rgb(68, 1, 84), rgb(59, 82, 139), rgb(33, 145, 140), rgb(94, 201, 98), rgb(253, 231, 37))',
+    });
+    expect(screen.getByText('M2')).toBeInTheDocument();
+    expect(screen.getByText('M8+')).toBeInTheDocument();
+  });
+
+  it('lists age classes', () => {
+    render(<PointColorLegend mode="age" />);
+
+    expect(screen.getByText('Age')).toBeInTheDocument();
+    expect(screen.getByText('Past hour')).toBeInTheDocument();
+    expect(screen.getByText('Older')).toBeInTheDocument();
+    expect(screen.getByText('Before the latest event')).toBeInTheDocument();
+  });
+
+  it('lists PAGER alert levels and events without one', () => {
+    render(<PointColorLegend mode="alert" />);
+
+    expect(screen.getByText('PAGER Alert')).toBeInTheDocument();
+    expect(
+      screen.getAllByRole('listitem').map((item) => item.textContent)
+    ).toEqual(['Green', 'Yellow', 'Orange', 'Red', 'None']);
+  });
+
+  it('lists review statuses', () => {
+    render(<PointColorLegend mode="status" />);
+
+    expect(screen.getByText('Review Status')).toBeInTheDocument();
+    expect(
+      screen.getAllByRole('listitem').map((item) => item.textContent)
+    ).toEqual(['Reviewed', 'Automatic', 'Other']);
+  });
+});
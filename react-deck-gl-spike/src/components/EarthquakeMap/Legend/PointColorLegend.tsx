@@ -0,0 +1,127 @@
+import type { EarthquakeColorMode } from '../../../types/earthquakeView';
+import { MAGNITUDE_COLOR_STOPS } from '../layers/magnitudeColorScale';
+import { AGE_CLASSES } from '../layers/ageColorScale';
+import { ALERT_COLORS, NO_ALERT_COLOR } from '../layers/alertColorScale';
+import {
+  STATUS_CLASSES,
+  UNKNOWN_STATUS_COLOR,
+} from '../layers/statusColorScale';
+import { ColorLegend } from './ColorLegend';
+
+type Color = readonly number[];
+
+interface LegendEntry {
+  label: string;
+  color: Color;
+}
+
+interface PointColorLegendProps {
+  /** Aftershock sequences are listed in their own panel instead */
+  mode: Exclude<EarthquakeColorMode, 'sequence'>;
+}
+
+const MAGNITUDE_GRADIENT = `linear-gradient(to right, ${MAGNITUDE_COLOR_STOPS.map(
+  ({ color }) => toCSSColor(color)
+).join(', ')})`;
+
+const CATEGORY_LEGENDS: Record<
+  'age' | 'alert' | 'status',
+  { title: string; note?: string; entries: LegendEntry[] }
+> = {
+  age: {
+    title: 'Age',
+    note: 'Before the latest event',
+    entries: AGE_CLASSES.map(({ label, color }) => ({ label, color })),
+  },
+  alert: {
+    title: 'PAGER Alert',
+    entries: [
+      ...Object.entries(ALERT_COLORS).map(([level, color]) => ({
+        label: level.charAt(0).toUpperCase() + level.slice(1),
+        color,
+      })),
+      { label: 'None', color: NO_ALERT_COLOR },
+    ],
+  },
+  status: {
+    title: 'Review Status',
+    entries: [
+      ...STATUS_CLASSES.map(({ label, color }) => ({ label, color })),
+      { label: 'Other', color: UNKNOWN_STATUS_COLOR },
+    ],
+  },
+};
+
+function toCSSColor([r, g, b]: Color): string {
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+/**
+ * Legend for whatever the point colors currently encode.
+ */
+export function PointColorLegend({ mode }: PointColorLegendProps) {
+  if (mode === 'depth') return <ColorLegend />;
+
+  const title =
+    mode === 'magnitude' ? 'Magnitude' : CATEGORY_LEGENDS[mode].title;
+
+  return (
+    <div
+      className="absolute bottom-4 right-4 bg-gray-900/80 backdrop-blur-md p-3 rounded-lg shadow-lg border border-white/10 z-10"
+      role="region"
+      aria-labelledby="point-color-legend-title"
+      data-testid="point-color-legend"
+    >
+      <h4
+        id="point-color-legend-title"
+        className="text-sm font-semibold mb-2 text-gray-100"
+      >
+        {title}
+      </h4>
+      {mode === 'magnitude' ? (
+        <div className="flex flex-col gap-1">
+          <div
+            className="h-4 w-32 rounded"
+            style={{ background: MAGNITUDE_GRADIENT }}
+            role="img"
+            aria-label="Color gradient from purple (minor) to yellow (great)"
+          />
+          <div className="flex justify-between text-xs text-gray-200">
+            <span>M{MAGNITUDE_COLOR_STOPS[0].magnitude}</span>
+            <span>
+              M
+              {
+                MAGNITUDE_COLOR_STOPS[MAGNITUDE_COLOR_STOPS.length - 1]
+                  .magnitude
+              }
+              +
+            </span>
+          </div>
+        </div>
+      ) : (
+        <>
+          <ul className="flex flex-col gap-1">
+            {CATEGORY_LEGENDS[mode].entries.map(({ label, color }) => (
+              <li
+                key={label}
+                className="flex items-center gap-2 text-xs text-gray-200"
+              >
+                <span
+                  className="w-3 h-3 rounded-full border border-white/20"
+                  style={{ backgroundColor: toCSSColor(color) }}
+                  aria-hidden="true"
+                />
+                {label}
+              </li>
+            ))}
+          </ul>
+          {CATEGORY_LEGENDS[mode].note && (
+            <p className="text-xs text-gray-400 mt-1">
+              {CATEGORY_LEGENDS[mode].note}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
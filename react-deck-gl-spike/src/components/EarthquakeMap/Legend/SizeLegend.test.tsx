@@ -71,4 +71,28 @@ describe('SizeLegend', () => {
       expect(circle).toHaveClass('bg-orange-500/60', 'border-orange-600');
     });
   });
+
+  it('grows circles faster towards great events on the power scale', () => {
+    const { container } = render(<SizeLegend sizeMode="power" />);
+
+    const sizes = Array.from(container.querySelectorAll('.rounded-full')).map(
+      (circle) => parseInt((circle as HTMLElement).style.width, 10)
+    );
+
+    expect(sizes[0]).toBe(8);
+    expect(sizes[3]).toBe(40);
+    expect(sizes[1] - sizes[0]).toBeLessThan(sizes[3] - sizes[2]);
+  });
+
+  it('reserves the largest circles for great events on the energy scale', () => {
+    const { container } = render(<SizeLegend sizeMode="energy" />);
+
+    const sizes = Array.from(container.querySelectorAll('.rounded-full')).map(
+      (circle) => parseInt((circle as HTMLElement).style.width, 10)
+    );
+
+    expect(sizes[3]).toBe(40);
+    expect(sizes[1]).toBeLessThan(10);
+    expect(sizes[3] - sizes[2]).toBeGreaterThan(25);
+  });
 });
@@ -1,20 +1,35 @@
+import type { EarthquakeSizeMode } from '../../../types/earthquakeView';
+
 const MAGNITUDE_SAMPLES = [3, 5, 7, 9];
 
+interface SizeLegendProps {
+  /** Scale the map sizes events by; constant sizes need no legend */
+  sizeMode?: Exclude<EarthquakeSizeMode, 'constant'>;
+}
+
 /**
  * Calculate display size for legend circles.
- * Uses a simplified scale for visual consistency in the legend.
+ * Uses a simplified scale for visual consistency in the legend; the power
+ * scale keeps small events small and grows quickly towards great ones, and
+ * the energy scale (cube root of energy) even more so.
  */
-function getDisplaySize(magnitude: number): number {
+function getDisplaySize(
+  magnitude: number,
+  sizeMode: SizeLegendProps['sizeMode']
+): number {
   const minSize = 8;
   const maxSize = 40;
   const minMag = 3;
   const maxMag = 9;
 
   const normalized = (magnitude - minMag) / (maxMag - minMag);
-  return Math.round(minSize + normalized * (maxSize - minSize));
+  let scaled = normalized;
+  if (sizeMode === 'power') scaled = normalized ** 2;
+  if (sizeMode === 'energy') scaled = 10 ** ((magnitude - maxMag) / 2);
+  return Math.round(minSize + scaled * (maxSize - minSize));
 }
 
-export function SizeLegend() {
+export function SizeLegend({ sizeMode = 'exponential' }: SizeLegendProps) {
   return (
     <div
       className="absolute bottom-24 left-4 bg-gray-900/80 backdrop-blur-md p-3 rounded-lg shadow-lg border border-white/10 z-10"
@@ -29,7 +44,7 @@ export function SizeLegend() {
       </h4>
       <ul className="flex items-end gap-3" aria-labelledby="legend-title">
         {MAGNITUDE_SAMPLES.map((mag) => {
-          const size = getDisplaySize(mag);
+          const size = getDisplaySize(mag, sizeMode);
           return (
             <li
               key={mag}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { TectonicLegend } from './TectonicLegend';
+
+describe('TectonicLegend', () => {
+  it('renders nothing with both overlays off', () => {
+    const { container } = render(
+      <TectonicLegend showPlateBoundaries={false} showFaults={false} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('lists each plate boundary type in its color', () => {
+    render(<TectonicLegend showPlateBoundaries showFaults={false} />);
+
+    expect(screen.getByText('Convergent boundary')).toBeInTheDocument();
+    expect(screen.getByText('Divergent boundary')).toBeInTheDocument();
+    expect(screen.getByText('Transform boundary')).toBeInTheDocument();
+    expect(
+      screen.getByTestId('tectonic-legend-convergent').firstElementChild
+    ).toHaveStyle({ backgroundColor: 'rgb(220, 38, 38)' });
+    expect(
+      screen.queryByTestId('tectonic-legend-fault')
+    ).not.toBeInTheDocument();
+  });
+
+  it('shows faults as a dashed line', () => {
+    render(<TectonicLegend showPlateBoundaries={false} showFaults />);
+
+    expect(screen.getByText('Major fault')).toBeInTheDocument();
+    expect(
+      screen.getByTestId('tectonic-legend-fault').firstElementChild
+    ).toHaveClass('border-dashed');
+    expect(
+      screen.queryByTestId('tectonic-legend-convergent')
+    ).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,60 @@
+import { PLATE_BOUNDARY_TYPES } from '../../../types/tectonics';
+import { FAULT_COLOR, PLATE_BOUNDARY_COLORS } from '../layers/tectonicLayers';
+
+interface TectonicLegendProps {
+  showPlateBoundaries: boolean;
+  showFaults: boolean;
+}
+
+function toCSSColor([r, g, b]: readonly number[]): string {
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+/**
+ * Line styles of the reference overlays that are switched on.
+ */
+export function TectonicLegend({
+  showPlateBoundaries,
+  showFaults,
+}: TectonicLegendProps) {
+  if (!showPlateBoundaries && !showFaults) return null;
+
+  return (
+    <ul
+      className="flex flex-col gap-1"
+      aria-label="Overlay legend"
+      data-testid="tectonic-legend"
+    >
+      {showPlateBoundaries &&
+        PLATE_BOUNDARY_TYPES.map(({ type, label }) => (
+          <li
+            key={type}
+            className="flex items-center gap-2 text-xs text-gray-200"
+            data-testid={`tectonic-legend-${type}`}
+          >
+            <span
+              className="w-5 h-0.5 rounded"
+              style={{
+                backgroundColor: toCSSColor(PLATE_BOUNDARY_COLORS[type]),
+              }}
+              aria-hidden="true"
+            />
+            {label} boundary
+          </li>
+        ))}
+      {showFaults && (
+        <li
+          className="flex items-center gap-2 text-xs text-gray-200"
+          data-testid="tectonic-legend-fault"
+        >
+          <span
+            className="w-5 border-t-2 border-dashed"
+            style={{ borderColor: toCSSColor(FAULT_COLOR) }}
+            aria-hidden="true"
+          />
+          Major fault
+        </li>
+      )}
+    </ul>
+  );
+}
@@ -1,2 +1,5 @@
 export { SizeLegend } from './SizeLegend';
 export { ColorLegend } from './ColorLegend';
+export { BinLegend } from './BinLegend';
+export { PointColorLegend } from './PointColorLegend';
+export { TectonicLegend } from './TectonicLegend';
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { PlaybackControls } from './PlaybackControls';
+import { useEarthquakePlaybackStore } from '../../../stores/earthquakePlaybackStore';
+import { PLAYBACK_TRAILS } from '../../../types/earthquakePlayback';
+
+describe('PlaybackControls', () => {
+  beforeEach(() => {
+    useEarthquakePlaybackStore.getState().reset();
+  });
+
+  it('toggles play and pause', () => {
+    render(<PlaybackControls />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Play' }));
+    expect(useEarthquakePlaybackStore.getState().isPlaying).toBe(true);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Pause' }));
+    expect(useEarthquakePlaybackStore.getState().isPlaying).toBe(false);
+  });
+
+  it('rewinds to the start of the catalog', () => {
+    useEarthquakePlaybackStore.setState({ currentTime: 1704067200000 });
+    render(<PlaybackControls />);
+
+    fireEvent.click(screen.getByTestId('playback-rewind'));
+
+    expect(useEarthquakePlaybackStore.getState().currentTime).toBe(0);
+  });
+
+  it('changes playback speed', () => {
+    render(<PlaybackControls />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Set speed to 1d/s' }));
+
+    expect(useEarthquakePlaybackStore.getState().playbackSpeed).toBe(24);
+    expect(
+      screen.getByRole('button', { name: 'Set speed to 1d/s' })
+    ).toHaveAttribute('aria-pressed', 'true');
+  });
+
+  it('changes the fade trail', () => {
+    render(<PlaybackControls />);
+
+    fireEvent.click(
+      screen.getByRole('button', { name: 'Fade events over 7d' })
+    );
+
+    expect(useEarthquakePlaybackStore.getState().trailMs).toBe(
+      PLAYBACK_TRAILS[2].value
+    );
+  });
+
+  it('toggles looping', () => {
+    render(<PlaybackControls />);
+
+    fireEvent.click(screen.getByTestId('playback-loop'));
+
+    expect(useEarthquakePlaybackStore.getState().loopEnabled).toBe(true);
+    expect(screen.getByTestId('playback-loop')).toHaveAttribute(
+      'aria-label',
+      'Loop enabled'
+    );
+  });
+});
@@ -0,0 +1,153 @@
+import { useEarthquakePlaybackStore } from '../../../stores/earthquakePlaybackStore';
+import {
+  PLAYBACK_SPEEDS,
+  PLAYBACK_TRAILS,
+} from '../../../types/earthquakePlayback';
+
+function optionClassName(selected: boolean): string {
+  return `px-2 py-1 text-xs rounded transition-colors ${
+    selected
+      ? 'bg-blue-500/80 text-white'
+      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+  }`;
+}
+
+export function PlaybackControls() {
+  const isPlaying = useEarthquakePlaybackStore((state) => state.isPlaying);
+  const togglePlayback = useEarthquakePlaybackStore(
+    (state) => state.togglePlayback
+  );
+  const playbackSpeed = useEarthquakePlaybackStore(
+    (state) => state.playbackSpeed
+  );
+  const setPlaybackSpeed = useEarthquakePlaybackStore(
+    (state) => state.setPlaybackSpeed
+  );
+  const trailMs = useEarthquakePlaybackStore((state) => state.trailMs);
+  const setTrailMs = useEarthquakePlaybackStore((state) => state.setTrailMs);
+  const loopEnabled = useEarthquakePlaybackStore((state) => state.loopEnabled);
+  const setLoopEnabled = useEarthquakePlaybackStore(
+    (state) => state.setLoopEnabled
+  );
+  const setCurrentTime = useEarthquakePlaybackStore(
+    (state) => state.setCurrentTime
+  );
+
+  return (
+    <div
+      className="flex flex-wrap items-center justify-center gap-3 bg-gray-900/80 backdrop-blur-md rounded-lg px-4 py-2 shadow-lg border border-white/10"
+      data-testid="playback-controls"
+    >
+      {/* Rewind to the first event (time is clamped to the catalog) */}
+      <button
+        onClick={() => setCurrentTime(0)}
+        className="w-8 h-8 flex items-center justify-center text-gray-400 hover:text-white
+                   hover:bg-gray-700 rounded-lg transition-colors"
+        aria-label="Rewind to start"
+        title="Rewind to start"
+        data-testid="playback-rewind"
+      >
+        <svg
+          className="w-4 h-4"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M11 19l-7-7 7-7m8 14l-7-7 7-7"
+          />
+        </svg>
+      </button>
+
+      {/* Play/Pause button */}
+      <button
+        onClick={togglePlayback}
+        className="w-10 h-10 flex items-center justify-center bg-blue-500 hover:bg-blue-400
+                   text-white rounded-full transition-colors shadow-lg"
+        aria-label={isPlaying ? 'Pause' : 'Play'}
+        data-testid="playback-play-pause"
+      >
+        {isPlaying ? (
+          <svg
+            className="w-5 h-5"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M10 9v6m4-6v6"
+            />
+          </svg>
+        ) : (
+          <svg className="w-5 h-5 ml-1" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M8 5v14l11-7z" />
+          </svg>
+        )}
+      </button>
+
+      {/* Speed selector */}
+      <div className="flex items-center gap-1" data-testid="playback-speed">
+        {PLAYBACK_SPEEDS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setPlaybackSpeed(value)}
+            className={optionClassName(playbackSpeed === value)}
+            aria-label={`Set speed to ${label}`}
+            aria-pressed={playbackSpeed === value}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Fade trail selector */}
+      <div className="flex items-center gap-1" data-testid="playback-trail">
+        <span className="text-xs text-gray-400">Fade</span>
+        {PLAYBACK_TRAILS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setTrailMs(value)}
+            className={optionClassName(trailMs === value)}
+            aria-label={`Fade events over ${label}`}
+            aria-pressed={trailMs === value}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Loop toggle */}
+      <button
+        onClick={() => setLoopEnabled(!loopEnabled)}
+        className={`w-8 h-8 flex items-center justify-center rounded-lg transition-colors ${
+          loopEnabled
+            ? 'bg-blue-500/80 text-white'
+            : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+        }`}
+        aria-label={loopEnabled ? 'Loop enabled' : 'Loop disabled'}
+        title={loopEnabled ? 'Loop enabled' : 'Loop disabled'}
+        data-testid="playback-loop"
+      >
+        <svg
+          className="w-4 h-4"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+          />
+        </svg>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { PlaybackPanel } from './PlaybackPanel';
+
+describe('PlaybackPanel', () => {
+  const bounds = {
+    start: Date.parse('2024-01-01T00:00:00.000Z'),
+    end: Date.parse('2024-01-31T00:00:00.000Z'),
+  };
+
+  it('renders the timeline and controls', () => {
+    render(
+      <PlaybackPanel
+        bounds={bounds}
+        currentTime={bounds.start}
+        visibleCount={3}
+      />
+    );
+
+    expect(screen.getByTestId('playback-timeline')).toBeInTheDocument();
+    expect(screen.getByTestId('playback-controls')).toBeInTheDocument();
+  });
+
+  it('shows the number of visible events', () => {
+    render(
+      <PlaybackPanel
+        bounds={bounds}
+        currentTime={bounds.start}
+        visibleCount={1234}
+      />
+    );
+
+    expect(screen.getByTestId('playback-visible-count')).toHaveTextContent(
+      '1,234'
+    );
+  });
+});
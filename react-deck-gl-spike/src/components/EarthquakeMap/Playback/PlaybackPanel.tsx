@@ -0,0 +1,42 @@
+import { PlaybackTimeline } from './PlaybackTimeline';
+import { PlaybackControls } from './PlaybackControls';
+import { formatNumber } from '../../../utils/formatters';
+import type { TimeBounds } from '../../../utils/playbackFrame';
+
+interface PlaybackPanelProps {
+  bounds: TimeBounds;
+  currentTime: number;
+  visibleCount: number;
+}
+
+export function PlaybackPanel({
+  bounds,
+  currentTime,
+  visibleCount,
+}: PlaybackPanelProps) {
+  return (
+    <div
+      className="absolute bottom-4 left-1/2 -translate-x-1/2 w-[min(480px,calc(100%-2rem))]
+                  flex flex-col gap-2 z-20"
+      data-testid="playback-panel"
+    >
+      {/* Visible event count */}
+      <div
+        className="bg-gray-900/80 backdrop-blur-md rounded-lg px-4 py-2 shadow-lg border border-white/10
+                    flex items-center justify-between"
+      >
+        <span className="text-gray-400 text-sm">Visible Events</span>
+        <span
+          className="text-white font-mono text-lg"
+          data-testid="playback-visible-count"
+        >
+          {formatNumber(visibleCount)}
+        </span>
+      </div>
+
+      <PlaybackTimeline bounds={bounds} currentTime={currentTime} />
+
+      <PlaybackControls />
+    </div>
+  );
+}
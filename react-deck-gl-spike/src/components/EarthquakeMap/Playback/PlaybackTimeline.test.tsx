@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { PlaybackTimeline } from './PlaybackTimeline';
+import { useEarthquakePlaybackStore } from '../../../stores/earthquakePlaybackStore';
+import { HOUR_MS } from '../../../utils/time';
+
+const START = Date.parse('2024-01-01T00:00:00.000Z');
+const BOUNDS = { start: START, end: START + 100 * HOUR_MS };
+
+function mockTrackRect(track: HTMLElement) {
+  track.getBoundingClientRect = () =>
+    ({ left: 0, width: 200, top: 0, height: 16 }) as DOMRect;
+}
+
+describe('PlaybackTimeline', () => {
+  beforeEach(() => {
+    useEarthquakePlaybackStore.getState().reset();
+  });
+
+  it('renders the playback slider', () => {
+    render(<PlaybackTimeline bounds={BOUNDS} currentTime={START} />);
+
+    const track = screen.getByRole('slider', { name: 'Playback time' });
+    expect(track).toHaveAttribute('aria-valuemin', String(BOUNDS.start));
+    expect(track).toHaveAttribute('aria-valuemax', String(BOUNDS.end));
+    expect(track).toHaveAttribute('aria-valuenow', String(START));
+  });
+
+  it('shows progress through the catalog', () => {
+    render(
+      <PlaybackTimeline bounds={BOUNDS} currentTime={START + 25 * HOUR_MS} />
+    );
+
+    expect(screen.getByTestId('playback-progress')).toHaveStyle({
+      width: '25%',
+    });
+  });
+
+  it('seeks to the clicked position', () => {
+    render(<PlaybackTimeline bounds={BOUNDS} currentTime={START} />);
+    const track = screen.getByTestId('playback-track');
+    mockTrackRect(track);
+
+    fireEvent.mouseDown(track, { clientX: 50 });
+    fireEvent.mouseUp(document);
+
+    expect(useEarthquakePlaybackStore.getState().currentTime).toBe(
+      START + 25 * HOUR_MS
+    );
+  });
+
+  it('follows the mouse while dragging', () => {
+    render(<PlaybackTimeline bounds={BOUNDS} currentTime={START} />);
+    const track = screen.getByTestId('playback-track');
+    mockTrackRect(track);
+
+    fireEvent.mouseDown(track, { clientX: 0 });
+    fireEvent.mouseMove(document, { clientX: 150 });
+    fireEvent.mouseUp(document);
+    fireEvent.mouseMove(document, { clientX: 200 });
+
+    expect(useEarthquakePlaybackStore.getState().currentTime).toBe(
+      START + 75 * HOUR_MS
+    );
+  });
+
+  it('pauses while scrubbing and resumes afterwards', () => {
+    useEarthquakePlaybackStore.setState({ isPlaying: true });
+    render(<PlaybackTimeline bounds={BOUNDS} currentTime={START} />);
+    const track = screen.getByTestId('playback-track');
+    mockTrackRect(track);
+
+    fireEvent.mouseDown(track, { clientX: 100 });
+    expect(useEarthquakePlaybackStore.getState().isPlaying).toBe(false);
+
+    fireEvent.mouseUp(document);
+    expect(useEarthquakePlaybackStore.getState().isPlaying).toBe(true);
+  });
+
+  it('steps with the arrow keys', () => {
+    render(
+      <PlaybackTimeline bounds={BOUNDS} currentTime={START + 50 * HOUR_MS} />
+    );
+
+    fireEvent.keyDown(screen.getByTestId('playback-track'), {
+      key: 'ArrowRight',
+    });
+
+    expect(useEarthquakePlaybackStore.getState().currentTime).toBe(
+      START + 51 * HOUR_MS
+    );
+  });
+
+  it('jumps to the end with End', () => {
+    render(<PlaybackTimeline bounds={BOUNDS} currentTime={START} />);
+
+    fireEvent.keyDown(screen.getByTestId('playback-track'), { key: 'End' });
+
+    expect(useEarthquakePlaybackStore.getState().currentTime).toBe(BOUNDS.end);
+  });
+});
@@ -0,0 +1,154 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useEarthquakePlaybackStore } from '../../../stores/earthquakePlaybackStore';
+import { formatDateTime } from '../../../utils/formatters';
+import type { TimeBounds } from '../../../utils/playbackFrame';
+
+interface PlaybackTimelineProps {
+  bounds: TimeBounds;
+  currentTime: number;
+}
+
+// Fraction of the catalog span moved per arrow key press
+const KEYBOARD_STEP = 0.01;
+
+function formatPlaybackTime(time: number): string {
+  const { date, time: clock } = formatDateTime(new Date(time).toISOString());
+  return `${date} ${clock}`;
+}
+
+export function PlaybackTimeline({
+  bounds,
+  currentTime,
+}: PlaybackTimelineProps) {
+  const setCurrentTime = useEarthquakePlaybackStore(
+    (state) => state.setCurrentTime
+  );
+  const isPlaying = useEarthquakePlaybackStore((state) => state.isPlaying);
+  const setIsPlaying = useEarthquakePlaybackStore(
+    (state) => state.setIsPlaying
+  );
+
+  const trackRef = useRef<HTMLDivElement>(null);
+  const removeDragListenersRef = useRef<(() => void) | null>(null);
+
+  const span = Math.max(1, bounds.end - bounds.start);
+
+  const updateTimeFromPosition = useCallback(
+    (clientX: number) => {
+      if (!trackRef.current) return;
+
+      const rect = trackRef.current.getBoundingClientRect();
+      const percentage =
+        rect.width > 0
+          ? Math.max(0, Math.min(1, (clientX - rect.left) / rect.width))
+          : 0;
+
+      setCurrentTime(bounds.start + percentage * span);
+    },
+    [bounds.start, span, setCurrentTime]
+  );
+
+  // Drop any drag listeners left behind on unmount
+  useEffect(() => () => removeDragListenersRef.current?.(), []);
+
+  const handleMouseDown = useCallback(
+    (e: React.MouseEvent<HTMLDivElement>) => {
+      const wasPlaying = isPlaying;
+
+      // Pause while scrubbing
+      if (wasPlaying) setIsPlaying(false);
+      updateTimeFromPosition(e.clientX);
+
+      const handleMouseMove = (event: MouseEvent) => {
+        updateTimeFromPosition(event.clientX);
+      };
+      const removeListeners = () => {
+        document.removeEventListener('mousemove', handleMouseMove);
+        document.removeEventListener('mouseup', handleMouseUp);
+        removeDragListenersRef.current = null;
+      };
+      const handleMouseUp = () => {
+        removeListeners();
+        // Resume playback if it was playing before drag
+        if (wasPlaying) setIsPlaying(true);
+      };
+
+      removeDragListenersRef.current?.();
+      document.addEventListener('mousemove', handleMouseMove);
+      document.addEventListener('mouseup', handleMouseUp);
+      removeDragListenersRef.current = removeListeners;
+    },
+    [isPlaying, setIsPlaying, updateTimeFromPosition]
+  );
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLDivElement>) => {
+      let next: number | null = null;
+      if (e.key === 'ArrowRight') next = currentTime + span * KEYBOARD_STEP;
+      if (e.key === 'ArrowLeft') next = currentTime - span * KEYBOARD_STEP;
+      if (e.key === 'Home') next = bounds.start;
+      if (e.key === 'End') next = bounds.end;
+      if (next === null) return;
+
+      e.preventDefault();
+      setCurrentTime(Math.min(bounds.end, Math.max(bounds.start, next)));
+    },
+    [currentTime, span, bounds.start, bounds.end, setCurrentTime]
+  );
+
+  const progress = ((currentTime - bounds.start) / span) * 100;
+
+  return (
+    <div
+      className="bg-gray-900/80 backdrop-blur-md rounded-lg p-4 shadow-lg border border-white/10"
+      data-testid="playback-timeline"
+    >
+      <div className="flex justify-center mb-2">
+        <span
+          className="text-white font-mono text-sm"
+          data-testid="playback-time-display"
+        >
+          {formatPlaybackTime(currentTime)}
+        </span>
+      </div>
+
+      <div
+        ref={trackRef}
+        className="relative h-4 bg-gray-700 rounded-full cursor-pointer select-none focus:outline-none focus:ring-2 focus:ring-blue-400"
+        onMouseDown={handleMouseDown}
+        onKeyDown={handleKeyDown}
+        role="slider"
+        tabIndex={0}
+        aria-label="Playback time"
+        aria-valuemin={bounds.start}
+        aria-valuemax={bounds.end}
+        aria-valuenow={currentTime}
+        aria-valuetext={formatPlaybackTime(currentTime)}
+        data-testid="playback-track"
+      >
+        {/* Progress fill */}
+        <div
+          className="absolute h-full bg-gradient-to-r from-yellow-400 to-red-600 rounded-full"
+          style={{ width: `${progress}%` }}
+          data-testid="playback-progress"
+        />
+
+        {/* Scrubber handle */}
+        <div
+          className="absolute top-1/2 -translate-y-1/2 w-5 h-5 bg-white rounded-full shadow-lg
+                     border-2 border-blue-400 pointer-events-none"
+          style={{ left: `calc(${progress}% - 10px)` }}
+        />
+      </div>
+
+      <div className="flex justify-between mt-1 text-xs text-gray-500">
+        <span data-testid="playback-start">
+          {formatDateTime(new Date(bounds.start).toISOString()).date}
+        </span>
+        <span data-testid="playback-end">
+          {formatDateTime(new Date(bounds.end).toISOString()).date}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { PlaybackToggle } from './PlaybackToggle';
+import { useEarthquakePlaybackStore } from '../../../stores/earthquakePlaybackStore';
+
+describe('PlaybackToggle', () => {
+  beforeEach(() => {
+    useEarthquakePlaybackStore.getState().reset();
+  });
+
+  it('renders an unchecked switch', () => {
+    render(<PlaybackToggle />);
+
+    expect(screen.getByRole('switch')).toHaveAttribute('aria-checked', 'false');
+  });
+
+  it('enables and disables playback', () => {
+    render(<PlaybackToggle />);
+
+    fireEvent.click(screen.getByRole('switch'));
+    expect(useEarthquakePlaybackStore.getState().playbackEnabled).toBe(true);
+    expect(screen.getByRole('switch')).toHaveAttribute('aria-checked', 'true');
+
+    fireEvent.click(screen.getByRole('switch'));
+    expect(useEarthquakePlaybackStore.getState().playbackEnabled).toBe(false);
+  });
+});
@@ -0,0 +1,42 @@
+import { useEarthquakePlaybackStore } from '../../../stores/earthquakePlaybackStore';
+
+export function PlaybackToggle() {
+  const playbackEnabled = useEarthquakePlaybackStore(
+    (state) => state.playbackEnabled
+  );
+  const setPlaybackEnabled = useEarthquakePlaybackStore(
+    (state) => state.setPlaybackEnabled
+  );
+
+  return (
+    <div
+      className="bg-gray-900/80 backdrop-blur-md rounded-lg p-3 shadow-lg border border-white/10"
+      data-testid="playback-toggle"
+    >
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-100">Playback</h3>
+          <p className="text-gray-400 text-xs mt-1">
+            Replay events in time order
+          </p>
+        </div>
+
+        <button
+          onClick={() => setPlaybackEnabled(!playbackEnabled)}
+          className={`relative w-12 h-6 rounded-full transition-colors ${
+            playbackEnabled ? 'bg-blue-500' : 'bg-gray-600'
+          }`}
+          role="switch"
+          aria-checked={playbackEnabled}
+          aria-label="Toggle earthquake playback"
+        >
+          <span
+            className={`absolute left-0 top-1 w-4 h-4 bg-white rounded-full transition-transform ${
+              playbackEnabled ? 'translate-x-7' : 'translate-x-1'
+            }`}
+          />
+        </button>
+      </div>
+    </div>
+  );
+}
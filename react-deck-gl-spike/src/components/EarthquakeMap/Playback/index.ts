@@ -0,0 +1,4 @@
+export { PlaybackControls } from './PlaybackControls';
+export { PlaybackPanel } from './PlaybackPanel';
+export { PlaybackTimeline } from './PlaybackTimeline';
+export { PlaybackToggle } from './PlaybackToggle';
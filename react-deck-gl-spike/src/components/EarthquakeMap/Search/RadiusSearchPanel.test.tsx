@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { RadiusSearchPanel } from './RadiusSearchPanel';
+import type { EarthquakeDistance } from '../../../utils/radiusSearch';
+import { createEarthquake } from '../../../test/earthquakeFixture';
+
+const results: EarthquakeDistance[] = [
+  {
+    earthquake: createEarthquake('a', {
+      magnitude: 4.2,
+      location: 'Near Tokyo',
+    }),
+    distanceKm: 3.14,
+  },
+  {
+    earthquake: createEarthquake('b', {
+      magnitude: 4.2,
+      location: 'Off Chiba',
+    }),
+    distanceKm: 62.6,
+  },
+];
+
+describe('RadiusSearchPanel', () => {
+  function renderPanel(
+    overrides: Partial<Parameters<typeof RadiusSearchPanel>[0]> = {}
+  ) {
+    const props = {
+      center: null,
+      radiusKm: 100,
+      picking: false,
+      results: [],
+      onCenterChange: vi.fn(),
+      onRadiusChange: vi.fn(),
+      onPickingChange: vi.fn(),
+      onClear: vi.fn(),
+      onSelect: vi.fn(),
+      ...overrides,
+    };
+    render(<RadiusSearchPanel {...props} />);
+    return props;
+  }
+
+  it('sets the center from typed coordinates', () => {
+    const { onCenterChange } = renderPanel();
+
+    fireEvent.change(screen.getByTestId('radius-search-input'), {
+      target: { value: '35.68, 139.69' },
+    });
+    fireEvent.click(screen.getByTestId('radius-search-go'));
+
+    expect(onCenterChange).toHaveBeenCalledWith([139.69, 35.68]);
+    expect(screen.queryByTestId('radius-search-error')).not.toBeInTheDocument();
+  });
+
+  it('reports coordinates it cannot parse', () => {
+    const { onCenterChange } = renderPanel();
+    const input = screen.getByTestId('radius-search-input');
+
+    fireEvent.change(input, { target: { value: 'Tokyo' } });
+    fireEvent.submit(input);
+
+    expect(onCenterChange).not.toHaveBeenCalled();
+    expect(screen.getByTestId('radius-search-error')).toBeInTheDocument();
+    expect(input).toHaveAttribute('aria-invalid', 'true');
+  });
+
+  it('toggles picking the center on the map', () => {
+    const { onPickingChange } = renderPanel();
+
+    fireEvent.click(screen.getByTestId('radius-search-pick'));
+
+    expect(onPickingChange).toHaveBeenCalledWith(true);
+    expect(screen.queryByTestId('radius-search-hint')).not.toBeInTheDocument();
+  });
+
+  it('explains how to pick while picking', () => {
+    const { onPickingChange } = renderPanel({ picking: true });
+
+    expect(screen.getByTestId('radius-search-pick')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    expect(screen.getByTestId('radius-search-hint')).toBeInTheDocument();
+    fireEvent.click(screen.getByTestId('radius-search-pick'));
+    expect(onPickingChange).toHaveBeenCalledWith(false);
+  });
+
+  it('highlights and changes the radius', () => {
+    const { onRadiusChange } = renderPanel({ radiusKm: 50 });
+
+    expect(screen.getByTestId('radius-option-50')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    fireEvent.click(screen.getByTestId('radius-option-250'));
+
+    expect(onRadiusChange).toHaveBeenCalledWith(250);
+  });
+
+  it('hides results and clear without a center', () => {
+    renderPanel({ results });
+
+    expect(
+      screen.queryByTestId('radius-search-summary')
+    ).not.toBeInTheDocument();
+    expect(screen.queryByTestId('radius-search-clear')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('radius-result-a')).not.toBeInTheDocument();
+  });
+
+  it('lists results nearest first with distances', () => {
+    renderPanel({ center: [139.69, 35.68], results });
+
+    expect(screen.getByTestId('radius-search-summary')).toHaveTextContent(
+      '2 events within 100 km of 35.680°N, 139.690°E'
+    );
+    const items = screen.getAllByRole('listitem');
+    expect(items[0]).toHaveTextContent('3.1 kmM4.2Near Tokyo');
+    expect(items[1]).toHaveTextContent('63 kmM4.2Off Chiba');
+  });
+
+  it('selects an event from the list', () => {
+    const { onSelect } = renderPanel({
+      center: [139.69, 35.68],
+      results,
+      selectedId: 'b',
+    });
+
+    expect(screen.getByTestId('radius-result-b')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    fireEvent.click(screen.getByTestId('radius-result-a'));
+
+    expect(onSelect).toHaveBeenCalledWith('a');
+  });
+
+  it('summarizes results beyond the list limit', () => {
+    const many = Array.from({ length: 53 }, (_, i) => ({
+      earthquake: createEarthquake(`eq${i}`, { location: 'Somewhere' }),
+      distanceKm: i,
+    }));
+    renderPanel({ center: [0, 0], results: many });
+
+    expect(screen.getAllByRole('listitem')).toHaveLength(50);
+    expect(screen.getByTestId('radius-search-more')).toHaveTextContent(
+      'and 3 more'
+    );
+  });
+
+  it('clears the search', () => {
+    const { onClear } = renderPanel({ center: [0, 0] });
+
+    fireEvent.click(screen.getByTestId('radius-search-clear'));
+
+    expect(onClear).toHaveBeenCalledTimes(1);
+  });
+});
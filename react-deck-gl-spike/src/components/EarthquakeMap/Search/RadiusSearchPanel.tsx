@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { RADIUS_OPTIONS_KM } from '../../../types/radiusSearch';
+import type { LngLat } from '../../../types/spatialSelection';
+import {
+  parseCoordinates,
+  type EarthquakeDistance,
+} from '../../../utils/radiusSearch';
+import { formatCoordinates, formatMagnitude } from '../../../utils/formatters';
+
+interface RadiusSearchPanelProps {
+  center: LngLat | null;
+  radiusKm: number;
+  /** Whether the next map click sets the center */
+  picking: boolean;
+  /** Events within the radius, nearest first */
+  results: EarthquakeDistance[];
+  selectedId?: string | null;
+  onCenterChange: (center: LngLat) => void;
+  onRadiusChange: (radiusKm: number) => void;
+  onPickingChange: (picking: boolean) => void;
+  onClear: () => void;
+  onSelect: (earthquakeId: string) => void;
+}
+
+// Longer result lists are summarized to keep the panel small
+const MAX_LISTED_RESULTS = 50;
+
+function optionClassName(selected: boolean): string {
+  return `
+    px-2 py-1 text-xs rounded-lg transition-colors backdrop-blur-md border disabled:opacity-50
+    ${
+      selected
+        ? 'bg-blue-500/80 text-white font-semibold border-blue-400/30'
+        : 'bg-gray-800/60 hover:bg-gray-700/80 text-gray-200 border-white/10'
+    }
+  `;
+}
+
+function formatDistance(km: number): string {
+  return km < 10 ? `${km.toFixed(1)} km` : `${Math.round(km)} km`;
+}
+
+export function RadiusSearchPanel({
+  center,
+  radiusKm,
+  picking,
+  results,
+  selectedId = null,
+  onCenterChange,
+  onRadiusChange,
+  onPickingChange,
+  onClear,
+  onSelect,
+}: RadiusSearchPanelProps) {
+  const [coordinateText, setCoordinateText] = useState('');
+  const [inputError, setInputError] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = parseCoordinates(coordinateText);
+    setInputError(parsed === null);
+    if (parsed) onCenterChange(parsed);
+  };
+
+  const hiddenCount = results.length - MAX_LISTED_RESULTS;
+
+  return (
+    <div
+      role="group"
+      aria-labelledby="radius-search-label"
+      className="flex flex-col gap-2 p-3 bg-gray-900/80 backdrop-blur-md rounded-lg shadow-lg border border-white/10"
+      data-testid="radius-search-panel"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span
+          id="radius-search-label"
+          className="text-sm font-semibold text-gray-100"
+        >
+          Radius Search
+        </span>
+        {center && (
+          <button
+            type="button"
+            onClick={onClear}
+            className="text-xs text-gray-400 hover:text-gray-200"
+            data-testid="radius-search-clear"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      <form className="flex gap-1" onSubmit={handleSubmit}>
+        <input
+          type="text"
+          value={coordinateText}
+          onChange={(e) => setCoordinateText(e.target.value)}
+          placeholder="Lat, Lon"
+          aria-label="Center latitude and longitude"
+          aria-invalid={inputError}
+          className="min-w-0 flex-1 px-2 py-1 bg-gray-800/60 border border-gray-600 rounded text-sm text-gray-100 focus:ring-2 focus:ring-blue-500 focus:outline-none focus:border-blue-500"
+          data-testid="radius-search-input"
+        />
+        <button
+          type="submit"
+          className={optionClassName(false)}
+          data-testid="radius-search-go"
+        >
+          Go
+        </button>
+        <button
+          type="button"
+          onClick={() => onPickingChange(!picking)}
+          aria-pressed={picking}
+          className={optionClassName(picking)}
+          data-testid="radius-search-pick"
+        >
+          Pick on map
+        </button>
+      </form>
+
+      {inputError && (
+        <span
+          className="text-xs text-red-300"
+          data-testid="radius-search-error"
+        >
+          Enter latitude and longitude, e.g. 35.68, 139.69
+        </span>
+      )}
+      {picking && (
+        <span
+          className="text-xs text-blue-300"
+          data-testid="radius-search-hint"
+        >
+          Click the map to set the center
+        </span>
+      )}
+
+      <div className="flex gap-1" role="group" aria-label="Search radius">
+        {RADIUS_OPTIONS_KM.map((km) => (
+          <button
+            key={km}
+            type="button"
+            onClick={() => onRadiusChange(km)}
+            aria-pressed={radiusKm === km}
+            className={optionClassName(radiusKm === km)}
+            data-testid={`radius-option-${km}`}
+          >
+            {km} km
+          </button>
+        ))}
+      </div>
+
+      {center && (
+        <>
+          <span
+            className="text-xs text-gray-400"
+            data-testid="radius-search-summary"
+          >
+            {results.length.toLocaleString()}{' '}
+            {results.length === 1 ? 'event' : 'events'} within {radiusKm} km of{' '}
+            {formatCoordinates(center[0], center[1])}
+          </span>
+          {results.length > 0 && (
+            <ul
+              className="flex flex-col gap-0.5 max-h-48 overflow-y-auto"
+              aria-label="Nearest events"
+            >
+              {results
+                .slice(0, MAX_LISTED_RESULTS)
+                .map(({ earthquake, distanceKm }) => {
+                  const selected = earthquake.id === selectedId;
+                  return (
+                    <li key={earthquake.id}>
+                      <button
+                        type="button"
+                        onClick={() => onSelect(earthquake.id)}
+                        aria-pressed={selected}
+                        className={`w-full flex items-baseline gap-2 px-2 py-0.5 rounded text-left text-xs transition-colors ${
+                          selected ? 'bg-blue-500/30' : 'hover:bg-gray-700/60'
+                        }`}
+                        data-testid={`radius-result-${earthquake.id}`}
+                      >
+                        <span className="w-14 shrink-0 text-right text-gray-400 tabular-nums">
+                          {formatDistance(distanceKm)}
+                        </span>
+                        <span className="font-semibold text-gray-100">
+                          M{formatMagnitude(earthquake.magnitude).value}
+                        </span>
+                        <span className="min-w-0 truncate text-gray-200">
+                          {earthquake.location}
+                        </span>
+                      </button>
+                    </li>
+                  );
+                })}
+            </ul>
+          )}
+          {hiddenCount > 0 && (
+            <span
+              className="text-xs text-gray-400"
+              data-testid="radius-search-more"
+            >
+              and {hiddenCount.toLocaleString()} more
+            </span>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
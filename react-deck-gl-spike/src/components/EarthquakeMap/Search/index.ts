@@ -0,0 +1 @@
+export { RadiusSearchPanel } from './RadiusSearchPanel';
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { DrawingOverlay } from './DrawingOverlay';
+import type { LngLat } from '../../../types/spatialSelection';
+
+describe('DrawingOverlay', () => {
+  const viewState = {
+    longitude: 0,
+    latitude: 0,
+    zoom: 3,
+    pitch: 0,
+    bearing: 0,
+  };
+
+  beforeEach(() => {
+    vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue({
+      left: 0,
+      top: 0,
+      width: 800,
+      height: 600,
+    } as DOMRect);
+  });
+
+  function getRing(onComplete: ReturnType<typeof vi.fn>): LngLat[] {
+    return onComplete.mock.calls[0][0] as LngLat[];
+  }
+
+  it('completes a lasso on mouse up', () => {
+    const onComplete = vi.fn();
+    render(
+      <DrawingOverlay
+        tool="lasso"
+        viewState={viewState}
+        onComplete={onComplete}
+        onCancel={vi.fn()}
+      />
+    );
+    const overlay = screen.getByTestId('drawing-overlay');
+
+    fireEvent.mouseDown(overlay, { clientX: 400, clientY: 300 });
+    fireEvent.mouseMove(overlay, { clientX: 450, clientY: 300 });
+    fireEvent.mouseMove(overlay, { clientX: 450, clientY: 350 });
+    fireEvent.mouseMove(overlay, { clientX: 451, clientY: 351 }); // too close
+    expect(screen.getByTestId('drawing-preview')).toBeInTheDocument();
+    fireEvent.mouseUp(overlay);
+
+    const ring = getRing(onComplete);
+    expect(ring).toHaveLength(3);
+    // The first vertex is the map center
+    expect(ring[0][0]).toBeCloseTo(0, 6);
+    expect(ring[0][1]).toBeCloseTo(0, 6);
+    // East, then south-east of it
+    expect(ring[1][0]).toBeGreaterThan(0);
+    expect(ring[2][1]).toBeLessThan(0);
+  });
+
+  it('ignores a lasso with fewer than three points', () => {
+    const onComplete = vi.fn();
+    render(
+      <DrawingOverlay
+        tool="lasso"
+        viewState={viewState}
+        onComplete={onComplete}
+        onCancel={vi.fn()}
+      />
+    );
+    const overlay = screen.getByTestId('drawing-overlay');
+
+    fireEvent.mouseDown(overlay, { clientX: 400, clientY: 300 });
+    fireEvent.mouseUp(overlay);
+
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+
+  it('completes a rectangle from two corners', () => {
+    const onComplete = vi.fn();
+    render(
+      <DrawingOverlay
+        tool="rectangle"
+        viewState={viewState}
+        onComplete={onComplete}
+        onCancel={vi.fn()}
+      />
+    );
+    const overlay = screen.getByTestId('drawing-overlay');
+
+    fireEvent.mouseDown(overlay, { clientX: 300, clientY: 200 });
+    fireEvent.mouseMove(overlay, { clientX: 500, clientY: 400 });
+    fireEvent.mouseUp(overlay);
+
+    const ring = getRing(onComplete);
+    expect(ring).toHaveLength(4);
+    // Symmetric around the map center
+    expect(ring[0][0]).toBeCloseTo(-ring[1][0], 6);
+    expect(ring[0][1]).toBeCloseTo(-ring[2][1], 6);
+  });
+
+  it('ignores a rectangle that is too small', () => {
+    const onComplete = vi.fn();
+    render(
+      <DrawingOverlay
+        tool="rectangle"
+        viewState={viewState}
+        onComplete={onComplete}
+        onCancel={vi.fn()}
+      />
+    );
+    const overlay = screen.getByTestId('drawing-overlay');
+
+    fireEvent.mouseDown(overlay, { clientX: 300, clientY: 200 });
+    fireEvent.mouseMove(overlay, { clientX: 500, clientY: 201 });
+    fireEvent.mouseUp(overlay);
+
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+
+  it('adds polygon vertices on click and finishes on double-click', () => {
+    const onComplete = vi.fn();
+    render(
+      <DrawingOverlay
+        tool="polygon"
+        viewState={viewState}
+        onComplete={onComplete}
+        onCancel={vi.fn()}
+      />
+    );
+    const overlay = screen.getByTestId('drawing-overlay');
+
+    fireEvent.click(overlay, { clientX: 300, clientY: 200 });
+    fireEvent.click(overlay, { clientX: 500, clientY: 200 });
+    fireEvent.click(overlay, { clientX: 400, clientY: 400 });
+    // The clicks of a double-click land on the last vertex
+    fireEvent.click(overlay, { clientX: 400, clientY: 400 });
+    fireEvent.doubleClick(overlay, { clientX: 400, clientY: 400 });
+
+    expect(getRing(onComplete)).toHaveLength(3);
+  });
+
+  it('closes a polygon when clicking its first vertex', () => {
+    const onComplete = vi.fn();
+    render(
+      <DrawingOverlay
+        tool="polygon"
+        viewState={viewState}
+        onComplete={onComplete}
+        onCancel={vi.fn()}
+      />
+    );
+    const overlay = screen.getByTestId('drawing-overlay');
+
+    fireEvent.click(overlay, { clientX: 300, clientY: 200 });
+    fireEvent.click(overlay, { clientX: 500, clientY: 200 });
+    fireEvent.click(overlay, { clientX: 400, clientY: 400 });
+    fireEvent.click(overlay, { clientX: 302, clientY: 202 });
+
+    expect(getRing(onComplete)).toHaveLength(3);
+  });
+
+  it('finishes a polygon with Enter', () => {
+    const onComplete = vi.fn();
+    render(
+      <DrawingOverlay
+        tool="polygon"
+        viewState={viewState}
+        onComplete={onComplete}
+        onCancel={vi.fn()}
+      />
+    );
+    const overlay = screen.getByTestId('drawing-overlay');
+
+    fireEvent.click(overlay, { clientX: 300, clientY: 200 });
+    fireEvent.click(overlay, { clientX: 500, clientY: 200 });
+    fireEvent.click(overlay, { clientX: 400, clientY: 400 });
+    fireEvent.keyDown(document, { key: 'Enter' });
+
+    expect(getRing(onComplete)).toHaveLength(3);
+  });
+
+  it('cancels drawing with Escape', () => {
+    const onCancel = vi.fn();
+    render(
+      <DrawingOverlay
+        tool="lasso"
+        viewState={viewState}
+        onComplete={vi.fn()}
+        onCancel={onCancel}
+      />
+    );
+
+    fireEvent.keyDown(document, { key: 'Escape' });
+
+    expect(onCancel).toHaveBeenCalledTimes(1);
+  });
+});
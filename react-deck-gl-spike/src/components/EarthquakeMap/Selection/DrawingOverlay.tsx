@@ -0,0 +1,163 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { MapViewState } from '@deck.gl/core';
+import type { LngLat, SelectionTool } from '../../../types/spatialSelection';
+import { unprojectPixel } from '../../../utils/viewportBounds';
+
+type Pixel = [number, number];
+
+interface DrawingOverlayProps {
+  tool: SelectionTool;
+  viewState: MapViewState;
+  onComplete: (ring: LngLat[]) => void;
+  onCancel: () => void;
+}
+
+// Skip lasso samples closer than this to keep rings small
+const LASSO_MIN_STEP_PX = 4;
+// Clicking this close to the first vertex closes a polygon
+const CLOSE_POLYGON_PX = 8;
+
+function distance([x1, y1]: Pixel, [x2, y2]: Pixel): number {
+  return Math.hypot(x2 - x1, y2 - y1);
+}
+
+function getRectanglePixels([x1, y1]: Pixel, [x2, y2]: Pixel): Pixel[] {
+  return [
+    [x1, y1],
+    [x2, y1],
+    [x2, y2],
+    [x1, y2],
+  ];
+}
+
+/**
+ * Transparent layer over the map that captures pointer input while a
+ * selection tool is active and reports the finished ring in lng/lat.
+ */
+export function DrawingOverlay({
+  tool,
+  viewState,
+  onComplete,
+  onCancel,
+}: DrawingOverlayProps) {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [points, setPoints] = useState<Pixel[]>([]);
+  const [cursor, setCursor] = useState<Pixel | null>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const toPixel = (e: React.MouseEvent): Pixel => {
+    const rect = overlayRef.current?.getBoundingClientRect();
+    return [e.clientX - (rect?.left ?? 0), e.clientY - (rect?.top ?? 0)];
+  };
+
+  const finish = useCallback(
+    (ring: Pixel[]) => {
+      setPoints([]);
+      setCursor(null);
+      setDragging(false);
+      if (ring.length < 3) return;
+
+      const rect = overlayRef.current?.getBoundingClientRect();
+      const width = rect?.width ?? 0;
+      const height = rect?.height ?? 0;
+      onComplete(
+        ring.map((pixel) => unprojectPixel(viewState, width, height, pixel))
+      );
+    },
+    [viewState, onComplete]
+  );
+
+  // Escape cancels; Enter closes a polygon
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+      if (e.key === 'Enter' && tool === 'polygon') finish(points);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [tool, points, finish, onCancel]);
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (tool === 'polygon') return;
+    const pixel = toPixel(e);
+    setPoints([pixel]);
+    setCursor(pixel);
+    setDragging(true);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const pixel = toPixel(e);
+    setCursor(pixel);
+    if (
+      tool === 'lasso' &&
+      dragging &&
+      distance(points[points.length - 1], pixel) >= LASSO_MIN_STEP_PX
+    ) {
+      setPoints([...points, pixel]);
+    }
+  };
+
+  const handleMouseUp = () => {
+    if (!dragging) return;
+    if (tool === 'lasso') finish(points);
+    if (tool === 'rectangle' && cursor) {
+      const [start] = points;
+      const isTooSmall =
+        Math.abs(cursor[0] - start[0]) < LASSO_MIN_STEP_PX ||
+        Math.abs(cursor[1] - start[1]) < LASSO_MIN_STEP_PX;
+      finish(isTooSmall ? [] : getRectanglePixels(start, cursor));
+    }
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    if (tool !== 'polygon') return;
+    const pixel = toPixel(e);
+
+    if (points.length >= 3 && distance(points[0], pixel) <= CLOSE_POLYGON_PX) {
+      finish(points);
+      return;
+    }
+    // A double-click also fires two clicks on the same spot
+    const last = points[points.length - 1];
+    if (last && distance(last, pixel) < LASSO_MIN_STEP_PX) return;
+    setPoints([...points, pixel]);
+  };
+
+  const handleDoubleClick = () => {
+    if (tool === 'polygon') finish(points);
+  };
+
+  // In-progress outline, with a rubber band to the cursor
+  let preview: Pixel[] = points;
+  if (tool === 'rectangle' && dragging && cursor) {
+    preview = getRectanglePixels(points[0], cursor);
+  } else if (tool === 'polygon' && cursor && points.length > 0) {
+    preview = [...points, cursor];
+  }
+
+  return (
+    <div
+      ref={overlayRef}
+      className="absolute inset-0 z-[5] cursor-crosshair"
+      onMouseDown={handleMouseDown}
+      onMouseMove={handleMouseMove}
+      onMouseUp={handleMouseUp}
+      onClick={handleClick}
+      onDoubleClick={handleDoubleClick}
+      data-testid="drawing-overlay"
+    >
+      {preview.length > 1 && (
+        <svg className="absolute inset-0 w-full h-full pointer-events-none">
+          <polygon
+            points={preview.map(([x, y]) => `${x},${y}`).join(' ')}
+            fill="rgba(96, 165, 250, 0.15)"
+            stroke="rgb(96, 165, 250)"
+            strokeWidth={2}
+            strokeDasharray={tool === 'polygon' ? '4 3' : undefined}
+            data-testid="drawing-preview"
+          />
+        </svg>
+      )}
+    </div>
+  );
+}
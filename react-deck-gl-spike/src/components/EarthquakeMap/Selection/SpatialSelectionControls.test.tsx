@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { SpatialSelectionControls } from './SpatialSelectionControls';
+import type { SelectionShape } from '../../../types/spatialSelection';
+
+describe('SpatialSelectionControls', () => {
+  const ring: SelectionShape['ring'] = [
+    [0, 0],
+    [1, 0],
+    [1, 1],
+  ];
+  const shapes: SelectionShape[] = [
+    { id: 'shape-1', tool: 'lasso', ring },
+    { id: 'shape-3', tool: 'rectangle', ring },
+  ];
+
+  function renderControls(
+    overrides: Partial<Parameters<typeof SpatialSelectionControls>[0]> = {}
+  ) {
+    const props = {
+      shapes,
+      activeTool: null,
+      counts: { 'shape-1': 42, 'shape-3': 1200 },
+      onToolChange: vi.fn(),
+      onRemove: vi.fn(),
+      onClear: vi.fn(),
+      onExport: vi.fn(),
+      ...overrides,
+    };
+    render(<SpatialSelectionControls {...props} />);
+    return props;
+  }
+
+  it('renders a button per drawing tool', () => {
+    renderControls();
+
+    expect(screen.getByTestId('selection-tool-lasso')).toBeInTheDocument();
+    expect(screen.getByTestId('selection-tool-polygon')).toBeInTheDocument();
+    expect(screen.getByTestId('selection-tool-rectangle')).toBeInTheDocument();
+  });
+
+  it('activates a tool and shows how to use it', () => {
+    const { onToolChange } = renderControls();
+
+    fireEvent.click(screen.getByTestId('selection-tool-polygon'));
+
+    expect(onToolChange).toHaveBeenCalledWith('polygon');
+  });
+
+  it('deactivates the active tool when clicked again', () => {
+    const { onToolChange } = renderControls({ activeTool: 'lasso' });
+
+    expect(screen.getByTestId('selection-tool-lasso')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    expect(screen.getByTestId('selection-hint')).toHaveTextContent(
+      'Drag to draw a freehand outline'
+    );
+    fireEvent.click(screen.getByTestId('selection-tool-lasso'));
+
+    expect(onToolChange).toHaveBeenCalledWith(null);
+  });
+
+  it('disables the drawing tools but keeps the shape list', () => {
+    renderControls({ drawingDisabled: true });
+
+    expect(screen.getByTestId('selection-tool-lasso')).toBeDisabled();
+    expect(screen.getByTestId('selection-tool-rectangle')).toBeDisabled();
+    expect(screen.getByTestId('selection-shape-shape-1')).toHaveTextContent(
+      'Lasso 1 · 42 events'
+    );
+  });
+
+  it('lists shapes with their event counts', () => {
+    renderControls();
+
+    expect(screen.getByTestId('selection-shape-shape-1')).toHaveTextContent(
+      'Lasso 1 · 42 events'
+    );
+    expect(screen.getByTestId('selection-shape-shape-3')).toHaveTextContent(
+      'Rectangle 3 · 1,200 events'
+    );
+  });
+
+  it('exports and removes individual shapes', () => {
+    const { onExport, onRemove } = renderControls();
+
+    fireEvent.click(screen.getByTestId('selection-export-shape-3'));
+    fireEvent.click(screen.getByTestId('selection-remove-shape-1'));
+
+    expect(onExport).toHaveBeenCalledWith(shapes[1]);
+    expect(onRemove).toHaveBeenCalledWith('shape-1');
+  });
+
+  it('clears all shapes', () => {
+    const { onClear } = renderControls();
+
+    fireEvent.click(screen.getByTestId('selection-clear'));
+
+    expect(onClear).toHaveBeenCalledTimes(1);
+  });
+
+  it('hides the shape list and clear button without shapes', () => {
+    renderControls({ shapes: [] });
+
+    expect(screen.queryByTestId('selection-clear')).not.toBeInTheDocument();
+    expect(screen.queryByRole('list')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  SELECTION_TOOLS,
+  type SelectionShape,
+  type SelectionTool,
+} from '../../../types/spatialSelection';
+
+interface SpatialSelectionControlsProps {
+  shapes: SelectionShape[];
+  activeTool: SelectionTool | null;
+  /** Events inside each shape, keyed by shape id */
+  counts: Record<string, number>;
+  onToolChange: (tool: SelectionTool | null) => void;
+  /** Disable drawing while existing shapes can still be managed */
+  drawingDisabled?: boolean;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onExport: (shape: SelectionShape) => void;
+}
+
+function optionClassName(selected: boolean): string {
+  return `
+    px-2 py-1 text-xs rounded-lg transition-colors backdrop-blur-md border disabled:opacity-50
+    ${
+      selected
+        ? 'bg-blue-500/80 text-white font-semibold border-blue-400/30'
+        : 'bg-gray-800/60 hover:bg-gray-700/80 text-gray-200 border-white/10'
+    }
+  `;
+}
+
+// e.g. "Lasso 3" for shape-3 drawn with the lasso
+function getShapeLabel(shape: SelectionShape): string {
+  const toolLabel =
+    SELECTION_TOOLS.find(({ tool }) => tool === shape.tool)?.label ??
+    shape.tool;
+  return `${toolLabel} ${shape.id.replace('shape-', '')}`;
+}
+
+export function SpatialSelectionControls({
+  shapes,
+  activeTool,
+  counts,
+  onToolChange,
+  drawingDisabled = false,
+  onRemove,
+  onClear,
+  onExport,
+}: SpatialSelectionControlsProps) {
+  const activeHint = SELECTION_TOOLS.find(
+    ({ tool }) => tool === activeTool
+  )?.hint;
+
+  return (
+    <div
+      role="group"
+      aria-labelledby="spatial-selection-label"
+      className="flex flex-col gap-2 p-3 bg-gray-900/80 backdrop-blur-md rounded-lg shadow-lg border border-white/10"
+      data-testid="spatial-selection-controls"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span
+          id="spatial-selection-label"
+          className="text-sm font-semibold text-gray-100"
+        >
+          Area Selection
+        </span>
+        {shapes.length > 0 && (
+          <button
+            type="button"
+            onClick={onClear}
+            className="text-xs text-gray-400 hover:text-gray-200"
+            data-testid="selection-clear"
+          >
+            Clear all
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-1" role="group" aria-label="Drawing tool">
+        {SELECTION_TOOLS.map(({ tool, label }) => (
+          <button
+            key={tool}
+            type="button"
+            disabled={drawingDisabled}
+            onClick={() => onToolChange(activeTool === tool ? null : tool)}
+            aria-pressed={activeTool === tool}
+            className={optionClassName(activeTool === tool)}
+            data-testid={`selection-tool-${tool}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {activeHint && (
+        <p className="text-xs text-blue-300" data-testid="selection-hint">
+          {activeHint}. Esc cancels.
+        </p>
+      )}
+
+      {shapes.length > 0 && (
+        <ul className="flex flex-col gap-1" aria-label="Selection shapes">
+          {shapes.map((shape) => (
+            <li
+              key={shape.id}
+              className="flex items-center justify-between gap-2 text-xs text-gray-200"
+              data-testid={`selection-shape-${shape.id}`}
+            >
+              <span>
+                {getShapeLabel(shape)}
+                <span className="text-gray-400">
+                  {' '}
+                  · {(counts[shape.id] ?? 0).toLocaleString()} events
+                </span>
+              </span>
+              <span className="flex gap-1">
+                <button
+                  type="button"
+                  onClick={() => onExport(shape)}
+                  className="px-1.5 py-0.5 rounded text-blue-300 hover:bg-gray-700/80"
+                  aria-label={`Export ${getShapeLabel(shape)} as GeoJSON`}
+                  data-testid={`selection-export-${shape.id}`}
+                >
+                  GeoJSON
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onRemove(shape.id)}
+                  className="px-1.5 py-0.5 rounded text-gray-400 hover:text-white hover:bg-gray-700/80"
+                  aria-label={`Remove ${getShapeLabel(shape)}`}
+                  data-testid={`selection-remove-${shape.id}`}
+                >
+                  ×
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
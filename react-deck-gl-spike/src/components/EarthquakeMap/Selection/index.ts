@@ -0,0 +1,2 @@
+export { DrawingOverlay } from './DrawingOverlay';
+export { SpatialSelectionControls } from './SpatialSelectionControls';
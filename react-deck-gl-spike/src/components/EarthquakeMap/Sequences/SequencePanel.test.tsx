@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { SequencePanel } from './SequencePanel';
+import type { EarthquakeSequence } from '../../../utils/declusterEarthquakes';
+import { createEarthquake } from '../../../test/earthquakeFixture';
+import { DAY_MS } from '../../../utils/time';
+
+describe('SequencePanel', () => {
+  const sequences: EarthquakeSequence[] = [
+    {
+      mainshock: createEarthquake('main-a', {
+        magnitude: 7.1,
+        location: 'Honshu, Japan',
+      }),
+      aftershocks: [
+        createEarthquake('a1', { magnitude: 5.0, location: 'x' }),
+        createEarthquake('a2', { magnitude: 4.1, location: 'x' }),
+      ],
+      startTime: 0,
+      endTime: 3.5 * DAY_MS,
+      durationMs: 3.5 * DAY_MS,
+    },
+    {
+      mainshock: createEarthquake('main-b', {
+        magnitude: 5.2,
+        location: 'Central California',
+      }),
+      aftershocks: [createEarthquake('b1', { magnitude: 3.0, location: 'x' })],
+      startTime: 0,
+      endTime: 5 * 60 * 60 * 1000,
+      durationMs: 5 * 60 * 60 * 1000,
+    },
+  ];
+
+  it('lists each mainshock with its aftershock count and duration', () => {
+    render(
+      <SequencePanel
+        sequences={sequences}
+        backgroundCount={12}
+        onSelect={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('Sequences (2)')).toBeInTheDocument();
+    const first = screen.getByTestId('sequence-main-a');
+    expect(first).toHaveTextContent('M7.1');
+    expect(first).toHaveTextContent('Honshu, Japan');
+    expect(first).toHaveTextContent('2 aftershocks · 3.5 days');
+    expect(screen.getByTestId('sequence-main-b')).toHaveTextContent(
+      '1 aftershock · 5 h'
+    );
+  });
+
+  it('shows how many events belong to no sequence', () => {
+    render(
+      <SequencePanel
+        sequences={sequences}
+        backgroundCount={12}
+        onSelect={vi.fn()}
+      />
+    );
+
+    expect(screen.getByTestId('sequence-background-count')).toHaveTextContent(
+      '12 independent events'
+    );
+  });
+
+  it('selects a mainshock when its row is clicked', () => {
+    const onSelect = vi.fn();
+    render(
+      <SequencePanel
+        sequences={sequences}
+        backgroundCount={0}
+        onSelect={onSelect}
+      />
+    );
+
+    fireEvent.click(screen.getByTestId('sequence-main-b'));
+
+    expect(onSelect).toHaveBeenCalledWith('main-b');
+  });
+
+  it('highlights the selected sequence', () => {
+    render(
+      <SequencePanel
+        sequences={sequences}
+        backgroundCount={0}
+        selectedId="main-a"
+        onSelect={vi.fn()}
+      />
+    );
+
+    expect(screen.getByTestId('sequence-main-a')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    expect(screen.getByTestId('sequence-main-b')).toHaveAttribute(
+      'aria-pressed',
+      'false'
+    );
+  });
+
+  it('shows an empty message when there are no sequences', () => {
+    render(
+      <SequencePanel sequences={[]} backgroundCount={3} onSelect={vi.fn()} />
+    );
+
+    expect(screen.getByTestId('sequence-empty')).toBeInTheDocument();
+  });
+});
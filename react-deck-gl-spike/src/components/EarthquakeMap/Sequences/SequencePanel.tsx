@@ -0,0 +1,93 @@
+import type { EarthquakeSequence } from '../../../utils/declusterEarthquakes';
+import { getSequenceColor } from '../layers/sequenceColorScale';
+import { formatDuration, formatMagnitude } from '../../../utils/formatters';
+
+interface SequencePanelProps {
+  sequences: EarthquakeSequence[];
+  /** Number of events outside any sequence */
+  backgroundCount: number;
+  selectedId?: string | null;
+  onSelect: (mainshockId: string) => void;
+}
+
+export function SequencePanel({
+  sequences,
+  backgroundCount,
+  selectedId = null,
+  onSelect,
+}: SequencePanelProps) {
+  return (
+    <div
+      className="absolute bottom-4 right-4 w-72 bg-gray-900/80 backdrop-blur-md p-3 rounded-lg shadow-lg border border-white/10 z-10"
+      role="region"
+      aria-labelledby="sequence-panel-title"
+      data-testid="sequence-panel"
+    >
+      <h4
+        id="sequence-panel-title"
+        className="text-sm font-semibold mb-2 text-gray-100"
+      >
+        Sequences ({sequences.length})
+      </h4>
+
+      {sequences.length === 0 ? (
+        <p className="text-xs text-gray-400" data-testid="sequence-empty">
+          No aftershock sequences found
+        </p>
+      ) : (
+        <ul className="flex flex-col gap-1 max-h-56 overflow-y-auto">
+          {sequences.map((sequence, index) => {
+            const { mainshock } = sequence;
+            const [r, g, b] = getSequenceColor(index);
+            const selected = mainshock.id === selectedId;
+
+            return (
+              <li key={mainshock.id}>
+                <button
+                  type="button"
+                  onClick={() => onSelect(mainshock.id)}
+                  aria-pressed={selected}
+                  className={`w-full flex items-start gap-2 px-2 py-1 rounded text-left transition-colors ${
+                    selected ? 'bg-blue-500/30' : 'hover:bg-gray-700/60'
+                  }`}
+                  data-testid={`sequence-${mainshock.id}`}
+                >
+                  <span
+                    className="mt-1 w-3 h-3 shrink-0 rounded-full"
+                    style={{ backgroundColor: `rgb(${r}, ${g}, ${b})` }}
+                    aria-hidden="true"
+                  />
+                  <span className="min-w-0">
+                    <span className="block text-xs text-gray-100 truncate">
+                      <span className="font-semibold">
+                        M{formatMagnitude(mainshock.magnitude).value}
+                      </span>{' '}
+                      {mainshock.location}
+                    </span>
+                    <span className="block text-xs text-gray-400">
+                      {sequence.aftershocks.length}{' '}
+                      {sequence.aftershocks.length === 1
+                        ? 'aftershock'
+                        : 'aftershocks'}{' '}
+                      · {formatDuration(sequence.durationMs)}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-2 mt-2 text-xs text-gray-400">
+        <span
+          className="w-3 h-3 rounded-full bg-gray-500/60"
+          aria-hidden="true"
+        />
+        <span data-testid="sequence-background-count">
+          {backgroundCount} independent events
+        </span>
+      </div>
+    </div>
+  );
+}
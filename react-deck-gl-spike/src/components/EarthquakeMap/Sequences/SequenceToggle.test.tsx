@@ -0,0 +1,27 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { SequenceToggle } from './SequenceToggle';
+import { useEarthquakeViewStore } from '../../../stores/earthquakeViewStore';
+
+describe('SequenceToggle', () => {
+  beforeEach(() => {
+    useEarthquakeViewStore.getState().reset();
+  });
+
+  it('renders an unchecked switch', () => {
+    render(<SequenceToggle />);
+
+    expect(screen.getByRole('switch')).toHaveAttribute('aria-checked', 'false');
+  });
+
+  it('switches between sequence and depth coloring', () => {
+    render(<SequenceToggle />);
+
+    fireEvent.click(screen.getByRole('switch'));
+    expect(useEarthquakeViewStore.getState().colorMode).toBe('sequence');
+    expect(screen.getByRole('switch')).toHaveAttribute('aria-checked', 'true');
+
+    fireEvent.click(screen.getByRole('switch'));
+    expect(useEarthquakeViewStore.getState().colorMode).toBe('depth');
+  });
+});
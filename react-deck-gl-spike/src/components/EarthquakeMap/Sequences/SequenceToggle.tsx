@@ -0,0 +1,41 @@
+import { useEarthquakeViewStore } from '../../../stores/earthquakeViewStore';
+
+export function SequenceToggle() {
+  const colorMode = useEarthquakeViewStore((state) => state.colorMode);
+  const setColorMode = useEarthquakeViewStore((state) => state.setColorMode);
+  const enabled = colorMode === 'sequence';
+
+  return (
+    <div
+      className="bg-gray-900/80 backdrop-blur-md rounded-lg p-3 shadow-lg border border-white/10"
+      data-testid="sequence-toggle"
+    >
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-100">
+            Aftershock Sequences
+          </h3>
+          <p className="text-gray-400 text-xs mt-1">
+            Color events by mainshock
+          </p>
+        </div>
+
+        <button
+          onClick={() => setColorMode(enabled ? 'depth' : 'sequence')}
+          className={`relative w-12 h-6 rounded-full transition-colors ${
+            enabled ? 'bg-blue-500' : 'bg-gray-600'
+          }`}
+          role="switch"
+          aria-checked={enabled}
+          aria-label="Toggle color by aftershock sequence"
+        >
+          <span
+            className={`absolute left-0 top-1 w-4 h-4 bg-white rounded-full transition-transform ${
+              enabled ? 'translate-x-7' : 'translate-x-1'
+            }`}
+          />
+        </button>
+      </div>
+    </div>
+  );
+}
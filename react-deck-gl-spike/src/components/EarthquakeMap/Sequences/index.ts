@@ -0,0 +1,2 @@
+export { SequencePanel } from './SequencePanel';
+export { SequenceToggle } from './SequenceToggle';
@@ -1,6 +1,8 @@
 import { describe, it, expect } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import { EarthquakeStats } from './EarthquakeStats';
+import type { MagnitudeFrequencyAnalysis } from '../../../utils/gutenbergRichter';
+import { analyzeEnergyRelease } from '../layers/seismicEnergy';
 
 describe('EarthquakeStats', () => {
   it('renders filtered count', () => {
@@ -137,4 +139,148 @@ describe('EarthquakeStats', () => {
     expect(stats).toHaveClass('shadow-lg');
     expect(stats).toHaveClass('border-white/10');
   });
+
+  it('lists active filters when filtered', () => {
+    render(
+      <EarthquakeStats
+        totalCount={100}
+        filteredCount={20}
+        isFiltered={true}
+        activeFilters={['M ≥ 2.5', 'Depth 300–700 km']}
+      />
+    );
+
+    const list = screen.getByTestId('active-filters');
+    expect(list).toHaveTextContent('M ≥ 2.5');
+    expect(list).toHaveTextContent('Depth 300–700 km');
+  });
+
+  it('includes active filters in screen reader text', () => {
+    render(
+      <EarthquakeStats
+        totalCount={100}
+        filteredCount={20}
+        isFiltered={true}
+        activeFilters={['M ≥ 2.5']}
+      />
+    );
+
+    expect(
+      screen.getByText(/Showing 20 of 100 earthquakes \(filtered\): M ≥ 2.5/)
+    ).toHaveClass('sr-only');
+  });
+
+  it('hides active filter list when not filtered', () => {
+    render(
+      <EarthquakeStats
+        totalCount={100}
+        filteredCount={100}
+        isFiltered={false}
+        activeFilters={[]}
+      />
+    );
+
+    expect(screen.queryByTestId('active-filters')).not.toBeInTheDocument();
+  });
+
+  describe('magnitude-frequency panel', () => {
+    const analysis: MagnitudeFrequencyAnalysis = {
+      bins: [
+        { magnitude: 2.0, count: 90, cumulative: 100 },
+        { magnitude: 3.0, count: 10, cumulative: 10 },
+      ],
+      fit: {
+        completeness: 2.0,
+        bValue: 1.02,
+        bUncertainty: 0.1,
+        aValue: 4.04,
+        sampleSize: 100,
+      },
+    };
+
+    it('shows the b-value estimate when an analysis is given', () => {
+      render(
+        <EarthquakeStats
+          totalCount={100}
+          filteredCount={100}
+          isFiltered={false}
+          magnitudeFrequency={analysis}
+        />
+      );
+
+      expect(screen.getByTestId('b-value')).toHaveTextContent(
+        'b = 1.02 ± 0.10'
+      );
+    });
+
+    it('omits the panel without an analysis', () => {
+      render(
+        <EarthquakeStats
+          totalCount={100}
+          filteredCount={0}
+          isFiltered={false}
+        />
+      );
+
+      expect(
+        screen.queryByTestId('magnitude-frequency-panel')
+      ).not.toBeInTheDocument();
+    });
+
+    it('omits the panel when no events are in view', () => {
+      render(
+        <EarthquakeStats
+          totalCount={100}
+          filteredCount={0}
+          isFiltered={true}
+          magnitudeFrequency={{ bins: [], fit: null }}
+        />
+      );
+
+      expect(
+        screen.queryByTestId('magnitude-frequency-panel')
+      ).not.toBeInTheDocument();
+    });
+  });
+
+  describe('energy release panel', () => {
+    it('shows the total energy of the events', () => {
+      const release = analyzeEnergyRelease([
+        {
+          id: 'a',
+          longitude: 0,
+          latitude: 0,
+          depth: 10,
+          magnitude: 6,
+          timestamp: '2024-01-01T00:00:00Z',
+          location: 'Test',
+        },
+      ]);
+      render(
+        <EarthquakeStats
+          totalCount={1}
+          filteredCount={1}
+          isFiltered={false}
+          energyRelease={release}
+        />
+      );
+
+      expect(screen.getByTestId('total-energy')).toHaveTextContent('6.3e13 J');
+    });
+
+    it('omits the panel when no events are in view', () => {
+      render(
+        <EarthquakeStats
+          totalCount={100}
+          filteredCount={0}
+          isFiltered={true}
+          energyRelease={analyzeEnergyRelease([])}
+        />
+      );
+
+      expect(
+        screen.queryByTestId('energy-release-panel')
+      ).not.toBeInTheDocument();
+    });
+  });
 });
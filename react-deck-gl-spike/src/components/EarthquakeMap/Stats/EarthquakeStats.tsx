@@ -1,7 +1,18 @@
+import type { MagnitudeFrequencyAnalysis } from '../../../utils/gutenbergRichter';
+import type { EnergyRelease } from '../layers/seismicEnergy';
+import { MagnitudeFrequencyPanel } from './MagnitudeFrequencyPanel';
+import { EnergyReleasePanel } from './EnergyReleasePanel';
+
 interface EarthquakeStatsProps {
   totalCount: number;
   filteredCount: number;
   isFiltered: boolean;
+  /** Human-readable labels for each filter currently narrowing the catalog */
+  activeFilters?: string[];
+  /** Gutenberg–Richter analysis of the events in view */
+  magnitudeFrequency?: MagnitudeFrequencyAnalysis | null;
+  /** Energy and moment released by the same events */
+  energyRelease?: EnergyRelease | null;
 }
 
 function FilterIcon({ className }: { className?: string }) {
@@ -23,46 +34,75 @@ export function EarthquakeStats({
   totalCount,
   filteredCount,
   isFiltered,
+  activeFilters = [],
+  magnitudeFrequency = null,
+  energyRelease = null,
 }: EarthquakeStatsProps) {
   return (
-    <div
-      role="status"
-      aria-live="polite"
-      aria-atomic="true"
-      className="bg-gray-900/80 backdrop-blur-md px-3 py-2 rounded-lg shadow-lg border border-white/10 text-sm"
-      data-testid="earthquake-stats"
-    >
-      <span className="sr-only">
-        Showing {filteredCount} of {totalCount} earthquakes
-        {isFiltered ? ' (filtered)' : ''}
-      </span>
-
-      <div className="flex items-center gap-2">
-        <span
-          className="font-semibold text-gray-100"
-          data-testid="filtered-count"
-        >
-          {filteredCount.toLocaleString()}
-        </span>
-        <span className="text-gray-300">
-          earthquake{filteredCount !== 1 ? 's' : ''}
+    <div className="flex items-end gap-2">
+      <div
+        role="status"
+        aria-live="polite"
+        aria-atomic="true"
+        className="bg-gray-900/80 backdrop-blur-md px-3 py-2 rounded-lg shadow-lg border border-white/10 text-sm"
+        data-testid="earthquake-stats"
+      >
+        <span className="sr-only">
+          Showing {filteredCount} of {totalCount} earthquakes
+          {isFiltered ? ' (filtered)' : ''}
+          {activeFilters.length > 0 ? `: ${activeFilters.join(', ')}` : ''}
         </span>
 
-        {isFiltered && (
-          <span className="text-gray-400" data-testid="total-count">
-            of {totalCount.toLocaleString()}
+        <div className="flex items-center gap-2">
+          <span
+            className="font-semibold text-gray-100"
+            data-testid="filtered-count"
+          >
+            {filteredCount.toLocaleString()}
+          </span>
+          <span className="text-gray-300">
+            earthquake{filteredCount !== 1 ? 's' : ''}
           </span>
-        )}
-      </div>
 
-      {isFiltered && (
-        <div
-          className="flex items-center gap-1 mt-1 text-xs text-blue-400"
-          data-testid="filter-indicator"
-        >
-          <FilterIcon className="w-3 h-3" />
-          <span>Filter active</span>
+          {isFiltered && (
+            <span className="text-gray-400" data-testid="total-count">
+              of {totalCount.toLocaleString()}
+            </span>
+          )}
         </div>
+
+        {isFiltered && (
+          <div
+            className="flex items-center gap-1 mt-1 text-xs text-blue-400"
+            data-testid="filter-indicator"
+          >
+            <FilterIcon className="w-3 h-3" />
+            <span>Filter active</span>
+          </div>
+        )}
+
+        {isFiltered && activeFilters.length > 0 && (
+          <ul
+            className="flex flex-wrap gap-1 mt-1"
+            aria-label="Active filters"
+            data-testid="active-filters"
+          >
+            {activeFilters.map((label) => (
+              <li
+                key={label}
+                className="px-1.5 py-0.5 text-xs rounded bg-blue-500/20 text-blue-200 border border-blue-400/30"
+              >
+                {label}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {magnitudeFrequency && magnitudeFrequency.bins.length > 0 && (
+        <MagnitudeFrequencyPanel analysis={magnitudeFrequency} />
+      )}
+      {energyRelease && energyRelease.cumulative.length > 0 && (
+        <EnergyReleasePanel release={energyRelease} />
       )}
     </div>
   );
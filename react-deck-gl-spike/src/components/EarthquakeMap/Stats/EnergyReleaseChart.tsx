@@ -0,0 +1,114 @@
+import type { CumulativeEnergyPoint } from '../layers/seismicEnergy';
+import { formatEnergy } from '../../../utils/formatters';
+
+interface EnergyReleaseChartProps {
+  cumulative: CumulativeEnergyPoint[];
+}
+
+const WIDTH = 240;
+const HEIGHT = 140;
+const MARGIN = { top: 8, right: 8, bottom: 24, left: 32 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+function formatChartDate(time: number): string {
+  return new Date(time).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+/**
+ * Cumulative energy released through time as a step curve, so each large
+ * event shows as a jump.
+ */
+export function EnergyReleaseChart({ cumulative }: EnergyReleaseChartProps) {
+  if (cumulative.length === 0) return null;
+
+  const start = cumulative[0].time;
+  const end = cumulative[cumulative.length - 1].time;
+  const total = cumulative[cumulative.length - 1].energy;
+
+  const x = (time: number) =>
+    MARGIN.left +
+    (end > start ? (time - start) / (end - start) : 1) * PLOT_WIDTH;
+  const y = (energy: number) =>
+    MARGIN.top + PLOT_HEIGHT * (1 - (total > 0 ? energy / total : 0));
+
+  // Flat until each event, then up by its energy
+  const path = cumulative.reduce(
+    (d, point, i) =>
+      `${d} H ${x(point.time)} V ${y(point.energy)}${
+        i === cumulative.length - 1 ? ` H ${MARGIN.left + PLOT_WIDTH}` : ''
+      }`,
+    `M ${MARGIN.left} ${y(0)}`
+  );
+  const shareTicks = [0, 0.5, 1];
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full text-gray-400"
+      role="img"
+      aria-label={`Cumulative energy release through time, ${formatEnergy(total)} in total`}
+      data-testid="energy-release-chart"
+    >
+      {shareTicks.map((share) => (
+        <g key={share}>
+          <line
+            x1={MARGIN.left}
+            x2={WIDTH - MARGIN.right}
+            y1={y(share * total)}
+            y2={y(share * total)}
+            stroke="currentColor"
+            strokeOpacity={0.15}
+          />
+          <text
+            x={MARGIN.left - 4}
+            y={y(share * total)}
+            textAnchor="end"
+            dominantBaseline="middle"
+            fontSize={8}
+            fill="currentColor"
+          >
+            {share * 100}%
+          </text>
+        </g>
+      ))}
+      <text
+        x={MARGIN.left}
+        y={HEIGHT - MARGIN.bottom + 10}
+        fontSize={8}
+        fill="currentColor"
+      >
+        {formatChartDate(start)}
+      </text>
+      <text
+        x={WIDTH - MARGIN.right}
+        y={HEIGHT - MARGIN.bottom + 10}
+        textAnchor="end"
+        fontSize={8}
+        fill="currentColor"
+      >
+        {formatChartDate(end)}
+      </text>
+      <text
+        x={MARGIN.left + PLOT_WIDTH / 2}
+        y={HEIGHT - 2}
+        textAnchor="middle"
+        fontSize={8}
+        fill="currentColor"
+      >
+        Time
+      </text>
+
+      <path
+        d={path}
+        fill="none"
+        stroke="#fb923c"
+        strokeWidth={1.5}
+        data-testid="cumulative-energy-curve"
+      />
+    </svg>
+  );
+}
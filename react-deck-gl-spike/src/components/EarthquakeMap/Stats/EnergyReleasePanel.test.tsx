@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { EnergyReleasePanel } from './EnergyReleasePanel';
+import { analyzeEnergyRelease } from '../layers/seismicEnergy';
+import { createEarthquake } from '../../../test/earthquakeFixture';
+
+describe('EnergyReleasePanel', () => {
+  const release = analyzeEnergyRelease([
+    createEarthquake('a', {
+      magnitude: 4,
+      timestamp: '2024-01-01T00:00:00Z',
+      location: '10 km N of Town, Chile',
+    }),
+    createEarthquake('b', {
+      magnitude: 7,
+      timestamp: '2024-01-05T00:00:00Z',
+      location: '30 km E of City, Japan',
+    }),
+    createEarthquake('c', {
+      magnitude: 5,
+      timestamp: '2024-01-09T00:00:00Z',
+      location: '5 km S of Village, Chile',
+    }),
+  ]);
+
+  it('shows the total energy', () => {
+    render(<EnergyReleasePanel release={release} />);
+
+    expect(screen.getByTestId('total-energy')).toHaveTextContent(
+      `${release.totalEnergy.toExponential(1).replace('e+', 'e')} J`
+    );
+  });
+
+  it('starts collapsed', () => {
+    render(<EnergyReleasePanel release={release} />);
+
+    expect(screen.getByTestId('energy-release-toggle')).toHaveAttribute(
+      'aria-expanded',
+      'false'
+    );
+    expect(
+      screen.queryByTestId('energy-release-chart')
+    ).not.toBeInTheDocument();
+  });
+
+  it('expands to the cumulative curve and moment totals', () => {
+    render(<EnergyReleasePanel release={release} />);
+
+    fireEvent.click(screen.getByTestId('energy-release-toggle'));
+
+    expect(screen.getByTestId('energy-release-chart')).toBeInTheDocument();
+    expect(screen.getByTestId('cumulative-energy-curve')).toBeInTheDocument();
+    expect(screen.getByTestId('total-moment')).toHaveTextContent('N·m');
+    // Dominated by the M7
+    expect(screen.getByTestId('equivalent-magnitude')).toHaveTextContent('7.0');
+  });
+
+  it('breaks energy down by magnitude class', () => {
+    render(<EnergyReleasePanel release={release} />);
+    fireEvent.click(screen.getByTestId('energy-release-toggle'));
+
+    const rows = screen.getAllByTestId('energy-share-row');
+    expect(rows).toHaveLength(6);
+    expect(rows[5]).toHaveTextContent('M7+');
+    expect(rows[5]).toHaveTextContent('99.9%');
+  });
+
+  it('switches the breakdown to regions', () => {
+    render(<EnergyReleasePanel release={release} />);
+    fireEvent.click(screen.getByTestId('energy-release-toggle'));
+
+    fireEvent.click(screen.getByTestId('energy-share-region'));
+
+    expect(screen.getByTestId('energy-share-region')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    const rows = screen.getAllByTestId('energy-share-row');
+    expect(rows.map((row) => row.textContent)).toEqual([
+      expect.stringContaining('Japan'),
+      expect.stringContaining('Chile'),
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { momentToMagnitude, type EnergyRelease } from '../layers/seismicEnergy';
+import {
+  formatEnergy,
+  formatMoment,
+  formatPercent,
+} from '../../../utils/formatters';
+import { EnergyReleaseChart } from './EnergyReleaseChart';
+
+interface EnergyReleasePanelProps {
+  release: EnergyRelease;
+}
+
+type ShareGrouping = 'magnitude' | 'region';
+
+const SHARE_GROUPINGS: { grouping: ShareGrouping; label: string }[] = [
+  { grouping: 'magnitude', label: 'By magnitude' },
+  { grouping: 'region', label: 'By region' },
+];
+
+function optionClassName(selected: boolean): string {
+  return `
+    px-2 py-1 text-xs rounded-lg transition-colors backdrop-blur-md border disabled:opacity-50
+    ${
+      selected
+        ? 'bg-blue-500/80 text-white font-semibold border-blue-400/30'
+        : 'bg-gray-800/60 hover:bg-gray-700/80 text-gray-200 border-white/10'
+    }
+  `;
+}
+
+export function EnergyReleasePanel({ release }: EnergyReleasePanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [grouping, setGrouping] = useState<ShareGrouping>('magnitude');
+  const shares =
+    grouping === 'magnitude' ? release.byMagnitude : release.byRegion;
+
+  return (
+    <div
+      className="w-64 bg-gray-900/80 backdrop-blur-md px-3 py-2 rounded-lg shadow-lg border border-white/10 text-sm"
+      data-testid="energy-release-panel"
+    >
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        aria-expanded={expanded}
+        className="w-full flex items-center justify-between gap-2 text-left"
+        data-testid="energy-release-toggle"
+      >
+        <span className="font-semibold text-gray-100">Energy release</span>
+        <span className="text-xs text-gray-300" data-testid="total-energy">
+          {formatEnergy(release.totalEnergy)}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="mt-2">
+          <EnergyReleaseChart cumulative={release.cumulative} />
+          <dl className="grid grid-cols-2 gap-1 mt-1 text-xs">
+            <div>
+              <dt className="text-gray-400">Seismic moment</dt>
+              <dd className="text-gray-200" data-testid="total-moment">
+                {formatMoment(release.totalMoment)}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-400">Equivalent Mw</dt>
+              <dd className="text-gray-200" data-testid="equivalent-magnitude">
+                {momentToMagnitude(release.totalMoment).toFixed(1)}
+              </dd>
+            </div>
+          </dl>
+
+          <div
+            className="flex gap-1 mt-2"
+            role="group"
+            aria-label="Energy share grouping"
+          >
+            {SHARE_GROUPINGS.map((option) => (
+              <button
+                key={option.grouping}
+                type="button"
+                onClick={() => setGrouping(option.grouping)}
+                aria-pressed={grouping === option.grouping}
+                className={optionClassName(grouping === option.grouping)}
+                data-testid={`energy-share-${option.grouping}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <ul className="flex flex-col gap-1 mt-2" aria-label="Energy share">
+            {shares.map((share) => (
+              <li
+                key={share.label}
+                className="text-xs"
+                data-testid="energy-share-row"
+              >
+                <div className="flex justify-between gap-2">
+                  <span className="min-w-0 truncate text-gray-200">
+                    {share.label}
+                  </span>
+                  <span className="text-gray-400 tabular-nums">
+                    {formatPercent(share.share * 100)}
+                  </span>
+                </div>
+                <div className="h-1 mt-0.5 rounded bg-gray-700/60">
+                  <div
+                    className="h-1 rounded bg-orange-400"
+                    style={{ width: `${share.share * 100}%` }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
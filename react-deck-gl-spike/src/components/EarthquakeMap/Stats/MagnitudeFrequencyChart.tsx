@@ -0,0 +1,150 @@
+import type { MagnitudeFrequencyAnalysis } from '../../../utils/gutenbergRichter';
+
+interface MagnitudeFrequencyChartProps {
+  analysis: MagnitudeFrequencyAnalysis;
+}
+
+const WIDTH = 240;
+const HEIGHT = 140;
+const MARGIN = { top: 8, right: 8, bottom: 24, left: 32 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+/**
+ * Log-scale cumulative magnitude-frequency plot with the Gutenberg–Richter
+ * fit and the magnitude of completeness.
+ */
+export function MagnitudeFrequencyChart({
+  analysis,
+}: MagnitudeFrequencyChartProps) {
+  const { bins, fit } = analysis;
+  if (bins.length === 0) return null;
+
+  const minMagnitude = Math.floor(bins[0].magnitude);
+  const maxMagnitude = Math.max(
+    Math.ceil(bins[bins.length - 1].magnitude),
+    minMagnitude + 1
+  );
+  const maxDecade = Math.max(1, Math.ceil(Math.log10(bins[0].cumulative)));
+
+  const x = (magnitude: number) =>
+    MARGIN.left +
+    ((magnitude - minMagnitude) / (maxMagnitude - minMagnitude)) * PLOT_WIDTH;
+  const y = (count: number) =>
+    MARGIN.top + PLOT_HEIGHT * (1 - Math.log10(count) / maxDecade);
+
+  const magnitudeTicks = Array.from(
+    { length: maxMagnitude - minMagnitude + 1 },
+    (_, i) => minMagnitude + i
+  );
+  const decadeTicks = Array.from({ length: maxDecade + 1 }, (_, i) => i);
+
+  // Fitted line from Mc until it drops below one event
+  const fitCount = (magnitude: number) =>
+    fit ? 10 ** (fit.aValue - fit.bValue * magnitude) : 1;
+  const fitEnd = fit ? Math.min(maxMagnitude, fit.aValue / fit.bValue) : 0;
+  const fitLine = fit && {
+    x1: x(fit.completeness),
+    y1: y(fitCount(fit.completeness)),
+    x2: x(fitEnd),
+    y2: y(fitCount(fitEnd)),
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full text-gray-400"
+      role="img"
+      aria-label="Cumulative number of earthquakes by magnitude on a log scale"
+      data-testid="magnitude-frequency-chart"
+    >
+      {decadeTicks.map((decade) => (
+        <g key={decade}>
+          <line
+            x1={MARGIN.left}
+            x2={WIDTH - MARGIN.right}
+            y1={y(10 ** decade)}
+            y2={y(10 ** decade)}
+            stroke="currentColor"
+            strokeOpacity={0.15}
+          />
+          <text
+            x={MARGIN.left - 4}
+            y={y(10 ** decade)}
+            textAnchor="end"
+            dominantBaseline="middle"
+            fontSize={8}
+            fill="currentColor"
+          >
+            {10 ** decade}
+          </text>
+        </g>
+      ))}
+      {magnitudeTicks.map((magnitude) => (
+        <text
+          key={magnitude}
+          x={x(magnitude)}
+          y={HEIGHT - MARGIN.bottom + 10}
+          textAnchor="middle"
+          fontSize={8}
+          fill="currentColor"
+        >
+          {magnitude}
+        </text>
+      ))}
+      <text
+        x={MARGIN.left + PLOT_WIDTH / 2}
+        y={HEIGHT - 2}
+        textAnchor="middle"
+        fontSize={8}
+        fill="currentColor"
+      >
+        Magnitude
+      </text>
+
+      {fit && (
+        <line
+          x1={x(fit.completeness)}
+          x2={x(fit.completeness)}
+          y1={MARGIN.top}
+          y2={MARGIN.top + PLOT_HEIGHT}
+          stroke="#facc15"
+          strokeDasharray="3 2"
+          data-testid="completeness-marker"
+        />
+      )}
+      {fitLine && (
+        <line
+          {...fitLine}
+          stroke="#f87171"
+          strokeWidth={1.5}
+          data-testid="gutenberg-richter-fit"
+        />
+      )}
+
+      {bins
+        .filter((bin) => bin.count > 0)
+        .map((bin) => (
+          <rect
+            key={`count-${bin.magnitude}`}
+            x={x(bin.magnitude) - 1.5}
+            y={y(bin.count) - 1.5}
+            width={3}
+            height={3}
+            fill="currentColor"
+            fillOpacity={0.6}
+          />
+        ))}
+      {bins.map((bin) => (
+        <circle
+          key={`cumulative-${bin.magnitude}`}
+          cx={x(bin.magnitude)}
+          cy={y(bin.cumulative)}
+          r={2}
+          fill="#60a5fa"
+          data-testid="cumulative-point"
+        />
+      ))}
+    </svg>
+  );
+}
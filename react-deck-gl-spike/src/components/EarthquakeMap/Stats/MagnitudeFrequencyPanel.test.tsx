@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MagnitudeFrequencyPanel } from './MagnitudeFrequencyPanel';
+import type { MagnitudeFrequencyAnalysis } from '../../../utils/gutenbergRichter';
+
+describe('MagnitudeFrequencyPanel', () => {
+  const bins = [
+    { magnitude: 2.0, count: 600, cumulative: 1000 },
+    { magnitude: 2.5, count: 300, cumulative: 400 },
+    { magnitude: 3.0, count: 80, cumulative: 100 },
+    { magnitude: 3.5, count: 0, cumulative: 20 },
+    { magnitude: 4.0, count: 20, cumulative: 20 },
+  ];
+  const analysis: MagnitudeFrequencyAnalysis = {
+    bins,
+    fit: {
+      completeness: 2.2,
+      bValue: 0.98,
+      bUncertainty: 0.04,
+      aValue: 5.1,
+      sampleSize: 640,
+    },
+  };
+
+  it('shows the b-value with its uncertainty', () => {
+    render(<MagnitudeFrequencyPanel analysis={analysis} />);
+
+    expect(screen.getByTestId('b-value')).toHaveTextContent('b = 0.98 ± 0.04');
+  });
+
+  it('starts collapsed', () => {
+    render(<MagnitudeFrequencyPanel analysis={analysis} />);
+
+    expect(screen.getByTestId('magnitude-frequency-toggle')).toHaveAttribute(
+      'aria-expanded',
+      'false'
+    );
+    expect(
+      screen.queryByTestId('magnitude-frequency-chart')
+    ).not.toBeInTheDocument();
+  });
+
+  it('expands to the chart and fit details', () => {
+    render(<MagnitudeFrequencyPanel analysis={analysis} />);
+
+    fireEvent.click(screen.getByTestId('magnitude-frequency-toggle'));
+
+    expect(screen.getByTestId('magnitude-frequency-chart')).toBeInTheDocument();
+    expect(screen.getByTestId('completeness')).toHaveTextContent('2.2');
+    expect(screen.getByTestId('sample-size')).toHaveTextContent('640');
+  });
+
+  it('plots one cumulative point per bin with the fit and Mc marker', () => {
+    render(<MagnitudeFrequencyPanel analysis={analysis} />);
+    fireEvent.click(screen.getByTestId('magnitude-frequency-toggle'));
+
+    expect(screen.getAllByTestId('cumulative-point')).toHaveLength(bins.length);
+    expect(screen.getByTestId('gutenberg-richter-fit')).toBeInTheDocument();
+    expect(screen.getByTestId('completeness-marker')).toBeInTheDocument();
+  });
+
+  it('explains when there are too few events for a fit', () => {
+    render(<MagnitudeFrequencyPanel analysis={{ bins, fit: null }} />);
+
+    expect(screen.getByTestId('b-value')).toHaveTextContent('b = –');
+    fireEvent.click(screen.getByTestId('magnitude-frequency-toggle'));
+    expect(screen.getByTestId('b-value-unavailable')).toBeInTheDocument();
+    expect(
+      screen.queryByTestId('gutenberg-richter-fit')
+    ).not.toBeInTheDocument();
+  });
+});
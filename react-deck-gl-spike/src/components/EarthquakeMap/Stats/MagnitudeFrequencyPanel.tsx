@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import {
+  MIN_FIT_EVENTS,
+  type MagnitudeFrequencyAnalysis,
+} from '../../../utils/gutenbergRichter';
+import { MagnitudeFrequencyChart } from './MagnitudeFrequencyChart';
+
+interface MagnitudeFrequencyPanelProps {
+  analysis: MagnitudeFrequencyAnalysis;
+}
+
+export function MagnitudeFrequencyPanel({
+  analysis,
+}: MagnitudeFrequencyPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const { fit } = analysis;
+
+  return (
+    <div
+      className="w-64 bg-gray-900/80 backdrop-blur-md px-3 py-2 rounded-lg shadow-lg border border-white/10 text-sm"
+      data-testid="magnitude-frequency-panel"
+    >
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        aria-expanded={expanded}
+        className="w-full flex items-center justify-between gap-2 text-left"
+        data-testid="magnitude-frequency-toggle"
+      >
+        <span className="font-semibold text-gray-100">Gutenberg–Richter</span>
+        <span className="text-xs text-gray-300" data-testid="b-value">
+          {fit
+            ? `b = ${fit.bValue.toFixed(2)} ± ${fit.bUncertainty.toFixed(2)}`
+            : 'b = –'}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="mt-2">
+          <MagnitudeFrequencyChart analysis={analysis} />
+          {fit ? (
+            <dl className="grid grid-cols-3 gap-1 mt-1 text-xs">
+              <div>
+                <dt className="text-gray-400">Mc</dt>
+                <dd className="text-gray-200" data-testid="completeness">
+                  {fit.completeness.toFixed(1)}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-400">a-value</dt>
+                <dd className="text-gray-200">{fit.aValue.toFixed(2)}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-400">N ≥ Mc</dt>
+                <dd className="text-gray-200" data-testid="sample-size">
+                  {fit.sampleSize.toLocaleString()}
+                </dd>
+              </div>
+            </dl>
+          ) : (
+            <p
+              className="mt-1 text-xs text-gray-400"
+              data-testid="b-value-unavailable"
+            >
+              Needs at least {MIN_FIT_EVENTS} events above the magnitude of
+              completeness
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
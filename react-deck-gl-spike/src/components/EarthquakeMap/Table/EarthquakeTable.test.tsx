@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { EarthquakeTable } from './EarthquakeTable';
+import { createEarthquake } from '../../../test/earthquakeFixture';
+
+const earthquakes = [
+  createEarthquake('small', {
+    magnitude: 2.1,
+    timestamp: '2024-01-03T00:00:00Z',
+    location: '5 km NW of The Geysers, CA',
+  }),
+  createEarthquake('big', {
+    magnitude: 7.3,
+    timestamp: '2024-01-01T00:00:00Z',
+    location: '80 km S of Nikolski, Alaska',
+    longitude: 1,
+  }),
+];
+
+function rowIds() {
+  return screen
+    .getAllByRole('row')
+    .slice(1)
+    .map((row) => row.getAttribute('data-testid'));
+}
+
+describe('EarthquakeTable', () => {
+  it('lists events newest first', () => {
+    render(
+      <EarthquakeTable
+        earthquakes={earthquakes}
+        center={[0, 0]}
+        onSelect={vi.fn()}
+      />
+    );
+
+    expect(rowIds()).toEqual(['earthquake-row-small', 'earthquake-row-big']);
+    const row = screen.getByTestId('earthquake-row-big');
+    expect(within(row).getAllByRole('cell')[1]).toHaveTextContent('7.3');
+    expect(within(row).getAllByRole('cell')[4]).toHaveTextContent('111 km');
+  });
+
+  it('sorts by magnitude, largest first, and toggles direction', () => {
+    render(
+      <EarthquakeTable
+        earthquakes={earthquakes}
+        center={[0, 0]}
+        onSelect={vi.fn()}
+      />
+    );
+
+    fireEvent.click(screen.getByTestId('earthquake-table-sort-magnitude'));
+    expect(rowIds()[0]).toBe('earthquake-row-big');
+    expect(
+      screen.getByTestId('earthquake-table-sort-magnitude').parentElement
+    ).toHaveAttribute('aria-sort', 'descending');
+
+    fireEvent.click(screen.getByTestId('earthquake-table-sort-magnitude'));
+    expect(rowIds()[0]).toBe('earthquake-row-small');
+  });
+
+  it('searches locations', () => {
+    render(
+      <EarthquakeTable
+        earthquakes={earthquakes}
+        center={[0, 0]}
+        onSelect={vi.fn()}
+      />
+    );
+
+    fireEvent.change(screen.getByTestId('earthquake-table-search'), {
+      target: { value: 'alaska' },
+    });
+    expect(rowIds()).toEqual(['earthquake-row-big']);
+
+    fireEvent.change(screen.getByTestId('earthquake-table-search'), {
+      target: { value: 'tokyo' },
+    });
+    expect(screen.getByTestId('earthquake-table-empty')).toBeInTheDocument();
+  });
+
+  it('selects an event by clicking its row', () => {
+    const onSelect = vi.fn();
+    render(
+      <EarthquakeTable
+        earthquakes={earthquakes}
+        center={[0, 0]}
+        selectedId="small"
+        onSelect={onSelect}
+      />
+    );
+
+    fireEvent.click(screen.getByTestId('earthquake-row-big'));
+
+    expect(onSelect).toHaveBeenCalledWith(earthquakes[1]);
+    expect(screen.getByTestId('earthquake-row-small')).toHaveAttribute(
+      'aria-selected',
+      'true'
+    );
+  });
+
+  describe('virtualization', () => {
+    const many = Array.from({ length: 10_000 }, (_, i) =>
+      createEarthquake(`eq-${i}`, {
+        timestamp: new Date(Date.UTC(2024, 0, 1) - i * 60_000).toISOString(),
+      })
+    );
+
+    it('renders only the rows in view', () => {
+      render(
+        <EarthquakeTable
+          earthquakes={many}
+          center={[0, 0]}
+          onSelect={vi.fn()}
+        />
+      );
+
+      expect(screen.getAllByRole('row').length).toBeLessThan(30);
+      expect(screen.getByRole('table')).toHaveAttribute(
+        'aria-rowcount',
+        '10001'
+      );
+      expect(screen.getByTestId('earthquake-row-eq-0')).toBeInTheDocument();
+    });
+
+    it('renders further rows as the list scrolls', () => {
+      render(
+        <EarthquakeTable
+          earthquakes={many}
+          center={[0, 0]}
+          onSelect={vi.fn()}
+        />
+      );
+      const body = screen.getByTestId('earthquake-table-body');
+
+      body.scrollTop = 28 * 5000;
+      fireEvent.scroll(body);
+
+      expect(screen.getByTestId('earthquake-row-eq-5000')).toHaveStyle({
+        top: `${28 * 5000}px`,
+      });
+      expect(
+        screen.queryByTestId('earthquake-row-eq-0')
+      ).not.toBeInTheDocument();
+    });
+
+    it('scrolls the row of the event hovered on the map into view', () => {
+      const { rerender } = render(
+        <EarthquakeTable
+          earthquakes={many}
+          center={[0, 0]}
+          onSelect={vi.fn()}
+        />
+      );
+
+      rerender(
+        <EarthquakeTable
+          earthquakes={many}
+          center={[0, 0]}
+          hoveredId="eq-2000"
+          onSelect={vi.fn()}
+        />
+      );
+
+      // The row ends at the bottom of the 280px list
+      expect(screen.getByTestId('earthquake-table-body').scrollTop).toBe(
+        28 * 2001 - 280
+      );
+    });
+  });
+});
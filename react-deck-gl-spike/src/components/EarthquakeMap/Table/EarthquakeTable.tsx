@@ -0,0 +1,246 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { Earthquake } from '../../../types/earthquake';
+import type { LngLat } from '../../../types/spatialSelection';
+import {
+  DEFAULT_TABLE_SORT,
+  EARTHQUAKE_TABLE_COLUMNS,
+  type EarthquakeTableColumnInfo,
+  type EarthquakeTableSort,
+} from '../../../types/earthquakeTable';
+import {
+  buildTableRows,
+  getScrollTopForRow,
+  getVisibleRange,
+  searchRows,
+  sortRows,
+} from '../../../utils/earthquakeTable';
+import { formatMagnitude } from '../../../utils/formatters';
+
+interface EarthquakeTableProps {
+  earthquakes: Earthquake[];
+  /** Map center that distances are measured from */
+  center: LngLat;
+  selectedId?: string | null;
+  /** Event hovered on the map; its row is scrolled into view */
+  hoveredId?: string | null;
+  onSelect: (earthquake: Earthquake) => void;
+}
+
+// Rows have a fixed height so only those in view need rendering
+const ROW_HEIGHT = 28; // pixels
+const LIST_HEIGHT = 280; // pixels
+
+const GRID_COLUMNS = 'grid grid-cols-[6.5rem_2.5rem_3.5rem_1fr_3.75rem] gap-2';
+
+function formatRowTime(time: number): string {
+  return new Date(time).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+}
+
+function formatDistance(km: number): string {
+  return km < 10 ? `${km.toFixed(1)} km` : `${Math.round(km)} km`;
+}
+
+function getAriaSort(
+  { column }: EarthquakeTableColumnInfo,
+  sort: EarthquakeTableSort
+) {
+  if (sort.column !== column) return 'none';
+  return sort.direction === 'asc' ? 'ascending' : 'descending';
+}
+
+/**
+ * Virtualized, sortable list of events with a location search.
+ */
+export function EarthquakeTable({
+  earthquakes,
+  center,
+  selectedId = null,
+  hoveredId = null,
+  onSelect,
+}: EarthquakeTableProps) {
+  const [sort, setSort] = useState<EarthquakeTableSort>(DEFAULT_TABLE_SORT);
+  const [query, setQuery] = useState('');
+  const [scrollTop, setScrollTop] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const rows = useMemo(
+    () =>
+      sortRows(searchRows(buildTableRows(earthquakes, center), query), sort),
+    [earthquakes, center, query, sort]
+  );
+  const { start, end } = getVisibleRange(
+    scrollTop,
+    LIST_HEIGHT,
+    ROW_HEIGHT,
+    rows.length
+  );
+
+  // Follow the map: bring the hovered event's row into view
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list || hoveredId === null) return;
+
+    const index = rows.findIndex((row) => row.earthquake.id === hoveredId);
+    if (index === -1) return;
+
+    const target = getScrollTopForRow(
+      index,
+      list.scrollTop,
+      LIST_HEIGHT,
+      ROW_HEIGHT
+    );
+    if (target !== null) list.scrollTop = target;
+  }, [hoveredId, rows]);
+
+  const handleSort = (info: EarthquakeTableColumnInfo) => {
+    setSort((current) =>
+      current.column === info.column
+        ? {
+            column: info.column,
+            direction: current.direction === 'asc' ? 'desc' : 'asc',
+          }
+        : { column: info.column, direction: info.defaultDirection }
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search locations"
+        aria-label="Search event locations"
+        className="px-2 py-1 bg-gray-800/60 border border-gray-600 rounded text-sm text-gray-100 focus:ring-2 focus:ring-blue-500 focus:outline-none focus:border-blue-500"
+        data-testid="earthquake-table-search"
+      />
+
+      <div
+        role="table"
+        aria-label="Earthquakes"
+        aria-rowcount={rows.length + 1}
+        className="text-xs"
+      >
+        <div role="rowgroup">
+          <div
+            role="row"
+            aria-rowindex={1}
+            className={`${GRID_COLUMNS} px-2 pb-1 border-b border-white/10`}
+          >
+            {EARTHQUAKE_TABLE_COLUMNS.map((info) => (
+              <div
+                key={info.column}
+                role="columnheader"
+                aria-sort={getAriaSort(info, sort)}
+              >
+                <button
+                  type="button"
+                  onClick={() => handleSort(info)}
+                  className={`font-semibold hover:text-gray-100 ${
+                    sort.column === info.column
+                      ? 'text-gray-100'
+                      : 'text-gray-400'
+                  }`}
+                  data-testid={`earthquake-table-sort-${info.column}`}
+                >
+                  {info.label}
+                  {sort.column === info.column &&
+                    (sort.direction === 'asc' ? ' ▲' : ' ▼')}
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div
+          ref={listRef}
+          role="rowgroup"
+          className="overflow-y-auto"
+          style={{ height: LIST_HEIGHT }}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+          data-testid="earthquake-table-body"
+        >
+          <div
+            className="relative"
+            style={{ height: rows.length * ROW_HEIGHT }}
+          >
+            {rows
+              .slice(start, end)
+              .map(({ earthquake, time, distanceKm }, i) => {
+                const index = start + i;
+                const selected = earthquake.id === selectedId;
+                const hovered = earthquake.id === hoveredId;
+
+                return (
+                  <div
+                    key={earthquake.id}
+                    role="row"
+                    aria-rowindex={index + 2}
+                    aria-selected={selected}
+                    tabIndex={0}
+                    onClick={() => onSelect(earthquake)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' || e.key === ' ') {
+                        e.preventDefault();
+                        onSelect(earthquake);
+                      }
+                    }}
+                    className={`${GRID_COLUMNS} absolute inset-x-0 items-center px-2 rounded cursor-pointer transition-colors ${
+                      selected
+                        ? 'bg-blue-500/30'
+                        : hovered
+                          ? 'bg-cyan-500/20'
+                          : 'hover:bg-gray-700/60'
+                    }`}
+                    style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
+                    data-testid={`earthquake-row-${earthquake.id}`}
+                    data-hovered={hovered}
+                  >
+                    <span role="cell" className="text-gray-300 tabular-nums">
+                      {formatRowTime(time)}
+                    </span>
+                    <span
+                      role="cell"
+                      className="font-semibold text-gray-100 tabular-nums"
+                    >
+                      {formatMagnitude(earthquake.magnitude).value}
+                    </span>
+                    <span role="cell" className="text-gray-300 tabular-nums">
+                      {Math.round(earthquake.depth)} km
+                    </span>
+                    <span
+                      role="cell"
+                      className="min-w-0 truncate text-gray-200"
+                    >
+                      {earthquake.location}
+                    </span>
+                    <span
+                      role="cell"
+                      className="text-right text-gray-400 tabular-nums"
+                    >
+                      {formatDistance(distanceKm)}
+                    </span>
+                  </div>
+                );
+              })}
+          </div>
+        </div>
+      </div>
+
+      {rows.length === 0 && (
+        <span
+          className="text-xs text-gray-400"
+          data-testid="earthquake-table-empty"
+        >
+          No events match
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { EarthquakeTablePanel } from './EarthquakeTablePanel';
+import type { Earthquake } from '../../../types/earthquake';
+
+const earthquake: Earthquake = {
+  id: 'us1',
+  longitude: 142.4,
+  latitude: 38.3,
+  depth: 24,
+  magnitude: 6.1,
+  timestamp: '2024-01-01T00:00:00Z',
+  location: 'Off the east coast of Honshu, Japan',
+};
+
+describe('EarthquakeTablePanel', () => {
+  it('starts collapsed with the event count', () => {
+    render(
+      <EarthquakeTablePanel
+        earthquakes={[earthquake]}
+        center={[0, 0]}
+        onSelect={vi.fn()}
+      />
+    );
+
+    expect(screen.getByTestId('earthquake-table-toggle')).toHaveAttribute(
+      'aria-expanded',
+      'false'
+    );
+    expect(screen.getByTestId('earthquake-table-toggle')).toHaveTextContent(
+      '1 event'
+    );
+    expect(screen.queryByRole('table')).not.toBeInTheDocument();
+  });
+
+  it('expands to the table', () => {
+    const onSelect = vi.fn();
+    render(
+      <EarthquakeTablePanel
+        earthquakes={[earthquake]}
+        center={[0, 0]}
+        onSelect={onSelect}
+      />
+    );
+
+    fireEvent.click(screen.getByTestId('earthquake-table-toggle'));
+    fireEvent.click(screen.getByTestId('earthquake-row-us1'));
+
+    expect(screen.getByRole('table')).toBeInTheDocument();
+    expect(onSelect).toHaveBeenCalledWith(earthquake);
+  });
+});
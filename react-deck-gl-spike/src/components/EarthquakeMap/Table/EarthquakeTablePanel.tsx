@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import type { Earthquake } from '../../../types/earthquake';
+import type { LngLat } from '../../../types/spatialSelection';
+import { EarthquakeTable } from './EarthquakeTable';
+
+interface EarthquakeTablePanelProps {
+  earthquakes: Earthquake[];
+  center: LngLat;
+  selectedId?: string | null;
+  hoveredId?: string | null;
+  onSelect: (earthquake: Earthquake) => void;
+}
+
+export function EarthquakeTablePanel({
+  earthquakes,
+  center,
+  selectedId = null,
+  hoveredId = null,
+  onSelect,
+}: EarthquakeTablePanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div
+      className="w-96 flex flex-col gap-2 p-3 bg-gray-900/80 backdrop-blur-md rounded-lg shadow-lg border border-white/10"
+      data-testid="earthquake-table-panel"
+    >
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        aria-expanded={expanded}
+        className="w-full flex items-center justify-between gap-2 text-left"
+        data-testid="earthquake-table-toggle"
+      >
+        <span className="text-sm font-semibold text-gray-100">Event List</span>
+        <span className="text-xs text-gray-300">
+          {earthquakes.length.toLocaleString()}{' '}
+          {earthquakes.length === 1 ? 'event' : 'events'}
+        </span>
+      </button>
+
+      {expanded && (
+        <EarthquakeTable
+          earthquakes={earthquakes}
+          center={center}
+          selectedId={selectedId}
+          hoveredId={hoveredId}
+          onSelect={onSelect}
+        />
+      )}
+    </div>
+  );
+}
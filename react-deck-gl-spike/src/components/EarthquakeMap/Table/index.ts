@@ -0,0 +1 @@
+export { EarthquakeTablePanel } from './EarthquakeTablePanel';
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { BoundaryTooltip } from './BoundaryTooltip';
+
+describe('BoundaryTooltip', () => {
+  it('names a plate boundary with its type and plates', () => {
+    render(
+      <BoundaryTooltip
+        properties={{
+          name: 'Japan Trench',
+          type: 'convergent',
+          plates: 'Pacific / Okhotsk',
+        }}
+        x={100}
+        y={200}
+      />
+    );
+
+    const tooltip = screen.getByRole('tooltip');
+    expect(tooltip).toHaveTextContent('Japan Trench');
+    expect(tooltip).toHaveTextContent(
+      'Convergent boundary · Pacific / Okhotsk'
+    );
+    expect(tooltip).toHaveStyle({ left: '115px', top: '190px' });
+  });
+
+  it('names a fault', () => {
+    render(
+      <BoundaryTooltip properties={{ name: 'Hayward Fault' }} x={0} y={0} />
+    );
+
+    expect(screen.getByRole('tooltip')).toHaveTextContent(
+      'Hayward FaultMajor fault'
+    );
+  });
+
+  it('renders nothing without a hovered line', () => {
+    const { container } = render(
+      <BoundaryTooltip properties={null} x={0} y={0} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,40 @@
+import {
+  PLATE_BOUNDARY_TYPES,
+  type FaultProperties,
+  type PlateBoundaryProperties,
+} from '../../../types/tectonics';
+
+interface BoundaryTooltipProps {
+  /** Hovered plate boundary or fault, or null when none is */
+  properties: PlateBoundaryProperties | FaultProperties | null;
+  x: number;
+  y: number;
+}
+
+function describe(properties: PlateBoundaryProperties | FaultProperties) {
+  if (!('type' in properties)) return 'Major fault';
+
+  const { label } = PLATE_BOUNDARY_TYPES.find(
+    (info) => info.type === properties.type
+  )!;
+  return `${label} boundary · ${properties.plates}`;
+}
+
+/**
+ * Names the plate boundary or fault under the cursor.
+ */
+export function BoundaryTooltip({ properties, x, y }: BoundaryTooltipProps) {
+  if (!properties) return null;
+
+  return (
+    <div
+      role="tooltip"
+      className="absolute pointer-events-none z-50 bg-gray-900/90 backdrop-blur-md px-3 py-2 rounded-lg shadow-lg border border-white/10 max-w-[300px]"
+      style={{ left: x + 15, top: y - 10 }}
+      data-testid="boundary-tooltip"
+    >
+      <div className="text-sm font-medium text-gray-100">{properties.name}</div>
+      <div className="text-xs text-gray-400">{describe(properties)}</div>
+    </div>
+  );
+}
@@ -46,6 +46,23 @@ describe('EarthquakeTooltip', () => {
     expect(screen.getByText('M6.8')).toBeInTheDocument();
   });
 
+  it('shows the nearest plate boundary', () => {
+    render(
+      <EarthquakeTooltip
+        earthquake={mockEarthquake}
+        x={100}
+        y={200}
+        nearestBoundary={{
+          name: 'San Andreas Fault',
+          type: 'transform',
+          distanceKm: 42,
+        }}
+      />
+    );
+
+    expect(screen.getByTestId('boundary-info')).toHaveTextContent('40 km');
+  });
+
   it('positions at correct x, y coordinates with offset', () => {
     render(<EarthquakeTooltip earthquake={mockEarthquake} x={100} y={200} />);
 
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import type { Earthquake } from '../../../types/earthquake';
+import type { NearestBoundary } from '../../../types/tectonics';
 import { TooltipContent } from './TooltipContent';
 import {
   formatMagnitude,
@@ -12,6 +13,8 @@ interface TooltipProps {
   x: number;
   y: number;
   visible?: boolean;
+  /** Closest plate boundary to the hovered event */
+  nearestBoundary?: NearestBoundary | null;
 }
 
 // Transition duration in milliseconds
@@ -22,11 +25,14 @@ export function EarthquakeTooltip({
   x,
   y,
   visible = true,
+  nearestBoundary = null,
 }: TooltipProps) {
   // Track visibility for fade animation
   const [isVisible, setIsVisible] = useState(false);
   // Keep earthquake data during fade-out animation
   const [displayData, setDisplayData] = useState<Earthquake | null>(null);
+  const [displayBoundary, setDisplayBoundary] =
+    useState<NearestBoundary | null>(null);
   // Keep position stable during fade-out
   const [position, setPosition] = useState({ x: 0, y: 0 });
 
@@ -35,6 +41,7 @@ export function EarthquakeTooltip({
       // Show immediately with new data
       // eslint-disable-next-line react-hooks/set-state-in-effect
       setDisplayData(earthquake);
+      setDisplayBoundary(nearestBoundary);
       setPosition({ x, y });
       setIsVisible(true);
     } else {
@@ -46,7 +53,7 @@ export function EarthquakeTooltip({
       }, TRANSITION_DURATION_MS);
       return () => clearTimeout(timer);
     }
-  }, [earthquake, x, y, visible]);
+  }, [earthquake, nearestBoundary, x, y, visible]);
 
   // Don't render if no data to display
   if (!displayData) return null;
@@ -82,7 +89,10 @@ export function EarthquakeTooltip({
         {displayData.location}. Depth: {depth.value}. Occurred on{' '}
         {dateTime.date} at {dateTime.time}.
       </span>
-      <TooltipContent earthquake={displayData} />
+      <TooltipContent
+        earthquake={displayData}
+        nearestBoundary={displayBoundary}
+      />
     </div>
   );
 }
@@ -159,6 +159,46 @@ describe('TooltipContent', () => {
     expect(coordinates).toHaveTextContent('151.209°E');
   });
 
+  it('renders the distance to the nearest plate boundary', () => {
+    render(
+      <TooltipContent
+        earthquake={mockEarthquake}
+        nearestBoundary={{
+          name: 'San Andreas Fault',
+          type: 'transform',
+          distanceKm: 4.26,
+        }}
+      />
+    );
+
+    const info = screen.getByTestId('boundary-info');
+    expect(info).toHaveTextContent('<10 km');
+    expect(info).toHaveTextContent('San Andreas Fault (transform)');
+  });
+
+  it('rounds the boundary distance and states the line precision', () => {
+    render(
+      <TooltipContent
+        earthquake={mockEarthquake}
+        nearestBoundary={{
+          name: 'Japan Trench',
+          type: 'convergent',
+          distanceKm: 137.8,
+        }}
+      />
+    );
+
+    const info = screen.getByTestId('boundary-info');
+    expect(info).toHaveTextContent('140 km');
+    expect(info).toHaveTextContent('±100 km');
+  });
+
+  it('omits the plate boundary without one', () => {
+    render(<TooltipContent earthquake={mockEarthquake} />);
+
+    expect(screen.queryByTestId('boundary-info')).not.toBeInTheDocument();
+  });
+
   it('has tooltip-content data-testid', () => {
     render(<TooltipContent earthquake={mockEarthquake} />);
 
@@ -1,4 +1,6 @@
 import type { Earthquake } from '../../../types/earthquake';
+import type { NearestBoundary } from '../../../types/tectonics';
+import { TECTONIC_LINE_ERROR_KM } from '../../../data/tectonics';
 import {
   formatMagnitude,
   formatDepth,
@@ -9,6 +11,8 @@ import { depthToColorMultiStop } from '../layers/depthColorScale';
 
 interface TooltipContentProps {
   earthquake: Earthquake;
+  /** Closest plate boundary, when boundaries are known */
+  nearestBoundary?: NearestBoundary | null;
 }
 
 function getDepthColorCSS(depth: number): string {
@@ -16,7 +20,15 @@ function getDepthColorCSS(depth: number): string {
   return `rgb(${r}, ${g}, ${b})`;
 }
 
-export function TooltipContent({ earthquake }: TooltipContentProps) {
+// Tens of km at best; the lines themselves are far coarser than that
+function formatDistance(km: number): string {
+  return km < 10 ? '<10 km' : `${Math.round(km / 10) * 10} km`;
+}
+
+export function TooltipContent({
+  earthquake,
+  nearestBoundary = null,
+}: TooltipContentProps) {
   const magnitude = formatMagnitude(earthquake.magnitude);
   const depth = formatDepth(earthquake.depth);
   const dateTime = formatDateTime(earthquake.timestamp);
@@ -85,6 +97,21 @@ export function TooltipContent({ earthquake }: TooltipContentProps) {
             </span>
           )}
         </div>
+
+        {nearestBoundary && (
+          <div className="col-span-2" data-testid="boundary-info">
+            <span className="text-gray-400">Plate boundary:</span>
+            <span className="ml-1 font-medium text-gray-200">
+              {formatDistance(nearestBoundary.distanceKm)}
+            </span>
+            <span className="ml-1 text-xs text-gray-500">
+              ±{TECTONIC_LINE_ERROR_KM} km
+            </span>
+            <span className="block text-xs text-gray-500">
+              {nearestBoundary.name} ({nearestBoundary.type})
+            </span>
+          </div>
+        )}
       </div>
     </div>
   );
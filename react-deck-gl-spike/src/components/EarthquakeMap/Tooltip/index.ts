@@ -1,2 +1,3 @@
 export { EarthquakeTooltip } from './EarthquakeTooltip';
 export { TooltipContent } from './TooltipContent';
+export { BoundaryTooltip } from './BoundaryTooltip';
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { DepthViewControls } from './DepthViewControls';
+
+describe('DepthViewControls', () => {
+  const handlers = {
+    onEnabledChange: vi.fn(),
+    onExaggerationChange: vi.fn(),
+    onPitchChange: vi.fn(),
+    onBearingChange: vi.fn(),
+  };
+
+  const renderControls = (enabled: boolean) =>
+    render(
+      <DepthViewControls
+        enabled={enabled}
+        verticalExaggeration={5}
+        pitch={50}
+        bearing={30}
+        {...handlers}
+      />
+    );
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('toggles the depth view', () => {
+    renderControls(false);
+
+    expect(screen.getByRole('switch')).toHaveAttribute('aria-checked', 'false');
+    fireEvent.click(screen.getByRole('switch'));
+
+    expect(handlers.onEnabledChange).toHaveBeenCalledWith(true);
+  });
+
+  it('hides camera controls while disabled', () => {
+    renderControls(false);
+
+    expect(
+      screen.queryByTestId('vertical-exaggeration-5')
+    ).not.toBeInTheDocument();
+    expect(screen.queryByTestId('depth-view-pitch')).not.toBeInTheDocument();
+  });
+
+  it('selects a vertical exaggeration', () => {
+    renderControls(true);
+
+    expect(screen.getByTestId('vertical-exaggeration-5')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    fireEvent.click(screen.getByTestId('vertical-exaggeration-20'));
+
+    expect(handlers.onExaggerationChange).toHaveBeenCalledWith(20);
+  });
+
+  it('changes the camera tilt', () => {
+    renderControls(true);
+
+    fireEvent.change(screen.getByTestId('depth-view-pitch'), {
+      target: { value: '35' },
+    });
+
+    expect(handlers.onPitchChange).toHaveBeenCalledWith(35);
+  });
+
+  it('rotates the camera in steps', () => {
+    renderControls(true);
+
+    fireEvent.click(screen.getByTestId('depth-view-rotate-left'));
+    fireEvent.click(screen.getByTestId('depth-view-rotate-right'));
+
+    expect(handlers.onBearingChange).toHaveBeenNthCalledWith(1, 15);
+    expect(handlers.onBearingChange).toHaveBeenNthCalledWith(2, 45);
+  });
+
+  it('faces north', () => {
+    renderControls(true);
+
+    fireEvent.click(screen.getByTestId('depth-view-north'));
+
+    expect(handlers.onBearingChange).toHaveBeenCalledWith(0);
+  });
+});
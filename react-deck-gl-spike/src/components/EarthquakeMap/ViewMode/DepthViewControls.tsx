@@ -0,0 +1,148 @@
+import {
+  MAX_DEPTH_VIEW_PITCH,
+  VERTICAL_EXAGGERATIONS,
+} from '../../../types/earthquakeView';
+
+interface DepthViewControlsProps {
+  enabled: boolean;
+  verticalExaggeration: number;
+  pitch: number;
+  bearing: number;
+  onEnabledChange: (enabled: boolean) => void;
+  onExaggerationChange: (verticalExaggeration: number) => void;
+  onPitchChange: (pitch: number) => void;
+  onBearingChange: (bearing: number) => void;
+}
+
+// Degrees turned per rotate button press
+const ROTATE_STEP = 15;
+
+function optionClassName(selected: boolean): string {
+  return `
+    px-2 py-1 text-xs rounded-lg transition-colors backdrop-blur-md border
+    ${
+      selected
+        ? 'bg-blue-500/80 text-white font-semibold border-blue-400/30'
+        : 'bg-gray-800/60 hover:bg-gray-700/80 text-gray-200 border-white/10'
+    }
+  `;
+}
+
+const buttonClassName =
+  'w-8 h-8 bg-gray-800/60 hover:bg-gray-700/80 rounded-lg border border-white/10 flex items-center justify-center text-sm text-gray-100';
+
+export function DepthViewControls({
+  enabled,
+  verticalExaggeration,
+  pitch,
+  bearing,
+  onEnabledChange,
+  onExaggerationChange,
+  onPitchChange,
+  onBearingChange,
+}: DepthViewControlsProps) {
+  return (
+    <div
+      className="flex flex-col gap-2 p-3 bg-gray-900/80 backdrop-blur-md rounded-lg shadow-lg border border-white/10"
+      data-testid="depth-view-controls"
+    >
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-100">3D Depth</h3>
+          <p className="text-gray-400 text-xs mt-1">
+            Hypocenters below the surface
+          </p>
+        </div>
+
+        <button
+          onClick={() => onEnabledChange(!enabled)}
+          className={`relative w-12 h-6 rounded-full transition-colors ${
+            enabled ? 'bg-blue-500' : 'bg-gray-600'
+          }`}
+          role="switch"
+          aria-checked={enabled}
+          aria-label="Toggle 3D depth view"
+        >
+          <span
+            className={`absolute left-0 top-1 w-4 h-4 bg-white rounded-full transition-transform ${
+              enabled ? 'translate-x-7' : 'translate-x-1'
+            }`}
+          />
+        </button>
+      </div>
+
+      {enabled && (
+        <>
+          <div
+            className="flex items-center gap-1"
+            role="group"
+            aria-label="Vertical exaggeration"
+          >
+            <span className="text-xs text-gray-400 mr-1">Exaggeration</span>
+            {VERTICAL_EXAGGERATIONS.map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => onExaggerationChange(value)}
+                aria-pressed={verticalExaggeration === value}
+                className={optionClassName(verticalExaggeration === value)}
+                data-testid={`vertical-exaggeration-${value}`}
+              >
+                {value}×
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            Tilt
+            <input
+              type="range"
+              min={0}
+              max={MAX_DEPTH_VIEW_PITCH}
+              step={1}
+              value={pitch}
+              onChange={(e) => onPitchChange(Number(e.target.value))}
+              className="flex-1"
+              aria-label="Camera tilt"
+              data-testid="depth-view-pitch"
+            />
+            <span className="w-8 text-right text-gray-200">
+              {Math.round(pitch)}°
+            </span>
+          </label>
+
+          <div className="flex items-center gap-1">
+            <span className="text-xs text-gray-400 mr-1">Rotate</span>
+            <button
+              type="button"
+              onClick={() => onBearingChange(bearing - ROTATE_STEP)}
+              className={buttonClassName}
+              aria-label="Rotate left"
+              data-testid="depth-view-rotate-left"
+            >
+              ↺
+            </button>
+            <button
+              type="button"
+              onClick={() => onBearingChange(bearing + ROTATE_STEP)}
+              className={buttonClassName}
+              aria-label="Rotate right"
+              data-testid="depth-view-rotate-right"
+            >
+              ↻
+            </button>
+            <button
+              type="button"
+              onClick={() => onBearingChange(0)}
+              className={buttonClassName}
+              aria-label="Face north"
+              data-testid="depth-view-north"
+            >
+              N
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { PointStyleSelector } from './PointStyleSelector';
+
+describe('PointStyleSelector', () => {
+  const handlers = {
+    onColorModeChange: vi.fn(),
+    onSizeModeChange: vi.fn(),
+  };
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('marks the selected color and size modes as pressed', () => {
+    render(
+      <PointStyleSelector colorMode="alert" sizeMode="power" {...handlers} />
+    );
+
+    expect(screen.getByTestId('color-mode-alert')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    expect(screen.getByTestId('color-mode-depth')).toHaveAttribute(
+      'aria-pressed',
+      'false'
+    );
+    expect(screen.getByTestId('size-mode-power')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+  });
+
+  it('offers every color and size option', () => {
+    render(
+      <PointStyleSelector
+        colorMode="depth"
+        sizeMode="exponential"
+        {...handlers}
+      />
+    );
+
+    for (const mode of ['depth', 'magnitude', 'age', 'alert', 'status']) {
+      expect(screen.getByTestId(`color-mode-${mode}`)).toBeInTheDocument();
+    }
+    for (const mode of ['exponential', 'power', 'constant']) {
+      expect(screen.getByTestId(`size-mode-${mode}`)).toBeInTheDocument();
+    }
+  });
+
+  it('leaves every color option unpressed while coloring by sequence', () => {
+    render(
+      <PointStyleSelector
+        colorMode="sequence"
+        sizeMode="exponential"
+        {...handlers}
+      />
+    );
+
+    expect(
+      screen
+        .getByRole('group', { name: 'Color by' })
+        .querySelectorAll('[aria-pressed="true"]')
+    ).toHaveLength(0);
+  });
+
+  it('calls the change handlers', () => {
+    render(
+      <PointStyleSelector
+        colorMode="depth"
+        sizeMode="exponential"
+        {...handlers}
+      />
+    );
+
+    fireEvent.click(screen.getByTestId('color-mode-age'));
+    fireEvent.click(screen.getByTestId('size-mode-constant'));
+
+    expect(handlers.onColorModeChange).toHaveBeenCalledWith('age');
+    expect(handlers.onSizeModeChange).toHaveBeenCalledWith('constant');
+  });
+});
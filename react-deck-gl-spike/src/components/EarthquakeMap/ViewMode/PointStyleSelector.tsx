@@ -0,0 +1,79 @@
+import {
+  COLOR_MODES,
+  SIZE_MODES,
+  type EarthquakeColorMode,
+  type EarthquakeSizeMode,
+} from '../../../types/earthquakeView';
+
+interface PointStyleSelectorProps {
+  colorMode: EarthquakeColorMode;
+  sizeMode: EarthquakeSizeMode;
+  onColorModeChange: (mode: EarthquakeColorMode) => void;
+  onSizeModeChange: (mode: EarthquakeSizeMode) => void;
+}
+
+function optionClassName(selected: boolean): string {
+  return `
+    px-2 py-1 text-xs rounded-lg transition-colors backdrop-blur-md border disabled:opacity-50
+    ${
+      selected
+        ? 'bg-blue-500/80 text-white font-semibold border-blue-400/30'
+        : 'bg-gray-800/60 hover:bg-gray-700/80 text-gray-200 border-white/10'
+    }
+  `;
+}
+
+export function PointStyleSelector({
+  colorMode,
+  sizeMode,
+  onColorModeChange,
+  onSizeModeChange,
+}: PointStyleSelectorProps) {
+  return (
+    <div
+      role="group"
+      aria-labelledby="point-style-label"
+      className="flex flex-col gap-2 p-3 bg-gray-900/80 backdrop-blur-md rounded-lg shadow-lg border border-white/10"
+      data-testid="point-style-selector"
+    >
+      <span
+        id="point-style-label"
+        className="text-sm font-semibold text-gray-100"
+      >
+        Point Style
+      </span>
+
+      <span className="text-xs text-gray-400">Color by</span>
+      <div className="flex flex-wrap gap-1" role="group" aria-label="Color by">
+        {COLOR_MODES.map(({ mode, label }) => (
+          <button
+            key={mode}
+            type="button"
+            onClick={() => onColorModeChange(mode)}
+            aria-pressed={colorMode === mode}
+            className={optionClassName(colorMode === mode)}
+            data-testid={`color-mode-${mode}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <span className="text-xs text-gray-400">Size by magnitude</span>
+      <div className="flex gap-1" role="group" aria-label="Size by">
+        {SIZE_MODES.map(({ mode, label }) => (
+          <button
+            key={mode}
+            type="button"
+            onClick={() => onSizeModeChange(mode)}
+            aria-pressed={sizeMode === mode}
+            className={optionClassName(sizeMode === mode)}
+            data-testid={`size-mode-${mode}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
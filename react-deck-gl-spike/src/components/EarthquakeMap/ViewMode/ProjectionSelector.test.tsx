@@ -0,0 +1,37 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ProjectionSelector } from './ProjectionSelector';
+
+describe('ProjectionSelector', () => {
+  it('marks the current projection as pressed', () => {
+    render(<ProjectionSelector value="globe" onChange={vi.fn()} />);
+
+    expect(screen.getByTestId('projection-globe')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    expect(screen.getByTestId('projection-mercator')).toHaveAttribute(
+      'aria-pressed',
+      'false'
+    );
+  });
+
+  it('calls onChange when a projection is clicked', () => {
+    const onChange = vi.fn();
+    render(<ProjectionSelector value="mercator" onChange={onChange} />);
+
+    fireEvent.click(screen.getByTestId('projection-globe'));
+
+    expect(onChange).toHaveBeenCalledWith('globe');
+  });
+
+  it('notes the flat-map-only tools on the globe', () => {
+    const { rerender } = render(
+      <ProjectionSelector value="mercator" onChange={vi.fn()} />
+    );
+    expect(screen.queryByText(/flat map/)).not.toBeInTheDocument();
+
+    rerender(<ProjectionSelector value="globe" onChange={vi.fn()} />);
+    expect(screen.getByText(/flat map/)).toBeInTheDocument();
+  });
+});
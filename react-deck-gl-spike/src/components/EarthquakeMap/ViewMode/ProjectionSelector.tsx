@@ -0,0 +1,62 @@
+import {
+  MAP_PROJECTIONS,
+  type MapProjection,
+} from '../../../types/earthquakeView';
+
+interface ProjectionSelectorProps {
+  value: MapProjection;
+  onChange: (projection: MapProjection) => void;
+}
+
+function optionClassName(selected: boolean): string {
+  return `
+    px-2 py-1 text-xs rounded-lg transition-colors backdrop-blur-md border disabled:opacity-50
+    ${
+      selected
+        ? 'bg-blue-500/80 text-white font-semibold border-blue-400/30'
+        : 'bg-gray-800/60 hover:bg-gray-700/80 text-gray-200 border-white/10'
+    }
+  `;
+}
+
+export function ProjectionSelector({
+  value,
+  onChange,
+}: ProjectionSelectorProps) {
+  return (
+    <div
+      role="group"
+      aria-labelledby="projection-label"
+      className="flex flex-col gap-2 p-3 bg-gray-900/80 backdrop-blur-md rounded-lg shadow-lg border border-white/10"
+      data-testid="projection-selector"
+    >
+      <span
+        id="projection-label"
+        className="text-sm font-semibold text-gray-100"
+      >
+        Projection
+      </span>
+
+      <div className="flex gap-1">
+        {MAP_PROJECTIONS.map(({ projection, label }) => (
+          <button
+            key={projection}
+            type="button"
+            onClick={() => onChange(projection)}
+            aria-pressed={value === projection}
+            className={optionClassName(value === projection)}
+            data-testid={`projection-${projection}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {value === 'globe' && (
+        <span className="text-xs text-gray-400">
+          Binned views, area drawing and depth view use the flat map
+        </span>
+      )}
+    </div>
+  );
+}
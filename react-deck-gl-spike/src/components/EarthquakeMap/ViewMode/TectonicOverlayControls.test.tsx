@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { TectonicOverlayControls } from './TectonicOverlayControls';
+
+describe('TectonicOverlayControls', () => {
+  const handlers = {
+    onShowPlateBoundariesChange: vi.fn(),
+    onShowFaultsChange: vi.fn(),
+  };
+
+  const renderControls = (showPlateBoundaries: boolean, showFaults: boolean) =>
+    render(
+      <TectonicOverlayControls
+        showPlateBoundaries={showPlateBoundaries}
+        showFaults={showFaults}
+        {...handlers}
+      />
+    );
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('toggles the plate boundary overlay', () => {
+    renderControls(false, false);
+
+    const toggle = screen.getByRole('switch', {
+      name: 'Toggle plate boundaries',
+    });
+    expect(toggle).toHaveAttribute('aria-checked', 'false');
+    fireEvent.click(toggle);
+
+    expect(handlers.onShowPlateBoundariesChange).toHaveBeenCalledWith(true);
+    expect(handlers.onShowFaultsChange).not.toHaveBeenCalled();
+  });
+
+  it('toggles the fault overlay off', () => {
+    renderControls(false, true);
+
+    const toggle = screen.getByRole('switch', { name: 'Toggle major faults' });
+    expect(toggle).toHaveAttribute('aria-checked', 'true');
+    fireEvent.click(toggle);
+
+    expect(handlers.onShowFaultsChange).toHaveBeenCalledWith(false);
+  });
+
+  it('states how coarse the hand-traced lines are', () => {
+    renderControls(false, false);
+
+    expect(screen.getByTestId('tectonic-precision')).toHaveTextContent(
+      'Hand-traced sketch, off by 100 km or more in places'
+    );
+  });
+
+  it('shows the legend only for overlays that are on', () => {
+    const { rerender } = renderControls(false, false);
+    expect(screen.queryByTestId('tectonic-legend')).not.toBeInTheDocument();
+
+    rerender(
+      <TectonicOverlayControls
+        showPlateBoundaries
+        showFaults={false}
+        {...handlers}
+      />
+    );
+    expect(screen.getByText('Convergent boundary')).toBeInTheDocument();
+    expect(screen.queryByText('Major fault')).not.toBeInTheDocument();
+  });
+});
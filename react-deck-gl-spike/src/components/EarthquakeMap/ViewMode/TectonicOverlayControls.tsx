@@ -0,0 +1,92 @@
+import { TectonicLegend } from '../Legend/TectonicLegend';
+import { TECTONIC_LINE_ERROR_KM } from '../../../data/tectonics';
+
+interface TectonicOverlayControlsProps {
+  showPlateBoundaries: boolean;
+  showFaults: boolean;
+  onShowPlateBoundariesChange: (show: boolean) => void;
+  onShowFaultsChange: (show: boolean) => void;
+}
+
+interface OverlaySwitchProps {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  testId: string;
+}
+
+function OverlaySwitch({
+  label,
+  checked,
+  onChange,
+  testId,
+}: OverlaySwitchProps) {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <span className="text-xs text-gray-200">{label}</span>
+      <button
+        onClick={() => onChange(!checked)}
+        className={`relative w-12 h-6 rounded-full transition-colors ${
+          checked ? 'bg-blue-500' : 'bg-gray-600'
+        }`}
+        role="switch"
+        aria-checked={checked}
+        aria-label={`Toggle ${label.toLowerCase()}`}
+        data-testid={testId}
+      >
+        <span
+          className={`absolute left-0 top-1 w-4 h-4 bg-white rounded-full transition-transform ${
+            checked ? 'translate-x-7' : 'translate-x-1'
+          }`}
+        />
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Switches for the plate boundary and fault reference overlays, with the
+ * legend of whichever are on.
+ */
+export function TectonicOverlayControls({
+  showPlateBoundaries,
+  showFaults,
+  onShowPlateBoundariesChange,
+  onShowFaultsChange,
+}: TectonicOverlayControlsProps) {
+  return (
+    <div
+      className="flex flex-col gap-2 p-3 bg-gray-900/80 backdrop-blur-md rounded-lg shadow-lg border border-white/10"
+      data-testid="tectonic-overlay-controls"
+    >
+      <div>
+        <h3 className="text-sm font-semibold text-gray-100">Tectonics</h3>
+        <p className="text-gray-400 text-xs mt-1">
+          Reference lines beneath the events
+        </p>
+        <p className="text-gray-500 text-xs" data-testid="tectonic-precision">
+          Hand-traced sketch, off by {TECTONIC_LINE_ERROR_KM} km or more in
+          places
+        </p>
+      </div>
+
+      <OverlaySwitch
+        label="Plate boundaries"
+        checked={showPlateBoundaries}
+        onChange={onShowPlateBoundariesChange}
+        testId="plate-boundaries-toggle"
+      />
+      <OverlaySwitch
+        label="Major faults"
+        checked={showFaults}
+        onChange={onShowFaultsChange}
+        testId="faults-toggle"
+      />
+
+      <TectonicLegend
+        showPlateBoundaries={showPlateBoundaries}
+        showFaults={showFaults}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ViewModeSelector } from './ViewModeSelector';
+
+describe('ViewModeSelector', () => {
+  const handlers = {
+    onModeChange: vi.fn(),
+    onMetricChange: vi.fn(),
+    onAutoSwitchChange: vi.fn(),
+  };
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('marks the selected mode and metric as pressed', () => {
+    render(
+      <ViewModeSelector
+        mode="hexagon"
+        metric="energy"
+        autoSwitch={false}
+        {...handlers}
+      />
+    );
+
+    expect(screen.getByTestId('view-mode-hexagon')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    expect(screen.getByTestId('view-mode-points')).toHaveAttribute(
+      'aria-pressed',
+      'false'
+    );
+    expect(screen.getByTestId('bin-metric-energy')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+  });
+
+  it('calls onModeChange when a mode is clicked', () => {
+    render(
+      <ViewModeSelector
+        mode="points"
+        metric="count"
+        autoSwitch={false}
+        {...handlers}
+      />
+    );
+
+    fireEvent.click(screen.getByTestId('view-mode-grid'));
+
+    expect(handlers.onModeChange).toHaveBeenCalledWith('grid');
+  });
+
+  it('calls onMetricChange when a metric is clicked', () => {
+    render(
+      <ViewModeSelector
+        mode="heatmap"
+        metric="count"
+        autoSwitch={false}
+        {...handlers}
+      />
+    );
+
+    fireEvent.click(screen.getByTestId('bin-metric-maxMagnitude'));
+
+    expect(handlers.onMetricChange).toHaveBeenCalledWith('maxMagnitude');
+  });
+
+  it('disables metrics for points without auto-switch', () => {
+    render(
+      <ViewModeSelector
+        mode="points"
+        metric="count"
+        autoSwitch={false}
+        {...handlers}
+      />
+    );
+
+    expect(screen.getByTestId('bin-metric-count')).toBeDisabled();
+  });
+
+  it('enables metrics when auto-switch can show aggregates', () => {
+    render(
+      <ViewModeSelector
+        mode="points"
+        metric="count"
+        autoSwitch={true}
+        {...handlers}
+      />
+    );
+
+    expect(screen.getByTestId('bin-metric-count')).not.toBeDisabled();
+  });
+
+  it('disables metrics for clusters', () => {
+    render(
+      <ViewModeSelector
+        mode="clusters"
+        metric="count"
+        autoSwitch={true}
+        {...handlers}
+      />
+    );
+
+    expect(screen.getByTestId('bin-metric-count')).toBeDisabled();
+  });
+
+  it('toggles auto-switch', () => {
+    render(
+      <ViewModeSelector
+        mode="heatmap"
+        metric="count"
+        autoSwitch={false}
+        {...handlers}
+      />
+    );
+
+    fireEvent.click(screen.getByTestId('view-mode-auto-switch'));
+
+    expect(handlers.onAutoSwitchChange).toHaveBeenCalledWith(true);
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  AUTO_SWITCH_ZOOM,
+  BIN_METRICS,
+  VIEW_MODES,
+  type BinMetric,
+  type EarthquakeViewMode,
+} from '../../../types/earthquakeView';
+
+interface ViewModeSelectorProps {
+  mode: EarthquakeViewMode;
+  metric: BinMetric;
+  autoSwitch: boolean;
+  onModeChange: (mode: EarthquakeViewMode) => void;
+  onMetricChange: (metric: BinMetric) => void;
+  onAutoSwitchChange: (autoSwitch: boolean) => void;
+}
+
+function optionClassName(selected: boolean): string {
+  return `
+    px-2 py-1 text-xs rounded-lg transition-colors backdrop-blur-md border disabled:opacity-50
+    ${
+      selected
+        ? 'bg-blue-500/80 text-white font-semibold border-blue-400/30'
+        : 'bg-gray-800/60 hover:bg-gray-700/80 text-gray-200 border-white/10'
+    }
+  `;
+}
+
+export function ViewModeSelector({
+  mode,
+  metric,
+  autoSwitch,
+  onModeChange,
+  onMetricChange,
+  onAutoSwitchChange,
+}: ViewModeSelectorProps) {
+  // Metrics only apply to aggregates, which auto-switch can also show
+  // in place of points. Clusters always count events.
+  const metricsEnabled = mode === 'points' ? autoSwitch : mode !== 'clusters';
+
+  return (
+    <div
+      role="group"
+      aria-labelledby="view-mode-label"
+      className="flex flex-col gap-2 p-3 bg-gray-900/80 backdrop-blur-md rounded-lg shadow-lg border border-white/10"
+      data-testid="view-mode-selector"
+    >
+      <span
+        id="view-mode-label"
+        className="text-sm font-semibold text-gray-100"
+      >
+        View
+      </span>
+
+      <div className="flex gap-1" role="group" aria-label="View mode">
+        {VIEW_MODES.map(({ mode: option, label }) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => onModeChange(option)}
+            aria-pressed={mode === option}
+            className={optionClassName(mode === option)}
+            data-testid={`view-mode-${option}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-1" role="group" aria-label="Bin metric">
+        {BIN_METRICS.map(({ metric: option, label }) => (
+          <button
+            key={option}
+            type="button"
+            disabled={!metricsEnabled}
+            onClick={() => onMetricChange(option)}
+            aria-pressed={metric === option}
+            className={optionClassName(metric === option)}
+            data-testid={`bin-metric-${option}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-gray-300">
+        <input
+          type="checkbox"
+          checked={autoSwitch}
+          onChange={(e) => onAutoSwitchChange(e.target.checked)}
+          data-testid="view-mode-auto-switch"
+        />
+        Points when zoomed in (zoom ≥ {AUTO_SWITCH_ZOOM})
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+export { ViewModeSelector } from './ViewModeSelector';
+export { DepthViewControls } from './DepthViewControls';
+export { ProjectionSelector } from './ProjectionSelector';
+export { PointStyleSelector } from './PointStyleSelector';
+export { TectonicOverlayControls } from './TectonicOverlayControls';
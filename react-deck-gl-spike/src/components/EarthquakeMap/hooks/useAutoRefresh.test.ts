@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useAutoRefresh } from './useAutoRefresh';
+import { useEarthquakeStore } from '../../../stores';
+
+const FEED_URL = 'https://example.com/all_day.geojson';
+
+describe('useAutoRefresh', () => {
+  const refreshEarthquakes = vi.fn(() => Promise.resolve());
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    useEarthquakeStore.getState().reset();
+    useEarthquakeStore.setState({ refreshEarthquakes });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('does not poll while auto-refresh is off', () => {
+    renderHook(() => useAutoRefresh(FEED_URL));
+
+    act(() => {
+      vi.advanceTimersByTime(10 * 60_000);
+    });
+
+    expect(refreshEarthquakes).not.toHaveBeenCalled();
+  });
+
+  it('polls the feed at the configured interval', () => {
+    useEarthquakeStore.setState({
+      autoRefresh: { enabled: true, intervalMs: 30_000 },
+    });
+    renderHook(() => useAutoRefresh(FEED_URL));
+
+    act(() => {
+      vi.advanceTimersByTime(29_999);
+    });
+    expect(refreshEarthquakes).not.toHaveBeenCalled();
+
+    act(() => {
+      vi.advanceTimersByTime(60_001);
+    });
+    expect(refreshEarthquakes).toHaveBeenCalledTimes(3);
+    expect(refreshEarthquakes).toHaveBeenCalledWith(FEED_URL);
+  });
+
+  it('restarts the timer when the interval changes', () => {
+    useEarthquakeStore.setState({
+      autoRefresh: { enabled: true, intervalMs: 60_000 },
+    });
+    renderHook(() => useAutoRefresh(FEED_URL));
+
+    act(() => {
+      useEarthquakeStore.getState().setAutoRefresh({ intervalMs: 30_000 });
+    });
+    act(() => {
+      vi.advanceTimersByTime(30_000);
+    });
+
+    expect(refreshEarthquakes).toHaveBeenCalledTimes(1);
+  });
+
+  it('pauses when no url is given', () => {
+    useEarthquakeStore.setState({
+      autoRefresh: { enabled: true, intervalMs: 30_000 },
+    });
+    renderHook(() => useAutoRefresh(null));
+
+    act(() => {
+      vi.advanceTimersByTime(60_000);
+    });
+
+    expect(refreshEarthquakes).not.toHaveBeenCalled();
+  });
+
+  it('stops polling on unmount', () => {
+    useEarthquakeStore.setState({
+      autoRefresh: { enabled: true, intervalMs: 30_000 },
+    });
+    const { unmount } = renderHook(() => useAutoRefresh(FEED_URL));
+
+    unmount();
+    act(() => {
+      vi.advanceTimersByTime(60_000);
+    });
+
+    expect(refreshEarthquakes).not.toHaveBeenCalled();
+  });
+});
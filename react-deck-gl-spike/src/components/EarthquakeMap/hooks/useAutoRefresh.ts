@@ -0,0 +1,26 @@
+import { useEffect } from 'react';
+import { useEarthquakeStore } from '../../../stores';
+
+/**
+ * Poll `url` in the background while auto-refresh is enabled. Pass null to
+ * pause polling, e.g. while an archive window is shown.
+ */
+export function useAutoRefresh(url: string | null) {
+  const enabled = useEarthquakeStore((state) => state.autoRefresh.enabled);
+  const intervalMs = useEarthquakeStore(
+    (state) => state.autoRefresh.intervalMs
+  );
+  const refreshEarthquakes = useEarthquakeStore(
+    (state) => state.refreshEarthquakes
+  );
+
+  useEffect(() => {
+    if (!enabled || !url) return;
+
+    const timer = setInterval(() => {
+      refreshEarthquakes(url);
+    }, intervalMs);
+
+    return () => clearInterval(timer);
+  }, [enabled, intervalMs, url, refreshEarthquakes]);
+}
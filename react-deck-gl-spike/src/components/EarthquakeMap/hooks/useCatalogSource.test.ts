@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useCatalogSource } from './useCatalogSource';
+import { useEarthquakeStore } from '../../../stores';
+import { DEFAULT_FEED, getFeedUrl } from '../../../types/earthquakeFeed';
+import { createEarthquake } from '../../../test/earthquakeFixture';
+
+describe('useCatalogSource', () => {
+  const fetchEarthquakes = vi.fn(() => Promise.resolve());
+  const fetchHistoricalEarthquakes = vi.fn(() => Promise.resolve());
+  const onSourceChange = vi.fn();
+
+  const archive = {
+    startTime: new Date('2011-03-01T00:00:00Z'),
+    endTime: new Date('2011-04-01T00:00:00Z'),
+  };
+
+  beforeEach(() => {
+    useEarthquakeStore.getState().reset();
+    useEarthquakeStore.setState({
+      fetchEarthquakes,
+      fetchHistoricalEarthquakes,
+    });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('fetches the selected feed while live', () => {
+    const { result } = renderHook(() => useCatalogSource(onSourceChange));
+
+    expect(fetchEarthquakes).toHaveBeenCalledWith(getFeedUrl(DEFAULT_FEED));
+    expect(result.current.isLiveFeed).toBe(true);
+    expect(result.current.spanHours).toBe(24 * 30);
+    expect(result.current.label).toBeNull();
+  });
+
+  it('switches feed and lets the caller reset its filters', () => {
+    const { result } = renderHook(() => useCatalogSource(onSourceChange));
+    const feed = { period: 'day', magnitude: '4.5' } as const;
+
+    act(() => {
+      result.current.changeFeed(feed);
+    });
+
+    expect(fetchEarthquakes).toHaveBeenLastCalledWith(getFeedUrl(feed));
+    expect(onSourceChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('queries an archive window and labels it by its dates', () => {
+    const { result } = renderHook(() => useCatalogSource(onSourceChange));
+
+    act(() => {
+      result.current.loadArchive(archive);
+    });
+
+    expect(fetchHistoricalEarthquakes).toHaveBeenCalledWith(archive);
+    expect(onSourceChange).toHaveBeenCalledTimes(1);
+    expect(result.current.isLiveFeed).toBe(false);
+    expect(result.current.spanHours).toBeUndefined();
+    expect(result.current.label).toBe('2011-03-01 – 2011-04-01');
+  });
+
+  it('fetches nothing for an imported catalog', () => {
+    const { result } = renderHook(() => useCatalogSource(onSourceChange));
+    fetchEarthquakes.mockClear();
+
+    act(() => {
+      result.current.importCatalog('tohoku.csv', [createEarthquake('1')]);
+    });
+
+    expect(fetchEarthquakes).not.toHaveBeenCalled();
+    expect(fetchHistoricalEarthquakes).not.toHaveBeenCalled();
+    expect(onSourceChange).toHaveBeenCalledTimes(1);
+    expect(result.current.label).toBe('tohoku.csv (imported)');
+    expect(result.current.source).toBe('tohoku.csv');
+  });
+});
@@ -0,0 +1,114 @@
+import { useCallback, useEffect } from 'react';
+import { useAutoRefresh } from './useAutoRefresh';
+import { useEarthquakeStore } from '../../../stores';
+import {
+  getFeedSpanHours,
+  getFeedUrl,
+  type EarthquakeFeed,
+} from '../../../types/earthquakeFeed';
+import type { FdsnEventQuery } from '../../../api/fdsnEvents';
+import type { Earthquake } from '../../../types/earthquake';
+
+function formatArchiveDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Where the events come from: a USGS summary feed kept current while live,
+ * a window of the FDSN archive, or an imported catalog. `onSourceChange`
+ * runs on every switch, since date presets and filters chosen for one
+ * catalog may not fit the next.
+ */
+export function useCatalogSource(onSourceChange: () => void) {
+  const fetchEarthquakes = useEarthquakeStore(
+    (state) => state.fetchEarthquakes
+  );
+  const fetchHistoricalEarthquakes = useEarthquakeStore(
+    (state) => state.fetchHistoricalEarthquakes
+  );
+  const selectedFeed = useEarthquakeStore((state) => state.selectedFeed);
+  const setSelectedFeed = useEarthquakeStore((state) => state.setSelectedFeed);
+  const historicalQuery = useEarthquakeStore((state) => state.historicalQuery);
+  const setHistoricalQuery = useEarthquakeStore(
+    (state) => state.setHistoricalQuery
+  );
+  const importedCatalog = useEarthquakeStore((state) => state.importedCatalog);
+  const loadImportedCatalog = useEarthquakeStore(
+    (state) => state.loadImportedCatalog
+  );
+  const lastFetchedUrl = useEarthquakeStore((state) => state.lastFetchedUrl);
+  const autoRefresh = useEarthquakeStore((state) => state.autoRefresh);
+  const setAutoRefresh = useEarthquakeStore((state) => state.setAutoRefresh);
+  const lastRefreshed = useEarthquakeStore((state) => state.lastRefreshed);
+  const refreshError = useEarthquakeStore((state) => state.refreshError);
+
+  // Fetch the archive window or the selected USGS feed (cached per URL),
+  // unless a local catalog replaces both
+  useEffect(() => {
+    if (importedCatalog) return;
+    if (historicalQuery) {
+      fetchHistoricalEarthquakes(historicalQuery);
+    } else {
+      fetchEarthquakes(getFeedUrl(selectedFeed));
+    }
+  }, [
+    fetchEarthquakes,
+    fetchHistoricalEarthquakes,
+    selectedFeed,
+    historicalQuery,
+    importedCatalog,
+  ]);
+
+  // Keep the live feed current; archives and local catalogs do not change
+  const isLiveFeed = !historicalQuery && !importedCatalog;
+  useAutoRefresh(isLiveFeed ? getFeedUrl(selectedFeed) : null);
+
+  const changeFeed = useCallback(
+    (feed: EarthquakeFeed) => {
+      setSelectedFeed(feed);
+      onSourceChange();
+    },
+    [setSelectedFeed, onSourceChange]
+  );
+
+  const loadArchive = useCallback(
+    (query: FdsnEventQuery) => {
+      setHistoricalQuery(query);
+      onSourceChange();
+    },
+    [setHistoricalQuery, onSourceChange]
+  );
+
+  const importCatalog = useCallback(
+    (name: string, imported: Earthquake[]) => {
+      loadImportedCatalog(name, imported);
+      onSourceChange();
+    },
+    [loadImportedCatalog, onSourceChange]
+  );
+
+  let label: string | null = null;
+  if (importedCatalog) {
+    label = `${importedCatalog} (imported)`;
+  } else if (historicalQuery) {
+    label = `${formatArchiveDate(historicalQuery.startTime)} – ${formatArchiveDate(historicalQuery.endTime)}`;
+  }
+
+  return {
+    selectedFeed,
+    isLiveFeed,
+    // Hours the live feed spans, for its date presets
+    spanHours: isLiveFeed ? getFeedSpanHours(selectedFeed.period) : undefined,
+    // Shown in place of the feed name for archives and imported catalogs
+    label,
+    // Recorded with exported events
+    source: importedCatalog ?? lastFetchedUrl,
+    autoRefresh,
+    lastRefreshed,
+    refreshError,
+    setAutoRefresh,
+    changeFeed,
+    loadArchive,
+    importCatalog,
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useCrossSection } from './useCrossSection';
+import { useCrossSectionStore } from '../../../stores/crossSectionStore';
+import { useRadiusSearchStore } from '../../../stores/radiusSearchStore';
+import { createEarthquake } from '../../../test/earthquakeFixture';
+
+describe('useCrossSection', () => {
+  const earthquakes = [
+    createEarthquake('on-line', { longitude: 0.5 }),
+    createEarthquake('off-line', { longitude: 0.5, latitude: 5 }),
+  ];
+
+  beforeEach(() => {
+    useCrossSectionStore.getState().reset();
+    useRadiusSearchStore.getState().reset();
+  });
+
+  it('has no profile or layers until a line is drawn', () => {
+    const { result } = renderHook(() => useCrossSection(earthquakes, null));
+
+    expect(result.current.line).toBeNull();
+    expect(result.current.points).toEqual([]);
+    expect(result.current.lengthKm).toBe(0);
+    expect(result.current.layers).toEqual([]);
+  });
+
+  it('marks the start of a line being drawn', () => {
+    const { result } = renderHook(() => useCrossSection(earthquakes, null));
+
+    act(() => {
+      result.current.changeDrawing(true);
+    });
+    act(() => {
+      result.current.addPoint([0, 0]);
+    });
+
+    expect(result.current.hasStart).toBe(true);
+    expect(result.current.layers.map((layer) => layer.id)).toEqual([
+      'cross-section-start',
+    ]);
+  });
+
+  it('projects the events within the swath onto the drawn line', () => {
+    const { result } = renderHook(() => useCrossSection(earthquakes, null));
+
+    act(() => {
+      result.current.addPoint([0, 0]);
+      result.current.addPoint([1, 0]);
+    });
+
+    expect(result.current.points.map((p) => p.earthquake.id)).toEqual([
+      'on-line',
+    ]);
+    expect(result.current.lengthKm).toBeCloseTo(111, 0);
+    expect(result.current.hasStart).toBe(false);
+  });
+
+  it('marks the hovered event only when it lies in the profile', () => {
+    useCrossSectionStore.setState({ line: { start: [0, 0], end: [1, 0] } });
+    const { result, rerender } = renderHook(
+      ({ hoveredId }) => useCrossSection(earthquakes, hoveredId),
+      { initialProps: { hoveredId: 'off-line' } }
+    );
+    expect(result.current.hoverLayers).toEqual([]);
+
+    rerender({ hoveredId: 'on-line' });
+    expect(result.current.hoverLayers).toHaveLength(1);
+  });
+
+  it('stops picking a search center when drawing starts', () => {
+    useRadiusSearchStore.getState().setPicking(true);
+    const { result } = renderHook(() => useCrossSection(earthquakes, null));
+
+    act(() => {
+      result.current.changeDrawing(true);
+    });
+
+    expect(result.current.drawing).toBe(true);
+    expect(useRadiusSearchStore.getState().picking).toBe(false);
+  });
+});
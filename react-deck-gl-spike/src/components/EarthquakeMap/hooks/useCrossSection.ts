@@ -0,0 +1,86 @@
+import { useCallback, useMemo } from 'react';
+import {
+  createCrossSectionHoverLayer,
+  createCrossSectionLayers,
+  createCrossSectionStartLayer,
+} from '../layers/crossSectionLayer';
+import type { EarthquakeLayerOptions } from '../layers/earthquakeStyle';
+import { useCrossSectionStore, useRadiusSearchStore } from '../../../stores';
+import { getCrossSection, getLineLengthKm } from '../../../utils/crossSection';
+import type { Earthquake } from '../../../types/earthquake';
+
+/**
+ * Depth profile along a drawn line: the line, its swath and pending start as
+ * layers, the given events projected onto it, and the hovered event marked
+ * on the map when it lies in the profile.
+ */
+export function useCrossSection(
+  earthquakes: Earthquake[],
+  hoveredId: string | null,
+  options: EarthquakeLayerOptions = {}
+) {
+  const line = useCrossSectionStore((state) => state.line);
+  const widthKm = useCrossSectionStore((state) => state.widthKm);
+  const drawing = useCrossSectionStore((state) => state.drawing);
+  const pendingStart = useCrossSectionStore((state) => state.pendingStart);
+  const startDrawing = useCrossSectionStore((state) => state.startDrawing);
+  const cancelDrawing = useCrossSectionStore((state) => state.cancelDrawing);
+  const addPoint = useCrossSectionStore((state) => state.addPoint);
+  const setWidthKm = useCrossSectionStore((state) => state.setWidthKm);
+  const clearLine = useCrossSectionStore((state) => state.clearLine);
+  const setPickingCenter = useRadiusSearchStore((state) => state.setPicking);
+
+  const points = useMemo(
+    () => (line ? getCrossSection(earthquakes, line, widthKm) : []),
+    [earthquakes, line, widthKm]
+  );
+  const lengthKm = line ? getLineLengthKm(line) : 0;
+
+  const layers = useMemo(
+    () => [
+      ...(line ? createCrossSectionLayers(line, widthKm) : []),
+      ...(pendingStart ? [createCrossSectionStartLayer(pendingStart)] : []),
+    ],
+    [line, widthKm, pendingStart]
+  );
+
+  const { verticalExaggeration } = options;
+  const hoverLayers = useMemo(() => {
+    const hovered = points.find((p) => p.earthquake.id === hoveredId);
+    return hovered
+      ? [
+          createCrossSectionHoverLayer(hovered.earthquake, {
+            verticalExaggeration,
+          }),
+        ]
+      : [];
+  }, [points, hoveredId, verticalExaggeration]);
+
+  // Map clicks either place a search center or a profile end, not both
+  const changeDrawing = useCallback(
+    (next: boolean) => {
+      if (next) {
+        setPickingCenter(false);
+        startDrawing();
+      } else {
+        cancelDrawing();
+      }
+    },
+    [setPickingCenter, startDrawing, cancelDrawing]
+  );
+
+  return {
+    line,
+    widthKm,
+    drawing,
+    hasStart: pendingStart !== null,
+    points,
+    lengthKm,
+    layers,
+    hoverLayers,
+    addPoint,
+    setWidthKm,
+    clearLine,
+    changeDrawing,
+  };
+}
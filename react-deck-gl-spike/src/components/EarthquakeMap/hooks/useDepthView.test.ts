@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useDepthView } from './useDepthView';
+import { useEarthquakeViewStore, useMapViewStore } from '../../../stores';
+import { createEarthquake } from '../../../test/earthquakeFixture';
+import { DEPTH_VIEW_PITCH } from '../../../types/earthquakeView';
+
+describe('useDepthView', () => {
+  const earthquakes = [createEarthquake('1'), createEarthquake('2')];
+
+  beforeEach(() => {
+    useEarthquakeViewStore.getState().reset();
+    useMapViewStore.getState().reset();
+  });
+
+  it('draws at the surface with no depth grid while off', () => {
+    const { result } = renderHook(() => useDepthView(earthquakes));
+
+    expect(result.current.enabled).toBe(false);
+    expect(result.current.layerExaggeration).toBeNull();
+    expect(result.current.layers).toEqual([]);
+  });
+
+  it('tilts the camera and draws the depth grid when turned on', () => {
+    const { result } = renderHook(() => useDepthView(earthquakes));
+
+    act(() => {
+      result.current.changeEnabled(true);
+    });
+
+    expect(result.current.enabled).toBe(true);
+    expect(result.current.layerExaggeration).toBe(
+      result.current.verticalExaggeration
+    );
+    expect(result.current.layers.length).toBeGreaterThan(0);
+    expect(useMapViewStore.getState().viewState.pitch).toBe(DEPTH_VIEW_PITCH);
+  });
+
+  it('flattens the camera again when turned off', () => {
+    const { result } = renderHook(() => useDepthView(earthquakes));
+
+    act(() => {
+      result.current.changeEnabled(true);
+    });
+    act(() => {
+      result.current.changeEnabled(false);
+    });
+
+    const { pitch, bearing } = useMapViewStore.getState().viewState;
+    expect(pitch).toBe(0);
+    expect(bearing).toBe(0);
+    expect(result.current.layers).toEqual([]);
+  });
+
+  it('has no depth grid without events to cover', () => {
+    useEarthquakeViewStore.getState().setDepthView(true);
+    const { result } = renderHook(() => useDepthView([]));
+
+    expect(result.current.layers).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+import { useCallback, useMemo } from 'react';
+import { createDepthGridLayers } from '../layers/depthGridLayer';
+import { useEarthquakeViewStore, useMapViewStore } from '../../../stores';
+import { getEarthquakeBounds } from '../../../utils/viewportBounds';
+import { DEPTH_VIEW_PITCH } from '../../../types/earthquakeView';
+import type { Earthquake } from '../../../types/earthquake';
+
+/**
+ * The 3D subsurface view: whether it is on, how far depths are stretched,
+ * and the depth reference planes under the extent of the given events.
+ */
+export function useDepthView(earthquakes: Earthquake[]) {
+  const enabled = useEarthquakeViewStore((state) => state.depthView);
+  const verticalExaggeration = useEarthquakeViewStore(
+    (state) => state.verticalExaggeration
+  );
+  const setDepthView = useEarthquakeViewStore((state) => state.setDepthView);
+  const setVerticalExaggeration = useEarthquakeViewStore(
+    (state) => state.setVerticalExaggeration
+  );
+  const viewState = useMapViewStore((state) => state.viewState);
+  const setViewState = useMapViewStore((state) => state.setViewState);
+
+  // Layers draw at the surface unless the depth view is on
+  const layerExaggeration = enabled ? verticalExaggeration : null;
+
+  const layers = useMemo(() => {
+    const bounds = enabled ? getEarthquakeBounds(earthquakes) : null;
+    return bounds ? createDepthGridLayers(bounds, verticalExaggeration) : [];
+  }, [enabled, earthquakes, verticalExaggeration]);
+
+  // Tilt the camera into the 3D view and flatten it again on exit
+  const changeEnabled = useCallback(
+    (next: boolean) => {
+      setDepthView(next);
+      setViewState({
+        ...viewState,
+        pitch: next ? DEPTH_VIEW_PITCH : 0,
+        bearing: next ? viewState.bearing : 0,
+      });
+    },
+    [viewState, setDepthView, setViewState]
+  );
+
+  return {
+    enabled,
+    verticalExaggeration,
+    layerExaggeration,
+    layers,
+    changeEnabled,
+    setVerticalExaggeration,
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useEarthquakeExport } from './useEarthquakeExport';
+import { downloadFile } from '../../../utils/downloadFile';
+import { createEarthquake } from '../../../test/earthquakeFixture';
+import type { FilterState } from '../../../types/filters';
+
+vi.mock('../../../utils/downloadFile', () => ({
+  downloadFile: vi.fn(),
+}));
+
+describe('useEarthquakeExport', () => {
+  const filters: FilterState = {
+    dateRange: { startDate: null, endDate: null },
+    magnitudeRange: { min: 5, max: null },
+    depthRange: { min: null, max: null },
+    boundaryDistanceRange: { min: null, max: null },
+  };
+  const earthquakes = [createEarthquake('1', { magnitude: 5.5 })];
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('describes every filter, area and radius narrowing the events', () => {
+    const { result } = renderHook(() =>
+      useEarthquakeExport(earthquakes, {
+        filters,
+        shapes: [],
+        radiusSearch: { center: [0, 0], radiusKm: 50 },
+        source: null,
+      })
+    );
+
+    expect(result.current.filterLabels).toHaveLength(2);
+    expect(result.current.filterLabels[0]).toBe('M ≥ 5.0');
+    expect(result.current.filterLabels[1]).toMatch(/^Within 50 km of /);
+  });
+
+  it('downloads the events with their source and filters', () => {
+    const { result } = renderHook(() =>
+      useEarthquakeExport(earthquakes, {
+        filters,
+        shapes: [],
+        radiusSearch: null,
+        source: 'tohoku.csv',
+      })
+    );
+
+    result.current.exportEarthquakes('geojson');
+
+    const [content, filename, mimeType] =
+      vi.mocked(downloadFile).mock.lastCall!;
+    expect(filename).toMatch(/^earthquakes-\d{4}-\d{2}-\d{2}\.geojson$/);
+    expect(mimeType).toBe('application/geo+json');
+    expect(content).toContain('tohoku.csv');
+    expect(content).toContain('M ≥ 5.0');
+  });
+});
@@ -0,0 +1,67 @@
+import { useCallback, useMemo } from 'react';
+import { getActiveFilters } from '../../../utils/filterEarthquakes';
+import { getAreaFilter } from '../../../utils/spatialSelection';
+import { getRadiusFilter } from '../../../utils/radiusSearch';
+import { downloadFile } from '../../../utils/downloadFile';
+import {
+  getExportFilename,
+  serializeEarthquakes,
+} from '../../../utils/exportEarthquakes';
+import {
+  EXPORT_FORMATS,
+  type ExportFormat,
+} from '../../../types/earthquakeExport';
+import type { Earthquake } from '../../../types/earthquake';
+import type { FilterState } from '../../../types/filters';
+import type { SelectionShape } from '../../../types/spatialSelection';
+import type { RadiusSearch } from '../../../types/radiusSearch';
+
+interface EarthquakeSelection {
+  filters: FilterState;
+  shapes: SelectionShape[];
+  radiusSearch: RadiusSearch | null;
+  /** Catalog the events came from: a feed or archive URL, or a file name */
+  source: string | null;
+}
+
+/**
+ * Describe how the given events were selected, and download them in a
+ * chosen format with that description and their source attached.
+ */
+export function useEarthquakeExport(
+  earthquakes: Earthquake[],
+  { filters, shapes, radiusSearch, source }: EarthquakeSelection
+) {
+  const filterLabels = useMemo(
+    () =>
+      [
+        ...getActiveFilters(filters),
+        getAreaFilter(shapes),
+        getRadiusFilter(radiusSearch),
+      ]
+        .filter((filter) => filter !== null)
+        .map((filter) => filter.label),
+    [filters, shapes, radiusSearch]
+  );
+
+  const exportEarthquakes = useCallback(
+    (format: ExportFormat) => {
+      const metadata = {
+        exportedAt: new Date().toISOString(),
+        source,
+        filters: filterLabels,
+      };
+      const { mimeType } = EXPORT_FORMATS.find(
+        (info) => info.format === format
+      )!;
+      downloadFile(
+        serializeEarthquakes(format, earthquakes, metadata),
+        getExportFilename(format, metadata.exportedAt),
+        mimeType
+      );
+    },
+    [source, filterLabels, earthquakes]
+  );
+
+  return { filterLabels, exportEarthquakes };
+}
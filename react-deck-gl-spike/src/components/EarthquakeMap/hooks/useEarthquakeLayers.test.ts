@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useEarthquakeLayers } from './useEarthquakeLayers';
+import type { createEarthquakeLayer } from '../layers/earthquakeLayer';
+import { createEarthquake } from '../../../test/earthquakeFixture';
+import type { FilterState } from '../../../types/filters';
+import type { EarthquakeViewMode } from '../../../types/earthquakeView';
+
+describe('useEarthquakeLayers', () => {
+  const NO_FILTERS: FilterState = {
+    dateRange: { startDate: null, endDate: null },
+    magnitudeRange: { min: null, max: null },
+    depthRange: { min: null, max: null },
+    boundaryDistanceRange: { min: null, max: null },
+  };
+
+  const earthquakes = [
+    createEarthquake('mainshock', { magnitude: 6 }),
+    createEarthquake('aftershock', {
+      longitude: 0.01,
+      timestamp: '2024-01-01T01:00:00Z',
+    }),
+  ];
+
+  function renderLayers(
+    viewMode: EarthquakeViewMode,
+    colorMode: 'depth' | 'sequence' = 'depth'
+  ) {
+    return renderHook(
+      ({ filters }) =>
+        useEarthquakeLayers(earthquakes, earthquakes, filters, {
+          viewMode,
+          binMetric: 'count',
+          zoom: 3,
+          colorMode,
+        }),
+      { initialProps: { filters: NO_FILTERS } }
+    );
+  }
+
+  type PointLayer = ReturnType<typeof createEarthquakeLayer>;
+
+  function layerIds(layers: { id: string }[]) {
+    return layers.map((layer) => layer.id);
+  }
+
+  it('draws the events as points filtered on the GPU', () => {
+    const { result } = renderLayers('points');
+
+    expect(layerIds(result.current.layers)).toEqual(['earthquake-layer']);
+    expect(result.current.clusterIndex).toBeNull();
+  });
+
+  it('moves only the filter range when a range filter changes', () => {
+    const { result, rerender } = renderLayers('points');
+    const [before] = result.current.layers as PointLayer[];
+
+    rerender({
+      filters: { ...NO_FILTERS, magnitudeRange: { min: 5, max: null } },
+    });
+    const [after] = result.current.layers as PointLayer[];
+
+    expect(after.props.data).toBe(before.props.data);
+    expect(after.props.filterRange).not.toEqual(before.props.filterRange);
+  });
+
+  it('puts cluster bubbles under the points in cluster mode', () => {
+    const { result } = renderLayers('clusters');
+
+    expect(result.current.clusterIndex).not.toBeNull();
+    expect(layerIds(result.current.layers).at(-1)).toBe('earthquake-layer');
+    expect(layerIds(result.current.layers)).toContain(
+      'earthquake-cluster-labels'
+    );
+  });
+
+  it('bins the events in an aggregate mode', () => {
+    const { result } = renderLayers('hexagon');
+
+    expect(layerIds(result.current.layers)).toEqual([
+      'earthquake-hexagon-layer',
+    ]);
+  });
+
+  it('groups the events into sequences only when coloring by sequence', () => {
+    expect(renderLayers('points').result.current.declustered).toBeNull();
+
+    const { result } = renderLayers('points', 'sequence');
+    expect(result.current.declustered?.sequenceIndex).toMatchObject({
+      mainshock: 0,
+      aftershock: 0,
+    });
+  });
+
+  it('clears the reported bin range', () => {
+    const { result } = renderLayers('hexagon');
+
+    act(() => {
+      result.current.clearBinDomain();
+    });
+
+    expect(result.current.binDomain).toBeNull();
+  });
+});
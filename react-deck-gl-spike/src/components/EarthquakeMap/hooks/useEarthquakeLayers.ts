@@ -0,0 +1,169 @@
+import { useCallback, useMemo, useState } from 'react';
+import { createEarthquakeLayer } from '../layers/earthquakeLayer';
+import {
+  getEarthquakeColor,
+  type EarthquakeLayerOptions,
+} from '../layers/earthquakeStyle';
+import {
+  createEarthquakeAttributes,
+  getEarthquakeFilterRange,
+} from '../layers/earthquakeAttributes';
+import { createAggregationLayer } from '../layers/aggregationLayers';
+import { createClusterLayers } from '../layers/clusterLayer';
+import { declusterEarthquakes } from '../../../utils/declusterEarthquakes';
+import {
+  createClusterIndex,
+  getClusters,
+} from '../../../utils/earthquakeClusters';
+import type { Earthquake } from '../../../types/earthquake';
+import type { FilterState } from '../../../types/filters';
+import type {
+  BinMetric,
+  EarthquakeViewMode,
+} from '../../../types/earthquakeView';
+
+interface EarthquakeLayersOptions extends Omit<
+  EarthquakeLayerOptions,
+  'sequenceIndex'
+> {
+  /** Mode in effect after auto-switching and the 3D and globe overrides */
+  viewMode: EarthquakeViewMode;
+  binMetric: BinMetric;
+  /** Map zoom, which decides how far clusters have split apart */
+  zoom: number;
+}
+
+/**
+ * The events themselves: points, cluster bubbles or binned aggregates, with
+ * the aftershock sequences and cluster index behind them.
+ *
+ * `earthquakes` have every filter applied. The point layer applies the range
+ * filters on the GPU instead, so it is built from `areaEarthquakes`, which
+ * are only narrowed down by area, and follows `filters` without rebuilding.
+ */
+export function useEarthquakeLayers(
+  earthquakes: Earthquake[],
+  areaEarthquakes: Earthquake[],
+  filters: FilterState,
+  {
+    viewMode,
+    binMetric,
+    zoom,
+    verticalExaggeration = null,
+    colorMode,
+    sizeMode,
+    referenceTime,
+    boundaryDistances,
+  }: EarthquakeLayersOptions
+) {
+  const showsEvents = viewMode === 'points' || viewMode === 'clusters';
+
+  // Bin value range reported by hexagon/grid layers for the legend
+  const [binDomain, setBinDomain] = useState<[number, number] | null>(null);
+  const clearBinDomain = useCallback(() => setBinDomain(null), []);
+
+  // Group the displayed events into aftershock sequences for coloring
+  const declustered = useMemo(
+    () =>
+      colorMode === 'sequence' && showsEvents
+        ? declusterEarthquakes(earthquakes)
+        : null,
+    [colorMode, showsEvents, earthquakes]
+  );
+
+  // Cluster index over the filtered events, queried per whole zoom level
+  const clusterIndex = useMemo(
+    () => (viewMode === 'clusters' ? createClusterIndex(earthquakes) : null),
+    [viewMode, earthquakes]
+  );
+  const clusterZoom = Math.floor(zoom);
+  const clustered = useMemo(
+    () => (clusterIndex ? getClusters(clusterIndex, clusterZoom) : null),
+    [clusterIndex, clusterZoom]
+  );
+
+  // Buffers are rebuilt when the events or their style change; dragging a
+  // range filter only moves the GPU filter range
+  const pointAttributes = useMemo(
+    () =>
+      showsEvents
+        ? createEarthquakeAttributes(
+            clustered ? clustered.earthquakes : areaEarthquakes,
+            {
+              verticalExaggeration,
+              sequenceIndex: declustered?.sequenceIndex,
+              colorMode,
+              sizeMode,
+              referenceTime,
+              boundaryDistances,
+            }
+          )
+        : null,
+    [
+      showsEvents,
+      clustered,
+      areaEarthquakes,
+      verticalExaggeration,
+      declustered,
+      colorMode,
+      sizeMode,
+      referenceTime,
+      boundaryDistances,
+    ]
+  );
+  const pointFilterRange = useMemo(
+    () =>
+      pointAttributes
+        ? getEarthquakeFilterRange(filters, pointAttributes)
+        : null,
+    [filters, pointAttributes]
+  );
+
+  const layers = useMemo(() => {
+    if (viewMode !== 'points' && viewMode !== 'clusters') {
+      return [
+        createAggregationLayer(viewMode, earthquakes, binMetric, {
+          onSetColorDomain: setBinDomain,
+        }),
+      ];
+    }
+
+    if (!pointAttributes) return [];
+
+    const pointLayer = createEarthquakeLayer(pointAttributes, {
+      verticalExaggeration,
+      filterRange: pointFilterRange,
+    });
+    return clustered
+      ? [...createClusterLayers(clustered.clusters), pointLayer]
+      : [pointLayer];
+  }, [
+    viewMode,
+    pointAttributes,
+    pointFilterRange,
+    earthquakes,
+    clustered,
+    binMetric,
+    verticalExaggeration,
+  ]);
+
+  // Other views of the events, like the profile chart, match these colors
+  const getColor = useMemo(
+    () =>
+      getEarthquakeColor({
+        sequenceIndex: declustered?.sequenceIndex,
+        colorMode,
+        referenceTime,
+      }),
+    [declustered, colorMode, referenceTime]
+  );
+
+  return {
+    layers,
+    declustered,
+    clusterIndex,
+    getColor,
+    binDomain,
+    clearBinDomain,
+  };
+}
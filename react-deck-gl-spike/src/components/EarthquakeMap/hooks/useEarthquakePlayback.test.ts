@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useEarthquakePlayback } from './useEarthquakePlayback';
+import { useEarthquakePlaybackStore } from '../../../stores/earthquakePlaybackStore';
+import { HOUR_MS } from '../../../utils/time';
+
+const START = Date.parse('2024-01-01T00:00:00.000Z');
+const BOUNDS = { start: START, end: START + 48 * HOUR_MS };
+
+describe('useEarthquakePlayback', () => {
+  let frameCallbacks: FrameRequestCallback[];
+
+  // Run the next queued animation frame at the given timestamp
+  const runFrame = (timestamp: number) => {
+    const callbacks = frameCallbacks;
+    frameCallbacks = [];
+    act(() => {
+      callbacks.forEach((callback) => callback(timestamp));
+    });
+  };
+
+  beforeEach(() => {
+    frameCallbacks = [];
+    vi.stubGlobal('requestAnimationFrame', (cb: FrameRequestCallback) => {
+      frameCallbacks.push(cb);
+      return frameCallbacks.length;
+    });
+    vi.stubGlobal('cancelAnimationFrame', () => {
+      frameCallbacks = [];
+    });
+    useEarthquakePlaybackStore.getState().reset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('clamps the current time to the catalog start', () => {
+    const { result } = renderHook(() => useEarthquakePlayback(BOUNDS));
+
+    expect(result.current).toBe(START);
+  });
+
+  it('does not animate while paused', () => {
+    renderHook(() => useEarthquakePlayback(BOUNDS));
+
+    expect(frameCallbacks).toHaveLength(0);
+  });
+
+  it('advances by playback speed in catalog hours per second', () => {
+    useEarthquakePlaybackStore.setState({ isPlaying: true, playbackSpeed: 6 });
+    const { result } = renderHook(() => useEarthquakePlayback(BOUNDS));
+
+    runFrame(1000);
+    runFrame(2000);
+
+    expect(result.current).toBe(START + 6 * HOUR_MS);
+  });
+
+  it('stops at the end without looping', () => {
+    useEarthquakePlaybackStore.setState({
+      isPlaying: true,
+      playbackSpeed: 72,
+      currentTime: START + 47 * HOUR_MS,
+    });
+    const { result } = renderHook(() => useEarthquakePlayback(BOUNDS));
+
+    runFrame(1000);
+    runFrame(2000);
+
+    expect(result.current).toBe(BOUNDS.end);
+    expect(useEarthquakePlaybackStore.getState().isPlaying).toBe(false);
+  });
+
+  it('wraps to the start when looping', () => {
+    useEarthquakePlaybackStore.setState({
+      isPlaying: true,
+      playbackSpeed: 72,
+      loopEnabled: true,
+      currentTime: START + 47 * HOUR_MS,
+    });
+    const { result } = renderHook(() => useEarthquakePlayback(BOUNDS));
+
+    runFrame(1000);
+    runFrame(2000);
+
+    expect(result.current).toBe(START);
+    expect(useEarthquakePlaybackStore.getState().isPlaying).toBe(true);
+  });
+
+  it('replays from the start when play is pressed at the end', () => {
+    useEarthquakePlaybackStore.setState({ currentTime: BOUNDS.end });
+    const { result } = renderHook(() => useEarthquakePlayback(BOUNDS));
+
+    act(() => {
+      useEarthquakePlaybackStore.getState().setIsPlaying(true);
+    });
+
+    expect(result.current).toBe(START);
+  });
+
+  it('does nothing without a catalog', () => {
+    useEarthquakePlaybackStore.setState({ isPlaying: true });
+    const { result } = renderHook(() => useEarthquakePlayback(null));
+
+    expect(frameCallbacks).toHaveLength(0);
+    expect(result.current).toBe(0);
+  });
+});
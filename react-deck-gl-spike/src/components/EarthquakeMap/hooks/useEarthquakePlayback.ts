@@ -0,0 +1,120 @@
+import { useEffect, useRef } from 'react';
+import { useEarthquakePlaybackStore } from '../../../stores/earthquakePlaybackStore';
+import {
+  clampPlaybackTime,
+  type TimeBounds,
+} from '../../../utils/playbackFrame';
+import { HOUR_MS } from '../../../utils/time';
+
+// Throttle animation to ~60fps max
+const FRAME_INTERVAL = 1000 / 60;
+
+/**
+ * Advance the playback head through `bounds` while playing. Returns the
+ * current time clamped to the catalog.
+ */
+export function useEarthquakePlayback(bounds: TimeBounds | null) {
+  const animationRef = useRef<number | null>(null);
+  const lastFrameTimeRef = useRef<number>(0);
+  const lastUpdateTimeRef = useRef<number>(0);
+
+  const currentTime = useEarthquakePlaybackStore((state) => state.currentTime);
+  const isPlaying = useEarthquakePlaybackStore((state) => state.isPlaying);
+  const playbackSpeed = useEarthquakePlaybackStore(
+    (state) => state.playbackSpeed
+  );
+  const loopEnabled = useEarthquakePlaybackStore((state) => state.loopEnabled);
+  const setCurrentTime = useEarthquakePlaybackStore(
+    (state) => state.setCurrentTime
+  );
+  const setIsPlaying = useEarthquakePlaybackStore(
+    (state) => state.setIsPlaying
+  );
+
+  // Store current values in refs to avoid stale closures
+  const currentTimeRef = useRef(currentTime);
+  const playbackSpeedRef = useRef(playbackSpeed);
+  const loopEnabledRef = useRef(loopEnabled);
+
+  useEffect(() => {
+    currentTimeRef.current = currentTime;
+  }, [currentTime]);
+
+  useEffect(() => {
+    playbackSpeedRef.current = playbackSpeed;
+  }, [playbackSpeed]);
+
+  useEffect(() => {
+    loopEnabledRef.current = loopEnabled;
+  }, [loopEnabled]);
+
+  const start = bounds?.start;
+  const end = bounds?.end;
+
+  useEffect(() => {
+    if (!isPlaying || start === undefined || end === undefined) {
+      return;
+    }
+
+    // Replay from the beginning when starting at the end
+    if (currentTimeRef.current >= end) {
+      currentTimeRef.current = start;
+      setCurrentTime(start);
+    }
+
+    lastUpdateTimeRef.current = 0;
+    lastFrameTimeRef.current = 0;
+
+    const animate = (timestamp: number) => {
+      // Throttle to target frame rate
+      if (timestamp - lastFrameTimeRef.current < FRAME_INTERVAL) {
+        animationRef.current = requestAnimationFrame(animate);
+        return;
+      }
+      lastFrameTimeRef.current = timestamp;
+
+      // Initialize last update time on first frame
+      if (lastUpdateTimeRef.current === 0) {
+        lastUpdateTimeRef.current = timestamp;
+        animationRef.current = requestAnimationFrame(animate);
+        return;
+      }
+
+      const deltaTime = timestamp - lastUpdateTimeRef.current;
+      lastUpdateTimeRef.current = timestamp;
+
+      // playbackSpeed is catalog hours per real second
+      const deltaMs = (deltaTime / 1000) * playbackSpeedRef.current * HOUR_MS;
+      let newTime =
+        clampPlaybackTime(currentTimeRef.current, { start, end }) + deltaMs;
+
+      if (newTime >= end) {
+        if (loopEnabledRef.current) {
+          newTime = start;
+        } else {
+          currentTimeRef.current = end;
+          setCurrentTime(end);
+          setIsPlaying(false);
+          return;
+        }
+      }
+
+      // Update ref immediately to prevent race condition with React state updates
+      currentTimeRef.current = newTime;
+      setCurrentTime(newTime);
+
+      animationRef.current = requestAnimationFrame(animate);
+    };
+
+    animationRef.current = requestAnimationFrame(animate);
+
+    return () => {
+      if (animationRef.current) {
+        cancelAnimationFrame(animationRef.current);
+        animationRef.current = null;
+      }
+    };
+  }, [isPlaying, start, end, setCurrentTime, setIsPlaying]);
+
+  return bounds ? clampPlaybackTime(currentTime, bounds) : currentTime;
+}
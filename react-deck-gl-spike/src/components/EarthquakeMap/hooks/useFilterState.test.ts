@@ -12,6 +12,92 @@ describe('useFilterState', () => {
     });
   });
 
+  it('returns initial filter state with open magnitude and depth ranges', () => {
+    const { result } = renderHook(() => useFilterState());
+
+    expect(result.current.filters.magnitudeRange).toEqual({
+      min: null,
+      max: null,
+    });
+    expect(result.current.filters.depthRange).toEqual({
+      min: null,
+      max: null,
+    });
+  });
+
+  it('setMagnitudeRange updates magnitude range only', () => {
+    const { result } = renderHook(() => useFilterState());
+
+    act(() => {
+      result.current.setMagnitudeRange({ min: 2.5, max: 7 });
+    });
+
+    expect(result.current.filters.magnitudeRange).toEqual({
+      min: 2.5,
+      max: 7,
+    });
+    expect(result.current.filters.dateRange).toEqual({
+      startDate: null,
+      endDate: null,
+    });
+  });
+
+  it('setDepthRange updates depth range only', () => {
+    const { result } = renderHook(() => useFilterState());
+
+    act(() => {
+      result.current.setDepthRange({ min: 300, max: null });
+    });
+
+    expect(result.current.filters.depthRange).toEqual({
+      min: 300,
+      max: null,
+    });
+    expect(result.current.filters.magnitudeRange).toEqual({
+      min: null,
+      max: null,
+    });
+  });
+
+  it('setBoundaryDistanceRange updates the distance range only', () => {
+    const { result } = renderHook(() => useFilterState());
+
+    act(() => {
+      result.current.setBoundaryDistanceRange({ min: null, max: 100 });
+    });
+
+    expect(result.current.filters.boundaryDistanceRange).toEqual({
+      min: null,
+      max: 100,
+    });
+    expect(result.current.filters.depthRange).toEqual({
+      min: null,
+      max: null,
+    });
+  });
+
+  it('resetFilters clears magnitude and depth ranges', () => {
+    const { result } = renderHook(() => useFilterState());
+
+    act(() => {
+      result.current.setMagnitudeRange({ min: 4, max: null });
+      result.current.setDepthRange({ min: null, max: 70 });
+    });
+
+    act(() => {
+      result.current.resetFilters();
+    });
+
+    expect(result.current.filters.magnitudeRange).toEqual({
+      min: null,
+      max: null,
+    });
+    expect(result.current.filters.depthRange).toEqual({
+      min: null,
+      max: null,
+    });
+  });
+
   it('setDateRange updates date range', () => {
     const { result } = renderHook(() => useFilterState());
 
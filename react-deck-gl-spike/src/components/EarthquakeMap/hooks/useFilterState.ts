@@ -1,11 +1,29 @@
 import { useState, useCallback } from 'react';
-import type { DateRange, FilterState } from '../../../types/filters';
+import type {
+  BoundaryDistanceRange,
+  DateRange,
+  DepthRange,
+  FilterState,
+  MagnitudeRange,
+} from '../../../types/filters';
 
 const INITIAL_FILTER_STATE: FilterState = {
   dateRange: {
     startDate: null,
     endDate: null,
   },
+  magnitudeRange: {
+    min: null,
+    max: null,
+  },
+  depthRange: {
+    min: null,
+    max: null,
+  },
+  boundaryDistanceRange: {
+    min: null,
+    max: null,
+  },
 };
 
 export function useFilterState() {
@@ -15,6 +33,21 @@ export function useFilterState() {
     setFilters((prev) => ({ ...prev, dateRange }));
   }, []);
 
+  const setMagnitudeRange = useCallback((magnitudeRange: MagnitudeRange) => {
+    setFilters((prev) => ({ ...prev, magnitudeRange }));
+  }, []);
+
+  const setDepthRange = useCallback((depthRange: DepthRange) => {
+    setFilters((prev) => ({ ...prev, depthRange }));
+  }, []);
+
+  const setBoundaryDistanceRange = useCallback(
+    (boundaryDistanceRange: BoundaryDistanceRange) => {
+      setFilters((prev) => ({ ...prev, boundaryDistanceRange }));
+    },
+    []
+  );
+
   const resetFilters = useCallback(() => {
     setFilters(INITIAL_FILTER_STATE);
   }, []);
@@ -22,6 +55,9 @@ export function useFilterState() {
   return {
     filters,
     setDateRange,
+    setMagnitudeRange,
+    setDepthRange,
+    setBoundaryDistanceRange,
     resetFilters,
   };
 }
@@ -5,6 +5,12 @@ import type { Earthquake } from '../../../types/earthquake';
 import type { FilterState } from '../../../types/filters';
 
 describe('useFilteredEarthquakes', () => {
+  const NO_RANGE_FILTERS = {
+    magnitudeRange: { min: null, max: null },
+    depthRange: { min: null, max: null },
+    boundaryDistanceRange: { min: null, max: null },
+  };
+
   const earthquakes: Earthquake[] = [
     {
       id: '1',
@@ -37,6 +43,7 @@ describe('useFilteredEarthquakes', () => {
 
   it('returns all earthquakes when no filters applied', () => {
     const filters: FilterState = {
+      ...NO_RANGE_FILTERS,
       dateRange: { startDate: null, endDate: null },
     };
 
@@ -49,6 +56,7 @@ describe('useFilteredEarthquakes', () => {
 
   it('applies date range filter correctly', () => {
     const filters: FilterState = {
+      ...NO_RANGE_FILTERS,
       dateRange: {
         startDate: new Date('2024-01-18T00:00:00Z'),
         endDate: new Date('2024-01-22T00:00:00Z'),
@@ -65,6 +73,7 @@ describe('useFilteredEarthquakes', () => {
 
   it('memoizes result when inputs unchanged', () => {
     const filters: FilterState = {
+      ...NO_RANGE_FILTERS,
       dateRange: { startDate: null, endDate: null },
     };
 
@@ -81,6 +90,7 @@ describe('useFilteredEarthquakes', () => {
 
   it('recomputes when earthquakes change', () => {
     const filters: FilterState = {
+      ...NO_RANGE_FILTERS,
       dateRange: { startDate: null, endDate: null },
     };
 
@@ -99,6 +109,7 @@ describe('useFilteredEarthquakes', () => {
 
   it('recomputes when filters change', () => {
     const initialFilters: FilterState = {
+      ...NO_RANGE_FILTERS,
       dateRange: { startDate: null, endDate: null },
     };
 
@@ -110,6 +121,7 @@ describe('useFilteredEarthquakes', () => {
     expect(result.current).toHaveLength(3);
 
     const newFilters: FilterState = {
+      ...NO_RANGE_FILTERS,
       dateRange: {
         startDate: new Date('2024-01-18T00:00:00Z'),
         endDate: null,
@@ -122,6 +134,7 @@ describe('useFilteredEarthquakes', () => {
 
   it('handles empty earthquake array', () => {
     const filters: FilterState = {
+      ...NO_RANGE_FILTERS,
       dateRange: { startDate: null, endDate: null },
     };
 
@@ -132,6 +145,7 @@ describe('useFilteredEarthquakes', () => {
 
   it('returns empty array when filter excludes all', () => {
     const filters: FilterState = {
+      ...NO_RANGE_FILTERS,
       dateRange: {
         startDate: new Date('2024-02-01T00:00:00Z'),
         endDate: new Date('2024-02-28T00:00:00Z'),
@@ -144,4 +158,65 @@ describe('useFilteredEarthquakes', () => {
 
     expect(result.current).toHaveLength(0);
   });
+
+  it('applies magnitude range filter', () => {
+    const filters: FilterState = {
+      ...NO_RANGE_FILTERS,
+      dateRange: { startDate: null, endDate: null },
+      magnitudeRange: { min: 4.5, max: null },
+    };
+
+    const { result } = renderHook(() =>
+      useFilteredEarthquakes(earthquakes, filters)
+    );
+
+    expect(result.current.map((eq) => eq.id)).toEqual(['1', '3']);
+  });
+
+  it('applies depth range filter', () => {
+    const filters: FilterState = {
+      ...NO_RANGE_FILTERS,
+      dateRange: { startDate: null, endDate: null },
+      depthRange: { min: 15, max: 25 },
+    };
+
+    const { result } = renderHook(() =>
+      useFilteredEarthquakes(earthquakes, filters)
+    );
+
+    expect(result.current.map((eq) => eq.id)).toEqual(['2']);
+  });
+
+  it('combines date, magnitude and depth filters', () => {
+    const filters: FilterState = {
+      dateRange: {
+        startDate: new Date('2024-01-18T00:00:00Z'),
+        endDate: null,
+      },
+      magnitudeRange: { min: 5, max: null },
+      depthRange: { min: null, max: 30 },
+      boundaryDistanceRange: { min: null, max: null },
+    };
+
+    const { result } = renderHook(() =>
+      useFilteredEarthquakes(earthquakes, filters)
+    );
+
+    expect(result.current.map((eq) => eq.id)).toEqual(['3']);
+  });
+
+  it('applies plate boundary distance filter', () => {
+    const filters: FilterState = {
+      ...NO_RANGE_FILTERS,
+      dateRange: { startDate: null, endDate: null },
+      boundaryDistanceRange: { min: null, max: 100 },
+    };
+    const distances = { '1': 40, '2': 250, '3': 90 };
+
+    const { result } = renderHook(() =>
+      useFilteredEarthquakes(earthquakes, filters, distances)
+    );
+
+    expect(result.current.map((eq) => eq.id)).toEqual(['1', '3']);
+  });
 });
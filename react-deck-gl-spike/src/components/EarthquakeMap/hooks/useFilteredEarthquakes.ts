@@ -1,15 +1,24 @@
 import { useMemo } from 'react';
 import type { Earthquake } from '../../../types/earthquake';
 import type { FilterState } from '../../../types/filters';
-import { filterByDateRange } from '../../../utils/filterEarthquakes';
+import {
+  filterByBoundaryDistance,
+  filterByDateRange,
+  filterByDepth,
+  filterByMagnitude,
+} from '../../../utils/filterEarthquakes';
+
+const NO_DISTANCES: Record<string, number> = {};
 
 /**
  * Hook to filter earthquakes based on current filter state.
  * Memoizes the result to avoid unnecessary recalculations.
+ * Distances to the nearest plate boundary are looked up by event id.
  */
 export function useFilteredEarthquakes(
   earthquakes: Earthquake[],
-  filters: FilterState
+  filters: FilterState,
+  boundaryDistances: Record<string, number> = NO_DISTANCES
 ): Earthquake[] {
   return useMemo(() => {
     let filtered = earthquakes;
@@ -17,10 +26,17 @@ export function useFilteredEarthquakes(
     // Apply date range filter
     filtered = filterByDateRange(filtered, filters.dateRange);
 
-    // Future: Apply additional filters
-    // filtered = filterByMagnitude(filtered, filters.magnitudeRange);
-    // filtered = filterByDepth(filtered, filters.depthRange);
+    // Apply magnitude and depth range filters
+    filtered = filterByMagnitude(filtered, filters.magnitudeRange);
+    filtered = filterByDepth(filtered, filters.depthRange);
+
+    // Apply distance to plate boundary filter
+    filtered = filterByBoundaryDistance(
+      filtered,
+      filters.boundaryDistanceRange,
+      boundaryDistances
+    );
 
     return filtered;
-  }, [earthquakes, filters]);
+  }, [earthquakes, filters, boundaryDistances]);
 }
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import type { FeatureCollection, MultiPolygon } from 'geojson';
+import { fetchLandGeometry } from '../../../api/landGeometry';
+
+// Land outlines never change, so fetch them once per session
+let landCache: FeatureCollection<MultiPolygon> | null = null;
+
+/**
+ * World land polygons for the globe basemap, fetched the first time they're
+ * needed. Returns null until loaded; a failed fetch leaves the globe showing
+ * ocean only rather than blocking the map.
+ */
+export function useLandGeometry(enabled: boolean) {
+  const [land, setLand] = useState(landCache);
+
+  useEffect(() => {
+    if (!enabled || land) return;
+
+    let cancelled = false;
+
+    fetchLandGeometry()
+      .then((geometry) => {
+        landCache = geometry;
+        if (!cancelled) setLand(geometry);
+      })
+      .catch(() => {
+        // The basemap is decoration; carry on with ocean only
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, land]);
+
+  return enabled ? land : null;
+}
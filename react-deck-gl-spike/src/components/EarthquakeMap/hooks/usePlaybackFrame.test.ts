@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { usePlaybackFrame } from './usePlaybackFrame';
+import { useEarthquakePlaybackStore } from '../../../stores/earthquakePlaybackStore';
+import { createEarthquake } from '../../../test/earthquakeFixture';
+import { DAY_MS } from '../../../utils/time';
+
+describe('usePlaybackFrame', () => {
+  const first = createEarthquake('first', {
+    timestamp: '2024-01-01T00:00:00Z',
+  });
+  const last = createEarthquake('last', { timestamp: '2024-01-03T00:00:00Z' });
+  const start = new Date(first.timestamp).getTime();
+  const end = new Date(last.timestamp).getTime();
+
+  beforeEach(() => {
+    useEarthquakePlaybackStore.getState().reset();
+    useEarthquakePlaybackStore.setState({ trailMs: DAY_MS });
+  });
+
+  it('spans the given events whether or not playback is on', () => {
+    const { result } = renderHook(() => usePlaybackFrame([last, first]));
+
+    expect(result.current.bounds).toEqual({ start, end });
+    expect(result.current.frame).toBeNull();
+    expect(result.current.layer).toBeNull();
+  });
+
+  it('shows the events within the trail behind the playback head', () => {
+    useEarthquakePlaybackStore.setState({ playbackEnabled: true });
+    const { result } = renderHook(() => usePlaybackFrame([first, last]));
+
+    expect(result.current.time).toBe(start);
+    expect(result.current.frame?.map((eq) => eq.id)).toEqual(['first']);
+    expect(result.current.layer).not.toBeNull();
+
+    act(() => {
+      useEarthquakePlaybackStore.setState({ currentTime: end });
+    });
+    expect(result.current.frame?.map((eq) => eq.id)).toEqual(['last']);
+  });
+
+  it('has no frame for an empty catalog', () => {
+    useEarthquakePlaybackStore.setState({ playbackEnabled: true });
+    const { result } = renderHook(() => usePlaybackFrame([]));
+
+    expect(result.current.bounds).toBeNull();
+    expect(result.current.frame).toBeNull();
+  });
+});
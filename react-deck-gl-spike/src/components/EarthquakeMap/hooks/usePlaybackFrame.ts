@@ -0,0 +1,38 @@
+import { useMemo } from 'react';
+import { createPlaybackLayer } from '../layers/playbackLayer';
+import type { EarthquakeLayerOptions } from '../layers/earthquakeStyle';
+import { useEarthquakePlayback } from './useEarthquakePlayback';
+import { useEarthquakePlaybackStore } from '../../../stores/earthquakePlaybackStore';
+import { getPlaybackFrame, getTimeBounds } from '../../../utils/playbackFrame';
+import type { Earthquake } from '../../../types/earthquake';
+
+/**
+ * Playback replays the given events in time order. While it is on, returns
+ * the events shown at the playback head with the layer drawing them; the
+ * frame and layer are null while it is off.
+ */
+export function usePlaybackFrame(
+  earthquakes: Earthquake[],
+  options: EarthquakeLayerOptions = {}
+) {
+  const enabled = useEarthquakePlaybackStore((state) => state.playbackEnabled);
+  const trailMs = useEarthquakePlaybackStore((state) => state.trailMs);
+
+  const bounds = useMemo(() => getTimeBounds(earthquakes), [earthquakes]);
+  const time = useEarthquakePlayback(enabled ? bounds : null);
+
+  const frame = useMemo(
+    () =>
+      enabled && bounds ? getPlaybackFrame(earthquakes, time, trailMs) : null,
+    [enabled, bounds, earthquakes, time, trailMs]
+  );
+
+  const { verticalExaggeration } = options;
+  const layer = useMemo(
+    () =>
+      frame ? createPlaybackLayer(frame, time, { verticalExaggeration }) : null,
+    [frame, time, verticalExaggeration]
+  );
+
+  return { bounds, time, frame, layer };
+}
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { hasActivePulses } from '../layers/pulseLayer';
+
+// Rings are thin and short-lived; ~30fps is smooth enough
+const FRAME_INTERVAL = 1000 / 30;
+
+/**
+ * Animation clock for new-event pulses. Returns the current time while any
+ * arrival is still pulsing and null otherwise, so the map only re-renders
+ * every frame for the few seconds after a refresh brings in new events.
+ */
+export function usePulseClock(arrivals: Record<string, number>) {
+  const [now, setNow] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!hasActivePulses(arrivals, Date.now())) return;
+
+    let frame: number;
+    let lastFrameTime = 0;
+
+    const tick = (timestamp: number) => {
+      if (timestamp - lastFrameTime < FRAME_INTERVAL) {
+        frame = requestAnimationFrame(tick);
+        return;
+      }
+      lastFrameTime = timestamp;
+
+      const current = Date.now();
+      if (!hasActivePulses(arrivals, current)) {
+        setNow(null);
+        return;
+      }
+
+      setNow(current);
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [arrivals]);
+
+  // Ignore a stale clock left over from arrivals that were replaced
+  return now !== null && hasActivePulses(arrivals, now) ? now : null;
+}
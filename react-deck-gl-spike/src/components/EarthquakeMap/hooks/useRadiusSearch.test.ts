@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useRadiusSearch } from './useRadiusSearch';
+import { useRadiusSearchStore } from '../../../stores/radiusSearchStore';
+import { useCrossSectionStore } from '../../../stores/crossSectionStore';
+import { createEarthquake } from '../../../test/earthquakeFixture';
+
+describe('useRadiusSearch', () => {
+  // A degree of latitude is about 111 km
+  const earthquakes = [
+    createEarthquake('far', { latitude: 0.5 }),
+    createEarthquake('near', { latitude: 0.1 }),
+    createEarthquake('outside', { latitude: 5 }),
+  ];
+
+  beforeEach(() => {
+    useRadiusSearchStore.getState().reset();
+    useCrossSectionStore.getState().reset();
+  });
+
+  it('has no search, results or layers until a center is placed', () => {
+    const { result } = renderHook(() => useRadiusSearch(earthquakes));
+
+    expect(result.current.radiusSearch).toBeNull();
+    expect(result.current.results).toEqual([]);
+    expect(result.current.layers).toEqual([]);
+  });
+
+  it('lists the events within the radius nearest first', () => {
+    const { result } = renderHook(() => useRadiusSearch(earthquakes));
+
+    act(() => {
+      result.current.setRadiusKm(100);
+      result.current.setCenter([0, 0]);
+    });
+
+    expect(result.current.radiusSearch).toEqual({
+      center: [0, 0],
+      radiusKm: 100,
+    });
+    expect(result.current.results.map((r) => r.earthquake.id)).toEqual([
+      'near',
+      'far',
+    ]);
+    expect(result.current.layers.length).toBeGreaterThan(0);
+  });
+
+  it('stops drawing a profile when picking a center', () => {
+    useCrossSectionStore.getState().startDrawing();
+    const { result } = renderHook(() => useRadiusSearch(earthquakes));
+
+    act(() => {
+      result.current.changePicking(true);
+    });
+
+    expect(result.current.picking).toBe(true);
+    expect(useCrossSectionStore.getState().drawing).toBe(false);
+  });
+});
@@ -0,0 +1,59 @@
+import { useCallback, useMemo } from 'react';
+import { createRadiusSearchLayers } from '../layers/radiusSearchLayer';
+import { useCrossSectionStore, useRadiusSearchStore } from '../../../stores';
+import { findNearby } from '../../../utils/radiusSearch';
+import type { Earthquake } from '../../../types/earthquake';
+
+/**
+ * Radius search around a clicked or typed center: the search circle and its
+ * layers, and the given events within it, nearest first.
+ */
+export function useRadiusSearch(earthquakes: Earthquake[]) {
+  const center = useRadiusSearchStore((state) => state.center);
+  const radiusKm = useRadiusSearchStore((state) => state.radiusKm);
+  const picking = useRadiusSearchStore((state) => state.picking);
+  const setCenter = useRadiusSearchStore((state) => state.setCenter);
+  const setRadiusKm = useRadiusSearchStore((state) => state.setRadiusKm);
+  const setPicking = useRadiusSearchStore((state) => state.setPicking);
+  const clearSearch = useRadiusSearchStore((state) => state.clearSearch);
+  const cancelProfileDrawing = useCrossSectionStore(
+    (state) => state.cancelDrawing
+  );
+
+  const radiusSearch = useMemo(
+    () => (center ? { center, radiusKm } : null),
+    [center, radiusKm]
+  );
+
+  const results = useMemo(
+    () => (radiusSearch ? findNearby(earthquakes, radiusSearch) : []),
+    [earthquakes, radiusSearch]
+  );
+
+  const layers = useMemo(
+    () => (radiusSearch ? createRadiusSearchLayers(radiusSearch) : []),
+    [radiusSearch]
+  );
+
+  // Map clicks either place a search center or a profile end, not both
+  const changePicking = useCallback(
+    (next: boolean) => {
+      if (next) cancelProfileDrawing();
+      setPicking(next);
+    },
+    [cancelProfileDrawing, setPicking]
+  );
+
+  return {
+    radiusSearch,
+    center,
+    radiusKm,
+    picking,
+    results,
+    layers,
+    setCenter,
+    setRadiusKm,
+    changePicking,
+    clearSearch,
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useSelectedEarthquake } from './useSelectedEarthquake';
+import { useEarthquakeStore } from '../../../stores';
+import { createEarthquake } from '../../../test/earthquakeFixture';
+import { HOUR_MS } from '../../../utils/time';
+
+describe('useSelectedEarthquake', () => {
+  const mainshock = createEarthquake('mainshock', { magnitude: 6 });
+  const small = createEarthquake('small', { magnitude: 3 });
+  const forecastTime = new Date(mainshock.timestamp).getTime() + 24 * HOUR_MS;
+
+  beforeEach(() => {
+    useEarthquakeStore.getState().reset();
+  });
+
+  it('has no selection, forecast or layer by default', () => {
+    const { result } = renderHook(() =>
+      useSelectedEarthquake([mainshock], forecastTime)
+    );
+
+    expect(result.current.selected).toBeNull();
+    expect(result.current.aftershocks).toBeNull();
+    expect(result.current.layers).toEqual([]);
+  });
+
+  it('follows the pinned event by id and highlights it', () => {
+    const { result, rerender } = renderHook(
+      ({ earthquakes }) => useSelectedEarthquake(earthquakes, forecastTime),
+      { initialProps: { earthquakes: [mainshock] } }
+    );
+
+    act(() => {
+      result.current.select('mainshock');
+    });
+    expect(result.current.selected).toBe(mainshock);
+    expect(result.current.layers).toHaveLength(1);
+
+    // A revised event replaces the old one under the same id
+    const revised = { ...mainshock, magnitude: 6.1 };
+    rerender({ earthquakes: [revised] });
+    expect(result.current.selected).toBe(revised);
+  });
+
+  it('forecasts aftershocks only for a mainshock', () => {
+    const { result } = renderHook(() =>
+      useSelectedEarthquake([mainshock, small], forecastTime)
+    );
+
+    act(() => {
+      result.current.select('small');
+    });
+    expect(result.current.aftershocks).toBeNull();
+
+    act(() => {
+      result.current.select('mainshock');
+    });
+    expect(result.current.aftershocks).not.toBeNull();
+  });
+
+  it('does not forecast without a catalog end time', () => {
+    useEarthquakeStore.getState().selectEarthquake('mainshock');
+    const { result } = renderHook(() =>
+      useSelectedEarthquake([mainshock], null)
+    );
+
+    expect(result.current.selected).toBe(mainshock);
+    expect(result.current.aftershocks).toBeNull();
+  });
+
+  it('clears the selection', () => {
+    useEarthquakeStore.getState().selectEarthquake('mainshock');
+    const { result } = renderHook(() =>
+      useSelectedEarthquake([mainshock], forecastTime)
+    );
+
+    act(() => {
+      result.current.clear();
+    });
+
+    expect(result.current.selectedId).toBeNull();
+  });
+});
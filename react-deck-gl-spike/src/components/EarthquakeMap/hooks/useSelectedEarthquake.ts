@@ -0,0 +1,55 @@
+import { useCallback, useMemo } from 'react';
+import { createSelectionLayer } from '../layers/selectionLayer';
+import type { EarthquakeLayerOptions } from '../layers/earthquakeStyle';
+import { useEarthquakeStore } from '../../../stores';
+import {
+  MIN_MAINSHOCK_MAGNITUDE,
+  analyzeAftershocks,
+} from '../../../utils/aftershockForecast';
+import type { Earthquake } from '../../../types/earthquake';
+
+/**
+ * The event pinned in the detail panel, its highlight on the map, and an
+ * aftershock forecast when it is large enough to be a mainshock. The
+ * forecast runs from `forecastTime`, the latest time the catalog speaks for.
+ */
+export function useSelectedEarthquake(
+  earthquakes: Earthquake[],
+  forecastTime: number | null,
+  options: EarthquakeLayerOptions = {}
+) {
+  const selectedId = useEarthquakeStore((state) => state.selectedEarthquakeId);
+  const select = useEarthquakeStore((state) => state.selectEarthquake);
+
+  // Look the pinned event up by id so it follows refreshes and revisions
+  const selected = useMemo(
+    () =>
+      selectedId === null
+        ? null
+        : (earthquakes.find((eq) => eq.id === selectedId) ?? null),
+    [earthquakes, selectedId]
+  );
+
+  const aftershocks = useMemo(
+    () =>
+      selected &&
+      forecastTime !== null &&
+      selected.magnitude >= MIN_MAINSHOCK_MAGNITUDE
+        ? analyzeAftershocks(selected, earthquakes, forecastTime)
+        : null,
+    [selected, earthquakes, forecastTime]
+  );
+
+  const { verticalExaggeration } = options;
+  const layers = useMemo(
+    () =>
+      selected
+        ? [createSelectionLayer(selected, { verticalExaggeration })]
+        : [],
+    [selected, verticalExaggeration]
+  );
+
+  const clear = useCallback(() => select(null), [select]);
+
+  return { selectedId, selected, aftershocks, layers, select, clear };
+}
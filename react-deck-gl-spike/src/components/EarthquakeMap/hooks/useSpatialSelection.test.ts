@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useSpatialSelection } from './useSpatialSelection';
+import { useSpatialSelectionStore } from '../../../stores/spatialSelectionStore';
+import { createEarthquake } from '../../../test/earthquakeFixture';
+import type { LngLat } from '../../../types/spatialSelection';
+
+describe('useSpatialSelection', () => {
+  const square: LngLat[] = [
+    [-1, -1],
+    [1, -1],
+    [1, 1],
+    [-1, 1],
+  ];
+  const earthquakes = [
+    createEarthquake('inside'),
+    createEarthquake('outside', { longitude: 5 }),
+  ];
+
+  beforeEach(() => {
+    useSpatialSelectionStore.getState().reset();
+  });
+
+  it('adds the finished ring as a shape of the active tool', () => {
+    const { result } = renderHook(() => useSpatialSelection(earthquakes));
+
+    act(() => {
+      result.current.setActiveTool('polygon');
+    });
+    act(() => {
+      result.current.completeShape(square);
+    });
+
+    expect(result.current.shapes).toEqual([
+      { id: 'shape-1', tool: 'polygon', ring: square },
+    ]);
+    expect(result.current.activeTool).toBeNull();
+    expect(result.current.layers).toHaveLength(1);
+  });
+
+  it('ignores a ring finished with no tool active', () => {
+    const { result } = renderHook(() => useSpatialSelection(earthquakes));
+
+    act(() => {
+      result.current.completeShape(square);
+    });
+
+    expect(result.current.shapes).toEqual([]);
+    expect(result.current.layers).toEqual([]);
+  });
+
+  it('counts the events inside each shape', () => {
+    useSpatialSelectionStore.getState().addShape('rectangle', square);
+    const { result } = renderHook(() => useSpatialSelection(earthquakes));
+
+    expect(result.current.counts).toEqual({ 'shape-1': 1 });
+  });
+
+  it('drops the drawing tool on cancel', () => {
+    const { result } = renderHook(() => useSpatialSelection(earthquakes));
+
+    act(() => {
+      result.current.setActiveTool('lasso');
+    });
+    act(() => {
+      result.current.cancelDrawing();
+    });
+
+    expect(result.current.activeTool).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+import { useCallback, useMemo } from 'react';
+import { createSpatialSelectionLayer } from '../layers/spatialSelectionLayer';
+import { useSpatialSelectionStore } from '../../../stores';
+import { isInShape, shapeToGeoJSON } from '../../../utils/spatialSelection';
+import { downloadFile } from '../../../utils/downloadFile';
+import type { SelectionShape } from '../../../types/spatialSelection';
+import type { Earthquake } from '../../../types/earthquake';
+
+/**
+ * Lasso, polygon and rectangle selections: the drawing tool, the shapes and
+ * their layer, and how many of the given events fall inside each shape.
+ */
+export function useSpatialSelection(earthquakes: Earthquake[]) {
+  const shapes = useSpatialSelectionStore((state) => state.shapes);
+  const activeTool = useSpatialSelectionStore((state) => state.activeTool);
+  const setActiveTool = useSpatialSelectionStore(
+    (state) => state.setActiveTool
+  );
+  const addShape = useSpatialSelectionStore((state) => state.addShape);
+  const removeShape = useSpatialSelectionStore((state) => state.removeShape);
+  const clearShapes = useSpatialSelectionStore((state) => state.clearShapes);
+
+  const counts = useMemo(
+    () =>
+      Object.fromEntries(
+        shapes.map((shape) => [
+          shape.id,
+          earthquakes.filter((eq) => isInShape(eq, shape)).length,
+        ])
+      ),
+    [earthquakes, shapes]
+  );
+
+  const layers = useMemo(
+    () => (shapes.length > 0 ? [createSpatialSelectionLayer(shapes)] : []),
+    [shapes]
+  );
+
+  const exportShape = useCallback((shape: SelectionShape) => {
+    downloadFile(
+      JSON.stringify(shapeToGeoJSON(shape), null, 2),
+      `earthquake-selection-${shape.id}.geojson`,
+      'application/geo+json'
+    );
+  }, []);
+
+  const completeShape = useCallback(
+    (ring: SelectionShape['ring']) => {
+      if (activeTool) addShape(activeTool, ring);
+    },
+    [activeTool, addShape]
+  );
+
+  const cancelDrawing = useCallback(() => setActiveTool(null), [setActiveTool]);
+
+  return {
+    shapes,
+    activeTool,
+    counts,
+    layers,
+    setActiveTool,
+    removeShape,
+    clearShapes,
+    exportShape,
+    completeShape,
+    cancelDrawing,
+  };
+}
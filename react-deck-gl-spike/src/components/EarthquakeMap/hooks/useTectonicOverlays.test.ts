@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import type { PickingInfo } from '@deck.gl/core';
+import { useTectonicOverlays } from './useTectonicOverlays';
+import { useEarthquakeViewStore } from '../../../stores/earthquakeViewStore';
+import {
+  FAULT_LAYER_ID,
+  PLATE_BOUNDARY_LAYER_ID,
+} from '../layers/tectonicLayers';
+import { createEarthquake } from '../../../test/earthquakeFixture';
+
+describe('useTectonicOverlays', () => {
+  const japan = createEarthquake('japan', { longitude: 143.8, latitude: 38 });
+  const kansas = createEarthquake('kansas', { longitude: -98, latitude: 38 });
+
+  beforeEach(() => {
+    useEarthquakeViewStore.setState({
+      showPlateBoundaries: false,
+      showFaults: false,
+    });
+  });
+
+  it('measures each event’s distance to the nearest boundary', () => {
+    const { result } = renderHook(() =>
+      useTectonicOverlays([japan, kansas], null)
+    );
+
+    expect(result.current.boundaryDistances.japan).toBeLessThan(10);
+    expect(result.current.boundaryDistances.kansas).toBeGreaterThan(1000);
+  });
+
+  it('finds the boundary nearest the hovered event', () => {
+    const { result, rerender } = renderHook(
+      ({ hovered }) => useTectonicOverlays([japan], hovered),
+      { initialProps: { hovered: null as typeof japan | null } }
+    );
+    expect(result.current.nearestBoundary).toBeNull();
+
+    rerender({ hovered: japan });
+    expect(result.current.nearestBoundary?.distanceKm).toBeLessThan(10);
+  });
+
+  it('builds a layer for each overlay that is switched on', () => {
+    const { result } = renderHook(() => useTectonicOverlays([], null));
+    expect(result.current.layers).toEqual([]);
+
+    act(() => {
+      result.current.setShowFaults(true);
+    });
+    expect(result.current.layers.map((layer) => layer.id)).toEqual([
+      FAULT_LAYER_ID,
+    ]);
+
+    act(() => {
+      result.current.setShowPlateBoundaries(true);
+    });
+    expect(result.current.layers.map((layer) => layer.id)).toEqual([
+      PLATE_BOUNDARY_LAYER_ID,
+      FAULT_LAYER_ID,
+    ]);
+  });
+
+  it('tracks the boundary under the cursor and lets other picks through', () => {
+    const { result } = renderHook(() => useTectonicOverlays([], null));
+    const properties = {
+      name: 'Japan Trench',
+      type: 'convergent',
+      plates: 'Pacific / Okhotsk',
+    };
+
+    let handled = false;
+    act(() => {
+      handled = result.current.hoverOverlay({
+        object: { type: 'Feature', properties },
+        layer: { id: PLATE_BOUNDARY_LAYER_ID },
+        x: 10,
+        y: 20,
+      } as unknown as PickingInfo);
+    });
+    expect(handled).toBe(true);
+    expect(result.current.hoveredOverlay).toEqual({ properties, x: 10, y: 20 });
+
+    act(() => {
+      handled = result.current.hoverOverlay({ x: 0, y: 0 } as PickingInfo);
+    });
+    expect(handled).toBe(false);
+    expect(result.current.hoveredOverlay).toBeNull();
+  });
+
+  it('clears the hovered overlay', () => {
+    const { result } = renderHook(() => useTectonicOverlays([], null));
+    act(() => {
+      result.current.hoverOverlay({
+        object: { properties: { name: 'San Andreas Fault' } },
+        layer: { id: FAULT_LAYER_ID },
+        x: 0,
+        y: 0,
+      } as unknown as PickingInfo);
+    });
+
+    act(() => {
+      result.current.clearHoveredOverlay();
+    });
+    expect(result.current.hoveredOverlay).toBeNull();
+  });
+});
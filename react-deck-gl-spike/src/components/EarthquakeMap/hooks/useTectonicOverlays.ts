@@ -0,0 +1,109 @@
+import { useCallback, useMemo, useState } from 'react';
+import type { PickingInfo } from '@deck.gl/core';
+import type { Feature, Geometry } from 'geojson';
+import {
+  FAULT_LAYER_ID,
+  PLATE_BOUNDARY_LAYER_ID,
+  createFaultLayer,
+  createPlateBoundaryLayer,
+} from '../layers/tectonicLayers';
+import { useEarthquakeViewStore } from '../../../stores';
+import {
+  createBoundaryIndex,
+  getBoundaryDistances,
+  getNearestBoundary,
+} from '../../../utils/plateBoundaries';
+import { MAJOR_FAULTS, PLATE_BOUNDARIES } from '../../../data/tectonics';
+import type {
+  FaultProperties,
+  PlateBoundaryProperties,
+} from '../../../types/tectonics';
+import type { Earthquake } from '../../../types/earthquake';
+
+// Bundled with the app, so indexed once for every catalog
+const PLATE_BOUNDARY_INDEX = createBoundaryIndex(PLATE_BOUNDARIES);
+
+type OverlayProperties = PlateBoundaryProperties | FaultProperties;
+
+interface HoveredOverlay {
+  properties: OverlayProperties;
+  x: number;
+  y: number;
+}
+
+/**
+ * Plate boundary and fault overlays: their toggles and layers, each event's
+ * distance to the nearest boundary for the filter, and the boundary or fault
+ * under the cursor.
+ */
+export function useTectonicOverlays(
+  earthquakes: Earthquake[],
+  hoveredEarthquake: Earthquake | null
+) {
+  const showPlateBoundaries = useEarthquakeViewStore(
+    (state) => state.showPlateBoundaries
+  );
+  const showFaults = useEarthquakeViewStore((state) => state.showFaults);
+  const setShowPlateBoundaries = useEarthquakeViewStore(
+    (state) => state.setShowPlateBoundaries
+  );
+  const setShowFaults = useEarthquakeViewStore((state) => state.setShowFaults);
+
+  const [hoveredOverlay, setHoveredOverlay] = useState<HoveredOverlay | null>(
+    null
+  );
+
+  // Distance from each event to the nearest plate boundary, for the filter
+  const boundaryDistances = useMemo(
+    () => getBoundaryDistances(earthquakes, PLATE_BOUNDARY_INDEX),
+    [earthquakes]
+  );
+
+  // Closest plate boundary to the event under the cursor
+  const nearestBoundary = useMemo(
+    () =>
+      hoveredEarthquake
+        ? getNearestBoundary(hoveredEarthquake, PLATE_BOUNDARY_INDEX)
+        : null,
+    [hoveredEarthquake]
+  );
+
+  const layers = useMemo(
+    () => [
+      ...(showPlateBoundaries
+        ? [createPlateBoundaryLayer(PLATE_BOUNDARIES)]
+        : []),
+      ...(showFaults ? [createFaultLayer(MAJOR_FAULTS)] : []),
+    ],
+    [showPlateBoundaries, showFaults]
+  );
+
+  // Track the boundary or fault under the cursor. Returns false when the
+  // cursor is over anything else, so the caller can handle it.
+  const hoverOverlay = useCallback((info: PickingInfo) => {
+    const layerId = info.layer?.id;
+    if (layerId !== PLATE_BOUNDARY_LAYER_ID && layerId !== FAULT_LAYER_ID) {
+      setHoveredOverlay(null);
+      return false;
+    }
+
+    const feature = info.object as Feature<Geometry, OverlayProperties>;
+    setHoveredOverlay({ properties: feature.properties, x: info.x, y: info.y });
+    return true;
+  }, []);
+
+  const clearHoveredOverlay = useCallback(() => setHoveredOverlay(null), []);
+
+  return {
+    showPlateBoundaries,
+    showFaults,
+    setShowPlateBoundaries,
+    setShowFaults,
+    boundaryDistances,
+    nearestBoundary,
+    hoveredOverlay,
+    layers,
+    hoverOverlay,
+    clearHoveredOverlay,
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useViewportStats } from './useViewportStats';
+import { createEarthquake } from '../../../test/earthquakeFixture';
+
+describe('useViewportStats', () => {
+  const viewState = { longitude: 0, latitude: 0, zoom: 6 };
+  const earthquakes = [
+    createEarthquake('in-view', { longitude: 0.1 }),
+    createEarthquake('out-of-view', { longitude: 90 }),
+  ];
+
+  function eventCount(result: {
+    current: ReturnType<typeof useViewportStats>;
+  }) {
+    return result.current.energyRelease.cumulative.length;
+  }
+
+  it('covers the events inside the reported canvas', () => {
+    const { result } = renderHook(() =>
+      useViewportStats(earthquakes, viewState, false)
+    );
+
+    act(() => {
+      result.current.setViewportSize({ width: 800, height: 600 });
+    });
+
+    expect(eventCount(result)).toBe(1);
+  });
+
+  it('covers every event on the globe', () => {
+    const { result } = renderHook(() =>
+      useViewportStats(earthquakes, viewState, true)
+    );
+
+    expect(eventCount(result)).toBe(2);
+    expect(result.current.magnitudeFrequency.bins.length).toBeGreaterThan(0);
+  });
+});
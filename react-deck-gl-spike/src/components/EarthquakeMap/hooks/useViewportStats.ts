@@ -0,0 +1,48 @@
+import { useMemo, useState } from 'react';
+import type { MapViewState } from '@deck.gl/core';
+import { analyzeEnergyRelease } from '../layers/seismicEnergy';
+import { analyzeMagnitudeFrequency } from '../../../utils/gutenbergRichter';
+import {
+  filterByBounds,
+  getViewportBounds,
+} from '../../../utils/viewportBounds';
+import type { Earthquake } from '../../../types/earthquake';
+
+/**
+ * Magnitude-frequency and energy release for the events in view. The globe
+ * shows a whole hemisphere, so there they cover every event given. Report
+ * the map canvas size through `setViewportSize`.
+ */
+export function useViewportStats(
+  earthquakes: Earthquake[],
+  viewState: MapViewState,
+  isGlobe: boolean
+) {
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 });
+
+  const earthquakesInView = useMemo(
+    () =>
+      filterByBounds(
+        earthquakes,
+        isGlobe
+          ? undefined
+          : getViewportBounds(
+              viewState,
+              viewportSize.width,
+              viewportSize.height
+            )
+      ),
+    [earthquakes, isGlobe, viewState, viewportSize]
+  );
+
+  const magnitudeFrequency = useMemo(
+    () => analyzeMagnitudeFrequency(earthquakesInView),
+    [earthquakesInView]
+  );
+  const energyRelease = useMemo(
+    () => analyzeEnergyRelease(earthquakesInView),
+    [earthquakesInView]
+  );
+
+  return { magnitudeFrequency, energyRelease, setViewportSize };
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { AGE_CLASSES, ageToColor } from './ageColorScale';
+
+describe('ageToColor', () => {
+  const reference = new Date('2024-03-31T12:00:00Z').getTime();
+  const colorOf = (label: string) => [
+    ...AGE_CLASSES.find((ageClass) => ageClass.label === label)!.color,
+    180,
+  ];
+
+  it('colors events by how long before the reference they happened', () => {
+    expect(ageToColor('2024-03-31T11:30:00Z', reference)).toEqual(
+      colorOf('Past hour')
+    );
+    expect(ageToColor('2024-03-31T00:00:00Z', reference)).toEqual(
+      colorOf('Past day')
+    );
+    expect(ageToColor('2024-03-27T12:00:00Z', reference)).toEqual(
+      colorOf('Past week')
+    );
+    expect(ageToColor('2024-03-10T12:00:00Z', reference)).toEqual(
+      colorOf('Past month')
+    );
+    expect(ageToColor('2023-12-31T12:00:00Z', reference)).toEqual(
+      colorOf('Older')
+    );
+  });
+
+  it('puts events on a class boundary in the older class', () => {
+    expect(ageToColor('2024-03-31T11:00:00Z', reference)).toEqual(
+      colorOf('Past day')
+    );
+  });
+
+  it('treats events after the reference as the most recent', () => {
+    expect(ageToColor('2024-04-01T00:00:00Z', reference)).toEqual(
+      colorOf('Past hour')
+    );
+  });
+});
@@ -0,0 +1,35 @@
+import { HOUR_MS } from '../../../utils/time';
+
+type RGBA = [number, number, number, number];
+
+interface AgeClass {
+  /** Upper bound of the class (exclusive) */
+  maxAgeMs: number;
+  label: string;
+  color: readonly [number, number, number];
+}
+
+// Same classes as the USGS real-time maps: recent events stand out
+export const AGE_CLASSES: readonly AgeClass[] = [
+  { maxAgeMs: HOUR_MS, label: 'Past hour', color: [220, 38, 38] },
+  { maxAgeMs: 24 * HOUR_MS, label: 'Past day', color: [249, 115, 22] },
+  { maxAgeMs: 7 * 24 * HOUR_MS, label: 'Past week', color: [250, 204, 21] },
+  {
+    maxAgeMs: 30 * 24 * HOUR_MS,
+    label: 'Past month',
+    color: [254, 240, 138],
+  },
+  { maxAgeMs: Infinity, label: 'Older', color: [156, 163, 175] },
+];
+
+/**
+ * Color for an event by how long before `referenceTime` (epoch ms) it
+ * happened. Events after the reference count as the most recent.
+ */
+export function ageToColor(timestamp: string, referenceTime: number): RGBA {
+  const age = referenceTime - new Date(timestamp).getTime();
+  const ageClass =
+    AGE_CLASSES.find(({ maxAgeMs }) => age < maxAgeMs) ??
+    AGE_CLASSES[AGE_CLASSES.length - 1];
+  return [...ageClass.color, 180];
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  GridLayer,
+  HeatmapLayer,
+  HexagonLayer,
+} from '@deck.gl/aggregation-layers';
+import {
+  BIN_COLOR_RANGE,
+  GRID_CELL_SIZE,
+  HEXAGON_RADIUS,
+  createAggregationLayer,
+  createGridLayer,
+  createHeatmapLayer,
+  createHexagonLayer,
+  getMetricWeight,
+} from './aggregationLayers';
+import { magnitudeToEnergy } from './seismicEnergy';
+import type { Earthquake } from '../../../types/earthquake';
+
+describe('aggregationLayers', () => {
+  const mockEarthquakes: Earthquake[] = [
+    {
+      id: '1',
+      longitude: -122.5,
+      latitude: 37.5,
+      depth: 10,
+      magnitude: 4.5,
+      timestamp: '2024-01-01T00:00:00Z',
+      location: 'San Francisco, CA',
+    },
+    {
+      id: 'invalid',
+      longitude: 200,
+      latitude: 37.5,
+      depth: 10,
+      magnitude: 3,
+      timestamp: '2024-01-01T00:00:00Z',
+      location: 'Nowhere',
+    },
+  ];
+
+  describe('getMetricWeight', () => {
+    it('weights every event equally for counts', () => {
+      expect(getMetricWeight('count')(mockEarthquakes[0])).toBe(1);
+    });
+
+    it('weights by magnitude for max magnitude', () => {
+      expect(getMetricWeight('maxMagnitude')(mockEarthquakes[0])).toBe(4.5);
+    });
+
+    it('weights by radiated energy for energy', () => {
+      expect(getMetricWeight('energy')(mockEarthquakes[0])).toBe(
+        magnitudeToEnergy(4.5)
+      );
+    });
+  });
+
+  describe('createHeatmapLayer', () => {
+    it('returns a HeatmapLayer of valid events', () => {
+      const layer = createHeatmapLayer(mockEarthquakes, 'count');
+
+      expect(layer).toBeInstanceOf(HeatmapLayer);
+      expect(layer.id).toBe('earthquake-heatmap-layer');
+      expect(layer.props.data).toHaveLength(1);
+      expect(layer.props.colorRange).toEqual(BIN_COLOR_RANGE);
+    });
+
+    it('sums weights for count and energy', () => {
+      expect(
+        createHeatmapLayer(mockEarthquakes, 'count').props.aggregation
+      ).toBe('SUM');
+      expect(
+        createHeatmapLayer(mockEarthquakes, 'energy').props.aggregation
+      ).toBe('SUM');
+    });
+
+    it('averages magnitudes for the max magnitude metric', () => {
+      const layer = createHeatmapLayer(mockEarthquakes, 'maxMagnitude');
+
+      expect(layer.props.aggregation).toBe('MEAN');
+    });
+  });
+
+  describe('createHexagonLayer', () => {
+    it('returns a HexagonLayer with CPU aggregation', () => {
+      const layer = createHexagonLayer(mockEarthquakes, 'count');
+
+      expect(layer).toBeInstanceOf(HexagonLayer);
+      expect(layer.id).toBe('earthquake-hexagon-layer');
+      expect(layer.props.radius).toBe(HEXAGON_RADIUS);
+      expect(layer.props.gpuAggregation).toBe(false);
+      expect(layer.props.colorAggregation).toBe('SUM');
+    });
+
+    it('takes the maximum for the max magnitude metric', () => {
+      const layer = createHexagonLayer(mockEarthquakes, 'maxMagnitude');
+
+      expect(layer.props.colorAggregation).toBe('MAX');
+    });
+
+    it('forwards the color domain callback', () => {
+      const onSetColorDomain = vi.fn();
+      const layer = createHexagonLayer(mockEarthquakes, 'count', {
+        onSetColorDomain,
+      });
+
+      expect(layer.props.onSetColorDomain).toBe(onSetColorDomain);
+    });
+  });
+
+  describe('createGridLayer', () => {
+    it('returns a GridLayer with the configured cell size', () => {
+      const layer = createGridLayer(mockEarthquakes, 'energy');
+
+      expect(layer).toBeInstanceOf(GridLayer);
+      expect(layer.id).toBe('earthquake-grid-layer');
+      expect(layer.props.cellSize).toBe(GRID_CELL_SIZE);
+      expect(layer.props.colorAggregation).toBe('SUM');
+    });
+  });
+
+  describe('createAggregationLayer', () => {
+    it('creates the layer for each aggregate mode', () => {
+      expect(
+        createAggregationLayer('heatmap', mockEarthquakes, 'count')
+      ).toBeInstanceOf(HeatmapLayer);
+      expect(
+        createAggregationLayer('hexagon', mockEarthquakes, 'count')
+      ).toBeInstanceOf(HexagonLayer);
+      expect(
+        createAggregationLayer('grid', mockEarthquakes, 'count')
+      ).toBeInstanceOf(GridLayer);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  GridLayer,
+  HeatmapLayer,
+  HexagonLayer,
+} from '@deck.gl/aggregation-layers';
+import type { Color } from '@deck.gl/core';
+import type { Earthquake } from '../../../types/earthquake';
+import type {
+  AggregateViewMode,
+  BinMetric,
+} from '../../../types/earthquakeView';
+import { filterValidEarthquakes } from '../../../utils/validateCoordinates';
+import { magnitudeToEnergy } from './seismicEnergy';
+
+// Yellow → dark red, matching the depth palette's warm tones
+export const BIN_COLOR_RANGE: Color[] = [
+  [255, 255, 178],
+  [254, 217, 118],
+  [254, 178, 76],
+  [253, 141, 60],
+  [240, 59, 32],
+  [189, 0, 38],
+];
+
+export const HEXAGON_RADIUS = 50_000; // meters
+export const GRID_CELL_SIZE = 100_000; // meters
+export const HEATMAP_RADIUS_PIXELS = 30;
+
+export interface AggregationLayerOptions {
+  /** Receives the [min, max] bin value range for the legend */
+  onSetColorDomain?: (domain: [number, number]) => void;
+}
+
+/**
+ * Per-event weight for a bin metric: 1 for counts, the magnitude for
+ * maximum magnitude and radiated energy for summed energy.
+ */
+export function getMetricWeight(metric: BinMetric): (d: Earthquake) => number {
+  switch (metric) {
+    case 'maxMagnitude':
+      return (d) => d.magnitude;
+    case 'energy':
+      return (d) => magnitudeToEnergy(d.magnitude);
+    default:
+      return () => 1;
+  }
+}
+
+function getBinAggregation(metric: BinMetric): 'SUM' | 'MAX' {
+  return metric === 'maxMagnitude' ? 'MAX' : 'SUM';
+}
+
+/**
+ * Density heatmap. Heatmaps can only sum or average weights, so the
+ * max-magnitude metric is shown as the mean magnitude of nearby events.
+ */
+export function createHeatmapLayer(data: Earthquake[], metric: BinMetric) {
+  return new HeatmapLayer<Earthquake>({
+    id: 'earthquake-heatmap-layer',
+    data: filterValidEarthquakes(data),
+    radiusPixels: HEATMAP_RADIUS_PIXELS,
+    colorRange: BIN_COLOR_RANGE,
+    aggregation: metric === 'maxMagnitude' ? 'MEAN' : 'SUM',
+    getPosition: (d) => [d.longitude, d.latitude],
+    getWeight: getMetricWeight(metric),
+    updateTriggers: {
+      getWeight: metric,
+    },
+  });
+}
+
+export function createHexagonLayer(
+  data: Earthquake[],
+  metric: BinMetric,
+  options: AggregationLayerOptions = {}
+) {
+  return new HexagonLayer<Earthquake>({
+    id: 'earthquake-hexagon-layer',
+    data: filterValidEarthquakes(data),
+    radius: HEXAGON_RADIUS,
+    coverage: 0.9,
+    opacity: 0.7,
+    colorRange: BIN_COLOR_RANGE,
+    // CPU aggregation supports MAX and reports the color domain
+    gpuAggregation: false,
+    colorAggregation: getBinAggregation(metric),
+    getPosition: (d) => [d.longitude, d.latitude],
+    getColorWeight: getMetricWeight(metric),
+    onSetColorDomain: options.onSetColorDomain,
+    updateTriggers: {
+      getColorWeight: metric,
+    },
+  });
+}
+
+export function createGridLayer(
+  data: Earthquake[],
+  metric: BinMetric,
+  options: AggregationLayerOptions = {}
+) {
+  return new GridLayer<Earthquake>({
+    id: 'earthquake-grid-layer',
+    data: filterValidEarthquakes(data),
+    cellSize: GRID_CELL_SIZE,
+    coverage: 0.9,
+    opacity: 0.7,
+    colorRange: BIN_COLOR_RANGE,
+    gpuAggregation: false,
+    colorAggregation: getBinAggregation(metric),
+    getPosition: (d) => [d.longitude, d.latitude],
+    getColorWeight: getMetricWeight(metric),
+    onSetColorDomain: options.onSetColorDomain,
+    updateTriggers: {
+      getColorWeight: metric,
+    },
+  });
+}
+
+/**
+ * Aggregate layer for a non-point view mode.
+ */
+export function createAggregationLayer(
+  mode: AggregateViewMode,
+  data: Earthquake[],
+  metric: BinMetric,
+  options: AggregationLayerOptions = {}
+) {
+  switch (mode) {
+    case 'heatmap':
+      return createHeatmapLayer(data, metric);
+    case 'hexagon':
+      return createHexagonLayer(data, metric, options);
+    case 'grid':
+      return createGridLayer(data, metric, options);
+  }
+}
@@ -0,0 +1,14 @@
+import { describe, it, expect } from 'vitest';
+import { ALERT_COLORS, NO_ALERT_COLOR, alertToColor } from './alertColorScale';
+
+describe('alertToColor', () => {
+  it('uses the PAGER color for each alert level', () => {
+    expect(alertToColor('green')).toEqual([...ALERT_COLORS.green, 220]);
+    expect(alertToColor('red')).toEqual([...ALERT_COLORS.red, 220]);
+  });
+
+  it('mutes events without an alert', () => {
+    expect(alertToColor(undefined)).toEqual(NO_ALERT_COLOR);
+    expect(alertToColor('yellow')[3]).toBeGreaterThan(NO_ALERT_COLOR[3]);
+  });
+});
@@ -0,0 +1,24 @@
+import type { AlertLevel } from '../../../types/earthquake';
+
+type RGBA = [number, number, number, number];
+
+// Official PAGER alert colors
+export const ALERT_COLORS: Record<
+  AlertLevel,
+  readonly [number, number, number]
+> = {
+  green: [0, 176, 80],
+  yellow: [255, 215, 0],
+  orange: [255, 140, 0],
+  red: [230, 0, 0],
+};
+
+/** Muted gray for events without a PAGER assessment */
+export const NO_ALERT_COLOR: RGBA = [128, 128, 128, 100];
+
+/**
+ * Color for a PAGER alert level. Most events have none.
+ */
+export function alertToColor(alert: AlertLevel | undefined): RGBA {
+  return alert ? [...ALERT_COLORS[alert], 220] : NO_ALERT_COLOR;
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { ScatterplotLayer, TextLayer } from '@deck.gl/layers';
+import {
+  CLUSTER_LAYER_ID,
+  clusterRadius,
+  createClusterLayers,
+  getClusterLabel,
+} from './clusterLayer';
+import { magnitudeToColor } from './magnitudeColorScale';
+import type { EarthquakeCluster } from '../../../utils/earthquakeClusters';
+
+describe('clusterLayer', () => {
+  const cluster: EarthquakeCluster = {
+    clusterId: 1,
+    longitude: 142,
+    latitude: 38,
+    count: 120,
+    maxMagnitude: 7.14,
+  };
+
+  it('labels clusters with the count and largest magnitude', () => {
+    expect(getClusterLabel(cluster)).toBe('120\nM7.1');
+    expect(getClusterLabel({ ...cluster, count: 12_345 })).toBe('12.3k\nM7.1');
+    expect(getClusterLabel({ ...cluster, count: 2000 })).toBe('2k\nM7.1');
+  });
+
+  it('grows bubbles with the event count up to a limit', () => {
+    expect(clusterRadius(10)).toBeLessThan(clusterRadius(100));
+    expect(clusterRadius(1_000_000)).toBe(40);
+  });
+
+  it('draws pickable bubbles with unpickable labels', () => {
+    const [bubbles, labels] = createClusterLayers([cluster]);
+
+    expect(bubbles).toBeInstanceOf(ScatterplotLayer);
+    expect(bubbles.id).toBe(CLUSTER_LAYER_ID);
+    expect(bubbles.props.pickable).toBe(true);
+    expect(labels).toBeInstanceOf(TextLayer);
+    expect(labels.props.pickable).toBe(false);
+  });
+
+  it('colors bubbles by their largest magnitude', () => {
+    const [bubbles] = createClusterLayers([cluster]);
+    const getFillColor = (bubbles as ScatterplotLayer<EarthquakeCluster>).props
+      .getFillColor as unknown as (d: EarthquakeCluster) => number[];
+    const [r, g, b] = magnitudeToColor(7.14);
+
+    expect(getFillColor(cluster)).toEqual([r, g, b, 200]);
+  });
+});
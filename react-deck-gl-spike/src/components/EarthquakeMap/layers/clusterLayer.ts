@@ -0,0 +1,74 @@
+import { ScatterplotLayer, TextLayer } from '@deck.gl/layers';
+import { COORDINATE_SYSTEM } from '@deck.gl/core';
+import type { EarthquakeCluster } from '../../../utils/earthquakeClusters';
+import { magnitudeToColor } from './magnitudeColorScale';
+
+export const CLUSTER_LAYER_ID = 'earthquake-cluster-layer';
+
+const MIN_BUBBLE_RADIUS = 14; // pixels
+const MAX_BUBBLE_RADIUS = 40; // pixels
+
+/**
+ * Bubble radius in pixels, growing with the log of the event count so
+ * clusters of thousands stay on screen.
+ */
+export function clusterRadius(count: number): number {
+  return Math.min(
+    MAX_BUBBLE_RADIUS,
+    MIN_BUBBLE_RADIUS + 4 * Math.log2(Math.max(1, count))
+  );
+}
+
+/**
+ * Label with the event count over the largest magnitude, e.g. "1.2k\nM7.1"
+ */
+export function getClusterLabel(cluster: EarthquakeCluster): string {
+  const count =
+    cluster.count >= 1000
+      ? `${(cluster.count / 1000).toFixed(1).replace(/\.0$/, '')}k`
+      : `${cluster.count}`;
+  return `${count}\nM${cluster.maxMagnitude.toFixed(1)}`;
+}
+
+/**
+ * Count bubbles for clustered events, colored by their largest magnitude.
+ * Clicking a bubble zooms in to expand it.
+ */
+export function createClusterLayers(clusters: EarthquakeCluster[]) {
+  return [
+    new ScatterplotLayer<EarthquakeCluster>({
+      id: CLUSTER_LAYER_ID,
+      data: clusters,
+      coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+      pickable: true,
+      stroked: true,
+      filled: true,
+      radiusUnits: 'pixels',
+      lineWidthUnits: 'pixels',
+      getLineWidth: 2,
+      getPosition: (d) => [d.longitude, d.latitude],
+      getRadius: (d) => clusterRadius(d.count),
+      getFillColor: (d) => {
+        const [r, g, b] = magnitudeToColor(d.maxMagnitude);
+        return [r, g, b, 200];
+      },
+      getLineColor: [255, 255, 255, 200],
+    }),
+    new TextLayer<EarthquakeCluster>({
+      id: 'earthquake-cluster-labels',
+      data: clusters,
+      coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+      pickable: false,
+      getPosition: (d) => [d.longitude, d.latitude],
+      getText: getClusterLabel,
+      getSize: 11,
+      getColor: [255, 255, 255, 255],
+      getTextAnchor: 'middle',
+      getAlignmentBaseline: 'center',
+      fontWeight: 'bold',
+      outlineWidth: 2,
+      outlineColor: [17, 24, 39, 255],
+      fontSettings: { sdf: true },
+    }),
+  ];
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PathLayer,
+  PolygonLayer,
+  ScatterplotLayer,
+  TextLayer,
+} from '@deck.gl/layers';
+import {
+  createCrossSectionHoverLayer,
+  createCrossSectionLayers,
+  createCrossSectionStartLayer,
+} from './crossSectionLayer';
+import type { CrossSectionLine } from '../../../types/crossSection';
+import type { Earthquake } from '../../../types/earthquake';
+import { getSwathRing } from '../../../utils/crossSection';
+
+describe('crossSectionLayer', () => {
+  const line: CrossSectionLine = { start: [140, 35], end: [145, 40] };
+
+  it('draws the swath, line and end labels without picking', () => {
+    const [swath, path, labels] = createCrossSectionLayers(line, 50);
+
+    expect(swath).toBeInstanceOf(PolygonLayer);
+    expect(swath.id).toBe('cross-section-swath');
+    expect(path).toBeInstanceOf(PathLayer);
+    expect(path.id).toBe('cross-section-line');
+    expect(labels).toBeInstanceOf(TextLayer);
+    for (const layer of [swath, path, labels]) {
+      expect(layer.props.pickable).toBe(false);
+    }
+  });
+
+  it('outlines the swath at the chosen width', () => {
+    const [swath] = createCrossSectionLayers(line, 100);
+    const getPolygon = (swath as PolygonLayer<CrossSectionLine>).props
+      .getPolygon as unknown as (d: CrossSectionLine) => [number, number][];
+
+    expect(getPolygon(line)).toEqual(getSwathRing(line, 100));
+    expect(swath.props.updateTriggers).toEqual({ getPolygon: 100 });
+  });
+
+  it('labels the ends A and A′', () => {
+    const [, , labels] = createCrossSectionLayers(line, 50);
+
+    expect(labels.props.data).toEqual([
+      { position: [140, 35], text: 'A' },
+      { position: [145, 40], text: 'A′' },
+    ]);
+  });
+
+  it('marks the first end while drawing', () => {
+    const layer = createCrossSectionStartLayer([140, 35]);
+
+    expect(layer).toBeInstanceOf(ScatterplotLayer);
+    expect(layer.id).toBe('cross-section-start');
+    expect(layer.props.data).toEqual([[140, 35]]);
+  });
+
+  it('rings the event hovered in the chart', () => {
+    const earthquake: Earthquake = {
+      id: 'us1',
+      longitude: 142,
+      latitude: 38,
+      depth: 30,
+      magnitude: 5,
+      timestamp: '2024-01-01T00:00:00Z',
+      location: 'Test',
+    };
+    const layer = createCrossSectionHoverLayer(earthquake);
+
+    expect(layer.id).toBe('cross-section-hover-layer');
+    expect(layer.props.data).toEqual([earthquake]);
+    expect(layer.props.pickable).toBe(false);
+  });
+});
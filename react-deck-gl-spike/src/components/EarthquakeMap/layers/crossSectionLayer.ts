@@ -0,0 +1,117 @@
+import {
+  PathLayer,
+  PolygonLayer,
+  ScatterplotLayer,
+  TextLayer,
+} from '@deck.gl/layers';
+import { COORDINATE_SYSTEM } from '@deck.gl/core';
+import type { Earthquake } from '../../../types/earthquake';
+import type { CrossSectionLine } from '../../../types/crossSection';
+import type { LngLat } from '../../../types/spatialSelection';
+import { getSwathRing } from '../../../utils/crossSection';
+import { getEarthquakePosition } from './depthProjection';
+import type { EarthquakeLayerOptions } from './earthquakeStyle';
+
+const PROFILE_COLOR: [number, number, number] = [34, 211, 238];
+
+interface CrossSectionLabel {
+  position: LngLat;
+  text: string;
+}
+
+/**
+ * Swath outline and profile line, with the ends labelled A and A′ to match
+ * the chart, drawn beneath the events.
+ */
+export function createCrossSectionLayers(
+  line: CrossSectionLine,
+  widthKm: number
+) {
+  return [
+    new PolygonLayer<CrossSectionLine>({
+      id: 'cross-section-swath',
+      data: [line],
+      coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+      pickable: false,
+      filled: true,
+      stroked: true,
+      lineWidthUnits: 'pixels',
+      getLineWidth: 1,
+      getPolygon: (d) => getSwathRing(d, widthKm),
+      getFillColor: [...PROFILE_COLOR, 30],
+      getLineColor: [...PROFILE_COLOR, 160],
+      updateTriggers: {
+        getPolygon: widthKm,
+      },
+    }),
+    new PathLayer<CrossSectionLine>({
+      id: 'cross-section-line',
+      data: [line],
+      coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+      pickable: false,
+      widthUnits: 'pixels',
+      getWidth: 2,
+      getPath: (d) => [d.start, d.end],
+      getColor: [...PROFILE_COLOR, 255],
+    }),
+    new TextLayer<CrossSectionLabel>({
+      id: 'cross-section-labels',
+      data: [
+        { position: line.start, text: 'A' },
+        { position: line.end, text: 'A′' },
+      ],
+      coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+      pickable: false,
+      getPosition: (d) => d.position,
+      getText: (d) => d.text,
+      getSize: 14,
+      getColor: [...PROFILE_COLOR, 255],
+      getPixelOffset: [0, -14],
+      fontWeight: 'bold',
+      characterSet: ['A', '′'],
+    }),
+  ];
+}
+
+/**
+ * Marker for the first end of a line being drawn.
+ */
+export function createCrossSectionStartLayer(point: LngLat) {
+  return new ScatterplotLayer<LngLat>({
+    id: 'cross-section-start',
+    data: [point],
+    coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+    pickable: false,
+    radiusUnits: 'pixels',
+    getRadius: 5,
+    getPosition: (d) => d,
+    getFillColor: [...PROFILE_COLOR, 255],
+  });
+}
+
+/**
+ * Ring around the event hovered in the cross-section chart.
+ */
+export function createCrossSectionHoverLayer(
+  earthquake: Earthquake,
+  { verticalExaggeration = null }: EarthquakeLayerOptions = {}
+) {
+  return new ScatterplotLayer<Earthquake>({
+    id: 'cross-section-hover-layer',
+    data: [earthquake],
+    coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+    pickable: false,
+    stroked: true,
+    filled: false,
+    radiusUnits: 'pixels',
+    lineWidthUnits: 'pixels',
+    billboard: verticalExaggeration !== null,
+    getRadius: 10,
+    getLineWidth: 2,
+    getLineColor: [...PROFILE_COLOR, 255],
+    getPosition: (d) => getEarthquakePosition(d, verticalExaggeration),
+    updateTriggers: {
+      getPosition: verticalExaggeration,
+    },
+  });
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { PathLayer, TextLayer } from '@deck.gl/layers';
+import {
+  createDepthGridLayers,
+  getDepthGridLevels,
+  getDepthGridPaths,
+} from './depthGridLayer';
+import type { BoundingBox } from '../../../api/fdsnEvents';
+
+describe('depthGridLayer', () => {
+  const bounds: BoundingBox = {
+    minLongitude: 130,
+    minLatitude: 30,
+    maxLongitude: 145,
+    maxLatitude: 45,
+  };
+
+  describe('getDepthGridLevels', () => {
+    it('spans the surface to 700 km every 100 km', () => {
+      expect(getDepthGridLevels()).toEqual([
+        0, 100, 200, 300, 400, 500, 600, 700,
+      ]);
+    });
+
+    it('supports a custom interval', () => {
+      expect(getDepthGridLevels(350)).toEqual([0, 350, 700]);
+    });
+  });
+
+  describe('getDepthGridPaths', () => {
+    it('draws a closed outline for each depth plane', () => {
+      const paths = getDepthGridPaths(bounds, 1);
+      const plane = paths.find((p) => p.depth === 100)!;
+
+      expect(plane.path).toHaveLength(5);
+      expect(plane.path[0]).toEqual(plane.path[4]);
+      expect(plane.path.every((position) => position[2] === -100_000)).toBe(
+        true
+      );
+    });
+
+    it('adds vertical edges at the four corners', () => {
+      const paths = getDepthGridPaths(bounds, 2);
+      const edges = paths.filter((p) => p.path.length === 2);
+
+      expect(edges).toHaveLength(4);
+      expect(edges[0].path).toEqual([
+        [130, 30, 0],
+        [130, 30, -1_400_000],
+      ]);
+    });
+  });
+
+  describe('createDepthGridLayers', () => {
+    it('returns outline and label layers', () => {
+      const [grid, labels] = createDepthGridLayers(bounds, 5);
+
+      expect(grid).toBeInstanceOf(PathLayer);
+      expect(grid.id).toBe('depth-grid-layer');
+      expect(labels).toBeInstanceOf(TextLayer);
+      expect(labels.id).toBe('depth-grid-labels');
+    });
+
+    it('labels each depth plane', () => {
+      const [, labels] = createDepthGridLayers(bounds, 5);
+      const data = labels.props.data as { text: string; position: number[] }[];
+
+      expect(data.map((d) => d.text)).toContain('300 km');
+      expect(data.find((d) => d.text === '300 km')!.position).toEqual([
+        130, 30, -1_500_000,
+      ]);
+    });
+
+    it('is not pickable', () => {
+      const layers = createDepthGridLayers(bounds, 5);
+
+      layers.forEach((layer) => expect(layer.props.pickable).toBe(false));
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { PathLayer, TextLayer } from '@deck.gl/layers';
+import type { Position } from '@deck.gl/core';
+import type { BoundingBox } from '../../../api/fdsnEvents';
+import { MAX_DEPTH } from './depthColorScale';
+import { depthToElevation } from './depthProjection';
+
+export const DEPTH_GRID_INTERVAL_KM = 100;
+
+const GRID_COLOR: [number, number, number, number] = [100, 116, 139, 160];
+const SURFACE_COLOR: [number, number, number, number] = [59, 130, 246, 200];
+
+interface DepthGridPath {
+  path: Position[];
+  depth: number;
+}
+
+interface DepthGridLabel {
+  position: Position;
+  text: string;
+}
+
+/**
+ * Depths in km drawn as reference planes, from the surface to MAX_DEPTH.
+ */
+export function getDepthGridLevels(
+  interval: number = DEPTH_GRID_INTERVAL_KM
+): number[] {
+  const levels: number[] = [];
+  for (let depth = 0; depth <= MAX_DEPTH; depth += interval) {
+    levels.push(depth);
+  }
+  return levels;
+}
+
+/**
+ * Outlines of each depth plane plus vertical edges at the corners.
+ */
+export function getDepthGridPaths(
+  bounds: BoundingBox,
+  verticalExaggeration: number
+): DepthGridPath[] {
+  const { minLongitude, minLatitude, maxLongitude, maxLatitude } = bounds;
+  const corners: [number, number][] = [
+    [minLongitude, minLatitude],
+    [maxLongitude, minLatitude],
+    [maxLongitude, maxLatitude],
+    [minLongitude, maxLatitude],
+  ];
+
+  const planes = getDepthGridLevels().map((depth): DepthGridPath => {
+    const z = depthToElevation(depth, verticalExaggeration);
+    return {
+      depth,
+      path: [...corners, corners[0]].map(([lng, lat]) => [lng, lat, z]),
+    };
+  });
+
+  const bottom = depthToElevation(MAX_DEPTH, verticalExaggeration);
+  const edges = corners.map(
+    ([lng, lat]): DepthGridPath => ({
+      depth: MAX_DEPTH,
+      path: [
+        [lng, lat, 0],
+        [lng, lat, bottom],
+      ],
+    })
+  );
+
+  return [...planes, ...edges];
+}
+
+/**
+ * Reference grid for the 3D depth view: a box of depth planes every
+ * DEPTH_GRID_INTERVAL_KM under `bounds`, labelled at one corner.
+ */
+export function createDepthGridLayers(
+  bounds: BoundingBox,
+  verticalExaggeration: number
+) {
+  const labels: DepthGridLabel[] = getDepthGridLevels().map((depth) => ({
+    position: [
+      bounds.minLongitude,
+      bounds.minLatitude,
+      depthToElevation(depth, verticalExaggeration),
+    ],
+    text: `${depth} km`,
+  }));
+
+  return [
+    new PathLayer<DepthGridPath>({
+      id: 'depth-grid-layer',
+      data: getDepthGridPaths(bounds, verticalExaggeration),
+      pickable: false,
+      widthUnits: 'pixels',
+      getWidth: 1,
+      getPath: (d) => d.path,
+      getColor: (d) => (d.depth === 0 ? SURFACE_COLOR : GRID_COLOR),
+    }),
+    new TextLayer<DepthGridLabel>({
+      id: 'depth-grid-labels',
+      data: labels,
+      pickable: false,
+      getPosition: (d) => d.position,
+      getText: (d) => d.text,
+      getSize: 12,
+      getColor: [226, 232, 240, 255],
+      getTextAnchor: 'end',
+      getAlignmentBaseline: 'center',
+      getPixelOffset: [-6, 0],
+      background: true,
+      getBackgroundColor: [17, 24, 39, 200],
+    }),
+  ];
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { depthToElevation, getEarthquakePosition } from './depthProjection';
+import type { Earthquake } from '../../../types/earthquake';
+
+describe('depthProjection', () => {
+  const earthquake: Earthquake = {
+    id: '1',
+    longitude: 142.4,
+    latitude: 38.3,
+    depth: 29,
+    magnitude: 9.1,
+    timestamp: '2011-03-11T05:46:24Z',
+    location: 'Tohoku, Japan',
+  };
+
+  describe('depthToElevation', () => {
+    it('converts depth in km to negative meters', () => {
+      expect(depthToElevation(10, 1)).toBe(-10_000);
+    });
+
+    it('applies the vertical exaggeration', () => {
+      expect(depthToElevation(100, 5)).toBe(-500_000);
+    });
+
+    it('keeps events above sea level at the surface', () => {
+      expect(depthToElevation(-2, 10)).toBe(-0);
+    });
+  });
+
+  describe('getEarthquakePosition', () => {
+    it('returns the epicenter without exaggeration', () => {
+      expect(getEarthquakePosition(earthquake)).toEqual([142.4, 38.3]);
+      expect(getEarthquakePosition(earthquake, null)).toEqual([142.4, 38.3]);
+    });
+
+    it('returns the hypocenter at exaggerated depth', () => {
+      expect(getEarthquakePosition(earthquake, 2)).toEqual([
+        142.4, 38.3, -58_000,
+      ]);
+    });
+  });
+});
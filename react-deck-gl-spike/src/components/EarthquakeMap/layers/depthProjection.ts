@@ -0,0 +1,33 @@
+import type { Position } from '@deck.gl/core';
+import type { Earthquake } from '../../../types/earthquake';
+
+/**
+ * Elevation in meters of a hypocenter below the surface, stretched by the
+ * vertical exaggeration so shallow structure is visible at map scale.
+ *
+ * @param depthKm - Depth below sea level in kilometers
+ * @param verticalExaggeration - Multiplier applied to depth
+ * @returns Negative elevation in meters
+ */
+export function depthToElevation(
+  depthKm: number,
+  verticalExaggeration: number
+): number {
+  return -Math.max(0, depthKm) * 1000 * verticalExaggeration;
+}
+
+/**
+ * Layer position for an earthquake: the epicenter on the surface, or the
+ * hypocenter at (exaggerated) depth when a 3D view is active.
+ */
+export function getEarthquakePosition(
+  d: Earthquake,
+  verticalExaggeration?: number | null
+): Position {
+  if (!verticalExaggeration) return [d.longitude, d.latitude];
+  return [
+    d.longitude,
+    d.latitude,
+    depthToElevation(d.depth, verticalExaggeration),
+  ];
+}
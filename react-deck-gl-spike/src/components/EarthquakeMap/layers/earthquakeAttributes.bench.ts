@@ -0,0 +1,75 @@
+import { bench, describe } from 'vitest';
+import {
+  createEarthquakeAttributes,
+  getEarthquakeFilterRange,
+} from './earthquakeAttributes';
+import { createEarthquakeLayer } from './earthquakeLayer';
+import { createSyntheticCatalog } from '../../../test/syntheticCatalog';
+import {
+  filterByDateRange,
+  filterByDepth,
+  filterByMagnitude,
+} from '../../../utils/filterEarthquakes';
+import type { FilterState } from '../../../types/filters';
+
+// Compares the cost of one filter change with the range filters in JS
+// (filter the events, then rebuild every buffer) against the GPU (move the
+// filter range over buffers built once). Run with `npm run bench`.
+
+const CATALOG_SIZES = [100_000, 1_000_000];
+
+// Each run moves the magnitude handle a step, as a drag would
+let step = 0;
+function nextFilters(): FilterState {
+  step = (step + 1) % 30;
+  return {
+    dateRange: {
+      startDate: new Date(Date.UTC(2021, 0, 1)),
+      endDate: new Date(Date.UTC(2024, 0, 1)),
+    },
+    magnitudeRange: { min: 2 + step / 10, max: null },
+    depthRange: { min: null, max: 300 },
+    boundaryDistanceRange: { min: null, max: null },
+  };
+}
+
+for (const count of CATALOG_SIZES) {
+  describe(`${count.toLocaleString('en-US')} events over five years`, () => {
+    const catalog = createSyntheticCatalog({ count, years: 5 });
+    const attributes = createEarthquakeAttributes(catalog);
+
+    bench(
+      'filter in JS and rebuild buffers',
+      () => {
+        const { dateRange, magnitudeRange, depthRange } = nextFilters();
+        const filtered = filterByDepth(
+          filterByMagnitude(
+            filterByDateRange(catalog, dateRange),
+            magnitudeRange
+          ),
+          depthRange
+        );
+        createEarthquakeLayer(createEarthquakeAttributes(filtered));
+      },
+      { time: 2000 }
+    );
+
+    bench(
+      'move the GPU filter range',
+      () => {
+        createEarthquakeLayer(attributes, {
+          filterRange: getEarthquakeFilterRange(nextFilters(), attributes),
+        });
+      },
+      { time: 2000 }
+    );
+
+    bench(
+      'build buffers (once per catalog and style)',
+      () => {
+        createEarthquakeAttributes(catalog);
+      },
+      { time: 2000 }
+    );
+  });
+}
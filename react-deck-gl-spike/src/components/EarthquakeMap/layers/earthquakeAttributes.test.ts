@@ -0,0 +1,299 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FILTER_SIZE,
+  MISSING_BOUNDARY_DISTANCE,
+  createEarthquakeAttributes,
+  getEarthquakeFilterRange,
+} from './earthquakeAttributes';
+import {
+  magnitudeToRadius,
+  magnitudeToRadiusEnergy,
+  magnitudeToRadiusPower,
+} from './magnitudeScale';
+import { depthToColorMultiStop } from './depthColorScale';
+import { statusToColor } from './statusColorScale';
+import { getSequenceColor } from './sequenceColorScale';
+import type { Earthquake } from '../../../types/earthquake';
+import type { FilterState } from '../../../types/filters';
+
+describe('earthquakeAttributes', () => {
+  const mockEarthquakes: Earthquake[] = [
+    {
+      id: '1',
+      longitude: -122.5,
+      latitude: 37.5,
+      depth: 10,
+      magnitude: 4.5,
+      timestamp: '2024-01-01T00:00:00Z',
+      location: 'San Francisco, CA',
+    },
+    {
+      id: '2',
+      longitude: 139.7,
+      latitude: 35.7,
+      depth: 350,
+      magnitude: 6.0,
+      timestamp: '2024-01-02T00:00:00Z',
+      location: 'Tokyo, Japan',
+      status: 'reviewed',
+    },
+  ];
+  const origin = new Date('2024-01-01T00:00:00Z').getTime();
+  const day = 24 * 60 * 60 * 1000;
+
+  describe('createEarthquakeAttributes', () => {
+    it('lays out one entry per event', () => {
+      const { length, attributes, earthquakes } =
+        createEarthquakeAttributes(mockEarthquakes);
+
+      expect(length).toBe(2);
+      expect(earthquakes).toEqual(mockEarthquakes);
+      expect(attributes.getPosition.value).toHaveLength(6);
+      expect(attributes.getFillColor.value).toHaveLength(8);
+      expect(attributes.getFilterValue.value).toHaveLength(2 * FILTER_SIZE);
+      expect(attributes.getRadius?.value).toHaveLength(2);
+    });
+
+    it('drops events with invalid coordinates', () => {
+      const invalid: Earthquake = {
+        ...mockEarthquakes[0],
+        id: '3',
+        longitude: 181,
+      };
+      const { length, earthquakes } = createEarthquakeAttributes([
+        mockEarthquakes[0],
+        invalid,
+        mockEarthquakes[1],
+      ]);
+
+      expect(length).toBe(2);
+      expect(earthquakes).toEqual(mockEarthquakes);
+    });
+
+    it('positions events on the surface', () => {
+      const { attributes } = createEarthquakeAttributes(mockEarthquakes);
+
+      expect(Array.from(attributes.getPosition.value)).toEqual([
+        -122.5, 37.5, 0, 139.7, 35.7, 0,
+      ]);
+    });
+
+    it('places hypocenters at depth with vertical exaggeration', () => {
+      const { attributes } = createEarthquakeAttributes(mockEarthquakes, {
+        verticalExaggeration: 10,
+      });
+
+      expect(Array.from(attributes.getPosition.value.slice(3))).toEqual([
+        139.7, 35.7, -3_500_000,
+      ]);
+    });
+
+    it('colors by depth by default', () => {
+      const { attributes } = createEarthquakeAttributes(mockEarthquakes);
+      const colors = attributes.getFillColor.value;
+
+      expect(Array.from(colors.slice(0, 4))).toEqual(depthToColorMultiStop(10));
+      expect(Array.from(colors.slice(4))).toEqual(depthToColorMultiStop(350));
+    });
+
+    it('colors by the chosen mode or sequence', () => {
+      const byStatus = createEarthquakeAttributes(mockEarthquakes, {
+        colorMode: 'status',
+      });
+      const bySequence = createEarthquakeAttributes(mockEarthquakes, {
+        sequenceIndex: { '2': 0 },
+      });
+
+      expect(
+        Array.from(byStatus.attributes.getFillColor.value.slice(4))
+      ).toEqual(statusToColor('reviewed'));
+      expect(
+        Array.from(bySequence.attributes.getFillColor.value.slice(4))
+      ).toEqual(getSequenceColor(0));
+    });
+
+    it('sizes by the chosen scale', () => {
+      const radius = (sizeMode: 'exponential' | 'power' | 'energy') =>
+        createEarthquakeAttributes(mockEarthquakes, { sizeMode }).attributes
+          .getRadius?.value[1];
+
+      expect(radius('exponential')).toBeCloseTo(magnitudeToRadius(6));
+      expect(radius('power')).toBeCloseTo(magnitudeToRadiusPower(6));
+      expect(radius('energy')).toBeCloseTo(magnitudeToRadiusEnergy(6), -1);
+    });
+
+    it('has no radii when every event is drawn the same size', () => {
+      const { attributes } = createEarthquakeAttributes(mockEarthquakes, {
+        sizeMode: 'constant',
+      });
+
+      expect(attributes.getRadius).toBeUndefined();
+    });
+
+    it('stores time since the oldest event, magnitude, depth and boundary distance', () => {
+      const { attributes, timeOrigin } = createEarthquakeAttributes(
+        mockEarthquakes,
+        { boundaryDistances: { '1': 20, '2': 150 } }
+      );
+
+      expect(timeOrigin).toBe(origin);
+      expect(Array.from(attributes.getFilterValue.value)).toEqual([
+        0,
+        4.5,
+        10,
+        20,
+        day,
+        6,
+        350,
+        150,
+      ]);
+    });
+
+    it('puts events without a boundary distance beyond any distance bound', () => {
+      const { attributes, filterExtents } = createEarthquakeAttributes(
+        mockEarthquakes,
+        { boundaryDistances: { '1': 20 } }
+      );
+
+      expect(attributes.getFilterValue.value[2 * FILTER_SIZE - 1]).toBe(
+        MISSING_BOUNDARY_DISTANCE
+      );
+      expect(filterExtents[3]).toEqual([20, 20]);
+    });
+
+    it('keeps times to the millisecond across years', () => {
+      const later: Earthquake = {
+        ...mockEarthquakes[1],
+        timestamp: '2029-06-30T12:34:56.789Z',
+      };
+      const { attributes } = createEarthquakeAttributes([
+        mockEarthquakes[0],
+        later,
+      ]);
+
+      expect(attributes.getFilterValue).toMatchObject({
+        value: expect.any(Float64Array),
+      });
+      expect(attributes.getFilterValue.value[FILTER_SIZE]).toBe(
+        new Date(later.timestamp).getTime() - origin
+      );
+    });
+
+    it('records the extent of each filter column', () => {
+      const { filterExtents } = createEarthquakeAttributes(mockEarthquakes);
+
+      expect(filterExtents).toEqual([
+        [0, day],
+        [4.5, 6],
+        [10, 350],
+        [0, 0],
+      ]);
+    });
+
+    it('treats events without a readable time as the oldest', () => {
+      const undated: Earthquake = { ...mockEarthquakes[1], timestamp: '' };
+      const { attributes, filterExtents } = createEarthquakeAttributes([
+        mockEarthquakes[0],
+        undated,
+      ]);
+
+      expect(attributes.getFilterValue.value[FILTER_SIZE]).toBe(0);
+      expect(filterExtents[0]).toEqual([0, 0]);
+    });
+
+    it('handles an empty catalog', () => {
+      const { length, timeOrigin, filterExtents } = createEarthquakeAttributes(
+        []
+      );
+
+      expect(length).toBe(0);
+      expect(timeOrigin).toBe(0);
+      expect(filterExtents).toEqual([
+        [0, 0],
+        [0, 0],
+        [0, 0],
+        [0, 0],
+      ]);
+    });
+  });
+
+  describe('getEarthquakeFilterRange', () => {
+    const attributes = createEarthquakeAttributes(mockEarthquakes);
+    const noFilters: FilterState = {
+      dateRange: { startDate: null, endDate: null },
+      magnitudeRange: { min: null, max: null },
+      depthRange: { min: null, max: null },
+      boundaryDistanceRange: { min: null, max: null },
+    };
+
+    it('spans the data without filters', () => {
+      const range = getEarthquakeFilterRange(noFilters, attributes);
+
+      expect(range.slice(0, 3)).toEqual(attributes.filterExtents.slice(0, 3));
+      expect(range[3]).toEqual([0, MISSING_BOUNDARY_DISTANCE]);
+    });
+
+    it('uses the magnitude and depth bounds', () => {
+      const range = getEarthquakeFilterRange(
+        {
+          ...noFilters,
+          magnitudeRange: { min: 5, max: null },
+          depthRange: { min: null, max: 100 },
+        },
+        attributes
+      );
+
+      expect(range[1]).toEqual([5, 6]);
+      expect(range[2]).toEqual([10, 100]);
+    });
+
+    it('uses the boundary distance bounds', () => {
+      const range = getEarthquakeFilterRange(
+        { ...noFilters, boundaryDistanceRange: { min: 50, max: null } },
+        createEarthquakeAttributes(mockEarthquakes, {
+          boundaryDistances: { '1': 20, '2': 150 },
+        })
+      );
+
+      expect(range[3]).toEqual([50, 150]);
+    });
+
+    it('leaves events without a distance out of a half-open distance bound', () => {
+      const range = getEarthquakeFilterRange(
+        { ...noFilters, boundaryDistanceRange: { min: 10, max: null } },
+        createEarthquakeAttributes(mockEarthquakes, {
+          boundaryDistances: { '1': 20 },
+        })
+      );
+
+      expect(range[3]).toEqual([10, 20]);
+    });
+
+    it('measures dates from the time origin', () => {
+      const range = getEarthquakeFilterRange(
+        {
+          ...noFilters,
+          dateRange: {
+            startDate: new Date('2024-01-01T12:00:00Z'),
+            endDate: new Date('2024-01-01T18:00:00Z'),
+          },
+        },
+        attributes
+      );
+
+      expect(range[0]).toEqual([day / 2, (day * 3) / 4]);
+    });
+
+    it('includes the whole end day of a date-only range', () => {
+      const range = getEarthquakeFilterRange(
+        {
+          ...noFilters,
+          dateRange: { startDate: null, endDate: new Date('2024-01-01') },
+        },
+        attributes
+      );
+
+      expect(range[0]).toEqual([0, day - 1]);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import type { Earthquake } from '../../../types/earthquake';
+import type { FilterState, NumericRange } from '../../../types/filters';
+import { getInclusiveEnd } from '../../../utils/filterEarthquakes';
+import { filterValidEarthquakes } from '../../../utils/validateCoordinates';
+import { createRadiusBuffer, getRadiusScale } from './magnitudeScale';
+import { depthToElevation } from './depthProjection';
+import {
+  getEarthquakeColor,
+  type EarthquakeLayerOptions,
+} from './earthquakeStyle';
+
+type Range = [number, number];
+
+/**
+ * Time, magnitude, depth and plate boundary distance bounds, in the order of
+ * the filter columns
+ */
+export type EarthquakeFilterRange = [Range, Range, Range, Range];
+
+// Columns of the filter buffer: time, magnitude, depth, boundary distance
+export const FILTER_SIZE = 4 as const;
+
+/**
+ * Boundary distance stored for events without one: beyond any bounded
+ * distance filter, as `filterByBoundaryDistance` leaves them out, but
+ * still inside the range used while that filter is open.
+ */
+export const MISSING_BOUNDARY_DISTANCE = 1e9;
+
+/**
+ * Columnar copy of a catalog in deck's binary data layout, so it can be
+ * handed to the point layer as is. Built once per catalog and style;
+ * filtering by time, magnitude, depth and boundary distance only changes the
+ * layer's filter range, and deck re-uploads buffers only for a new attributes object.
+ */
+export interface EarthquakeAttributes {
+  length: number;
+  /** Typed arrays keyed by the accessor each one replaces */
+  attributes: {
+    /** Longitude, latitude and elevation in meters */
+    getPosition: { value: Float64Array; size: 3 };
+    getFillColor: { value: Uint8Array; size: 4 };
+    /**
+     * Time since `timeOrigin` in ms, magnitude, depth and boundary distance,
+     * as doubles for the filter's fp64 mode
+     */
+    getFilterValue: { value: Float64Array; size: typeof FILTER_SIZE };
+    /** Radius in meters; absent when every event has the same pixel size */
+    getRadius?: { value: Float32Array; size: 1 };
+  };
+  /** Events in buffer order, so a picked index maps back to its event */
+  earthquakes: Earthquake[];
+  /** Epoch ms of the oldest event; times are stored relative to it */
+  timeOrigin: number;
+  /**
+   * Smallest and largest value of each filter column, leaving out missing
+   * boundary distances
+   */
+  filterExtents: EarthquakeFilterRange;
+}
+
+/**
+ * Pack events into typed arrays. Invalid coordinates are dropped here, once,
+ * rather than on every render.
+ *
+ * Filter values are doubles, split by the layer's fp64 filter into high and
+ * low float32 parts on the GPU, so times keep millisecond resolution across
+ * a multi-year catalog. Events without a boundary distance get
+ * `MISSING_BOUNDARY_DISTANCE`.
+ */
+export function createEarthquakeAttributes(
+  data: Earthquake[],
+  {
+    verticalExaggeration = null,
+    sequenceIndex = null,
+    colorMode = 'depth',
+    sizeMode = 'exponential',
+    referenceTime = Date.now(),
+    boundaryDistances = null,
+  }: EarthquakeLayerOptions = {}
+): EarthquakeAttributes {
+  const earthquakes = filterValidEarthquakes(data);
+  const length = earthquakes.length;
+  const getColor = getEarthquakeColor({
+    sequenceIndex,
+    colorMode,
+    referenceTime,
+  });
+
+  // Events without a readable time count as the oldest
+  const times = new Float64Array(length);
+  let timeOrigin = Infinity;
+  earthquakes.forEach((eq, i) => {
+    times[i] = new Date(eq.timestamp).getTime();
+    if (times[i] < timeOrigin) timeOrigin = times[i];
+  });
+  if (!Number.isFinite(timeOrigin)) timeOrigin = 0;
+
+  const positions = new Float64Array(length * 3);
+  const colors = new Uint8Array(length * 4);
+  const filterValues = new Float64Array(length * FILTER_SIZE);
+  const filterExtents: EarthquakeFilterRange = [
+    [Infinity, -Infinity],
+    [Infinity, -Infinity],
+    [Infinity, -Infinity],
+    [Infinity, -Infinity],
+  ];
+
+  earthquakes.forEach((eq, i) => {
+    positions[i * 3] = eq.longitude;
+    positions[i * 3 + 1] = eq.latitude;
+    positions[i * 3 + 2] = verticalExaggeration
+      ? depthToElevation(eq.depth, verticalExaggeration)
+      : 0;
+
+    colors.set(getColor(eq), i * 4);
+
+    const time = Number.isNaN(times[i]) ? 0 : times[i] - timeOrigin;
+    const values = [
+      time,
+      eq.magnitude,
+      eq.depth,
+      boundaryDistances?.[eq.id] ?? MISSING_BOUNDARY_DISTANCE,
+    ];
+    values.forEach((value, column) => {
+      filterValues[i * FILTER_SIZE + column] = value;
+      if (value === MISSING_BOUNDARY_DISTANCE) return;
+      const extent = filterExtents[column];
+      extent[0] = Math.min(extent[0], value);
+      extent[1] = Math.max(extent[1], value);
+    });
+  });
+
+  return {
+    length,
+    attributes: {
+      getPosition: { value: positions, size: 3 },
+      getFillColor: { value: colors, size: 4 },
+      getFilterValue: { value: filterValues, size: FILTER_SIZE },
+      ...(sizeMode !== 'constant' && {
+        getRadius: {
+          value: createRadiusBuffer(earthquakes, getRadiusScale(sizeMode)),
+          size: 1,
+        },
+      }),
+    },
+    earthquakes,
+    timeOrigin,
+    // Columns without a single value, e.g. no distances, span nothing
+    filterExtents: filterExtents.map((extent) =>
+      extent[0] <= extent[1] ? extent : [0, 0]
+    ) as EarthquakeFilterRange,
+  };
+}
+
+function toRange({ min, max }: NumericRange, [low, high]: Range): Range {
+  return [min ?? low, max ?? high];
+}
+
+/**
+ * Filter range that shows the events passing the time, magnitude, depth and
+ * boundary distance filters. Open bounds fall back to the extent of the data;
+ * with the distance filter fully open, events without a distance pass too.
+ */
+export function getEarthquakeFilterRange(
+  { dateRange, magnitudeRange, depthRange, boundaryDistanceRange }: FilterState,
+  { timeOrigin, filterExtents }: EarthquakeAttributes
+): EarthquakeFilterRange {
+  const [timeExtent, magnitudeExtent, depthExtent, distanceExtent] =
+    filterExtents;
+
+  return [
+    toRange(
+      {
+        min: dateRange.startDate
+          ? dateRange.startDate.getTime() - timeOrigin
+          : null,
+        max: dateRange.endDate
+          ? getInclusiveEnd(dateRange.endDate) - timeOrigin
+          : null,
+      },
+      timeExtent
+    ),
+    toRange(magnitudeRange, magnitudeExtent),
+    toRange(depthRange, depthExtent),
+    boundaryDistanceRange.min === null && boundaryDistanceRange.max === null
+      ? [distanceExtent[0], MISSING_BOUNDARY_DISTANCE]
+      : toRange(boundaryDistanceRange, distanceExtent),
+  ];
+}
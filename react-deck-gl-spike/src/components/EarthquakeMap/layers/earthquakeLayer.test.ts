@@ -1,9 +1,15 @@
 import { describe, it, expect } from 'vitest';
 import { ScatterplotLayer } from '@deck.gl/layers';
-import { COORDINATE_SYSTEM } from '@deck.gl/core';
-import { createEarthquakeLayer } from './earthquakeLayer';
-import { magnitudeToRadius } from './magnitudeScale';
-import { depthToColorMultiStop } from './depthColorScale';
+import { COORDINATE_SYSTEM, type PickingInfo } from '@deck.gl/core';
+import { DataFilterExtension } from '@deck.gl/extensions';
+import {
+  CONSTANT_RADIUS_PIXELS,
+  createEarthquakeLayer,
+} from './earthquakeLayer';
+import {
+  createEarthquakeAttributes,
+  type EarthquakeFilterRange,
+} from './earthquakeAttributes';
 import type { Earthquake } from '../../../types/earthquake';
 
 describe('earthquakeLayer', () => {
@@ -27,190 +33,185 @@ describe('earthquakeLayer', () => {
       location: 'Tokyo, Japan',
     },
   ];
+  const attributes = createEarthquakeAttributes(mockEarthquakes);
 
   describe('createEarthquakeLayer', () => {
     it('returns a ScatterplotLayer', () => {
-      const layer = createEarthquakeLayer(mockEarthquakes);
+      const layer = createEarthquakeLayer(attributes);
       expect(layer).toBeInstanceOf(ScatterplotLayer);
     });
 
     it('sets the correct layer id', () => {
-      const layer = createEarthquakeLayer(mockEarthquakes);
+      const layer = createEarthquakeLayer(attributes);
       expect(layer.id).toBe('earthquake-layer');
     });
 
     it('configures layer as pickable', () => {
-      const layer = createEarthquakeLayer(mockEarthquakes);
+      const layer = createEarthquakeLayer(attributes);
       expect(layer.props.pickable).toBe(true);
     });
 
     it('configures layer opacity to 0.6', () => {
-      const layer = createEarthquakeLayer(mockEarthquakes);
+      const layer = createEarthquakeLayer(attributes);
       expect(layer.props.opacity).toBe(0.6);
     });
 
     it('configures layer as stroked', () => {
-      const layer = createEarthquakeLayer(mockEarthquakes);
+      const layer = createEarthquakeLayer(attributes);
       expect(layer.props.stroked).toBe(true);
     });
 
     it('configures layer as filled', () => {
-      const layer = createEarthquakeLayer(mockEarthquakes);
+      const layer = createEarthquakeLayer(attributes);
       expect(layer.props.filled).toBe(true);
     });
 
     it('sets radiusMinPixels to 3 for touch target visibility', () => {
-      const layer = createEarthquakeLayer(mockEarthquakes);
+      const layer = createEarthquakeLayer(attributes);
       expect(layer.props.radiusMinPixels).toBe(3);
     });
 
     it('sets radiusMaxPixels to 50 to prevent visual clutter', () => {
-      const layer = createEarthquakeLayer(mockEarthquakes);
+      const layer = createEarthquakeLayer(attributes);
       expect(layer.props.radiusMaxPixels).toBe(50);
     });
 
     it('sets radiusUnits to meters', () => {
-      const layer = createEarthquakeLayer(mockEarthquakes);
+      const layer = createEarthquakeLayer(attributes);
       expect(layer.props.radiusUnits).toBe('meters');
     });
 
-    it('getPosition accessor returns [longitude, latitude]', () => {
-      const layer = createEarthquakeLayer(mockEarthquakes);
-      const getPosition = layer.props.getPosition as unknown as (
-        d: Earthquake
-      ) => number[];
-      expect(getPosition(mockEarthquakes[0])).toEqual([-122.5, 37.5]);
-      expect(getPosition(mockEarthquakes[1])).toEqual([139.7, 35.7]);
+    it('uses LNGLAT coordinate system', () => {
+      const layer = createEarthquakeLayer(attributes);
+      expect(layer.props.coordinateSystem).toBe(COORDINATE_SYSTEM.LNGLAT);
     });
 
-    it('getRadius accessor uses magnitudeToRadius scale', () => {
-      const layer = createEarthquakeLayer(mockEarthquakes);
-      const getRadius = layer.props.getRadius as (d: Earthquake) => number;
+    it('passes the attributes to the layer as binary data', () => {
+      const layer = createEarthquakeLayer(attributes);
+      expect(layer.props.data).toBe(attributes);
+    });
 
-      const radius1 = getRadius(mockEarthquakes[0]); // magnitude 4.5
-      const radius2 = getRadius(mockEarthquakes[1]); // magnitude 6.0
+    it('handles an empty catalog', () => {
+      const layer = createEarthquakeLayer(createEarthquakeAttributes([]));
+      expect(layer).toBeInstanceOf(ScatterplotLayer);
+      expect(layer.props.data).toHaveLength(0);
+    });
 
-      // Higher magnitude should have larger radius
-      expect(radius2).toBeGreaterThan(radius1);
+    it('faces the camera with vertical exaggeration', () => {
+      const layer = createEarthquakeLayer(attributes, {
+        verticalExaggeration: 10,
+      });
+      expect(layer.props.billboard).toBe(true);
+    });
 
-      // Verify uses magnitudeToRadius function
-      expect(radius1).toBeCloseTo(magnitudeToRadius(4.5));
-      expect(radius2).toBeCloseTo(magnitudeToRadius(6.0));
+    it('keeps points flat on the map without exaggeration', () => {
+      const layer = createEarthquakeLayer(attributes);
+      expect(layer.props.billboard).toBe(false);
     });
 
-    it('passes filtered data to the layer', () => {
-      const layer = createEarthquakeLayer(mockEarthquakes);
-      expect(layer.props.data).toEqual(mockEarthquakes);
+    it('draws every event the same size on screen when constant', () => {
+      const layer = createEarthquakeLayer(
+        createEarthquakeAttributes(mockEarthquakes, { sizeMode: 'constant' })
+      );
+
+      expect(layer.props.getRadius).toBe(CONSTANT_RADIUS_PIXELS);
+      expect(layer.props.radiusUnits).toBe('pixels');
     });
+  });
 
-    it('handles empty data array', () => {
-      const layer = createEarthquakeLayer([]);
-      expect(layer).toBeInstanceOf(ScatterplotLayer);
-      expect(layer.props.data).toEqual([]);
+  describe('GPU filtering', () => {
+    it('filters with a time, magnitude, depth and distance data filter', () => {
+      const layer = createEarthquakeLayer(attributes);
+      const [extension] = layer.props.extensions;
+
+      expect(extension).toBeInstanceOf(DataFilterExtension);
+      expect(extension.opts).toMatchObject({ filterSize: 4 });
     });
 
-    it('uses LNGLAT coordinate system', () => {
-      const layer = createEarthquakeLayer(mockEarthquakes);
-      expect(layer.props.coordinateSystem).toBe(COORDINATE_SYSTEM.LNGLAT);
+    it('filters in double precision so times keep to the millisecond', () => {
+      const [extension] = createEarthquakeLayer(attributes).props.extensions;
+
+      expect(extension.opts).toMatchObject({ fp64: true });
     });
 
-    it('filters out earthquakes with invalid coordinates', () => {
-      const earthquakesWithInvalid: Earthquake[] = [
-        ...mockEarthquakes,
-        {
-          id: '3',
-          longitude: 181, // Invalid
-          latitude: 37.5,
-          depth: 10,
-          magnitude: 4.5,
-          timestamp: '2024-01-03T00:00:00Z',
-          location: 'Invalid Location',
-        },
-        {
-          id: '4',
-          longitude: -122.5,
-          latitude: 91, // Invalid
-          depth: 10,
-          magnitude: 4.5,
-          timestamp: '2024-01-04T00:00:00Z',
-          location: 'Invalid Location',
-        },
+    it('applies the given filter range', () => {
+      const filterRange: EarthquakeFilterRange = [
+        [0, 1000],
+        [5, 10],
+        [0, 700],
+        [0, 1000],
       ];
+      const layer = createEarthquakeLayer(attributes, { filterRange });
 
-      const layer = createEarthquakeLayer(earthquakesWithInvalid);
-      expect(layer.props.data).toHaveLength(2);
-      expect(layer.props.data).toEqual(mockEarthquakes);
+      expect(layer.props.filterEnabled).toBe(true);
+      expect(layer.props.filterRange).toBe(filterRange);
     });
-  });
 
-  describe('getFillColor', () => {
-    it('uses depthToColorMultiStop for fill color', () => {
-      const layer = createEarthquakeLayer(mockEarthquakes);
-      const getFillColor = layer.props.getFillColor as (
-        d: Earthquake
-      ) => [number, number, number, number];
+    it('shows every event without a filter range', () => {
+      const layer = createEarthquakeLayer(attributes);
+
+      expect(layer.props.filterEnabled).toBe(false);
+      expect(layer.props.filterRange).toEqual(attributes.filterExtents);
+    });
 
-      const color1 = getFillColor(mockEarthquakes[0]); // depth 10
-      const color2 = getFillColor(mockEarthquakes[1]); // depth 350
+    it('shares the extension between layers so the shader is kept', () => {
+      const layer1 = createEarthquakeLayer(attributes);
+      const layer2 = createEarthquakeLayer(attributes, {
+        filterRange: attributes.filterExtents,
+      });
 
-      // Verify uses depthToColorMultiStop function
-      expect(color1).toEqual(depthToColorMultiStop(10));
-      expect(color2).toEqual(depthToColorMultiStop(350));
+      expect(layer1.props.extensions[0]).toBe(layer2.props.extensions[0]);
     });
   });
 
-  describe('position stability', () => {
-    it('uses geographic coordinates for position (LNGLAT)', () => {
-      const layer = createEarthquakeLayer(mockEarthquakes);
-      // LNGLAT coordinate system ensures deck.gl handles projection
-      // and maintains position stability during navigation
-      expect(layer.props.coordinateSystem).toBe(COORDINATE_SYSTEM.LNGLAT);
+  describe('picking', () => {
+    it('resolves a picked index back to its event', () => {
+      const layer = createEarthquakeLayer(attributes);
+      const info = layer.getPickingInfo({
+        info: { index: 1 } as PickingInfo,
+        mode: 'hover',
+        sourceLayer: layer,
+      });
+
+      expect(info.object).toBe(mockEarthquakes[1]);
     });
 
-    it('getPosition returns raw geographic coordinates without transformation', () => {
-      const layer = createEarthquakeLayer(mockEarthquakes);
-      const getPosition = layer.props.getPosition as unknown as (
-        d: Earthquake
-      ) => number[];
+    it('picks nothing without an index', () => {
+      const layer = createEarthquakeLayer(attributes);
+      const info = layer.getPickingInfo({
+        info: { index: -1 } as PickingInfo,
+        mode: 'hover',
+        sourceLayer: layer,
+      });
 
-      // Position should be [longitude, latitude] - raw geographic coords
-      const position = getPosition(mockEarthquakes[0]);
-      expect(position[0]).toBe(mockEarthquakes[0].longitude);
-      expect(position[1]).toBe(mockEarthquakes[0].latitude);
+      expect(info.object).toBeUndefined();
     });
+  });
 
+  describe('position stability', () => {
     it('maintains consistent layer ID for deck.gl diffing', () => {
       // Same ID means deck.gl won't recreate the layer during navigation
-      const layer1 = createEarthquakeLayer(mockEarthquakes);
-      const layer2 = createEarthquakeLayer(mockEarthquakes);
+      const layer1 = createEarthquakeLayer(attributes);
+      const layer2 = createEarthquakeLayer(attributes);
 
       expect(layer1.id).toBe('earthquake-layer');
       expect(layer2.id).toBe('earthquake-layer');
       expect(layer1.id).toBe(layer2.id);
     });
 
-    it('updateTriggers only depend on data length, not view state', () => {
-      const layer = createEarthquakeLayer(mockEarthquakes);
-      const updateTriggers = layer.props.updateTriggers;
-
-      // Update triggers should only contain data-dependent values
-      // This ensures layer attributes aren't recalculated on view changes
-      expect(updateTriggers).toBeDefined();
-      expect(updateTriggers.getRadius).toBe(mockEarthquakes.length);
-      expect(updateTriggers.getFillColor).toBe(mockEarthquakes.length);
-
-      // Verify no view-state related triggers
-      expect(updateTriggers.zoom).toBeUndefined();
-      expect(updateTriggers.longitude).toBeUndefined();
-      expect(updateTriggers.latitude).toBeUndefined();
-    });
-
-    it('updateTriggers change when data length changes', () => {
-      const layer1 = createEarthquakeLayer(mockEarthquakes);
-      const layer2 = createEarthquakeLayer([mockEarthquakes[0]]);
+    it('keeps the same data between filter changes', () => {
+      // Same data means deck.gl won't re-upload the buffers
+      const layer1 = createEarthquakeLayer(attributes);
+      const layer2 = createEarthquakeLayer(attributes, {
+        filterRange: [
+          [0, 0],
+          [5, 6],
+          [0, 100],
+          [0, 1000],
+        ],
+      });
 
-      expect(layer1.props.updateTriggers.getRadius).toBe(2);
-      expect(layer2.props.updateTriggers.getRadius).toBe(1);
+      expect(layer1.props.data).toBe(layer2.props.data);
     });
   });
 });
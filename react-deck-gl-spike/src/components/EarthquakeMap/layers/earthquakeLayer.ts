@@ -1,17 +1,66 @@
 import { ScatterplotLayer } from '@deck.gl/layers';
 import { COORDINATE_SYSTEM } from '@deck.gl/core';
+import {
+  DataFilterExtension,
+  type DataFilterExtensionProps,
+} from '@deck.gl/extensions';
 import type { Earthquake } from '../../../types/earthquake';
-import { filterValidEarthquakes } from '../../../utils/validateCoordinates';
-import { magnitudeToRadius } from './magnitudeScale';
-import { depthToColorMultiStop } from './depthColorScale';
+import {
+  FILTER_SIZE,
+  type EarthquakeAttributes,
+  type EarthquakeFilterRange,
+} from './earthquakeAttributes';
 
-export function createEarthquakeLayer(data: Earthquake[]) {
-  // Filter out invalid coordinates before rendering
-  const validData = filterValidEarthquakes(data);
+// Radius of every event when sized by constant
+export const CONSTANT_RADIUS_PIXELS = 5;
 
-  return new ScatterplotLayer<Earthquake>({
+interface PointLayerOptions {
+  /** Exaggeration the positions were built with (3D view) */
+  verticalExaggeration?: number | null;
+  /** Time, magnitude, depth and boundary distance bounds of the events to show */
+  filterRange?: EarthquakeFilterRange | null;
+}
+
+/**
+ * Scatterplot of binary attributes. Binary data has no objects for deck to
+ * pick, so picked indices are resolved back to their events here.
+ */
+class EarthquakeScatterplotLayer extends ScatterplotLayer<
+  Earthquake,
+  DataFilterExtensionProps<Earthquake>
+> {
+  static layerName = 'EarthquakeScatterplotLayer';
+
+  getPickingInfo(params: Parameters<ScatterplotLayer['getPickingInfo']>[0]) {
+    const info = super.getPickingInfo(params);
+    const { earthquakes } = this.props.data as EarthquakeAttributes;
+    if (info.index >= 0) info.object = earthquakes[info.index];
+    return info;
+  }
+}
+
+// Shared so deck keeps the same filter shader between renders. fp64 keeps
+// millisecond times over multi-year catalogs, where float32 steps are ~16 s
+const dataFilter = new DataFilterExtension({
+  filterSize: FILTER_SIZE,
+  fp64: true,
+});
+
+/**
+ * Point layer over prebuilt columnar attributes. Time, magnitude, depth and
+ * boundary distance filters are applied on the GPU, so changing `filterRange` re-renders
+ * without re-uploading any buffers. Buffers are only rebuilt when a new
+ * attributes object is passed in.
+ */
+export function createEarthquakeLayer(
+  attributes: EarthquakeAttributes,
+  { verticalExaggeration = null, filterRange = null }: PointLayerOptions = {}
+) {
+  const sizedOnScreen = !attributes.attributes.getRadius;
+
+  return new EarthquakeScatterplotLayer({
     id: 'earthquake-layer',
-    data: validData,
+    data: attributes,
     // Use Web Mercator projection (default for lng/lat coordinates)
     coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
     pickable: true,
@@ -21,21 +70,15 @@ export function createEarthquakeLayer(data: Earthquake[]) {
     radiusScale: 1,
     radiusMinPixels: 3, // Minimum visibility for touch targets
     radiusMaxPixels: 50, // Prevent visual clutter
-    radiusUnits: 'meters', // Radius in world coordinates
+    // Radius in world coordinates, or fixed on screen when constant
+    radiusUnits: sizedOnScreen ? 'pixels' : 'meters',
     lineWidthMinPixels: 1,
-    getPosition: (d) => [d.longitude, d.latitude],
-    getRadius: (d) => magnitudeToRadius(d.magnitude),
-    getFillColor: (d) => depthToColorMultiStop(d.depth),
+    // Face the camera when tilted so hypocenters stay round
+    billboard: verticalExaggeration !== null,
+    ...(sizedOnScreen && { getRadius: CONSTANT_RADIUS_PIXELS }),
     getLineColor: [0, 0, 0, 50],
-    updateTriggers: {
-      getRadius: data.length,
-      getFillColor: data.length,
-    },
-    // Enable transitions for smooth filter updates
-    transitions: {
-      getPosition: 300,
-      getRadius: 300,
-      getFillColor: 300,
-    },
+    extensions: [dataFilter],
+    filterEnabled: filterRange !== null,
+    filterRange: filterRange ?? attributes.filterExtents,
   });
 }
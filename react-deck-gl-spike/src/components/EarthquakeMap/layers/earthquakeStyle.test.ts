@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { getEarthquakeColor } from './earthquakeStyle';
+import { depthToColorMultiStop } from './depthColorScale';
+import { magnitudeToColor } from './magnitudeColorScale';
+import { ageToColor } from './ageColorScale';
+import { alertToColor } from './alertColorScale';
+import { BACKGROUND_COLOR, getSequenceColor } from './sequenceColorScale';
+import type { Earthquake } from '../../../types/earthquake';
+
+const mockEarthquakes: Earthquake[] = [
+  {
+    id: '1',
+    longitude: -122.5,
+    latitude: 37.5,
+    depth: 10,
+    magnitude: 4.5,
+    timestamp: '2024-01-01T00:00:00Z',
+    location: 'San Francisco, CA',
+  },
+  {
+    id: '2',
+    longitude: 139.7,
+    latitude: 35.7,
+    depth: 350,
+    magnitude: 6.0,
+    timestamp: '2024-01-02T00:00:00Z',
+    location: 'Tokyo, Japan',
+  },
+];
+
+describe('getEarthquakeColor', () => {
+  it('colors by depth by default', () => {
+    const getColor = getEarthquakeColor();
+
+    expect(getColor(mockEarthquakes[0])).toEqual(depthToColorMultiStop(10));
+    expect(getColor(mockEarthquakes[1])).toEqual(depthToColorMultiStop(350));
+  });
+
+  it('colors sequence members by sequence and the rest as background', () => {
+    const getColor = getEarthquakeColor({ sequenceIndex: { '2': 0 } });
+
+    expect(getColor(mockEarthquakes[1])).toEqual(getSequenceColor(0));
+    expect(getColor(mockEarthquakes[0])).toEqual(BACKGROUND_COLOR);
+  });
+
+  it('colors by sequence regardless of the color mode', () => {
+    const getColor = getEarthquakeColor({
+      sequenceIndex: { '2': 0 },
+      colorMode: 'alert',
+    });
+
+    expect(getColor(mockEarthquakes[1])).toEqual(getSequenceColor(0));
+  });
+
+  it('colors by magnitude, alert and age', () => {
+    const referenceTime = new Date('2024-01-02T00:30:00Z').getTime();
+    const alerted: Earthquake = { ...mockEarthquakes[1], alert: 'orange' };
+
+    expect(
+      getEarthquakeColor({ colorMode: 'magnitude' })(mockEarthquakes[0])
+    ).toEqual(magnitudeToColor(4.5));
+    expect(getEarthquakeColor({ colorMode: 'alert' })(alerted)).toEqual(
+      alertToColor('orange')
+    );
+    expect(
+      getEarthquakeColor({ colorMode: 'age', referenceTime })(
+        mockEarthquakes[1]
+      )
+    ).toEqual(ageToColor(mockEarthquakes[1].timestamp, referenceTime));
+  });
+});
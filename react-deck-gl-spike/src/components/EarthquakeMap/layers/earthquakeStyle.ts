@@ -0,0 +1,59 @@
+import type { Earthquake } from '../../../types/earthquake';
+import type {
+  EarthquakeColorMode,
+  EarthquakeSizeMode,
+} from '../../../types/earthquakeView';
+import { depthToColorMultiStop } from './depthColorScale';
+import { magnitudeToColor } from './magnitudeColorScale';
+import { ageToColor } from './ageColorScale';
+import { alertToColor } from './alertColorScale';
+import { statusToColor } from './statusColorScale';
+import { getSequenceColor } from './sequenceColorScale';
+
+export interface EarthquakeLayerOptions {
+  /** Place hypocenters at depth, stretched by this factor (3D view) */
+  verticalExaggeration?: number | null;
+  /** Color by aftershock sequence (event id → sequence index) instead of depth */
+  sequenceIndex?: Record<string, number> | null;
+  /** What the fill color encodes when not coloring by sequence */
+  colorMode?: EarthquakeColorMode;
+  sizeMode?: EarthquakeSizeMode;
+  /** Epoch ms that event ages are measured from */
+  referenceTime?: number;
+  /** Km to the nearest plate boundary by event id, for the distance filter */
+  boundaryDistances?: Record<string, number> | null;
+}
+
+type RGBA = [number, number, number, number];
+
+function getColorScale(
+  colorMode: EarthquakeColorMode,
+  referenceTime: number
+): (d: Earthquake) => RGBA {
+  switch (colorMode) {
+    case 'magnitude':
+      return (d) => magnitudeToColor(d.magnitude);
+    case 'age':
+      return (d) => ageToColor(d.timestamp, referenceTime);
+    case 'alert':
+      return (d) => alertToColor(d.alert);
+    case 'status':
+      return (d) => statusToColor(d.status);
+    default:
+      return (d) => depthToColorMultiStop(d.depth);
+  }
+}
+
+/**
+ * Fill color accessor shared by the map and the cross-section chart, so an
+ * event looks the same in both.
+ */
+export function getEarthquakeColor({
+  sequenceIndex = null,
+  colorMode = 'depth',
+  referenceTime = Date.now(),
+}: EarthquakeLayerOptions = {}): (d: Earthquake) => RGBA {
+  return sequenceIndex
+    ? (d) => getSequenceColor(sequenceIndex[d.id])
+    : getColorScale(colorMode, referenceTime);
+}
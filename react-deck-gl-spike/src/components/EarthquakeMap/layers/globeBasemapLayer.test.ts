@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { GeoJsonLayer, SolidPolygonLayer } from '@deck.gl/layers';
+import type { FeatureCollection, MultiPolygon } from 'geojson';
+import { createGlobeBasemapLayers } from './globeBasemapLayer';
+
+describe('createGlobeBasemapLayers', () => {
+  const land: FeatureCollection<MultiPolygon> = {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        properties: {},
+        geometry: {
+          type: 'MultiPolygon',
+          coordinates: [
+            [
+              [
+                [0, 0],
+                [10, 0],
+                [10, 10],
+                [0, 0],
+              ],
+            ],
+          ],
+        },
+      },
+    ],
+  };
+
+  it('draws only the ocean until land has loaded', () => {
+    const layers = createGlobeBasemapLayers(null);
+
+    expect(layers).toHaveLength(1);
+    expect(layers[0]).toBeInstanceOf(SolidPolygonLayer);
+    expect(layers[0].id).toBe('globe-ocean-layer');
+    expect(layers[0].props.pickable).toBe(false);
+  });
+
+  it('draws land above the ocean', () => {
+    const [ocean, landLayer] = createGlobeBasemapLayers(land);
+
+    expect(ocean.id).toBe('globe-ocean-layer');
+    expect(landLayer).toBeInstanceOf(GeoJsonLayer);
+    expect(landLayer.id).toBe('globe-land-layer');
+    expect(landLayer.props.data).toBe(land);
+    expect(landLayer.props.pickable).toBe(false);
+  });
+
+  it('covers the whole globe with ocean', () => {
+    type Ocean = { polygon: [number, number][] };
+    const [ocean] = createGlobeBasemapLayers(null);
+    const getPolygon = (ocean as SolidPolygonLayer<Ocean>).props
+      .getPolygon as unknown as (d: Ocean) => [number, number][];
+    const ring = getPolygon((ocean.props.data as Ocean[])[0]);
+    const longitudes = ring.map(([lng]) => lng);
+    const latitudes = ring.map(([, lat]) => lat);
+
+    expect(Math.min(...longitudes)).toBe(-180);
+    expect(Math.max(...longitudes)).toBe(180);
+    expect(Math.min(...latitudes)).toBe(-90);
+    expect(Math.max(...latitudes)).toBe(90);
+  });
+});
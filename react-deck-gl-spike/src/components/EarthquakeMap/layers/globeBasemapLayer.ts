@@ -0,0 +1,49 @@
+import { GeoJsonLayer, SolidPolygonLayer } from '@deck.gl/layers';
+import type { FeatureCollection, MultiPolygon } from 'geojson';
+
+// Matches the Positron basemap used on the flat map
+const OCEAN_COLOR: [number, number, number] = [212, 218, 220];
+const LAND_COLOR: [number, number, number] = [250, 250, 248];
+const COASTLINE_COLOR: [number, number, number] = [180, 188, 192];
+
+const OCEAN_POLYGON: [number, number][] = [
+  [-180, 90],
+  [0, 90],
+  [180, 90],
+  [180, -90],
+  [0, -90],
+  [-180, -90],
+];
+
+/**
+ * Ocean and land drawn by deck.gl in place of map tiles, which MapLibre
+ * can't render under deck.gl's globe view. Land is omitted until loaded.
+ */
+export function createGlobeBasemapLayers(
+  land: FeatureCollection<MultiPolygon> | null
+) {
+  return [
+    new SolidPolygonLayer<{ polygon: [number, number][] }>({
+      id: 'globe-ocean-layer',
+      data: [{ polygon: OCEAN_POLYGON }],
+      pickable: false,
+      getPolygon: (d) => d.polygon,
+      getFillColor: OCEAN_COLOR,
+    }),
+    ...(land
+      ? [
+          new GeoJsonLayer({
+            id: 'globe-land-layer',
+            data: land,
+            pickable: false,
+            stroked: true,
+            filled: true,
+            lineWidthUnits: 'pixels',
+            getLineWidth: 1,
+            getFillColor: LAND_COLOR,
+            getLineColor: COASTLINE_COLOR,
+          }),
+        ]
+      : []),
+  ];
+}
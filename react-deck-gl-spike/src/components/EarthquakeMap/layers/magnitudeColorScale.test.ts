@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { MAGNITUDE_COLOR_STOPS, magnitudeToColor } from './magnitudeColorScale';
+
+describe('magnitudeToColor', () => {
+  it('returns the stop color at each stop', () => {
+    for (const { magnitude, color } of MAGNITUDE_COLOR_STOPS) {
+      expect(magnitudeToColor(magnitude)).toEqual([...color, 180]);
+    }
+  });
+
+  it('interpolates between stops', () => {
+    // Halfway between M2 [68, 1, 84] and M3.5 [59, 82, 139]
+    expect(magnitudeToColor(2.75)).toEqual([64, 42, 112, 180]);
+  });
+
+  it('clamps magnitudes outside the scale', () => {
+    expect(magnitudeToColor(-1)).toEqual(magnitudeToColor(2));
+    expect(magnitudeToColor(9.5)).toEqual(magnitudeToColor(8));
+  });
+});
@@ -0,0 +1,41 @@
+type RGBA = [number, number, number, number];
+
+type MagnitudeColorStop = {
+  readonly magnitude: number;
+  readonly color: readonly [number, number, number];
+};
+
+// Sequential scale (viridis) from minor to great earthquakes
+export const MAGNITUDE_COLOR_STOPS: readonly MagnitudeColorStop[] = [
+  { magnitude: 2, color: [68, 1, 84] },
+  { magnitude: 3.5, color: [59, 82, 139] },
+  { magnitude: 5, color: [33, 145, 140] },
+  { magnitude: 6.5, color: [94, 201, 98] },
+  { magnitude: 8, color: [253, 231, 37] },
+];
+
+/**
+ * Color for a magnitude, interpolated between the stops and clamped
+ * below M2 and above M8.
+ */
+export function magnitudeToColor(magnitude: number): RGBA {
+  const first = MAGNITUDE_COLOR_STOPS[0];
+  const last = MAGNITUDE_COLOR_STOPS[MAGNITUDE_COLOR_STOPS.length - 1];
+
+  if (magnitude <= first.magnitude) return [...first.color, 180];
+  if (magnitude >= last.magnitude) return [...last.color, 180];
+
+  const upperIndex = MAGNITUDE_COLOR_STOPS.findIndex(
+    (stop) => stop.magnitude > magnitude
+  );
+  const lower = MAGNITUDE_COLOR_STOPS[upperIndex - 1];
+  const upper = MAGNITUDE_COLOR_STOPS[upperIndex];
+  const t = (magnitude - lower.magnitude) / (upper.magnitude - lower.magnitude);
+
+  return [
+    Math.round(lower.color[0] + t * (upper.color[0] - lower.color[0])),
+    Math.round(lower.color[1] + t * (upper.color[1] - lower.color[1])),
+    Math.round(lower.color[2] + t * (upper.color[2] - lower.color[2])),
+    180,
+  ];
+}
@@ -2,8 +2,11 @@ import { describe, it, expect } from 'vitest';
 import {
   magnitudeToRadius,
   magnitudeToRadiusPower,
+  magnitudeToRadiusEnergy,
   createRadiusBuffer,
+  getRadiusScale,
 } from './magnitudeScale';
+import { magnitudeToEnergy } from './seismicEnergy';
 import type { Earthquake } from '../../../types/earthquake';
 
 describe('magnitudeToRadius', () => {
@@ -102,6 +105,25 @@ describe('magnitudeToRadiusPower', () => {
   });
 });
 
+describe('magnitudeToRadiusEnergy', () => {
+  it('returns the base size at or below magnitude 2', () => {
+    expect(magnitudeToRadiusEnergy(2)).toBeCloseTo(1000);
+    expect(magnitudeToRadiusEnergy(0.5)).toBeCloseTo(1000);
+  });
+
+  it('scales with the cube root of energy', () => {
+    const ratio = magnitudeToRadiusEnergy(6) / magnitudeToRadiusEnergy(4);
+    expect(ratio).toBeCloseTo(
+      Math.cbrt(magnitudeToEnergy(6) / magnitudeToEnergy(4))
+    );
+  });
+
+  it('grows ~3.2x per magnitude unit', () => {
+    const ratio = magnitudeToRadiusEnergy(5) / magnitudeToRadiusEnergy(4);
+    expect(ratio).toBeCloseTo(Math.sqrt(10));
+  });
+});
+
 describe('createRadiusBuffer', () => {
   const createEarthquake = (magnitude: number): Earthquake => ({
     id: `eq-${magnitude}`,
@@ -169,4 +191,21 @@ describe('createRadiusBuffer', () => {
     expect(result[1]).toBeCloseTo(magnitudeToRadius(3));
     expect(result[2]).toBeCloseTo(magnitudeToRadius(5));
   });
+
+  it('uses the given scale', () => {
+    const result = createRadiusBuffer(
+      [createEarthquake(6)],
+      magnitudeToRadiusPower
+    );
+
+    expect(result[0]).toBeCloseTo(magnitudeToRadiusPower(6));
+  });
+});
+
+describe('getRadiusScale', () => {
+  it('returns the scale for each size mode', () => {
+    expect(getRadiusScale('exponential')).toBe(magnitudeToRadius);
+    expect(getRadiusScale('power')).toBe(magnitudeToRadiusPower);
+    expect(getRadiusScale('energy')).toBe(magnitudeToRadiusEnergy);
+  });
 });
@@ -1,4 +1,6 @@
 import type { Earthquake } from '../../../types/earthquake';
+import type { EarthquakeSizeMode } from '../../../types/earthquakeView';
+import { magnitudeToEnergy } from './seismicEnergy';
 
 /**
  * Convert magnitude to radius using exponential scale.
@@ -36,18 +38,56 @@ export function magnitudeToRadiusPower(magnitude: number): number {
   return minRadius + Math.pow(clamped, 2) * (maxRadius - minRadius);
 }
 
+/**
+ * Radius proportional to the cube root of radiated energy, as if each event
+ * were a sphere holding its energy. Each magnitude unit multiplies the radius
+ * by ~3.2, so large events dominate the map as they dominate energy release.
+ *
+ * @param magnitude - Earthquake magnitude (typically 0-10)
+ * @returns Radius in meters
+ */
+export function magnitudeToRadiusEnergy(magnitude: number): number {
+  const baseSize = 1000; // Radius at the minimum magnitude, in meters
+  const minMagnitude = 2;
+  const ratio =
+    magnitudeToEnergy(Math.max(minMagnitude, magnitude)) /
+    magnitudeToEnergy(minMagnitude);
+  return baseSize * Math.cbrt(ratio);
+}
+
+/**
+ * Radius scale for a size mode. Constant sizing has no scale: every event
+ * is drawn at a fixed pixel radius instead.
+ */
+export function getRadiusScale(
+  sizeMode: EarthquakeSizeMode
+): (magnitude: number) => number {
+  switch (sizeMode) {
+    case 'power':
+      return magnitudeToRadiusPower;
+    case 'energy':
+      return magnitudeToRadiusEnergy;
+    default:
+      return magnitudeToRadius;
+  }
+}
+
 /**
  * Pre-compute radius values to avoid repeated calculations.
  * Useful for large datasets to improve rendering performance.
  *
  * @param earthquakes - Array of earthquake data
+ * @param scale - Magnitude to radius scale, exponential by default
  * @returns Float32Array with pre-computed radius values
  */
-export function createRadiusBuffer(earthquakes: Earthquake[]): Float32Array {
+export function createRadiusBuffer(
+  earthquakes: Earthquake[],
+  scale: (magnitude: number) => number = magnitudeToRadius
+): Float32Array {
   const radii = new Float32Array(earthquakes.length);
 
   earthquakes.forEach((eq, i) => {
-    radii[i] = magnitudeToRadius(eq.magnitude);
+    radii[i] = scale(eq.magnitude);
   });
 
   return radii;
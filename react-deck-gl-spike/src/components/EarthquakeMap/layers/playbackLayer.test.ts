@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { ScatterplotLayer } from '@deck.gl/layers';
+import { ageToOpacity, createPlaybackLayer } from './playbackLayer';
+import { depthToColorMultiStop } from './depthColorScale';
+import { magnitudeToRadius } from './magnitudeScale';
+import type { PlaybackEarthquake } from '../../../utils/playbackFrame';
+
+describe('playbackLayer', () => {
+  const fresh: PlaybackEarthquake = {
+    id: '1',
+    longitude: -122.5,
+    latitude: 37.5,
+    depth: 10,
+    magnitude: 4.5,
+    timestamp: '2024-01-01T00:00:00Z',
+    location: 'San Francisco, CA',
+    age: 0,
+  };
+  const old: PlaybackEarthquake = { ...fresh, id: '2', age: 0.75 };
+
+  describe('ageToOpacity', () => {
+    it('is fully opaque for new events', () => {
+      expect(ageToOpacity(0)).toBe(1);
+    });
+
+    it('fades linearly with age', () => {
+      expect(ageToOpacity(0.5)).toBeCloseTo(0.5);
+    });
+
+    it('never fades out completely', () => {
+      expect(ageToOpacity(1)).toBeGreaterThan(0);
+      expect(ageToOpacity(2)).toBe(ageToOpacity(1));
+    });
+  });
+
+  describe('createPlaybackLayer', () => {
+    it('returns a pickable ScatterplotLayer', () => {
+      const layer = createPlaybackLayer([fresh], 0);
+
+      expect(layer).toBeInstanceOf(ScatterplotLayer);
+      expect(layer.id).toBe('earthquake-playback-layer');
+      expect(layer.props.pickable).toBe(true);
+    });
+
+    it('sizes events by magnitude', () => {
+      const layer = createPlaybackLayer([fresh], 0);
+      const getRadius = layer.props.getRadius as (
+        d: PlaybackEarthquake
+      ) => number;
+
+      expect(getRadius(fresh)).toBe(magnitudeToRadius(fresh.magnitude));
+    });
+
+    it('fades the depth color as events age', () => {
+      const layer = createPlaybackLayer([fresh, old], 0);
+      const getFillColor = layer.props.getFillColor as unknown as (
+        d: PlaybackEarthquake
+      ) => number[];
+      const [r, g, b, a] = depthToColorMultiStop(fresh.depth);
+
+      expect(getFillColor(fresh)).toEqual([r, g, b, a]);
+      expect(getFillColor(old)).toEqual([r, g, b, Math.round(a * 0.25)]);
+    });
+
+    it('updates colors when the playback time changes', () => {
+      const layer = createPlaybackLayer([fresh], 1234);
+
+      expect(layer.props.updateTriggers).toMatchObject({
+        getFillColor: 1234,
+        getLineColor: 1234,
+      });
+    });
+  });
+});
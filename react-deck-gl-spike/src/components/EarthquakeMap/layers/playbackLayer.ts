@@ -0,0 +1,57 @@
+import { ScatterplotLayer } from '@deck.gl/layers';
+import { COORDINATE_SYSTEM } from '@deck.gl/core';
+import type { PlaybackEarthquake } from '../../../utils/playbackFrame';
+import { filterValidEarthquakes } from '../../../utils/validateCoordinates';
+import { magnitudeToRadius } from './magnitudeScale';
+import { depthToColorMultiStop } from './depthColorScale';
+import { getEarthquakePosition } from './depthProjection';
+import type { EarthquakeLayerOptions } from './earthquakeStyle';
+
+// Keep the oldest events in the trail faintly visible
+const MIN_FADE = 0.1;
+
+/**
+ * Opacity multiplier for an event of normalized age (0 = just happened).
+ */
+export function ageToOpacity(age: number): number {
+  return Math.max(MIN_FADE, 1 - Math.min(1, Math.max(0, age)));
+}
+
+/**
+ * Earthquakes visible at the playback head, fading out as they age.
+ * Shares the depth colors and magnitude sizes of the static layer.
+ */
+export function createPlaybackLayer(
+  data: PlaybackEarthquake[],
+  time: number,
+  { verticalExaggeration = null }: EarthquakeLayerOptions = {}
+) {
+  const validData = filterValidEarthquakes(data);
+
+  return new ScatterplotLayer<PlaybackEarthquake>({
+    id: 'earthquake-playback-layer',
+    data: validData,
+    coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+    pickable: true,
+    stroked: true,
+    filled: true,
+    radiusScale: 1,
+    radiusMinPixels: 3,
+    radiusMaxPixels: 50,
+    radiusUnits: 'meters',
+    lineWidthMinPixels: 1,
+    billboard: verticalExaggeration !== null,
+    getPosition: (d) => getEarthquakePosition(d, verticalExaggeration),
+    getRadius: (d) => magnitudeToRadius(d.magnitude),
+    getFillColor: (d) => {
+      const [r, g, b, a] = depthToColorMultiStop(d.depth);
+      return [r, g, b, Math.round(a * ageToOpacity(d.age))];
+    },
+    getLineColor: (d) => [0, 0, 0, Math.round(80 * ageToOpacity(d.age))],
+    updateTriggers: {
+      getPosition: verticalExaggeration,
+      getFillColor: time,
+      getLineColor: time,
+    },
+  });
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { ScatterplotLayer } from '@deck.gl/layers';
+import {
+  createPulseLayer,
+  getPulsePhase,
+  hasActivePulses,
+  PULSE_CYCLE_MS,
+  PULSE_DURATION_MS,
+} from './pulseLayer';
+import type { Earthquake } from '../../../types/earthquake';
+
+describe('pulseLayer', () => {
+  const mockEarthquakes: Earthquake[] = [
+    {
+      id: 'new',
+      longitude: -122.5,
+      latitude: 37.5,
+      depth: 10,
+      magnitude: 4.5,
+      timestamp: '2024-01-01T00:00:00Z',
+      location: 'San Francisco, CA',
+    },
+    {
+      id: 'old',
+      longitude: 139.7,
+      latitude: 35.7,
+      depth: 350,
+      magnitude: 6.0,
+      timestamp: '2024-01-02T00:00:00Z',
+      location: 'Tokyo, Japan',
+    },
+  ];
+
+  describe('getPulsePhase', () => {
+    it('starts at 0 on arrival', () => {
+      expect(getPulsePhase(1000, 1000)).toBe(0);
+    });
+
+    it('advances through each ring cycle', () => {
+      expect(getPulsePhase(0, PULSE_CYCLE_MS / 2)).toBeCloseTo(0.5);
+      expect(getPulsePhase(0, PULSE_CYCLE_MS * 1.25)).toBeCloseTo(0.25);
+    });
+
+    it('returns null once the pulse has expired', () => {
+      expect(getPulsePhase(0, PULSE_DURATION_MS)).toBeNull();
+    });
+
+    it('returns null for arrivals in the future', () => {
+      expect(getPulsePhase(1000, 0)).toBeNull();
+    });
+  });
+
+  describe('hasActivePulses', () => {
+    it('is false without arrivals', () => {
+      expect(hasActivePulses({}, 0)).toBe(false);
+    });
+
+    it('is true while any arrival is pulsing', () => {
+      expect(hasActivePulses({ a: 0, b: 5000 }, PULSE_DURATION_MS + 1)).toBe(
+        true
+      );
+    });
+
+    it('is false once every pulse has expired', () => {
+      expect(hasActivePulses({ a: 0 }, PULSE_DURATION_MS)).toBe(false);
+    });
+  });
+
+  describe('createPulseLayer', () => {
+    it('returns a non-pickable ScatterplotLayer', () => {
+      const layer = createPulseLayer(mockEarthquakes, { new: 0 }, 100);
+
+      expect(layer).toBeInstanceOf(ScatterplotLayer);
+      expect(layer.id).toBe('earthquake-pulse-layer');
+      expect(layer.props.pickable).toBe(false);
+    });
+
+    it('only includes events that are still pulsing', () => {
+      const layer = createPulseLayer(
+        mockEarthquakes,
+        { new: PULSE_DURATION_MS, old: 0 },
+        PULSE_DURATION_MS + 100
+      );
+
+      expect((layer.props.data as Earthquake[]).map((eq) => eq.id)).toEqual([
+        'new',
+      ]);
+    });
+
+    it('grows and fades rings over a cycle', () => {
+      const ringAt = (now: number) => {
+        const layer = createPulseLayer(mockEarthquakes, { new: 0 }, now);
+        const getRadius = layer.props.getRadius as (d: Earthquake) => number;
+        const getLineColor = layer.props.getLineColor as unknown as (
+          d: Earthquake
+        ) => number[];
+        return {
+          radius: getRadius(mockEarthquakes[0]),
+          alpha: getLineColor(mockEarthquakes[0])[3],
+        };
+      };
+
+      const start = ringAt(0);
+      const later = ringAt(PULSE_CYCLE_MS * 0.75);
+
+      expect(later.radius).toBeGreaterThan(start.radius);
+      expect(later.alpha).toBeLessThan(start.alpha);
+    });
+
+    it('updates accessors when time advances', () => {
+      const layer = createPulseLayer(mockEarthquakes, { new: 0 }, 500);
+
+      expect(layer.props.updateTriggers).toMatchObject({
+        getRadius: 500,
+        getLineColor: 500,
+      });
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { ScatterplotLayer } from '@deck.gl/layers';
+import { COORDINATE_SYSTEM } from '@deck.gl/core';
+import type { Earthquake } from '../../../types/earthquake';
+import { filterValidEarthquakes } from '../../../utils/validateCoordinates';
+import { getEarthquakePosition } from './depthProjection';
+import type { EarthquakeLayerOptions } from './earthquakeStyle';
+
+/** How long a newly arrived event keeps pulsing */
+export const PULSE_DURATION_MS = 10_000;
+
+/** Duration of one expanding ring */
+export const PULSE_CYCLE_MS = 2_000;
+
+const PULSE_MIN_RADIUS = 8; // pixels
+const PULSE_MAX_RADIUS = 40; // pixels
+const PULSE_COLOR: [number, number, number] = [255, 64, 64];
+
+/**
+ * Phase (0–1) of the current ring for an event that arrived at `arrivedAt`,
+ * or null once the pulse has expired.
+ */
+export function getPulsePhase(arrivedAt: number, now: number): number | null {
+  const age = now - arrivedAt;
+  if (age < 0 || age >= PULSE_DURATION_MS) return null;
+  return (age % PULSE_CYCLE_MS) / PULSE_CYCLE_MS;
+}
+
+/**
+ * Whether any arrival is still within its pulse window.
+ */
+export function hasActivePulses(
+  arrivals: Record<string, number>,
+  now: number
+): boolean {
+  return Object.values(arrivals).some(
+    (arrivedAt) => getPulsePhase(arrivedAt, now) !== null
+  );
+}
+
+/**
+ * Expanding, fading rings drawn around events that arrived during a live
+ * refresh. Rebuilt every animation frame with the current time.
+ */
+export function createPulseLayer(
+  data: Earthquake[],
+  arrivals: Record<string, number>,
+  now: number,
+  { verticalExaggeration = null }: EarthquakeLayerOptions = {}
+) {
+  const pulsing = filterValidEarthquakes(data).filter(
+    (eq) => eq.id in arrivals && getPulsePhase(arrivals[eq.id], now) !== null
+  );
+
+  const phaseOf = (d: Earthquake) => getPulsePhase(arrivals[d.id], now) ?? 1;
+
+  return new ScatterplotLayer<Earthquake>({
+    id: 'earthquake-pulse-layer',
+    data: pulsing,
+    coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+    pickable: false,
+    stroked: true,
+    filled: false,
+    radiusUnits: 'pixels',
+    lineWidthUnits: 'pixels',
+    getLineWidth: 2,
+    billboard: verticalExaggeration !== null,
+    getPosition: (d) => getEarthquakePosition(d, verticalExaggeration),
+    getRadius: (d) =>
+      PULSE_MIN_RADIUS + phaseOf(d) * (PULSE_MAX_RADIUS - PULSE_MIN_RADIUS),
+    getLineColor: (d) => [...PULSE_COLOR, Math.round(255 * (1 - phaseOf(d)))],
+    updateTriggers: {
+      getPosition: verticalExaggeration,
+      getRadius: now,
+      getLineColor: now,
+    },
+  });
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { PolygonLayer, ScatterplotLayer } from '@deck.gl/layers';
+import { createRadiusSearchLayers } from './radiusSearchLayer';
+import type { RadiusSearch } from '../../../types/radiusSearch';
+import { haversineDistanceKm } from '../../../utils/haversine';
+
+describe('createRadiusSearchLayers', () => {
+  const search: RadiusSearch = { center: [139.69, 35.68], radiusKm: 100 };
+
+  it('returns an unpickable circle outline and center marker', () => {
+    const [circle, center] = createRadiusSearchLayers(search);
+
+    expect(circle).toBeInstanceOf(PolygonLayer);
+    expect(circle.id).toBe('radius-search-layer');
+    expect(circle.props.pickable).toBe(false);
+    expect(center).toBeInstanceOf(ScatterplotLayer);
+    expect(center.id).toBe('radius-search-center');
+    expect(center.props.pickable).toBe(false);
+  });
+
+  it('draws the circle at the search radius', () => {
+    const [circle] = createRadiusSearchLayers(search);
+    const getPolygon = (circle as PolygonLayer<RadiusSearch>).props
+      .getPolygon as unknown as (d: RadiusSearch) => [number, number][];
+
+    for (const [lng, lat] of getPolygon(search)) {
+      expect(haversineDistanceKm(35.68, 139.69, lat, lng)).toBeCloseTo(100, 6);
+    }
+  });
+
+  it('marks the search center', () => {
+    const [, center] = createRadiusSearchLayers(search);
+    const getPosition = (center as ScatterplotLayer<RadiusSearch>).props
+      .getPosition as unknown as (d: RadiusSearch) => [number, number];
+
+    expect(getPosition(search)).toEqual([139.69, 35.68]);
+  });
+});
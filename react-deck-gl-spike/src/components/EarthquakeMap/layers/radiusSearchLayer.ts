@@ -0,0 +1,38 @@
+import { PolygonLayer, ScatterplotLayer } from '@deck.gl/layers';
+import { COORDINATE_SYSTEM } from '@deck.gl/core';
+import type { RadiusSearch } from '../../../types/radiusSearch';
+import { getCircleRing } from '../../../utils/radiusSearch';
+
+const SEARCH_COLOR: [number, number, number] = [250, 204, 21];
+
+/**
+ * Outline of the radius search circle with a marker at its center,
+ * drawn beneath the events.
+ */
+export function createRadiusSearchLayers(search: RadiusSearch) {
+  return [
+    new PolygonLayer<RadiusSearch>({
+      id: 'radius-search-layer',
+      data: [search],
+      coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+      pickable: false,
+      filled: true,
+      stroked: true,
+      lineWidthUnits: 'pixels',
+      getLineWidth: 2,
+      getPolygon: (d) => getCircleRing(d),
+      getFillColor: [...SEARCH_COLOR, 30],
+      getLineColor: [...SEARCH_COLOR, 220],
+    }),
+    new ScatterplotLayer<RadiusSearch>({
+      id: 'radius-search-center',
+      data: [search],
+      coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+      pickable: false,
+      radiusUnits: 'pixels',
+      getRadius: 4,
+      getPosition: (d) => d.center,
+      getFillColor: [...SEARCH_COLOR, 255],
+    }),
+  ];
+}
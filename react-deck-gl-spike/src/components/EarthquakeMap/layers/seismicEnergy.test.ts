@@ -0,0 +1,217 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeEnergyRelease,
+  getCumulativeEnergy,
+  getEnergyByMagnitudeClass,
+  getEnergyByRegion,
+  getRegionName,
+  magnitudeToEnergy,
+  magnitudeToMoment,
+  momentToMagnitude,
+  OTHER_REGIONS_LABEL,
+} from './seismicEnergy';
+import { createEarthquake } from '../../../test/earthquakeFixture';
+
+describe('seismicEnergy', () => {
+  describe('magnitudeToEnergy', () => {
+    it('follows log10(E) = 1.5M + 4.8', () => {
+      expect(magnitudeToEnergy(0)).toBeCloseTo(Math.pow(10, 4.8));
+      expect(Math.log10(magnitudeToEnergy(6))).toBeCloseTo(13.8);
+    });
+
+    it('increases ~32x per magnitude unit', () => {
+      const ratio = magnitudeToEnergy(5) / magnitudeToEnergy(4);
+      expect(ratio).toBeCloseTo(Math.pow(10, 1.5));
+    });
+
+    it('increases 1000x per two magnitude units', () => {
+      const ratio = magnitudeToEnergy(7) / magnitudeToEnergy(5);
+      expect(ratio).toBeCloseTo(1000);
+    });
+  });
+
+  describe('magnitudeToMoment', () => {
+    it('follows log10(M0) = 1.5Mw + 9.1', () => {
+      expect(Math.log10(magnitudeToMoment(6))).toBeCloseTo(18.1);
+      expect(magnitudeToMoment(9)).toBeCloseTo(Math.pow(10, 22.6), -10);
+    });
+
+    it('grows at the same rate as energy', () => {
+      const ratio = magnitudeToMoment(7) / magnitudeToMoment(6);
+      expect(ratio).toBeCloseTo(magnitudeToEnergy(7) / magnitudeToEnergy(6));
+    });
+  });
+
+  describe('momentToMagnitude', () => {
+    it('inverts magnitudeToMoment', () => {
+      expect(momentToMagnitude(magnitudeToMoment(6.4))).toBeCloseTo(6.4);
+    });
+
+    it('gives the magnitude equivalent to several summed events', () => {
+      // Thirty-two M6 events release about as much moment as one M7
+      const summed = 32 * magnitudeToMoment(6);
+      expect(momentToMagnitude(summed)).toBeCloseTo(7, 1);
+    });
+  });
+
+  describe('getCumulativeEnergy', () => {
+    it('accumulates energy and moment in time order', () => {
+      const points = getCumulativeEnergy([
+        createEarthquake('b', {
+          magnitude: 5,
+          timestamp: '2024-01-02T00:00:00Z',
+        }),
+        createEarthquake('a', {
+          magnitude: 4,
+          timestamp: '2024-01-01T00:00:00Z',
+        }),
+      ]);
+
+      expect(points.map((p) => p.time)).toEqual([
+        Date.parse('2024-01-01T00:00:00Z'),
+        Date.parse('2024-01-02T00:00:00Z'),
+      ]);
+      expect(points[0].energy).toBeCloseTo(magnitudeToEnergy(4));
+      expect(points[1].energy).toBeCloseTo(
+        magnitudeToEnergy(4) + magnitudeToEnergy(5)
+      );
+      expect(points[1].moment).toBeCloseTo(
+        magnitudeToMoment(4) + magnitudeToMoment(5)
+      );
+    });
+
+    it('returns no points for no events', () => {
+      expect(getCumulativeEnergy([])).toEqual([]);
+    });
+  });
+
+  describe('getEnergyByMagnitudeClass', () => {
+    it('lists every class with its share of the energy', () => {
+      const shares = getEnergyByMagnitudeClass([
+        createEarthquake('a', {
+          magnitude: 2.5,
+          timestamp: '2024-01-01T00:00:00Z',
+        }),
+        createEarthquake('b', {
+          magnitude: 4.9,
+          timestamp: '2024-01-01T00:00:00Z',
+        }),
+        createEarthquake('c', {
+          magnitude: 7.0,
+          timestamp: '2024-01-01T00:00:00Z',
+        }),
+      ]);
+
+      expect(shares.map((s) => s.label)).toEqual([
+        'M < 3',
+        'M3–4',
+        'M4–5',
+        'M5–6',
+        'M6–7',
+        'M7+',
+      ]);
+      expect(shares.map((s) => s.count)).toEqual([1, 0, 1, 0, 0, 1]);
+      // A single M7 outweighs everything smaller
+      expect(shares[5].share).toBeGreaterThan(0.99);
+      expect(shares.reduce((sum, s) => sum + s.share, 0)).toBeCloseTo(1);
+    });
+  });
+
+  describe('getRegionName', () => {
+    it('takes the region after the last comma', () => {
+      expect(getRegionName('12 km NE of Ridgecrest, CA')).toBe('CA');
+      expect(getRegionName('80 km S of Nikolski, Alaska')).toBe('Alaska');
+    });
+
+    it('drops the distance and direction from bare place names', () => {
+      expect(getRegionName('5 km SSW of Volcano')).toBe('Volcano');
+    });
+
+    it('keeps descriptive region names', () => {
+      expect(getRegionName('south of the Fiji Islands')).toBe(
+        'south of the Fiji Islands'
+      );
+    });
+
+    it('falls back for empty locations', () => {
+      expect(getRegionName('')).toBe('Unknown');
+    });
+  });
+
+  describe('getEnergyByRegion', () => {
+    const earthquakes = [
+      createEarthquake('a', {
+        magnitude: 6,
+        timestamp: '2024-01-01T00:00:00Z',
+        location: '10 km N of Town, Japan',
+      }),
+      createEarthquake('b', {
+        magnitude: 5,
+        timestamp: '2024-01-01T00:00:00Z',
+        location: 'Off coast, Chile',
+      }),
+      createEarthquake('c', {
+        magnitude: 5,
+        timestamp: '2024-01-01T00:00:00Z',
+        location: '20 km W of City, Japan',
+      }),
+      createEarthquake('d', {
+        magnitude: 4,
+        timestamp: '2024-01-01T00:00:00Z',
+        location: 'Fiji region',
+      }),
+    ];
+
+    it('ranks regions by energy', () => {
+      const shares = getEnergyByRegion(earthquakes);
+
+      expect(shares.map((s) => s.label)).toEqual([
+        'Japan',
+        'Chile',
+        'Fiji region',
+      ]);
+      expect(shares[0].count).toBe(2);
+      expect(shares[0].energy).toBeCloseTo(
+        magnitudeToEnergy(6) + magnitudeToEnergy(5)
+      );
+    });
+
+    it('groups regions beyond the limit', () => {
+      const shares = getEnergyByRegion(earthquakes, 1);
+
+      expect(shares.map((s) => s.label)).toEqual([
+        'Japan',
+        OTHER_REGIONS_LABEL,
+      ]);
+      expect(shares[1].count).toBe(2);
+      expect(shares[0].share + shares[1].share).toBeCloseTo(1);
+    });
+  });
+
+  describe('analyzeEnergyRelease', () => {
+    it('totals energy and moment', () => {
+      const release = analyzeEnergyRelease([
+        createEarthquake('a', {
+          magnitude: 6,
+          timestamp: '2024-01-01T00:00:00Z',
+        }),
+        createEarthquake('b', {
+          magnitude: 6,
+          timestamp: '2024-01-02T00:00:00Z',
+        }),
+      ]);
+
+      expect(release.cumulative).toHaveLength(2);
+      expect(release.totalEnergy).toBeCloseTo(2 * magnitudeToEnergy(6));
+      expect(release.totalMoment).toBeCloseTo(2 * magnitudeToMoment(6));
+    });
+
+    it('is empty without events', () => {
+      const release = analyzeEnergyRelease([]);
+
+      expect(release.totalEnergy).toBe(0);
+      expect(release.byRegion).toEqual([]);
+      expect(release.byMagnitude.every((s) => s.share === 0)).toBe(true);
+    });
+  });
+});
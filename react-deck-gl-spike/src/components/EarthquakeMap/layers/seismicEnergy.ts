@@ -0,0 +1,212 @@
+import type { Earthquake } from '../../../types/earthquake';
+
+/**
+ * Radiated seismic energy using the Gutenberg–Richter energy relation:
+ * log10(E) = 1.5 * M + 4.8
+ *
+ * Each whole magnitude step releases ~32 times more energy, so summed energy
+ * is dominated by the largest events in an area.
+ *
+ * @param magnitude - Earthquake magnitude (typically 0-10)
+ * @returns Energy in joules
+ */
+export function magnitudeToEnergy(magnitude: number): number {
+  return Math.pow(10, 1.5 * magnitude + 4.8);
+}
+
+/**
+ * Scalar seismic moment from moment magnitude (Hanks & Kanamori, 1979):
+ * log10(M0) = 1.5 * Mw + 9.1
+ *
+ * Other magnitude types are treated as Mw, which is close enough for summing
+ * the moment of a catalog dominated by its largest events.
+ *
+ * @param magnitude - Earthquake magnitude (typically 0-10)
+ * @returns Moment in newton-metres
+ */
+export function magnitudeToMoment(magnitude: number): number {
+  return Math.pow(10, 1.5 * magnitude + 9.1);
+}
+
+/**
+ * Moment magnitude of a (summed) seismic moment, the inverse of
+ * `magnitudeToMoment`.
+ *
+ * @param moment - Seismic moment in newton-metres
+ * @returns Moment magnitude
+ */
+export function momentToMagnitude(moment: number): number {
+  return (Math.log10(moment) - 9.1) / 1.5;
+}
+
+export interface CumulativeEnergyPoint {
+  /** Epoch ms of the event */
+  time: number;
+  /** Energy released up to and including this event, in joules */
+  energy: number;
+  /** Moment released up to and including this event, in newton-metres */
+  moment: number;
+}
+
+export interface EnergyShare {
+  label: string;
+  count: number;
+  /** Energy in joules */
+  energy: number;
+  /** Fraction (0–1) of the total energy */
+  share: number;
+}
+
+export interface EnergyRelease {
+  /** One point per event, oldest first */
+  cumulative: CumulativeEnergyPoint[];
+  totalEnergy: number;
+  totalMoment: number;
+  byMagnitude: EnergyShare[];
+  byRegion: EnergyShare[];
+}
+
+/** Magnitude classes for the energy breakdown, smallest first */
+export const ENERGY_MAGNITUDE_CLASSES = [
+  { label: 'M < 3', min: -Infinity, max: 3 },
+  { label: 'M3–4', min: 3, max: 4 },
+  { label: 'M4–5', min: 4, max: 5 },
+  { label: 'M5–6', min: 5, max: 6 },
+  { label: 'M6–7', min: 6, max: 7 },
+  { label: 'M7+', min: 7, max: Infinity },
+] as const;
+
+/** Regions listed by name in the breakdown; the rest are grouped */
+export const MAX_ENERGY_REGIONS = 5;
+
+export const OTHER_REGIONS_LABEL = 'Other regions';
+
+/**
+ * Running totals of energy and moment through time.
+ */
+export function getCumulativeEnergy(
+  earthquakes: Earthquake[]
+): CumulativeEnergyPoint[] {
+  const sorted = earthquakes
+    .map((eq) => ({ eq, time: new Date(eq.timestamp).getTime() }))
+    .sort((a, b) => a.time - b.time);
+
+  let energy = 0;
+  let moment = 0;
+  return sorted.map(({ eq, time }) => {
+    energy += magnitudeToEnergy(eq.magnitude);
+    moment += magnitudeToMoment(eq.magnitude);
+    return { time, energy, moment };
+  });
+}
+
+function toShares(
+  groups: Map<string, { count: number; energy: number }>,
+  totalEnergy: number
+): EnergyShare[] {
+  return [...groups].map(([label, { count, energy }]) => ({
+    label,
+    count,
+    energy,
+    share: totalEnergy > 0 ? energy / totalEnergy : 0,
+  }));
+}
+
+/**
+ * Energy released by each magnitude class. Every class is listed, even when
+ * empty, so the breakdown keeps the same rows as filters change.
+ */
+export function getEnergyByMagnitudeClass(
+  earthquakes: Earthquake[]
+): EnergyShare[] {
+  const groups = new Map(
+    ENERGY_MAGNITUDE_CLASSES.map(({ label }) => [
+      label as string,
+      { count: 0, energy: 0 },
+    ])
+  );
+  let totalEnergy = 0;
+
+  for (const eq of earthquakes) {
+    const magnitudeClass = ENERGY_MAGNITUDE_CLASSES.find(
+      ({ min, max }) => eq.magnitude >= min && eq.magnitude < max
+    );
+    if (!magnitudeClass) continue;
+
+    const group = groups.get(magnitudeClass.label)!;
+    const energy = magnitudeToEnergy(eq.magnitude);
+    group.count++;
+    group.energy += energy;
+    totalEnergy += energy;
+  }
+
+  return toShares(groups, totalEnergy);
+}
+
+/**
+ * Broad region of a USGS place name: "12 km NE of Ridgecrest, CA" becomes
+ * "CA" and "south of the Fiji Islands" stays as it is.
+ */
+export function getRegionName(location: string): string {
+  const comma = location.lastIndexOf(',');
+  const region = (comma === -1 ? location : location.slice(comma + 1))
+    .replace(/^\s*[\d.]+\s*km\s+[NSEW]{1,3}\s+of\s+/i, '')
+    .trim();
+  return region || 'Unknown';
+}
+
+/**
+ * Energy released in each region, largest first. Regions beyond
+ * `maxRegions` are summed into a final "Other regions" row.
+ */
+export function getEnergyByRegion(
+  earthquakes: Earthquake[],
+  maxRegions: number = MAX_ENERGY_REGIONS
+): EnergyShare[] {
+  const groups = new Map<string, { count: number; energy: number }>();
+  let totalEnergy = 0;
+
+  for (const eq of earthquakes) {
+    const region = getRegionName(eq.location);
+    const group = groups.get(region) ?? { count: 0, energy: 0 };
+    const energy = magnitudeToEnergy(eq.magnitude);
+    group.count++;
+    group.energy += energy;
+    groups.set(region, group);
+    totalEnergy += energy;
+  }
+
+  const shares = toShares(groups, totalEnergy).sort(
+    (a, b) => b.energy - a.energy
+  );
+  if (shares.length <= maxRegions) return shares;
+
+  const others = shares.slice(maxRegions);
+  const otherEnergy = others.reduce((sum, s) => sum + s.energy, 0);
+  return [
+    ...shares.slice(0, maxRegions),
+    {
+      label: OTHER_REGIONS_LABEL,
+      count: others.reduce((sum, s) => sum + s.count, 0),
+      energy: otherEnergy,
+      share: otherEnergy / totalEnergy,
+    },
+  ];
+}
+
+/**
+ * Energy and moment release of a set of events: the cumulative curve, totals
+ * and breakdowns by magnitude class and region.
+ */
+export function analyzeEnergyRelease(earthquakes: Earthquake[]): EnergyRelease {
+  const cumulative = getCumulativeEnergy(earthquakes);
+  const last = cumulative[cumulative.length - 1];
+
+  return {
+    cumulative,
+    totalEnergy: last?.energy ?? 0,
+    totalMoment: last?.moment ?? 0,
+    byMagnitude: getEnergyByMagnitudeClass(earthquakes),
+    byRegion: getEnergyByRegion(earthquakes),
+  };
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { createSelectionLayer } from './selectionLayer';
+import type { Earthquake } from '../../../types/earthquake';
+
+describe('createSelectionLayer', () => {
+  const earthquake: Earthquake = {
+    id: 'us1',
+    longitude: 142,
+    latitude: 38,
+    depth: 30,
+    magnitude: 6.0,
+    timestamp: '2024-01-01T00:00:00Z',
+    location: 'Test',
+  };
+
+  it('draws a single unpickable ring around the selected event', () => {
+    const layer = createSelectionLayer(earthquake);
+
+    expect(layer.id).toBe('earthquake-selection-layer');
+    expect(layer.props.data).toEqual([earthquake]);
+    expect(layer.props.pickable).toBe(false);
+    expect(layer.props.filled).toBe(false);
+    expect(layer.props.stroked).toBe(true);
+  });
+
+  it('places the ring at the surface by default', () => {
+    const layer = createSelectionLayer(earthquake);
+    const getPosition = layer.props.getPosition as unknown as (
+      d: Earthquake
+    ) => number[];
+
+    expect(getPosition(earthquake)).toEqual([142, 38]);
+  });
+
+  it('follows the hypocenter in the depth view', () => {
+    const layer = createSelectionLayer(earthquake, {
+      verticalExaggeration: 5,
+    });
+    const getPosition = layer.props.getPosition as unknown as (
+      d: Earthquake
+    ) => number[];
+
+    expect(getPosition(earthquake)[2]).toBeLessThan(0);
+    expect(layer.props.billboard).toBe(true);
+  });
+});
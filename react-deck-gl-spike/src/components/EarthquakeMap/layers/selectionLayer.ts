@@ -0,0 +1,32 @@
+import { ScatterplotLayer } from '@deck.gl/layers';
+import { COORDINATE_SYSTEM } from '@deck.gl/core';
+import type { Earthquake } from '../../../types/earthquake';
+import { getEarthquakePosition } from './depthProjection';
+import type { EarthquakeLayerOptions } from './earthquakeStyle';
+
+/**
+ * Ring marking the event pinned in the detail panel.
+ */
+export function createSelectionLayer(
+  earthquake: Earthquake,
+  { verticalExaggeration = null }: EarthquakeLayerOptions = {}
+) {
+  return new ScatterplotLayer<Earthquake>({
+    id: 'earthquake-selection-layer',
+    data: [earthquake],
+    coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+    pickable: false,
+    stroked: true,
+    filled: false,
+    radiusUnits: 'pixels',
+    lineWidthUnits: 'pixels',
+    billboard: verticalExaggeration !== null,
+    getRadius: 14,
+    getLineWidth: 3,
+    getLineColor: [255, 255, 255, 230],
+    getPosition: (d) => getEarthquakePosition(d, verticalExaggeration),
+    updateTriggers: {
+      getPosition: verticalExaggeration,
+    },
+  });
+}
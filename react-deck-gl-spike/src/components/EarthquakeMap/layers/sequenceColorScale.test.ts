@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BACKGROUND_COLOR,
+  SEQUENCE_COLORS,
+  getSequenceColor,
+} from './sequenceColorScale';
+
+describe('getSequenceColor', () => {
+  it('returns the background color for events outside a sequence', () => {
+    expect(getSequenceColor(undefined)).toEqual(BACKGROUND_COLOR);
+  });
+
+  it('gives distinct colors to the first sequences', () => {
+    const colors = SEQUENCE_COLORS.map((_, i) => getSequenceColor(i).join(','));
+    expect(new Set(colors).size).toBe(SEQUENCE_COLORS.length);
+  });
+
+  it('cycles through the palette', () => {
+    expect(getSequenceColor(SEQUENCE_COLORS.length)).toEqual(
+      getSequenceColor(0)
+    );
+  });
+
+  it('draws sequence members more opaque than the background', () => {
+    expect(getSequenceColor(0)[3]).toBeGreaterThan(BACKGROUND_COLOR[3]);
+  });
+});
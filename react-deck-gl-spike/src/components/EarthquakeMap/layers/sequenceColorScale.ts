@@ -0,0 +1,28 @@
+type RGBA = [number, number, number, number];
+
+// Categorical palette (Tableau 10) so neighbouring sequences stay distinct
+export const SEQUENCE_COLORS: readonly (readonly [number, number, number])[] = [
+  [78, 121, 167],
+  [242, 142, 43],
+  [225, 87, 89],
+  [118, 183, 178],
+  [89, 161, 79],
+  [237, 201, 72],
+  [176, 122, 161],
+  [255, 157, 167],
+  [156, 117, 95],
+  [186, 176, 172],
+];
+
+/** Muted gray for events outside any sequence */
+export const BACKGROUND_COLOR: RGBA = [128, 128, 128, 100];
+
+/**
+ * Color for a sequence index, cycling through the palette.
+ * Events without a sequence (undefined) get the background color.
+ */
+export function getSequenceColor(index: number | undefined): RGBA {
+  if (index === undefined) return BACKGROUND_COLOR;
+  const [r, g, b] = SEQUENCE_COLORS[index % SEQUENCE_COLORS.length];
+  return [r, g, b, 200];
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { PolygonLayer } from '@deck.gl/layers';
+import { createSpatialSelectionLayer } from './spatialSelectionLayer';
+import type { SelectionShape } from '../../../types/spatialSelection';
+
+describe('createSpatialSelectionLayer', () => {
+  const shapes: SelectionShape[] = [
+    {
+      id: 'shape-1',
+      tool: 'rectangle',
+      ring: [
+        [0, 0],
+        [10, 0],
+        [10, 10],
+        [0, 10],
+      ],
+    },
+  ];
+
+  it('returns an unpickable PolygonLayer of the shapes', () => {
+    const layer = createSpatialSelectionLayer(shapes);
+
+    expect(layer).toBeInstanceOf(PolygonLayer);
+    expect(layer.id).toBe('spatial-selection-layer');
+    expect(layer.props.data).toBe(shapes);
+    expect(layer.props.pickable).toBe(false);
+  });
+
+  it('uses each shape ring as its polygon', () => {
+    const layer = createSpatialSelectionLayer(shapes);
+    const getPolygon = layer.props.getPolygon as unknown as (
+      d: SelectionShape
+    ) => unknown;
+
+    expect(getPolygon(shapes[0])).toBe(shapes[0].ring);
+  });
+});
@@ -0,0 +1,22 @@
+import { PolygonLayer } from '@deck.gl/layers';
+import { COORDINATE_SYSTEM } from '@deck.gl/core';
+import type { SelectionShape } from '../../../types/spatialSelection';
+
+/**
+ * Outlines of the drawn selection shapes, drawn beneath the events.
+ */
+export function createSpatialSelectionLayer(shapes: SelectionShape[]) {
+  return new PolygonLayer<SelectionShape>({
+    id: 'spatial-selection-layer',
+    data: shapes,
+    coordinateSystem: COORDINATE_SYSTEM.LNGLAT,
+    pickable: false,
+    filled: true,
+    stroked: true,
+    lineWidthUnits: 'pixels',
+    getLineWidth: 2,
+    getPolygon: (d) => d.ring,
+    getFillColor: [96, 165, 250, 40],
+    getLineColor: [96, 165, 250, 220],
+  });
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import {
+  STATUS_CLASSES,
+  UNKNOWN_STATUS_COLOR,
+  statusToColor,
+} from './statusColorScale';
+
+describe('statusToColor', () => {
+  it('colors reviewed and automatic events differently', () => {
+    expect(statusToColor('reviewed')).toEqual([
+      ...STATUS_CLASSES[0].color,
+      180,
+    ]);
+    expect(statusToColor('automatic')).toEqual([
+      ...STATUS_CLASSES[1].color,
+      180,
+    ]);
+  });
+
+  it('matches statuses case-insensitively', () => {
+    expect(statusToColor('REVIEWED')).toEqual(statusToColor('reviewed'));
+  });
+
+  it('uses gray for missing or unrecognized statuses', () => {
+    expect(statusToColor(undefined)).toEqual(UNKNOWN_STATUS_COLOR);
+    expect(statusToColor('deleted')).toEqual(UNKNOWN_STATUS_COLOR);
+  });
+});
@@ -0,0 +1,26 @@
+type RGBA = [number, number, number, number];
+
+interface StatusClass {
+  status: string;
+  label: string;
+  color: readonly [number, number, number];
+}
+
+// Review statuses reported by the USGS feeds
+export const STATUS_CLASSES: readonly StatusClass[] = [
+  { status: 'reviewed', label: 'Reviewed', color: [59, 130, 246] },
+  { status: 'automatic', label: 'Automatic', color: [249, 115, 22] },
+];
+
+/** Gray for deleted events or catalogs without a review status */
+export const UNKNOWN_STATUS_COLOR: RGBA = [128, 128, 128, 100];
+
+/**
+ * Color for a review status, matched case-insensitively.
+ */
+export function statusToColor(status: string | undefined): RGBA {
+  const match = STATUS_CLASSES.find(
+    (statusClass) => statusClass.status === status?.toLowerCase()
+  );
+  return match ? [...match.color, 180] : UNKNOWN_STATUS_COLOR;
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { GeoJsonLayer } from '@deck.gl/layers';
+import { PathStyleExtension } from '@deck.gl/extensions';
+import type { Feature } from 'geojson';
+import {
+  FAULT_COLOR,
+  FAULT_DASH,
+  PLATE_BOUNDARY_COLORS,
+  createFaultLayer,
+  createPlateBoundaryLayer,
+} from './tectonicLayers';
+import type {
+  FaultCollection,
+  PlateBoundaryCollection,
+} from '../../../types/tectonics';
+
+describe('tectonicLayers', () => {
+  const boundaries: PlateBoundaryCollection = {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        properties: { name: 'Test Trench', type: 'convergent', plates: 'A-B' },
+        geometry: {
+          type: 'LineString',
+          coordinates: [
+            [0, 0],
+            [1, 1],
+          ],
+        },
+      },
+    ],
+  };
+  const faults: FaultCollection = {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        properties: { name: 'Test Fault' },
+        geometry: {
+          type: 'LineString',
+          coordinates: [
+            [2, 2],
+            [3, 3],
+          ],
+        },
+      },
+    ],
+  };
+
+  describe('createPlateBoundaryLayer', () => {
+    it('draws the boundaries as pickable GeoJSON', () => {
+      const layer = createPlateBoundaryLayer(boundaries);
+
+      expect(layer).toBeInstanceOf(GeoJsonLayer);
+      expect(layer.id).toBe('plate-boundary-layer');
+      expect(layer.props.data).toBe(boundaries);
+      expect(layer.props.pickable).toBe(true);
+      expect(layer.props.autoHighlight).toBe(true);
+    });
+
+    it('colors each boundary by its type', () => {
+      const layer = createPlateBoundaryLayer(boundaries);
+      const getLineColor = layer.props.getLineColor as unknown as (
+        f: Feature
+      ) => number[];
+
+      expect(getLineColor(boundaries.features[0])).toEqual([
+        ...PLATE_BOUNDARY_COLORS.convergent,
+        220,
+      ]);
+    });
+
+    it('gives each boundary type its own color', () => {
+      const colors = Object.values(PLATE_BOUNDARY_COLORS).map((c) => `${c}`);
+      expect(new Set(colors).size).toBe(3);
+    });
+  });
+
+  describe('createFaultLayer', () => {
+    it('draws the faults as pickable GeoJSON', () => {
+      const layer = createFaultLayer(faults);
+
+      expect(layer).toBeInstanceOf(GeoJsonLayer);
+      expect(layer.id).toBe('fault-layer');
+      expect(layer.props.data).toBe(faults);
+      expect(layer.props.pickable).toBe(true);
+      expect(layer.props.getLineColor).toEqual([...FAULT_COLOR, 220]);
+    });
+
+    it('dashes the fault lines', () => {
+      const layer = createFaultLayer(faults);
+      const [extension] = layer.props.extensions;
+
+      expect(extension).toBeInstanceOf(PathStyleExtension);
+      expect(extension.opts).toMatchObject({ dash: true });
+      expect(layer.props.getDashArray).toEqual(FAULT_DASH);
+    });
+  });
+});
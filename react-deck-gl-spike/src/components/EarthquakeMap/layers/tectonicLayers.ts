@@ -0,0 +1,69 @@
+import { GeoJsonLayer } from '@deck.gl/layers';
+import {
+  PathStyleExtension,
+  type PathStyleExtensionProps,
+} from '@deck.gl/extensions';
+import type {
+  FaultCollection,
+  FaultProperties,
+  PlateBoundaryCollection,
+  PlateBoundaryProperties,
+  PlateBoundaryType,
+} from '../../../types/tectonics';
+
+type RGB = [number, number, number];
+
+// Red for plates closing, blue for opening, amber for sliding past
+export const PLATE_BOUNDARY_COLORS: Record<PlateBoundaryType, RGB> = {
+  convergent: [220, 38, 38],
+  divergent: [37, 99, 235],
+  transform: [217, 119, 6],
+};
+
+export const FAULT_COLOR: RGB = [124, 58, 237];
+
+// Dash and gap lengths in line widths
+export const FAULT_DASH: [number, number] = [4, 3];
+
+export const PLATE_BOUNDARY_LAYER_ID = 'plate-boundary-layer';
+export const FAULT_LAYER_ID = 'fault-layer';
+
+const dashed = new PathStyleExtension({ dash: true });
+
+/**
+ * Plate boundaries colored by type, drawn beneath the events. Pickable so
+ * hovering a boundary can name it.
+ */
+export function createPlateBoundaryLayer(boundaries: PlateBoundaryCollection) {
+  return new GeoJsonLayer<PlateBoundaryProperties>({
+    id: PLATE_BOUNDARY_LAYER_ID,
+    data: boundaries,
+    pickable: true,
+    autoHighlight: true,
+    highlightColor: [255, 255, 255, 160],
+    lineWidthUnits: 'pixels',
+    getLineWidth: 2,
+    lineWidthMinPixels: 1,
+    getLineColor: (f) => [...PLATE_BOUNDARY_COLORS[f.properties.type], 220],
+  });
+}
+
+/**
+ * Major faults as thin dashed lines, so they read as secondary to the
+ * plate boundaries they often branch from.
+ */
+export function createFaultLayer(faults: FaultCollection) {
+  return new GeoJsonLayer<FaultProperties, PathStyleExtensionProps>({
+    id: FAULT_LAYER_ID,
+    data: faults,
+    pickable: true,
+    autoHighlight: true,
+    highlightColor: [255, 255, 255, 160],
+    lineWidthUnits: 'pixels',
+    getLineWidth: 1.5,
+    getLineColor: [...FAULT_COLOR, 220],
+    extensions: [dashed],
+    getDashArray: FAULT_DASH,
+    dashJustified: true,
+  });
+}
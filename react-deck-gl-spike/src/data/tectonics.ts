@@ -0,0 +1,22 @@
+import type {
+  FaultCollection,
+  PlateBoundaryCollection,
+} from '../types/tectonics';
+import plateBoundaries from './plateBoundaries.json';
+import majorFaults from './majorFaults.json';
+
+/**
+ * How far the bundled lines can sit from the real boundaries and faults.
+ * They are hand-traced from general reference maps, with vertices placed to
+ * about a degree and straight runs of several hundred km between them.
+ */
+export const TECTONIC_LINE_ERROR_KM = 100;
+
+/**
+ * Major plate boundaries, hand-traced with a few points per segment. A
+ * sketch for context: distances to it are off by 100 km or more in places.
+ */
+export const PLATE_BOUNDARIES = plateBoundaries as PlateBoundaryCollection;
+
+/** Major active faults, hand-traced to the same precision as the boundaries */
+export const MAJOR_FAULTS = majorFaults as FaultCollection;
@@ -1,21 +1,8 @@
 import { useState, useEffect } from 'react';
-import {
-  GeoJSONResponseSchema,
-  type Earthquake,
-  type GeoJSONFeature,
-} from '../types/earthquake';
+import { GeoJSONResponseSchema, type Earthquake } from '../types/earthquake';
+import { transformGeoJSONFeature } from '../stores/earthquakeStore';
 
-export function transformGeoJSONFeature(feature: GeoJSONFeature): Earthquake {
-  return {
-    id: feature.id,
-    longitude: feature.geometry.coordinates[0],
-    latitude: feature.geometry.coordinates[1],
-    depth: feature.geometry.coordinates[2],
-    magnitude: feature.properties.mag ?? 0,
-    timestamp: new Date(feature.properties.time).toISOString(),
-    location: feature.properties.place ?? 'Unknown location',
-  };
-}
+export { transformGeoJSONFeature };
 
 export function useEarthquakeData(url: string) {
   const [data, setData] = useState<Earthquake[]>([]);
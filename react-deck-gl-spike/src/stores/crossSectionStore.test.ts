@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useCrossSectionStore } from './crossSectionStore';
+import { DEFAULT_SWATH_WIDTH_KM } from '../types/crossSection';
+
+describe('crossSectionStore', () => {
+  beforeEach(() => {
+    useCrossSectionStore.getState().reset();
+  });
+
+  it('has correct initial state', () => {
+    const state = useCrossSectionStore.getState();
+    expect(state.line).toBeNull();
+    expect(state.widthKm).toBe(DEFAULT_SWATH_WIDTH_KM);
+    expect(state.drawing).toBe(false);
+    expect(state.pendingStart).toBeNull();
+  });
+
+  it('draws a line from two clicked points', () => {
+    const { startDrawing, addPoint } = useCrossSectionStore.getState();
+    startDrawing();
+    addPoint([140, 35]);
+
+    expect(useCrossSectionStore.getState().pendingStart).toEqual([140, 35]);
+    expect(useCrossSectionStore.getState().line).toBeNull();
+
+    addPoint([145, 40]);
+
+    const state = useCrossSectionStore.getState();
+    expect(state.line).toEqual({ start: [140, 35], end: [145, 40] });
+    expect(state.drawing).toBe(false);
+    expect(state.pendingStart).toBeNull();
+  });
+
+  it('keeps the current line until a new one is finished', () => {
+    const { startDrawing, addPoint } = useCrossSectionStore.getState();
+    startDrawing();
+    addPoint([140, 35]);
+    addPoint([145, 40]);
+
+    startDrawing();
+    addPoint([0, 0]);
+
+    expect(useCrossSectionStore.getState().line).toEqual({
+      start: [140, 35],
+      end: [145, 40],
+    });
+  });
+
+  it('cancelDrawing drops the pending start', () => {
+    useCrossSectionStore.getState().startDrawing();
+    useCrossSectionStore.getState().addPoint([140, 35]);
+    useCrossSectionStore.getState().cancelDrawing();
+
+    const state = useCrossSectionStore.getState();
+    expect(state.drawing).toBe(false);
+    expect(state.pendingStart).toBeNull();
+  });
+
+  it('setWidthKm changes the swath width', () => {
+    useCrossSectionStore.getState().setWidthKm(200);
+    expect(useCrossSectionStore.getState().widthKm).toBe(200);
+  });
+
+  it('clearLine removes the cross-section', () => {
+    useCrossSectionStore.setState({
+      line: { start: [140, 35], end: [145, 40] },
+      drawing: true,
+    });
+    useCrossSectionStore.getState().clearLine();
+
+    const state = useCrossSectionStore.getState();
+    expect(state.line).toBeNull();
+    expect(state.drawing).toBe(false);
+  });
+});
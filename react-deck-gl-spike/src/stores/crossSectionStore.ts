@@ -0,0 +1,52 @@
+import { create } from 'zustand';
+import {
+  DEFAULT_SWATH_WIDTH_KM,
+  type CrossSectionLine,
+} from '../types/crossSection';
+import type { LngLat } from '../types/spatialSelection';
+
+interface CrossSectionState {
+  /** Profile line, or null when no cross-section is shown */
+  line: CrossSectionLine | null;
+  widthKm: number;
+  /** Whether map clicks place the ends of a new line */
+  drawing: boolean;
+  /** First end of the line being drawn */
+  pendingStart: LngLat | null;
+
+  // Actions
+  startDrawing: () => void;
+  cancelDrawing: () => void;
+  addPoint: (point: LngLat) => void;
+  setWidthKm: (widthKm: number) => void;
+  clearLine: () => void;
+  reset: () => void;
+}
+
+const initialState = {
+  line: null as CrossSectionLine | null,
+  widthKm: DEFAULT_SWATH_WIDTH_KM,
+  drawing: false,
+  pendingStart: null as LngLat | null,
+};
+
+export const useCrossSectionStore = create<CrossSectionState>((set) => ({
+  ...initialState,
+
+  startDrawing: () => set({ drawing: true, pendingStart: null }),
+  cancelDrawing: () => set({ drawing: false, pendingStart: null }),
+  // The first click places A, the second A′ and returns the map to panning
+  addPoint: (point) =>
+    set((state) =>
+      state.pendingStart
+        ? {
+            line: { start: state.pendingStart, end: point },
+            drawing: false,
+            pendingStart: null,
+          }
+        : { pendingStart: point }
+    ),
+  setWidthKm: (widthKm) => set({ widthKm }),
+  clearLine: () => set({ line: null, drawing: false, pendingStart: null }),
+  reset: () => set(initialState),
+}));
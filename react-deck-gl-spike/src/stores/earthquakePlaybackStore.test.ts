@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useEarthquakePlaybackStore } from './earthquakePlaybackStore';
+import { PLAYBACK_TRAILS } from '../types/earthquakePlayback';
+
+describe('earthquakePlaybackStore', () => {
+  beforeEach(() => {
+    useEarthquakePlaybackStore.getState().reset();
+  });
+
+  it('has correct initial state', () => {
+    const state = useEarthquakePlaybackStore.getState();
+    expect(state.currentTime).toBe(0);
+    expect(state.isPlaying).toBe(false);
+    expect(state.playbackSpeed).toBe(6);
+    expect(state.loopEnabled).toBe(false);
+    expect(state.trailMs).toBe(PLAYBACK_TRAILS[1].value);
+    expect(state.playbackEnabled).toBe(false);
+  });
+
+  it('setCurrentTime updates the playback head', () => {
+    useEarthquakePlaybackStore.getState().setCurrentTime(1704067200000);
+    expect(useEarthquakePlaybackStore.getState().currentTime).toBe(
+      1704067200000
+    );
+  });
+
+  it('togglePlayback flips the playing state', () => {
+    useEarthquakePlaybackStore.getState().togglePlayback();
+    expect(useEarthquakePlaybackStore.getState().isPlaying).toBe(true);
+
+    useEarthquakePlaybackStore.getState().togglePlayback();
+    expect(useEarthquakePlaybackStore.getState().isPlaying).toBe(false);
+  });
+
+  it('setPlaybackSpeed updates speed', () => {
+    useEarthquakePlaybackStore.getState().setPlaybackSpeed(72);
+    expect(useEarthquakePlaybackStore.getState().playbackSpeed).toBe(72);
+  });
+
+  it('setLoopEnabled updates loop state', () => {
+    useEarthquakePlaybackStore.getState().setLoopEnabled(true);
+    expect(useEarthquakePlaybackStore.getState().loopEnabled).toBe(true);
+  });
+
+  it('setTrailMs updates the fade trail', () => {
+    useEarthquakePlaybackStore.getState().setTrailMs(PLAYBACK_TRAILS[2].value);
+    expect(useEarthquakePlaybackStore.getState().trailMs).toBe(
+      PLAYBACK_TRAILS[2].value
+    );
+  });
+
+  describe('setPlaybackEnabled', () => {
+    it('enables playback', () => {
+      useEarthquakePlaybackStore.getState().setPlaybackEnabled(true);
+      expect(useEarthquakePlaybackStore.getState().playbackEnabled).toBe(true);
+    });
+
+    it('stops and rewinds when disabling playback', () => {
+      useEarthquakePlaybackStore.setState({
+        playbackEnabled: true,
+        isPlaying: true,
+        currentTime: 1704067200000,
+      });
+
+      useEarthquakePlaybackStore.getState().setPlaybackEnabled(false);
+
+      const state = useEarthquakePlaybackStore.getState();
+      expect(state.isPlaying).toBe(false);
+      expect(state.currentTime).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { create } from 'zustand';
+import {
+  PLAYBACK_TRAILS,
+  type EarthquakePlaybackState,
+} from '../types/earthquakePlayback';
+
+interface PlaybackStoreState extends EarthquakePlaybackState {
+  playbackEnabled: boolean;
+
+  // Actions
+  setCurrentTime: (time: number) => void;
+  setIsPlaying: (playing: boolean) => void;
+  togglePlayback: () => void;
+  setPlaybackSpeed: (speed: number) => void;
+  setLoopEnabled: (enabled: boolean) => void;
+  setTrailMs: (trailMs: number) => void;
+  setPlaybackEnabled: (enabled: boolean) => void;
+  reset: () => void;
+}
+
+const initialState: EarthquakePlaybackState & { playbackEnabled: boolean } = {
+  currentTime: 0, // Clamped to the start of the catalog
+  isPlaying: false,
+  playbackSpeed: 6, // 6 hours per second replays a month in two minutes
+  loopEnabled: false,
+  trailMs: PLAYBACK_TRAILS[1].value,
+  playbackEnabled: false,
+};
+
+export const useEarthquakePlaybackStore = create<PlaybackStoreState>((set) => ({
+  ...initialState,
+
+  setCurrentTime: (currentTime) => set({ currentTime }),
+  setIsPlaying: (isPlaying) => set({ isPlaying }),
+  togglePlayback: () => set((state) => ({ isPlaying: !state.isPlaying })),
+  setPlaybackSpeed: (playbackSpeed) => set({ playbackSpeed }),
+  setLoopEnabled: (loopEnabled) => set({ loopEnabled }),
+  setTrailMs: (trailMs) => set({ trailMs }),
+  setPlaybackEnabled: (playbackEnabled) =>
+    set((state) => ({
+      playbackEnabled,
+      // Stop and rewind when leaving playback mode
+      isPlaying: playbackEnabled ? state.isPlaying : false,
+      currentTime: playbackEnabled ? state.currentTime : 0,
+    })),
+  reset: () => set(initialState),
+}));
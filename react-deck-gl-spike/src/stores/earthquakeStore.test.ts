@@ -235,6 +235,455 @@ describe('earthquakeStore', () => {
       );
     });
   });
+
+  describe('fetchEarthquakes caching', () => {
+    const mockFetch = () =>
+      vi.spyOn(global, 'fetch').mockResolvedValue({
+        ok: true,
+        json: async () => mockGeoJSONResponse,
+      } as Response);
+
+    it('caches results by URL', async () => {
+      mockFetch();
+
+      await act(async () => {
+        await useEarthquakeStore
+          .getState()
+          .fetchEarthquakes('https://example.com/a.json');
+      });
+
+      expect(
+        useEarthquakeStore.getState().cache['https://example.com/a.json']
+      ).toHaveLength(2);
+    });
+
+    it('does not refetch when switching back to a cached URL', async () => {
+      const fetchSpy = mockFetch();
+      const { fetchEarthquakes } = useEarthquakeStore.getState();
+
+      await act(async () => {
+        await fetchEarthquakes('https://example.com/a.json');
+        await fetchEarthquakes('https://example.com/b.json');
+        await fetchEarthquakes('https://example.com/a.json');
+      });
+
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      expect(useEarthquakeStore.getState().lastFetchedUrl).toBe(
+        'https://example.com/a.json'
+      );
+      expect(useEarthquakeStore.getState().earthquakes).toHaveLength(2);
+      expect(useEarthquakeStore.getState().loading).toBe(false);
+    });
+
+    it('refetches a cached URL when forced', async () => {
+      const fetchSpy = mockFetch();
+      const { fetchEarthquakes } = useEarthquakeStore.getState();
+
+      await act(async () => {
+        await fetchEarthquakes('https://example.com/a.json');
+        await fetchEarthquakes('https://example.com/a.json', { force: true });
+      });
+
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('ignores a stale response when another URL was requested', async () => {
+      let resolveFirst: (value: Response) => void = () => {};
+      vi.spyOn(global, 'fetch')
+        .mockImplementationOnce(
+          () =>
+            new Promise<Response>((resolve) => {
+              resolveFirst = resolve;
+            })
+        )
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ type: 'FeatureCollection', features: [] }),
+        } as Response);
+      const { fetchEarthquakes } = useEarthquakeStore.getState();
+
+      let first: Promise<void> = Promise.resolve();
+      await act(async () => {
+        first = fetchEarthquakes('https://example.com/slow.json');
+        await fetchEarthquakes('https://example.com/fast.json');
+      });
+
+      await act(async () => {
+        resolveFirst({
+          ok: true,
+          json: async () => mockGeoJSONResponse,
+        } as Response);
+        await first;
+      });
+
+      const state = useEarthquakeStore.getState();
+      expect(state.lastFetchedUrl).toBe('https://example.com/fast.json');
+      expect(state.earthquakes).toHaveLength(0);
+      // The slow response is still cached for later use
+      expect(state.cache['https://example.com/slow.json']).toHaveLength(2);
+    });
+
+    it('does not cache failed requests', async () => {
+      vi.spyOn(global, 'fetch').mockRejectedValue(new Error('Network error'));
+
+      await act(async () => {
+        await useEarthquakeStore
+          .getState()
+          .fetchEarthquakes('https://example.com/a.json');
+      });
+
+      expect(useEarthquakeStore.getState().cache).toEqual({});
+    });
+
+    it('clearCache empties the cache', async () => {
+      mockFetch();
+
+      await act(async () => {
+        await useEarthquakeStore
+          .getState()
+          .fetchEarthquakes('https://example.com/a.json');
+      });
+      act(() => {
+        useEarthquakeStore.getState().clearCache();
+      });
+
+      expect(useEarthquakeStore.getState().cache).toEqual({});
+    });
+  });
+
+  describe('setSelectedFeed', () => {
+    it('defaults to the all_month feed', () => {
+      expect(useEarthquakeStore.getState().selectedFeed).toEqual({
+        period: 'month',
+        magnitude: 'all',
+      });
+    });
+
+    it('updates the selected feed', () => {
+      act(() => {
+        useEarthquakeStore
+          .getState()
+          .setSelectedFeed({ period: 'week', magnitude: '4.5' });
+      });
+
+      expect(useEarthquakeStore.getState().selectedFeed).toEqual({
+        period: 'week',
+        magnitude: '4.5',
+      });
+    });
+  });
+
+  describe('fetchHistoricalEarthquakes', () => {
+    const query = {
+      startTime: new Date('2011-03-01T00:00:00Z'),
+      endTime: new Date('2011-03-31T23:59:59Z'),
+      minMagnitude: 4.5,
+    };
+
+    it('queries the FDSN event service and transforms results', async () => {
+      const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => mockGeoJSONResponse,
+      } as Response);
+
+      await act(async () => {
+        await useEarthquakeStore.getState().fetchHistoricalEarthquakes(query);
+      });
+
+      const requestedUrl = new URL(fetchSpy.mock.calls[0][0] as string);
+      expect(requestedUrl.pathname).toBe('/fdsnws/event/1/query');
+      expect(requestedUrl.searchParams.get('minmagnitude')).toBe('4.5');
+      expect(useEarthquakeStore.getState().earthquakes).toHaveLength(2);
+      expect(useEarthquakeStore.getState().earthquakes[0].id).toBe('eq1');
+      expect(useEarthquakeStore.getState().loading).toBe(false);
+    });
+
+    it('caches archive windows so repeat queries do not refetch', async () => {
+      const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => mockGeoJSONResponse,
+      } as Response);
+      const { fetchHistoricalEarthquakes } = useEarthquakeStore.getState();
+
+      await act(async () => {
+        await fetchHistoricalEarthquakes(query);
+        await fetchHistoricalEarthquakes({ ...query });
+      });
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('sets error when the archive query fails', async () => {
+      vi.spyOn(global, 'fetch').mockResolvedValue({
+        ok: false,
+        status: 400,
+      } as Response);
+
+      await act(async () => {
+        await useEarthquakeStore.getState().fetchHistoricalEarthquakes(query);
+      });
+
+      expect(useEarthquakeStore.getState().error?.message).toBe(
+        'FDSN query failed! status: 400'
+      );
+    });
+
+    it('setSelectedFeed leaves archive mode', () => {
+      act(() => {
+        useEarthquakeStore.getState().setHistoricalQuery(query);
+      });
+      expect(useEarthquakeStore.getState().historicalQuery).toBe(query);
+
+      act(() => {
+        useEarthquakeStore
+          .getState()
+          .setSelectedFeed({ period: 'day', magnitude: 'all' });
+      });
+
+      expect(useEarthquakeStore.getState().historicalQuery).toBeNull();
+    });
+  });
+
+  describe('loadImportedCatalog', () => {
+    const imported = [
+      {
+        id: 'local-1',
+        longitude: 10,
+        latitude: 20,
+        depth: 5,
+        magnitude: 3.1,
+        timestamp: '2024-01-01T00:00:00.000Z',
+        location: 'Test',
+      },
+    ];
+
+    it('shows the imported events instead of the feed', () => {
+      act(() => {
+        useEarthquakeStore.getState().selectEarthquake('eq1');
+        useEarthquakeStore
+          .getState()
+          .loadImportedCatalog('catalog.xml', imported);
+      });
+
+      const state = useEarthquakeStore.getState();
+      expect(state.earthquakes).toBe(imported);
+      expect(state.importedCatalog).toBe('catalog.xml');
+      expect(state.lastFetchedUrl).toBeNull();
+      expect(state.selectedEarthquakeId).toBeNull();
+    });
+
+    it('ignores a feed response that arrives after the import', async () => {
+      let resolveFetch!: (response: Response) => void;
+      vi.spyOn(global, 'fetch').mockReturnValue(
+        new Promise((resolve) => {
+          resolveFetch = resolve;
+        })
+      );
+
+      const pending = useEarthquakeStore
+        .getState()
+        .fetchEarthquakes('https://example.com/all_day.geojson');
+      act(() => {
+        useEarthquakeStore
+          .getState()
+          .loadImportedCatalog('catalog.xml', imported);
+      });
+      await act(async () => {
+        resolveFetch({
+          ok: true,
+          status: 200,
+          json: async () => mockGeoJSONResponse,
+        } as Response);
+        await pending;
+      });
+
+      expect(useEarthquakeStore.getState().earthquakes).toBe(imported);
+    });
+
+    it('selecting a feed or archive window leaves import mode', () => {
+      const { loadImportedCatalog, setSelectedFeed, setHistoricalQuery } =
+        useEarthquakeStore.getState();
+
+      act(() => {
+        loadImportedCatalog('catalog.xml', imported);
+        setSelectedFeed({ period: 'day', magnitude: 'all' });
+      });
+      expect(useEarthquakeStore.getState().importedCatalog).toBeNull();
+
+      act(() => {
+        loadImportedCatalog('catalog.xml', imported);
+        setHistoricalQuery({
+          startTime: new Date('2011-03-01T00:00:00Z'),
+          endTime: new Date('2011-03-31T23:59:59Z'),
+        });
+      });
+      expect(useEarthquakeStore.getState().importedCatalog).toBeNull();
+    });
+  });
+
+  describe('refreshEarthquakes', () => {
+    const url = 'https://example.com/all_day.geojson';
+
+    const respondWith = (features: GeoJSONFeature[]) =>
+      vi.spyOn(global, 'fetch').mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ type: 'FeatureCollection', features }),
+      } as Response);
+
+    const [first, second] = mockGeoJSONResponse.features;
+
+    it('merges new, revised and deleted events by id', async () => {
+      respondWith([first, second]);
+      await act(async () => {
+        await useEarthquakeStore.getState().fetchEarthquakes(url);
+      });
+      vi.restoreAllMocks();
+
+      const third: GeoJSONFeature = {
+        ...first,
+        id: 'eq3',
+        properties: { ...first.properties, place: 'Anchorage, AK' },
+      };
+      const revised: GeoJSONFeature = {
+        ...second,
+        properties: { ...second.properties, mag: 6.2 },
+      };
+      respondWith([revised, third]);
+
+      await act(async () => {
+        await useEarthquakeStore.getState().refreshEarthquakes(url);
+      });
+
+      const state = useEarthquakeStore.getState();
+      expect(state.earthquakes.map((eq) => eq.id)).toEqual(['eq2', 'eq3']);
+      expect(state.earthquakes[0].magnitude).toBe(6.2);
+      expect(state.cache[url]).toBe(state.earthquakes);
+      expect(Object.keys(state.arrivals)).toEqual(['eq3']);
+      expect(state.lastRefreshed).not.toBeNull();
+    });
+
+    it('does not show a loading state', async () => {
+      respondWith([first]);
+      useEarthquakeStore.setState({
+        lastFetchedUrl: url,
+        cache: { [url]: [] },
+      });
+
+      const pending = useEarthquakeStore.getState().refreshEarthquakes(url);
+      expect(useEarthquakeStore.getState().loading).toBe(false);
+      expect(useEarthquakeStore.getState().refreshing).toBe(true);
+
+      await act(async () => {
+        await pending;
+      });
+      expect(useEarthquakeStore.getState().refreshing).toBe(false);
+    });
+
+    it('marks nothing as new for a feed that was never loaded', async () => {
+      respondWith([first, second]);
+      useEarthquakeStore.setState({ lastFetchedUrl: url });
+
+      await act(async () => {
+        await useEarthquakeStore.getState().refreshEarthquakes(url);
+      });
+
+      expect(useEarthquakeStore.getState().earthquakes).toHaveLength(2);
+      expect(useEarthquakeStore.getState().arrivals).toEqual({});
+    });
+
+    it('only updates the cache when another feed is shown', async () => {
+      respondWith([first]);
+      useEarthquakeStore.setState({
+        lastFetchedUrl: 'https://example.com/other.geojson',
+        cache: { [url]: [] },
+      });
+
+      await act(async () => {
+        await useEarthquakeStore.getState().refreshEarthquakes(url);
+      });
+
+      expect(useEarthquakeStore.getState().cache[url]).toHaveLength(1);
+      expect(useEarthquakeStore.getState().earthquakes).toEqual([]);
+    });
+
+    it('keeps the current catalog and records the error on failure', async () => {
+      useEarthquakeStore.setState({
+        lastFetchedUrl: url,
+        earthquakes: [transformGeoJSONFeature(first)],
+      });
+      vi.spyOn(global, 'fetch').mockResolvedValue({
+        ok: false,
+        status: 503,
+      } as Response);
+
+      await act(async () => {
+        await useEarthquakeStore.getState().refreshEarthquakes(url);
+      });
+
+      const state = useEarthquakeStore.getState();
+      expect(state.earthquakes).toHaveLength(1);
+      expect(state.error).toBeNull();
+      expect(state.refreshError?.message).toBe('HTTP error! status: 503');
+    });
+
+    it('skips polling while a catalog is loading', async () => {
+      const fetchSpy = vi.spyOn(global, 'fetch');
+      useEarthquakeStore.setState({ loading: true });
+
+      await act(async () => {
+        await useEarthquakeStore.getState().refreshEarthquakes(url);
+      });
+
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('clears arrivals when a different catalog is loaded', async () => {
+      useEarthquakeStore.setState({
+        arrivals: { eq1: Date.now() },
+        cache: { [url]: [] },
+      });
+
+      await act(async () => {
+        await useEarthquakeStore.getState().fetchEarthquakes(url);
+      });
+
+      expect(useEarthquakeStore.getState().arrivals).toEqual({});
+    });
+  });
+
+  describe('setAutoRefresh', () => {
+    it('updates part of the auto-refresh settings', () => {
+      act(() => {
+        useEarthquakeStore.getState().setAutoRefresh({ enabled: true });
+      });
+
+      expect(useEarthquakeStore.getState().autoRefresh).toEqual({
+        enabled: true,
+        intervalMs: 60_000,
+      });
+    });
+  });
+
+  describe('selectEarthquake', () => {
+    it('starts with no selected earthquake', () => {
+      expect(useEarthquakeStore.getState().selectedEarthquakeId).toBeNull();
+    });
+
+    it('pins and clears the selected earthquake', () => {
+      act(() => {
+        useEarthquakeStore.getState().selectEarthquake('eq1');
+      });
+      expect(useEarthquakeStore.getState().selectedEarthquakeId).toBe('eq1');
+
+      act(() => {
+        useEarthquakeStore.getState().selectEarthquake(null);
+      });
+      expect(useEarthquakeStore.getState().selectedEarthquakeId).toBeNull();
+    });
+  });
 });
 
 describe('transformGeoJSONFeature', () => {
@@ -305,4 +754,72 @@ describe('transformGeoJSONFeature', () => {
 
     expect(result.location).toBe('Unknown location');
   });
+
+  it('maps optional USGS detail properties', () => {
+    const feature: GeoJSONFeature = {
+      id: 'test-id',
+      type: 'Feature',
+      geometry: {
+        type: 'Point',
+        coordinates: [-120.5, 35.0, 25.5],
+      },
+      properties: {
+        mag: 6.4,
+        time: 1718452800000,
+        place: 'Central California',
+        felt: 1234,
+        tsunami: 1,
+        alert: 'orange',
+        magType: 'mww',
+        net: 'us',
+        status: 'reviewed',
+        url: 'https://earthquake.usgs.gov/earthquakes/eventpage/test-id',
+      },
+    };
+
+    const result = transformGeoJSONFeature(feature);
+
+    expect(result).toMatchObject({
+      felt: 1234,
+      tsunami: true,
+      alert: 'orange',
+      magType: 'mww',
+      network: 'us',
+      status: 'reviewed',
+      url: 'https://earthquake.usgs.gov/earthquakes/eventpage/test-id',
+    });
+  });
+
+  it('treats null detail properties as missing', () => {
+    const feature: GeoJSONFeature = {
+      id: 'test-id',
+      type: 'Feature',
+      geometry: {
+        type: 'Point',
+        coordinates: [-120.5, 35.0, 25.5],
+      },
+      properties: {
+        mag: 2.1,
+        time: 1718452800000,
+        place: 'Central California',
+        felt: null,
+        tsunami: 0,
+        alert: null,
+        magType: null,
+        net: null,
+        status: null,
+        url: null,
+      },
+    };
+
+    const result = transformGeoJSONFeature(feature);
+
+    expect(result.felt).toBeUndefined();
+    expect(result.tsunami).toBe(false);
+    expect(result.alert).toBeUndefined();
+    expect(result.magType).toBeUndefined();
+    expect(result.network).toBeUndefined();
+    expect(result.status).toBeUndefined();
+    expect(result.url).toBeUndefined();
+  });
 });
@@ -4,31 +4,104 @@ import {
   type Earthquake,
   type GeoJSONFeature,
 } from '../types/earthquake';
+import {
+  DEFAULT_AUTO_REFRESH,
+  DEFAULT_FEED,
+  type AutoRefreshSettings,
+  type EarthquakeFeed,
+} from '../types/earthquakeFeed';
+import {
+  buildFdsnQueryUrl,
+  fetchFdsnEvents,
+  type FdsnEventQuery,
+  type FdsnFetchOptions,
+} from '../api/fdsnEvents';
+import { mergeEarthquakes } from '../utils/mergeEarthquakes';
 
 export function transformGeoJSONFeature(feature: GeoJSONFeature): Earthquake {
+  const { properties } = feature;
+
   return {
     id: feature.id,
     longitude: feature.geometry.coordinates[0],
     latitude: feature.geometry.coordinates[1],
     depth: feature.geometry.coordinates[2],
-    magnitude: feature.properties.mag ?? 0,
-    timestamp: new Date(feature.properties.time).toISOString(),
-    location: feature.properties.place ?? 'Unknown location',
+    magnitude: properties.mag ?? 0,
+    timestamp: new Date(properties.time).toISOString(),
+    location: properties.place ?? 'Unknown location',
+    // Optional USGS details; null and missing both become undefined
+    felt: properties.felt ?? undefined,
+    tsunami: properties.tsunami == null ? undefined : properties.tsunami === 1,
+    alert: properties.alert ?? undefined,
+    magType: properties.magType ?? undefined,
+    network: properties.net ?? undefined,
+    status: properties.status ?? undefined,
+    url: properties.url ?? undefined,
   };
 }
 
+async function fetchFeed(url: string): Promise<Earthquake[]> {
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  const json = await response.json();
+
+  // Validate the API response with Zod
+  const validatedResponse = GeoJSONResponseSchema.parse(json);
+  return validatedResponse.features.map(transformGeoJSONFeature);
+}
+
+interface FetchOptions {
+  /** Bypass the per-URL cache and always hit the network */
+  force?: boolean;
+}
+
+type HistoricalFetchOptions = FetchOptions &
+  Pick<FdsnFetchOptions, 'baseUrl' | 'pageSize' | 'maxEvents'>;
+
 interface EarthquakeState {
   earthquakes: Earthquake[];
   loading: boolean;
   error: Error | null;
   lastFetchedUrl: string | null;
+  selectedFeed: EarthquakeFeed;
+  /** Archive window shown instead of the summary feed, if any */
+  historicalQuery: FdsnEventQuery | null;
+  /** File name of a local catalog shown instead of any feed, if any */
+  importedCatalog: string | null;
+  /** Previously loaded catalogs keyed by request URL */
+  cache: Record<string, Earthquake[]>;
+  autoRefresh: AutoRefreshSettings;
+  /** A background refresh is in flight */
+  refreshing: boolean;
+  refreshError: Error | null;
+  /** Epoch ms of the last successful background refresh */
+  lastRefreshed: number | null;
+  /** Epoch ms at which each event first appeared during a refresh */
+  arrivals: Record<string, number>;
+  /** Event pinned in the detail panel */
+  selectedEarthquakeId: string | null;
 
   // Actions
-  fetchEarthquakes: (url: string) => Promise<void>;
+  fetchEarthquakes: (url: string, options?: FetchOptions) => Promise<void>;
+  fetchHistoricalEarthquakes: (
+    query: FdsnEventQuery,
+    options?: HistoricalFetchOptions
+  ) => Promise<void>;
+  refreshEarthquakes: (url: string) => Promise<void>;
+  setAutoRefresh: (settings: Partial<AutoRefreshSettings>) => void;
+  setSelectedFeed: (feed: EarthquakeFeed) => void;
+  setHistoricalQuery: (query: FdsnEventQuery | null) => void;
+  loadImportedCatalog: (name: string, earthquakes: Earthquake[]) => void;
+  selectEarthquake: (id: string | null) => void;
   setEarthquakes: (earthquakes: Earthquake[]) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: Error | null) => void;
   clearError: () => void;
+  clearCache: () => void;
   reset: () => void;
 }
 
@@ -37,50 +110,157 @@ const initialState = {
   loading: false,
   error: null,
   lastFetchedUrl: null,
+  selectedFeed: DEFAULT_FEED,
+  historicalQuery: null,
+  importedCatalog: null,
+  cache: {},
+  autoRefresh: DEFAULT_AUTO_REFRESH,
+  refreshing: false,
+  refreshError: null,
+  lastRefreshed: null,
+  arrivals: {},
+  selectedEarthquakeId: null,
 };
 
-export const useEarthquakeStore = create<EarthquakeState>((set, get) => ({
-  ...initialState,
-
-  fetchEarthquakes: async (url: string) => {
+export const useEarthquakeStore = create<EarthquakeState>((set, get) => {
+  /**
+   * Load a catalog identified by `key`, serving it from the cache when
+   * possible and discarding responses that arrive after a newer request.
+   */
+  const loadCatalog = async (
+    key: string,
+    loader: () => Promise<Earthquake[]>,
+    options: FetchOptions
+  ) => {
     // Skip if already fetching the same URL
-    if (get().loading && get().lastFetchedUrl === url) {
+    if (get().loading && get().lastFetchedUrl === key) {
       return;
     }
 
-    set({ loading: true, error: null, lastFetchedUrl: url });
+    // Serve from cache when switching back to a previously loaded URL
+    const cached = get().cache[key];
+    if (cached && !options.force) {
+      set({
+        earthquakes: cached,
+        loading: false,
+        error: null,
+        lastFetchedUrl: key,
+        arrivals: {},
+      });
+      return;
+    }
 
-    try {
-      const response = await fetch(url);
+    set({ loading: true, error: null, lastFetchedUrl: key, arrivals: {} });
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+    try {
+      const earthquakes = await loader();
 
-      const json = await response.json();
+      set((state) => ({ cache: { ...state.cache, [key]: earthquakes } }));
 
-      // Validate the API response with Zod
-      const validatedResponse = GeoJSONResponseSchema.parse(json);
-      const earthquakes = validatedResponse.features.map(
-        transformGeoJSONFeature
-      );
+      // Ignore stale responses if another URL was requested meanwhile
+      if (get().lastFetchedUrl !== key) return;
 
       set({ earthquakes, loading: false });
     } catch (err) {
+      if (get().lastFetchedUrl !== key) return;
+
       set({
         error: err instanceof Error ? err : new Error('Unknown error'),
         loading: false,
       });
     }
-  },
+  };
 
-  setEarthquakes: (earthquakes) => set({ earthquakes }),
+  return {
+    ...initialState,
+
+    fetchEarthquakes: (url, options = {}) =>
+      loadCatalog(url, () => fetchFeed(url), options),
+
+    // Poll a feed in the background, merging by id without a loading state
+    refreshEarthquakes: async (url) => {
+      if (get().loading || get().refreshing) return;
+
+      set({ refreshing: true });
+
+      try {
+        const latest = await fetchFeed(url);
+        const previous = get().cache[url];
+        const { earthquakes, added } = mergeEarthquakes(previous ?? [], latest);
+        const now = Date.now();
+
+        set((state) => ({
+          cache: { ...state.cache, [url]: earthquakes },
+          refreshing: false,
+          refreshError: null,
+          lastRefreshed: now,
+        }));
+
+        // Another feed may have been selected meanwhile
+        if (get().lastFetchedUrl !== url || get().loading) return;
+
+        set({
+          earthquakes,
+          // Nothing is "new" on a feed that was never shown before
+          arrivals: previous
+            ? Object.fromEntries(added.map((id) => [id, now]))
+            : {},
+        });
+      } catch (err) {
+        set({
+          refreshError: err instanceof Error ? err : new Error('Unknown error'),
+          refreshing: false,
+        });
+      }
+    },
+
+    setAutoRefresh: (settings) =>
+      set((state) => ({ autoRefresh: { ...state.autoRefresh, ...settings } })),
+
+    fetchHistoricalEarthquakes: (query, options = {}) => {
+      const { force, ...fdsnOptions } = options;
 
-  setLoading: (loading) => set({ loading }),
+      return loadCatalog(
+        buildFdsnQueryUrl(query, {}, fdsnOptions.baseUrl),
+        async () => {
+          const features = await fetchFdsnEvents(query, fdsnOptions);
+          return features.map(transformGeoJSONFeature);
+        },
+        { force }
+      );
+    },
+
+    // Picking a summary feed leaves archive and import mode
+    setSelectedFeed: (selectedFeed) =>
+      set({ selectedFeed, historicalQuery: null, importedCatalog: null }),
+
+    setHistoricalQuery: (historicalQuery) =>
+      set({ historicalQuery, importedCatalog: null }),
+
+    // Show a local catalog; responses to earlier requests are then ignored
+    loadImportedCatalog: (importedCatalog, earthquakes) =>
+      set({
+        importedCatalog,
+        earthquakes,
+        loading: false,
+        error: null,
+        lastFetchedUrl: null,
+        arrivals: {},
+        selectedEarthquakeId: null,
+      }),
 
-  setError: (error) => set({ error }),
+    selectEarthquake: (selectedEarthquakeId) => set({ selectedEarthquakeId }),
 
-  clearError: () => set({ error: null }),
+    setEarthquakes: (earthquakes) => set({ earthquakes }),
 
-  reset: () => set(initialState),
-}));
+    setLoading: (loading) => set({ loading }),
+
+    setError: (error) => set({ error }),
+
+    clearError: () => set({ error: null }),
+
+    clearCache: () => set({ cache: {} }),
+
+    reset: () => set(initialState),
+  };
+});
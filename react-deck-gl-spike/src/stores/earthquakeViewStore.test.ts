@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useEarthquakeViewStore } from './earthquakeViewStore';
+
+describe('earthquakeViewStore', () => {
+  beforeEach(() => {
+    useEarthquakeViewStore.getState().reset();
+  });
+
+  it('has correct initial state', () => {
+    const state = useEarthquakeViewStore.getState();
+    expect(state.viewMode).toBe('points');
+    expect(state.binMetric).toBe('count');
+    expect(state.autoSwitch).toBe(false);
+    expect(state.depthView).toBe(false);
+    expect(state.verticalExaggeration).toBe(5);
+    expect(state.colorMode).toBe('depth');
+    expect(state.projection).toBe('mercator');
+    expect(state.sizeMode).toBe('exponential');
+    expect(state.showPlateBoundaries).toBe(false);
+    expect(state.showFaults).toBe(false);
+  });
+
+  it('setViewMode updates the view mode', () => {
+    useEarthquakeViewStore.getState().setViewMode('hexagon');
+    expect(useEarthquakeViewStore.getState().viewMode).toBe('hexagon');
+  });
+
+  it('setBinMetric updates the bin metric', () => {
+    useEarthquakeViewStore.getState().setBinMetric('energy');
+    expect(useEarthquakeViewStore.getState().binMetric).toBe('energy');
+  });
+
+  it('setAutoSwitch updates auto-switch', () => {
+    useEarthquakeViewStore.getState().setAutoSwitch(true);
+    expect(useEarthquakeViewStore.getState().autoSwitch).toBe(true);
+  });
+
+  it('reset restores the initial state', () => {
+    useEarthquakeViewStore.getState().setViewMode('grid');
+    useEarthquakeViewStore.getState().reset();
+    expect(useEarthquakeViewStore.getState().viewMode).toBe('points');
+  });
+
+  it('setDepthView toggles the 3D depth view', () => {
+    useEarthquakeViewStore.getState().setDepthView(true);
+    expect(useEarthquakeViewStore.getState().depthView).toBe(true);
+  });
+
+  it('setVerticalExaggeration updates the exaggeration', () => {
+    useEarthquakeViewStore.getState().setVerticalExaggeration(20);
+    expect(useEarthquakeViewStore.getState().verticalExaggeration).toBe(20);
+  });
+
+  it('setColorMode updates the color mode', () => {
+    useEarthquakeViewStore.getState().setColorMode('sequence');
+    expect(useEarthquakeViewStore.getState().colorMode).toBe('sequence');
+  });
+
+  it('setProjection switches to the globe and leaves the depth view', () => {
+    useEarthquakeViewStore.getState().setDepthView(true);
+    useEarthquakeViewStore.getState().setProjection('globe');
+
+    const state = useEarthquakeViewStore.getState();
+    expect(state.projection).toBe('globe');
+    expect(state.depthView).toBe(false);
+  });
+
+  it('setProjection back to the flat map', () => {
+    useEarthquakeViewStore.getState().setProjection('globe');
+    useEarthquakeViewStore.getState().setProjection('mercator');
+    expect(useEarthquakeViewStore.getState().projection).toBe('mercator');
+  });
+
+  it('setSizeMode updates how events are sized', () => {
+    useEarthquakeViewStore.getState().setSizeMode('constant');
+    expect(useEarthquakeViewStore.getState().sizeMode).toBe('constant');
+  });
+
+  it('toggles the plate boundary and fault overlays independently', () => {
+    useEarthquakeViewStore.getState().setShowPlateBoundaries(true);
+    expect(useEarthquakeViewStore.getState().showPlateBoundaries).toBe(true);
+    expect(useEarthquakeViewStore.getState().showFaults).toBe(false);
+
+    useEarthquakeViewStore.getState().setShowFaults(true);
+    expect(useEarthquakeViewStore.getState().showFaults).toBe(true);
+  });
+});
@@ -0,0 +1,72 @@
+import { create } from 'zustand';
+import {
+  DEFAULT_VERTICAL_EXAGGERATION,
+  type BinMetric,
+  type EarthquakeColorMode,
+  type EarthquakeSizeMode,
+  type EarthquakeViewMode,
+  type MapProjection,
+} from '../types/earthquakeView';
+
+interface EarthquakeViewState {
+  viewMode: EarthquakeViewMode;
+  binMetric: BinMetric;
+  /** Switch between points and aggregates by zoom level */
+  autoSwitch: boolean;
+  /** Show hypocenters below the surface in 3D */
+  depthView: boolean;
+  verticalExaggeration: number;
+  colorMode: EarthquakeColorMode;
+  sizeMode: EarthquakeSizeMode;
+  projection: MapProjection;
+  /** Reference overlays drawn beneath the events */
+  showPlateBoundaries: boolean;
+  showFaults: boolean;
+
+  // Actions
+  setViewMode: (viewMode: EarthquakeViewMode) => void;
+  setBinMetric: (binMetric: BinMetric) => void;
+  setAutoSwitch: (autoSwitch: boolean) => void;
+  setDepthView: (depthView: boolean) => void;
+  setVerticalExaggeration: (verticalExaggeration: number) => void;
+  setColorMode: (colorMode: EarthquakeColorMode) => void;
+  setSizeMode: (sizeMode: EarthquakeSizeMode) => void;
+  setProjection: (projection: MapProjection) => void;
+  setShowPlateBoundaries: (showPlateBoundaries: boolean) => void;
+  setShowFaults: (showFaults: boolean) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  viewMode: 'points' as EarthquakeViewMode,
+  binMetric: 'count' as BinMetric,
+  autoSwitch: false,
+  depthView: false,
+  verticalExaggeration: DEFAULT_VERTICAL_EXAGGERATION,
+  colorMode: 'depth' as EarthquakeColorMode,
+  sizeMode: 'exponential' as EarthquakeSizeMode,
+  projection: 'mercator' as MapProjection,
+  showPlateBoundaries: false,
+  showFaults: false,
+};
+
+export const useEarthquakeViewStore = create<EarthquakeViewState>((set) => ({
+  ...initialState,
+
+  setViewMode: (viewMode) => set({ viewMode }),
+  setBinMetric: (binMetric) => set({ binMetric }),
+  setAutoSwitch: (autoSwitch) => set({ autoSwitch }),
+  setDepthView: (depthView) => set({ depthView }),
+  setVerticalExaggeration: (verticalExaggeration) =>
+    set({ verticalExaggeration }),
+  setColorMode: (colorMode) => set({ colorMode }),
+  setSizeMode: (sizeMode) => set({ sizeMode }),
+  // The 3D depth view is drawn on the flat map only
+  setProjection: (projection) =>
+    set(
+      projection === 'globe' ? { projection, depthView: false } : { projection }
+    ),
+  setShowPlateBoundaries: (showPlateBoundaries) => set({ showPlateBoundaries }),
+  setShowFaults: (showFaults) => set({ showFaults }),
+  reset: () => set(initialState),
+}));
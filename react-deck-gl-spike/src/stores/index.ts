@@ -8,3 +8,8 @@ export {
 } from './flightMapViewStore';
 export { useFlightFilterStore } from './flightFilterStore';
 export { useFlightAnimationStore } from './flightAnimationStore';
+export { useEarthquakePlaybackStore } from './earthquakePlaybackStore';
+export { useEarthquakeViewStore } from './earthquakeViewStore';
+export { useSpatialSelectionStore } from './spatialSelectionStore';
+export { useRadiusSearchStore } from './radiusSearchStore';
+export { useCrossSectionStore } from './crossSectionStore';
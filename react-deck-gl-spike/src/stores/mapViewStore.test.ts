@@ -98,6 +98,29 @@ describe('mapViewStore', () => {
     });
   });
 
+  describe('flyTo', () => {
+    it('animates to the target, keeping the rest of the view', () => {
+      act(() => {
+        useMapViewStore.getState().flyTo({
+          longitude: 142.4,
+          latitude: 38.3,
+          zoom: 6,
+        });
+      });
+
+      const { viewState } = useMapViewStore.getState();
+      expect(viewState).toMatchObject({
+        longitude: 142.4,
+        latitude: 38.3,
+        zoom: 6,
+        pitch: INITIAL_VIEW_STATE.pitch,
+        bearing: INITIAL_VIEW_STATE.bearing,
+        transitionDuration: 1000,
+      });
+      expect(viewState.transitionInterpolator).toBeDefined();
+    });
+  });
+
   describe('reset', () => {
     it('resets view state to initial values', () => {
       act(() => {
@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import type { MapViewState } from '@deck.gl/core';
+import { FlyToInterpolator, type MapViewState } from '@deck.gl/core';
 
 interface MapViewStore {
   viewState: MapViewState;
@@ -10,6 +10,7 @@ interface MapViewStore {
   setCenter: (longitude: number, latitude: number) => void;
   setPitch: (pitch: number) => void;
   setBearing: (bearing: number) => void;
+  flyTo: (target: Partial<MapViewState>) => void;
   reset: () => void;
 }
 
@@ -46,6 +47,16 @@ export const useMapViewStore = create<MapViewStore>((set) => ({
       viewState: { ...state.viewState, bearing },
     })),
 
+  flyTo: (target) =>
+    set((state) => ({
+      viewState: {
+        ...state.viewState,
+        ...target,
+        transitionDuration: 1000,
+        transitionInterpolator: new FlyToInterpolator(),
+      },
+    })),
+
   reset: () => set({ viewState: INITIAL_VIEW_STATE }),
 }));
 
@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useRadiusSearchStore } from './radiusSearchStore';
+import { DEFAULT_RADIUS_KM } from '../types/radiusSearch';
+
+describe('radiusSearchStore', () => {
+  beforeEach(() => {
+    useRadiusSearchStore.getState().reset();
+  });
+
+  it('has correct initial state', () => {
+    const state = useRadiusSearchStore.getState();
+    expect(state.center).toBeNull();
+    expect(state.radiusKm).toBe(DEFAULT_RADIUS_KM);
+    expect(state.picking).toBe(false);
+  });
+
+  it('setCenter places the center and stops picking', () => {
+    useRadiusSearchStore.getState().setPicking(true);
+    useRadiusSearchStore.getState().setCenter([139.69, 35.68]);
+
+    const state = useRadiusSearchStore.getState();
+    expect(state.center).toEqual([139.69, 35.68]);
+    expect(state.picking).toBe(false);
+  });
+
+  it('setRadiusKm changes the radius', () => {
+    useRadiusSearchStore.getState().setRadiusKm(250);
+    expect(useRadiusSearchStore.getState().radiusKm).toBe(250);
+  });
+
+  it('clearSearch removes the center but keeps the radius', () => {
+    const { setCenter, setRadiusKm, setPicking, clearSearch } =
+      useRadiusSearchStore.getState();
+    setRadiusKm(50);
+    setCenter([0, 0]);
+    setPicking(true);
+    clearSearch();
+
+    const state = useRadiusSearchStore.getState();
+    expect(state.center).toBeNull();
+    expect(state.picking).toBe(false);
+    expect(state.radiusKm).toBe(50);
+  });
+});
@@ -0,0 +1,35 @@
+import { create } from 'zustand';
+import { DEFAULT_RADIUS_KM } from '../types/radiusSearch';
+import type { LngLat } from '../types/spatialSelection';
+
+interface RadiusSearchState {
+  /** Search center, or null when no search is active */
+  center: LngLat | null;
+  radiusKm: number;
+  /** Whether the next map click sets the center */
+  picking: boolean;
+
+  // Actions
+  setCenter: (center: LngLat) => void;
+  setRadiusKm: (radiusKm: number) => void;
+  setPicking: (picking: boolean) => void;
+  clearSearch: () => void;
+  reset: () => void;
+}
+
+const initialState = {
+  center: null as LngLat | null,
+  radiusKm: DEFAULT_RADIUS_KM,
+  picking: false,
+};
+
+export const useRadiusSearchStore = create<RadiusSearchState>((set) => ({
+  ...initialState,
+
+  // Placing a center returns the map to normal clicks
+  setCenter: (center) => set({ center, picking: false }),
+  setRadiusKm: (radiusKm) => set({ radiusKm }),
+  setPicking: (picking) => set({ picking }),
+  clearSearch: () => set({ center: null, picking: false }),
+  reset: () => set(initialState),
+}));
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useSpatialSelectionStore } from './spatialSelectionStore';
+import type { LngLat } from '../types/spatialSelection';
+
+const ring: LngLat[] = [
+  [0, 0],
+  [1, 0],
+  [1, 1],
+];
+
+describe('spatialSelectionStore', () => {
+  beforeEach(() => {
+    useSpatialSelectionStore.getState().reset();
+  });
+
+  it('has correct initial state', () => {
+    const state = useSpatialSelectionStore.getState();
+    expect(state.shapes).toEqual([]);
+    expect(state.activeTool).toBeNull();
+  });
+
+  it('setActiveTool selects a drawing tool', () => {
+    useSpatialSelectionStore.getState().setActiveTool('lasso');
+    expect(useSpatialSelectionStore.getState().activeTool).toBe('lasso');
+  });
+
+  it('addShape appends a shape and ends drawing', () => {
+    useSpatialSelectionStore.getState().setActiveTool('polygon');
+    useSpatialSelectionStore.getState().addShape('polygon', ring);
+
+    const state = useSpatialSelectionStore.getState();
+    expect(state.shapes).toEqual([{ id: 'shape-1', tool: 'polygon', ring }]);
+    expect(state.activeTool).toBeNull();
+  });
+
+  it('keeps multiple shapes with unique ids', () => {
+    const { addShape, removeShape } = useSpatialSelectionStore.getState();
+    addShape('lasso', ring);
+    addShape('rectangle', ring);
+    removeShape('shape-2');
+    addShape('polygon', ring);
+
+    expect(
+      useSpatialSelectionStore.getState().shapes.map((shape) => shape.id)
+    ).toEqual(['shape-1', 'shape-3']);
+  });
+
+  it('removeShape removes only the given shape', () => {
+    const { addShape, removeShape } = useSpatialSelectionStore.getState();
+    addShape('lasso', ring);
+    addShape('rectangle', ring);
+    removeShape('shape-1');
+
+    expect(useSpatialSelectionStore.getState().shapes).toHaveLength(1);
+    expect(useSpatialSelectionStore.getState().shapes[0].tool).toBe(
+      'rectangle'
+    );
+  });
+
+  it('clearShapes removes every shape', () => {
+    const { addShape, clearShapes } = useSpatialSelectionStore.getState();
+    addShape('lasso', ring);
+    addShape('rectangle', ring);
+    clearShapes();
+
+    expect(useSpatialSelectionStore.getState().shapes).toEqual([]);
+  });
+});
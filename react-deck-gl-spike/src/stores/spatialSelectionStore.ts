@@ -0,0 +1,51 @@
+import { create } from 'zustand';
+import type {
+  LngLat,
+  SelectionShape,
+  SelectionTool,
+} from '../types/spatialSelection';
+
+interface SpatialSelectionState {
+  shapes: SelectionShape[];
+  /** Tool currently drawing on the map, or null when panning */
+  activeTool: SelectionTool | null;
+  /** Numbering for shape ids, never reused */
+  nextShapeNumber: number;
+
+  // Actions
+  setActiveTool: (tool: SelectionTool | null) => void;
+  addShape: (tool: SelectionTool, ring: LngLat[]) => void;
+  removeShape: (id: string) => void;
+  clearShapes: () => void;
+  reset: () => void;
+}
+
+const initialState = {
+  shapes: [] as SelectionShape[],
+  activeTool: null as SelectionTool | null,
+  nextShapeNumber: 1,
+};
+
+export const useSpatialSelectionStore = create<SpatialSelectionState>(
+  (set) => ({
+    ...initialState,
+
+    setActiveTool: (activeTool) => set({ activeTool }),
+    // Finishing a shape returns the map to panning
+    addShape: (tool, ring) =>
+      set((state) => ({
+        shapes: [
+          ...state.shapes,
+          { id: `shape-${state.nextShapeNumber}`, tool, ring },
+        ],
+        nextShapeNumber: state.nextShapeNumber + 1,
+        activeTool: null,
+      })),
+    removeShape: (id) =>
+      set((state) => ({
+        shapes: state.shapes.filter((shape) => shape.id !== id),
+      })),
+    clearShapes: () => set({ shapes: [] }),
+    reset: () => set(initialState),
+  })
+);
@@ -0,0 +1,21 @@
+import type { Earthquake } from '../types/earthquake';
+
+/**
+ * A plain M4 event at 10 km depth off the Gulf of Guinea (0, 0), with just
+ * the fields a test cares about overridden.
+ */
+export function createEarthquake(
+  id: string,
+  overrides: Partial<Earthquake> = {}
+): Earthquake {
+  return {
+    id,
+    longitude: 0,
+    latitude: 0,
+    depth: 10,
+    magnitude: 4,
+    timestamp: '2024-01-01T00:00:00Z',
+    location: 'Test',
+    ...overrides,
+  };
+}
@@ -0,0 +1,102 @@
+/// <reference types="node" />
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { GeoJSONFeature } from '../types/earthquake';
+
+export interface FdsnStandInServer {
+  /** Query endpoint, e.g. http://127.0.0.1:1234/fdsnws/event/1/query */
+  url: string;
+  /** Query strings of every request received, in order */
+  requests: URLSearchParams[];
+  close: () => Promise<void>;
+}
+
+export interface FdsnStandInOptions {
+  /** Answer every request with this status instead of events */
+  status?: number;
+  /** Raw body to send instead of a FeatureCollection */
+  body?: unknown;
+}
+
+function numberParam(params: URLSearchParams, name: string): number | null {
+  const value = params.get(name);
+  return value === null ? null : Number(value);
+}
+
+function matches(feature: GeoJSONFeature, params: URLSearchParams): boolean {
+  const [lng, lat] = feature.geometry.coordinates;
+  const { time, mag } = feature.properties;
+  const start = params.get('starttime');
+  const end = params.get('endtime');
+  const minMag = numberParam(params, 'minmagnitude');
+  const minLat = numberParam(params, 'minlatitude');
+  const maxLat = numberParam(params, 'maxlatitude');
+  const minLng = numberParam(params, 'minlongitude');
+  const maxLng = numberParam(params, 'maxlongitude');
+
+  if (start && time < Date.parse(start)) return false;
+  if (end && time > Date.parse(end)) return false;
+  if (minMag !== null && (mag ?? 0) < minMag) return false;
+  if (minLat !== null && lat < minLat) return false;
+  if (maxLat !== null && lat > maxLat) return false;
+  if (minLng !== null && lng < minLng) return false;
+  if (maxLng !== null && lng > maxLng) return false;
+  return true;
+}
+
+/**
+ * Minimal local stand-in for the FDSN event service. Serves canned events,
+ * applying the time, magnitude and bbox constraints plus limit/offset paging.
+ */
+export async function startFdsnStandInServer(
+  events: GeoJSONFeature[],
+  options: FdsnStandInOptions = {}
+): Promise<FdsnStandInServer> {
+  const requests: URLSearchParams[] = [];
+
+  const server: Server = createServer((req: IncomingMessage, res) => {
+    const params = new URL(req.url ?? '/', 'http://localhost').searchParams;
+    requests.push(params);
+
+    if (options.status !== undefined) {
+      res.writeHead(options.status);
+      res.end();
+      return;
+    }
+
+    const body =
+      options.body ??
+      (() => {
+        const offset = numberParam(params, 'offset') ?? 1;
+        const limit = numberParam(params, 'limit') ?? events.length;
+        const features = events
+          .filter((feature) => matches(feature, params))
+          .sort((a, b) => a.properties.time - b.properties.time)
+          .slice(offset - 1, offset - 1 + limit);
+        return features.length > 0
+          ? { type: 'FeatureCollection', metadata: {}, features }
+          : null;
+      })();
+
+    if (body === null) {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/fdsnws/event/1/query`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve()))
+      ),
+  };
+}
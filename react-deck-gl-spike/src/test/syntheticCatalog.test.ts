@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { createSyntheticCatalog } from './syntheticCatalog';
+import { filterValidEarthquakes } from '../utils/validateCoordinates';
+
+describe('createSyntheticCatalog', () => {
+  const catalog = createSyntheticCatalog({ count: 2000 });
+
+  it('creates the requested number of events with unique ids', () => {
+    expect(catalog).toHaveLength(2000);
+    expect(new Set(catalog.map((eq) => eq.id)).size).toBe(2000);
+  });
+
+  it('is the same for the same seed', () => {
+    expect(createSyntheticCatalog({ count: 50 })).toEqual(
+      createSyntheticCatalog({ count: 50 })
+    );
+    expect(createSyntheticCatalog({ count: 50, seed: 2 })).not.toEqual(
+      createSyntheticCatalog({ count: 50 })
+    );
+  });
+
+  it('places every event at valid coordinates', () => {
+    expect(filterValidEarthquakes(catalog)).toHaveLength(catalog.length);
+  });
+
+  it('spreads events over the time span, newest first', () => {
+    const times = catalog.map((eq) => new Date(eq.timestamp).getTime());
+    const start = Date.UTC(2020, 0, 1);
+    const end = Date.UTC(2025, 0, 1);
+
+    expect(Math.min(...times)).toBeGreaterThanOrEqual(start);
+    expect(Math.max(...times)).toBeLessThanOrEqual(end);
+    expect(times).toEqual([...times].sort((a, b) => b - a));
+  });
+
+  it('follows Gutenberg-Richter with b close to 1', () => {
+    const atLeast = (magnitude: number) =>
+      catalog.filter((eq) => eq.magnitude >= magnitude - 0.05).length;
+
+    expect(Math.min(...catalog.map((eq) => eq.magnitude))).toBe(2);
+    // Ten times fewer events per magnitude unit
+    expect(atLeast(2) / atLeast(3)).toBeGreaterThan(7);
+    expect(atLeast(2) / atLeast(3)).toBeLessThan(13);
+  });
+
+  it('keeps depths between the surface and 700 km', () => {
+    const depths = catalog.map((eq) => eq.depth);
+
+    expect(Math.min(...depths)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...depths)).toBeLessThanOrEqual(700);
+  });
+});
@@ -0,0 +1,83 @@
+import type { Earthquake } from '../types/earthquake';
+import { YEAR_MS } from '../utils/time';
+
+export interface SyntheticCatalogOptions {
+  count: number;
+  /** Epoch ms of the first event */
+  startTime?: number;
+  /** Span the events are spread over, in years */
+  years?: number;
+  /** Smallest magnitude; larger ones follow Gutenberg-Richter with b = 1 */
+  minMagnitude?: number;
+  /** Same seed, same catalog */
+  seed?: number;
+}
+
+// Events cluster around these [longitude, latitude] zones, spread over a few degrees
+const SOURCE_ZONES: [number, number][] = [
+  [142, 38], // Japan Trench
+  [-72, -33], // Chile
+  [-150, 61], // Alaska
+  [-118, 35], // California
+  [120, 23], // Taiwan
+  [100, 2], // Sumatra
+  [28, 38], // Aegean
+  [-90, 14], // Central America
+];
+
+/**
+ * Small deterministic PRNG (mulberry32), so benchmarks run on the same data
+ * every time.
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Catalog of made-up events for benchmarking at sizes no live feed returns.
+ * Events sit around a handful of subduction and fault zones, times are
+ * spread evenly over the span and mostly shallow depths tail off to 700 km.
+ * Sorted newest first, like the USGS feeds.
+ */
+export function createSyntheticCatalog({
+  count,
+  startTime = Date.UTC(2020, 0, 1),
+  years = 5,
+  minMagnitude = 2,
+  seed = 1,
+}: SyntheticCatalogOptions): Earthquake[] {
+  const random = createRandom(seed);
+  const span = years * YEAR_MS;
+  const earthquakes: Earthquake[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const [zoneLongitude, zoneLatitude] =
+      SOURCE_ZONES[Math.floor(random() * SOURCE_ZONES.length)];
+    const time = startTime + span * (1 - (i + random()) / count);
+
+    earthquakes.push({
+      id: `synthetic${i}`,
+      longitude: clamp(zoneLongitude + (random() - 0.5) * 8, -180, 180),
+      latitude: clamp(zoneLatitude + (random() - 0.5) * 8, -90, 90),
+      depth: Math.round(Math.min(700, -Math.log(1 - random()) * 40) * 10) / 10,
+      // Inverse transform of the Gutenberg-Richter distribution
+      magnitude:
+        Math.round((minMagnitude - Math.log10(1 - random())) * 10) / 10,
+      timestamp: new Date(time).toISOString(),
+      location: `Synthetic zone ${zoneLongitude}, ${zoneLatitude}`,
+    });
+  }
+
+  return earthquakes;
+}
@@ -0,0 +1,50 @@
+/** Catalog file formats that can be imported */
+export type CatalogFormat = 'quakeml' | 'fdsn-text' | 'csv';
+
+export const CATALOG_FORMAT_LABELS: Record<CatalogFormat, string> = {
+  quakeml: 'QuakeML',
+  'fdsn-text': 'FDSN text',
+  csv: 'CSV',
+};
+
+/** Earthquake fields that can be read from a catalog column */
+export type CatalogField =
+  | 'id'
+  | 'time'
+  | 'latitude'
+  | 'longitude'
+  | 'depth'
+  | 'magnitude'
+  | 'location'
+  | 'magType'
+  | 'network'
+  | 'status';
+
+export interface CatalogFieldInfo {
+  field: CatalogField;
+  label: string;
+  required: boolean;
+}
+
+export const CATALOG_FIELDS: CatalogFieldInfo[] = [
+  { field: 'time', label: 'Time', required: true },
+  { field: 'latitude', label: 'Latitude', required: true },
+  { field: 'longitude', label: 'Longitude', required: true },
+  { field: 'depth', label: 'Depth (km)', required: true },
+  { field: 'magnitude', label: 'Magnitude', required: true },
+  { field: 'id', label: 'Event ID', required: false },
+  { field: 'location', label: 'Location', required: false },
+  { field: 'magType', label: 'Magnitude type', required: false },
+  { field: 'network', label: 'Network', required: false },
+  { field: 'status', label: 'Review status', required: false },
+];
+
+/** Column index read for each field, or null when the catalog lacks it */
+export type ColumnMapping = Record<CatalogField, number | null>;
+
+/** A catalog row or event that could not be imported */
+export interface ImportRowError {
+  /** 1-based data row, or event number for QuakeML */
+  row: number;
+  message: string;
+}
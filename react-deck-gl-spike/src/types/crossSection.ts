@@ -0,0 +1,12 @@
+import type { LngLat } from './spatialSelection';
+
+/** Profile line, from A to A′ */
+export interface CrossSectionLine {
+  start: LngLat;
+  end: LngLat;
+}
+
+/** Swath widths offered in the cross-section panel, in km */
+export const SWATH_WIDTH_OPTIONS_KM = [25, 50, 100, 200] as const;
+
+export const DEFAULT_SWATH_WIDTH_KM = 50;
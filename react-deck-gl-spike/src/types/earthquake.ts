@@ -1,5 +1,11 @@
 import { z } from 'zod';
 
+// PAGER estimated impact alert levels
+// https://earthquake.usgs.gov/data/pager/
+export const AlertLevelSchema = z.enum(['green', 'yellow', 'orange', 'red']);
+
+export type AlertLevel = z.infer<typeof AlertLevelSchema>;
+
 // Zod schema for earthquake data
 export const EarthquakeSchema = z.object({
   id: z.string(),
@@ -9,6 +15,13 @@ export const EarthquakeSchema = z.object({
   magnitude: z.number(), // Richter scale
   timestamp: z.string(), // ISO 8601
   location: z.string(), // Human-readable location
+  felt: z.number().optional(), // "Did You Feel It?" responses
+  tsunami: z.boolean().optional(), // Tsunami information published
+  alert: AlertLevelSchema.optional(),
+  magType: z.string().optional(), // e.g. "mb", "ml", "mww"
+  network: z.string().optional(), // Contributing network, e.g. "us", "ci"
+  status: z.string().optional(), // "automatic" or "reviewed"
+  url: z.string().optional(), // USGS event page
 });
 
 export type Earthquake = z.infer<typeof EarthquakeSchema>;
@@ -25,6 +38,13 @@ export const GeoJSONFeatureSchema = z.object({
     mag: z.number().nullable(),
     time: z.number(),
     place: z.string().nullable(),
+    felt: z.number().nullish(),
+    tsunami: z.number().nullish(), // 1 when tsunami information exists
+    alert: AlertLevelSchema.nullish(),
+    magType: z.string().nullish(),
+    net: z.string().nullish(),
+    status: z.string().nullish(),
+    url: z.string().nullish(),
   }),
 });
 
@@ -0,0 +1,34 @@
+export type ExportFormat = 'csv' | 'geojson' | 'kml';
+
+/** Provenance recorded alongside exported events */
+export interface ExportMetadata {
+  /** ISO 8601 time of the export */
+  exportedAt: string;
+  /** Feed or archive query the events came from */
+  source: string | null;
+  /** Labels of the filters narrowing the catalog, e.g. "M 4.0–9.0" */
+  filters: string[];
+}
+
+export interface ExportFormatInfo {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { format: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  {
+    format: 'geojson',
+    label: 'GeoJSON',
+    extension: 'geojson',
+    mimeType: 'application/geo+json',
+  },
+  {
+    format: 'kml',
+    label: 'KML',
+    extension: 'kml',
+    mimeType: 'application/vnd.google-earth.kml+xml',
+  },
+];
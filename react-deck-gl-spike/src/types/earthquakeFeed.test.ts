@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_AUTO_REFRESH,
+  DEFAULT_FEED,
+  FEED_MAGNITUDES,
+  FEED_PERIODS,
+  getFeedSpanHours,
+  getFeedUrl,
+  REFRESH_INTERVALS,
+} from './earthquakeFeed';
+
+describe('earthquakeFeed', () => {
+  describe('FEED_PERIODS', () => {
+    it('covers hour, day, week and month', () => {
+      expect(FEED_PERIODS.map((p) => p.period)).toEqual([
+        'hour',
+        'day',
+        'week',
+        'month',
+      ]);
+    });
+
+    it('is ordered by increasing time span', () => {
+      for (let i = 0; i < FEED_PERIODS.length - 1; i++) {
+        expect(FEED_PERIODS[i].hours).toBeLessThan(FEED_PERIODS[i + 1].hours);
+      }
+    });
+  });
+
+  describe('FEED_MAGNITUDES', () => {
+    it('covers all USGS magnitude thresholds', () => {
+      expect(FEED_MAGNITUDES.map((m) => m.magnitude)).toEqual([
+        'all',
+        '1.0',
+        '2.5',
+        '4.5',
+        'significant',
+      ]);
+    });
+  });
+
+  describe('DEFAULT_FEED', () => {
+    it('is all earthquakes in the past month', () => {
+      expect(DEFAULT_FEED).toEqual({ period: 'month', magnitude: 'all' });
+    });
+  });
+
+  describe('getFeedUrl', () => {
+    it('builds the default all_month URL', () => {
+      expect(getFeedUrl(DEFAULT_FEED)).toBe(
+        'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson'
+      );
+    });
+
+    it('builds magnitude threshold URLs', () => {
+      expect(getFeedUrl({ period: 'week', magnitude: '2.5' })).toBe(
+        'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/2.5_week.geojson'
+      );
+    });
+
+    it('builds significant event URLs', () => {
+      expect(getFeedUrl({ period: 'hour', magnitude: 'significant' })).toBe(
+        'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/significant_hour.geojson'
+      );
+    });
+
+    it('produces a distinct URL for every feed combination', () => {
+      const urls = new Set(
+        FEED_PERIODS.flatMap(({ period }) =>
+          FEED_MAGNITUDES.map(({ magnitude }) =>
+            getFeedUrl({ period, magnitude })
+          )
+        )
+      );
+      expect(urls.size).toBe(20);
+    });
+  });
+
+  describe('getFeedSpanHours', () => {
+    it('returns span in hours for each period', () => {
+      expect(getFeedSpanHours('hour')).toBe(1);
+      expect(getFeedSpanHours('day')).toBe(24);
+      expect(getFeedSpanHours('week')).toBe(168);
+      expect(getFeedSpanHours('month')).toBe(720);
+    });
+  });
+
+  describe('REFRESH_INTERVALS', () => {
+    it('is ordered by increasing interval', () => {
+      for (let i = 0; i < REFRESH_INTERVALS.length - 1; i++) {
+        expect(REFRESH_INTERVALS[i].ms).toBeLessThan(
+          REFRESH_INTERVALS[i + 1].ms
+        );
+      }
+    });
+
+    it('includes the default interval', () => {
+      expect(REFRESH_INTERVALS.map((i) => i.ms)).toContain(
+        DEFAULT_AUTO_REFRESH.intervalMs
+      );
+    });
+  });
+
+  describe('DEFAULT_AUTO_REFRESH', () => {
+    it('is off by default', () => {
+      expect(DEFAULT_AUTO_REFRESH.enabled).toBe(false);
+    });
+  });
+});
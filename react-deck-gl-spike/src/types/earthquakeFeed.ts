@@ -0,0 +1,84 @@
+// USGS real-time summary feeds
+// https://earthquake.usgs.gov/earthquakes/feed/v1.0/geojson.php
+export const USGS_FEED_BASE_URL =
+  'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary';
+
+export type FeedPeriod = 'hour' | 'day' | 'week' | 'month';
+
+export type FeedMagnitude = 'all' | '1.0' | '2.5' | '4.5' | 'significant';
+
+export interface EarthquakeFeed {
+  period: FeedPeriod;
+  magnitude: FeedMagnitude;
+}
+
+export interface FeedPeriodInfo {
+  period: FeedPeriod;
+  label: string;
+  /** Time span covered by the feed */
+  hours: number;
+}
+
+export interface FeedMagnitudeInfo {
+  magnitude: FeedMagnitude;
+  label: string;
+}
+
+export const FEED_PERIODS: FeedPeriodInfo[] = [
+  { period: 'hour', label: 'Hour', hours: 1 },
+  { period: 'day', label: 'Day', hours: 24 },
+  { period: 'week', label: 'Week', hours: 24 * 7 },
+  { period: 'month', label: 'Month', hours: 24 * 30 },
+];
+
+export const FEED_MAGNITUDES: FeedMagnitudeInfo[] = [
+  { magnitude: 'all', label: 'All' },
+  { magnitude: '1.0', label: 'M1.0+' },
+  { magnitude: '2.5', label: 'M2.5+' },
+  { magnitude: '4.5', label: 'M4.5+' },
+  { magnitude: 'significant', label: 'Significant' },
+];
+
+// All earthquakes in the past 30 days
+export const DEFAULT_FEED: EarthquakeFeed = {
+  period: 'month',
+  magnitude: 'all',
+};
+
+/**
+ * Build the GeoJSON summary feed URL, e.g. `.../summary/2.5_week.geojson`.
+ */
+export function getFeedUrl(feed: EarthquakeFeed): string {
+  return `${USGS_FEED_BASE_URL}/${feed.magnitude}_${feed.period}.geojson`;
+}
+
+/**
+ * Time span in hours covered by a feed period.
+ */
+export function getFeedSpanHours(period: FeedPeriod): number {
+  const info = FEED_PERIODS.find((p) => p.period === period);
+  return info ? info.hours : 24 * 30;
+}
+
+// USGS regenerates the summary feeds about once a minute
+export interface RefreshIntervalInfo {
+  label: string;
+  ms: number;
+}
+
+export const REFRESH_INTERVALS: RefreshIntervalInfo[] = [
+  { label: '30s', ms: 30_000 },
+  { label: '1m', ms: 60_000 },
+  { label: '5m', ms: 5 * 60_000 },
+  { label: '15m', ms: 15 * 60_000 },
+];
+
+export interface AutoRefreshSettings {
+  enabled: boolean;
+  intervalMs: number;
+}
+
+export const DEFAULT_AUTO_REFRESH: AutoRefreshSettings = {
+  enabled: false,
+  intervalMs: 60_000,
+};
@@ -0,0 +1,27 @@
+import { HOUR_MS } from '../utils/time';
+
+export interface EarthquakePlaybackState {
+  currentTime: number; // Epoch ms of the playback head
+  isPlaying: boolean;
+  playbackSpeed: number; // Catalog hours replayed per real second
+  loopEnabled: boolean;
+  trailMs: number; // How long an event stays visible while fading out
+}
+
+export interface PlaybackOption {
+  value: number;
+  label: string;
+}
+
+export const PLAYBACK_SPEEDS: PlaybackOption[] = [
+  { value: 1, label: '1h/s' },
+  { value: 6, label: '6h/s' },
+  { value: 24, label: '1d/s' },
+  { value: 72, label: '3d/s' },
+];
+
+export const PLAYBACK_TRAILS: PlaybackOption[] = [
+  { value: 6 * HOUR_MS, label: '6h' },
+  { value: 24 * HOUR_MS, label: '1d' },
+  { value: 7 * 24 * HOUR_MS, label: '7d' },
+];
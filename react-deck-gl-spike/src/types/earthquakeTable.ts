@@ -0,0 +1,35 @@
+/** Sortable columns of the event table */
+export type EarthquakeTableColumn =
+  | 'time'
+  | 'magnitude'
+  | 'depth'
+  | 'location'
+  | 'distance';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface EarthquakeTableSort {
+  column: EarthquakeTableColumn;
+  direction: SortDirection;
+}
+
+export interface EarthquakeTableColumnInfo {
+  column: EarthquakeTableColumn;
+  label: string;
+  /** Direction of the first click, e.g. largest magnitude first */
+  defaultDirection: SortDirection;
+}
+
+export const EARTHQUAKE_TABLE_COLUMNS: EarthquakeTableColumnInfo[] = [
+  { column: 'time', label: 'Time', defaultDirection: 'desc' },
+  { column: 'magnitude', label: 'Mag', defaultDirection: 'desc' },
+  { column: 'depth', label: 'Depth', defaultDirection: 'asc' },
+  { column: 'location', label: 'Location', defaultDirection: 'asc' },
+  { column: 'distance', label: 'Distance', defaultDirection: 'asc' },
+];
+
+/** Newest events first */
+export const DEFAULT_TABLE_SORT: EarthquakeTableSort = {
+  column: 'time',
+  direction: 'desc',
+};
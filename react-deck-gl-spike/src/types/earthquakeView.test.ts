@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AUTO_SWITCH_ZOOM,
+  BIN_METRICS,
+  VIEW_MODES,
+  getEffectiveViewMode,
+} from './earthquakeView';
+
+describe('earthquakeView', () => {
+  describe('VIEW_MODES', () => {
+    it('covers points, clusters and all aggregate modes', () => {
+      expect(VIEW_MODES.map((m) => m.mode)).toEqual([
+        'points',
+        'clusters',
+        'heatmap',
+        'hexagon',
+        'grid',
+      ]);
+    });
+  });
+
+  describe('BIN_METRICS', () => {
+    it('covers count, max magnitude and energy', () => {
+      expect(BIN_METRICS.map((m) => m.metric)).toEqual([
+        'count',
+        'maxMagnitude',
+        'energy',
+      ]);
+    });
+  });
+
+  describe('getEffectiveViewMode', () => {
+    it('returns the selected mode without auto-switch', () => {
+      expect(getEffectiveViewMode('hexagon', false, 10)).toBe('hexagon');
+      expect(getEffectiveViewMode('points', false, 1)).toBe('points');
+    });
+
+    it('shows points when zoomed in past the threshold', () => {
+      expect(getEffectiveViewMode('grid', true, AUTO_SWITCH_ZOOM)).toBe(
+        'points'
+      );
+    });
+
+    it('shows the selected aggregate when zoomed out', () => {
+      expect(getEffectiveViewMode('grid', true, AUTO_SWITCH_ZOOM - 1)).toBe(
+        'grid'
+      );
+    });
+
+    it('keeps clusters when zoomed out', () => {
+      expect(getEffectiveViewMode('clusters', true, 1)).toBe('clusters');
+      expect(getEffectiveViewMode('clusters', true, AUTO_SWITCH_ZOOM)).toBe(
+        'points'
+      );
+    });
+
+    it('falls back to the heatmap when points are selected', () => {
+      expect(getEffectiveViewMode('points', true, 1)).toBe('heatmap');
+    });
+  });
+});
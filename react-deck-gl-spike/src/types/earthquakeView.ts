@@ -0,0 +1,122 @@
+export type EarthquakeViewMode =
+  | 'points'
+  | 'clusters'
+  | 'heatmap'
+  | 'hexagon'
+  | 'grid';
+
+/** Modes that bin events by a metric */
+export type AggregateViewMode = Exclude<
+  EarthquakeViewMode,
+  'points' | 'clusters'
+>;
+
+/** What each heatmap cell or bin measures */
+export type BinMetric = 'count' | 'maxMagnitude' | 'energy';
+
+/** How the Earth's surface is drawn */
+export type MapProjection = 'mercator' | 'globe';
+
+/** What the fill color of individual events encodes */
+export type EarthquakeColorMode =
+  | 'depth'
+  | 'magnitude'
+  | 'age'
+  | 'alert'
+  | 'status'
+  | 'sequence';
+
+/** How the radius of individual events is scaled */
+export type EarthquakeSizeMode =
+  | 'exponential'
+  | 'power'
+  | 'energy'
+  | 'constant';
+
+export interface ViewModeInfo {
+  mode: EarthquakeViewMode;
+  label: string;
+}
+
+export interface BinMetricInfo {
+  metric: BinMetric;
+  label: string;
+}
+
+export const VIEW_MODES: ViewModeInfo[] = [
+  { mode: 'points', label: 'Points' },
+  { mode: 'clusters', label: 'Clusters' },
+  { mode: 'heatmap', label: 'Heatmap' },
+  { mode: 'hexagon', label: 'Hexagons' },
+  { mode: 'grid', label: 'Grid' },
+];
+
+export interface MapProjectionInfo {
+  projection: MapProjection;
+  label: string;
+}
+
+export const MAP_PROJECTIONS: MapProjectionInfo[] = [
+  { projection: 'mercator', label: 'Flat' },
+  { projection: 'globe', label: 'Globe' },
+];
+
+export interface ColorModeInfo {
+  mode: EarthquakeColorMode;
+  label: string;
+}
+
+// Aftershock sequences have their own toggle and panel
+export const COLOR_MODES: ColorModeInfo[] = [
+  { mode: 'depth', label: 'Depth' },
+  { mode: 'magnitude', label: 'Magnitude' },
+  { mode: 'age', label: 'Age' },
+  { mode: 'alert', label: 'PAGER alert' },
+  { mode: 'status', label: 'Review status' },
+];
+
+export interface SizeModeInfo {
+  mode: EarthquakeSizeMode;
+  label: string;
+}
+
+export const SIZE_MODES: SizeModeInfo[] = [
+  { mode: 'exponential', label: 'Exponential' },
+  { mode: 'power', label: 'Power' },
+  { mode: 'energy', label: 'Energy' },
+  { mode: 'constant', label: 'Constant' },
+];
+
+export const BIN_METRICS: BinMetricInfo[] = [
+  { metric: 'count', label: 'Count' },
+  { metric: 'maxMagnitude', label: 'Max magnitude' },
+  { metric: 'energy', label: 'Energy' },
+];
+
+// Below this zoom individual points overlap in dense regions
+export const AUTO_SWITCH_ZOOM = 4;
+
+/**
+ * The view mode actually drawn. With auto-switch on, points are shown when
+ * zoomed in and the chosen aggregate (heatmap if none) when zoomed out.
+ */
+export function getEffectiveViewMode(
+  mode: EarthquakeViewMode,
+  autoSwitch: boolean,
+  zoom: number
+): EarthquakeViewMode {
+  if (!autoSwitch) return mode;
+  if (zoom >= AUTO_SWITCH_ZOOM) return 'points';
+  return mode === 'points' ? 'heatmap' : mode;
+}
+
+// Depth multipliers for the 3D subsurface view
+export const VERTICAL_EXAGGERATIONS = [1, 2, 5, 10, 20] as const;
+
+export const DEFAULT_VERTICAL_EXAGGERATION = 5;
+
+// Camera tilt applied when entering the 3D depth view
+export const DEPTH_VIEW_PITCH = 50;
+
+// Default maximum pitch of the map controller
+export const MAX_DEPTH_VIEW_PITCH = 60;
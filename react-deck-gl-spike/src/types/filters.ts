@@ -3,6 +3,33 @@ export interface DateRange {
   endDate: Date | null;
 }
 
+/**
+ * Inclusive numeric range. A null bound means the range is open on that side.
+ */
+export interface NumericRange {
+  min: number | null;
+  max: number | null;
+}
+
+export type MagnitudeRange = NumericRange;
+
+export type DepthRange = NumericRange; // km
+
+export type BoundaryDistanceRange = NumericRange; // km to the nearest plate boundary
+
 export interface FilterState {
   dateRange: DateRange;
+  magnitudeRange: MagnitudeRange;
+  depthRange: DepthRange;
+  boundaryDistanceRange: BoundaryDistanceRange;
 }
+
+// Slider extents for the numeric filters
+export const MAGNITUDE_BOUNDS = { min: 0, max: 10, step: 0.1 } as const;
+export const DEPTH_BOUNDS = { min: 0, max: 700, step: 5 } as const;
+// The boundary lines can be 100 km out, so finer steps would mean nothing
+export const BOUNDARY_DISTANCE_BOUNDS = {
+  min: 0,
+  max: 1000,
+  step: 50,
+} as const;
@@ -0,0 +1,12 @@
+import type { LngLat } from './spatialSelection';
+
+/** Events within a great-circle distance of a center point */
+export interface RadiusSearch {
+  center: LngLat;
+  radiusKm: number;
+}
+
+/** Radius presets offered in the search panel, in km */
+export const RADIUS_OPTIONS_KM = [10, 50, 100, 250, 500] as const;
+
+export const DEFAULT_RADIUS_KM = 100;
@@ -0,0 +1,29 @@
+/** How a selection shape is drawn on the map */
+export type SelectionTool = 'lasso' | 'polygon' | 'rectangle';
+
+/** [longitude, latitude] */
+export type LngLat = [number, number];
+
+export interface SelectionShape {
+  id: string;
+  tool: SelectionTool;
+  /** Polygon ring in drawing order; the closing vertex is implied */
+  ring: LngLat[];
+}
+
+export interface SelectionToolInfo {
+  tool: SelectionTool;
+  label: string;
+  /** How to draw with the tool */
+  hint: string;
+}
+
+export const SELECTION_TOOLS: SelectionToolInfo[] = [
+  { tool: 'lasso', label: 'Lasso', hint: 'Drag to draw a freehand outline' },
+  {
+    tool: 'polygon',
+    label: 'Polygon',
+    hint: 'Click to add vertices, double-click or Enter to finish',
+  },
+  { tool: 'rectangle', label: 'Rectangle', hint: 'Drag between two corners' },
+];
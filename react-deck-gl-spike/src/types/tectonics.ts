@@ -0,0 +1,40 @@
+import type { FeatureCollection, LineString, MultiLineString } from 'geojson';
+
+/** Relative motion of the plates on either side of a boundary */
+export type PlateBoundaryType = 'convergent' | 'divergent' | 'transform';
+
+export interface PlateBoundaryProperties {
+  name: string;
+  type: PlateBoundaryType;
+  /** Plates either side, e.g. "Pacific / North American" */
+  plates: string;
+}
+
+export interface FaultProperties {
+  name: string;
+}
+
+export type PlateBoundaryCollection = FeatureCollection<
+  LineString | MultiLineString,
+  PlateBoundaryProperties
+>;
+
+export type FaultCollection = FeatureCollection<LineString, FaultProperties>;
+
+export interface PlateBoundaryTypeInfo {
+  type: PlateBoundaryType;
+  label: string;
+}
+
+export const PLATE_BOUNDARY_TYPES: PlateBoundaryTypeInfo[] = [
+  { type: 'convergent', label: 'Convergent' },
+  { type: 'divergent', label: 'Divergent' },
+  { type: 'transform', label: 'Transform' },
+];
+
+/** Boundary closest to an event */
+export interface NearestBoundary {
+  name: string;
+  type: PlateBoundaryType;
+  distanceKm: number;
+}
@@ -0,0 +1,291 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GENERIC_PARAMETERS,
+  MIN_FIT_AFTERSHOCKS,
+  analyzeAftershocks,
+  findAftershocks,
+  fitReasenbergJones,
+  forecastAftershocks,
+  getAftershockRate,
+  getExpectedAftershocks,
+  getObservedRates,
+  getProbabilityOfOneOrMore,
+  type ReasenbergJonesParameters,
+} from './aftershockForecast';
+import { MIN_FIT_EVENTS, estimateBValue } from './gutenbergRichter';
+import type { Earthquake } from '../types/earthquake';
+import { DAY_MS } from './time';
+
+const MAINSHOCK_TIME = Date.UTC(2024, 0, 1);
+
+const mainshock: Earthquake = {
+  id: 'main',
+  longitude: 142,
+  latitude: 38,
+  depth: 20,
+  magnitude: 7,
+  timestamp: new Date(MAINSHOCK_TIME).toISOString(),
+  location: 'Mainshock',
+};
+
+function aftershock(
+  id: string,
+  days: number,
+  magnitude = 4,
+  longitude = 142.1
+): Earthquake {
+  return {
+    ...mainshock,
+    id,
+    longitude,
+    magnitude,
+    timestamp: new Date(MAINSHOCK_TIME + days * DAY_MS).toISOString(),
+    location: 'Aftershock',
+  };
+}
+
+/**
+ * Times that follow an Omori decay exactly: evenly spaced quantiles of its
+ * distribution over the observation period.
+ */
+function omoriTimes(count: number, p: number, c: number, days: number) {
+  const start = c ** (1 - p);
+  const end = (days + c) ** (1 - p);
+  return Array.from({ length: count }, (_, i) => {
+    const u = (i + 0.5) / count;
+    return (start - u * (start - end)) ** (1 / (1 - p)) - c;
+  });
+}
+
+describe('getAftershockRate', () => {
+  it('follows the Reasenberg–Jones rate', () => {
+    const { a, b, p, c } = GENERIC_PARAMETERS;
+    expect(getAftershockRate(GENERIC_PARAMETERS, 6, 4, 2)).toBeCloseTo(
+      10 ** (a + b * 2) * (2 + c) ** -p
+    );
+  });
+
+  it('decays with time and with the forecast magnitude', () => {
+    expect(getAftershockRate(GENERIC_PARAMETERS, 6, 4, 10)).toBeLessThan(
+      getAftershockRate(GENERIC_PARAMETERS, 6, 4, 1)
+    );
+    // One magnitude unit up is b orders of magnitude fewer
+    expect(
+      getAftershockRate(GENERIC_PARAMETERS, 6, 4, 1) /
+        getAftershockRate(GENERIC_PARAMETERS, 6, 5, 1)
+    ).toBeCloseTo(10 ** GENERIC_PARAMETERS.b);
+  });
+});
+
+describe('getExpectedAftershocks', () => {
+  function integrateNumerically(
+    parameters: ReasenbergJonesParameters,
+    start: number,
+    end: number
+  ) {
+    const steps = 200_000;
+    const width = (end - start) / steps;
+    let sum = 0;
+    for (let i = 0; i < steps; i++) {
+      sum += getAftershockRate(parameters, 6, 4, start + (i + 0.5) * width);
+    }
+    return sum * width;
+  }
+
+  it('integrates the rate over the window', () => {
+    expect(getExpectedAftershocks(GENERIC_PARAMETERS, 6, 4, 1, 8)).toBeCloseTo(
+      integrateNumerically(GENERIC_PARAMETERS, 1, 8),
+      3
+    );
+  });
+
+  it('integrates a decay with p of exactly 1', () => {
+    const parameters = { ...GENERIC_PARAMETERS, p: 1 };
+    expect(getExpectedAftershocks(parameters, 6, 4, 0, 7)).toBeCloseTo(
+      integrateNumerically(parameters, 0, 7),
+      3
+    );
+  });
+
+  it('adds up over consecutive windows', () => {
+    const day = getExpectedAftershocks(GENERIC_PARAMETERS, 6, 4, 0, 1);
+    const rest = getExpectedAftershocks(GENERIC_PARAMETERS, 6, 4, 1, 7);
+
+    expect(getExpectedAftershocks(GENERIC_PARAMETERS, 6, 4, 0, 7)).toBeCloseTo(
+      day + rest
+    );
+  });
+});
+
+describe('getProbabilityOfOneOrMore', () => {
+  it('is the Poisson chance of at least one event', () => {
+    expect(getProbabilityOfOneOrMore(0)).toBe(0);
+    expect(getProbabilityOfOneOrMore(1)).toBeCloseTo(1 - 1 / Math.E);
+    expect(getProbabilityOfOneOrMore(20)).toBeCloseTo(1);
+  });
+});
+
+describe('fitReasenbergJones', () => {
+  it('recovers the decay of an Omori sequence', () => {
+    const times = omoriTimes(400, 1.3, GENERIC_PARAMETERS.c, 30);
+    const fit = fitReasenbergJones(times, 7, 3, 30)!;
+
+    expect(fit.p).toBeCloseTo(1.3, 1);
+    expect(fit.b).toBe(GENERIC_PARAMETERS.b);
+    expect(fit.c).toBe(GENERIC_PARAMETERS.c);
+  });
+
+  it('reproduces the observed count above completeness', () => {
+    const times = omoriTimes(150, 1.1, GENERIC_PARAMETERS.c, 10);
+    const fit = fitReasenbergJones(times, 7, 3, 10)!;
+
+    expect(getExpectedAftershocks(fit, 7, 3, 0, 10)).toBeCloseTo(150, 6);
+  });
+
+  it('needs enough aftershocks', () => {
+    const times = omoriTimes(MIN_FIT_AFTERSHOCKS - 1, 1.1, 0.05, 10);
+    expect(fitReasenbergJones(times, 7, 3, 10)).toBeNull();
+  });
+});
+
+describe('getObservedRates', () => {
+  it('counts aftershocks per day in log-spaced bins', () => {
+    const rates = getObservedRates([0.02, 0.025, 0.5, 3], 10);
+
+    expect(rates[0].startDays).toBeCloseTo(0.01);
+    expect(rates[rates.length - 1].endDays).toBe(10);
+    expect(rates.reduce((sum, bin) => sum + bin.count, 0)).toBe(4);
+    rates.forEach((bin) => {
+      expect(bin.rate).toBeCloseTo(bin.count / (bin.endDays - bin.startDays));
+    });
+  });
+
+  it('has no bins before the observations start', () => {
+    expect(getObservedRates([], 0)).toEqual([]);
+  });
+});
+
+describe('findAftershocks', () => {
+  it('keeps later, smaller events near the mainshock in time order', () => {
+    const found = findAftershocks(
+      mainshock,
+      [
+        aftershock('late', 5),
+        aftershock('early', 1),
+        aftershock('foreshock', -1),
+        aftershock('far', 2, 4, 150),
+        aftershock('larger', 3, 7.5),
+        aftershock('future', 40),
+        mainshock,
+      ],
+      MAINSHOCK_TIME + 30 * DAY_MS
+    );
+
+    expect(found.map((eq) => eq.id)).toEqual(['early', 'late']);
+  });
+});
+
+describe('analyzeAftershocks', () => {
+  const referenceTime = MAINSHOCK_TIME + 20 * DAY_MS;
+
+  it('fits a well-recorded sequence', () => {
+    const catalog = omoriTimes(200, 1.2, 0.05, 20).map((days, i) =>
+      aftershock(`a${i}`, days, 3 + (i % 10) / 10)
+    );
+    const analysis = analyzeAftershocks(mainshock, catalog, referenceTime);
+
+    expect(analysis.source).toBe('sequence');
+    expect(analysis.aftershocks).toHaveLength(200);
+    expect(analysis.elapsedDays).toBe(20);
+    expect(analysis.completeness).not.toBeNull();
+    expect(analysis.sampleSize).toBe(
+      analysis.aftershocks.filter(
+        (eq) => eq.magnitude >= analysis.completeness!
+      ).length
+    );
+    expect(analysis.sampleSize).toBeLessThan(200);
+    expect(analysis.observedRates.length).toBeGreaterThan(0);
+  });
+
+  it("takes the sequence's own b-value once it has enough aftershocks", () => {
+    const catalog = omoriTimes(200, 1.2, 0.05, 20).map((days, i) =>
+      aftershock(`a${i}`, days, 3 + (i % 10) / 10)
+    );
+    const analysis = analyzeAftershocks(mainshock, catalog, referenceTime);
+    const { bValue } = estimateBValue(
+      catalog.map((eq) => eq.magnitude),
+      analysis.completeness!
+    )!;
+
+    expect(analysis.sampleSize).toBeGreaterThanOrEqual(MIN_FIT_EVENTS);
+    expect(analysis.bSource).toBe('sequence');
+    expect(analysis.parameters.b).toBe(bValue);
+    expect(analysis.parameters.b).not.toBe(GENERIC_PARAMETERS.b);
+  });
+
+  it('keeps the generic b-value when too few aftershocks are above Mc', () => {
+    const catalog = omoriTimes(40, 1.2, 0.05, 20).map((days, i) =>
+      aftershock(`a${i}`, days, 3 + (i % 10) / 10)
+    );
+    const analysis = analyzeAftershocks(mainshock, catalog, referenceTime);
+
+    expect(analysis.source).toBe('sequence');
+    expect(analysis.sampleSize).toBeLessThan(MIN_FIT_EVENTS);
+    expect(analysis.bSource).toBe('generic');
+    expect(analysis.parameters.b).toBe(GENERIC_PARAMETERS.b);
+  });
+
+  it('falls back to generic parameters for a sparse sequence', () => {
+    const analysis = analyzeAftershocks(
+      mainshock,
+      [aftershock('a', 1), aftershock('b', 2)],
+      referenceTime
+    );
+
+    expect(analysis.source).toBe('generic');
+    expect(analysis.bSource).toBe('generic');
+    expect(analysis.parameters).toEqual(GENERIC_PARAMETERS);
+  });
+
+  it('uses generic parameters without any aftershocks', () => {
+    const analysis = analyzeAftershocks(mainshock, [mainshock], referenceTime);
+
+    expect(analysis.aftershocks).toEqual([]);
+    expect(analysis.completeness).toBeNull();
+    expect(analysis.sampleSize).toBe(0);
+    expect(analysis.source).toBe('generic');
+  });
+});
+
+describe('forecastAftershocks', () => {
+  const analysis = analyzeAftershocks(
+    mainshock,
+    [],
+    MAINSHOCK_TIME + 2 * DAY_MS
+  );
+
+  it('forecasts the next day, week and month from the reference time', () => {
+    const [day, week, month] = forecastAftershocks(analysis, 5);
+
+    expect([day.label, week.label, month.label]).toEqual([
+      'Day',
+      'Week',
+      'Month',
+    ]);
+    expect(day.expected).toBeCloseTo(
+      getExpectedAftershocks(GENERIC_PARAMETERS, 7, 5, 2, 3)
+    );
+    expect(week.expected).toBeGreaterThan(day.expected);
+    expect(month.probability).toBeCloseTo(
+      getProbabilityOfOneOrMore(month.expected)
+    );
+  });
+
+  it('expects fewer aftershocks above a larger magnitude', () => {
+    const [small] = forecastAftershocks(analysis, 3);
+    const [large] = forecastAftershocks(analysis, 6);
+
+    expect(large.expected).toBeLessThan(small.expected);
+    expect(large.probability).toBeLessThan(small.probability);
+  });
+});
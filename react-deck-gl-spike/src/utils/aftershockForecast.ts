@@ -0,0 +1,343 @@
+import type { Earthquake } from '../types/earthquake';
+import { gardnerKnopoffWindow } from './declusterEarthquakes';
+import {
+  MIN_FIT_EVENTS,
+  estimateBValue,
+  estimateCompleteness,
+} from './gutenbergRichter';
+import { haversineDistanceKm } from './haversine';
+import { DAY_MS } from './time';
+
+/**
+ * Reasenberg & Jones (1989) model: the rate of aftershocks at or above
+ * magnitude M, t days after a mainshock of magnitude Mm, is
+ * 10^(a + b(Mm − M)) · (t + c)^−p per day.
+ */
+export interface ReasenbergJonesParameters {
+  /** Productivity */
+  a: number;
+  /** Gutenberg–Richter b-value */
+  b: number;
+  /** Omori decay exponent */
+  p: number;
+  /** Omori time offset in days */
+  c: number;
+}
+
+/** Generic California parameters (Reasenberg & Jones, 1989) */
+export const GENERIC_PARAMETERS: ReasenbergJonesParameters = {
+  a: -1.67,
+  b: 0.91,
+  p: 1.08,
+  c: 0.05,
+};
+
+/** Smallest mainshock a forecast is offered for */
+export const MIN_MAINSHOCK_MAGNITUDE = 5;
+
+/** Fewest aftershocks above completeness to fit the sequence's own decay */
+export const MIN_FIT_AFTERSHOCKS = 20;
+
+// Range of Omori exponents searched when fitting a sequence
+const P_SEARCH = { min: 0.5, max: 2.5, step: 0.01 };
+
+// Observed rates start a quarter hour in, before which catalogs miss most
+// aftershocks in the mainshock's coda
+const RATE_START_DAYS = 0.01;
+const RATE_BINS_PER_DECADE = 4;
+
+export interface AftershockRateBin {
+  /** Days after the mainshock */
+  startDays: number;
+  endDays: number;
+  /** Aftershocks at or above completeness in the bin */
+  count: number;
+  /** Aftershocks per day */
+  rate: number;
+}
+
+export interface AftershockAnalysis {
+  mainshock: Earthquake;
+  /** Aftershocks up to the reference time, in time order */
+  aftershocks: Earthquake[];
+  /** Days from the mainshock to the reference time */
+  elapsedDays: number;
+  /** Magnitude of completeness of the aftershocks; null without any */
+  completeness: number | null;
+  /** Aftershocks at or above completeness, the sample the decay is fitted to */
+  sampleSize: number;
+  parameters: ReasenbergJonesParameters;
+  /** Whether the decay was fitted to this sequence or taken as generic */
+  source: 'sequence' | 'generic';
+  /**
+   * Whether b is the sequence's own Gutenberg–Richter estimate, which needs
+   * MIN_FIT_EVENTS aftershocks above completeness, or the generic value
+   */
+  bSource: 'sequence' | 'generic';
+  /** Observed rates above completeness in log-spaced bins */
+  observedRates: AftershockRateBin[];
+}
+
+export interface AftershockForecastWindow {
+  label: string;
+  days: number;
+  /** Expected number of aftershocks at or above the forecast magnitude */
+  expected: number;
+  /** Probability of at least one, assuming a Poisson process */
+  probability: number;
+}
+
+export const FORECAST_WINDOWS = [
+  { label: 'Day', days: 1 },
+  { label: 'Week', days: 7 },
+  { label: 'Month', days: 30 },
+] as const;
+
+function getProductivity(
+  { a, b }: ReasenbergJonesParameters,
+  mainshockMagnitude: number,
+  minMagnitude: number
+): number {
+  return 10 ** (a + b * (mainshockMagnitude - minMagnitude));
+}
+
+/**
+ * Integral of the Omori decay (t + c)^−p from `startDays` to `endDays`.
+ */
+function integrateOmori(
+  p: number,
+  c: number,
+  startDays: number,
+  endDays: number
+): number {
+  if (Math.abs(p - 1) < 1e-9) {
+    return Math.log((endDays + c) / (startDays + c));
+  }
+  return ((startDays + c) ** (1 - p) - (endDays + c) ** (1 - p)) / (p - 1);
+}
+
+/**
+ * Modeled rate of aftershocks at or above `minMagnitude`, per day, `days`
+ * after the mainshock.
+ */
+export function getAftershockRate(
+  parameters: ReasenbergJonesParameters,
+  mainshockMagnitude: number,
+  minMagnitude: number,
+  days: number
+): number {
+  return (
+    getProductivity(parameters, mainshockMagnitude, minMagnitude) *
+    (days + parameters.c) ** -parameters.p
+  );
+}
+
+/**
+ * Expected number of aftershocks at or above `minMagnitude` between two
+ * times after the mainshock, in days.
+ */
+export function getExpectedAftershocks(
+  parameters: ReasenbergJonesParameters,
+  mainshockMagnitude: number,
+  minMagnitude: number,
+  startDays: number,
+  endDays: number
+): number {
+  return (
+    getProductivity(parameters, mainshockMagnitude, minMagnitude) *
+    integrateOmori(parameters.p, parameters.c, startDays, endDays)
+  );
+}
+
+/**
+ * Chance of one or more events when `expected` are expected (Poisson).
+ */
+export function getProbabilityOfOneOrMore(expected: number): number {
+  return 1 - Math.exp(-expected);
+}
+
+/**
+ * Maximum-likelihood Omori fit (Ogata, 1983) to aftershock times in days,
+ * observed from the mainshock to `observationDays`, with b and c kept from
+ * `base`. The productivity that best explains the count is solved for each
+ * p, leaving a one-dimensional search over p. Returns null with fewer than
+ * MIN_FIT_AFTERSHOCKS times.
+ */
+export function fitReasenbergJones(
+  times: number[],
+  mainshockMagnitude: number,
+  completeness: number,
+  observationDays: number,
+  base: ReasenbergJonesParameters = GENERIC_PARAMETERS
+): ReasenbergJonesParameters | null {
+  const n = times.length;
+  if (n < MIN_FIT_AFTERSHOCKS || observationDays <= 0) return null;
+
+  const { c } = base;
+  const sumLogTimes = times.reduce((sum, t) => sum + Math.log(t + c), 0);
+  const logLikelihood = (p: number) =>
+    n * Math.log(n / integrateOmori(p, c, 0, observationDays)) -
+    p * sumLogTimes -
+    n;
+
+  let bestP = P_SEARCH.min;
+  let best = -Infinity;
+  for (let p = P_SEARCH.min; p <= P_SEARCH.max + 1e-9; p += P_SEARCH.step) {
+    const likelihood = logLikelihood(p);
+    if (likelihood > best) {
+      best = likelihood;
+      bestP = p;
+    }
+  }
+  const p = Number(bestP.toFixed(2));
+
+  // Productivity at completeness, carried back to the model's a-value
+  const k = n / integrateOmori(p, c, 0, observationDays);
+  return {
+    ...base,
+    p,
+    a: Math.log10(k) - base.b * (mainshockMagnitude - completeness),
+  };
+}
+
+/**
+ * Aftershock counts per day in log-spaced bins, so the Omori decay reads as
+ * a straight line on a log-log plot. The last bin ends at `observationDays`.
+ */
+export function getObservedRates(
+  times: number[],
+  observationDays: number
+): AftershockRateBin[] {
+  const bins: AftershockRateBin[] = [];
+  const firstDecade = Math.log10(RATE_START_DAYS) * RATE_BINS_PER_DECADE;
+
+  for (let i = firstDecade; ; i++) {
+    const startDays = 10 ** (i / RATE_BINS_PER_DECADE);
+    if (startDays >= observationDays) break;
+
+    const endDays = Math.min(
+      10 ** ((i + 1) / RATE_BINS_PER_DECADE),
+      observationDays
+    );
+    const count = times.filter((t) => t >= startDays && t < endDays).length;
+    bins.push({
+      startDays,
+      endDays,
+      count,
+      rate: count / (endDays - startDays),
+    });
+  }
+  return bins;
+}
+
+/**
+ * Events that follow a mainshock within its Gardner–Knopoff window, up to
+ * `referenceTime`, in time order.
+ */
+export function findAftershocks(
+  mainshock: Earthquake,
+  earthquakes: Earthquake[],
+  referenceTime: number
+): Earthquake[] {
+  const mainshockTime = new Date(mainshock.timestamp).getTime();
+  const { distanceKm, durationMs } = gardnerKnopoffWindow(mainshock.magnitude);
+  const endTime = Math.min(referenceTime, mainshockTime + durationMs);
+
+  return earthquakes
+    .map((eq) => ({ eq, time: new Date(eq.timestamp).getTime() }))
+    .filter(
+      ({ eq, time }) =>
+        eq.id !== mainshock.id &&
+        time > mainshockTime &&
+        time <= endTime &&
+        eq.magnitude <= mainshock.magnitude &&
+        haversineDistanceKm(
+          mainshock.latitude,
+          mainshock.longitude,
+          eq.latitude,
+          eq.longitude
+        ) <= distanceKm
+    )
+    .sort((a, b) => a.time - b.time)
+    .map(({ eq }) => eq);
+}
+
+/**
+ * Aftershocks of a mainshock in a catalog and the Reasenberg–Jones model
+ * for them: fitted to the sequence once it has enough aftershocks above
+ * completeness, otherwise the generic parameters. The fit takes the
+ * sequence's own b-value once there are enough events for one.
+ */
+export function analyzeAftershocks(
+  mainshock: Earthquake,
+  earthquakes: Earthquake[],
+  referenceTime: number
+): AftershockAnalysis {
+  const mainshockTime = new Date(mainshock.timestamp).getTime();
+  const elapsedDays = Math.max(0, (referenceTime - mainshockTime) / DAY_MS);
+  const aftershocks = findAftershocks(mainshock, earthquakes, referenceTime);
+  const magnitudes = aftershocks.map((eq) => eq.magnitude);
+  const completeness = estimateCompleteness(magnitudes);
+
+  const times =
+    completeness === null
+      ? []
+      : aftershocks
+          .filter((eq) => eq.magnitude >= completeness)
+          .map(
+            (eq) => (new Date(eq.timestamp).getTime() - mainshockTime) / DAY_MS
+          );
+  const gutenbergRichter =
+    completeness !== null && times.length >= MIN_FIT_EVENTS
+      ? estimateBValue(magnitudes, completeness)
+      : null;
+  const fitted =
+    completeness === null
+      ? null
+      : fitReasenbergJones(
+          times,
+          mainshock.magnitude,
+          completeness,
+          elapsedDays,
+          gutenbergRichter
+            ? { ...GENERIC_PARAMETERS, b: gutenbergRichter.bValue }
+            : GENERIC_PARAMETERS
+        );
+
+  return {
+    mainshock,
+    aftershocks,
+    elapsedDays,
+    completeness,
+    sampleSize: times.length,
+    parameters: fitted ?? GENERIC_PARAMETERS,
+    source: fitted ? 'sequence' : 'generic',
+    bSource: fitted && gutenbergRichter ? 'sequence' : 'generic',
+    observedRates: getObservedRates(times, elapsedDays),
+  };
+}
+
+/**
+ * Expected number and probability of aftershocks at or above
+ * `minMagnitude` over the next day, week and month from the reference time.
+ */
+export function forecastAftershocks(
+  { mainshock, elapsedDays, parameters }: AftershockAnalysis,
+  minMagnitude: number
+): AftershockForecastWindow[] {
+  return FORECAST_WINDOWS.map(({ label, days }) => {
+    const expected = getExpectedAftershocks(
+      parameters,
+      mainshock.magnitude,
+      minMagnitude,
+      elapsedDays,
+      elapsedDays + days
+    );
+    return {
+      label,
+      days,
+      expected,
+      probability: getProbabilityOfOneOrMore(expected),
+    };
+  });
+}
@@ -0,0 +1,326 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectCatalogFormat,
+  getMissingFields,
+  guessColumnMapping,
+  parseCatalogTable,
+  parseCatalogTime,
+  parseQuakeML,
+  readCatalogTable,
+} from './catalogImport';
+import { earthquakesToCSV } from './exportEarthquakes';
+import type { Earthquake } from '../types/earthquake';
+
+const QUAKEML = `<?xml version="1.0" encoding="UTF-8"?>
+<q:quakeml xmlns:q="http://quakeml.org/xmlns/quakeml/1.2" xmlns="http://quakeml.org/xmlns/bed/1.2">
+  <eventParameters publicID="quakeml:earthquake.usgs.gov/fdsnws/event/1/query">
+    <event publicID="quakeml:us.anss.org/event/us7000abcd">
+      <description>
+        <type>earthquake name</type>
+        <text>10 km SW of Example, Chile</text>
+      </description>
+      <preferredOriginID>quakeml:us.anss.org/origin/preferred</preferredOriginID>
+      <preferredMagnitudeID>quakeml:us.anss.org/magnitude/mww</preferredMagnitudeID>
+      <origin publicID="quakeml:us.anss.org/origin/other">
+        <time><value>2024-01-01T00:00:00Z</value></time>
+        <latitude><value>0</value></latitude>
+        <longitude><value>0</value></longitude>
+        <depth><value>0</value></depth>
+      </origin>
+      <origin publicID="quakeml:us.anss.org/origin/preferred">
+        <time><value>2024-03-15T12:34:56.780Z</value></time>
+        <latitude><value>-33.45</value></latitude>
+        <longitude><value>-70.66</value></longitude>
+        <depth><value>35500</value></depth>
+        <evaluationMode>manual</evaluationMode>
+      </origin>
+      <magnitude publicID="quakeml:us.anss.org/magnitude/mb">
+        <mag><value>5.9</value></mag>
+        <type>mb</type>
+      </magnitude>
+      <magnitude publicID="quakeml:us.anss.org/magnitude/mww">
+        <mag><value>6.1</value></mag>
+        <type>Mww</type>
+      </magnitude>
+      <creationInfo><agencyID>us</agencyID></creationInfo>
+    </event>
+    <event publicID="smi:local/fdsnws/event/1/query?eventid=42">
+      <origin publicID="smi:local/origin/1">
+        <time><value>2024-03-16T01:00:00</value></time>
+        <latitude><value>95</value></latitude>
+        <longitude><value>10</value></longitude>
+        <depth><value>1000</value></depth>
+      </origin>
+      <magnitude publicID="smi:local/magnitude/1">
+        <mag><value>2.0</value></mag>
+      </magnitude>
+    </event>
+    <event publicID="smi:local/fdsnws/event/1/query?eventid=43">
+      <origin publicID="smi:local/origin/2">
+        <time><value>2024-03-16T02:00:00</value></time>
+        <latitude><value>10</value></latitude>
+        <longitude><value>20</value></longitude>
+        <depth><value>5000</value></depth>
+        <evaluationMode>automatic</evaluationMode>
+      </origin>
+      <magnitude publicID="smi:local/magnitude/2">
+        <mag><value>3.2</value></mag>
+      </magnitude>
+    </event>
+  </eventParameters>
+</q:quakeml>`;
+
+const FDSN_TEXT = `#EventID|Time|Latitude|Longitude|Depth/km|Author|Catalog|Contributor|ContributorID|MagType|Magnitude|MagAuthor|EventLocationName
+us7000abcd|2024-03-15T12:34:56.78|-33.45|-70.66|35.5|us|us|us|us7000abcd|mww|6.1|us|10 km SW of Example, Chile
+ci123|2024-03-16T01:00:00|34.1|-118.2||ci|ci|ci|ci123|ml|2.4|ci|Los Angeles, CA
+`;
+
+describe('parseCatalogTime', () => {
+  it('reads times without a zone as UTC', () => {
+    expect(parseCatalogTime('2024-03-16T01:00:00')).toBe(
+      Date.UTC(2024, 2, 16, 1)
+    );
+    expect(parseCatalogTime('2024-03-16 01:00:00.5')).toBe(
+      Date.UTC(2024, 2, 16, 1, 0, 0, 500)
+    );
+  });
+
+  it('keeps explicit zones', () => {
+    expect(parseCatalogTime('2024-03-16T01:00:00Z')).toBe(
+      Date.UTC(2024, 2, 16, 1)
+    );
+    expect(parseCatalogTime('2024-03-16T10:00:00+09:00')).toBe(
+      Date.UTC(2024, 2, 16, 1)
+    );
+  });
+
+  it('returns NaN for text that is not a date', () => {
+    expect(parseCatalogTime('yesterday')).toBeNaN();
+  });
+});
+
+describe('detectCatalogFormat', () => {
+  it('recognizes QuakeML by extension or content', () => {
+    expect(detectCatalogFormat('', 'events.xml')).toBe('quakeml');
+    expect(detectCatalogFormat(QUAKEML, 'events.txt')).toBe('quakeml');
+  });
+
+  it('recognizes pipe-separated FDSN text', () => {
+    expect(detectCatalogFormat(FDSN_TEXT, 'events.txt')).toBe('fdsn-text');
+  });
+
+  it('treats anything else as CSV', () => {
+    expect(detectCatalogFormat('time,latitude\n', 'events.csv')).toBe('csv');
+  });
+});
+
+describe('parseQuakeML', () => {
+  it('reads the preferred origin and magnitude of each event', () => {
+    const { earthquakes } = parseQuakeML(QUAKEML);
+
+    expect(earthquakes[0]).toEqual({
+      id: 'us7000abcd',
+      longitude: -70.66,
+      latitude: -33.45,
+      depth: 35.5,
+      magnitude: 6.1,
+      timestamp: '2024-03-15T12:34:56.780Z',
+      location: '10 km SW of Example, Chile',
+      magType: 'Mww',
+      network: 'us',
+      status: 'reviewed',
+    });
+  });
+
+  it('reports invalid events by number and keeps the rest', () => {
+    const { earthquakes, errors } = parseQuakeML(QUAKEML);
+
+    expect(earthquakes.map((eq) => eq.id)).toEqual(['us7000abcd', '43']);
+    expect(earthquakes[1]).toMatchObject({
+      depth: 5,
+      timestamp: '2024-03-16T02:00:00.000Z',
+      location: 'Unknown location',
+      status: 'automatic',
+    });
+    expect(errors).toEqual([
+      { row: 2, message: 'Latitude must be between -90 and 90' },
+    ]);
+  });
+
+  it('rejects text that is not XML', () => {
+    expect(() => parseQuakeML('<quakeml><event>')).toThrow(
+      'Not a valid QuakeML document'
+    );
+  });
+});
+
+describe('readCatalogTable', () => {
+  it('splits FDSN text on pipes', () => {
+    const { header, rows } = readCatalogTable(FDSN_TEXT, 'fdsn-text');
+
+    expect(header[0]).toBe('EventID');
+    expect(header).toHaveLength(13);
+    expect(rows).toHaveLength(2);
+    expect(rows[1][12]).toBe('Los Angeles, CA');
+  });
+
+  it('skips comment lines before a CSV header', () => {
+    const { header, rows } = readCatalogTable(
+      '# exported\nlat,lon\n1, 2\n',
+      'csv'
+    );
+
+    expect(header).toEqual(['lat', 'lon']);
+    expect(rows).toEqual([['1', '2']]);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('maps the FDSN text header', () => {
+    const { header } = readCatalogTable(FDSN_TEXT, 'fdsn-text');
+
+    expect(guessColumnMapping(header)).toEqual({
+      id: 0,
+      time: 1,
+      latitude: 2,
+      longitude: 3,
+      depth: 4,
+      magnitude: 10,
+      location: 12,
+      magType: 9,
+      network: null,
+      status: null,
+    });
+  });
+
+  it('matches common spellings regardless of case', () => {
+    const mapping = guessColumnMapping([
+      'Origin Time',
+      'LAT',
+      'Lng',
+      'depth_km',
+      'Magnitude',
+    ]);
+
+    expect(mapping).toMatchObject({
+      time: 0,
+      latitude: 1,
+      longitude: 2,
+      depth: 3,
+      magnitude: 4,
+      id: null,
+    });
+    expect(getMissingFields(mapping)).toEqual([]);
+  });
+
+  it('reports required fields without a column', () => {
+    const mapping = guessColumnMapping(['when', 'y', 'x', 'depth', 'ml']);
+
+    expect(getMissingFields(mapping)).toEqual([
+      'time',
+      'latitude',
+      'longitude',
+      'magnitude',
+    ]);
+  });
+});
+
+describe('parseCatalogTable', () => {
+  it('reads FDSN text with a per-row error report', () => {
+    const table = readCatalogTable(FDSN_TEXT, 'fdsn-text');
+    const { earthquakes, errors } = parseCatalogTable(
+      table,
+      guessColumnMapping(table.header)
+    );
+
+    expect(earthquakes).toEqual([
+      {
+        id: 'us7000abcd',
+        longitude: -70.66,
+        latitude: -33.45,
+        depth: 35.5,
+        magnitude: 6.1,
+        timestamp: '2024-03-15T12:34:56.780Z',
+        location: '10 km SW of Example, Chile',
+        magType: 'mww',
+      },
+    ]);
+    expect(errors).toEqual([{ row: 2, message: 'Depth (km) is missing' }]);
+  });
+
+  it('uses a custom column mapping for plain CSV', () => {
+    const table = readCatalogTable(
+      'when,y,x,z,ml\n2024-01-01 06:00,35.1,139.2,12,3.4\n',
+      'csv'
+    );
+    const { earthquakes, errors } = parseCatalogTable(table, {
+      ...guessColumnMapping(table.header),
+      time: 0,
+      latitude: 1,
+      longitude: 2,
+      depth: 3,
+      magnitude: 4,
+    });
+
+    expect(errors).toEqual([]);
+    expect(earthquakes).toEqual([
+      {
+        id: 'imported-1',
+        longitude: 139.2,
+        latitude: 35.1,
+        depth: 12,
+        magnitude: 3.4,
+        timestamp: '2024-01-01T06:00:00.000Z',
+        location: 'Unknown location',
+      },
+    ]);
+  });
+
+  it('lists every problem with a row', () => {
+    const table = readCatalogTable(
+      'time,latitude,longitude,depth,mag\nsoon,abc,200,10,\n',
+      'csv'
+    );
+    const { errors } = parseCatalogTable(
+      table,
+      guessColumnMapping(table.header)
+    );
+
+    expect(errors).toEqual([
+      {
+        row: 1,
+        message:
+          'Time is not a valid date; Latitude is not a number; ' +
+          'Longitude must be between -180 and 180; Magnitude is missing',
+      },
+    ]);
+  });
+
+  it('reads back our own CSV exports', () => {
+    const exported: Earthquake[] = [
+      {
+        id: 'us1',
+        longitude: 142.37,
+        latitude: 38.3,
+        depth: 29,
+        magnitude: 9.1,
+        timestamp: '2011-03-11T05:46:24.120Z',
+        location: 'near the east coast of Honshu, Japan',
+        magType: 'mww',
+        network: 'us',
+        status: 'reviewed',
+      },
+    ];
+    const csv = earthquakesToCSV(exported, {
+      exportedAt: '2024-01-01T00:00:00.000Z',
+      source: null,
+      filters: [],
+    });
+    const table = readCatalogTable(csv, 'csv');
+
+    expect(parseCatalogTable(table, guessColumnMapping(table.header))).toEqual({
+      earthquakes: exported,
+      errors: [],
+    });
+  });
+});
@@ -0,0 +1,315 @@
+import { z } from 'zod';
+import type { Earthquake } from '../types/earthquake';
+import {
+  CATALOG_FIELDS,
+  type CatalogField,
+  type CatalogFormat,
+  type ColumnMapping,
+  type ImportRowError,
+} from '../types/catalogImport';
+import { parseCSV } from './csv';
+
+export interface CatalogTable {
+  header: string[];
+  rows: string[][];
+}
+
+export interface CatalogParseResult {
+  earthquakes: Earthquake[];
+  /** Rows or events that failed validation, in file order */
+  errors: ImportRowError[];
+}
+
+/** Raw text values of one catalog row, before validation */
+type CatalogRow = Record<CatalogField, string>;
+
+// Header spellings for each field, compared ignoring case and punctuation.
+// Covers the USGS CSV and FDSN text headers plus common alternatives.
+const COLUMN_ALIASES: Record<CatalogField, string[]> = {
+  id: ['id', 'eventid', 'event'],
+  time: ['time', 'origintime', 'datetime', 'timestamp', 'date'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lon', 'lng', 'long'],
+  depth: ['depth', 'depthkm'],
+  magnitude: ['mag', 'magnitude'],
+  location: ['place', 'location', 'eventlocationname', 'region'],
+  magType: ['magtype'],
+  network: ['net', 'network'],
+  status: ['status', 'reviewstatus'],
+};
+
+function normalizeHeader(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Parse catalog times as UTC. FDSN services and many spreadsheets write
+ * times without a zone, which `Date.parse` would read as local time.
+ */
+export function parseCatalogTime(value: string): number {
+  let text = value.trim().replace(/^(\d{4}-\d{2}-\d{2})[ T]/, '$1T');
+  if (text.includes('T') && !/(Z|[+-]\d{2}:?\d{2})$/i.test(text)) {
+    text += 'Z';
+  }
+  return Date.parse(text);
+}
+
+const requiredNumber = z
+  .string()
+  .trim()
+  .min(1, 'is missing')
+  .pipe(z.coerce.number({ error: 'is not a number' }));
+
+const optionalText = z
+  .string()
+  .trim()
+  .transform((value) => value || undefined);
+
+// Validates the text of one row and converts it to Earthquake values
+const CatalogRowSchema = z.object({
+  id: z.string().trim().min(1, 'is missing'),
+  time: z
+    .string()
+    .trim()
+    .min(1, 'is missing')
+    .transform((value, ctx) => {
+      const time = parseCatalogTime(value);
+      if (Number.isNaN(time)) {
+        ctx.addIssue({ code: 'custom', message: 'is not a valid date' });
+        return z.NEVER;
+      }
+      return new Date(time).toISOString();
+    }),
+  latitude: requiredNumber.pipe(
+    z
+      .number()
+      .min(-90, 'must be between -90 and 90')
+      .max(90, 'must be between -90 and 90')
+  ),
+  longitude: requiredNumber.pipe(
+    z
+      .number()
+      .min(-180, 'must be between -180 and 180')
+      .max(180, 'must be between -180 and 180')
+  ),
+  depth: requiredNumber,
+  magnitude: requiredNumber,
+  location: optionalText,
+  magType: optionalText,
+  network: optionalText,
+  status: optionalText,
+});
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => {
+      const field = issue.path[0];
+      const label =
+        CATALOG_FIELDS.find((info) => info.field === field)?.label ?? field;
+      return `${String(label)} ${issue.message}`;
+    })
+    .join('; ');
+}
+
+/**
+ * Validate raw rows, keeping the valid ones as earthquakes and reporting
+ * the rest. Rows without an id get one from their row number.
+ */
+function validateRows(rows: CatalogRow[]): CatalogParseResult {
+  const earthquakes: Earthquake[] = [];
+  const errors: ImportRowError[] = [];
+
+  rows.forEach((raw, index) => {
+    const row = index + 1;
+    const result = CatalogRowSchema.safeParse({
+      ...raw,
+      id: raw.id.trim() || `imported-${row}`,
+    });
+
+    if (!result.success) {
+      errors.push({ row, message: describeIssues(result.error) });
+      return;
+    }
+
+    const { time, location, ...rest } = result.data;
+    earthquakes.push({
+      ...rest,
+      timestamp: time,
+      location: location ?? 'Unknown location',
+    });
+  });
+
+  return { earthquakes, errors };
+}
+
+/**
+ * Guess the catalog format from the file name and its first characters.
+ */
+export function detectCatalogFormat(
+  text: string,
+  filename: string = ''
+): CatalogFormat {
+  const start = text.trimStart();
+  if (/\.(xml|quakeml)$/i.test(filename) || start.startsWith('<')) {
+    return 'quakeml';
+  }
+
+  const firstLine = start.split('\n', 1)[0];
+  return firstLine.includes('|') ? 'fdsn-text' : 'csv';
+}
+
+/**
+ * Split a delimited catalog into its header and data rows. FDSN text is
+ * pipe-separated with a "#" header line; CSV may have "#" comment lines
+ * before the header, as in our own exports.
+ */
+export function readCatalogTable(
+  text: string,
+  format: Exclude<CatalogFormat, 'quakeml'>
+): CatalogTable {
+  let table: string[][];
+
+  if (format === 'fdsn-text') {
+    table = text
+      .split(/\r?\n/)
+      .filter((line) => line.trim() !== '')
+      .map((line) => line.replace(/^#/, '').split('|'));
+  } else {
+    table = parseCSV(text, { comment: '#' });
+  }
+
+  const [header = [], ...rows] = table.map((row) =>
+    row.map((value) => value.trim())
+  );
+  return { header, rows };
+}
+
+/**
+ * Match header names to earthquake fields by common spellings.
+ */
+export function guessColumnMapping(header: string[]): ColumnMapping {
+  const normalized = header.map(normalizeHeader);
+
+  return Object.fromEntries(
+    CATALOG_FIELDS.map(({ field }) => {
+      const index = normalized.findIndex((name) =>
+        COLUMN_ALIASES[field].includes(name)
+      );
+      return [field, index === -1 ? null : index];
+    })
+  ) as ColumnMapping;
+}
+
+/**
+ * Required fields the mapping does not assign to a column.
+ */
+export function getMissingFields(mapping: ColumnMapping): CatalogField[] {
+  return CATALOG_FIELDS.filter(
+    ({ field, required }) => required && mapping[field] === null
+  ).map(({ field }) => field);
+}
+
+/**
+ * Read earthquakes from a delimited catalog using a column mapping.
+ */
+export function parseCatalogTable(
+  { rows }: CatalogTable,
+  mapping: ColumnMapping
+): CatalogParseResult {
+  return validateRows(
+    rows.map(
+      (row) =>
+        Object.fromEntries(
+          CATALOG_FIELDS.map(({ field }) => {
+            const index = mapping[field];
+            return [field, index === null ? '' : (row[index] ?? '')];
+          })
+        ) as CatalogRow
+    )
+  );
+}
+
+// QuakeML elements are namespaced; match them by local name
+function getChild(element: Element | undefined, name: string) {
+  return element
+    ? [...element.children].find((child) => child.localName === name)
+    : undefined;
+}
+
+function getText(element: Element | undefined, ...path: string[]): string {
+  const target = path.reduce(getChild, element);
+  return target?.textContent?.trim() ?? '';
+}
+
+// The preferred origin or magnitude, falling back to the first one
+function getPreferred(event: Element, name: string, preferredId: string) {
+  const candidates = [...event.children].filter(
+    (child) => child.localName === name
+  );
+  return (
+    candidates.find(
+      (child) => child.getAttribute('publicID') === preferredId
+    ) ?? candidates[0]
+  );
+}
+
+// e.g. "quakeml:us.anss.org/event/us7000abcd" or "smi:...?eventid=123"
+function getEventId(publicId: string): string {
+  return publicId.split(/[/=]/).pop() ?? '';
+}
+
+const EVALUATION_STATUS: Record<string, string> = {
+  manual: 'reviewed',
+  automatic: 'automatic',
+};
+
+function readQuakeMLEvent(event: Element): CatalogRow {
+  const origin = getPreferred(
+    event,
+    'origin',
+    getText(event, 'preferredOriginID')
+  );
+  const magnitude = getPreferred(
+    event,
+    'magnitude',
+    getText(event, 'preferredMagnitudeID')
+  );
+
+  // QuakeML depths are in meters
+  const depthMeters = getText(origin, 'depth', 'value');
+  const depthKm = Number(depthMeters) / 1000;
+  const evaluationMode = getText(origin, 'evaluationMode');
+
+  return {
+    id: getEventId(event.getAttribute('publicID') ?? ''),
+    time: getText(origin, 'time', 'value'),
+    latitude: getText(origin, 'latitude', 'value'),
+    longitude: getText(origin, 'longitude', 'value'),
+    depth:
+      depthMeters && !Number.isNaN(depthKm) ? String(depthKm) : depthMeters,
+    magnitude: getText(magnitude, 'mag', 'value'),
+    location: getText(event, 'description', 'text'),
+    magType: getText(magnitude, 'type'),
+    network:
+      getText(event, 'creationInfo', 'agencyID') ||
+      getText(origin, 'creationInfo', 'agencyID'),
+    status: EVALUATION_STATUS[evaluationMode] ?? evaluationMode,
+  };
+}
+
+/**
+ * Read earthquakes from a QuakeML 1.2 document, one per event, using each
+ * event's preferred origin and magnitude.
+ * @throws Error when the text is not an XML document
+ */
+export function parseQuakeML(text: string): CatalogParseResult {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Not a valid QuakeML document');
+  }
+
+  const events = [...doc.getElementsByTagName('*')].filter(
+    (element) => element.localName === 'event'
+  );
+  return validateRows(events.map(readQuakeMLEvent));
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCrossSection,
+  getLineLengthKm,
+  getSwathRing,
+  projectOntoLine,
+} from './crossSection';
+import type { CrossSectionLine } from '../types/crossSection';
+import { createEarthquake } from '../test/earthquakeFixture';
+
+// Along the equator, where one degree is ~111.2 km
+const line: CrossSectionLine = { start: [0, 0], end: [2, 0] };
+const KM_PER_DEGREE = 111.195;
+
+describe('getLineLengthKm', () => {
+  it('measures the great-circle length of the line', () => {
+    expect(getLineLengthKm(line)).toBeCloseTo(2 * KM_PER_DEGREE, 1);
+  });
+});
+
+describe('projectOntoLine', () => {
+  it('measures distance along the line and offset from it', () => {
+    const { distanceKm, offsetKm } = projectOntoLine([1, 0.2], line);
+
+    expect(distanceKm).toBeCloseTo(KM_PER_DEGREE, 0);
+    expect(Math.abs(offsetKm)).toBeCloseTo(0.2 * KM_PER_DEGREE, 0);
+  });
+
+  it('signs the offset by side of the line', () => {
+    // Heading east, north is on the left
+    expect(projectOntoLine([1, 0.2], line).offsetKm).toBeLessThan(0);
+    expect(projectOntoLine([1, -0.2], line).offsetKm).toBeGreaterThan(0);
+  });
+
+  it('gives negative distances behind the start', () => {
+    expect(projectOntoLine([-0.5, 0], line).distanceKm).toBeCloseTo(
+      -0.5 * KM_PER_DEGREE,
+      0
+    );
+  });
+
+  it('puts points on the line at zero offset', () => {
+    expect(projectOntoLine([1.5, 0], line).offsetKm).toBeCloseTo(0, 6);
+  });
+});
+
+describe('getCrossSection', () => {
+  const earthquakes = [
+    createEarthquake('far-end', { longitude: 1.8, latitude: 0.1, depth: 300 }),
+    createEarthquake('near-start', {
+      longitude: 0.2,
+      latitude: -0.1,
+      depth: 20,
+    }),
+    createEarthquake('outside-swath', { longitude: 1, latitude: 1 }),
+    createEarthquake('behind-start', { longitude: -0.3, latitude: 0 }),
+    createEarthquake('past-end', { longitude: 2.3, latitude: 0 }),
+    createEarthquake('invalid', { longitude: 200, latitude: 0 }),
+  ];
+
+  it('keeps events within the swath ordered along the line', () => {
+    const points = getCrossSection(earthquakes, line, 50);
+
+    expect(points.map((p) => p.earthquake.id)).toEqual([
+      'near-start',
+      'far-end',
+    ]);
+    expect(points[0].distanceKm).toBeCloseTo(0.2 * KM_PER_DEGREE, 0);
+    expect(points[1].earthquake.depth).toBe(300);
+  });
+
+  it('widens with the swath width', () => {
+    expect(getCrossSection(earthquakes, line, 10)).toHaveLength(0);
+    expect(getCrossSection(earthquakes, line, 250)).toHaveLength(3);
+  });
+});
+
+describe('getSwathRing', () => {
+  it('outlines the swath either side of the line', () => {
+    const ring = getSwathRing(line, 50, 4);
+
+    expect(ring).toHaveLength(10);
+    for (const [lon, lat] of ring) {
+      expect(lon).toBeGreaterThanOrEqual(-1e-9);
+      expect(lon).toBeLessThanOrEqual(2 + 1e-9);
+      expect(Math.abs(lat)).toBeCloseTo(25 / KM_PER_DEGREE, 3);
+    }
+  });
+
+  it('keeps every vertex half the width from the line', () => {
+    const diagonal: CrossSectionLine = { start: [140, 30], end: [145, 40] };
+
+    for (const point of getSwathRing(diagonal, 100)) {
+      expect(Math.abs(projectOntoLine(point, diagonal).offsetKm)).toBeCloseTo(
+        50,
+        3
+      );
+    }
+  });
+});
@@ -0,0 +1,114 @@
+import type { Earthquake } from '../types/earthquake';
+import type { CrossSectionLine } from '../types/crossSection';
+import type { LngLat } from '../types/spatialSelection';
+import {
+  destinationPoint,
+  EARTH_RADIUS_KM,
+  haversineDistanceKm,
+} from './haversine';
+import {
+  calculateBearing,
+  interpolateGreatCircle,
+  toRadians,
+} from './greatCircle';
+import { filterValidEarthquakes } from './validateCoordinates';
+
+export interface CrossSectionPoint {
+  earthquake: Earthquake;
+  /** Distance from the start of the line to the event's projection */
+  distanceKm: number;
+  /** Signed distance from the line; positive to the right of A → A′ */
+  offsetKm: number;
+}
+
+export function getLineLengthKm({ start, end }: CrossSectionLine): number {
+  return haversineDistanceKm(start[1], start[0], end[1], end[0]);
+}
+
+/**
+ * Along-track and cross-track distances of a point relative to the great
+ * circle through the line
+ */
+export function projectOntoLine(
+  [longitude, latitude]: LngLat,
+  { start, end }: CrossSectionLine
+): { distanceKm: number; offsetKm: number } {
+  const δ13 =
+    haversineDistanceKm(start[1], start[0], latitude, longitude) /
+    EARTH_RADIUS_KM;
+  const Δθ = toRadians(
+    calculateBearing(start[1], start[0], latitude, longitude) -
+      calculateBearing(start[1], start[0], end[1], end[0])
+  );
+
+  const δxt = Math.asin(Math.sin(δ13) * Math.sin(Δθ));
+  const cosRatio = Math.cos(δ13) / Math.cos(δxt);
+  const δat =
+    Math.acos(Math.max(-1, Math.min(1, cosRatio))) * Math.sign(Math.cos(Δθ));
+
+  return {
+    distanceKm: δat * EARTH_RADIUS_KM,
+    offsetKm: δxt * EARTH_RADIUS_KM,
+  };
+}
+
+/**
+ * Events within the swath, half of `widthKm` either side of the line and
+ * between its ends, ordered from A to A′
+ */
+export function getCrossSection(
+  earthquakes: Earthquake[],
+  line: CrossSectionLine,
+  widthKm: number
+): CrossSectionPoint[] {
+  const lengthKm = getLineLengthKm(line);
+  const halfWidth = widthKm / 2;
+
+  return filterValidEarthquakes(earthquakes)
+    .map((earthquake) => ({
+      earthquake,
+      ...projectOntoLine([earthquake.longitude, earthquake.latitude], line),
+    }))
+    .filter(
+      ({ distanceKm, offsetKm }) =>
+        distanceKm >= 0 &&
+        distanceKm <= lengthKm &&
+        Math.abs(offsetKm) <= halfWidth
+    )
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+}
+
+/**
+ * Outline of the swath, following the line's great circle so long
+ * profiles stay the same width along their length
+ */
+export function getSwathRing(
+  line: CrossSectionLine,
+  widthKm: number,
+  steps = 16
+): LngLat[] {
+  const { start, end } = line;
+  const left: LngLat[] = [];
+  const right: LngLat[] = [];
+
+  for (let i = 0; i <= steps; i++) {
+    const [lon, lat] = interpolateGreatCircle(
+      start[1],
+      start[0],
+      end[1],
+      end[0],
+      i / steps
+    );
+    // Heading along the line at this point; reversed from the far side
+    // at the end so it stays defined there
+    const heading =
+      i < steps
+        ? calculateBearing(lat, lon, end[1], end[0])
+        : (calculateBearing(lat, lon, start[1], start[0]) + 180) % 360;
+
+    left.push(destinationPoint(lat, lon, heading - 90, widthKm / 2));
+    right.push(destinationPoint(lat, lon, heading + 90, widthKm / 2));
+  }
+
+  return [...left, ...right.reverse()];
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { formatCSVField, formatCSVRow, parseCSV } from './csv';
+
+describe('formatCSVField', () => {
+  it('leaves plain values unquoted', () => {
+    expect(formatCSVField('us7000abcd')).toBe('us7000abcd');
+    expect(formatCSVField(4.5)).toBe('4.5');
+  });
+
+  it('writes undefined as an empty field', () => {
+    expect(formatCSVField(undefined)).toBe('');
+  });
+
+  it('quotes delimiters, quotes and line breaks', () => {
+    expect(formatCSVField('10 km SW of Ridgecrest, CA')).toBe(
+      '"10 km SW of Ridgecrest, CA"'
+    );
+    expect(formatCSVField('the "Big One"')).toBe('"the ""Big One"""');
+    expect(formatCSVField('a\nb')).toBe('"a\nb"');
+  });
+});
+
+describe('parseCSV', () => {
+  it('splits rows and fields', () => {
+    expect(parseCSV('a,b\n1,2\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('handles CRLF line endings and a missing final newline', () => {
+    expect(parseCSV('a,b\r\n1,2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCSV('a,,c\n,,\n')).toEqual([
+      ['a', '', 'c'],
+      ['', '', ''],
+    ]);
+  });
+
+  it('reads quoted fields', () => {
+    expect(parseCSV('"a, b","say ""hi""","line\nbreak"')).toEqual([
+      ['a, b', 'say "hi"', 'line\nbreak'],
+    ]);
+  });
+
+  it('skips blank lines', () => {
+    expect(parseCSV('a\n\n\nb\n')).toEqual([['a'], ['b']]);
+  });
+
+  it('skips comment lines when asked', () => {
+    const text = '# Exported today\n# Filters: none\na,b\n1,#2\n';
+    expect(parseCSV(text, { comment: '#' })).toEqual([
+      ['a', 'b'],
+      ['1', '#2'],
+    ]);
+    expect(parseCSV(text)).toHaveLength(4);
+  });
+
+  it('round-trips formatted rows', () => {
+    const rows = [
+      ['id', 'place', 'note'],
+      ['us1', 'Off the coast, Chile', 'quoted "text"\nwith a break'],
+      ['us2', '', '42'],
+    ];
+    const text = rows.map(formatCSVRow).join('\n');
+
+    expect(parseCSV(text)).toEqual(rows);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing
+ */
+
+/**
+ * Quote a field when it contains a delimiter, quote or line break.
+ */
+export function formatCSVField(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCSVRow(values: (string | number | undefined)[]): string {
+  return values.map(formatCSVField).join(',');
+}
+
+interface ParseCSVOptions {
+  /** Skip lines starting with this prefix, e.g. "#" for metadata headers */
+  comment?: string;
+}
+
+/**
+ * Split CSV text into rows of fields. Quoted fields may contain delimiters,
+ * doubled quotes and line breaks. Blank lines are skipped.
+ */
+export function parseCSV(
+  text: string,
+  { comment }: ParseCSVOptions = {}
+): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let atLineStart = true;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+    atLineStart = true;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (atLineStart && comment && text.startsWith(comment, i)) {
+      const lineEnd = text.indexOf('\n', i);
+      if (lineEnd === -1) break;
+      i = lineEnd;
+      continue;
+    }
+    atLineStart = false;
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  declusterEarthquakes,
+  gardnerKnopoffWindow,
+} from './declusterEarthquakes';
+import type { Earthquake } from '../types/earthquake';
+import { createEarthquake } from '../test/earthquakeFixture';
+import { DAY_MS, HOUR_MS } from './time';
+
+const START = Date.parse('2024-01-01T00:00:00Z');
+
+function quake(
+  id: string,
+  magnitude: number,
+  hoursAfterStart: number,
+  longitude = 142,
+  latitude = 38
+): Earthquake {
+  return createEarthquake(id, {
+    longitude,
+    latitude,
+    magnitude,
+    timestamp: new Date(START + hoursAfterStart * HOUR_MS).toISOString(),
+  });
+}
+
+describe('gardnerKnopoffWindow', () => {
+  it('follows the fitted windows for moderate events', () => {
+    // The fit gives M5 ≈ 40 km and ≈ 144 days (tabulated: 40 km, 155 days)
+    const window = gardnerKnopoffWindow(5);
+
+    expect(window.distanceKm).toBeCloseTo(40, -1);
+    expect(window.durationMs / DAY_MS).toBeCloseTo(144, 0);
+  });
+
+  it('grows with magnitude', () => {
+    const small = gardnerKnopoffWindow(3);
+    const large = gardnerKnopoffWindow(7);
+
+    expect(large.distanceKm).toBeGreaterThan(small.distanceKm);
+    expect(large.durationMs).toBeGreaterThan(small.durationMs);
+  });
+
+  it('switches to the slower time growth above M6.5', () => {
+    // M7 lasts roughly 2.5 years rather than the extrapolated ~10 years
+    expect(gardnerKnopoffWindow(7).durationMs / DAY_MS).toBeCloseTo(918, -1);
+  });
+});
+
+describe('declusterEarthquakes', () => {
+  // A M6.8 mainshock with three aftershocks, one foreshock, and two
+  // unrelated background events
+  const fixture: Earthquake[] = [
+    quake('foreshock', 4.5, -2),
+    quake('main', 6.8, 0),
+    quake('as1', 5.1, 1, 142.1, 38.1),
+    quake('as2', 4.2, 30, 141.9, 37.9),
+    quake('as3', 3.9, 24 * 20, 142.3, 38.2),
+    quake('far', 4.0, 5, -122.5, 37.5),
+    quake('distant-later', 3.0, 24 * 10, 150, 45),
+  ];
+
+  it('groups aftershocks under the mainshock', () => {
+    const { sequences } = declusterEarthquakes(fixture);
+
+    expect(sequences).toHaveLength(1);
+    expect(sequences[0].mainshock.id).toBe('main');
+    expect(sequences[0].aftershocks.map((eq) => eq.id)).toEqual([
+      'as1',
+      'as2',
+      'as3',
+    ]);
+  });
+
+  it('reports the sequence time span', () => {
+    const [sequence] = declusterEarthquakes(fixture).sequences;
+
+    expect(sequence.startTime).toBe(START);
+    expect(sequence.endTime).toBe(START + 20 * DAY_MS);
+    expect(sequence.durationMs).toBe(20 * DAY_MS);
+  });
+
+  it('leaves foreshocks and unrelated events in the background', () => {
+    const { background } = declusterEarthquakes(fixture);
+
+    expect(background.map((eq) => eq.id).sort()).toEqual([
+      'distant-later',
+      'far',
+      'foreshock',
+    ]);
+  });
+
+  it('indexes mainshocks and aftershocks by sequence', () => {
+    const { sequenceIndex } = declusterEarthquakes(fixture);
+
+    expect(sequenceIndex).toEqual({ main: 0, as1: 0, as2: 0, as3: 0 });
+  });
+
+  it('orders sequences by mainshock magnitude', () => {
+    const { sequences } = declusterEarthquakes([
+      quake('small-main', 5.0, 0, -122.5, 37.5),
+      quake('small-as', 3.0, 2, -122.5, 37.5),
+      quake('big-main', 7.0, 10),
+      quake('big-as', 5.0, 12),
+    ]);
+
+    expect(sequences.map((s) => s.mainshock.id)).toEqual([
+      'big-main',
+      'small-main',
+    ]);
+  });
+
+  it('does not let a smaller event claim a larger later one', () => {
+    const { sequences } = declusterEarthquakes([
+      quake('first', 4.0, 0),
+      quake('bigger', 6.0, 1),
+    ]);
+
+    // The M6 comes after the M4, so the M4 is a foreshock, not a mainshock
+    expect(sequences).toHaveLength(0);
+  });
+
+  it('assigns each aftershock to only one sequence', () => {
+    const { sequences } = declusterEarthquakes([
+      quake('main-a', 6.0, 0, 142, 38),
+      quake('main-b', 5.5, 0.5, 142.2, 38),
+      quake('shared', 3.0, 1, 142.1, 38),
+    ]);
+
+    // main-b falls inside main-a's window, so everything joins main-a
+    expect(sequences).toHaveLength(1);
+    expect(sequences[0].aftershocks.map((eq) => eq.id)).toEqual([
+      'main-b',
+      'shared',
+    ]);
+  });
+
+  it('accepts a custom window function', () => {
+    const { sequences } = declusterEarthquakes(fixture, () => ({
+      distanceKm: 5,
+      durationMs: HOUR_MS,
+    }));
+
+    expect(sequences).toEqual([]);
+  });
+
+  it('returns no sequences for an empty catalog', () => {
+    expect(declusterEarthquakes([])).toEqual({
+      sequences: [],
+      sequenceIndex: {},
+      background: [],
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import type { Earthquake } from '../types/earthquake';
+import { haversineDistanceKm } from './haversine';
+import { DAY_MS } from './time';
+
+/** Space-time window around a mainshock that captures its aftershocks */
+export interface AftershockWindow {
+  distanceKm: number;
+  durationMs: number;
+}
+
+export interface EarthquakeSequence {
+  mainshock: Earthquake;
+  /** Aftershocks in time order */
+  aftershocks: Earthquake[];
+  /** Epoch ms of the mainshock */
+  startTime: number;
+  /** Epoch ms of the last aftershock */
+  endTime: number;
+  durationMs: number;
+}
+
+export interface DeclusterResult {
+  /** Sequences with at least one aftershock, largest mainshock first */
+  sequences: EarthquakeSequence[];
+  /** Index into `sequences` for every mainshock and aftershock id */
+  sequenceIndex: Record<string, number>;
+  /** Events that belong to no sequence */
+  background: Earthquake[];
+}
+
+/**
+ * Gardner & Knopoff (1974) aftershock window for a mainshock magnitude,
+ * using the widely used fit of their tabulated values.
+ */
+export function gardnerKnopoffWindow(magnitude: number): AftershockWindow {
+  const distanceKm = 10 ** (0.1238 * magnitude + 0.983);
+  const durationDays =
+    magnitude >= 6.5
+      ? 10 ** (0.032 * magnitude + 2.7389)
+      : 10 ** (0.5409 * magnitude - 0.547);
+
+  return { distanceKm, durationMs: durationDays * DAY_MS };
+}
+
+/**
+ * Index of the first event at or after `time` in a time-sorted list.
+ */
+function lowerBound(events: { time: number }[], time: number): number {
+  let low = 0;
+  let high = events.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (events[mid].time < time) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Group a catalog into mainshock–aftershock sequences with Gardner–Knopoff
+ * space-time windows. Events are visited from the largest magnitude down;
+ * each unclaimed event claims the smaller, still unclaimed events that follow
+ * it within its window. Foreshocks are left in the background.
+ */
+export function declusterEarthquakes(
+  earthquakes: Earthquake[],
+  getWindow: (magnitude: number) => AftershockWindow = gardnerKnopoffWindow
+): DeclusterResult {
+  const events = earthquakes.map((eq) => ({
+    eq,
+    time: new Date(eq.timestamp).getTime(),
+  }));
+  const byTime = [...events].sort((a, b) => a.time - b.time);
+  // Larger first; the earlier of two equal events is the mainshock
+  const byMagnitude = [...events].sort(
+    (a, b) => b.eq.magnitude - a.eq.magnitude || a.time - b.time
+  );
+
+  const sequences: EarthquakeSequence[] = [];
+  const sequenceIndex: Record<string, number> = {};
+
+  for (const main of byMagnitude) {
+    if (main.eq.id in sequenceIndex) continue;
+
+    const { distanceKm, durationMs } = getWindow(main.eq.magnitude);
+    const endOfWindow = main.time + durationMs;
+    const aftershocks: Earthquake[] = [];
+    let endTime = main.time;
+
+    for (
+      let i = lowerBound(byTime, main.time);
+      i < byTime.length && byTime[i].time <= endOfWindow;
+      i++
+    ) {
+      const { eq, time } = byTime[i];
+      if (
+        eq === main.eq ||
+        eq.id in sequenceIndex ||
+        eq.magnitude > main.eq.magnitude
+      ) {
+        continue;
+      }
+      const distance = haversineDistanceKm(
+        main.eq.latitude,
+        main.eq.longitude,
+        eq.latitude,
+        eq.longitude
+      );
+      if (distance <= distanceKm) {
+        aftershocks.push(eq);
+        endTime = time;
+      }
+    }
+
+    if (aftershocks.length === 0) continue;
+
+    const index = sequences.length;
+    sequenceIndex[main.eq.id] = index;
+    aftershocks.forEach((eq) => {
+      sequenceIndex[eq.id] = index;
+    });
+    sequences.push({
+      mainshock: main.eq,
+      aftershocks,
+      startTime: main.time,
+      endTime,
+      durationMs: endTime - main.time,
+    });
+  }
+
+  const background = earthquakes.filter((eq) => !(eq.id in sequenceIndex));
+
+  return { sequences, sequenceIndex, background };
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { downloadFile } from './downloadFile';
+
+describe('downloadFile', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('clicks a temporary link to the content and releases it', async () => {
+    const createObjectURL = vi.fn<(blob: Blob) => string>(() => 'blob:test');
+    const revokeObjectURL = vi.fn();
+    vi.stubGlobal('URL', { ...URL, createObjectURL, revokeObjectURL });
+    const click = vi
+      .spyOn(HTMLAnchorElement.prototype, 'click')
+      .mockImplementation(function (this: HTMLAnchorElement) {
+        expect(this.href).toBe('blob:test');
+        expect(this.download).toBe('shape.geojson');
+      });
+
+    downloadFile('{"type":"Feature"}', 'shape.geojson', 'application/geo+json');
+
+    expect(click).toHaveBeenCalledTimes(1);
+    const blob = createObjectURL.mock.calls[0][0];
+    expect(blob.type).toBe('application/geo+json');
+    expect(await blob.text()).toBe('{"type":"Feature"}');
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:test');
+    expect(document.querySelector('a[download]')).toBeNull();
+
+    vi.unstubAllGlobals();
+  });
+});
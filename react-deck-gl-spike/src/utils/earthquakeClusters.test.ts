@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CLUSTER_MAX_ZOOM,
+  createClusterIndex,
+  getClusterExpansionZoom,
+  getClusters,
+  isEarthquakeCluster,
+} from './earthquakeClusters';
+import { createEarthquake } from '../test/earthquakeFixture';
+
+describe('earthquake clusters', () => {
+  // Three events close together off Japan and one in Chile
+  const earthquakes = [
+    createEarthquake('japan-1', {
+      longitude: 142.0,
+      latitude: 38.0,
+      magnitude: 5.2,
+    }),
+    createEarthquake('japan-2', {
+      longitude: 142.1,
+      latitude: 38.1,
+      magnitude: 7.1,
+    }),
+    createEarthquake('japan-3', {
+      longitude: 142.05,
+      latitude: 37.95,
+      magnitude: 4.0,
+    }),
+    createEarthquake('chile', {
+      longitude: -71,
+      latitude: -33,
+      magnitude: 6.0,
+    }),
+  ];
+
+  it('groups nearby events at low zoom', () => {
+    const index = createClusterIndex(earthquakes);
+    const { clusters, earthquakes: lone } = getClusters(index, 2);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].count).toBe(3);
+    expect(clusters[0].longitude).toBeCloseTo(142.05, 1);
+    expect(clusters[0].latitude).toBeCloseTo(38.0, 1);
+    expect(lone.map((eq) => eq.id)).toEqual(['chile']);
+  });
+
+  it('keeps the largest magnitude in each cluster', () => {
+    const index = createClusterIndex(earthquakes);
+    const { clusters } = getClusters(index, 2);
+
+    expect(clusters[0].maxMagnitude).toBe(7.1);
+  });
+
+  it('draws every event individually when zoomed in', () => {
+    const index = createClusterIndex(earthquakes);
+    const { clusters, earthquakes: lone } = getClusters(
+      index,
+      CLUSTER_MAX_ZOOM + 1
+    );
+
+    expect(clusters).toHaveLength(0);
+    expect(lone).toHaveLength(4);
+    // Lone events are the original objects
+    expect(lone).toContain(earthquakes[0]);
+  });
+
+  it('rounds fractional zooms down', () => {
+    const index = createClusterIndex(earthquakes);
+    expect(getClusters(index, 2.9)).toEqual(getClusters(index, 2));
+  });
+
+  it('skips events with invalid coordinates', () => {
+    const index = createClusterIndex([
+      ...earthquakes,
+      createEarthquake('invalid', { longitude: 200, latitude: 0 }),
+    ]);
+    const { clusters, earthquakes: lone } = getClusters(index, 0);
+    const total =
+      clusters.reduce((sum, cluster) => sum + cluster.count, 0) + lone.length;
+
+    expect(total).toBe(4);
+  });
+
+  it('zooms in far enough to split a cluster', () => {
+    const index = createClusterIndex(earthquakes);
+    const [cluster] = getClusters(index, 2).clusters;
+    const expansionZoom = getClusterExpansionZoom(index, cluster);
+
+    expect(expansionZoom).toBeGreaterThan(2);
+    const expanded = getClusters(index, expansionZoom);
+    expect(expanded.clusters.every((c) => c.count < cluster.count)).toBe(true);
+  });
+
+  it('tells clusters from events', () => {
+    const index = createClusterIndex(earthquakes);
+    const { clusters, earthquakes: lone } = getClusters(index, 2);
+
+    expect(isEarthquakeCluster(clusters[0])).toBe(true);
+    expect(isEarthquakeCluster(lone[0])).toBe(false);
+    expect(isEarthquakeCluster(null)).toBe(false);
+  });
+});
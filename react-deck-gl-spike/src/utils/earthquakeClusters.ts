@@ -0,0 +1,107 @@
+import Supercluster from 'supercluster';
+import type { Earthquake } from '../types/earthquake';
+import { filterValidEarthquakes } from './validateCoordinates';
+
+interface ClusterProperties {
+  maxMagnitude: number;
+}
+
+export type EarthquakeClusterIndex = Supercluster<
+  Earthquake,
+  ClusterProperties
+>;
+
+export interface EarthquakeCluster {
+  clusterId: number;
+  longitude: number;
+  latitude: number;
+  count: number;
+  maxMagnitude: number;
+}
+
+export interface ClusteredEarthquakes {
+  clusters: EarthquakeCluster[];
+  /** Events far enough from others to be drawn individually */
+  earthquakes: Earthquake[];
+}
+
+// Cluster radius in pixels at each zoom level
+export const CLUSTER_RADIUS = 60;
+
+// Above this zoom every event is drawn individually
+export const CLUSTER_MAX_ZOOM = 14;
+
+const WORLD_BBOX: [number, number, number, number] = [-180, -90, 180, 90];
+
+/**
+ * Build a hierarchical cluster index over the events, one level per zoom.
+ * Each cluster keeps the largest magnitude among its events.
+ */
+export function createClusterIndex(
+  earthquakes: Earthquake[]
+): EarthquakeClusterIndex {
+  const index: EarthquakeClusterIndex = new Supercluster({
+    radius: CLUSTER_RADIUS,
+    maxZoom: CLUSTER_MAX_ZOOM,
+    map: (eq) => ({ maxMagnitude: eq.magnitude }),
+    reduce: (accumulated, props) => {
+      accumulated.maxMagnitude = Math.max(
+        accumulated.maxMagnitude,
+        props.maxMagnitude
+      );
+    },
+  });
+
+  return index.load(
+    filterValidEarthquakes(earthquakes).map((eq) => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [eq.longitude, eq.latitude] },
+      properties: eq,
+    }))
+  );
+}
+
+/**
+ * Clusters and lone events worldwide at a zoom level. The index only has
+ * whole zoom levels, so fractional zooms round down.
+ */
+export function getClusters(
+  index: EarthquakeClusterIndex,
+  zoom: number
+): ClusteredEarthquakes {
+  const clusters: EarthquakeCluster[] = [];
+  const earthquakes: Earthquake[] = [];
+
+  for (const feature of index.getClusters(WORLD_BBOX, Math.floor(zoom))) {
+    const [longitude, latitude] = feature.geometry.coordinates;
+    if ('cluster' in feature.properties && feature.properties.cluster) {
+      clusters.push({
+        clusterId: feature.properties.cluster_id,
+        longitude,
+        latitude,
+        count: feature.properties.point_count,
+        maxMagnitude: feature.properties.maxMagnitude,
+      });
+    } else {
+      earthquakes.push(feature.properties as Earthquake);
+    }
+  }
+
+  return { clusters, earthquakes };
+}
+
+/**
+ * Zoom level at which a cluster splits into smaller clusters or events.
+ */
+export function getClusterExpansionZoom(
+  index: EarthquakeClusterIndex,
+  cluster: EarthquakeCluster
+): number {
+  return index.getClusterExpansionZoom(cluster.clusterId);
+}
+
+export function isEarthquakeCluster(
+  object: unknown
+): object is EarthquakeCluster {
+  return typeof object === 'object' && object !== null && 'clusterId' in object;
+}
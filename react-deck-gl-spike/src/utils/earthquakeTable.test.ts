@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTableRows,
+  getScrollTopForRow,
+  getVisibleRange,
+  searchRows,
+  sortRows,
+} from './earthquakeTable';
+import { createEarthquake } from '../test/earthquakeFixture';
+
+const earthquakes = [
+  createEarthquake('old-big', {
+    magnitude: 7.1,
+    depth: 30,
+    timestamp: '2024-01-01T00:00:00Z',
+    location: '80 km S of Nikolski, Alaska',
+    longitude: 2,
+  }),
+  createEarthquake('new-small', {
+    magnitude: 2.3,
+    depth: 5,
+    timestamp: '2024-01-03T00:00:00Z',
+    location: '5 km NW of The Geysers, CA',
+    longitude: 1,
+  }),
+  createEarthquake('middle', {
+    magnitude: 4.5,
+    depth: 120,
+    timestamp: '2024-01-02T00:00:00Z',
+    location: 'Fiji region',
+    longitude: 3,
+  }),
+];
+
+describe('buildTableRows', () => {
+  it('adds the event time and distance from the center', () => {
+    const [row] = buildTableRows(earthquakes, [0, 0]);
+
+    expect(row.time).toBe(Date.parse('2024-01-01T00:00:00Z'));
+    // Two degrees along the equator
+    expect(row.distanceKm).toBeCloseTo(222.4, 0);
+  });
+});
+
+describe('searchRows', () => {
+  const rows = buildTableRows(earthquakes, [0, 0]);
+
+  it('matches locations ignoring case', () => {
+    expect(searchRows(rows, 'alaska').map((r) => r.earthquake.id)).toEqual([
+      'old-big',
+    ]);
+  });
+
+  it('requires every word to match', () => {
+    expect(searchRows(rows, 'geysers ca')).toHaveLength(1);
+    expect(searchRows(rows, 'geysers alaska')).toHaveLength(0);
+  });
+
+  it('returns every row for a blank query', () => {
+    expect(searchRows(rows, '  ')).toBe(rows);
+  });
+});
+
+describe('sortRows', () => {
+  const rows = buildTableRows(earthquakes, [0, 0]);
+  const ids = (sorted: typeof rows) => sorted.map((r) => r.earthquake.id);
+
+  it('sorts by time', () => {
+    expect(ids(sortRows(rows, { column: 'time', direction: 'desc' }))).toEqual([
+      'new-small',
+      'middle',
+      'old-big',
+    ]);
+  });
+
+  it('finds the biggest event first', () => {
+    expect(
+      ids(sortRows(rows, { column: 'magnitude', direction: 'desc' }))[0]
+    ).toBe('old-big');
+  });
+
+  it('sorts by depth, location and distance', () => {
+    expect(ids(sortRows(rows, { column: 'depth', direction: 'asc' }))).toEqual([
+      'new-small',
+      'old-big',
+      'middle',
+    ]);
+    expect(
+      ids(sortRows(rows, { column: 'location', direction: 'asc' }))
+    ).toEqual(['new-small', 'old-big', 'middle']);
+    expect(
+      ids(sortRows(rows, { column: 'distance', direction: 'asc' }))
+    ).toEqual(['new-small', 'old-big', 'middle']);
+  });
+
+  it('breaks ties newest first', () => {
+    const tied = buildTableRows(
+      [
+        createEarthquake('a', { timestamp: '2024-01-01T00:00:00Z' }),
+        createEarthquake('b', { timestamp: '2024-01-02T00:00:00Z' }),
+      ],
+      [0, 0]
+    );
+    expect(
+      ids(sortRows(tied, { column: 'magnitude', direction: 'asc' }))
+    ).toEqual(['b', 'a']);
+  });
+
+  it('leaves the input untouched', () => {
+    sortRows(rows, { column: 'magnitude', direction: 'asc' });
+    expect(ids(rows)).toEqual(['old-big', 'new-small', 'middle']);
+  });
+});
+
+describe('getVisibleRange', () => {
+  it('covers the viewport plus overscan', () => {
+    expect(getVisibleRange(280, 280, 28, 10_000, 5)).toEqual({
+      start: 5,
+      end: 25,
+    });
+  });
+
+  it('clamps to the rows available', () => {
+    expect(getVisibleRange(0, 280, 28, 4, 5)).toEqual({ start: 0, end: 4 });
+  });
+});
+
+describe('getScrollTopForRow', () => {
+  it('leaves visible rows alone', () => {
+    expect(getScrollTopForRow(3, 0, 280, 28)).toBeNull();
+  });
+
+  it('scrolls up to rows above the viewport', () => {
+    expect(getScrollTopForRow(2, 280, 280, 28)).toBe(56);
+  });
+
+  it('scrolls down just enough for rows below the viewport', () => {
+    expect(getScrollTopForRow(20, 0, 280, 28)).toBe(308);
+  });
+});
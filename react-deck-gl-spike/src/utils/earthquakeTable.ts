@@ -0,0 +1,124 @@
+import type { Earthquake } from '../types/earthquake';
+import type {
+  EarthquakeTableColumn,
+  EarthquakeTableSort,
+} from '../types/earthquakeTable';
+import type { LngLat } from '../types/spatialSelection';
+import { haversineDistanceKm } from './haversine';
+
+export interface EarthquakeTableRow {
+  earthquake: Earthquake;
+  /** Epoch ms, parsed once for sorting */
+  time: number;
+  /** Great-circle distance from the map center */
+  distanceKm: number;
+}
+
+export interface VisibleRange {
+  /** First rendered row */
+  start: number;
+  /** One past the last rendered row */
+  end: number;
+}
+
+export function buildTableRows(
+  earthquakes: Earthquake[],
+  [longitude, latitude]: LngLat
+): EarthquakeTableRow[] {
+  return earthquakes.map((earthquake) => ({
+    earthquake,
+    time: new Date(earthquake.timestamp).getTime(),
+    distanceKm: haversineDistanceKm(
+      latitude,
+      longitude,
+      earthquake.latitude,
+      earthquake.longitude
+    ),
+  }));
+}
+
+/**
+ * Rows whose location contains every word of the query, ignoring case.
+ */
+export function searchRows(
+  rows: EarthquakeTableRow[],
+  query: string
+): EarthquakeTableRow[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return rows;
+
+  return rows.filter((row) => {
+    const location = row.earthquake.location.toLowerCase();
+    return words.every((word) => location.includes(word));
+  });
+}
+
+function compareRows(
+  a: EarthquakeTableRow,
+  b: EarthquakeTableRow,
+  column: EarthquakeTableColumn
+): number {
+  switch (column) {
+    case 'magnitude':
+      return a.earthquake.magnitude - b.earthquake.magnitude;
+    case 'depth':
+      return a.earthquake.depth - b.earthquake.depth;
+    case 'location':
+      return a.earthquake.location.localeCompare(b.earthquake.location);
+    case 'distance':
+      return a.distanceKm - b.distanceKm;
+    default:
+      return a.time - b.time;
+  }
+}
+
+/**
+ * Sorted copy of the rows. Ties fall back to newest first so the order is
+ * stable as the map center moves.
+ */
+export function sortRows(
+  rows: EarthquakeTableRow[],
+  { column, direction }: EarthquakeTableSort
+): EarthquakeTableRow[] {
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...rows].sort(
+    (a, b) => sign * compareRows(a, b, column) || b.time - a.time
+  );
+}
+
+/**
+ * Rows to render for a scroll position, with `overscan` extra rows on
+ * either side so fast scrolling doesn't show blank space.
+ */
+export function getVisibleRange(
+  scrollTop: number,
+  viewportHeight: number,
+  rowHeight: number,
+  rowCount: number,
+  overscan: number = 5
+): VisibleRange {
+  const first = Math.floor(scrollTop / rowHeight);
+  const visible = Math.ceil(viewportHeight / rowHeight);
+  return {
+    start: Math.max(0, first - overscan),
+    end: Math.min(rowCount, first + visible + overscan),
+  };
+}
+
+/**
+ * Scroll position that brings a row fully into view, or null when it is
+ * already visible.
+ */
+export function getScrollTopForRow(
+  index: number,
+  scrollTop: number,
+  viewportHeight: number,
+  rowHeight: number
+): number | null {
+  const top = index * rowHeight;
+  if (top < scrollTop) return top;
+  if (top + rowHeight > scrollTop + viewportHeight) {
+    return top + rowHeight - viewportHeight;
+  }
+  return null;
+}
@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CSV_COLUMNS,
+  earthquakesToCSV,
+  earthquakesToGeoJSON,
+  earthquakesToKML,
+  getExportFilename,
+  serializeEarthquakes,
+} from './exportEarthquakes';
+import { parseCSV } from './csv';
+import { transformGeoJSONFeature } from '../stores/earthquakeStore';
+import { GeoJSONResponseSchema, type Earthquake } from '../types/earthquake';
+import type { ExportMetadata } from '../types/earthquakeExport';
+
+const earthquakes: Earthquake[] = [
+  {
+    id: 'ci40000001',
+    longitude: -117.599,
+    latitude: 35.77,
+    depth: 8.2,
+    magnitude: 7.1,
+    timestamp: '2019-07-06T03:19:53.040Z',
+    location: '2 km SW of Searles Valley, CA',
+    felt: 33000,
+    tsunami: false,
+    alert: 'yellow',
+    magType: 'mw',
+    network: 'ci',
+    status: 'reviewed',
+    url: 'https://earthquake.usgs.gov/earthquakes/eventpage/ci40000001',
+  },
+  {
+    id: 'us7000test',
+    longitude: 142.37,
+    latitude: 38.3,
+    depth: 29,
+    magnitude: 4.3,
+    timestamp: '2024-01-01T00:00:00.000Z',
+    // Characters every format has to escape
+    location: 'Off "East" coast, Honshu <Japan> & more',
+    tsunami: true,
+  },
+];
+
+const metadata: ExportMetadata = {
+  exportedAt: '2024-01-15T12:30:00.000Z',
+  source:
+    'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_month.geojson',
+  filters: ['M 4.0–9.0', 'Area: 1 shape'],
+};
+
+// Read a CSV export row back into an event
+function fromCSVRow(header: string[], row: string[]): Earthquake {
+  const value = (column: string) => row[header.indexOf(column)] || undefined;
+  const tsunami = value('tsunami');
+  const felt = value('felt');
+
+  return {
+    id: value('id')!,
+    longitude: Number(value('longitude')),
+    latitude: Number(value('latitude')),
+    depth: Number(value('depth')),
+    magnitude: Number(value('mag')),
+    timestamp: value('time')!,
+    location: value('place')!,
+    felt: felt === undefined ? undefined : Number(felt),
+    tsunami: tsunami === undefined ? undefined : tsunami === '1',
+    alert: value('alert') as Earthquake['alert'],
+    magType: value('magType'),
+    network: value('net'),
+    status: value('status'),
+    url: value('url'),
+  };
+}
+
+// Read a KML export placemark back into an event
+function fromPlacemark(placemark: Element): Earthquake {
+  const data = Object.fromEntries(
+    [...placemark.querySelectorAll('Data')].map((element) => [
+      element.getAttribute('name')!,
+      element.querySelector('value')!.textContent!,
+    ])
+  );
+  const [longitude, latitude] = placemark
+    .querySelector('coordinates')!
+    .textContent!.split(',')
+    .map(Number);
+
+  return {
+    ...fromCSVRow(
+      [...CSV_COLUMNS],
+      CSV_COLUMNS.map((column) => data[column] ?? '')
+    ),
+    longitude,
+    latitude,
+    timestamp: placemark.querySelector('when')!.textContent!,
+  };
+}
+
+describe('earthquakesToCSV', () => {
+  it('records the export details in comment lines', () => {
+    const lines = earthquakesToCSV(earthquakes, metadata).split('\n');
+
+    expect(lines.slice(0, 5)).toEqual([
+      '# USGS earthquake export',
+      '# Exported: 2024-01-15T12:30:00.000Z',
+      `# Source: ${metadata.source}`,
+      '# Events: 2',
+      '# Filters: M 4.0–9.0; Area: 1 shape',
+    ]);
+    expect(lines[5]).toBe(CSV_COLUMNS.join(','));
+  });
+
+  it('notes when nothing is filtered', () => {
+    const csv = earthquakesToCSV([], {
+      ...metadata,
+      filters: [],
+      source: null,
+    });
+
+    expect(csv).toContain('# Source: unknown\n');
+    expect(csv).toContain('# Filters: none\n');
+  });
+
+  it('round-trips events', () => {
+    const [header, ...rows] = parseCSV(
+      earthquakesToCSV(earthquakes, metadata),
+      {
+        comment: '#',
+      }
+    );
+
+    expect(header).toEqual([...CSV_COLUMNS]);
+    expect(rows.map((row) => fromCSVRow(header, row))).toEqual(earthquakes);
+  });
+});
+
+describe('earthquakesToGeoJSON', () => {
+  it('records the export details in metadata', () => {
+    expect(earthquakesToGeoJSON(earthquakes, metadata).metadata).toEqual({
+      title: 'USGS earthquake export',
+      exportedAt: '2024-01-15T12:30:00.000Z',
+      source: metadata.source,
+      filters: ['M 4.0–9.0', 'Area: 1 shape'],
+      count: 2,
+    });
+  });
+
+  it('round-trips events through the USGS feed schema', () => {
+    const json = JSON.parse(
+      serializeEarthquakes('geojson', earthquakes, metadata)
+    );
+    const parsed = GeoJSONResponseSchema.parse(json);
+
+    expect(parsed.features.map(transformGeoJSONFeature)).toEqual(earthquakes);
+  });
+});
+
+describe('earthquakesToKML', () => {
+  function parseKML(kml: string) {
+    return new DOMParser().parseFromString(kml, 'application/xml');
+  }
+
+  it('is well-formed KML with a placemark per event', () => {
+    const doc = parseKML(earthquakesToKML(earthquakes, metadata));
+
+    expect(doc.querySelector('parsererror')).toBeNull();
+    expect(doc.documentElement.getAttribute('xmlns')).toBe(
+      'http://www.opengis.net/kml/2.2'
+    );
+    expect(doc.querySelectorAll('Placemark')).toHaveLength(2);
+    expect(doc.querySelector('Placemark > name')!.textContent).toBe(
+      'M7.1 - 2 km SW of Searles Valley, CA'
+    );
+  });
+
+  it('records the export details on the document', () => {
+    const doc = parseKML(earthquakesToKML(earthquakes, metadata));
+    const description = doc.querySelector('Document > description')!;
+
+    expect(description.textContent).toContain(
+      'Filters: M 4.0–9.0; Area: 1 shape'
+    );
+    expect(
+      doc.querySelector('Document > ExtendedData > Data[name="count"] > value')!
+        .textContent
+    ).toBe('2');
+  });
+
+  it('round-trips events', () => {
+    const doc = parseKML(earthquakesToKML(earthquakes, metadata));
+    const placemarks = [...doc.querySelectorAll('Placemark')];
+
+    expect(placemarks.map(fromPlacemark)).toEqual(earthquakes);
+  });
+});
+
+describe('serializeEarthquakes', () => {
+  it('dispatches on the format', () => {
+    expect(serializeEarthquakes('csv', earthquakes, metadata)).toBe(
+      earthquakesToCSV(earthquakes, metadata)
+    );
+    expect(serializeEarthquakes('kml', earthquakes, metadata)).toBe(
+      earthquakesToKML(earthquakes, metadata)
+    );
+  });
+});
+
+describe('getExportFilename', () => {
+  it('names the file after the export date and format', () => {
+    expect(getExportFilename('csv', metadata.exportedAt)).toBe(
+      'earthquakes-2024-01-15.csv'
+    );
+    expect(getExportFilename('geojson', metadata.exportedAt)).toBe(
+      'earthquakes-2024-01-15.geojson'
+    );
+    expect(getExportFilename('kml', metadata.exportedAt)).toBe(
+      'earthquakes-2024-01-15.kml'
+    );
+  });
+});
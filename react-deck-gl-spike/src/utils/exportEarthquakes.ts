@@ -0,0 +1,213 @@
+import type { Earthquake, GeoJSONFeature } from '../types/earthquake';
+import {
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type ExportMetadata,
+} from '../types/earthquakeExport';
+import { formatCSVRow } from './csv';
+
+/** Column order of CSV exports, named after the USGS CSV feed columns */
+export const CSV_COLUMNS = [
+  'time',
+  'latitude',
+  'longitude',
+  'depth',
+  'mag',
+  'magType',
+  'id',
+  'place',
+  'net',
+  'status',
+  'felt',
+  'tsunami',
+  'alert',
+  'url',
+] as const;
+
+type CSVColumn = (typeof CSV_COLUMNS)[number];
+
+const EXPORT_TITLE = 'USGS earthquake export';
+
+export interface EarthquakeFeatureCollection {
+  type: 'FeatureCollection';
+  metadata: ExportMetadata & { title: string; count: number };
+  features: GeoJSONFeature[];
+}
+
+function describeMetadata(metadata: ExportMetadata, count: number) {
+  return [
+    EXPORT_TITLE,
+    `Exported: ${metadata.exportedAt}`,
+    `Source: ${metadata.source ?? 'unknown'}`,
+    `Events: ${count}`,
+    `Filters: ${metadata.filters.length > 0 ? metadata.filters.join('; ') : 'none'}`,
+  ];
+}
+
+function toCSVValues(
+  eq: Earthquake
+): Record<CSVColumn, string | number | undefined> {
+  return {
+    time: eq.timestamp,
+    latitude: eq.latitude,
+    longitude: eq.longitude,
+    depth: eq.depth,
+    mag: eq.magnitude,
+    magType: eq.magType,
+    id: eq.id,
+    place: eq.location,
+    net: eq.network,
+    status: eq.status,
+    felt: eq.felt,
+    tsunami: eq.tsunami === undefined ? undefined : eq.tsunami ? 1 : 0,
+    alert: eq.alert,
+    url: eq.url,
+  };
+}
+
+/**
+ * CSV with one row per event, preceded by "#" comment lines recording when
+ * and how the events were selected.
+ */
+export function earthquakesToCSV(
+  earthquakes: Earthquake[],
+  metadata: ExportMetadata
+): string {
+  const header = describeMetadata(metadata, earthquakes.length).map(
+    (line) => `# ${line}`
+  );
+  const rows = earthquakes.map((eq) => {
+    const values = toCSVValues(eq);
+    return formatCSVRow(CSV_COLUMNS.map((column) => values[column]));
+  });
+
+  return [...header, CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * FeatureCollection in the shape of the USGS GeoJSON feeds, so it can be
+ * read back like a feed, with the export details in `metadata`.
+ */
+export function earthquakesToGeoJSON(
+  earthquakes: Earthquake[],
+  metadata: ExportMetadata
+): EarthquakeFeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    metadata: { title: EXPORT_TITLE, ...metadata, count: earthquakes.length },
+    features: earthquakes.map((eq) => ({
+      id: eq.id,
+      type: 'Feature',
+      geometry: {
+        type: 'Point',
+        coordinates: [eq.longitude, eq.latitude, eq.depth],
+      },
+      properties: {
+        mag: eq.magnitude,
+        time: new Date(eq.timestamp).getTime(),
+        place: eq.location,
+        felt: eq.felt ?? null,
+        tsunami: eq.tsunami === undefined ? null : eq.tsunami ? 1 : 0,
+        alert: eq.alert ?? null,
+        magType: eq.magType ?? null,
+        net: eq.network ?? null,
+        status: eq.status ?? null,
+        url: eq.url ?? null,
+      },
+    })),
+  };
+}
+
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function toExtendedData(
+  values: Record<string, string | number | undefined>,
+  indent: string
+): string {
+  const data = Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(
+      ([name, value]) =>
+        `${indent}  <Data name="${name}"><value>${escapeXML(String(value))}</value></Data>`
+    );
+  return [`${indent}<ExtendedData>`, ...data, `${indent}</ExtendedData>`].join(
+    '\n'
+  );
+}
+
+/**
+ * KML 2.2 document with a placemark per epicenter. Each placemark carries
+ * the CSV columns as ExtendedData; the export details describe the document.
+ */
+export function earthquakesToKML(
+  earthquakes: Earthquake[],
+  metadata: ExportMetadata
+): string {
+  const placemarks = earthquakes.map((eq) =>
+    [
+      '    <Placemark>',
+      `      <name>${escapeXML(`M${eq.magnitude.toFixed(1)} - ${eq.location}`)}</name>`,
+      `      <TimeStamp><when>${escapeXML(eq.timestamp)}</when></TimeStamp>`,
+      toExtendedData(toCSVValues(eq), '      '),
+      `      <Point><coordinates>${eq.longitude},${eq.latitude}</coordinates></Point>`,
+      '    </Placemark>',
+    ].join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${EXPORT_TITLE}</name>`,
+    `    <description>${escapeXML(describeMetadata(metadata, earthquakes.length).slice(1).join('\n'))}</description>`,
+    toExtendedData(
+      {
+        exportedAt: metadata.exportedAt,
+        source: metadata.source ?? undefined,
+        count: earthquakes.length,
+        filters: metadata.filters.join('; '),
+      },
+      '    '
+    ),
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Serialize events in the chosen format, ready to download.
+ */
+export function serializeEarthquakes(
+  format: ExportFormat,
+  earthquakes: Earthquake[],
+  metadata: ExportMetadata
+): string {
+  switch (format) {
+    case 'csv':
+      return earthquakesToCSV(earthquakes, metadata);
+    case 'geojson':
+      return JSON.stringify(earthquakesToGeoJSON(earthquakes, metadata));
+    case 'kml':
+      return earthquakesToKML(earthquakes, metadata);
+  }
+}
+
+/**
+ * File name for an export, e.g. "earthquakes-2024-01-15.csv".
+ */
+export function getExportFilename(
+  format: ExportFormat,
+  exportedAt: string
+): string {
+  const { extension } = EXPORT_FORMATS.find((info) => info.format === format)!;
+  return `earthquakes-${exportedAt.slice(0, 10)}.${extension}`;
+}
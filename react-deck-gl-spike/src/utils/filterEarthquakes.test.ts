@@ -1,5 +1,11 @@
 import { describe, it, expect } from 'vitest';
-import { filterByDateRange } from './filterEarthquakes';
+import {
+  filterByBoundaryDistance,
+  filterByDateRange,
+  filterByDepth,
+  filterByMagnitude,
+  getActiveFilters,
+} from './filterEarthquakes';
 import type { Earthquake } from '../types/earthquake';
 
 describe('filterByDateRange', () => {
@@ -82,6 +88,15 @@ describe('filterByDateRange', () => {
     expect(result.map((e) => e.id)).toContain('2');
   });
 
+  it('treats an end date with a time of day as an exact bound', () => {
+    // A brushed hour ending before noon excludes the noon event that day
+    const result = filterByDateRange(earthquakes, {
+      startDate: new Date('2024-01-20T00:00:00Z'),
+      endDate: new Date('2024-01-20T11:59:59.999Z'),
+    });
+    expect(result).toHaveLength(0);
+  });
+
   it('returns empty array when range excludes all earthquakes', () => {
     const result = filterByDateRange(earthquakes, {
       startDate: new Date('2024-02-01T00:00:00Z'),
@@ -143,3 +158,187 @@ describe('filterByDateRange', () => {
     expect(result[0].id).toBe('1');
   });
 });
+
+describe('filterByMagnitude', () => {
+  const earthquakes: Earthquake[] = [1.2, 2.5, 4.0, 6.8].map((mag, i) => ({
+    id: `${i + 1}`,
+    longitude: 0,
+    latitude: 0,
+    depth: 10,
+    magnitude: mag,
+    timestamp: '2024-01-15T12:00:00Z',
+    location: `Location ${i + 1}`,
+  }));
+
+  it('returns same reference when range is open on both sides', () => {
+    const result = filterByMagnitude(earthquakes, { min: null, max: null });
+    expect(result).toBe(earthquakes);
+  });
+
+  it('hides events below the minimum magnitude', () => {
+    const result = filterByMagnitude(earthquakes, { min: 2.5, max: null });
+    expect(result.map((e) => e.id)).toEqual(['2', '3', '4']);
+  });
+
+  it('hides events above the maximum magnitude', () => {
+    const result = filterByMagnitude(earthquakes, { min: null, max: 4.0 });
+    expect(result.map((e) => e.id)).toEqual(['1', '2', '3']);
+  });
+
+  it('includes events exactly on both bounds', () => {
+    const result = filterByMagnitude(earthquakes, { min: 2.5, max: 4.0 });
+    expect(result.map((e) => e.id)).toEqual(['2', '3']);
+  });
+
+  it('returns empty array when range excludes all events', () => {
+    const result = filterByMagnitude(earthquakes, { min: 8, max: 9 });
+    expect(result).toHaveLength(0);
+  });
+});
+
+describe('filterByDepth', () => {
+  const earthquakes: Earthquake[] = [5, 70, 250, 610].map((depth, i) => ({
+    id: `${i + 1}`,
+    longitude: 0,
+    latitude: 0,
+    depth,
+    magnitude: 4.0,
+    timestamp: '2024-01-15T12:00:00Z',
+    location: `Location ${i + 1}`,
+  }));
+
+  it('returns same reference when range is open on both sides', () => {
+    const result = filterByDepth(earthquakes, { min: null, max: null });
+    expect(result).toBe(earthquakes);
+  });
+
+  it('isolates deep-focus events with a minimum depth', () => {
+    const result = filterByDepth(earthquakes, { min: 300, max: null });
+    expect(result.map((e) => e.id)).toEqual(['4']);
+  });
+
+  it('keeps shallow events with a maximum depth', () => {
+    const result = filterByDepth(earthquakes, { min: null, max: 70 });
+    expect(result.map((e) => e.id)).toEqual(['1', '2']);
+  });
+
+  it('filters by bounded depth range', () => {
+    const result = filterByDepth(earthquakes, { min: 50, max: 300 });
+    expect(result.map((e) => e.id)).toEqual(['2', '3']);
+  });
+});
+
+describe('filterByBoundaryDistance', () => {
+  const earthquakes: Earthquake[] = ['1', '2', '3', '4'].map((id) => ({
+    id,
+    longitude: 0,
+    latitude: 0,
+    depth: 10,
+    magnitude: 4.0,
+    timestamp: '2024-01-15T12:00:00Z',
+    location: `Location ${id}`,
+  }));
+  const distances = { '1': 12, '2': 80, '3': 450 };
+
+  it('returns same reference when range is open on both sides', () => {
+    const result = filterByBoundaryDistance(
+      earthquakes,
+      { min: null, max: null },
+      distances
+    );
+    expect(result).toBe(earthquakes);
+  });
+
+  it('keeps events close to a boundary with a maximum distance', () => {
+    const result = filterByBoundaryDistance(
+      earthquakes,
+      { min: null, max: 100 },
+      distances
+    );
+    expect(result.map((e) => e.id)).toEqual(['1', '2']);
+  });
+
+  it('isolates intraplate events with a minimum distance', () => {
+    const result = filterByBoundaryDistance(
+      earthquakes,
+      { min: 300, max: null },
+      distances
+    );
+    expect(result.map((e) => e.id)).toEqual(['3']);
+  });
+
+  it('drops events without a distance once filtered', () => {
+    const result = filterByBoundaryDistance(
+      earthquakes,
+      { min: 0, max: 1000 },
+      distances
+    );
+    expect(result.map((e) => e.id)).not.toContain('4');
+  });
+});
+
+describe('getActiveFilters', () => {
+  const noFilters = {
+    dateRange: { startDate: null, endDate: null },
+    magnitudeRange: { min: null, max: null },
+    depthRange: { min: null, max: null },
+    boundaryDistanceRange: { min: null, max: null },
+  };
+
+  it('returns empty array when nothing is filtered', () => {
+    expect(getActiveFilters(noFilters)).toEqual([]);
+  });
+
+  it('describes a date range filter', () => {
+    const result = getActiveFilters({
+      ...noFilters,
+      dateRange: {
+        startDate: new Date('2024-01-01T00:00:00Z'),
+        endDate: new Date('2024-01-31T00:00:00Z'),
+      },
+    });
+
+    expect(result).toEqual([
+      { kind: 'date', label: 'Date 2024-01-01 – 2024-01-31' },
+    ]);
+  });
+
+  it('describes a one-sided magnitude filter', () => {
+    const result = getActiveFilters({
+      ...noFilters,
+      magnitudeRange: { min: 2.5, max: null },
+    });
+
+    expect(result).toEqual([{ kind: 'magnitude', label: 'M ≥ 2.5' }]);
+  });
+
+  it('describes a bounded depth filter', () => {
+    const result = getActiveFilters({
+      ...noFilters,
+      depthRange: { min: 300, max: 700 },
+    });
+
+    expect(result).toEqual([{ kind: 'depth', label: 'Depth 300–700 km' }]);
+  });
+
+  it('describes a plate boundary distance filter', () => {
+    const result = getActiveFilters({
+      ...noFilters,
+      boundaryDistanceRange: { min: null, max: 50 },
+    });
+
+    expect(result).toEqual([{ kind: 'boundary', label: 'Boundary ≤ 50 km' }]);
+  });
+
+  it('lists every active filter in date, magnitude, depth order', () => {
+    const result = getActiveFilters({
+      dateRange: { startDate: null, endDate: new Date('2024-01-31') },
+      magnitudeRange: { min: null, max: 6 },
+      depthRange: { min: 70, max: null },
+      boundaryDistanceRange: { min: null, max: null },
+    });
+
+    expect(result.map((f) => f.kind)).toEqual(['date', 'magnitude', 'depth']);
+    expect(result[1].label).toBe('M ≤ 6.0');
+  });
+});
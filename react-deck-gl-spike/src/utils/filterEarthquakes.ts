@@ -1,5 +1,30 @@
 import type { Earthquake } from '../types/earthquake';
-import type { DateRange } from '../types/filters';
+import type {
+  BoundaryDistanceRange,
+  DateRange,
+  DepthRange,
+  FilterState,
+  MagnitudeRange,
+  NumericRange,
+} from '../types/filters';
+
+/**
+ * Last included instant for an end date. A date-only value (UTC midnight)
+ * includes the whole day; any other time, e.g. from a brushed histogram,
+ * is an exact bound.
+ */
+export function getInclusiveEnd(endDate: Date): number {
+  const isDateOnly =
+    endDate.getUTCHours() === 0 &&
+    endDate.getUTCMinutes() === 0 &&
+    endDate.getUTCSeconds() === 0 &&
+    endDate.getUTCMilliseconds() === 0;
+  if (!isDateOnly) return endDate.getTime();
+
+  const endOfDay = new Date(endDate);
+  endOfDay.setUTCHours(23, 59, 59, 999);
+  return endOfDay.getTime();
+}
 
 /**
  * Filter earthquakes by date range.
@@ -23,15 +48,149 @@ export function filterByDateRange(
       return false;
     }
 
-    if (endDate) {
-      // Include end date (end of day in UTC)
-      const endOfDay = new Date(endDate);
-      endOfDay.setUTCHours(23, 59, 59, 999);
-      if (timestamp > endOfDay.getTime()) {
-        return false;
-      }
+    if (endDate && timestamp > getInclusiveEnd(endDate)) {
+      return false;
     }
 
     return true;
   });
 }
+
+/**
+ * Check whether a value falls inside an inclusive range with optional bounds.
+ */
+function isWithinRange(value: number, range: NumericRange): boolean {
+  if (range.min !== null && value < range.min) return false;
+  if (range.max !== null && value > range.max) return false;
+  return true;
+}
+
+/**
+ * Filter earthquakes by magnitude range (inclusive).
+ * Returns all earthquakes if both bounds are null.
+ */
+export function filterByMagnitude(
+  earthquakes: Earthquake[],
+  magnitudeRange: MagnitudeRange
+): Earthquake[] {
+  if (magnitudeRange.min === null && magnitudeRange.max === null) {
+    return earthquakes;
+  }
+
+  return earthquakes.filter((eq) =>
+    isWithinRange(eq.magnitude, magnitudeRange)
+  );
+}
+
+/**
+ * Filter earthquakes by hypocenter depth range in km (inclusive).
+ * Returns all earthquakes if both bounds are null.
+ */
+export function filterByDepth(
+  earthquakes: Earthquake[],
+  depthRange: DepthRange
+): Earthquake[] {
+  if (depthRange.min === null && depthRange.max === null) {
+    return earthquakes;
+  }
+
+  return earthquakes.filter((eq) => isWithinRange(eq.depth, depthRange));
+}
+
+/**
+ * Filter earthquakes by distance in km to the nearest plate boundary
+ * (inclusive), looked up by event id. Events without a distance only pass
+ * an open range.
+ */
+export function filterByBoundaryDistance(
+  earthquakes: Earthquake[],
+  boundaryDistanceRange: BoundaryDistanceRange,
+  boundaryDistances: Record<string, number>
+): Earthquake[] {
+  if (
+    boundaryDistanceRange.min === null &&
+    boundaryDistanceRange.max === null
+  ) {
+    return earthquakes;
+  }
+
+  return earthquakes.filter((eq) => {
+    const distance = boundaryDistances[eq.id];
+    return (
+      distance !== undefined && isWithinRange(distance, boundaryDistanceRange)
+    );
+  });
+}
+
+export type FilterKind =
+  | 'date'
+  | 'magnitude'
+  | 'depth'
+  | 'boundary'
+  | 'area'
+  | 'radius';
+
+export interface ActiveFilter {
+  kind: FilterKind;
+  label: string;
+}
+
+function formatRangeLabel(
+  range: NumericRange,
+  format: (value: number) => string
+): string {
+  if (range.min !== null && range.max !== null) {
+    return `${format(range.min)}–${format(range.max)}`;
+  }
+  if (range.min !== null) return `≥ ${format(range.min)}`;
+  return `≤ ${format(range.max as number)}`;
+}
+
+function formatDateLabel(dateRange: DateRange): string {
+  const format = (date: Date) => date.toISOString().split('T')[0];
+  const { startDate, endDate } = dateRange;
+
+  if (startDate && endDate) return `${format(startDate)} – ${format(endDate)}`;
+  if (startDate) return `from ${format(startDate)}`;
+  return `until ${format(endDate as Date)}`;
+}
+
+/**
+ * Describe which filters are currently narrowing the catalog.
+ * Returns an empty array when nothing is filtered.
+ */
+export function getActiveFilters(filters: FilterState): ActiveFilter[] {
+  const active: ActiveFilter[] = [];
+  const { dateRange, magnitudeRange, depthRange, boundaryDistanceRange } =
+    filters;
+
+  if (dateRange.startDate || dateRange.endDate) {
+    active.push({ kind: 'date', label: `Date ${formatDateLabel(dateRange)}` });
+  }
+
+  if (magnitudeRange.min !== null || magnitudeRange.max !== null) {
+    active.push({
+      kind: 'magnitude',
+      label: `M ${formatRangeLabel(magnitudeRange, (v) => v.toFixed(1))}`,
+    });
+  }
+
+  if (depthRange.min !== null || depthRange.max !== null) {
+    active.push({
+      kind: 'depth',
+      label: `Depth ${formatRangeLabel(depthRange, (v) => `${v}`)} km`,
+    });
+  }
+
+  if (
+    boundaryDistanceRange.min !== null ||
+    boundaryDistanceRange.max !== null
+  ) {
+    active.push({
+      kind: 'boundary',
+      label: `Boundary ${formatRangeLabel(boundaryDistanceRange, (v) => `${v}`)} km`,
+    });
+  }
+
+  return active;
+}
@@ -4,6 +4,9 @@ import {
   formatDepth,
   formatDateTime,
   formatCoordinates,
+  formatEnergy,
+  formatMoment,
+  formatDuration,
 } from './formatters';
 
 describe('formatMagnitude', () => {
@@ -193,3 +196,40 @@ describe('formatCoordinates', () => {
     expect(result).toBe('33.869°S, 151.209°E');
   });
 });
+
+describe('formatEnergy', () => {
+  it('formats joules in scientific notation', () => {
+    expect(formatEnergy(2e15)).toBe('2.0e15 J');
+  });
+
+  it('rounds the mantissa to one decimal', () => {
+    expect(formatEnergy(6.309e13)).toBe('6.3e13 J');
+  });
+
+  it('handles small values', () => {
+    expect(formatEnergy(1)).toBe('1.0e0 J');
+  });
+});
+
+describe('formatMoment', () => {
+  it('formats newton-metres in scientific notation', () => {
+    expect(formatMoment(1.26e18)).toBe('1.3e18 N·m');
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats spans under an hour in minutes', () => {
+    expect(formatDuration(0)).toBe('0 min');
+    expect(formatDuration(45 * 60_000)).toBe('45 min');
+  });
+
+  it('formats spans under two days in hours', () => {
+    expect(formatDuration(60 * 60_000)).toBe('1 h');
+    expect(formatDuration(18 * 60 * 60_000)).toBe('18 h');
+  });
+
+  it('formats longer spans in days', () => {
+    expect(formatDuration(3.5 * 24 * 60 * 60_000)).toBe('3.5 days');
+    expect(formatDuration(20 * 24 * 60 * 60_000)).toBe('20 days');
+  });
+});
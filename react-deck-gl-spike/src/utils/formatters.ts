@@ -1,13 +1,25 @@
+/** Magnitude class descriptors, smallest first */
+export const MAGNITUDE_CLASSES = [
+  'Minor',
+  'Light',
+  'Moderate',
+  'Strong',
+  'Major',
+  'Great',
+] as const;
+
+export type MagnitudeClass = (typeof MAGNITUDE_CLASSES)[number];
+
 /**
  * Format magnitude with appropriate precision and descriptor
  */
 export function formatMagnitude(magnitude: number): {
   value: string;
-  descriptor: string;
+  descriptor: MagnitudeClass;
 } {
   const value = magnitude.toFixed(1);
 
-  let descriptor: string;
+  let descriptor: MagnitudeClass;
   if (magnitude < 3) descriptor = 'Minor';
   else if (magnitude < 4) descriptor = 'Light';
   else if (magnitude < 5) descriptor = 'Moderate';
@@ -114,3 +126,31 @@ export function formatCompactNumber(value: number): string {
   }
   return value.toString();
 }
+
+/**
+ * Format energy in joules in scientific notation (e.g., 2.0e15 J)
+ */
+export function formatEnergy(joules: number): string {
+  return `${joules.toExponential(1).replace('e+', 'e')} J`;
+}
+
+/**
+ * Format seismic moment in scientific notation (e.g., 1.3e18 N·m)
+ */
+export function formatMoment(newtonMetres: number): string {
+  return `${newtonMetres.toExponential(1).replace('e+', 'e')} N·m`;
+}
+
+/**
+ * Format a time span in the largest sensible unit (e.g., 45 min, 18 h, 3.5 days)
+ */
+export function formatDuration(ms: number): string {
+  const minutes = ms / 60_000;
+  if (minutes < 60) return `${Math.round(minutes)} min`;
+
+  const hours = minutes / 60;
+  if (hours < 48) return `${Math.round(hours)} h`;
+
+  const days = hours / 24;
+  return `${days < 10 ? days.toFixed(1) : Math.round(days)} days`;
+}
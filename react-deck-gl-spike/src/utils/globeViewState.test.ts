@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  constrainGlobeViewState,
+  constrainViewStateFor,
+  convertViewState,
+  wrapLongitude,
+} from './globeViewState';
+
+describe('wrapLongitude', () => {
+  it('leaves longitudes in range unchanged', () => {
+    expect(wrapLongitude(0)).toBe(0);
+    expect(wrapLongitude(-122.4)).toBeCloseTo(-122.4, 9);
+    expect(wrapLongitude(179.9)).toBeCloseTo(179.9, 9);
+  });
+
+  it('wraps across the antimeridian', () => {
+    expect(wrapLongitude(190)).toBeCloseTo(-170, 9);
+    expect(wrapLongitude(-190)).toBeCloseTo(170, 9);
+    expect(wrapLongitude(180)).toBe(-180);
+    expect(wrapLongitude(725)).toBeCloseTo(5, 9);
+  });
+});
+
+describe('constrainGlobeViewState', () => {
+  const viewState = {
+    longitude: 0,
+    latitude: 0,
+    zoom: 2,
+    pitch: 0,
+    bearing: 0,
+  };
+
+  it('turns freely across the antimeridian', () => {
+    expect(
+      constrainGlobeViewState({ ...viewState, longitude: 185 }).longitude
+    ).toBeCloseTo(-175, 9);
+  });
+
+  it('clamps latitude and zoom', () => {
+    const result = constrainGlobeViewState({
+      ...viewState,
+      latitude: 89,
+      zoom: 30,
+    });
+
+    expect(result.latitude).toBe(85);
+    expect(result.zoom).toBe(20);
+  });
+
+  it('drops pitch and bearing', () => {
+    const result = constrainGlobeViewState({
+      ...viewState,
+      pitch: 50,
+      bearing: 30,
+    });
+
+    expect(result.pitch).toBe(0);
+    expect(result.bearing).toBe(0);
+  });
+});
+
+describe('convertViewState', () => {
+  it('keeps the center and zoom when switching to the globe', () => {
+    const result = convertViewState(
+      { longitude: 142.4, latitude: 38.3, zoom: 4, pitch: 50, bearing: 20 },
+      'globe'
+    );
+
+    expect(result).toEqual({
+      longitude: 142.4,
+      latitude: 38.3,
+      zoom: 4,
+      pitch: 0,
+      bearing: 0,
+    });
+  });
+
+  it('brings a globe view back within the flat map', () => {
+    const result = convertViewState(
+      { longitude: 200, latitude: -20, zoom: 3, pitch: 0, bearing: 0 },
+      'mercator'
+    );
+
+    expect(result.longitude).toBeCloseTo(-160, 9);
+    expect(result.latitude).toBe(-20);
+    expect(result.zoom).toBe(3);
+  });
+
+  it('round-trips a flat view state through the globe', () => {
+    const viewState = {
+      longitude: -71,
+      latitude: -33,
+      zoom: 5,
+      pitch: 0,
+      bearing: 0,
+    };
+
+    expect(
+      convertViewState(convertViewState(viewState, 'globe'), 'mercator')
+    ).toEqual(viewState);
+  });
+});
+
+describe('constrainViewStateFor', () => {
+  it('clamps longitude on the flat map but wraps it on the globe', () => {
+    const viewState = {
+      longitude: 185,
+      latitude: 0,
+      zoom: 2,
+      pitch: 0,
+      bearing: 0,
+    };
+
+    expect(constrainViewStateFor(viewState, 'mercator').longitude).toBe(180);
+    expect(constrainViewStateFor(viewState, 'globe').longitude).toBeCloseTo(
+      -175,
+      9
+    );
+  });
+});
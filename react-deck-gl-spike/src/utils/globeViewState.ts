@@ -0,0 +1,69 @@
+import type { MapViewState } from '@deck.gl/core';
+import type { MapProjection } from '../types/earthquakeView';
+import {
+  constrainViewState,
+  MAP_BOUNDS,
+  ZOOM_BOUNDS,
+} from './constrainViewState';
+
+/**
+ * Wrap a longitude into [-180, 180)
+ */
+export function wrapLongitude(longitude: number): number {
+  // Avoid floating-point drift for longitudes already in range
+  if (longitude >= -180 && longitude < 180) return longitude;
+  return ((((longitude + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Constrains a globe view state. Unlike the flat map, the globe turns freely
+ * across the antimeridian, so longitude wraps instead of being clamped.
+ * The globe has no pitch or bearing.
+ */
+export function constrainGlobeViewState(viewState: MapViewState): MapViewState {
+  return {
+    ...viewState,
+    longitude: wrapLongitude(viewState.longitude),
+    latitude: Math.max(
+      MAP_BOUNDS.minLatitude,
+      Math.min(MAP_BOUNDS.maxLatitude, viewState.latitude)
+    ),
+    zoom: Math.max(
+      ZOOM_BOUNDS.minZoom,
+      Math.min(ZOOM_BOUNDS.maxZoom, viewState.zoom)
+    ),
+    pitch: 0,
+    bearing: 0,
+  };
+}
+
+/**
+ * Convert a view state for display in another projection, keeping the same
+ * center. deck.gl's globe matches the Web Mercator scale at the center
+ * latitude, so the zoom level carries over unchanged.
+ */
+export function convertViewState(
+  viewState: MapViewState,
+  projection: MapProjection
+): MapViewState {
+  if (projection === 'globe') return constrainGlobeViewState(viewState);
+
+  return constrainViewState({
+    ...viewState,
+    longitude: wrapLongitude(viewState.longitude),
+    pitch: 0,
+    bearing: 0,
+  });
+}
+
+/**
+ * Constrains a view state for the given projection.
+ */
+export function constrainViewStateFor(
+  viewState: MapViewState,
+  projection: MapProjection
+): MapViewState {
+  return projection === 'globe'
+    ? constrainGlobeViewState(viewState)
+    : constrainViewState(viewState);
+}
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeMagnitudeFrequency,
+  estimateBValue,
+  estimateCompleteness,
+  getMagnitudeFrequency,
+  MIN_FIT_EVENTS,
+} from './gutenbergRichter';
+import type { Earthquake } from '../types/earthquake';
+
+/**
+ * Deterministic Gutenberg–Richter catalog: evenly spaced quantiles of the
+ * exponential magnitude distribution, rounded to 0.1 units.
+ */
+function syntheticMagnitudes(count: number, bValue: number, minimum = 2.0) {
+  return Array.from({ length: count }, (_, i) => {
+    const u = (i + 0.5) / count;
+    const magnitude = minimum - 0.05 - Math.log10(1 - u) / bValue;
+    return Math.round(magnitude * 10) / 10;
+  });
+}
+
+function toEarthquakes(magnitudes: number[]): Earthquake[] {
+  return magnitudes.map((magnitude, i) => ({
+    id: `eq${i}`,
+    longitude: 0,
+    latitude: 0,
+    depth: 10,
+    magnitude,
+    timestamp: '2024-01-01T00:00:00Z',
+    location: 'Test',
+  }));
+}
+
+describe('getMagnitudeFrequency', () => {
+  it('counts events per 0.1 magnitude bin', () => {
+    const bins = getMagnitudeFrequency([2.0, 2.04, 2.1, 2.3]);
+
+    expect(bins.map((bin) => bin.magnitude)).toEqual([2.0, 2.1, 2.2, 2.3]);
+    expect(bins.map((bin) => bin.count)).toEqual([2, 1, 0, 1]);
+  });
+
+  it('accumulates counts from the largest magnitude down', () => {
+    const bins = getMagnitudeFrequency([2.0, 2.04, 2.1, 2.3]);
+
+    expect(bins.map((bin) => bin.cumulative)).toEqual([4, 2, 1, 1]);
+  });
+
+  it('handles negative magnitudes', () => {
+    const bins = getMagnitudeFrequency([-0.5, -0.4]);
+
+    expect(bins.map((bin) => bin.magnitude)).toEqual([-0.5, -0.4]);
+  });
+
+  it('returns no bins for an empty catalog', () => {
+    expect(getMagnitudeFrequency([])).toEqual([]);
+  });
+
+  it('handles catalogs too large to spread into Math.min', () => {
+    const magnitudes = Array.from(
+      { length: 300_000 },
+      (_, i) => 2 + (i % 30) / 10
+    );
+    const bins = getMagnitudeFrequency(magnitudes);
+
+    expect(bins).toHaveLength(30);
+    expect(bins[0].cumulative).toBe(300_000);
+  });
+});
+
+describe('estimateCompleteness', () => {
+  it('adds the correction to the most populated bin', () => {
+    // Detection falls off below M2.0 in this catalog
+    const magnitudes = [
+      1.6,
+      1.7,
+      1.7,
+      1.8,
+      1.8,
+      1.8,
+      ...syntheticMagnitudes(500, 1),
+    ];
+
+    expect(estimateCompleteness(magnitudes)).toBe(2.2);
+  });
+
+  it('returns null for an empty catalog', () => {
+    expect(estimateCompleteness([])).toBeNull();
+  });
+});
+
+describe('estimateBValue', () => {
+  it('recovers the b-value of a synthetic catalog', () => {
+    const fit = estimateBValue(syntheticMagnitudes(5000, 1), 2.0);
+
+    expect(fit?.bValue).toBeCloseTo(1, 1);
+  });
+
+  it('recovers a higher b-value', () => {
+    const fit = estimateBValue(syntheticMagnitudes(5000, 1.5), 2.0);
+
+    expect(fit?.bValue).toBeCloseTo(1.5, 1);
+  });
+
+  it('reports a smaller uncertainty for larger samples', () => {
+    const small = estimateBValue(syntheticMagnitudes(200, 1), 2.0);
+    const large = estimateBValue(syntheticMagnitudes(5000, 1), 2.0);
+
+    expect(small!.bUncertainty).toBeGreaterThan(large!.bUncertainty);
+    // Roughly b / sqrt(n) for a Gutenberg–Richter sample
+    expect(large!.bUncertainty).toBeCloseTo(1 / Math.sqrt(5000), 2);
+  });
+
+  it('uses only events at or above the magnitude of completeness', () => {
+    const fit = estimateBValue([1.0, 1.5, 2.0, 2.5, 3.0], 2.0);
+
+    expect(fit?.sampleSize).toBe(3);
+  });
+
+  it('derives the a-value from the number of complete events', () => {
+    const fit = estimateBValue(syntheticMagnitudes(1000, 1), 2.0)!;
+
+    expect(fit.aValue).toBeCloseTo(Math.log10(1000) + fit.bValue * 2.0, 9);
+  });
+
+  it('returns null with fewer than two complete events', () => {
+    expect(estimateBValue([2.5], 2.0)).toBeNull();
+  });
+});
+
+describe('analyzeMagnitudeFrequency', () => {
+  it('fits a catalog with enough complete events', () => {
+    const analysis = analyzeMagnitudeFrequency(
+      toEarthquakes(syntheticMagnitudes(2000, 1))
+    );
+
+    expect(analysis.bins[0].cumulative).toBe(2000);
+    expect(analysis.fit?.completeness).toBe(2.2);
+    expect(analysis.fit?.bValue).toBeCloseTo(1, 1);
+  });
+
+  it('omits the fit when too few events are complete', () => {
+    const analysis = analyzeMagnitudeFrequency(
+      toEarthquakes(syntheticMagnitudes(MIN_FIT_EVENTS, 1))
+    );
+
+    expect(analysis.bins.length).toBeGreaterThan(0);
+    expect(analysis.fit).toBeNull();
+  });
+
+  it('returns an empty analysis for an empty catalog', () => {
+    expect(analyzeMagnitudeFrequency([])).toEqual({ bins: [], fit: null });
+  });
+});
@@ -0,0 +1,154 @@
+import type { Earthquake } from '../types/earthquake';
+
+/** Magnitude resolution of the catalog */
+export const MAGNITUDE_BIN_WIDTH = 0.1;
+
+/** Added to the maximum-curvature estimate, which tends to underestimate Mc */
+export const MAXC_CORRECTION = 0.2;
+
+/** Fewest events at or above Mc for a meaningful b-value */
+export const MIN_FIT_EVENTS = 50;
+
+export interface MagnitudeFrequencyBin {
+  magnitude: number;
+  /** Events in this bin */
+  count: number;
+  /** Events in this bin or above */
+  cumulative: number;
+}
+
+export interface GutenbergRichterFit {
+  /** Magnitude of completeness */
+  completeness: number;
+  bValue: number;
+  /** One standard deviation (Shi & Bolt, 1982) */
+  bUncertainty: number;
+  /** Intercept of log10 N = a − bM */
+  aValue: number;
+  /** Events at or above Mc used in the fit */
+  sampleSize: number;
+}
+
+export interface MagnitudeFrequencyAnalysis {
+  bins: MagnitudeFrequencyBin[];
+  /** Null when too few events are above the magnitude of completeness */
+  fit: GutenbergRichterFit | null;
+}
+
+function toBinIndex(magnitude: number, binWidth: number): number {
+  return Math.round(magnitude / binWidth);
+}
+
+// Keep bin centres free of floating-point noise such as 2.3000000000000003
+function toMagnitude(index: number, binWidth: number): number {
+  return Number((index * binWidth).toFixed(6));
+}
+
+/**
+ * Non-cumulative and cumulative event counts per magnitude bin, covering
+ * every bin from the smallest to the largest magnitude.
+ */
+export function getMagnitudeFrequency(
+  magnitudes: number[],
+  binWidth: number = MAGNITUDE_BIN_WIDTH
+): MagnitudeFrequencyBin[] {
+  if (magnitudes.length === 0) return [];
+
+  const indices = magnitudes.map((m) => toBinIndex(m, binWidth));
+  // A loop rather than spreading into Math.min/max, which overflows the
+  // call stack on catalogs of a few hundred thousand events
+  let minIndex = Infinity;
+  let maxIndex = -Infinity;
+  for (const index of indices) {
+    if (index < minIndex) minIndex = index;
+    if (index > maxIndex) maxIndex = index;
+  }
+  const counts = Array.from({ length: maxIndex - minIndex + 1 }, () => 0);
+  indices.forEach((index) => counts[index - minIndex]++);
+
+  const bins: MagnitudeFrequencyBin[] = [];
+  let cumulative = 0;
+  for (let i = counts.length - 1; i >= 0; i--) {
+    cumulative += counts[i];
+    bins.push({
+      magnitude: toMagnitude(minIndex + i, binWidth),
+      count: counts[i],
+      cumulative,
+    });
+  }
+  return bins.reverse();
+}
+
+/**
+ * Magnitude of completeness by maximum curvature: the most populated bin of
+ * the non-cumulative distribution, plus a correction.
+ */
+export function estimateCompleteness(
+  magnitudes: number[],
+  binWidth: number = MAGNITUDE_BIN_WIDTH,
+  correction: number = MAXC_CORRECTION
+): number | null {
+  const bins = getMagnitudeFrequency(magnitudes, binWidth);
+  if (bins.length === 0) return null;
+
+  const peak = bins.reduce((best, bin) =>
+    bin.count > best.count ? bin : best
+  );
+  return toMagnitude(
+    toBinIndex(peak.magnitude + correction, binWidth),
+    binWidth
+  );
+}
+
+/**
+ * Maximum-likelihood b-value (Aki, 1965) for events at or above `completeness`,
+ * with Utsu's correction for binned magnitudes.
+ */
+export function estimateBValue(
+  magnitudes: number[],
+  completeness: number,
+  binWidth: number = MAGNITUDE_BIN_WIDTH
+): GutenbergRichterFit | null {
+  const mcIndex = toBinIndex(completeness, binWidth);
+  const complete = magnitudes.filter((m) => toBinIndex(m, binWidth) >= mcIndex);
+  const n = complete.length;
+  if (n < 2) return null;
+
+  const mean = complete.reduce((sum, m) => sum + m, 0) / n;
+  const bValue = Math.LOG10E / (mean - (completeness - binWidth / 2));
+
+  const sumSquares = complete.reduce((sum, m) => sum + (m - mean) ** 2, 0);
+  const bUncertainty =
+    2.3 * bValue ** 2 * Math.sqrt(sumSquares / (n * (n - 1)));
+
+  return {
+    completeness,
+    bValue,
+    bUncertainty,
+    aValue: Math.log10(n) + bValue * completeness,
+    sampleSize: n,
+  };
+}
+
+/**
+ * Gutenberg–Richter analysis of a catalog: the magnitude-frequency
+ * distribution and, given enough complete events, the b-value fit.
+ */
+export function analyzeMagnitudeFrequency(
+  earthquakes: Earthquake[],
+  binWidth: number = MAGNITUDE_BIN_WIDTH
+): MagnitudeFrequencyAnalysis {
+  const magnitudes = earthquakes.map((eq) => eq.magnitude);
+  const bins = getMagnitudeFrequency(magnitudes, binWidth);
+  const completeness = estimateCompleteness(magnitudes, binWidth);
+
+  const fit =
+    completeness === null
+      ? null
+      : estimateBValue(magnitudes, completeness, binWidth);
+
+  return {
+    bins,
+    fit: fit && fit.sampleSize >= MIN_FIT_EVENTS ? fit : null,
+  };
+}
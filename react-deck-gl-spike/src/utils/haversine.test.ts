@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EARTH_RADIUS_KM,
+  destinationPoint,
+  haversineDistanceKm,
+} from './haversine';
+
+describe('haversineDistanceKm', () => {
+  it('returns 0 for identical points', () => {
+    expect(haversineDistanceKm(37.5, -122.5, 37.5, -122.5)).toBe(0);
+  });
+
+  it('measures one degree of latitude as about 111 km', () => {
+    expect(haversineDistanceKm(0, 0, 1, 0)).toBeCloseTo(111.19, 1);
+  });
+
+  it('measures the distance between San Francisco and Tokyo', () => {
+    // ~8,270 km great-circle distance
+    expect(haversineDistanceKm(37.77, -122.42, 35.68, 139.69)).toBeCloseTo(
+      8270,
+      -2
+    );
+  });
+
+  it('takes the short way across the antimeridian', () => {
+    expect(haversineDistanceKm(0, 179.5, 0, -179.5)).toBeCloseTo(111.19, 1);
+  });
+
+  it('returns half the circumference for antipodal points', () => {
+    expect(haversineDistanceKm(0, 0, 0, 180)).toBeCloseTo(
+      Math.PI * EARTH_RADIUS_KM,
+      6
+    );
+  });
+
+  it('is symmetric', () => {
+    expect(haversineDistanceKm(10, 20, -30, 40)).toBeCloseTo(
+      haversineDistanceKm(-30, 40, 10, 20),
+      9
+    );
+  });
+});
+
+describe('destinationPoint', () => {
+  it('moves north along a meridian', () => {
+    const [lon, lat] = destinationPoint(0, 0, 0, 111.19);
+    expect(lon).toBeCloseTo(0, 6);
+    expect(lat).toBeCloseTo(1, 3);
+  });
+
+  it('moves east along the equator', () => {
+    const [lon, lat] = destinationPoint(0, 0, 90, 111.19);
+    expect(lon).toBeCloseTo(1, 3);
+    expect(lat).toBeCloseTo(0, 6);
+  });
+
+  it('lands at the requested great-circle distance', () => {
+    const [lon, lat] = destinationPoint(35.68, 139.69, 225, 500);
+    expect(haversineDistanceKm(35.68, 139.69, lat, lon)).toBeCloseTo(500, 6);
+  });
+
+  it('keeps longitudes continuous across the antimeridian', () => {
+    const [lon] = destinationPoint(0, 179.5, 90, 111.19);
+    expect(lon).toBeCloseTo(180.5, 3);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Great-circle distances on a spherical Earth
+ */
+
+import { toDegrees, toRadians } from './greatCircle';
+
+/** Mean Earth radius in kilometers */
+export const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Great-circle distance between two points using the haversine formula
+ * @returns Distance in kilometers
+ */
+export function haversineDistanceKm(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const Δφ = toRadians(lat2 - lat1);
+  const Δλ = toRadians(lon2 - lon1);
+
+  const a =
+    Math.sin(Δφ / 2) ** 2 +
+    Math.cos(toRadians(lat1)) *
+      Math.cos(toRadians(lat2)) *
+      Math.sin(Δλ / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Point reached by travelling a great-circle distance from a start point
+ * @param bearing - Initial bearing in degrees clockwise from north
+ * @returns [longitude, latitude] in degrees; longitude is not wrapped, so
+ * points east of the antimeridian may exceed 180
+ */
+export function destinationPoint(
+  lat: number,
+  lon: number,
+  bearing: number,
+  distanceKm: number
+): [number, number] {
+  const φ1 = toRadians(lat);
+  const θ = toRadians(bearing);
+  const δ = distanceKm / EARTH_RADIUS_KM;
+
+  const φ2 = Math.asin(
+    Math.sin(φ1) * Math.cos(δ) + Math.cos(φ1) * Math.sin(δ) * Math.cos(θ)
+  );
+  const Δλ = Math.atan2(
+    Math.sin(θ) * Math.sin(δ) * Math.cos(φ1),
+    Math.cos(δ) - Math.sin(φ1) * Math.sin(φ2)
+  );
+
+  return [lon + toDegrees(Δλ), toDegrees(φ2)];
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { mergeEarthquakes } from './mergeEarthquakes';
+import { createEarthquake } from '../test/earthquakeFixture';
+
+describe('mergeEarthquakes', () => {
+  it('adds events missing from the previous catalog', () => {
+    const previous = [createEarthquake('a')];
+    const result = mergeEarthquakes(previous, [
+      createEarthquake('a'),
+      createEarthquake('b'),
+    ]);
+
+    expect(result.earthquakes.map((eq) => eq.id)).toEqual(['a', 'b']);
+    expect(result.added).toEqual(['b']);
+    expect(result.updated).toEqual([]);
+    expect(result.removed).toEqual([]);
+  });
+
+  it('replaces events whose magnitude was revised', () => {
+    const previous = [createEarthquake('a', { magnitude: 4.5 })];
+    const result = mergeEarthquakes(previous, [
+      createEarthquake('a', { magnitude: 4.8 }),
+    ]);
+
+    expect(result.earthquakes[0].magnitude).toBe(4.8);
+    expect(result.updated).toEqual(['a']);
+    expect(result.added).toEqual([]);
+  });
+
+  it('replaces events whose review status or alert changed', () => {
+    const previous = [createEarthquake('a', { status: 'automatic' })];
+    const result = mergeEarthquakes(previous, [
+      createEarthquake('a', { status: 'reviewed', alert: 'yellow' }),
+    ]);
+
+    expect(result.earthquakes[0].status).toBe('reviewed');
+    expect(result.earthquakes[0].alert).toBe('yellow');
+    expect(result.updated).toEqual(['a']);
+  });
+
+  it('drops events no longer in the latest catalog', () => {
+    const previous = [createEarthquake('a'), createEarthquake('deleted')];
+    const result = mergeEarthquakes(previous, [createEarthquake('a')]);
+
+    expect(result.earthquakes.map((eq) => eq.id)).toEqual(['a']);
+    expect(result.removed).toEqual(['deleted']);
+  });
+
+  it('keeps the previous object for unchanged events', () => {
+    const previous = [createEarthquake('a')];
+    const result = mergeEarthquakes(previous, [createEarthquake('a')]);
+
+    expect(result.earthquakes[0]).toBe(previous[0]);
+    expect(result.updated).toEqual([]);
+  });
+
+  it('follows the order of the latest catalog', () => {
+    const previous = [createEarthquake('a'), createEarthquake('b')];
+    const result = mergeEarthquakes(previous, [
+      createEarthquake('c'),
+      createEarthquake('b'),
+      createEarthquake('a'),
+    ]);
+
+    expect(result.earthquakes.map((eq) => eq.id)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('treats everything as added when there is no previous catalog', () => {
+    const result = mergeEarthquakes(
+      [],
+      [createEarthquake('a'), createEarthquake('b')]
+    );
+
+    expect(result.added).toEqual(['a', 'b']);
+  });
+});
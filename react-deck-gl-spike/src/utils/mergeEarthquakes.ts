@@ -0,0 +1,55 @@
+import type { Earthquake } from '../types/earthquake';
+
+export interface EarthquakeMergeResult {
+  earthquakes: Earthquake[];
+  /** Ids present in the latest catalog but not the previous one */
+  added: string[];
+  /** Ids whose details (e.g. a revised magnitude) changed */
+  updated: string[];
+  /** Ids the feed no longer lists, e.g. deleted events */
+  removed: string[];
+}
+
+function isSameEarthquake(a: Earthquake, b: Earthquake): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(
+    (key) => a[key as keyof Earthquake] === b[key as keyof Earthquake]
+  );
+}
+
+/**
+ * Merge a freshly fetched catalog into the one on screen by `Earthquake.id`.
+ * The latest catalog is authoritative: new events are added, revised events
+ * replaced and missing events dropped. Unchanged events keep their previous
+ * object so memoized layers and selections stay stable.
+ */
+export function mergeEarthquakes(
+  previous: Earthquake[],
+  latest: Earthquake[]
+): EarthquakeMergeResult {
+  const previousById = new Map(previous.map((eq) => [eq.id, eq]));
+  const latestIds = new Set<string>();
+  const added: string[] = [];
+  const updated: string[] = [];
+
+  const earthquakes = latest.map((eq) => {
+    latestIds.add(eq.id);
+    const existing = previousById.get(eq.id);
+
+    if (!existing) {
+      added.push(eq.id);
+      return eq;
+    }
+    if (isSameEarthquake(existing, eq)) {
+      return existing;
+    }
+    updated.push(eq.id);
+    return eq;
+  });
+
+  const removed = previous
+    .filter((eq) => !latestIds.has(eq.id))
+    .map((eq) => eq.id);
+
+  return { earthquakes, added, updated, removed };
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createBoundaryIndex,
+  getBoundaryDistances,
+  getNearestBoundary,
+} from './plateBoundaries';
+import { haversineDistanceKm } from './haversine';
+import { PLATE_BOUNDARIES } from '../data/tectonics';
+import type { PlateBoundaryCollection } from '../types/tectonics';
+import { createEarthquake } from '../test/earthquakeFixture';
+
+const boundaries: PlateBoundaryCollection = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      properties: { name: 'Meridian Ridge', type: 'divergent', plates: 'A-B' },
+      geometry: {
+        type: 'LineString',
+        coordinates: [
+          [0, -10],
+          [0, 10],
+        ],
+      },
+    },
+    {
+      type: 'Feature',
+      properties: {
+        name: 'Dateline Trench',
+        type: 'convergent',
+        plates: 'C-D',
+      },
+      geometry: {
+        type: 'MultiLineString',
+        coordinates: [
+          [
+            [179, -10],
+            [180, 0],
+          ],
+          [
+            [-180, 0],
+            [-179, 10],
+          ],
+        ],
+      },
+    },
+  ],
+};
+const index = createBoundaryIndex(boundaries);
+
+describe('createBoundaryIndex', () => {
+  it('splits every line into segments', () => {
+    expect(index.segments).toHaveLength(3);
+    expect(index.segments[1]).toMatchObject({
+      minLatitude: -10,
+      maxLatitude: 0,
+      properties: { name: 'Dateline Trench' },
+    });
+  });
+});
+
+describe('getNearestBoundary', () => {
+  it('measures the perpendicular distance to a segment', () => {
+    const nearest = getNearestBoundary({ longitude: 1, latitude: 0 }, index);
+
+    expect(nearest).toMatchObject({
+      name: 'Meridian Ridge',
+      type: 'divergent',
+    });
+    expect(nearest!.distanceKm).toBeCloseTo(haversineDistanceKm(0, 0, 0, 1), 0);
+  });
+
+  it('measures past the end of a segment to its endpoint', () => {
+    const nearest = getNearestBoundary({ longitude: 0, latitude: 12 }, index);
+
+    expect(nearest!.distanceKm).toBeCloseTo(
+      haversineDistanceKm(12, 0, 10, 0),
+      0
+    );
+  });
+
+  it('finds boundaries across the antimeridian', () => {
+    const nearest = getNearestBoundary(
+      { longitude: -179.5, latitude: 0 },
+      index
+    );
+
+    expect(nearest!.name).toBe('Dateline Trench');
+    expect(nearest!.distanceKm).toBeLessThan(56);
+  });
+
+  it('is zero on a boundary', () => {
+    const nearest = getNearestBoundary({ longitude: 0, latitude: 5 }, index);
+    expect(nearest!.distanceKm).toBe(0);
+  });
+
+  it('returns null without boundaries', () => {
+    const empty = createBoundaryIndex({
+      type: 'FeatureCollection',
+      features: [],
+    });
+    expect(getNearestBoundary({ longitude: 0, latitude: 0 }, empty)).toBeNull();
+  });
+
+  it('places well-known events near the bundled boundaries', () => {
+    const bundled = createBoundaryIndex(PLATE_BOUNDARIES);
+    // 2011 Tohoku, on the Japan Trench
+    const tohoku = getNearestBoundary(
+      { longitude: 142.37, latitude: 38.3 },
+      bundled
+    );
+    // Kansas, in the middle of the North American plate
+    const kansas = getNearestBoundary(
+      { longitude: -98, latitude: 38.5 },
+      bundled
+    );
+
+    expect(tohoku!.type).toBe('convergent');
+    expect(tohoku!.distanceKm).toBeLessThan(200);
+    expect(kansas!.distanceKm).toBeGreaterThan(1000);
+  });
+});
+
+describe('getBoundaryDistances', () => {
+  it('maps each event id to its distance', () => {
+    const distances = getBoundaryDistances(
+      [
+        createEarthquake('on', { longitude: 0, latitude: 0 }),
+        createEarthquake('off', { longitude: 2, latitude: 0 }),
+      ],
+      index
+    );
+
+    expect(distances.on).toBe(0);
+    expect(distances.off).toBeCloseTo(haversineDistanceKm(0, 0, 0, 2), 0);
+  });
+
+  it('leaves events out without boundaries', () => {
+    const empty = createBoundaryIndex({
+      type: 'FeatureCollection',
+      features: [],
+    });
+    expect(
+      getBoundaryDistances(
+        [createEarthquake('a', { longitude: 0, latitude: 0 })],
+        empty
+      )
+    ).toEqual({});
+  });
+});
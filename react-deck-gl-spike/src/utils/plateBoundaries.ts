@@ -0,0 +1,130 @@
+import type { Earthquake } from '../types/earthquake';
+import type { LngLat } from '../types/spatialSelection';
+import type {
+  NearestBoundary,
+  PlateBoundaryCollection,
+  PlateBoundaryProperties,
+} from '../types/tectonics';
+import { EARTH_RADIUS_KM } from './haversine';
+import { toRadians } from './greatCircle';
+import { wrapLongitude } from './globeViewState';
+
+const KM_PER_DEGREE = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+interface BoundarySegment {
+  from: LngLat;
+  to: LngLat;
+  minLatitude: number;
+  maxLatitude: number;
+  properties: PlateBoundaryProperties;
+}
+
+/** Boundary lines split into segments, ready for distance queries */
+export interface BoundaryIndex {
+  segments: BoundarySegment[];
+}
+
+export function createBoundaryIndex(
+  boundaries: PlateBoundaryCollection
+): BoundaryIndex {
+  const segments: BoundarySegment[] = [];
+
+  for (const { geometry, properties } of boundaries.features) {
+    const lines =
+      geometry.type === 'LineString'
+        ? [geometry.coordinates]
+        : geometry.coordinates;
+
+    for (const line of lines) {
+      for (let i = 1; i < line.length; i++) {
+        const from: LngLat = [line[i - 1][0], line[i - 1][1]];
+        const to: LngLat = [line[i][0], line[i][1]];
+        segments.push({
+          from,
+          to,
+          minLatitude: Math.min(from[1], to[1]),
+          maxLatitude: Math.max(from[1], to[1]),
+          properties,
+        });
+      }
+    }
+  }
+
+  return { segments };
+}
+
+/**
+ * Distance from a point to a segment in a flat projection centered on the
+ * point. Close to the great-circle distance for the few hundred km that
+ * matter here; segments never cross the antimeridian, so only the start is
+ * wrapped and the end keeps its offset from it.
+ */
+function distanceToSegmentKm(
+  [longitude, latitude]: LngLat,
+  { from, to }: BoundarySegment
+): number {
+  const kx = Math.cos(toRadians(latitude)) * KM_PER_DEGREE;
+  const ax = wrapLongitude(from[0] - longitude) * kx;
+  const ay = (from[1] - latitude) * KM_PER_DEGREE;
+  const bx = ax + (to[0] - from[0]) * kx;
+  const by = (to[1] - latitude) * KM_PER_DEGREE;
+
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared > 0
+      ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared))
+      : 0;
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+/**
+ * Closest boundary to a point, or null without any boundaries.
+ */
+export function getNearestBoundary(
+  { longitude, latitude }: Pick<Earthquake, 'longitude' | 'latitude'>,
+  { segments }: BoundaryIndex
+): NearestBoundary | null {
+  let nearest: BoundarySegment | null = null;
+  let best = Infinity;
+
+  for (const segment of segments) {
+    // No closer than the latitude gap; skips most segments cheaply
+    const latitudeGap = Math.max(
+      0,
+      segment.minLatitude - latitude,
+      latitude - segment.maxLatitude
+    );
+    if (latitudeGap * KM_PER_DEGREE >= best) continue;
+
+    const distance = distanceToSegmentKm([longitude, latitude], segment);
+    if (distance < best) {
+      best = distance;
+      nearest = segment;
+    }
+  }
+
+  return nearest
+    ? {
+        name: nearest.properties.name,
+        type: nearest.properties.type,
+        distanceKm: best,
+      }
+    : null;
+}
+
+/**
+ * Distance in km from each event to the nearest boundary, by event id.
+ */
+export function getBoundaryDistances(
+  earthquakes: Earthquake[],
+  index: BoundaryIndex
+): Record<string, number> {
+  const distances: Record<string, number> = {};
+  for (const eq of earthquakes) {
+    const nearest = getNearestBoundary(eq, index);
+    if (nearest) distances[eq.id] = nearest.distanceKm;
+  }
+  return distances;
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clampPlaybackTime,
+  getPlaybackFrame,
+  getTimeBounds,
+} from './playbackFrame';
+import { createEarthquake } from '../test/earthquakeFixture';
+import { HOUR_MS } from './time';
+
+describe('playbackFrame', () => {
+  const earthquakes = [
+    createEarthquake('b', { timestamp: '2024-01-02T00:00:00.000Z' }),
+    createEarthquake('a', { timestamp: '2024-01-01T00:00:00.000Z' }),
+    createEarthquake('c', { timestamp: '2024-01-03T00:00:00.000Z' }),
+  ];
+
+  describe('getTimeBounds', () => {
+    it('returns null for an empty catalog', () => {
+      expect(getTimeBounds([])).toBeNull();
+    });
+
+    it('finds the earliest and latest events regardless of order', () => {
+      expect(getTimeBounds(earthquakes)).toEqual({
+        start: Date.parse('2024-01-01T00:00:00.000Z'),
+        end: Date.parse('2024-01-03T00:00:00.000Z'),
+      });
+    });
+  });
+
+  describe('clampPlaybackTime', () => {
+    const bounds = { start: 100, end: 200 };
+
+    it('keeps times within bounds', () => {
+      expect(clampPlaybackTime(150, bounds)).toBe(150);
+    });
+
+    it('clamps to the start and end', () => {
+      expect(clampPlaybackTime(0, bounds)).toBe(100);
+      expect(clampPlaybackTime(500, bounds)).toBe(200);
+    });
+  });
+
+  describe('getPlaybackFrame', () => {
+    const start = Date.parse('2024-01-01T00:00:00.000Z');
+
+    it('excludes events that have not happened yet', () => {
+      const frame = getPlaybackFrame(earthquakes, start, 48 * HOUR_MS);
+
+      expect(frame.map((eq) => eq.id)).toEqual(['a']);
+      expect(frame[0].age).toBe(0);
+    });
+
+    it('excludes events older than the trail', () => {
+      const frame = getPlaybackFrame(
+        earthquakes,
+        start + 36 * HOUR_MS,
+        24 * HOUR_MS
+      );
+
+      expect(frame.map((eq) => eq.id)).toEqual(['b']);
+    });
+
+    it('tags events with their normalized age', () => {
+      const frame = getPlaybackFrame(
+        earthquakes,
+        start + 30 * HOUR_MS,
+        48 * HOUR_MS
+      );
+
+      const ages = Object.fromEntries(frame.map((eq) => [eq.id, eq.age]));
+      expect(ages.a).toBeCloseTo(30 / 48);
+      expect(ages.b).toBeCloseTo(6 / 48);
+    });
+
+    it('keeps the original event fields', () => {
+      const [event] = getPlaybackFrame(earthquakes, start, HOUR_MS);
+
+      expect(event).toMatchObject(earthquakes[1]);
+    });
+  });
+});
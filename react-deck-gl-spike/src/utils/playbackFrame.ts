@@ -0,0 +1,54 @@
+import type { Earthquake } from '../types/earthquake';
+
+export interface TimeBounds {
+  start: number;
+  end: number;
+}
+
+export interface PlaybackEarthquake extends Earthquake {
+  /** Fraction of the trail elapsed since the event (0 = just happened) */
+  age: number;
+}
+
+/**
+ * Earliest and latest event times in epoch ms, or null for an empty catalog.
+ */
+export function getTimeBounds(earthquakes: Earthquake[]): TimeBounds | null {
+  if (earthquakes.length === 0) return null;
+
+  let start = Infinity;
+  let end = -Infinity;
+  for (const eq of earthquakes) {
+    const time = new Date(eq.timestamp).getTime();
+    if (time < start) start = time;
+    if (time > end) end = time;
+  }
+  return { start, end };
+}
+
+/**
+ * Keep a playback time within the catalog's bounds.
+ */
+export function clampPlaybackTime(time: number, bounds: TimeBounds): number {
+  return Math.min(bounds.end, Math.max(bounds.start, time));
+}
+
+/**
+ * Events visible at `currentTime`: those that have already happened and are
+ * younger than `trailMs`, each tagged with its normalized age for fading.
+ */
+export function getPlaybackFrame(
+  earthquakes: Earthquake[],
+  currentTime: number,
+  trailMs: number
+): PlaybackEarthquake[] {
+  const frame: PlaybackEarthquake[] = [];
+
+  for (const eq of earthquakes) {
+    const elapsed = currentTime - new Date(eq.timestamp).getTime();
+    if (elapsed < 0 || elapsed > trailMs) continue;
+    frame.push({ ...eq, age: trailMs > 0 ? elapsed / trailMs : 0 });
+  }
+
+  return frame;
+}
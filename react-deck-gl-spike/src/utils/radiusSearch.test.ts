@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  filterByRadius,
+  findNearby,
+  getCircleRing,
+  getRadiusFilter,
+  parseCoordinates,
+} from './radiusSearch';
+import { haversineDistanceKm } from './haversine';
+import type { RadiusSearch } from '../types/radiusSearch';
+import { createEarthquake } from '../test/earthquakeFixture';
+
+// Roughly 111 km per degree along the equator
+const earthquakes = [
+  createEarthquake('far', { longitude: 1.5, latitude: 0 }),
+  createEarthquake('near', { longitude: 0.2, latitude: 0 }),
+  createEarthquake('outside', { longitude: 3, latitude: 0 }),
+  createEarthquake('middle', { longitude: 0, latitude: -0.8 }),
+];
+const search: RadiusSearch = { center: [0, 0], radiusKm: 200 };
+
+describe('findNearby', () => {
+  it('returns events within the radius, nearest first', () => {
+    const results = findNearby(earthquakes, search);
+
+    expect(results.map((r) => r.earthquake.id)).toEqual([
+      'near',
+      'middle',
+      'far',
+    ]);
+    expect(results[0].distanceKm).toBeCloseTo(22.24, 1);
+  });
+
+  it('includes events exactly on the circle', () => {
+    const radiusKm = haversineDistanceKm(0, 0, 0, 1.5);
+    const results = findNearby(earthquakes, { center: [0, 0], radiusKm });
+
+    expect(results.map((r) => r.earthquake.id)).toContain('far');
+  });
+
+  it('measures across the antimeridian', () => {
+    const results = findNearby(
+      [createEarthquake('fiji', { longitude: -179.8, latitude: -17 })],
+      {
+        center: [179.8, -17],
+        radiusKm: 50,
+      }
+    );
+
+    expect(results).toHaveLength(1);
+    expect(results[0].distanceKm).toBeCloseTo(42.5, 0);
+  });
+});
+
+describe('filterByRadius', () => {
+  it('keeps events within the radius in their original order', () => {
+    expect(filterByRadius(earthquakes, search).map((eq) => eq.id)).toEqual([
+      'far',
+      'near',
+      'middle',
+    ]);
+  });
+
+  it('returns all earthquakes without a search', () => {
+    expect(filterByRadius(earthquakes, null)).toBe(earthquakes);
+  });
+});
+
+describe('getRadiusFilter', () => {
+  it('describes the search', () => {
+    expect(getRadiusFilter({ center: [139.69, 35.68], radiusKm: 100 })).toEqual(
+      {
+        kind: 'radius',
+        label: 'Within 100 km of 35.680°N, 139.690°E',
+      }
+    );
+  });
+
+  it('returns null without a search', () => {
+    expect(getRadiusFilter(null)).toBeNull();
+  });
+});
+
+describe('getCircleRing', () => {
+  it('places every vertex at the radius', () => {
+    const ring = getCircleRing({ center: [-122.42, 37.77], radiusKm: 250 });
+
+    expect(ring).toHaveLength(64);
+    for (const [lng, lat] of ring) {
+      expect(haversineDistanceKm(37.77, -122.42, lat, lng)).toBeCloseTo(250, 6);
+    }
+  });
+
+  it('starts due north of the center', () => {
+    const [[lng, lat]] = getCircleRing(search, 8);
+    expect(lng).toBeCloseTo(0, 6);
+    expect(lat).toBeCloseTo(1.8, 1);
+  });
+});
+
+describe('parseCoordinates', () => {
+  it('parses comma-separated latitude and longitude', () => {
+    expect(parseCoordinates('35.68, 139.69')).toEqual([139.69, 35.68]);
+  });
+
+  it('parses space-separated negative values', () => {
+    expect(parseCoordinates(' -33.45 -70.66 ')).toEqual([-70.66, -33.45]);
+  });
+
+  it.each([
+    '',
+    '35.68',
+    '35.68, 139.69, 10',
+    'north, east',
+    '95, 10',
+    '10, 190',
+  ])('rejects %j', (text) => {
+    expect(parseCoordinates(text)).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import type { Earthquake } from '../types/earthquake';
+import type { RadiusSearch } from '../types/radiusSearch';
+import type { LngLat } from '../types/spatialSelection';
+import type { ActiveFilter } from './filterEarthquakes';
+import { formatCoordinates } from './formatters';
+import { destinationPoint, haversineDistanceKm } from './haversine';
+import { isValidCoordinate } from './validateCoordinates';
+
+export interface EarthquakeDistance {
+  earthquake: Earthquake;
+  /** Great-circle distance from the search center to the epicenter */
+  distanceKm: number;
+}
+
+function distanceFromCenter(earthquake: Earthquake, [lng, lat]: LngLat) {
+  return haversineDistanceKm(
+    lat,
+    lng,
+    earthquake.latitude,
+    earthquake.longitude
+  );
+}
+
+/**
+ * Earthquakes within the search radius, nearest first.
+ */
+export function findNearby(
+  earthquakes: Earthquake[],
+  { center, radiusKm }: RadiusSearch
+): EarthquakeDistance[] {
+  return earthquakes
+    .map((earthquake) => ({
+      earthquake,
+      distanceKm: distanceFromCenter(earthquake, center),
+    }))
+    .filter(({ distanceKm }) => distanceKm <= radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+}
+
+/**
+ * Earthquakes within the search radius, in their original order.
+ * Returns all earthquakes when there is no search.
+ */
+export function filterByRadius(
+  earthquakes: Earthquake[],
+  search: RadiusSearch | null
+): Earthquake[] {
+  if (!search) return earthquakes;
+
+  return earthquakes.filter(
+    (eq) => distanceFromCenter(eq, search.center) <= search.radiusKm
+  );
+}
+
+/**
+ * Active-filter entry describing the search, or null without one.
+ */
+export function getRadiusFilter(
+  search: RadiusSearch | null
+): ActiveFilter | null {
+  if (!search) return null;
+  const [lng, lat] = search.center;
+  return {
+    kind: 'radius',
+    label: `Within ${search.radiusKm} km of ${formatCoordinates(lng, lat)}`,
+  };
+}
+
+/**
+ * Ring approximating the search circle on the sphere, for drawing.
+ * Longitudes stay continuous so rings crossing the antimeridian draw whole.
+ */
+export function getCircleRing(
+  { center, radiusKm }: RadiusSearch,
+  steps: number = 64
+): LngLat[] {
+  const [lng, lat] = center;
+  return Array.from({ length: steps }, (_, i) =>
+    destinationPoint(lat, lng, (360 * i) / steps, radiusKm)
+  );
+}
+
+/**
+ * Parse typed coordinates as "latitude, longitude" in decimal degrees,
+ * e.g. "35.68, 139.69" or "-33.45 -70.66". Returns null when the text is
+ * not a valid coordinate pair.
+ */
+export function parseCoordinates(text: string): LngLat | null {
+  const parts = text.trim().split(/[\s,]+/);
+  if (parts.length !== 2) return null;
+
+  const [lat, lng] = parts.map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (!isValidCoordinate(lng, lat)) return null;
+
+  return [lng, lat];
+}
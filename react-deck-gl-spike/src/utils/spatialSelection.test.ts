@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  filterBySelection,
+  getAreaFilter,
+  isInShape,
+  isPointInPolygon,
+  shapeToGeoJSON,
+} from './spatialSelection';
+import type { LngLat, SelectionShape } from '../types/spatialSelection';
+import { createEarthquake } from '../test/earthquakeFixture';
+
+const square: LngLat[] = [
+  [0, 0],
+  [10, 0],
+  [10, 10],
+  [0, 10],
+];
+
+// U shape open to the north; (5, 8) lies in the notch
+const uShape: LngLat[] = [
+  [0, 0],
+  [10, 0],
+  [10, 10],
+  [7, 10],
+  [7, 3],
+  [3, 3],
+  [3, 10],
+  [0, 10],
+];
+
+describe('isPointInPolygon', () => {
+  it('finds points inside a square', () => {
+    expect(isPointInPolygon([5, 5], square)).toBe(true);
+  });
+
+  it('rejects points outside a square', () => {
+    expect(isPointInPolygon([15, 5], square)).toBe(false);
+    expect(isPointInPolygon([5, -1], square)).toBe(false);
+  });
+
+  it('handles concave polygons', () => {
+    expect(isPointInPolygon([1.5, 8], uShape)).toBe(true);
+    expect(isPointInPolygon([5, 8], uShape)).toBe(false);
+    expect(isPointInPolygon([5, 1], uShape)).toBe(true);
+  });
+
+  it('works regardless of winding order', () => {
+    expect(isPointInPolygon([5, 5], [...square].reverse())).toBe(true);
+  });
+
+  it('accepts an explicitly closed ring', () => {
+    expect(isPointInPolygon([5, 5], [...square, square[0]])).toBe(true);
+  });
+
+  it('returns false for degenerate rings', () => {
+    expect(isPointInPolygon([0, 0], [])).toBe(false);
+    expect(
+      isPointInPolygon(
+        [1, 1],
+        [
+          [0, 0],
+          [2, 2],
+        ]
+      )
+    ).toBe(false);
+  });
+});
+
+describe('filterBySelection', () => {
+  const earthquakes = [
+    createEarthquake('inside-a', { longitude: 5, latitude: 5 }),
+    createEarthquake('inside-b', { longitude: 25, latitude: 25 }),
+    createEarthquake('outside', { longitude: 50, latitude: 50 }),
+  ];
+  const shapes: SelectionShape[] = [
+    { id: 'a', tool: 'polygon', ring: square },
+    {
+      id: 'b',
+      tool: 'rectangle',
+      ring: [
+        [20, 20],
+        [30, 20],
+        [30, 30],
+        [20, 30],
+      ],
+    },
+  ];
+
+  it('keeps earthquakes inside any shape', () => {
+    expect(filterBySelection(earthquakes, shapes).map((eq) => eq.id)).toEqual([
+      'inside-a',
+      'inside-b',
+    ]);
+  });
+
+  it('returns all earthquakes without shapes', () => {
+    expect(filterBySelection(earthquakes, [])).toBe(earthquakes);
+  });
+
+  it('tests a single shape with isInShape', () => {
+    expect(isInShape(earthquakes[0], shapes[0])).toBe(true);
+    expect(isInShape(earthquakes[1], shapes[0])).toBe(false);
+  });
+});
+
+describe('getAreaFilter', () => {
+  it('returns null without shapes', () => {
+    expect(getAreaFilter([])).toBeNull();
+  });
+
+  it('counts the drawn shapes', () => {
+    const shape: SelectionShape = { id: 'a', tool: 'lasso', ring: square };
+
+    expect(getAreaFilter([shape])).toEqual({
+      kind: 'area',
+      label: 'Area: 1 shape',
+    });
+    expect(getAreaFilter([shape, { ...shape, id: 'b' }])?.label).toBe(
+      'Area: 2 shapes'
+    );
+  });
+});
+
+describe('shapeToGeoJSON', () => {
+  const shape: SelectionShape = { id: 'shape-1', tool: 'lasso', ring: square };
+
+  it('creates a closed GeoJSON polygon', () => {
+    const feature = shapeToGeoJSON(shape);
+
+    expect(feature.type).toBe('Feature');
+    expect(feature.geometry.type).toBe('Polygon');
+    expect(feature.geometry.coordinates[0]).toHaveLength(5);
+    expect(feature.geometry.coordinates[0][4]).toEqual([0, 0]);
+  });
+
+  it('records the shape id and tool', () => {
+    expect(shapeToGeoJSON(shape).properties).toEqual({
+      id: 'shape-1',
+      tool: 'lasso',
+    });
+  });
+
+  it('round-trips through JSON', () => {
+    const feature = shapeToGeoJSON(shape);
+
+    expect(JSON.parse(JSON.stringify(feature))).toEqual(feature);
+  });
+});
@@ -0,0 +1,88 @@
+import type { Earthquake } from '../types/earthquake';
+import type { LngLat, SelectionShape } from '../types/spatialSelection';
+import type { ActiveFilter } from './filterEarthquakes';
+
+export interface SelectionFeature {
+  type: 'Feature';
+  geometry: {
+    type: 'Polygon';
+    coordinates: LngLat[][];
+  };
+  properties: {
+    id: string;
+    tool: SelectionShape['tool'];
+  };
+}
+
+/**
+ * Whether a point lies inside a polygon ring, by ray casting.
+ * Points exactly on an edge may fall on either side.
+ */
+export function isPointInPolygon([x, y]: LngLat, ring: LngLat[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Whether an earthquake's epicenter lies inside a selection shape.
+ */
+export function isInShape(earthquake: Earthquake, shape: SelectionShape) {
+  return isPointInPolygon(
+    [earthquake.longitude, earthquake.latitude],
+    shape.ring
+  );
+}
+
+/**
+ * Earthquakes inside any of the shapes.
+ * Returns all earthquakes when there are no shapes.
+ */
+export function filterBySelection(
+  earthquakes: Earthquake[],
+  shapes: SelectionShape[]
+): Earthquake[] {
+  if (shapes.length === 0) return earthquakes;
+
+  return earthquakes.filter((eq) =>
+    shapes.some((shape) => isInShape(eq, shape))
+  );
+}
+
+/**
+ * Active-filter entry describing the drawn shapes, or null without shapes.
+ */
+export function getAreaFilter(shapes: SelectionShape[]): ActiveFilter | null {
+  if (shapes.length === 0) return null;
+  return {
+    kind: 'area',
+    label: `Area: ${shapes.length} ${shapes.length === 1 ? 'shape' : 'shapes'}`,
+  };
+}
+
+/**
+ * GeoJSON Polygon feature for a shape, with the ring closed as the spec
+ * requires.
+ */
+export function shapeToGeoJSON(shape: SelectionShape): SelectionFeature {
+  return {
+    type: 'Feature',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [[...shape.ring, shape.ring[0]]],
+    },
+    properties: {
+      id: shape.id,
+      tool: shape.tool,
+    },
+  };
+}
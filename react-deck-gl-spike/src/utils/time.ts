@@ -0,0 +1,4 @@
+// Durations in milliseconds
+export const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
+export const YEAR_MS = 365.25 * DAY_MS;
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { buildTimeHistogram, getHistogramBinSize } from './timeHistogram';
+import { DAY_MS, HOUR_MS } from './time';
+import { createEarthquake } from '../test/earthquakeFixture';
+
+describe('getHistogramBinSize', () => {
+  it('uses hourly bins for catalogs up to a week', () => {
+    expect(getHistogramBinSize(DAY_MS)).toBe(HOUR_MS);
+    expect(getHistogramBinSize(7 * DAY_MS)).toBe(HOUR_MS);
+  });
+
+  it('uses daily bins for longer catalogs', () => {
+    expect(getHistogramBinSize(30 * DAY_MS)).toBe(DAY_MS);
+  });
+});
+
+describe('buildTimeHistogram', () => {
+  const earthquakes = [
+    createEarthquake('a', {
+      timestamp: '2024-01-01T00:15:00Z',
+      magnitude: 2.5,
+    }),
+    createEarthquake('b', {
+      timestamp: '2024-01-01T00:45:00Z',
+      magnitude: 4.2,
+    }),
+    createEarthquake('c', {
+      timestamp: '2024-01-01T02:30:00Z',
+      magnitude: 6.1,
+    }),
+  ];
+  const bounds = {
+    start: Date.parse('2024-01-01T00:15:00Z'),
+    end: Date.parse('2024-01-01T02:30:00Z'),
+  };
+
+  it('creates UTC-aligned bins covering the bounds', () => {
+    const bins = buildTimeHistogram(earthquakes, bounds, HOUR_MS);
+
+    expect(bins).toHaveLength(3);
+    expect(bins[0].start).toBe(Date.parse('2024-01-01T00:00:00Z'));
+    expect(bins[2].end).toBe(Date.parse('2024-01-01T03:00:00Z'));
+  });
+
+  it('keeps empty bins', () => {
+    const bins = buildTimeHistogram(earthquakes, bounds, HOUR_MS);
+
+    expect(bins.map((bin) => bin.total)).toEqual([2, 0, 1]);
+  });
+
+  it('splits counts by magnitude class', () => {
+    const bins = buildTimeHistogram(earthquakes, bounds, HOUR_MS);
+
+    expect(bins[0].counts).toEqual({
+      Minor: 1,
+      Light: 0,
+      Moderate: 1,
+      Strong: 0,
+      Major: 0,
+      Great: 0,
+    });
+    expect(bins[2].counts.Major).toBe(1);
+  });
+
+  it('ignores events outside the bounds', () => {
+    const bins = buildTimeHistogram(
+      [
+        ...earthquakes,
+        createEarthquake('late', {
+          timestamp: '2024-01-02T00:00:00Z',
+          magnitude: 3,
+        }),
+      ],
+      bounds,
+      HOUR_MS
+    );
+
+    expect(bins.reduce((sum, bin) => sum + bin.total, 0)).toBe(3);
+  });
+
+  it('bins by day', () => {
+    const bins = buildTimeHistogram(earthquakes, bounds, DAY_MS);
+
+    expect(bins).toHaveLength(1);
+    expect(bins[0].total).toBe(3);
+  });
+});
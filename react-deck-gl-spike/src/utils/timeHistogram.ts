@@ -0,0 +1,70 @@
+import type { Earthquake } from '../types/earthquake';
+import {
+  formatMagnitude,
+  MAGNITUDE_CLASSES,
+  type MagnitudeClass,
+} from './formatters';
+import type { TimeBounds } from './playbackFrame';
+import { DAY_MS, HOUR_MS } from './time';
+
+// Catalogs up to a week long are binned by hour, longer ones by day
+const HOURLY_MAX_SPAN_MS = 7 * DAY_MS;
+
+export interface TimeHistogramBin {
+  /** Epoch ms of the bin start (inclusive) */
+  start: number;
+  /** Epoch ms of the bin end (exclusive) */
+  end: number;
+  counts: Record<MagnitudeClass, number>;
+  total: number;
+}
+
+/**
+ * Hourly bins for catalogs up to a week long, daily bins beyond that.
+ */
+export function getHistogramBinSize(spanMs: number): number {
+  return spanMs <= HOURLY_MAX_SPAN_MS ? HOUR_MS : DAY_MS;
+}
+
+function emptyCounts(): Record<MagnitudeClass, number> {
+  return Object.fromEntries(
+    MAGNITUDE_CLASSES.map((magnitudeClass) => [magnitudeClass, 0])
+  ) as Record<MagnitudeClass, number>;
+}
+
+/**
+ * Count events per UTC-aligned time bin across `bounds`, split by magnitude
+ * class. Every bin in the bounds is present, including empty ones, so two
+ * histograms over the same span line up bar for bar.
+ */
+export function buildTimeHistogram(
+  earthquakes: Earthquake[],
+  bounds: TimeBounds,
+  binSizeMs: number
+): TimeHistogramBin[] {
+  const first = Math.floor(bounds.start / binSizeMs) * binSizeMs;
+  const binCount = Math.max(
+    1,
+    Math.floor((bounds.end - first) / binSizeMs) + 1
+  );
+
+  const bins: TimeHistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    start: first + i * binSizeMs,
+    end: first + (i + 1) * binSizeMs,
+    counts: emptyCounts(),
+    total: 0,
+  }));
+
+  for (const eq of earthquakes) {
+    const index = Math.floor(
+      (new Date(eq.timestamp).getTime() - first) / binSizeMs
+    );
+    const bin = bins[index];
+    if (!bin) continue;
+
+    bin.counts[formatMagnitude(eq.magnitude).descriptor]++;
+    bin.total++;
+  }
+
+  return bins;
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  filterByBounds,
+  getEarthquakeBounds,
+  getViewportBounds,
+  unprojectPixel,
+} from './viewportBounds';
+import { createEarthquake } from '../test/earthquakeFixture';
+
+describe('getViewportBounds', () => {
+  const japanView = {
+    longitude: 138,
+    latitude: 36,
+    zoom: 5,
+    pitch: 0,
+    bearing: 0,
+  };
+
+  it('returns undefined for a zero-sized viewport', () => {
+    expect(getViewportBounds(japanView, 0, 0)).toBeUndefined();
+  });
+
+  it('returns bounds surrounding the view center', () => {
+    const bounds = getViewportBounds(japanView, 800, 600);
+
+    expect(bounds).toBeDefined();
+    expect(bounds!.minLongitude).toBeLessThan(138);
+    expect(bounds!.maxLongitude).toBeGreaterThan(138);
+    expect(bounds!.minLatitude).toBeLessThan(36);
+    expect(bounds!.maxLatitude).toBeGreaterThan(36);
+  });
+
+  it('returns undefined when the whole world is visible', () => {
+    const worldView = { ...japanView, longitude: 0, latitude: 0, zoom: 0.5 };
+
+    expect(getViewportBounds(worldView, 2000, 1000)).toBeUndefined();
+  });
+
+  it('clamps bounds to valid longitudes', () => {
+    const edgeView = { ...japanView, longitude: 178, zoom: 3 };
+    const bounds = getViewportBounds(edgeView, 800, 600);
+
+    expect(bounds!.maxLongitude).toBeLessThanOrEqual(180);
+    expect(bounds!.minLongitude).toBeGreaterThanOrEqual(-180);
+  });
+});
+
+describe('getEarthquakeBounds', () => {
+  it('returns null for no earthquakes', () => {
+    expect(getEarthquakeBounds([])).toBeNull();
+  });
+
+  it('encloses all earthquakes', () => {
+    expect(
+      getEarthquakeBounds([
+        createEarthquake('a', { longitude: 142, latitude: 38 }),
+        createEarthquake('b', { longitude: 130, latitude: 45 }),
+        createEarthquake('c', { longitude: 138, latitude: 31 }),
+      ])
+    ).toEqual({
+      minLongitude: 130,
+      minLatitude: 31,
+      maxLongitude: 142,
+      maxLatitude: 45,
+    });
+  });
+});
+
+describe('filterByBounds', () => {
+  const earthquakes = [
+    createEarthquake('tokyo', { longitude: 139.7, latitude: 35.7 }),
+    createEarthquake('sf', { longitude: -122.4, latitude: 37.8 }),
+    createEarthquake('edge', { longitude: 130, latitude: 30 }),
+  ];
+
+  it('keeps earthquakes inside the bounds, edges included', () => {
+    const result = filterByBounds(earthquakes, {
+      minLongitude: 130,
+      minLatitude: 30,
+      maxLongitude: 145,
+      maxLatitude: 45,
+    });
+
+    expect(result.map((eq) => eq.id)).toEqual(['tokyo', 'edge']);
+  });
+
+  it('returns all earthquakes without bounds', () => {
+    expect(filterByBounds(earthquakes, undefined)).toBe(earthquakes);
+  });
+});
+
+describe('unprojectPixel', () => {
+  const view = { longitude: 138, latitude: 36, zoom: 5, pitch: 0, bearing: 0 };
+
+  it('maps the viewport center to the view center', () => {
+    const [longitude, latitude] = unprojectPixel(view, 800, 600, [400, 300]);
+
+    expect(longitude).toBeCloseTo(138, 6);
+    expect(latitude).toBeCloseTo(36, 6);
+  });
+
+  it('maps the top-left corner north-west of the center', () => {
+    const [longitude, latitude] = unprojectPixel(view, 800, 600, [0, 0]);
+
+    expect(longitude).toBeLessThan(138);
+    expect(latitude).toBeGreaterThan(36);
+  });
+});
@@ -0,0 +1,85 @@
+import { WebMercatorViewport, type MapViewState } from '@deck.gl/core';
+import type { BoundingBox } from '../api/fdsnEvents';
+import type { Earthquake } from '../types/earthquake';
+
+/**
+ * Geographic bounding box of the visible map area.
+ * Returns undefined when the viewport has no size or spans the whole
+ * world, so callers can skip spatial constraints entirely.
+ */
+export function getViewportBounds(
+  viewState: MapViewState,
+  width: number,
+  height: number
+): BoundingBox | undefined {
+  if (width <= 0 || height <= 0) return undefined;
+
+  const viewport = new WebMercatorViewport({ ...viewState, width, height });
+  const [minLongitude, minLatitude, maxLongitude, maxLatitude] =
+    viewport.getBounds();
+
+  if (maxLongitude - minLongitude >= 360) return undefined;
+
+  return {
+    minLongitude: Math.max(-180, minLongitude),
+    minLatitude: Math.max(-90, minLatitude),
+    maxLongitude: Math.min(180, maxLongitude),
+    maxLatitude: Math.min(90, maxLatitude),
+  };
+}
+
+/**
+ * Geographic bounding box enclosing all earthquakes, or null when empty.
+ */
+export function getEarthquakeBounds(
+  earthquakes: Earthquake[]
+): BoundingBox | null {
+  if (earthquakes.length === 0) return null;
+
+  const bounds: BoundingBox = {
+    minLongitude: Infinity,
+    minLatitude: Infinity,
+    maxLongitude: -Infinity,
+    maxLatitude: -Infinity,
+  };
+  for (const eq of earthquakes) {
+    bounds.minLongitude = Math.min(bounds.minLongitude, eq.longitude);
+    bounds.minLatitude = Math.min(bounds.minLatitude, eq.latitude);
+    bounds.maxLongitude = Math.max(bounds.maxLongitude, eq.longitude);
+    bounds.maxLatitude = Math.max(bounds.maxLatitude, eq.latitude);
+  }
+  return bounds;
+}
+
+/**
+ * Earthquakes whose epicenter lies inside `bounds` (inclusive).
+ * Returns all earthquakes when there are no bounds.
+ */
+export function filterByBounds(
+  earthquakes: Earthquake[],
+  bounds: BoundingBox | undefined
+): Earthquake[] {
+  if (!bounds) return earthquakes;
+
+  return earthquakes.filter(
+    (eq) =>
+      eq.longitude >= bounds.minLongitude &&
+      eq.longitude <= bounds.maxLongitude &&
+      eq.latitude >= bounds.minLatitude &&
+      eq.latitude <= bounds.maxLatitude
+  );
+}
+
+/**
+ * Geographic [longitude, latitude] under a pixel of a map of the given size.
+ */
+export function unprojectPixel(
+  viewState: MapViewState,
+  width: number,
+  height: number,
+  [x, y]: [number, number]
+): [number, number] {
+  const viewport = new WebMercatorViewport({ ...viewState, width, height });
+  const [longitude, latitude] = viewport.unproject([x, y]);
+  return [longitude, latitude];
+}